@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Bot, FileText, History, Save, RotateCcw, Loader2, CheckCircle, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react'
+import { Bot, FileText, History, Save, RotateCcw, Loader2, CheckCircle, AlertCircle, ChevronDown, ChevronUp, GitCompare } from 'lucide-react'
 import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
 import { Button } from '@/components/ui/Button'
 import { Card, CardBody } from '@/components/ui/Card'
@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/Form'
 import { Text } from '@/components/ui/Text'
 import { Badge } from '@/components/ui/Badge'
 import { Pagination } from '@/components/ui/Pagination'
+import PromptVersionsPanel from './PromptVersionsPanel'
 
 type Prompt = {
     id: string | null
@@ -33,6 +34,7 @@ type LogEntry = {
     model: string
     systemPrompt: string
     userPrompt: string
+    images: { label: string; source: 'question' | 'answer'; kind: 'image' | 'graph'; ref: string; bytes: number }[] | null
     rawResponse: string | null
     score: number | null
     feedback: string | null
@@ -45,7 +47,7 @@ type LogEntry = {
     createdAt: string
 }
 
-type Tab = 'prompts' | 'logs'
+type Tab = 'prompts' | 'versions' | 'logs'
 
 export default function AIConfigClient() {
     const [activeTab, setActiveTab] = useState<Tab>('prompts')
@@ -60,7 +62,7 @@ export default function AIConfigClient() {
     const [logTotal, setLogTotal] = useState(0)
 
     useEffect(() => {
-        if (activeTab === 'prompts') {
+        if (activeTab === 'prompts' || activeTab === 'versions') {
             fetchPrompts()
         } else {
             fetchLogs()
@@ -165,6 +167,19 @@ export default function AIConfigClient() {
                         <FileText className="w-4 h-4" />
                         Prompts
                     </Button>
+                    <Button
+                        onClick={() => setActiveTab('versions')}
+                        variant="ghost"
+                        size="sm"
+                        className={`flex items-center gap-2 border-b-2 ${
+                            activeTab === 'versions'
+                                ? 'border-brand-600 text-brand-600'
+                                : 'border-transparent text-gray-500'
+                        }`}
+                    >
+                        <GitCompare className="w-4 h-4" />
+                        Versions et calibration
+                    </Button>
                     <Button
                         onClick={() => setActiveTab('logs')}
                         variant="ghost"
@@ -278,6 +293,10 @@ export default function AIConfigClient() {
                         </Card>
                     ))}
                 </Stack>
+            ) : activeTab === 'versions' ? (
+                <PromptVersionsPanel
+                    currentContent={Object.fromEntries(prompts.map((prompt) => [prompt.key, prompt.content]))}
+                />
             ) : (
                 /* Logs Tab */
                 <Stack gap="md">
@@ -344,6 +363,21 @@ export default function AIConfigClient() {
                                                     </pre>
                                                 </Stack>
 
+                                                {/* Images sent to the model */}
+                                                {log.images && log.images.length > 0 && (
+                                                    <Stack gap="xs">
+                                                        <Text variant="label">Images envoyees</Text>
+                                                        <ul className="p-3 bg-white border border-gray-200 rounded text-xs text-gray-600 space-y-1">
+                                                            {log.images.map((image) => (
+                                                                <li key={image.label}>
+                                                                    {image.label} ({image.source === 'question' ? 'question' : 'reponse'}, {image.kind === 'graph' ? 'graphique rendu' : 'image'}) :{' '}
+                                                                    <span className="font-mono">{image.ref}</span> • {Math.round(image.bytes / 1024)} Ko
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    </Stack>
+                                                )}
+
                                                 {/* Response */}
                                                 {log.success ? (
                                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -0,0 +1,242 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Input, Select, Textarea } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Badge } from '@/components/ui/Badge'
+import { CalibrationRunsComparison, type CalibrationRunSummary } from '@/components/grading/CalibrationRunsComparison'
+
+type PromptKey = 'GRADING_SYSTEM' | 'RUBRIC_SYSTEM'
+
+type PromptVersion = {
+    id: string
+    label: string
+    content: string
+    createdAt: string
+    activatedAt: string | null
+}
+
+type VersionComparison = {
+    versions: PromptVersion[]
+    sets: { id: string; name: string; examTitle: string; runs: CalibrationRunSummary[] }[]
+}
+
+const PROMPT_KEYS: Record<PromptKey, string> = {
+    GRADING_SYSTEM: 'Correction',
+    RUBRIC_SYSTEM: 'Generation de bareme',
+}
+
+interface PromptVersionsPanelProps {
+    // Current content of each prompt, used to start a new version from
+    currentContent: Record<string, string>
+}
+
+/**
+ * Candidate prompt versions: drafts are compared on teachers' golden sets before
+ * one is activated as the prompt used in production.
+ */
+export default function PromptVersionsPanel({ currentContent }: PromptVersionsPanelProps) {
+    const [key, setKey] = useState<PromptKey>('GRADING_SYSTEM')
+    const [data, setData] = useState<VersionComparison | null>(null)
+    const [creating, setCreating] = useState(false)
+    const [label, setLabel] = useState('')
+    const [content, setContent] = useState('')
+    const [saving, setSaving] = useState(false)
+
+    const fetchVersions = useCallback(async () => {
+        try {
+            setData(await fetchJsonWithCsrf<VersionComparison>(`/api/admin/platform/ai-prompts/versions?key=${key}`))
+        } catch (error) {
+            console.error('Failed to fetch prompt versions:', error)
+        }
+    }, [key])
+
+    useEffect(() => {
+        fetchVersions()
+    }, [fetchVersions])
+
+    const handleStartVersion = () => {
+        setLabel('')
+        setContent(currentContent[key] ?? '')
+        setCreating(true)
+    }
+
+    const handleCreate = async () => {
+        setSaving(true)
+        try {
+            await fetchJsonWithCsrf('/api/admin/platform/ai-prompts/versions', {
+                method: 'POST',
+                body: { key, label: label.trim(), content }
+            })
+            setCreating(false)
+            await fetchVersions()
+        } catch (error) {
+            console.error('Failed to create prompt version:', error)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleActivate = async (version: PromptVersion) => {
+        if (!confirm(`Utiliser "${version.label}" comme prompt actif ? Il remplace le prompt actuel pour toutes les corrections.`)) return
+
+        setSaving(true)
+        try {
+            await fetchJsonWithCsrf(`/api/admin/platform/ai-prompts/versions/${version.id}/activate`, { method: 'POST' })
+            await fetchVersions()
+        } catch (error) {
+            console.error('Failed to activate prompt version:', error)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async (version: PromptVersion) => {
+        if (!confirm(`Supprimer la version "${version.label}" ? Ses calibrations sont conservees.`)) return
+
+        setSaving(true)
+        try {
+            await fetchJsonWithCsrf(`/api/admin/platform/ai-prompts/versions/${version.id}`, { method: 'DELETE' })
+            await fetchVersions()
+        } catch (error) {
+            console.error('Failed to delete prompt version:', error)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const formatDate = (dateStr: string) => new Date(dateStr).toLocaleString('fr-FR', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+
+    return (
+        <Stack gap="lg">
+            <Inline align="between" gap="sm">
+                <Select value={key} onChange={(e) => setKey(e.target.value as PromptKey)} className="w-auto">
+                    {(Object.keys(PROMPT_KEYS) as PromptKey[]).map((promptKey) => (
+                        <option key={promptKey} value={promptKey}>{PROMPT_KEYS[promptKey]}</option>
+                    ))}
+                </Select>
+                {!creating && (
+                    <Button onClick={handleStartVersion} size="xs">
+                        <Plus className="w-4 h-4" />
+                        Nouvelle version
+                    </Button>
+                )}
+            </Inline>
+
+            {key === 'GRADING_SYSTEM' && (
+                <Text variant="muted">
+                    Les enseignants lancent chaque version sur leurs echantillons de copies corrigees a la main
+                    (onglet Calibration IA de la correction). Comparez les resultats avant d&apos;activer une version.
+                </Text>
+            )}
+
+            {creating && (
+                <Card>
+                    <CardBody padding="md">
+                        <Stack gap="sm">
+                            <Input
+                                value={label}
+                                onChange={(e) => setLabel(e.target.value)}
+                                placeholder="Nom de la version"
+                            />
+                            <Textarea
+                                value={content}
+                                onChange={(e) => setContent(e.target.value)}
+                                rows={15}
+                                className="font-mono text-sm"
+                            />
+                            <Inline align="end" gap="sm">
+                                <Button onClick={() => setCreating(false)} variant="ghost" size="xs">
+                                    Annuler
+                                </Button>
+                                <Button
+                                    onClick={handleCreate}
+                                    disabled={saving || !label.trim() || !content.trim()}
+                                    size="xs"
+                                >
+                                    {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                                    Enregistrer le brouillon
+                                </Button>
+                            </Inline>
+                        </Stack>
+                    </CardBody>
+                </Card>
+            )}
+
+            {!data ? (
+                <div className="flex items-center justify-center p-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                </div>
+            ) : data.versions.length === 0 ? (
+                <div className="text-center py-12">
+                    <Text variant="muted">Aucune version candidate pour ce prompt</Text>
+                </div>
+            ) : (
+                <Stack gap="md">
+                    {data.versions.map((version) => (
+                        <Card key={version.id}>
+                            <CardBody padding="md">
+                                <Stack gap="sm">
+                                    <Inline align="between" gap="sm">
+                                        <Inline align="start" gap="sm">
+                                            <Text variant="body" className="font-semibold">{version.label}</Text>
+                                            {version.activatedAt && (
+                                                <Badge variant="success">Activee le {formatDate(version.activatedAt)}</Badge>
+                                            )}
+                                        </Inline>
+                                        <Inline align="start" gap="sm">
+                                            <Text variant="xsMuted">Creee le {formatDate(version.createdAt)}</Text>
+                                            <Button onClick={() => handleActivate(version)} disabled={saving} variant="secondary" size="xs">
+                                                Activer
+                                            </Button>
+                                            <Button
+                                                onClick={() => handleDelete(version)}
+                                                disabled={saving}
+                                                variant="ghost"
+                                                size="xs"
+                                                aria-label="Supprimer la version"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </Inline>
+                                    </Inline>
+                                    <details className="text-xs">
+                                        <summary className="cursor-pointer text-gray-500 hover:text-gray-700">
+                                            Voir le prompt
+                                        </summary>
+                                        <pre className="mt-2 p-3 bg-gray-50 rounded-md text-sm text-gray-700 whitespace-pre-wrap font-mono max-h-48 overflow-y-auto">
+                                            {version.content}
+                                        </pre>
+                                    </details>
+                                </Stack>
+                            </CardBody>
+                        </Card>
+                    ))}
+
+                    {data.sets.map((set) => (
+                        <Card key={set.id}>
+                            <div className="p-4 border-b border-gray-100">
+                                <Text variant="body" className="font-semibold">{set.examTitle}</Text>
+                                <Text variant="muted">Echantillon : {set.name}</Text>
+                            </div>
+                            <CardBody padding="md">
+                                <CalibrationRunsComparison runs={set.runs} />
+                            </CardBody>
+                        </Card>
+                    ))}
+                </Stack>
+            )}
+        </Stack>
+    )
+}
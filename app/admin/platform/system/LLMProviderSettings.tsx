@@ -0,0 +1,314 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Save, Loader2, CheckCircle } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Input, Select } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Badge } from '@/components/ui/Badge'
+
+type ProviderKind = 'OPENAI' | 'OPENAI_COMPATIBLE' | 'AZURE_OPENAI' | 'MOCK'
+
+type MaskedConfig = {
+    provider: ProviderKind
+    model: string
+    baseUrl: string | null
+    apiVersion: string | null
+    vision: boolean | null
+    supportsVision: boolean
+    apiKey: string | null
+}
+
+type VisionChoice = 'auto' | 'yes' | 'no'
+
+type ProviderResponse = {
+    platform: { config: MaskedConfig; source: 'PLATFORM' | 'ENV' | 'DEFAULT' }
+    institutions: { id: string; name: string; config: MaskedConfig | null }[]
+}
+
+const PLATFORM_SCOPE = ''
+
+interface LLMProviderSettingsProps {
+    locale?: string
+}
+
+export default function LLMProviderSettings({ locale = 'fr' }: LLMProviderSettingsProps) {
+    const [data, setData] = useState<ProviderResponse | null>(null)
+    const [scope, setScope] = useState(PLATFORM_SCOPE)
+    const [provider, setProvider] = useState<ProviderKind>('OPENAI')
+    const [model, setModel] = useState('')
+    const [baseUrl, setBaseUrl] = useState('')
+    const [apiVersion, setApiVersion] = useState('')
+    const [apiKey, setApiKey] = useState('')
+    const [vision, setVision] = useState<VisionChoice>('auto')
+    const [saving, setSaving] = useState(false)
+    const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle')
+    const [errorMessage, setErrorMessage] = useState('')
+
+    const dict = {
+        title: locale === 'fr' ? 'Fournisseur IA' : 'AI provider',
+        description: locale === 'fr'
+            ? 'Modele utilise pour la correction, la generation de baremes et l\'import PDF. Un serveur compatible OpenAI (vLLM, Ollama) garde les copies sur votre infrastructure.'
+            : 'Model used for grading, rubric generation and PDF import. An OpenAI-compatible server (vLLM, Ollama) keeps student work on your infrastructure.',
+        scope: locale === 'fr' ? 'Portee' : 'Scope',
+        platform: locale === 'fr' ? 'Plateforme (par defaut)' : 'Platform (default)',
+        provider: locale === 'fr' ? 'Fournisseur' : 'Provider',
+        model: locale === 'fr' ? 'Modele' : 'Model',
+        deployment: locale === 'fr' ? 'Deploiement' : 'Deployment',
+        baseUrl: locale === 'fr' ? 'URL de base' : 'Base URL',
+        apiVersion: locale === 'fr' ? 'Version d\'API' : 'API version',
+        apiKey: locale === 'fr' ? 'Cle API' : 'API key',
+        vision: locale === 'fr' ? 'Lecture des images' : 'Image input',
+        visionChoices: {
+            auto: locale === 'fr' ? 'Automatique (selon le modele)' : 'Automatic (from the model)',
+            yes: locale === 'fr' ? 'Oui' : 'Yes',
+            no: locale === 'fr' ? 'Non' : 'No',
+        } as Record<VisionChoice, string>,
+        visionNote: locale === 'fr'
+            ? 'Les photos de copies manuscrites et les graphiques sont envoyes aux modeles qui lisent les images. Sinon, seuls les textes et la description des graphiques sont corriges.'
+            : 'Photos of handwritten answers and graphs are sent to models that read images. Otherwise only text and graph descriptions are graded.',
+        visionDetected: (enabled: boolean) => locale === 'fr'
+            ? `Modele actuel : ${enabled ? 'lit les images' : 'ne lit pas les images'}`
+            : `Current model: ${enabled ? 'reads images' : 'does not read images'}`,
+        keepKey: locale === 'fr' ? 'laissez vide pour conserver l\'actuelle' : 'leave empty to keep current',
+        openaiKeyNote: locale === 'fr'
+            ? 'Sans cle, la cle OpenAI de la plateforme est utilisee.'
+            : 'Without a key, the platform OpenAI key is used.',
+        save: locale === 'fr' ? 'Enregistrer' : 'Save',
+        saving: locale === 'fr' ? 'Enregistrement...' : 'Saving...',
+        saved: locale === 'fr' ? 'Enregistre' : 'Saved',
+        removeOverride: locale === 'fr' ? 'Revenir au fournisseur de la plateforme' : 'Use the platform provider',
+        inherited: locale === 'fr' ? 'Herite de la plateforme' : 'Inherited from platform',
+        override: locale === 'fr' ? 'Specifique' : 'Override',
+        sources: {
+            PLATFORM: locale === 'fr' ? 'Parametres' : 'Settings',
+            ENV: locale === 'fr' ? 'Variables d\'environnement' : 'Environment variables',
+            DEFAULT: locale === 'fr' ? 'Par defaut' : 'Default',
+        },
+        providers: {
+            OPENAI: 'OpenAI',
+            OPENAI_COMPATIBLE: locale === 'fr' ? 'Compatible OpenAI (vLLM, Ollama...)' : 'OpenAI-compatible (vLLM, Ollama...)',
+            AZURE_OPENAI: 'Azure OpenAI',
+            MOCK: locale === 'fr' ? 'Simulation (tests)' : 'Mock (tests)',
+        } as Record<ProviderKind, string>,
+    }
+
+    const fetchProvider = useCallback(async () => {
+        try {
+            setData(await fetchJsonWithCsrf<ProviderResponse>('/api/admin/platform/llm-provider'))
+        } catch (error) {
+            console.error('Failed to fetch AI provider:', error)
+        }
+    }, [])
+
+    useEffect(() => {
+        fetchProvider()
+    }, [fetchProvider])
+
+    const institutionOverride = data?.institutions.find((institution) => institution.id === scope)?.config ?? null
+    const current = scope === PLATFORM_SCOPE ? data?.platform.config ?? null : institutionOverride ?? data?.platform.config ?? null
+
+    // Reset the form to the config of the selected scope
+    useEffect(() => {
+        if (!current) return
+        setProvider(current.provider)
+        setModel(current.model)
+        setBaseUrl(current.baseUrl ?? '')
+        setApiVersion(current.apiVersion ?? '')
+        setVision(current.vision === true ? 'yes' : current.vision === false ? 'no' : 'auto')
+        setApiKey('')
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [scope, data])
+
+    const handleSave = async () => {
+        setSaving(true)
+        setSaveStatus('idle')
+        setErrorMessage('')
+
+        try {
+            await fetchJsonWithCsrf('/api/admin/platform/llm-provider', {
+                method: 'PUT',
+                body: {
+                    institutionId: scope || null,
+                    provider,
+                    model,
+                    baseUrl: baseUrl || null,
+                    apiVersion: apiVersion || null,
+                    vision: vision === 'auto' ? null : vision === 'yes',
+                    apiKey: apiKey || null
+                }
+            })
+
+            setSaveStatus('success')
+            await fetchProvider()
+            setTimeout(() => setSaveStatus('idle'), 3000)
+        } catch (error) {
+            setSaveStatus('error')
+            setErrorMessage(error instanceof Error ? error.message : 'Failed to save')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleRemoveOverride = async () => {
+        setSaving(true)
+        try {
+            await fetchJsonWithCsrf(`/api/admin/platform/llm-provider?institutionId=${encodeURIComponent(scope)}`, {
+                method: 'DELETE'
+            })
+            await fetchProvider()
+        } catch (error) {
+            console.error('Failed to remove AI provider override:', error)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (!data) {
+        return null
+    }
+
+    const needsBaseUrl = provider === 'OPENAI_COMPATIBLE' || provider === 'AZURE_OPENAI'
+
+    return (
+        <Card>
+            <div className="p-6 border-b border-gray-200">
+                <Stack gap="xs">
+                    <Text variant="sectionTitle">{dict.title}</Text>
+                    <Text variant="muted">{dict.description}</Text>
+                </Stack>
+            </div>
+
+            <CardBody padding="lg">
+                <Stack gap="md">
+                    <Stack gap="sm">
+                        <Text variant="label">{dict.scope}</Text>
+                        <Inline align="start" gap="sm">
+                            <Select value={scope} onChange={(e) => setScope(e.target.value)} className="flex-1">
+                                <option value={PLATFORM_SCOPE}>{dict.platform}</option>
+                                {data.institutions.map((institution) => (
+                                    <option key={institution.id} value={institution.id}>{institution.name}</option>
+                                ))}
+                            </Select>
+                            {scope === PLATFORM_SCOPE ? (
+                                <Badge variant="neutral">{dict.sources[data.platform.source]}</Badge>
+                            ) : (
+                                <Badge variant={institutionOverride ? 'info' : 'neutral'}>
+                                    {institutionOverride ? dict.override : dict.inherited}
+                                </Badge>
+                            )}
+                        </Inline>
+                    </Stack>
+
+                    <Stack gap="sm">
+                        <Text variant="label">{dict.provider}</Text>
+                        <Select value={provider} onChange={(e) => setProvider(e.target.value as ProviderKind)}>
+                            {(Object.keys(dict.providers) as ProviderKind[]).map((kind) => (
+                                <option key={kind} value={kind}>{dict.providers[kind]}</option>
+                            ))}
+                        </Select>
+                    </Stack>
+
+                    {provider !== 'MOCK' && (
+                        <Stack gap="sm">
+                            <Text variant="label">{provider === 'AZURE_OPENAI' ? dict.deployment : dict.model}</Text>
+                            <Input
+                                value={model}
+                                onChange={(e) => setModel(e.target.value)}
+                                placeholder={provider === 'OPENAI_COMPATIBLE' ? 'llama3.1:70b' : 'gpt-4o'}
+                                className="font-mono text-sm"
+                            />
+                        </Stack>
+                    )}
+
+                    {needsBaseUrl && (
+                        <Stack gap="sm">
+                            <Text variant="label">{dict.baseUrl}</Text>
+                            <Input
+                                value={baseUrl}
+                                onChange={(e) => setBaseUrl(e.target.value)}
+                                placeholder={provider === 'AZURE_OPENAI' ? 'https://my-resource.openai.azure.com' : 'http://localhost:11434/v1'}
+                                className="font-mono text-sm"
+                            />
+                        </Stack>
+                    )}
+
+                    {provider === 'AZURE_OPENAI' && (
+                        <Stack gap="sm">
+                            <Text variant="label">{dict.apiVersion}</Text>
+                            <Input
+                                value={apiVersion}
+                                onChange={(e) => setApiVersion(e.target.value)}
+                                placeholder="2024-10-21"
+                                className="font-mono text-sm"
+                            />
+                        </Stack>
+                    )}
+
+                    {provider !== 'MOCK' && (
+                        <Stack gap="sm">
+                            <Text variant="label">{dict.vision}</Text>
+                            <Select value={vision} onChange={(e) => setVision(e.target.value as VisionChoice)}>
+                                {(Object.keys(dict.visionChoices) as VisionChoice[]).map((choice) => (
+                                    <option key={choice} value={choice}>{dict.visionChoices[choice]}</option>
+                                ))}
+                            </Select>
+                            <Text variant="xsMuted">
+                                {dict.visionNote}
+                                {current && ` ${dict.visionDetected(current.supportsVision)}`}
+                            </Text>
+                        </Stack>
+                    )}
+
+                    {provider !== 'MOCK' && (
+                        <Stack gap="sm">
+                            <Text variant="label">
+                                {dict.apiKey}
+                                {current?.apiKey && current.provider === provider && ` (${current.apiKey}, ${dict.keepKey})`}
+                            </Text>
+                            <Input
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => setApiKey(e.target.value)}
+                                className="font-mono text-sm"
+                            />
+                            {provider === 'OPENAI' && <Text variant="xsMuted">{dict.openaiKeyNote}</Text>}
+                        </Stack>
+                    )}
+
+                    <Inline align="start" gap="sm">
+                        <Button type="button" onClick={handleSave} disabled={saving}>
+                            {saving ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : saveStatus === 'success' ? (
+                                <CheckCircle className="w-4 h-4" />
+                            ) : (
+                                <Save className="w-4 h-4" />
+                            )}
+                            {saving ? dict.saving : saveStatus === 'success' ? dict.saved : dict.save}
+                        </Button>
+                        {scope !== PLATFORM_SCOPE && institutionOverride && (
+                            <Button
+                                type="button"
+                                onClick={handleRemoveOverride}
+                                disabled={saving}
+                                variant="ghost"
+                                size="xs"
+                                className="text-red-600 hover:text-red-700"
+                            >
+                                {dict.removeOverride}
+                            </Button>
+                        )}
+                    </Inline>
+
+                    {saveStatus === 'error' && errorMessage && (
+                        <Text variant="muted" className="text-red-600">{errorMessage}</Text>
+                    )}
+                </Stack>
+            </CardBody>
+        </Card>
+    )
+}
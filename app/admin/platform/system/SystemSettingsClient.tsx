@@ -9,6 +9,7 @@ import { Inline, Stack } from '@/components/ui/Layout'
 import { Input } from '@/components/ui/Form'
 import { Text } from '@/components/ui/Text'
 import { TextLink } from '@/components/ui/TextLink'
+import LLMProviderSettings from './LLMProviderSettings'
 
 type SettingStatus = {
     value: string
@@ -242,6 +243,8 @@ export default function SystemSettingsClient({ locale = 'fr' }: SystemSettingsCl
                     </Stack>
                 </CardBody>
             </Card>
+
+            <LLMProviderSettings locale={locale} />
         </Stack>
     )
 }
@@ -7,6 +7,7 @@ import type { PersonRow, CourseRow, SectionRow } from '@/lib/school-admin-data'
 import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
 import Drawer from '@/components/ui/Drawer'
 import ConfirmModal from '@/components/ui/ConfirmModal'
+import AccommodationsPanel from '@/components/accommodations/AccommodationsPanel'
 import { Button } from '@/components/ui/Button'
 import { Card, CardBody } from '@/components/ui/Card'
 import { Input, Select } from '@/components/ui/Form'
@@ -72,7 +73,11 @@ export default function SchoolEnrollmentsClient({
     const [confirmOpen, setConfirmOpen] = useState(false)
     const [pendingRemoveId, setPendingRemoveId] = useState('')
 
+    const [accommodationsOpen, setAccommodationsOpen] = useState(false)
+    const [accommodationsCourseId, setAccommodationsCourseId] = useState('')
+
     const drawerReturnFocusRef = useRef<HTMLElement | null>(null)
+    const accommodationsReturnFocusRef = useRef<HTMLElement | null>(null)
 
     // Build flat list of enrollments
     const enrollments = useMemo(() => {
@@ -116,6 +121,10 @@ export default function SchoolEnrollmentsClient({
         return sections.filter(s => !isDefaultSection(s) && !isArchived(s.archivedAt))
     }, [sections])
 
+    const activeCourses = useMemo(() => {
+        return courses.filter(c => !isArchived(c.archivedAt))
+    }, [courses])
+
     const availableUsers = useMemo(() => {
         const list = assignForm.role === 'TEACHER' ? teachers : students
         return list.filter(u => !isArchived(u.archivedAt))
@@ -258,12 +267,24 @@ export default function SchoolEnrollmentsClient({
                     </Text>
                     <Text variant="muted">{dict.enrollments.subtitle}</Text>
                 </Stack>
-                <Button
-                    type="button"
-                    onClick={(e) => openAssignDrawer(e.currentTarget)}
-                >
-                    {dict.assignButton}
-                </Button>
+                <Inline align="end" gap="sm" wrap="nowrap">
+                    <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={(e) => {
+                            accommodationsReturnFocusRef.current = e.currentTarget
+                            setAccommodationsOpen(true)
+                        }}
+                    >
+                        {dictionary.accommodations.manageButton}
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={(e) => openAssignDrawer(e.currentTarget)}
+                    >
+                        {dict.assignButton}
+                    </Button>
+                </Inline>
             </Inline>
 
             {/* Filters */}
@@ -427,6 +448,36 @@ export default function SchoolEnrollmentsClient({
                 </Inline>
             </Drawer>
 
+            {/* Accommodations Drawer */}
+            <Drawer
+                open={accommodationsOpen}
+                onClose={() => setAccommodationsOpen(false)}
+                title={dictionary.accommodations.title}
+                returnFocusRef={accommodationsReturnFocusRef}
+            >
+                <Stack gap="md">
+                    <label className="flex flex-col gap-1">
+                        <Text variant="label">{dict.tabs.courses}</Text>
+                        <Select
+                            value={accommodationsCourseId}
+                            onChange={(e) => setAccommodationsCourseId(e.target.value)}
+                        >
+                            <option value="">{dictionary.accommodations.selectPlaceholder}</option>
+                            {activeCourses.map((c) => (
+                                <option key={c.id} value={c.id}>{c.code} - {c.name}</option>
+                            ))}
+                        </Select>
+                    </label>
+                    {accommodationsCourseId && (
+                        <AccommodationsPanel
+                            key={accommodationsCourseId}
+                            courseId={accommodationsCourseId}
+                            dictionary={dictionary}
+                        />
+                    )}
+                </Stack>
+            </Drawer>
+
             {/* Remove Confirm Modal */}
             <ConfirmModal
                 open={confirmOpen}
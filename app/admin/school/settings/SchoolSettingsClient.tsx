@@ -8,6 +8,7 @@ import { Card, CardBody } from '@/components/ui/Card'
 import { Grid, Inline, Stack } from '@/components/ui/Layout'
 import { Text } from '@/components/ui/Text'
 import { Badge } from '@/components/ui/Badge'
+import ScimSettingsCard from './ScimSettingsCard'
 
 type InstitutionInfo = {
     id: string
@@ -234,62 +235,10 @@ export default function SchoolSettingsClient({
                         </CardBody>
                     </Card>
 
-                    {/* Directory Sync Card (Coming Soon) */}
-                    <Card>
-                        <CardBody padding="lg">
-                            <Inline align="between" gap="sm">
-                                <Text variant="sectionTitle">{dict.settings.directorySync}</Text>
-                                <Badge variant="neutral">{dict.settings.comingSoon}</Badge>
-                            </Inline>
-                            <Text variant="muted" className="mt-1">
-                                {dict.settings.directorySyncHint}
-                            </Text>
-
-                            <Stack gap="sm" className="mt-6 opacity-50">
-                                <Card>
-                                    <CardBody padding="sm">
-                                        <Inline align="start" gap="sm">
-                                            <div className="h-8 w-8 rounded bg-gray-200"></div>
-                                            <Stack gap="xs">
-                                                <Text variant="body" className="font-medium">SCIM 2.0</Text>
-                                                <Text variant="xsMuted">{dict.settings.scimHint}</Text>
-                                            </Stack>
-                                        </Inline>
-                                    </CardBody>
-                                </Card>
-                                <Card>
-                                    <CardBody padding="sm">
-                                        <Inline align="start" gap="sm">
-                                            <div className="h-8 w-8 rounded bg-gray-200"></div>
-                                            <Stack gap="xs">
-                                                <Text variant="body" className="font-medium">Azure AD / Entra ID</Text>
-                                                <Text variant="xsMuted">{dict.settings.azureHint}</Text>
-                                            </Stack>
-                                        </Inline>
-                                    </CardBody>
-                                </Card>
-                                <Card>
-                                    <CardBody padding="sm">
-                                        <Inline align="start" gap="sm">
-                                            <div className="h-8 w-8 rounded bg-gray-200"></div>
-                                            <Stack gap="xs">
-                                                <Text variant="body" className="font-medium">Google Workspace</Text>
-                                                <Text variant="xsMuted">{dict.settings.googleHint}</Text>
-                                            </Stack>
-                                        </Inline>
-                                    </CardBody>
-                                </Card>
-                            </Stack>
-
-                            <Button
-                                type="button"
-                                disabled
-                                className="mt-6 cursor-not-allowed bg-gray-100 text-gray-400"
-                            >
-                                {dict.settings.configureSync}
-                            </Button>
-                        </CardBody>
-                    </Card>
+                    {/* Directory Sync (SCIM) */}
+                    {institution && (
+                        <ScimSettingsCard dictionary={dictionary} institutionId={institution.id} />
+                    )}
                 </Stack>
             )}
         </Stack>
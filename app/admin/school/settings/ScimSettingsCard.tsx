@@ -0,0 +1,219 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Input } from '@/components/ui/Form'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Text } from '@/components/ui/Text'
+import { Badge } from '@/components/ui/Badge'
+import ConfirmModal from '@/components/ui/ConfirmModal'
+
+type ScimToken = {
+    id: string
+    name: string
+    tokenPrefix: string
+    createdAt: string
+    lastUsedAt: string | null
+    revokedAt: string | null
+}
+
+type ScimSettingsCardProps = {
+    dictionary: Dictionary
+    institutionId: string
+}
+
+export default function ScimSettingsCard({ dictionary, institutionId }: ScimSettingsCardProps) {
+    const dict = dictionary.admin.school.settings
+    const endpoint = `/api/institutions/${institutionId}/scim-tokens`
+
+    const [baseUrl, setBaseUrl] = useState('')
+    const [tokens, setTokens] = useState<ScimToken[]>([])
+    const [name, setName] = useState('')
+    const [newToken, setNewToken] = useState<string | null>(null)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState('')
+    const [pendingRevoke, setPendingRevoke] = useState<ScimToken | null>(null)
+
+    const loadTokens = useCallback(async () => {
+        try {
+            const data = await fetchJsonWithCsrf<{ baseUrl: string; tokens: ScimToken[] }>(endpoint)
+            setBaseUrl(data.baseUrl)
+            setTokens(data.tokens)
+        } catch (err) {
+            console.error(err)
+            setError(dict.scimLoadError)
+        }
+    }, [endpoint, dict.scimLoadError])
+
+    useEffect(() => {
+        void loadTokens()
+    }, [loadTokens])
+
+    const handleCreate = async () => {
+        if (!name.trim()) return
+        setSaving(true)
+        setError('')
+        try {
+            const data = await fetchJsonWithCsrf<{ token: string }>(endpoint, {
+                method: 'POST',
+                body: { name: name.trim() },
+            })
+            setNewToken(data.token)
+            setName('')
+            await loadTokens()
+        } catch (err) {
+            console.error(err)
+            setError(dict.scimSaveError)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleRevoke = async () => {
+        if (!pendingRevoke) return
+        const tokenId = pendingRevoke.id
+        setPendingRevoke(null)
+        setError('')
+        try {
+            await fetchJsonWithCsrf(`${endpoint}/${tokenId}`, { method: 'DELETE' })
+            await loadTokens()
+        } catch (err) {
+            console.error(err)
+            setError(dict.scimSaveError)
+        }
+    }
+
+    return (
+        <Card>
+            <CardBody padding="lg">
+                <Text variant="sectionTitle">{dict.directorySync}</Text>
+                <Text variant="muted" className="mt-1">
+                    {dict.directorySyncHint}
+                </Text>
+
+                <Stack gap="sm" className="mt-6">
+                    <Card>
+                        <CardBody padding="sm">
+                            <Stack gap="xs">
+                                <Text variant="body" className="font-medium">SCIM 2.0</Text>
+                                <Text variant="xsMuted">{dict.scimHint}</Text>
+                            </Stack>
+                        </CardBody>
+                    </Card>
+                    <Card>
+                        <CardBody padding="sm">
+                            <Stack gap="xs">
+                                <Text variant="body" className="font-medium">Azure AD / Entra ID</Text>
+                                <Text variant="xsMuted">{dict.azureHint}</Text>
+                            </Stack>
+                        </CardBody>
+                    </Card>
+                    <Card>
+                        <CardBody padding="sm">
+                            <Stack gap="xs">
+                                <Text variant="body" className="font-medium">Google Workspace</Text>
+                                <Text variant="xsMuted">{dict.googleHint}</Text>
+                            </Stack>
+                        </CardBody>
+                    </Card>
+                </Stack>
+
+                <Stack gap="xs" className="mt-6">
+                    <Text variant="overline">{dict.scimEndpoint}</Text>
+                    <Text variant="body" className="font-mono text-sm break-all">{baseUrl || '-'}</Text>
+                </Stack>
+
+                <Stack gap="sm" className="mt-6">
+                    <Text variant="overline">{dict.scimTokens}</Text>
+                    <Inline align="start" gap="sm">
+                        <Input
+                            value={name}
+                            onChange={(event) => setName(event.target.value)}
+                            placeholder={dict.scimTokenNamePlaceholder}
+                            aria-label={dict.scimTokenName}
+                            size="sm"
+                            className="max-w-xs"
+                        />
+                        <Button
+                            type="button"
+                            onClick={handleCreate}
+                            disabled={saving || !name.trim()}
+                            size="xs"
+                        >
+                            {dict.scimCreateToken}
+                        </Button>
+                    </Inline>
+
+                    {newToken && (
+                        <Card className="border-amber-200 bg-amber-50">
+                            <CardBody padding="md">
+                                <Stack gap="xs">
+                                    <Text variant="body" className="font-medium text-amber-900">
+                                        {dict.scimNewToken}
+                                    </Text>
+                                    <Text variant="body" className="font-mono text-xs break-all text-amber-900">
+                                        {newToken}
+                                    </Text>
+                                </Stack>
+                            </CardBody>
+                        </Card>
+                    )}
+
+                    {error && <Text variant="muted" className="text-red-600">{error}</Text>}
+
+                    {tokens.length === 0 ? (
+                        <Text variant="muted">{dict.scimNoTokens}</Text>
+                    ) : (
+                        <Stack gap="xs">
+                            {tokens.map((token) => (
+                                <Card key={token.id}>
+                                    <CardBody padding="sm">
+                                        <Inline align="between" gap="sm">
+                                            <Stack gap="xs">
+                                                <Inline align="start" gap="sm">
+                                                    <Text variant="body" className="font-medium">{token.name}</Text>
+                                                    <Badge variant={token.revokedAt ? 'neutral' : 'success'}>
+                                                        {token.revokedAt ? dict.scimRevoked : dict.scimActive}
+                                                    </Badge>
+                                                </Inline>
+                                                <Text variant="xsMuted" className="font-mono">
+                                                    {token.tokenPrefix}…
+                                                </Text>
+                                                <Text variant="xsMuted">
+                                                    {dict.scimLastUsed}: {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : dict.scimNeverUsed}
+                                                </Text>
+                                            </Stack>
+                                            {!token.revokedAt && (
+                                                <Button
+                                                    type="button"
+                                                    variant="secondary"
+                                                    size="xs"
+                                                    onClick={() => setPendingRevoke(token)}
+                                                >
+                                                    {dict.scimRevoke}
+                                                </Button>
+                                            )}
+                                        </Inline>
+                                    </CardBody>
+                                </Card>
+                            ))}
+                        </Stack>
+                    )}
+                </Stack>
+            </CardBody>
+
+            <ConfirmModal
+                open={pendingRevoke !== null}
+                title={dict.scimRevokeConfirmTitle}
+                description={dict.scimRevokeConfirmDescription}
+                confirmLabel={dict.scimRevoke}
+                cancelLabel={dict.scimCancel}
+                onConfirm={handleRevoke}
+                onCancel={() => setPendingRevoke(null)}
+            />
+        </Card>
+    )
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isPlatformAdmin } from '@/lib/api-auth'
+import { verifyCsrf, getCsrfCookieToken, getAllowedOrigins } from '@/lib/csrf'
+import { logAudit, getClientIp } from '@/lib/audit'
+
+// Same names as the defaults of /api/admin/platform/ai-prompts
+const PROMPT_NAMES: Record<string, { name: string; description: string }> = {
+    GRADING_SYSTEM: {
+        name: 'Prompt systeme - Correction',
+        description: 'Instructions systeme pour la correction des reponses etudiantes'
+    },
+    RUBRIC_SYSTEM: {
+        name: 'Prompt systeme - Generation de rubrique',
+        description: 'Instructions systeme pour la generation automatique de rubriques de notation'
+    }
+}
+
+/**
+ * POST /api/admin/platform/ai-prompts/versions/[id]/activate
+ * Make a candidate version the active prompt platform-wide
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isPlatformAdmin(session)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+
+    if (!csrfResult.ok) {
+        return NextResponse.json({ error: 'CSRF' }, { status: 403 })
+    }
+
+    try {
+        const { id } = await params
+        const version = await prisma.aIPromptVersion.findUnique({ where: { id } })
+        if (!version || !PROMPT_NAMES[version.key]) {
+            return NextResponse.json({ error: 'Prompt version not found' }, { status: 404 })
+        }
+
+        const [prompt] = await prisma.$transaction([
+            prisma.aIPromptConfig.upsert({
+                where: { key: version.key },
+                create: {
+                    key: version.key,
+                    ...PROMPT_NAMES[version.key],
+                    content: version.content,
+                    updatedBy: session.user.id
+                },
+                update: {
+                    content: version.content,
+                    isActive: true,
+                    version: { increment: 1 },
+                    updatedBy: session.user.id
+                }
+            }),
+            prisma.aIPromptVersion.update({
+                where: { id },
+                data: { activatedAt: new Date() }
+            })
+        ])
+
+        logAudit({
+            action: 'AI_PROMPT_ACTIVATE',
+            actorId: session.user.id,
+            targetType: 'SETTING',
+            targetId: version.key,
+            metadata: {
+                versionId: version.id,
+                label: version.label,
+                promptVersion: prompt.version
+            },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ success: true, prompt })
+    } catch (error) {
+        console.error('[AI Prompt Versions API] Activate Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
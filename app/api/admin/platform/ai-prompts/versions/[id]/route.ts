@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isPlatformAdmin } from '@/lib/api-auth'
+import { verifyCsrf, getCsrfCookieToken, getAllowedOrigins } from '@/lib/csrf'
+
+/**
+ * DELETE /api/admin/platform/ai-prompts/versions/[id]
+ * Remove a candidate version; its calibration runs keep their prompt label
+ */
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isPlatformAdmin(session)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+
+    if (!csrfResult.ok) {
+        return NextResponse.json({ error: 'CSRF' }, { status: 403 })
+    }
+
+    try {
+        const { id } = await params
+        const { count } = await prisma.aIPromptVersion.deleteMany({ where: { id } })
+        if (count === 0) {
+            return NextResponse.json({ error: 'Prompt version not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('[AI Prompt Versions API] DELETE Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isPlatformAdmin } from '@/lib/api-auth'
+import { verifyCsrf, getCsrfCookieToken, getAllowedOrigins } from '@/lib/csrf'
+import { parseBody } from '@/lib/api-validation'
+import { createPromptVersionSchema } from '@/lib/schemas/admin'
+import { getPromptVersionComparison } from '@/lib/grading/calibration-runs'
+
+/**
+ * GET /api/admin/platform/ai-prompts/versions?key=GRADING_SYSTEM
+ * Candidate prompt versions with their calibration runs, side by side with the active prompt
+ */
+export async function GET(req: NextRequest) {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isPlatformAdmin(session)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const key = req.nextUrl.searchParams.get('key') || 'GRADING_SYSTEM'
+        return NextResponse.json(await getPromptVersionComparison(key))
+    } catch (error) {
+        console.error('[AI Prompt Versions API] GET Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/admin/platform/ai-prompts/versions
+ * Save a candidate prompt version, without activating it
+ */
+export async function POST(req: NextRequest) {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isPlatformAdmin(session)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+
+    if (!csrfResult.ok) {
+        return NextResponse.json({ error: 'CSRF' }, { status: 403 })
+    }
+
+    try {
+        const parsed = await parseBody(req, createPromptVersionSchema)
+        if ('error' in parsed) return parsed.error
+
+        const version = await prisma.aIPromptVersion.create({
+            data: { ...parsed.data, createdBy: session.user.id }
+        })
+
+        return NextResponse.json({ success: true, version }, { status: 201 })
+    } catch (error) {
+        console.error('[AI Prompt Versions API] POST Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
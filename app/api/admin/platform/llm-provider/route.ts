@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isPlatformAdmin } from '@/lib/api-auth'
+import { encrypt, maskApiKey } from '@/lib/encryption'
+import { verifyCsrf, getCsrfCookieToken, getAllowedOrigins } from '@/lib/csrf'
+import { parseBody } from '@/lib/api-validation'
+import { updateLLMProviderSchema } from '@/lib/schemas/admin'
+import { logAudit, getClientIp } from '@/lib/audit'
+import {
+    parseLLMProviderConfig,
+    supportsVision,
+    validateLLMProviderConfig,
+    type LLMProviderConfig
+} from '@/lib/grading/llm-provider'
+import {
+    clearLLMProviderCache,
+    getLLMProviderSettingKey,
+    readLLMProviderSetting,
+    resolveLLMProviderConfig
+} from '@/lib/grading/llm-settings'
+
+// The API key never leaves the server: only its masked form is returned
+function maskConfig(config: LLMProviderConfig | null) {
+    if (!config) return null
+    return {
+        provider: config.provider,
+        model: config.model,
+        baseUrl: config.baseUrl ?? null,
+        apiVersion: config.apiVersion ?? null,
+        vision: config.vision ?? null,
+        supportsVision: supportsVision(config),
+        apiKey: config.apiKey ? maskApiKey(config.apiKey) : null
+    }
+}
+
+function checkCsrf(req: NextRequest) {
+    return verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+}
+
+/**
+ * GET /api/admin/platform/llm-provider
+ * Returns the platform default AI provider and the per-institution overrides
+ */
+export async function GET(req: NextRequest) {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isPlatformAdmin(session)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    clearLLMProviderCache()
+    const platform = await resolveLLMProviderConfig(null)
+    const institutions = await prisma.institution.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' }
+    })
+    const overrides = await Promise.all(institutions.map(async (institution) => ({
+        id: institution.id,
+        name: institution.name,
+        config: maskConfig(await readLLMProviderSetting(getLLMProviderSettingKey(institution.id)))
+    })))
+
+    return NextResponse.json({
+        platform: { config: maskConfig(platform.config), source: platform.source },
+        institutions: overrides
+    })
+}
+
+/**
+ * PUT /api/admin/platform/llm-provider
+ * Set the platform default AI provider, or an institution's override
+ * An empty API key keeps the stored one when the provider is unchanged
+ */
+export async function PUT(req: NextRequest) {
+    try {
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isPlatformAdmin(session)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        if (!checkCsrf(req).ok) {
+            return NextResponse.json({ error: 'CSRF' }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, updateLLMProviderSchema)
+        if ('error' in parsed) return parsed.error
+        const { institutionId, ...input } = parsed.data
+
+        if (institutionId) {
+            const institution = await prisma.institution.findUnique({ where: { id: institutionId }, select: { id: true } })
+            if (!institution) {
+                return NextResponse.json({ error: 'Institution not found' }, { status: 404 })
+            }
+        }
+
+        const key = getLLMProviderSettingKey(institutionId)
+        clearLLMProviderCache()
+        const previous = await readLLMProviderSetting(key)
+
+        const config = parseLLMProviderConfig({
+            ...input,
+            apiKey: input.apiKey || (previous?.provider === input.provider ? previous.apiKey : null)
+        })
+        if (!config) {
+            return NextResponse.json({ error: 'Invalid provider configuration' }, { status: 400 })
+        }
+
+        const invalid = validateLLMProviderConfig(config)
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 })
+        }
+
+        let encryptedValue: string
+        try {
+            encryptedValue = encrypt(JSON.stringify(config))
+        } catch (encryptError) {
+            console.error('[LLM Provider API] Encryption failed:', encryptError)
+            return NextResponse.json(
+                { error: 'Encryption failed. Check server configuration (NEXTAUTH_SECRET).' },
+                { status: 500 }
+            )
+        }
+
+        await prisma.systemSetting.upsert({
+            where: { key },
+            create: {
+                key,
+                value: encryptedValue,
+                encrypted: true,
+                updatedBy: session.user.id
+            },
+            update: {
+                value: encryptedValue,
+                encrypted: true,
+                updatedBy: session.user.id
+            }
+        })
+        clearLLMProviderCache()
+
+        logAudit({
+            action: 'SETTING_UPDATE',
+            actorId: session.user.id,
+            institutionId,
+            targetType: 'SETTING',
+            targetId: key,
+            metadata: { provider: config.provider, model: config.model, baseUrl: config.baseUrl ?? null, vision: config.vision ?? null },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true, config: maskConfig(config) })
+    } catch (error) {
+        console.error('[LLM Provider API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * DELETE /api/admin/platform/llm-provider?institutionId=...
+ * Remove an institution's override (it falls back to the platform default),
+ * or the platform default when no institution is given
+ */
+export async function DELETE(req: NextRequest) {
+    try {
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isPlatformAdmin(session)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        if (!checkCsrf(req).ok) {
+            return NextResponse.json({ error: 'CSRF' }, { status: 403 })
+        }
+
+        const institutionId = req.nextUrl.searchParams.get('institutionId')
+        const key = getLLMProviderSettingKey(institutionId)
+
+        await prisma.systemSetting.deleteMany({ where: { key } })
+        clearLLMProviderCache()
+
+        logAudit({
+            action: 'SETTING_UPDATE',
+            actorId: session.user.id,
+            institutionId,
+            targetType: 'SETTING',
+            targetId: key,
+            metadata: { deleted: true },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true, deleted: true })
+    } catch (error) {
+        console.error('[LLM Provider API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
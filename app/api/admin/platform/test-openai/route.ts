@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAuthSession, isPlatformAdmin } from '@/lib/api-auth'
-import { isOpenAIConfigured, getOpenAIClient, GRADING_MODEL } from '@/lib/grading/openai-client'
+import { getLLMProvider, isLLMConfigured, resolveLLMProviderConfig } from '@/lib/grading/llm-settings'
 import { gradeAnswer } from '@/lib/grading/grader'
 
 /**
- * GET /api/admin/platform/test-openai
- * Test OpenAI configuration and grading functionality
+ * GET /api/admin/platform/test-openai?institutionId=...
+ * Test the AI provider configuration (platform default, or the institution's) and grading functionality
  * Only accessible by platform admins
  */
 export async function GET(req: NextRequest) {
@@ -15,24 +15,29 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const institutionId = req.nextUrl.searchParams.get('institutionId')
     const results: Record<string, any> = {
         timestamp: new Date().toISOString(),
         tests: {}
     }
 
-    // Test 1: Check if OpenAI is configured
+    // Test 1: Check if the AI provider is configured
     try {
-        const configured = await isOpenAIConfigured()
+        const { config, source } = await resolveLLMProviderConfig(institutionId)
+        const configured = await isLLMConfigured(institutionId)
         results.tests.configuration = {
             success: configured,
-            message: configured ? 'OpenAI API key is configured' : 'OpenAI API key is NOT configured'
+            provider: config.provider,
+            model: config.model,
+            source,
+            message: configured ? 'AI provider is configured' : 'AI provider is NOT configured'
         }
 
         if (!configured) {
             return NextResponse.json({
                 ...results,
                 success: false,
-                error: 'OpenAI is not configured. Please set the API key in platform settings.'
+                error: 'AI provider is not configured. Please check the AI provider in platform settings.'
             })
         }
     } catch (error: any) {
@@ -45,24 +50,24 @@ export async function GET(req: NextRequest) {
 
     // Test 2: Simple API call
     try {
-        const client = await getOpenAIClient()
+        const provider = await getLLMProvider(institutionId)
         const startTime = Date.now()
 
-        const response = await client.chat.completions.create({
-            model: GRADING_MODEL,
+        const response = await provider.generateText({
             messages: [
                 { role: 'user', content: 'Reponds simplement "OK" si tu recois ce message.' }
             ],
-            max_tokens: 10
+            maxTokens: 10
         })
 
         const duration = Date.now() - startTime
         results.tests.simpleCall = {
             success: true,
             duration: `${duration}ms`,
-            model: GRADING_MODEL,
-            response: response.choices[0]?.message?.content,
-            tokensUsed: response.usage?.total_tokens
+            model: provider.model,
+            vision: provider.supportsVision,
+            response: response.output,
+            tokensUsed: (response.tokensInput ?? 0) + (response.tokensOutput ?? 0)
         }
     } catch (error: any) {
         results.tests.simpleCall = {
@@ -71,7 +76,7 @@ export async function GET(req: NextRequest) {
             status: error.status,
             hint: error.status === 401 ? 'Invalid API key' :
                   error.status === 429 ? 'Rate limit exceeded' :
-                  error.status === 500 ? 'OpenAI server error' : null
+                  error.status === 500 ? 'AI provider server error' : null
         }
         return NextResponse.json({ ...results, success: false })
     }
@@ -94,7 +99,8 @@ export async function GET(req: NextRequest) {
             question: testQuestion,
             rubric: testRubric,
             studentAnswer: testAnswer,
-            maxPoints: 4
+            maxPoints: 4,
+            institutionId
         })
 
         const duration = Date.now() - startTime
@@ -128,10 +128,16 @@ export async function POST(req: NextRequest) {
                 })
             }
 
-            const created = await prisma.enrollment.createMany({
+            // Enrollments the directory sync removed are restored as manual ones
+            const restored = await prisma.enrollment.updateMany({
+                where: { userId: { in: userIds }, classId: targetSectionId as string, archivedAt: { not: null } },
+                data: { archivedAt: null, source: 'MANUAL', role },
+            })
+            const inserted = await prisma.enrollment.createMany({
                 data: userIds.map((id) => ({ userId: id, classId: targetSectionId as string, role })),
                 skipDuplicates: true,
             })
+            const created = { count: restored.count + inserted.count }
 
             logAudit({
                 action: 'ENROLLMENT_CREATE',
@@ -161,12 +167,14 @@ export async function POST(req: NextRequest) {
             })
         }
 
-        const enrollment = await prisma.enrollment.create({
-            data: {
+        const enrollment = await prisma.enrollment.upsert({
+            where: { userId_classId: { userId, classId: targetSectionId as string } },
+            create: {
                 userId,
                 classId: targetSectionId as string,
                 role,
             },
+            update: { archivedAt: null, source: 'MANUAL', role },
             select: {
                 id: true,
                 role: true,
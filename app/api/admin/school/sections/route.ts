@@ -30,7 +30,7 @@ export async function GET(req: NextRequest) {
             parent: { select: { id: true, name: true } },
             course: { select: { id: true, code: true, name: true, archivedAt: true } },
             enrollments: {
-                where: includeArchived ? {} : { user: { archivedAt: null } },
+                where: includeArchived ? { archivedAt: null } : { archivedAt: null, user: { archivedAt: null } },
                 select: {
                     id: true,
                     role: true,
@@ -289,6 +289,7 @@ export async function PATCH(req: NextRequest) {
             parent: { select: { id: true, name: true } },
             course: { select: { id: true, code: true, name: true, archivedAt: true } },
             enrollments: {
+                where: { archivedAt: null },
                 select: {
                     id: true,
                     role: true,
@@ -331,8 +332,8 @@ export async function PATCH(req: NextRequest) {
             }
 
             const enrollments = await tx.enrollment.findMany({
-                where: { classId: sectionId },
-                select: { userId: true, role: true },
+                where: { classId: sectionId, archivedAt: null },
+                select: { userId: true, role: true, source: true },
             })
             if (enrollments.length > 0) {
                 await tx.enrollment.createMany({
@@ -340,6 +341,7 @@ export async function PATCH(req: NextRequest) {
                         userId: entry.userId,
                         classId: defaultSectionId as string,
                         role: entry.role,
+                        source: entry.source,
                     })),
                     skipDuplicates: true,
                 })
@@ -416,8 +418,8 @@ export async function DELETE(req: NextRequest) {
 
         // Move enrollments to default section
         const enrollments = await tx.enrollment.findMany({
-            where: { classId: sectionId },
-            select: { userId: true, role: true },
+            where: { classId: sectionId, archivedAt: null },
+            select: { userId: true, role: true, source: true },
         })
 
         if (enrollments.length > 0) {
@@ -426,6 +428,7 @@ export async function DELETE(req: NextRequest) {
                     userId: entry.userId,
                     classId: defaultSection!.id,
                     role: entry.role,
+                    source: entry.source,
                 })),
                 skipDuplicates: true,
             })
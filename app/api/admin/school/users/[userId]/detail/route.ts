@@ -27,6 +27,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ user
     const enrollments = await prisma.enrollment.findMany({
         where: {
             userId,
+            archivedAt: null,
             class: includeArchived
                 ? { course: { institutionId: user.institutionId! } }
                 : { archivedAt: null, course: { archivedAt: null, institutionId: user.institutionId! } },
@@ -110,7 +111,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ user
                             classes: {
                                 some: {
                                     archivedAt: null,
-                                    enrollments: { some: { userId } },
+                                    enrollments: { some: { userId, archivedAt: null } },
                                 },
                             },
                         },
@@ -37,7 +37,7 @@ export async function GET(req: NextRequest) {
             role: true,
             archivedAt: true,
             enrollments: {
-                where: includeArchived ? {} : { class: { archivedAt: null } },
+                where: includeArchived ? { archivedAt: null } : { archivedAt: null, class: { archivedAt: null } },
                 select: {
                     class: {
                         select: {
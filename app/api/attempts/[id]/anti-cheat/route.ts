@@ -78,6 +78,8 @@ export async function GET(
             FOCUS_GAINED: 0,
             TAB_SWITCH: 0,
             FULLSCREEN_EXIT: 0,
+            INACTIVITY: 0,
+            MULTI_SESSION: 0,
             COPY: 0,
             PASTE: 0
         }
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isStudent } from "@/lib/api-auth"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getStudentExamWindow } from "@/lib/accommodations"
+import { buildRateLimitResponse, rateLimit } from "@/lib/rateLimit"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { verifyAttemptNonce } from "@/lib/attemptIntegrity"
+import { parseBody } from "@/lib/api-validation"
+import { runCodeSchema } from "@/lib/schemas/attempts"
+import { parseCodeConfig } from "@/lib/grading/code-grader"
+import { CodeRunTimeoutError, CodeRunUnavailableError, runVisibleTests } from "@/lib/grading/code-jobs"
+
+// POST /api/attempts/[id]/code-run - Run a CODE answer against the visible tests only
+// The run goes through the code-grading worker; hidden tests are run there after submission.
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isStudent(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        // Rate limit: 10 runs per 60 seconds per student and attempt (each run spawns processes)
+        const rateLimitOptions = { windowSeconds: 60, max: 10, prefix: 'attempt_code_run' }
+        try {
+            const limit = await rateLimit(`${session.user.id}:${id}`, rateLimitOptions)
+            if (!limit.ok) {
+                const limited = buildRateLimitResponse(limit, rateLimitOptions)
+                return NextResponse.json(limited.body, { status: limited.status, headers: limited.headers })
+            }
+        } catch {
+            return NextResponse.json({ error: "RATE_LIMIT_UNAVAILABLE" }, { status: 503 })
+        }
+
+        const nonceResult = await verifyAttemptNonce(id, req.headers.get('x-attempt-nonce'))
+        if (!nonceResult.ok) {
+            return NextResponse.json({ error: "INTEGRITY" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, runCodeSchema)
+        if ('error' in parsed) return parsed.error
+        const { questionId, code } = parsed.data
+
+        const attempt = await prisma.attempt.findUnique({
+            where: { id },
+            include: {
+                exam: true
+            }
+        })
+
+        if (!attempt || attempt.studentId !== session.user.id) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        if (attempt.status !== 'IN_PROGRESS') {
+            return NextResponse.json({ error: "Attempt already submitted" }, { status: 400 })
+        }
+
+        const now = new Date()
+        const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+        const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
+        if (deadlineAt && now > deadlineAt) {
+            return NextResponse.json({ error: "Exam has ended" }, { status: 400 })
+        }
+
+        if (attempt.pausedAt) {
+            return NextResponse.json({ error: "ATTEMPT_PAUSED" }, { status: 423 })
+        }
+
+        const question = await prisma.question.findFirst({
+            where: {
+                id: questionId,
+                type: 'CODE',
+                section: { examId: attempt.examId }
+            },
+            select: { codeConfig: true }
+        })
+
+        if (!question) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 })
+        }
+
+        const config = parseCodeConfig(question.codeConfig)
+        if (!config) {
+            return NextResponse.json({ error: "Question has no test configuration" }, { status: 400 })
+        }
+
+        try {
+            const results = await runVisibleTests(questionId, code)
+            return NextResponse.json({ results })
+        } catch (error) {
+            if (error instanceof CodeRunTimeoutError) {
+                return NextResponse.json({ error: "CODE_RUN_TIMEOUT" }, { status: 504 })
+            }
+            if (error instanceof CodeRunUnavailableError) {
+                console.error("[API] Code Run Unavailable:", error.message)
+                return NextResponse.json({ error: "CODE_RUN_UNAVAILABLE" }, { status: 503 })
+            }
+            throw error
+        }
+
+    } catch (error) {
+        console.error("[API] Code Run Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -2,9 +2,30 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { aiGradingQueue } from "@/lib/queue"
+import { enqueueCodeGrading, isCodeGradingAvailable } from "@/lib/grading/code-jobs"
 import { canAccessAttemptAction } from "@/lib/attemptPermissions"
 import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
 import { getAllowedOrigins, getCsrfCookieName, verifyCsrf } from "@/lib/csrf"
+import { isAnswerKeyScored, scoreAnswerKeyAnswers, type AnswerKeyAnswerScore } from "@/lib/grading/answer-key"
+
+// Replace the automatic grade of re-scored answers; returns the number of grades written
+const saveAnswerKeyScores = async (scores: AnswerKeyAnswerScore[]) => {
+    for (const score of scores) {
+        const data = {
+            score: score.score,
+            feedback: score.feedback,
+            aiRationale: score.aiRationale,
+            isOverridden: false,
+            gradedByUserId: null
+        }
+        await prisma.grade.upsert({
+            where: { answerId: score.answerId },
+            create: { answerId: score.answerId, ...data },
+            update: data
+        })
+    }
+    return scores.length
+}
 
 // POST /api/attempts/[id]/grading/enqueue-ai
 // Enqueue AI grading jobs for all answers in an attempt
@@ -83,6 +104,18 @@ export async function POST(
                     select: {
                         id: true,
                         questionId: true,
+                        segments: {
+                            select: { content: true }
+                        },
+                        question: {
+                            select: {
+                                id: true,
+                                type: true,
+                                answerKey: true,
+                                parameters: true,
+                                segments: { select: { maxPoints: true } }
+                            }
+                        },
                         grades: {
                             select: {
                                 gradedByUserId: true,
@@ -121,6 +154,30 @@ export async function POST(
                 }
             })
 
+            // CODE answers are re-run against their tests instead of going to the AI
+            if (answer.question.type === 'CODE' && isCodeGradingAvailable()) {
+                await enqueueCodeGrading(attempt.id, [answer])
+                return NextResponse.json({
+                    success: true,
+                    total: 1,
+                    enqueued: 1,
+                    skipped: 0,
+                    mode: 'single'
+                })
+            }
+
+            // NUMERIC, MATH_EXPRESSION and graph-keyed answers are re-scored against their answer key
+            if (isAnswerKeyScored(answer.question)) {
+                const scored = await saveAnswerKeyScores(scoreAnswerKeyAnswers([answer], attempt))
+                return NextResponse.json({
+                    success: true,
+                    total: 1,
+                    enqueued: scored,
+                    skipped: 1 - scored,
+                    mode: 'single'
+                })
+            }
+
             // Enqueue single job with forceRegrade flag
             await aiGradingQueue.add('grade-answer', {
                 attemptId: attempt.id,
@@ -146,15 +203,25 @@ export async function POST(
             return !hasHumanGrade
         })
 
-        // 6. Enqueue jobs for filtered answers
-        const jobs = answersToGrade.map(answer => ({
-            name: 'grade-answer',
-            data: {
-                attemptId: attempt.id,
-                answerId: answer.id,
-                questionId: answer.questionId
-            }
-        }))
+        // 6. Enqueue jobs for filtered answers (CODE answers go to the code-grading worker,
+        // NUMERIC, MATH_EXPRESSION and graph-keyed answers are scored right away from their answer key)
+        const codeAnswers = isCodeGradingAvailable()
+            ? answersToGrade.filter(answer => answer.question.type === 'CODE')
+            : []
+        const codeJobCount = await enqueueCodeGrading(attempt.id, codeAnswers)
+
+        const answerKeyCount = await saveAnswerKeyScores(scoreAnswerKeyAnswers(answersToGrade, attempt))
+
+        const jobs = answersToGrade
+            .filter(answer => !codeAnswers.includes(answer) && !isAnswerKeyScored(answer.question))
+            .map(answer => ({
+                name: 'grade-answer',
+                data: {
+                    attemptId: attempt.id,
+                    answerId: answer.id,
+                    questionId: answer.questionId
+                }
+            }))
 
         // Add jobs in bulk if possible, or loop
         // BullMQ addBulk is efficient
@@ -165,8 +232,8 @@ export async function POST(
         return NextResponse.json({
             success: true,
             total: attempt.answers.length,
-            enqueued: jobs.length,
-            skipped: attempt.answers.length - jobs.length,
+            enqueued: jobs.length + codeJobCount + answerKeyCount,
+            skipped: attempt.answers.length - jobs.length - codeJobCount - answerKeyCount,
             mode: 'batch'
         })
 
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { canAccessAttemptAction } from "@/lib/attemptPermissions"
+import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { parseBody } from "@/lib/api-validation"
+import { gradingLockSchema } from "@/lib/schemas/grades"
+import { acquireGradingLock, releaseGradingLock } from "@/lib/grading/grading-locks"
+
+type LockContext = { userId: string; answerId: string }
+
+// Shared checks: teacher session, CSRF, grading access to the attempt, answer of the attempt
+async function getLockContext(req: NextRequest, attemptId: string): Promise<LockContext | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+    if (!csrfResult.ok) {
+        return NextResponse.json({ error: "CSRF" }, { status: 403 })
+    }
+
+    const attemptAuth = await getAttemptAuthContext(attemptId)
+    if (!attemptAuth) {
+        return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+    }
+
+    const teacherCanAccess = await getTeacherAccessForAttempt(attemptAuth.examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    })
+
+    const isAllowed = canAccessAttemptAction('viewGrading', {
+        sessionUser: {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        },
+        attemptStudentId: attemptAuth.studentId,
+        attemptInstitutionId: attemptAuth.institutionId,
+        teacherCanAccess
+    })
+
+    if (!isAllowed) {
+        return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+    }
+
+    const parsed = await parseBody(req, gradingLockSchema)
+    if ('error' in parsed) return parsed.error
+
+    const answer = await prisma.answer.findFirst({
+        where: { id: parsed.data.answerId, attemptId },
+        select: { id: true }
+    })
+    if (!answer) {
+        return NextResponse.json({ error: "Answer not found" }, { status: 404 })
+    }
+
+    return { userId: session.user.id, answerId: answer.id }
+}
+
+// POST /api/attempts/[id]/grading/lock - Take or renew the grading lock of an answer
+// Returns 409 with the current holder when another grader is editing it.
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const context = await getLockContext(req, id)
+        if (context instanceof NextResponse) return context
+
+        const result = await acquireGradingLock(context.answerId, context.userId)
+        if (!result.ok) {
+            return NextResponse.json({ error: "ANSWER_LOCKED", holder: result.holder }, { status: 409 })
+        }
+
+        return NextResponse.json({ locked: true, lockedAt: result.lockedAt })
+    } catch (error) {
+        console.error("[API] Grading Lock Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// DELETE /api/attempts/[id]/grading/lock - Release the grading lock of an answer
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const context = await getLockContext(req, id)
+        if (context instanceof NextResponse) return context
+
+        await releaseGradingLock(context.answerId, context.userId)
+
+        return NextResponse.json({ locked: false })
+    } catch (error) {
+        console.error("[API] Grading Unlock Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -3,6 +3,11 @@ import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { canAccessAttemptAction } from "@/lib/attemptPermissions"
 import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
+import { applyQuestionParameterValues, resolveQuestionParameterValues } from "@/lib/question-parameters"
+import { getActiveLockHolder, isAnswerInTask } from "@/lib/grading/assignment"
+import { getAnonymityState, getAttemptPseudonym, maskStudent } from "@/lib/grading/anonymity"
+import { parseCriterionResults } from "@/lib/grading/criteria"
 
 // GET /api/attempts/[id]/grading - Get data for grading an attempt
 export async function GET(
@@ -68,7 +73,10 @@ export async function GET(
                 answers: {
                     include: {
                         segments: true,
-                        grades: true
+                        grades: true,
+                        independentGrades: {
+                            select: { id: true, score: true, feedback: true, gradedByUserId: true }
+                        }
                     }
                 }
             }
@@ -78,11 +86,30 @@ export async function GET(
             return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
         }
 
+        // Grader assignments of this copy and live grading locks held by other graders
+        const now = new Date()
+        const lockHolderIds = new Set(attempt.answers
+            .map(answer => getActiveLockHolder(answer, now))
+            .filter((holderId): holderId is string => holderId !== null && holderId !== session.user.id))
+        const [assignedTasks, lockHolders] = await Promise.all([
+            prisma.gradingTask.findMany({
+                where: { attemptId: attempt.id, assignedTo: { not: null } },
+                select: { attemptId: true, questionId: true, user: { select: { id: true, name: true } } }
+            }),
+            lockHolderIds.size > 0
+                ? prisma.user.findMany({ where: { id: { in: [...lockHolderIds] } }, select: { id: true, name: true } })
+                : Promise.resolve([])
+        ])
+
+        // Blind grading: pseudonym until the identities are revealed
+        const anonymity = getAnonymityState(attempt.exam.gradingConfig as Record<string, unknown> | null)
+
         // Structure response for the UI
         const gradingData = {
             attempt: {
                 id: attempt.id,
-                student: attempt.student,
+                student: maskStudent(attempt.student, getAttemptPseudonym(attempt.exam.id, attempt.id), anonymity.identityHidden),
+                identityHidden: anonymity.identityHidden,
                 startedAt: attempt.startedAt,
                 submittedAt: attempt.submittedAt,
                 status: attempt.status
@@ -90,21 +117,45 @@ export async function GET(
             exam: {
                 id: attempt.exam.id,
                 title: attempt.exam.title,
-                sections: attempt.exam.sections.map(section => ({
+                sections: applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection).map(section => ({
                     id: section.id,
                     title: section.title,
-                    questions: section.questions.map(question => {
+                    questions: section.questions.map(templateQuestion => {
+                        // Parameterized questions are graded with the values this student got
+                        const parameterValues = resolveQuestionParameterValues(templateQuestion, attempt)
+                        const question = applyQuestionParameterValues(templateQuestion, parameterValues)
+
                         // Find student answer
                         const answer = attempt.answers.find(a => a.questionId === question.id)
-                        const grade = answer?.grades?.[0] // Question-level grade
+                        // Double grading before reconciliation: graders only see their own independent grade
+                        const doubleGradingPending = Boolean(answer?.doubleGrading && !answer.reconciledAt)
+                        const ownIndependentGrade = answer?.independentGrades.find(g => g.gradedByUserId === session.user.id)
+                        const grade = doubleGradingPending
+                            ? ownIndependentGrade && { ...ownIndependentGrade, aiRationale: null, testResults: null, criteriaResults: null, isOverridden: false }
+                            : answer?.grades?.[0] // Question-level grade
 
                         // Calculate max points for question (sum of segments)
                         const maxPoints = question.segments.reduce((sum, seg) => sum + (seg.maxPoints || 0), 0)
 
+                        const assignee = assignedTasks.find(task =>
+                            isAnswerInTask(task, { attemptId: attempt.id, questionId: question.id }))?.user ?? null
+                        const lockHolderId = answer ? getActiveLockHolder(answer, now) : null
+                        const lockedBy = lockHolderId && lockHolderId !== session.user.id
+                            ? lockHolders.find(user => user.id === lockHolderId) ?? { id: lockHolderId, name: null }
+                            : null
+
                         return {
                             id: question.id,
+                            type: question.type,
                             content: question.content,
+                            parameterValues,
                             maxPoints,
+                            assignee,
+                            lockedBy,
+                            doubleGrading: answer?.doubleGrading ? {
+                                pending: doubleGradingPending,
+                                gradeCount: answer.independentGrades.length
+                            } : null,
                             answer: answer ? {
                                 id: answer.id,
                                 // Concatenate segments for display if needed, or send raw segments
@@ -118,6 +169,8 @@ export async function GET(
                                 score: grade.score,
                                 feedback: grade.feedback,
                                 aiRationale: grade.aiRationale,
+                                testResults: grade.testResults,
+                                criteriaResults: parseCriterionResults(grade.criteriaResults),
                                 isOverridden: grade.isOverridden,
                                 gradedByUserId: grade.gradedByUserId
                             } : null
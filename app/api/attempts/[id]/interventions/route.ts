@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { canAccessAttemptAction } from "@/lib/attemptPermissions"
+import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { parseBody } from "@/lib/api-validation"
+import { proctorInterventionSchema } from "@/lib/schemas/attempts"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { finalizeAttemptSubmission, submissionAttemptInclude } from "@/lib/attempt-submission"
+import { getInterventionError, getInterventionEventType, getInterventionWrite } from "@/lib/proctoring/interventions"
+import { getAttemptTimingMessage, toProctorNotice } from "@/lib/proctoring/attemptControl"
+import { publishAttemptMessage, publishProctorEvent } from "@/lib/proctoring/liveBus"
+
+// POST /api/attempts/[id]/interventions - Proctor action on an in-progress attempt
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const attemptAuth = await getAttemptAuthContext(id)
+        if (!attemptAuth) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const teacherCanAccess = await getTeacherAccessForAttempt(attemptAuth.examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        })
+
+        const isAllowed = canAccessAttemptAction('intervene', {
+            sessionUser: {
+                id: session.user.id,
+                role: session.user.role,
+                institutionId: session.user.institutionId
+            },
+            attemptStudentId: attemptAuth.studentId,
+            attemptInstitutionId: attemptAuth.institutionId,
+            teacherCanAccess
+        })
+
+        if (!isAllowed) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const parsed = await parseBody(req, proctorInterventionSchema)
+        if ('error' in parsed) return parsed.error
+        const intervention = parsed.data
+
+        const attempt = await prisma.attempt.findUnique({
+            where: { id },
+            include: submissionAttemptInclude
+        })
+
+        if (!attempt) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const interventionError = getInterventionError(intervention.action, attempt)
+        if (interventionError) {
+            return NextResponse.json({ error: interventionError }, { status: 409 })
+        }
+
+        const now = new Date()
+        const metadata = {
+            actorId: session.user.id,
+            actorName: session.user.name ?? null,
+            ...('message' in intervention && intervention.message ? { message: intervention.message } : {}),
+            ...('reason' in intervention && intervention.reason ? { reason: intervention.reason } : {}),
+            ...('minutes' in intervention ? { minutes: intervention.minutes } : {})
+        }
+
+        // Forced submission: only when this request is the one that submits the attempt
+        if (intervention.action === 'TERMINATE' && !await finalizeAttemptSubmission(attempt)) {
+            return NextResponse.json({ error: "ATTEMPT_NOT_IN_PROGRESS" }, { status: 409 })
+        }
+
+        // The timer change and its timeline entry go together
+        const write = getInterventionWrite(intervention, attempt, now)
+        const applied = await prisma.$transaction(async (tx) => {
+            const claimed = await tx.attempt.updateMany({
+                where: { id, ...write.where },
+                data: write.data
+            })
+            if (claimed.count === 0 && intervention.action !== 'TERMINATE') {
+                const current = await tx.attempt.findUniqueOrThrow({ where: { id } })
+                return { error: getInterventionError(intervention.action, current) ?? 'ATTEMPT_STATE_CHANGED' }
+            }
+
+            const event = await tx.proctorEvent.create({
+                data: {
+                    attemptId: id,
+                    type: getInterventionEventType(intervention.action),
+                    metadata,
+                    timestamp: now
+                }
+            })
+            const updatedAttempt = await tx.attempt.findUniqueOrThrow({
+                where: { id },
+                include: { exam: true }
+            })
+            return { event, updatedAttempt }
+        })
+
+        if ('error' in applied) {
+            return NextResponse.json({ error: applied.error }, { status: 409 })
+        }
+        const { event, updatedAttempt } = applied
+
+        if (intervention.action === 'TERMINATE') {
+            await publishAttemptMessage(id, { type: 'terminated', reason: intervention.reason, at: now.toISOString() })
+        } else if (intervention.action === 'MESSAGE' || intervention.action === 'WARNING') {
+            await publishAttemptMessage(id, { type: 'notice', notice: toProctorNotice(event) })
+        } else {
+            const pauseMessage = intervention.action === 'PAUSE' ? intervention.message ?? null : null
+            await publishAttemptMessage(id, await getAttemptTimingMessage(updatedAttempt, pauseMessage))
+        }
+
+        await publishProctorEvent(attempt.examId, id, {
+            id: event.id,
+            type: event.type,
+            timestamp: event.timestamp.toISOString(),
+            metadata
+        })
+
+        logAudit({
+            action: 'PROCTOR_INTERVENTION',
+            actorId: session.user.id,
+            institutionId: attemptAuth.institutionId,
+            targetType: 'ATTEMPT',
+            targetId: id,
+            metadata: {
+                examId: attempt.examId,
+                studentId: attempt.studentId,
+                action: intervention.action,
+                eventId: event.id,
+                ...metadata
+            },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true, event })
+
+    } catch (error) {
+        console.error("[API] Proctor Intervention Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
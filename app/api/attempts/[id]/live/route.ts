@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAuthSession, isStudent } from "@/lib/api-auth"
+import { canReadAttempt } from "@/lib/attemptPermissions"
+import { getAttemptAuthContext } from "@/lib/attempt-access"
+import { createLiveResponse, subscribeToAttempt } from "@/lib/proctoring/liveBus"
+import { getAttemptLiveSnapshot } from "@/lib/proctoring/attemptControl"
+import type { AttemptLiveMessage } from "@/lib/proctoring/liveState"
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/attempts/[id]/live - Server-Sent Events of the proctor's interventions, for the exam page
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isStudent(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const attemptAuth = await getAttemptAuthContext(id)
+        if (!attemptAuth) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const isAllowed = canReadAttempt({
+            sessionUser: {
+                id: session.user.id,
+                role: session.user.role,
+                institutionId: session.user.institutionId
+            },
+            attemptStudentId: attemptAuth.studentId,
+            attemptInstitutionId: attemptAuth.institutionId,
+            teacherCanAccess: false
+        })
+
+        if (!isAllowed) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        return createLiveResponse<AttemptLiveMessage>(
+            req,
+            (listener) => subscribeToAttempt(id, listener),
+            () => getAttemptLiveSnapshot(id)
+        )
+
+    } catch (error) {
+        console.error("[API] Attempt Live Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -9,6 +9,7 @@ import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
 import { ensureIdempotency, verifyAttemptNonce } from "@/lib/attemptIntegrity"
 import { parseBody } from "@/lib/api-validation"
 import { proctorEventSchema } from "@/lib/schemas/attempts"
+import { publishProctorEvent, publishProctorMessage, recordHeartbeat, recordSessionHeartbeat } from "@/lib/proctoring/liveBus"
 
 // POST /api/attempts/[id]/proctor-events - Log anti-cheat event
 export async function POST(
@@ -82,6 +83,43 @@ export async function POST(
         if ('error' in parsed) return parsed.error
         const { type, metadata } = parsed.data
 
+        // Heartbeats feed the live proctoring console and the multi-session detection
+        if (type === 'HEARTBEAT') {
+            const now = new Date()
+            const presence = {
+                lastHeartbeatAt: now.toISOString(),
+                questionId: typeof metadata?.questionId === 'string' ? metadata.questionId : null
+            }
+            await recordHeartbeat(attemptAuth.examId, id, presence)
+            await publishProctorMessage(attemptAuth.examId, { type: 'heartbeat', attemptId: id, presence })
+
+            const sessionId = metadata?.sessionId
+            if (typeof sessionId === 'string' && sessionId.length >= 8 && sessionId.length <= 128) {
+                const concurrentSessionIds = await recordSessionHeartbeat(id, sessionId, now)
+                if (concurrentSessionIds) {
+                    const event = await prisma.proctorEvent.create({
+                        data: {
+                            attemptId: id,
+                            type: 'MULTI_SESSION',
+                            metadata: {
+                                sessionId,
+                                concurrentSessionIds,
+                                userAgent: req.headers.get('user-agent')?.slice(0, 256) ?? null
+                            },
+                            timestamp: now
+                        }
+                    })
+                    await publishProctorEvent(attemptAuth.examId, id, {
+                        id: event.id,
+                        type: event.type,
+                        timestamp: event.timestamp.toISOString(),
+                        metadata: event.metadata as Record<string, unknown> | null
+                    })
+                }
+            }
+            return NextResponse.json({ success: true })
+        }
+
         // Create proctor event
         const event = await prisma.proctorEvent.create({
             data: {
@@ -92,6 +130,13 @@ export async function POST(
             }
         })
 
+        await publishProctorEvent(attemptAuth.examId, id, {
+            id: event.id,
+            type: event.type,
+            timestamp: event.timestamp.toISOString(),
+            metadata: event.metadata as Record<string, unknown> | null
+        })
+
         return NextResponse.json({ success: true, event })
 
     } catch (error) {
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { canAccessAttemptAction } from "@/lib/attemptPermissions"
+import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { parseBody } from "@/lib/api-validation"
+import { createRegradeRequestSchema } from "@/lib/schemas/grades"
+import { getExamRegradeWindow, regradeRequestSelect } from "@/lib/grading/regrade-requests"
+import { logAudit, getClientIp } from "@/lib/audit"
+
+// GET /api/attempts/[id]/regrade-requests - Regrade requests filed on an attempt
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const attemptAuth = await getAttemptAuthContext(id)
+        if (!attemptAuth) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const teacherCanAccess = await getTeacherAccessForAttempt(attemptAuth.examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        })
+
+        const isAllowed = canAccessAttemptAction('viewResults', {
+            sessionUser: {
+                id: session.user.id,
+                role: session.user.role,
+                institutionId: session.user.institutionId
+            },
+            attemptStudentId: attemptAuth.studentId,
+            attemptInstitutionId: attemptAuth.institutionId,
+            teacherCanAccess
+        })
+
+        if (!isAllowed) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const requests = await prisma.regradeRequest.findMany({
+            where: { answer: { attemptId: id } },
+            select: regradeRequestSelect,
+            orderBy: { createdAt: 'asc' }
+        })
+
+        return NextResponse.json({ requests })
+    } catch (error) {
+        console.error("[API] Get Regrade Requests Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/attempts/[id]/regrade-requests - Student disputes the grade of a question
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, createRegradeRequestSchema)
+        if ('error' in parsed) return parsed.error
+        const { questionId, justification } = parsed.data
+
+        const attempt = await prisma.attempt.findUnique({
+            where: { id },
+            select: {
+                id: true,
+                studentId: true,
+                status: true,
+                exam: {
+                    select: {
+                        id: true,
+                        gradingConfig: true,
+                        startAt: true,
+                        durationMinutes: true,
+                        endAt: true,
+                        course: { select: { institutionId: true } }
+                    }
+                }
+            }
+        })
+
+        // Only the student who owns the attempt can file a request
+        if (!attempt || session.user.role !== 'STUDENT' || attempt.studentId !== session.user.id) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        if (attempt.status !== 'GRADED') {
+            return NextResponse.json({ error: "RESULTS_NOT_AVAILABLE" }, { status: 403 })
+        }
+
+        const regradeWindow = getExamRegradeWindow(attempt.exam)
+        if (!regradeWindow.isOpen) {
+            return NextResponse.json({
+                error: "REGRADE_WINDOW_CLOSED",
+                message: "Regrade requests are closed for this exam."
+            }, { status: 403 })
+        }
+
+        const answer = await prisma.answer.findUnique({
+            where: { attemptId_questionId: { attemptId: id, questionId } },
+            select: {
+                id: true,
+                grades: { select: { score: true }, take: 1 },
+                regradeRequest: { select: { id: true } }
+            }
+        })
+
+        if (!answer || answer.grades.length === 0) {
+            return NextResponse.json({ error: "This question has no grade to dispute" }, { status: 400 })
+        }
+
+        if (answer.regradeRequest) {
+            return NextResponse.json({ error: "A regrade request already exists for this question" }, { status: 409 })
+        }
+
+        const request = await prisma.regradeRequest.create({
+            data: {
+                answerId: answer.id,
+                studentId: session.user.id,
+                justification,
+                previousScore: answer.grades[0].score
+            },
+            select: regradeRequestSelect
+        })
+
+        logAudit({
+            action: 'REGRADE_REQUEST_CREATE',
+            actorId: session.user.id,
+            institutionId: attempt.exam.course.institutionId,
+            targetType: 'ATTEMPT',
+            targetId: id,
+            metadata: { requestId: request.id, questionId },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ request }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Create Regrade Request Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -4,6 +4,10 @@ import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { getCorrectionReleaseInfo } from "@/lib/correction-release"
 import { canAccessAttemptAction } from "@/lib/attemptPermissions"
 import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
+import { applyAttemptParameterValues } from "@/lib/question-parameters"
+import { getExamRegradeWindow, regradeRequestSelect } from "@/lib/grading/regrade-requests"
+import { parseCriterionResults } from "@/lib/grading/criteria"
 
 // GET /api/attempts/[id]/results - Get graded results for student
 export async function GET(
@@ -68,7 +72,8 @@ export async function GET(
                 answers: {
                     include: {
                         segments: true,
-                        grades: true
+                        grades: true,
+                        regradeRequest: { select: regradeRequestSelect }
                     }
                 }
             }
@@ -134,7 +139,11 @@ export async function GET(
             submittedAt: attempt.submittedAt,
             totalScore,
             totalMaxPoints,
-            sections: attempt.exam.sections.map(section => ({
+            regrade: getExamRegradeWindow(attempt.exam),
+            sections: applyAttemptParameterValues(
+                applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection),
+                attempt
+            ).map(section => ({
                 id: section.id,
                 title: section.title,
                 questions: section.questions.map(question => {
@@ -158,8 +167,10 @@ export async function GET(
                         grade: grade ? {
                             score: grade.score,
                             feedback: grade.feedback,
+                            criteria: parseCriterionResults(grade.criteriaResults),
                             isAiGrade
-                        } : null
+                        } : null,
+                        regradeRequest: answer?.regradeRequest ?? null
                     }
                 })
             }))
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { canAccessAttemptAction } from "@/lib/attemptPermissions"
+import { getAttemptAuthContext, getTeacherAccessForAttempt } from "@/lib/attempt-access"
+import { parseBody } from "@/lib/api-validation"
+import { restoreAnswerRevisionSchema } from "@/lib/schemas/attempts"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { AnswerRevisionNotFoundError, restoreAnswerRevision } from "@/lib/answerAutosave"
+
+type SessionUser = { id: string; role: string; institutionId?: string | null }
+
+const canAccessAttempt = async (
+    id: string,
+    user: SessionUser,
+    action: 'viewGrading' | 'restoreAnswer'
+) => {
+    const attemptAuth = await getAttemptAuthContext(id)
+    if (!attemptAuth) {
+        return null
+    }
+
+    const teacherCanAccess = await getTeacherAccessForAttempt(attemptAuth.examId, {
+        id: user.id,
+        role: user.role,
+        institutionId: user.institutionId
+    })
+
+    const isAllowed = canAccessAttemptAction(action, {
+        sessionUser: user,
+        attemptStudentId: attemptAuth.studentId,
+        attemptInstitutionId: attemptAuth.institutionId,
+        teacherCanAccess
+    })
+
+    return isAllowed ? attemptAuth : null
+}
+
+// GET /api/attempts/[id]/revisions - Revision history of the attempt's written answers
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        if (!await canAccessAttempt(id, session.user, 'viewGrading')) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        // MCQ segments only hold a selected flag, there is nothing to replay
+        const answerSegments = await prisma.answerSegment.findMany({
+            where: {
+                revisionCount: { gt: 0 },
+                answer: {
+                    attemptId: id,
+                    question: { type: { not: 'MCQ' } }
+                }
+            },
+            select: {
+                id: true,
+                segmentId: true,
+                segment: { select: { order: true } },
+                answer: {
+                    select: {
+                        questionId: true,
+                        question: {
+                            select: {
+                                type: true,
+                                order: true,
+                                section: { select: { order: true } }
+                            }
+                        }
+                    }
+                },
+                revisions: {
+                    select: {
+                        sequence: true,
+                        savedAt: true,
+                        diff: true,
+                        snapshot: true,
+                        restoredFromSequence: true
+                    },
+                    orderBy: { sequence: 'asc' }
+                }
+            }
+        })
+
+        const segments = answerSegments
+            .sort((a, b) =>
+                a.answer.question.section.order - b.answer.question.section.order
+                || a.answer.question.order - b.answer.question.order
+                || a.segment.order - b.segment.order)
+            .map(answerSegment => ({
+                answerSegmentId: answerSegment.id,
+                questionId: answerSegment.answer.questionId,
+                questionType: answerSegment.answer.question.type,
+                segmentId: answerSegment.segmentId,
+                segmentOrder: answerSegment.segment.order,
+                revisions: answerSegment.revisions.map(revision => ({
+                    ...revision,
+                    savedAt: revision.savedAt.toISOString()
+                }))
+            }))
+
+        return NextResponse.json({ segments })
+
+    } catch (error) {
+        console.error("[API] Answer Revisions Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/attempts/[id]/revisions - Restore an earlier version of an answer segment
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const attemptAuth = await canAccessAttempt(id, session.user, 'restoreAnswer')
+        if (!attemptAuth) {
+            return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+
+        const parsed = await parseBody(req, restoreAnswerRevisionSchema)
+        if ('error' in parsed) return parsed.error
+        const { answerSegmentId, sequence } = parsed.data
+
+        const answerSegment = await prisma.answerSegment.findUnique({
+            where: { id: answerSegmentId },
+            select: { answer: { select: { attemptId: true, attempt: { select: { status: true } } } } }
+        })
+        if (!answerSegment || answerSegment.answer.attemptId !== id) {
+            return NextResponse.json({ error: "Answer not found" }, { status: 404 })
+        }
+
+        // The student's editor would overwrite the restored version on its next autosave
+        if (answerSegment.answer.attempt.status === 'IN_PROGRESS') {
+            return NextResponse.json({ error: "ATTEMPT_IN_PROGRESS" }, { status: 409 })
+        }
+
+        let restored
+        try {
+            restored = await restoreAnswerRevision(prisma, {
+                answerSegmentId,
+                sequence,
+                restoredById: session.user.id
+            })
+        } catch (error) {
+            if (error instanceof AnswerRevisionNotFoundError) {
+                return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+            }
+            throw error
+        }
+
+        logAudit({
+            action: 'ANSWER_RESTORE',
+            actorId: session.user.id,
+            institutionId: attemptAuth.institutionId,
+            targetType: 'ATTEMPT',
+            targetId: id,
+            metadata: {
+                examId: attemptAuth.examId,
+                studentId: attemptAuth.studentId,
+                answerSegmentId,
+                restoredFromSequence: sequence,
+                sequence: restored.revisionCount
+            },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true, sequence: restored.revisionCount })
+
+    } catch (error) {
+        console.error("[API] Answer Restore Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
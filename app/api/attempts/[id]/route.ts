@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isStudent } from "@/lib/api-auth"
 import { assertAttemptContentEditable, AttemptNotEditableError, canReadAttempt } from "@/lib/attemptPermissions"
-import { getExamEndAt } from "@/lib/exam-time"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getStudentExamWindow } from "@/lib/accommodations"
 import { getExamPermissions } from "@/lib/exam-permissions"
 import { buildRateLimitResponse, rateLimit } from "@/lib/rateLimit"
 import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
 import { ensureIdempotency, verifyAttemptNonce } from "@/lib/attemptIntegrity"
+import { parseCodeConfig, toStudentCodeConfig } from "@/lib/grading/code-grader"
+import { canStoreAutosave, resolveClientUpdatedAt, saveAnswerSegment } from "@/lib/answerAutosave"
+import { applyAttemptQuestionSelection, isQuestionInAttemptSelection } from "@/lib/question-pools"
+import { applyAttemptParameterValues } from "@/lib/question-parameters"
 
 // GET /api/attempts/[id] - Get attempt details
 export async function GET(
@@ -106,6 +111,12 @@ export async function GET(
             return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
         }
 
+        // Pool sections only show the questions drawn for this attempt, instantiated with its parameter values
+        const sections = applyAttemptParameterValues(
+            applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection),
+            attempt
+        )
+
         // Students should not access attempts for DRAFT exams or exams without valid duration/start date
         if (isStudent(session)) {
             const hasValidDuration = attempt.exam.durationMinutes !== null && attempt.exam.durationMinutes > 0
@@ -113,9 +124,26 @@ export async function GET(
             if (attempt.exam.status === 'DRAFT' || !hasValidDuration || !hasValidStartDate) {
                 return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
             }
+
+            // Hidden CODE tests and parameter definitions never leave the server
+            return NextResponse.json({
+                ...attempt,
+                exam: {
+                    ...attempt.exam,
+                    sections: sections.map(section => ({
+                        ...section,
+                        questions: section.questions.map(question => ({
+                            ...question,
+                            parameters: undefined,
+                            answerKey: undefined,
+                            codeConfig: toStudentCodeConfig(parseCodeConfig(question.codeConfig))
+                        }))
+                    }))
+                }
+            })
         }
 
-        return NextResponse.json(attempt)
+        return NextResponse.json({ ...attempt, exam: { ...attempt.exam, sections } })
 
     } catch (error) {
         console.error("[API] Get Attempt Error:", error)
@@ -166,10 +194,6 @@ export async function PUT(
         if (!nonceResult.ok) {
             return NextResponse.json({ error: "INTEGRITY" }, { status: 403 })
         }
-        const idempotency = await ensureIdempotency(id, requestId, 'autosave')
-        if (!idempotency.first) {
-            return NextResponse.json({ success: true, replay: true })
-        }
 
         const attempt = await prisma.attempt.findUnique({
             where: { id },
@@ -206,18 +230,33 @@ export async function PUT(
             throw error
         }
 
-        // Check time window
+        // Check time window (per-student when accommodations apply)
         const now = new Date()
-        if (attempt.exam.startAt && now < attempt.exam.startAt) {
+        const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+        if (examWindow.startAt && now < examWindow.startAt) {
             return NextResponse.json({ error: "Exam has not started yet" }, { status: 400 })
         }
-        const examEndAt = getExamEndAt(attempt.exam.startAt || new Date(), attempt.exam.durationMinutes, attempt.exam.endAt)
-        if (examEndAt && now > examEndAt) {
+
+        const body = await req.json()
+        const { questionId, segmentId, content, honorStatementText, clientUpdatedAt } = body
+
+        // Journal replays carry the time of the edit; late replays of edits made in time are accepted
+        const savedAt = resolveClientUpdatedAt(clientUpdatedAt, now)
+        const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
+        if (!canStoreAutosave(deadlineAt, savedAt, now)) {
             return NextResponse.json({ error: "Exam has ended" }, { status: 400 })
         }
 
-        const body = await req.json()
-        const { questionId, segmentId, content, honorStatementText } = body
+        // The proctor holds the attempt: the client keeps the edit and replays it on resume
+        if (attempt.pausedAt) {
+            return NextResponse.json({ error: "ATTEMPT_PAUSED" }, { status: 423 })
+        }
+
+        // Only once every rejection is behind: a rejected edit is retried with the same request id
+        const idempotency = await ensureIdempotency(id, requestId, 'autosave')
+        if (!idempotency.first) {
+            return NextResponse.json({ success: true, replay: true })
+        }
 
         if (honorStatementText !== undefined) {
             const updatedAttempt = await prisma.attempt.update({
@@ -231,46 +270,26 @@ export async function PUT(
             return NextResponse.json({ error: "Missing required fields" }, { status: 400 })
         }
 
-        // Find or create Answer for this question
-        let answer = await prisma.answer.findUnique({
-            where: {
-                attemptId_questionId: {
-                    attemptId: id,
-                    questionId
-                }
-            }
+        // The segment must belong to a question of this exam that was drawn for the attempt
+        const segment = await prisma.questionSegment.findUnique({
+            where: { id: segmentId },
+            select: { question: { select: { id: true, sectionId: true, section: { select: { examId: true } } } } }
         })
-
-        if (!answer) {
-            answer = await prisma.answer.create({
-                data: {
-                    attemptId: id,
-                    questionId
-                }
-            })
+        if (!segment || segment.question.id !== questionId || segment.question.section.examId !== attempt.examId
+            || !isQuestionInAttemptSelection(segment.question, attempt.questionSelection)) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 })
         }
 
-        // Upsert AnswerSegment
-        const answerSegment = await prisma.answerSegment.upsert({
-            where: {
-                answerId_segmentId: {
-                    answerId: answer.id,
-                    segmentId
-                }
-            },
-            create: {
-                answerId: answer.id,
-                segmentId,
-                content,
-                autosavedAt: new Date()
-            },
-            update: {
-                content,
-                autosavedAt: new Date()
-            }
+        // Last-write-wins on autosavedAt: an older replayed edit never overwrites a newer one
+        const { answerSegment, stale } = await saveAnswerSegment(prisma, {
+            attemptId: id,
+            questionId,
+            segmentId,
+            content,
+            savedAt
         })
 
-        return NextResponse.json({ success: true, answerSegment })
+        return NextResponse.json({ success: true, answerSegment, stale })
 
     } catch (error) {
         console.error("[API] Autosave Error:", error)
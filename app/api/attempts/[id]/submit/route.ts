@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isStudent } from "@/lib/api-auth"
-import { getExamEndAt } from "@/lib/exam-time"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getStudentExamWindow } from "@/lib/accommodations"
 import { canAccessAttemptAction } from "@/lib/attemptPermissions"
 import { getAttemptAuthContext } from "@/lib/attempt-access"
 import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
 import { ensureIdempotency, verifyAttemptNonce } from "@/lib/attemptIntegrity"
-import { scoreMultipleChoiceAnswer } from "@/lib/actions/exam-taking"
 import { buildRateLimitResponse, rateLimit } from "@/lib/rateLimit"
+import { resolveClientUpdatedAt, saveAnswerSegment } from "@/lib/answerAutosave"
+import { submitAttemptSchema } from "@/lib/schemas/attempts"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
+import { finalizeAttemptSubmission, submissionAttemptInclude } from "@/lib/attempt-submission"
 
 // POST /api/attempts/[id]/submit - Submit exam attempt
 export async function POST(
@@ -73,38 +77,18 @@ export async function POST(
         if (!nonceResult.ok) {
             return NextResponse.json({ error: "INTEGRITY" }, { status: 403 })
         }
-        const idempotency = await ensureIdempotency(id, requestId, 'submit')
-        if (!idempotency.first) {
-            return NextResponse.json({ success: true, replay: true })
+
+        // Older clients submit without a body; newer ones send their unsynced journal entries
+        const rawBody = await req.json().catch(() => ({}))
+        const parsedBody = submitAttemptSchema.safeParse(rawBody ?? {})
+        if (!parsedBody.success) {
+            return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
         }
+        const pendingAnswers = parsedBody.data.pendingAnswers ?? []
 
-        const attempt = await prisma.attempt.findUnique({
+        let attempt = await prisma.attempt.findUnique({
             where: { id },
-            include: {
-                exam: {
-                    include: {
-                        sections: {
-                            include: {
-                                questions: {
-                                    include: {
-                                        segments: true
-                                    }
-                                }
-                            }
-                        }
-                    }
-                },
-                answers: {
-                    include: {
-                        segments: true,
-                        question: {
-                            include: {
-                                segments: true
-                            }
-                        }
-                    }
-                }
-            }
+            include: submissionAttemptInclude
         })
 
         if (!attempt) {
@@ -127,122 +111,71 @@ export async function POST(
         const now = new Date()
         const gracePeriodSeconds = 60
 
-        if (attempt.exam.startAt && now < attempt.exam.startAt) {
+        const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+        if (examWindow.startAt && now < examWindow.startAt) {
             return NextResponse.json({ error: "Exam has not started yet" }, { status: 400 })
         }
 
-        const examEndAt = getExamEndAt(attempt.exam.startAt, attempt.exam.durationMinutes, attempt.exam.endAt)
-        if (examEndAt) {
-            const endAtWithGrace = new Date(examEndAt.getTime() + gracePeriodSeconds * 1000)
+        const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
+        if (deadlineAt) {
+            const endAtWithGrace = new Date(deadlineAt.getTime() + gracePeriodSeconds * 1000)
             if (now > endAtWithGrace) {
                 return NextResponse.json({ error: "Exam has ended, submission not allowed" }, { status: 400 })
             }
         }
 
-        // Process MCQ auto-scoring
-        const mcqScores: Array<{
-            questionId: string
-            answerId: string
-            score: number
-            isCorrect: boolean
-        }> = []
-
-        let totalAutoScoredPoints = 0
+        if (attempt.pausedAt) {
+            return NextResponse.json({ error: "ATTEMPT_PAUSED" }, { status: 423 })
+        }
 
-        for (const answer of attempt.answers) {
-            const question = answer.question
+        // Only once every rejection is behind: a rejected submission is retried with the same request id
+        const idempotency = await ensureIdempotency(id, requestId, 'submit')
+        if (!idempotency.first) {
+            return NextResponse.json({ success: true, replay: true })
+        }
 
-            if (question.type === 'MCQ') {
-                // Build map of student answers for this question
-                const studentAnswers = new Map<string, string>()
-                for (const seg of answer.segments) {
-                    studentAnswers.set(seg.segmentId, seg.content)
+        // Reconcile the offline journal before scoring (last-write-wins on autosavedAt)
+        if (pendingAnswers.length > 0) {
+            const examSegmentIds = new Map<string, string>()
+            for (const section of applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection)) {
+                for (const question of section.questions) {
+                    for (const segment of question.segments) {
+                        examSegmentIds.set(segment.id, question.id)
+                    }
                 }
+            }
 
-                // Score the MCQ
-                const scoreResult = await scoreMultipleChoiceAnswer(
-                    {
-                        id: question.id,
-                        maxPoints: question.maxPoints,
-                        requireAllCorrect: question.requireAllCorrect,
-                        segments: question.segments.map(s => ({
-                            id: s.id,
-                            maxPoints: s.maxPoints,
-                            isCorrect: s.isCorrect
-                        }))
-                    },
-                    studentAnswers
-                )
-
-                mcqScores.push({
-                    questionId: question.id,
-                    answerId: answer.id,
-                    score: scoreResult.score,
-                    isCorrect: scoreResult.isCorrect
+            for (const pending of pendingAnswers) {
+                const savedAt = resolveClientUpdatedAt(pending.clientUpdatedAt, now)
+                if (examSegmentIds.get(pending.segmentId) !== pending.questionId) continue
+                if (deadlineAt && savedAt > deadlineAt) continue
+                await saveAnswerSegment(prisma, {
+                    attemptId: id,
+                    questionId: pending.questionId,
+                    segmentId: pending.segmentId,
+                    content: pending.content,
+                    savedAt
                 })
-
-                totalAutoScoredPoints += scoreResult.score
             }
-        }
 
-        // Execute submission in transaction
-        const result = await prisma.$transaction(async (tx) => {
-            // Update attempt status
-            const updatedAttempt = await tx.attempt.update({
+            attempt = await prisma.attempt.findUnique({
                 where: { id },
-                data: {
-                    status: 'SUBMITTED',
-                    submittedAt: new Date()
-                }
+                include: submissionAttemptInclude
             })
-
-            // Create Grade records for MCQ answers
-            for (const mcqScore of mcqScores) {
-                // Check if grade already exists
-                const existingGrade = await tx.grade.findUnique({
-                    where: { answerId: mcqScore.answerId }
-                })
-
-                if (!existingGrade) {
-                    await tx.grade.create({
-                        data: {
-                            answerId: mcqScore.answerId,
-                            score: mcqScore.score,
-                            feedback: mcqScore.isCorrect
-                                ? 'Correct answer'
-                                : 'Incorrect answer',
-                            aiRationale: 'AUTO_SCORED_MCQ', // Flag indicating auto-scored
-                            isOverridden: false,
-                            gradedByUserId: null // null indicates automatic grading
-                        }
-                    })
-                }
-            }
-
-            // Create grading task for TEXT questions (Phase 4 placeholder)
-            const hasTextQuestions = attempt.answers.some(
-                a => a.question.type === 'TEXT'
-            )
-
-            if (hasTextQuestions) {
-                await tx.gradingTask.create({
-                    data: {
-                        attemptId: id,
-                        status: 'PENDING'
-                    }
-                })
+            if (!attempt) {
+                return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
             }
+        }
 
-            return updatedAttempt
-        })
+        const submission = await finalizeAttemptSubmission(attempt)
+        if (!submission) {
+            return NextResponse.json({ error: "Attempt already submitted" }, { status: 400 })
+        }
 
         return NextResponse.json({
             success: true,
-            attempt: result,
-            autoScoring: {
-                mcqCount: mcqScores.length,
-                totalAutoScoredPoints
-            }
+            attempt: submission.attempt,
+            autoScoring: submission.autoScoring
         })
 
     } catch (error) {
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isStudent } from "@/lib/api-auth"
-import { getExamEndAt } from "@/lib/exam-time"
 import { assertExamVariantShape, examAppliesToClassIds } from "@/lib/exam-variants"
 import { ensureAttemptNonce } from "@/lib/attemptIntegrity"
 import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
 import { parseBody } from "@/lib/api-validation"
 import { createAttemptSchema } from "@/lib/schemas/attempts"
+import { getStudentExamWindow } from "@/lib/accommodations"
+import { drawParameterValuesForAttempt, drawQuestionSelectionForAttempt } from "@/lib/attempt-questions"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
+import { applyAttemptParameterValues } from "@/lib/question-parameters"
 
 // POST /api/attempts - Start a new exam attempt
 export async function POST(req: NextRequest) {
@@ -45,7 +48,7 @@ export async function POST(req: NextRequest) {
                             where: { archivedAt: null },
                             include: {
                                 enrollments: {
-                                    where: { userId: session.user.id, user: { archivedAt: null } }
+                                    where: { userId: session.user.id, archivedAt: null, user: { archivedAt: null } }
                                 }
                             }
                         }
@@ -84,14 +87,14 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Exam not found" }, { status: 404 })
         }
 
-        // Check if exam is available
+        // Check if exam is available (individual window when the student has accommodations)
         const now = new Date()
-        if (exam.startAt && now < exam.startAt) {
+        const examWindow = await getStudentExamWindow(exam, session.user.id)
+        if (examWindow.startAt && now < examWindow.startAt) {
             return NextResponse.json({ error: "Exam has not started yet" }, { status: 400 })
         }
 
-        const examEndAt = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
-        if (examEndAt && now > examEndAt) {
+        if (examWindow.endAt && now > examWindow.endAt) {
             return NextResponse.json({ error: "Exam has ended" }, { status: 400 })
         }
 
@@ -104,6 +107,10 @@ export async function POST(req: NextRequest) {
         })
 
         if (existingAttempt) {
+            // Paper copies are answered on paper and come back through the scan-in
+            if (existingAttempt.paperLayout !== null) {
+                return NextResponse.json({ error: "This exam is taken on paper" }, { status: 400 })
+            }
             // Return existing attempt if not submitted
             if (existingAttempt.status === 'IN_PROGRESS') {
                 const attemptNonce = await ensureAttemptNonce(existingAttempt.id)
@@ -112,13 +119,17 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "You have already completed this exam" }, { status: 400 })
         }
 
-        // Create new attempt
+        // Create new attempt with its own draw from the exam's question pools and parameters
+        const questionSelection = await drawQuestionSelectionForAttempt(examId, session.user.id)
+        const parameterValues = await drawParameterValuesForAttempt(examId, session.user.id)
         const attempt = await prisma.attempt.create({
             data: {
                 examId,
                 studentId: session.user.id,
                 status: 'IN_PROGRESS',
-                startedAt: new Date()
+                startedAt: new Date(),
+                ...(questionSelection ? { questionSelection } : {}),
+                ...(parameterValues ? { parameterValues } : {})
             },
             include: {
                 exam: {
@@ -140,7 +151,20 @@ export async function POST(req: NextRequest) {
         })
 
         const attemptNonce = await ensureAttemptNonce(attempt.id)
-        return NextResponse.json({ ...attempt, attemptNonce })
+        return NextResponse.json({
+            ...attempt,
+            exam: {
+                ...attempt.exam,
+                sections: applyAttemptParameterValues(
+                    applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection),
+                    attempt
+                ).map(section => ({
+                    ...section,
+                    questions: section.questions.map(question => ({ ...question, parameters: undefined, answerKey: undefined }))
+                }))
+            },
+            attemptNonce
+        })
 
     } catch (error) {
         console.error("[API] Create Attempt Error:", error)
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { accommodationSelect, canManageCourseAccommodations, parseOptionalDate } from "@/lib/accommodations"
+import { updateAccommodationSchema } from "@/lib/schemas/accommodations"
+
+type RouteParams = { params: Promise<{ courseId: string; accommodationId: string }> }
+
+// PATCH /api/courses/[courseId]/accommodations/[accommodationId] - Update overrides
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+    try {
+        const { courseId, accommodationId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const access = await canManageCourseAccommodations(courseId, session.user)
+        if (!access.ok) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const existing = await prisma.examAccommodation.findFirst({
+            where: { id: accommodationId, courseId, archivedAt: null },
+            select: { id: true, startAt: true, endAt: true }
+        })
+        if (!existing) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const parsed = await parseBody(req, updateAccommodationSchema)
+        if ('error' in parsed) return parsed.error
+        const data = parsed.data
+
+        const startAt = parseOptionalDate(data.startAt)
+        const endAt = parseOptionalDate(data.endAt)
+        if (startAt === 'invalid' || endAt === 'invalid') {
+            return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+        }
+        const nextStartAt = startAt === undefined ? existing.startAt : startAt
+        const nextEndAt = endAt === undefined ? existing.endAt : endAt
+        if (nextStartAt && nextEndAt && nextEndAt <= nextStartAt) {
+            return NextResponse.json({ error: "endAt must be after startAt" }, { status: 400 })
+        }
+
+        if (data.examId) {
+            const exam = await prisma.exam.findFirst({
+                where: { id: data.examId, courseId, archivedAt: null },
+                select: { id: true }
+            })
+            if (!exam) {
+                return NextResponse.json({ error: "Invalid exam" }, { status: 400 })
+            }
+        }
+
+        const accommodation = await prisma.examAccommodation.update({
+            where: { id: accommodationId },
+            data: {
+                examId: data.examId,
+                durationMultiplier: data.durationMultiplier,
+                extraMinutes: data.extraMinutes,
+                startAt,
+                endAt,
+                lateStartGraceMinutes: data.lateStartGraceMinutes,
+                reason: data.reason,
+            },
+            select: accommodationSelect
+        })
+
+        logAudit({
+            action: 'ACCOMMODATION_UPDATE',
+            actorId: session.user.id,
+            institutionId: access.institutionId,
+            targetType: 'ACCOMMODATION',
+            targetId: accommodation.id,
+            metadata: { courseId, fields: Object.keys(data).join(',') },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ accommodation })
+    } catch (error) {
+        console.error("[API] Update Accommodation Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// DELETE /api/courses/[courseId]/accommodations/[accommodationId] - Archive (soft delete)
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+    try {
+        const { courseId, accommodationId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const access = await canManageCourseAccommodations(courseId, session.user)
+        if (!access.ok) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const existing = await prisma.examAccommodation.findFirst({
+            where: { id: accommodationId, courseId, archivedAt: null },
+            select: { id: true, userId: true, classId: true, examId: true }
+        })
+        if (!existing) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        await prisma.examAccommodation.update({
+            where: { id: accommodationId },
+            data: { archivedAt: new Date() }
+        })
+
+        logAudit({
+            action: 'ACCOMMODATION_DELETE',
+            actorId: session.user.id,
+            institutionId: access.institutionId,
+            targetType: 'ACCOMMODATION',
+            targetId: accommodationId,
+            metadata: { courseId, userId: existing.userId, classId: existing.classId, examId: existing.examId },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error("[API] Delete Accommodation Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
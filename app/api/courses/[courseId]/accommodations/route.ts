@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { accommodationSelect, canManageCourseAccommodations, parseOptionalDate } from "@/lib/accommodations"
+import { createAccommodationSchema } from "@/lib/schemas/accommodations"
+
+// GET /api/courses/[courseId]/accommodations - List active accommodations of a course
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ courseId: string }> }
+) {
+    try {
+        const { courseId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const access = await canManageCourseAccommodations(courseId, session.user)
+        if (!access.ok) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const [accommodations, sections, exams] = await Promise.all([
+            prisma.examAccommodation.findMany({
+                where: { courseId, archivedAt: null },
+                select: accommodationSelect,
+                orderBy: { createdAt: 'desc' }
+            }),
+            prisma.class.findMany({
+                where: { courseId, archivedAt: null },
+                select: {
+                    id: true,
+                    name: true,
+                    enrollments: {
+                        where: { role: 'STUDENT', archivedAt: null, user: { archivedAt: null } },
+                        select: { user: { select: { id: true, name: true, email: true } } }
+                    }
+                },
+                orderBy: { name: 'asc' }
+            }),
+            prisma.exam.findMany({
+                where: { courseId, archivedAt: null, parentExamId: null },
+                select: { id: true, title: true },
+                orderBy: { createdAt: 'desc' }
+            })
+        ])
+
+        // Options used by the management form (students deduplicated across sections)
+        const students = new Map<string, { id: string; name: string | null; email: string | null }>()
+        sections.forEach(section => {
+            section.enrollments.forEach(enrollment => students.set(enrollment.user.id, enrollment.user))
+        })
+
+        return NextResponse.json({
+            accommodations,
+            students: Array.from(students.values()),
+            sections: sections.map(section => ({ id: section.id, name: section.name })),
+            exams
+        })
+    } catch (error) {
+        console.error("[API] List Accommodations Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/courses/[courseId]/accommodations - Create a student or class accommodation
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ courseId: string }> }
+) {
+    try {
+        const { courseId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const access = await canManageCourseAccommodations(courseId, session.user)
+        if (!access.ok) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const parsed = await parseBody(req, createAccommodationSchema)
+        if ('error' in parsed) return parsed.error
+        const data = parsed.data
+
+        const startAt = parseOptionalDate(data.startAt)
+        const endAt = parseOptionalDate(data.endAt)
+        if (startAt === 'invalid' || endAt === 'invalid') {
+            return NextResponse.json({ error: "Invalid date" }, { status: 400 })
+        }
+        if (startAt && endAt && endAt <= startAt) {
+            return NextResponse.json({ error: "endAt must be after startAt" }, { status: 400 })
+        }
+
+        if (data.userId) {
+            const enrollment = await prisma.enrollment.findFirst({
+                where: {
+                    userId: data.userId,
+                    role: 'STUDENT',
+                    archivedAt: null,
+                    user: { archivedAt: null },
+                    class: { courseId, archivedAt: null },
+                },
+                select: { id: true }
+            })
+            if (!enrollment) {
+                return NextResponse.json({ error: "Student is not enrolled in this course" }, { status: 400 })
+            }
+        }
+
+        if (data.classId) {
+            const targetClass = await prisma.class.findFirst({
+                where: { id: data.classId, courseId, archivedAt: null },
+                select: { id: true }
+            })
+            if (!targetClass) {
+                return NextResponse.json({ error: "Invalid section" }, { status: 400 })
+            }
+        }
+
+        if (data.examId) {
+            const exam = await prisma.exam.findFirst({
+                where: { id: data.examId, courseId, archivedAt: null },
+                select: { id: true }
+            })
+            if (!exam) {
+                return NextResponse.json({ error: "Invalid exam" }, { status: 400 })
+            }
+        }
+
+        const accommodation = await prisma.examAccommodation.create({
+            data: {
+                courseId,
+                userId: data.userId ?? null,
+                classId: data.classId ?? null,
+                examId: data.examId ?? null,
+                durationMultiplier: data.durationMultiplier ?? null,
+                extraMinutes: data.extraMinutes ?? null,
+                startAt: startAt ?? null,
+                endAt: endAt ?? null,
+                lateStartGraceMinutes: data.lateStartGraceMinutes ?? null,
+                reason: data.reason ?? null,
+                createdById: session.user.id,
+            },
+            select: accommodationSelect
+        })
+
+        logAudit({
+            action: 'ACCOMMODATION_CREATE',
+            actorId: session.user.id,
+            institutionId: access.institutionId,
+            targetType: 'ACCOMMODATION',
+            targetId: accommodation.id,
+            metadata: {
+                courseId,
+                userId: accommodation.userId,
+                classId: accommodation.classId,
+                examId: accommodation.examId,
+            },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ accommodation }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Create Accommodation Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
-import { getExamEndAt } from "@/lib/exam-time"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getExamWindowsForStudents } from "@/lib/accommodations"
+import { computeAntiCheatScore } from "@/lib/antiCheat"
 
 // GET /api/exams/[examId]/anti-cheat-report - Download CSV report of anti-cheat data
 export async function GET(
@@ -57,11 +59,16 @@ export async function GET(
             }
         })
 
+        const examWindows = await getExamWindowsForStudents(exam, attempts.map(attempt => attempt.studentId))
+
         // Calculate anti-cheat scores and prepare data
         const reportData = attempts.map(attempt => {
             const eventCounts: Record<string, number> = {
                 FOCUS_LOST: 0,
                 TAB_SWITCH: 0,
+                FULLSCREEN_EXIT: 0,
+                INACTIVITY: 0,
+                MULTI_SESSION: 0,
                 COPY: 0,
                 PASTE: 0
             }
@@ -75,17 +82,17 @@ export async function GET(
                 }
             })
 
-            // Calculate antiCheatScore with weighted formula
+            // Calculate antiCheatScore with weighted formula (each copy and paste counted too)
             const antiCheatScore =
-                (eventCounts.FOCUS_LOST || 0) * 2 +
-                (eventCounts.TAB_SWITCH || 0) * 3 +
+                computeAntiCheatScore({ eventCounts }) +
                 (eventCounts.COPY || 0) * 1 +
                 (eventCounts.PASTE || 0) * 1
 
             // Determine status
             const now = new Date()
-            const examEndAt = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
-            const deadlineAt = examEndAt ?? new Date(attempt.startedAt.getTime() + (exam.durationMinutes || 60) * 60 * 1000)
+            const examWindow = examWindows.get(attempt.studentId)
+            const deadlineAt = (examWindow && getAttemptDeadline(examWindow, attempt.startedAt, attempt))
+                ?? new Date(attempt.startedAt.getTime() + (exam.durationMinutes || 60) * 60 * 1000)
             let attemptStatus: string
             if (attempt.submittedAt) {
                 attemptStatus = 'submitted'
@@ -103,6 +110,9 @@ export async function GET(
                 antiCheatScore,
                 FOCUS_LOST: eventCounts.FOCUS_LOST || 0,
                 TAB_SWITCH: eventCounts.TAB_SWITCH || 0,
+                FULLSCREEN_EXIT: eventCounts.FULLSCREEN_EXIT || 0,
+                INACTIVITY: eventCounts.INACTIVITY || 0,
+                MULTI_SESSION: eventCounts.MULTI_SESSION || 0,
                 COPY: eventCounts.COPY || 0,
                 PASTE: eventCounts.PASTE || 0,
                 totalEvents: attempt.proctorEvents.length
@@ -118,6 +128,9 @@ export async function GET(
             'antiCheatScore',
             'FOCUS_LOST',
             'TAB_SWITCH',
+            'FULLSCREEN_EXIT',
+            'INACTIVITY',
+            'MULTI_SESSION',
             'COPY',
             'PASTE',
             'totalEvents'
@@ -133,6 +146,9 @@ export async function GET(
                 row.antiCheatScore,
                 row.FOCUS_LOST,
                 row.TAB_SWITCH,
+                row.FULLSCREEN_EXIT,
+                row.INACTIVITY,
+                row.MULTI_SESSION,
                 row.COPY,
                 row.PASTE,
                 row.totalEvents
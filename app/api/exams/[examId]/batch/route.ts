@@ -41,7 +41,7 @@ type BatchOp =
                   answerTemplate?: unknown
                   answerTemplateLocked?: boolean
                   studentTools?: unknown
-                  type?: 'TEXT' | 'MCQ' | 'CODE'
+                  type?: 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
                   order?: number
                   customLabel?: string | null
                   requireAllCorrect?: boolean
@@ -305,7 +305,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<ExamP
                         targetOrder,
                     } = op.data.patch
 
-                    if (type && !['TEXT', 'MCQ', 'CODE'].includes(type)) {
+                    if (type && !['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'].includes(type)) {
                         throw new Error('Invalid question type')
                     }
                     if (targetSectionId) {
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { deleteCalibrationSet } from "@/lib/grading/calibration-runs"
+
+type AuthorizedUser = { id: string; institutionId: string | undefined }
+
+// Shared checks: teacher session, CSRF on writes, edit rights on the exam
+async function authorize(req: NextRequest, examId: string, { write }: { write: boolean }): Promise<AuthorizedUser | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (write) {
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+    }
+
+    const { canEdit } = await getExamPermissions(examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    }, { includeArchived: true })
+    if (!canEdit) {
+        return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return { id: session.user.id, institutionId: session.user.institutionId }
+}
+
+// DELETE /api/exams/[examId]/calibration/[setId] - Remove a golden set and its runs
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string; setId: string }> }
+) {
+    try {
+        const { examId, setId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const set = await prisma.calibrationSet.findFirst({ where: { id: setId, examId }, select: { id: true } })
+        if (!set) {
+            return NextResponse.json({ error: "Calibration set not found" }, { status: 404 })
+        }
+
+        await deleteCalibrationSet(set.id)
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error("[API] Delete Calibration Set Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
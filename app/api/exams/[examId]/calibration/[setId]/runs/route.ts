@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { runCalibrationSchema } from "@/lib/schemas/grades"
+import { runCalibration } from "@/lib/grading/calibration-runs"
+
+type AuthorizedUser = { id: string; institutionId: string | undefined }
+
+// Shared checks: teacher session, CSRF on writes, edit rights on the exam
+async function authorize(req: NextRequest, examId: string, { write }: { write: boolean }): Promise<AuthorizedUser | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (write) {
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+    }
+
+    const { canEdit } = await getExamPermissions(examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    }, { includeArchived: true })
+    if (!canEdit) {
+        return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return { id: session.user.id, institutionId: session.user.institutionId }
+}
+
+// POST /api/exams/[examId]/calibration/[setId]/runs - AI-grade the golden set with a prompt and store the report
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string; setId: string }> }
+) {
+    try {
+        const { examId, setId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const parsed = await parseBody(req, runCalibrationSchema)
+        if ('error' in parsed) return parsed.error
+        const promptVersionId = parsed.data.promptVersionId ?? null
+
+        const set = await prisma.calibrationSet.findFirst({ where: { id: setId, examId }, select: { id: true } })
+        if (!set) {
+            return NextResponse.json({ error: "Calibration set not found" }, { status: 404 })
+        }
+
+        if (promptVersionId) {
+            const version = await prisma.aIPromptVersion.findFirst({
+                where: { id: promptVersionId, key: 'GRADING_SYSTEM' },
+                select: { id: true }
+            })
+            if (!version) {
+                return NextResponse.json({ error: "Prompt version not found" }, { status: 404 })
+            }
+        }
+
+        const run = await runCalibration({
+            setId: set.id,
+            promptVersionId,
+            institutionId: user.institutionId ?? null,
+            userId: user.id
+        })
+        if (!run) {
+            return NextResponse.json({
+                error: "NO_TEACHER_GRADES",
+                message: "Aucune copie de l'echantillon n'a encore ete corrigee par un enseignant."
+            }, { status: 400 })
+        }
+
+        logAudit({
+            action: 'AI_CALIBRATION_RUN',
+            actorId: user.id,
+            institutionId: user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { setId: set.id, runId: run.id, promptVersionId },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ run })
+    } catch (error) {
+        console.error("[API] Run Calibration Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { createCalibrationSetSchema } from "@/lib/schemas/grades"
+import { createCalibrationSet, getCalibrationOverview } from "@/lib/grading/calibration-runs"
+
+type AuthorizedUser = { id: string; institutionId: string | undefined }
+
+// Shared checks: teacher session, CSRF on writes, edit rights on the exam
+async function authorize(req: NextRequest, examId: string, { write }: { write: boolean }): Promise<AuthorizedUser | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (write) {
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+    }
+
+    const { canEdit } = await getExamPermissions(examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    }, { includeArchived: true })
+    if (!canEdit) {
+        return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return { id: session.user.id, institutionId: session.user.institutionId }
+}
+
+// GET /api/exams/[examId]/calibration - Golden sets, their calibration runs and the prompts to compare
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: false })
+        if (user instanceof NextResponse) return user
+
+        return NextResponse.json(await getCalibrationOverview(examId))
+    } catch (error) {
+        console.error("[API] Get Calibration Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/exams/[examId]/calibration - Sample answers into a golden set for teachers to grade by hand
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const parsed = await parseBody(req, createCalibrationSetSchema)
+        if ('error' in parsed) return parsed.error
+
+        const set = await createCalibrationSet({ examId, ...parsed.data, userId: user.id })
+
+        return NextResponse.json({ set }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Create Calibration Set Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { parseContent, segmentsToPlainText } from "@/lib/content"
+import { getQuestionLabels } from "@/lib/proctoring/liveState"
+import {
+    analyzeCollusion,
+    type CollusionAnswer,
+    type CollusionAttempt,
+    type CollusionQuestion
+} from "@/lib/proctoring/collusion"
+
+// Longest excerpt of each answer sent with a similarity
+const EXCERPT_LENGTH = 400
+// The most suspicious pairs only, the clusters cover all of them
+const MAX_PAIRS = 200
+
+const asObjectRecord = (value: unknown): Record<string, unknown> | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return null
+    }
+    return value as Record<string, unknown>
+}
+
+const latestDate = (dates: Array<Date | null>): Date | null =>
+    dates.reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null)
+
+// GET /api/exams/[examId]/collusion-report - Answer similarities between the students of an exam
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const exam = await prisma.exam.findUnique({
+            where: { id: examId },
+            include: {
+                course: {
+                    select: { institutionId: true }
+                },
+                sections: {
+                    select: {
+                        order: true,
+                        questions: {
+                            select: {
+                                id: true,
+                                type: true,
+                                order: true,
+                                customLabel: true,
+                                segments: {
+                                    select: { id: true, order: true, isCorrect: true },
+                                    orderBy: { order: 'asc' }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        })
+
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        // Verify teacher belongs to same institution
+        if (exam.course.institutionId !== session.user.institutionId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+        }
+
+        const examQuestions = exam.sections.flatMap(section => section.questions)
+        const questions: CollusionQuestion[] = examQuestions.flatMap((question): CollusionQuestion[] => {
+            if (question.type === 'MCQ') {
+                return [{
+                    id: question.id,
+                    type: 'MCQ',
+                    correctOptionIds: question.segments.filter(segment => segment.isCorrect === true).map(segment => segment.id)
+                }]
+            }
+            return question.type === 'TEXT' || question.type === 'CODE' ? [{ id: question.id, type: question.type }] : []
+        })
+        const questionsById = new Map(examQuestions.map(question => [question.id, question]))
+
+        const attempts = await prisma.attempt.findMany({
+            where: { examId },
+            select: {
+                id: true,
+                student: {
+                    select: { id: true, name: true, email: true }
+                },
+                answers: {
+                    select: {
+                        questionId: true,
+                        segments: {
+                            select: { segmentId: true, content: true, autosavedAt: true }
+                        }
+                    }
+                },
+                proctorEvents: {
+                    where: { type: 'PASTE' },
+                    select: { timestamp: true, metadata: true }
+                }
+            }
+        })
+
+        const collusionAttempts: CollusionAttempt[] = attempts.map(attempt => ({
+            attemptId: attempt.id,
+            externalPastes: attempt.proctorEvents
+                .filter(event => asObjectRecord(event.metadata)?.isExternal === true)
+                .map(event => event.timestamp),
+            answers: attempt.answers.flatMap((answer): CollusionAnswer[] => {
+                const question = questionsById.get(answer.questionId)
+                if (!question) return []
+                const savedAt = latestDate(answer.segments.map(segment => segment.autosavedAt))
+
+                if (question.type === 'MCQ') {
+                    const selectedOptionIds = answer.segments
+                        .filter(segment => segment.content === 'true' || segment.content === '1')
+                        .map(segment => segment.segmentId)
+                    return [{ questionId: answer.questionId, selectedOptionIds, savedAt }]
+                }
+                if (question.type === 'CODE') {
+                    // The submission lives in the question's first segment
+                    const primarySegmentId = question.segments[0]?.id
+                    const code = answer.segments.find(segment => segment.segmentId === primarySegmentId)?.content
+                        ?? answer.segments[0]?.content
+                        ?? ''
+                    return [{ questionId: answer.questionId, text: code, savedAt }]
+                }
+                if (question.type === 'TEXT') {
+                    const order = new Map(question.segments.map(segment => [segment.id, segment.order]))
+                    const text = [...answer.segments]
+                        .sort((a, b) => (order.get(a.segmentId) ?? 0) - (order.get(b.segmentId) ?? 0))
+                        .map(segment => segmentsToPlainText(parseContent(segment.content)))
+                        .join('\n')
+                    return [{ questionId: answer.questionId, text, savedAt }]
+                }
+                return []
+            })
+        }))
+
+        const report = analyzeCollusion(questions, collusionAttempts)
+
+        // Answers shown side by side in the report
+        const answerTexts = new Map(collusionAttempts.flatMap(attempt =>
+            attempt.answers
+                .filter(answer => answer.text !== undefined)
+                .map(answer => [`${attempt.attemptId}:${answer.questionId}`, answer.text!.trim().slice(0, EXCERPT_LENGTH)] as const)
+        ))
+
+        return NextResponse.json({
+            comparedAttempts: report.comparedAttempts,
+            students: Object.fromEntries(attempts.map(attempt => [attempt.id, attempt.student])),
+            questions: getQuestionLabels(exam.sections),
+            clusters: report.clusters,
+            totalPairs: report.pairs.length,
+            pairs: report.pairs.slice(0, MAX_PAIRS).map(pair => ({
+                ...pair,
+                evidence: pair.evidence.map(evidence => ({
+                    ...evidence,
+                    excerpts: evidence.kind === 'MCQ'
+                        ? null
+                        : pair.attemptIds.map(attemptId => answerTexts.get(`${attemptId}:${evidence.questionId}`) ?? '')
+                }))
+            }))
+        })
+
+    } catch (error) {
+        console.error("[API] Collusion Report Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
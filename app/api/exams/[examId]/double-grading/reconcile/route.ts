@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { reconcileGradeSchema } from "@/lib/schemas/grades"
+import { reconcileAnswer } from "@/lib/grading/double-grading"
+
+// POST /api/exams/[examId]/double-grading/reconcile - Lead grader sets the final score of a double-graded answer
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const parsed = await parseBody(req, reconcileGradeSchema)
+        if ('error' in parsed) return parsed.error
+        const { answerId, score, feedback } = parsed.data
+
+        const answer = await prisma.answer.findFirst({
+            where: { id: answerId, doubleGrading: true, attempt: { examId } },
+            select: {
+                id: true,
+                attemptId: true,
+                question: { select: { segments: { select: { maxPoints: true } } } }
+            }
+        })
+        if (!answer) {
+            return NextResponse.json({ error: "Answer not found" }, { status: 404 })
+        }
+
+        const maxPoints = answer.question.segments.reduce((sum, segment) => sum + (segment.maxPoints || 0), 0)
+        const finalScore = Math.min(Math.max(score, 0), maxPoints)
+
+        const grade = await reconcileAnswer({
+            answerId: answer.id,
+            attemptId: answer.attemptId,
+            leadGraderId: session.user.id,
+            score: finalScore,
+            feedback: feedback || null
+        })
+
+        logAudit({
+            action: 'GRADE_RECONCILE',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'GRADE',
+            targetId: grade.id,
+            metadata: { answerId, score: finalScore },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ success: true, grade })
+    } catch (error) {
+        console.error("[API] Reconcile Grade Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { doubleGradingSelectionSchema } from "@/lib/schemas/grades"
+import {
+    clearDoubleGradingMarks,
+    getDoubleGradingOverview,
+    markForDoubleGrading
+} from "@/lib/grading/double-grading"
+
+type AuthorizedUser = { id: string; institutionId: string | undefined }
+
+// Shared checks: teacher session, CSRF on writes, edit rights on the exam (lead grader)
+async function authorize(req: NextRequest, examId: string, { write }: { write: boolean }): Promise<AuthorizedUser | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (write) {
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+    }
+
+    const { canEdit } = await getExamPermissions(examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    }, { includeArchived: true })
+    if (!canEdit) {
+        return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return { id: session.user.id, institutionId: session.user.institutionId }
+}
+
+// GET /api/exams/[examId]/double-grading - Double-graded answers, their independent grades and agreement
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: false })
+        if (user instanceof NextResponse) return user
+
+        return NextResponse.json(await getDoubleGradingOverview(examId))
+    } catch (error) {
+        console.error("[API] Get Double Grading Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/exams/[examId]/double-grading - Mark copies, questions or a random sample for second grading
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const parsed = await parseBody(req, doubleGradingSelectionSchema)
+        if ('error' in parsed) return parsed.error
+
+        const markedCount = await markForDoubleGrading(examId, parsed.data)
+
+        logAudit({
+            action: 'DOUBLE_GRADING_MARK',
+            actorId: user.id,
+            institutionId: user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { mode: parsed.data.mode, markedCount },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ markedCount })
+    } catch (error) {
+        console.error("[API] Mark Double Grading Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// DELETE /api/exams/[examId]/double-grading - Unmark the answers no grader has started on
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const clearedCount = await clearDoubleGradingMarks(examId)
+
+        logAudit({
+            action: 'DOUBLE_GRADING_MARK',
+            actorId: user.id,
+            institutionId: user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { mode: null, clearedCount },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ clearedCount })
+    } catch (error) {
+        console.error("[API] Clear Double Grading Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
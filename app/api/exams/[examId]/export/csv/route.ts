@@ -3,6 +3,7 @@ import { getAuthSession, isTeacher } from '@/lib/api-auth'
 import { prisma } from '@/lib/prisma'
 import { generateGradesCSV } from '@/lib/export/csv-generator'
 import { logAudit, getClientIp } from '@/lib/audit'
+import { getAnonymityState } from '@/lib/grading/anonymity'
 
 // GET /api/exams/[examId]/export/csv - Download grades as CSV
 export async function GET(
@@ -38,8 +39,12 @@ export async function GET(
     const classId = req.nextUrl.searchParams.get('classId')
     const classIds = classId ? [classId] : undefined
 
+    // Anonymized columns on request, and always while blind grading hides identities
+    const { identityHidden } = getAnonymityState(exam.gradingConfig as Record<string, unknown> | null)
+    const anonymized = identityHidden || req.nextUrl.searchParams.get('anonymized') === '1'
+
     // Generate CSV
-    const csv = await generateGradesCSV({ examId, classIds })
+    const csv = await generateGradesCSV({ examId, classIds, anonymized })
 
     logAudit({
         action: 'EXPORT_CSV',
@@ -47,7 +52,7 @@ export async function GET(
         institutionId: session.user.institutionId,
         targetType: 'EXAM',
         targetId: examId,
-        metadata: classId ? { classId } : undefined,
+        metadata: classId ? { classId, anonymized } : { anonymized },
         ipAddress: getClientIp(req),
     })
 
@@ -57,7 +57,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ examId:
                             where: { archivedAt: null },
                             select: {
                                 enrollments: {
-                                    where: { role: 'TEACHER', user: { archivedAt: null } },
+                                    where: { role: 'TEACHER', archivedAt: null, user: { archivedAt: null } },
                                     select: {
                                         user: { select: { name: true } }
                                     }
@@ -5,6 +5,7 @@ import { aiGradingQueue } from "@/lib/queue"
 import { getAllowedOrigins, getCsrfCookieName, verifyCsrf } from "@/lib/csrf"
 import { flags } from "@/lib/featureFlags"
 import { generateRubric } from "@/lib/grading/rubric-generator"
+import { isAnswerKeyScored } from "@/lib/grading/answer-key"
 import { segmentsToLatexString, parseContent } from "@/lib/content"
 
 // POST /api/exams/[examId]/grade-all - Enqueue batch grading for all answers
@@ -93,7 +94,7 @@ export async function POST(
                 answers: {
                     include: {
                         question: {
-                            select: { type: true }
+                            select: { type: true, answerKey: true }
                         },
                         grades: {
                             select: {
@@ -113,6 +114,8 @@ export async function POST(
             for (const answer of attempt.answers) {
                 // Skip non-TEXT questions (MCQ is auto-scored)
                 if (answer.question.type !== 'TEXT') continue
+                // Graph answers compared with a reference graph are scored on submit
+                if (isAnswerKeyScored(answer.question)) continue
 
                 // Skip if grade exists and is human (gradedByUserId not null OR isOverridden)
                 const hasHumanGrade = answer.grades.length > 0 &&
@@ -165,7 +168,8 @@ export async function POST(
                     const rubric = await generateRubric({
                         questionContent,
                         correctionGuidelines,
-                        maxPoints
+                        maxPoints,
+                        institutionId: exam.course.institutionId
                     })
 
                     // Store generated rubric
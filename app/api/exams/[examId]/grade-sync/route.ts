@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
 import { generateRubric } from "@/lib/grading/rubric-generator"
 import { gradeAnswer } from "@/lib/grading/grader"
+import { parseRubricCriteria } from "@/lib/grading/criteria"
+import { segmentsToGradingText, type GradingVisual } from "@/lib/grading/grading-visuals"
+import type { RubricCriterion } from "@/lib/grading/schemas"
 import { segmentsToLatexString, parseContent } from "@/lib/content"
 import { recomputeAttemptStatus } from "@/lib/attemptStatus"
+import { resolveQuestionParameterValues, substituteParameters, substituteParametersDeep } from "@/lib/question-parameters"
 import type { ContentSegment } from "@/types/exams"
 
 /**
@@ -105,6 +110,7 @@ export async function POST(
             attemptId: string
             answerId: string
             questionId: string
+            attempt: typeof attempts[0]
             answer: typeof attempts[0]['answers'][0]
         }> = []
 
@@ -120,6 +126,7 @@ export async function POST(
                     attemptId: attempt.id,
                     answerId: answer.id,
                     questionId: answer.questionId,
+                    attempt,
                     answer
                 })
             }
@@ -147,6 +154,7 @@ export async function POST(
         const questions = exam.sections.flatMap(s => s.questions)
         const questionMap = new Map(questions.map(q => [q.id, q]))
         const rubricCache = new Map<string, string>()
+        const criteriaCache = new Map<string, RubricCriterion[] | null>()
 
         let gradedCount = 0
         const errors: Array<{ answerId: string; error: string }> = []
@@ -170,6 +178,7 @@ export async function POST(
 
                     if (questionWithRubric?.generatedRubric) {
                         rubricString = JSON.stringify(questionWithRubric.generatedRubric)
+                        criteriaCache.set(item.questionId, parseRubricCriteria(questionWithRubric.generatedRubric))
                     } else {
                         // Generate rubric
                         const questionContent = segmentsToLatexString(parseContent(questionWithRubric?.content))
@@ -187,7 +196,8 @@ export async function POST(
                             const rubric = await generateRubric({
                                 questionContent,
                                 correctionGuidelines,
-                                maxPoints
+                                maxPoints,
+                                institutionId: exam.course.institutionId
                             })
 
                             await prisma.question.update({
@@ -196,6 +206,7 @@ export async function POST(
                             })
 
                             rubricString = JSON.stringify(rubric)
+                            criteriaCache.set(item.questionId, parseRubricCriteria(rubric))
                         } catch (rubricError) {
                             rubricString = `Points maximum: ${maxPoints}. Evaluer la justesse et la completude de la reponse.`
                         }
@@ -210,23 +221,37 @@ export async function POST(
                     0
                 ) || 10
 
-                // Get question content
+                // Parameterized questions are graded with the values this student got
+                const parameterValues = resolveQuestionParameterValues(question, item.attempt)
+
+                // Get question content (images and graphs are sent to vision models)
+                const visuals: GradingVisual[] = []
                 const questionContentSegments = parseContent(item.answer.question.content) as ContentSegment[]
-                const questionContent = segmentsToLatexString(questionContentSegments)
+                const questionContent = segmentsToGradingText(
+                    parameterValues ? substituteParametersDeep(questionContentSegments, parameterValues) : questionContentSegments,
+                    'question',
+                    visuals
+                )
 
                 // Get student answer
                 const answerContentSegments = item.answer.segments.map(seg => {
                     const parsed = parseContent(seg.content) as ContentSegment[]
                     return parsed
                 }).flat()
-                const studentAnswer = segmentsToLatexString(answerContentSegments)
+                const studentAnswer = segmentsToGradingText(answerContentSegments, 'answer', visuals)
+
+                const rubricCriteria = criteriaCache.get(item.questionId) ?? null
 
                 // Grade the answer
                 const gradingResult = await gradeAnswer({
                     question: questionContent,
-                    rubric: rubricString,
+                    rubric: parameterValues ? substituteParameters(rubricString, parameterValues) : rubricString,
                     studentAnswer: studentAnswer || '(Aucune reponse)',
-                    maxPoints
+                    maxPoints,
+                    parameterValues,
+                    criteria: rubricCriteria && parameterValues ? substituteParametersDeep(rubricCriteria, parameterValues) : rubricCriteria,
+                    visuals,
+                    institutionId: exam.course.institutionId
                 })
 
                 // Save grade
@@ -236,6 +261,7 @@ export async function POST(
                         score: gradingResult.score,
                         feedback: gradingResult.feedback,
                         aiRationale: gradingResult.aiRationale,
+                        criteriaResults: gradingResult.criteria ?? Prisma.DbNull,
                         gradedByUserId: null,
                         isOverridden: false
                     },
@@ -244,6 +270,7 @@ export async function POST(
                         score: gradingResult.score,
                         feedback: gradingResult.feedback,
                         aiRationale: gradingResult.aiRationale,
+                        criteriaResults: gradingResult.criteria ?? Prisma.DbNull,
                         gradedByUserId: null,
                         isOverridden: false
                     }
@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { aiGradingQueue } from "@/lib/queue"
 import { getAllowedOrigins, getCsrfCookieName, verifyCsrf } from "@/lib/csrf"
+import { getExamGraderProgress } from "@/lib/grading/grader-assignments"
 
 // GET /api/exams/[examId]/grading-progress - Get batch grading progress
 export async function GET(
@@ -70,12 +71,16 @@ export async function GET(
             ? Math.round((gradedCopies / totalCopies) * 100)
             : 100
 
+        // Per-grader progress when the grading is split among teachers
+        const graders = await getExamGraderProgress(examId)
+
         return NextResponse.json({
             completed: gradedCopies,
             total: totalCopies,
             percentage,
             status,
-            canCancel: status === 'IN_PROGRESS'
+            canCancel: status === 'IN_PROGRESS',
+            graders
         })
 
     } catch (error) {
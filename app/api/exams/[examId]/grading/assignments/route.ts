@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { graderAssignmentSchema } from "@/lib/schemas/grades"
+import { getAssignmentMode } from "@/lib/grading/assignment"
+import {
+    assignExamGraders,
+    clearExamGraders,
+    getExamAssignedTasks,
+    getExamGraderProgress,
+    getExamGraders
+} from "@/lib/grading/grader-assignments"
+
+type AuthorizedUser = { id: string; institutionId: string | undefined }
+
+// Shared checks: teacher session, CSRF on writes, edit rights on the exam
+async function authorize(req: NextRequest, examId: string, { write }: { write: boolean }): Promise<AuthorizedUser | NextResponse> {
+    const session = await getAuthSession(req)
+
+    if (!session || !session.user || !isTeacher(session)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (write) {
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+    }
+
+    const { canEdit } = await getExamPermissions(examId, {
+        id: session.user.id,
+        role: session.user.role,
+        institutionId: session.user.institutionId
+    }, { includeArchived: true })
+    if (!canEdit) {
+        return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return { id: session.user.id, institutionId: session.user.institutionId }
+}
+
+// GET /api/exams/[examId]/grading/assignments - Graders, questions and the current split
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: false })
+        if (user instanceof NextResponse) return user
+
+        const [graders, sections, tasks, progress] = await Promise.all([
+            getExamGraders(examId),
+            prisma.examSection.findMany({
+                where: { examId },
+                orderBy: { order: 'asc' },
+                select: {
+                    questions: {
+                        orderBy: { order: 'asc' },
+                        select: { id: true, content: true, type: true, customLabel: true }
+                    }
+                }
+            }),
+            getExamAssignedTasks(examId),
+            getExamGraderProgress(examId)
+        ])
+
+        const questions = sections
+            .flatMap(section => section.questions)
+            .map((question, index) => ({
+                id: question.id,
+                label: question.customLabel || `Q${index + 1}`,
+                content: question.content,
+                type: question.type
+            }))
+
+        // One grader per question in QUESTIONS mode
+        const questionGraders = new Map<string, string>()
+        tasks.forEach(task => {
+            if (task.questionId) questionGraders.set(task.questionId, task.assignedTo)
+        })
+
+        return NextResponse.json({
+            graders,
+            questions,
+            assignment: {
+                mode: getAssignmentMode(tasks),
+                graderIds: [...new Set(tasks.map(task => task.assignedTo))],
+                questions: [...questionGraders.entries()].map(([questionId, graderId]) => ({ questionId, graderId }))
+            },
+            progress
+        })
+    } catch (error) {
+        console.error("[API] Get Grader Assignments Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// PUT /api/exams/[examId]/grading/assignments - Replace the split of the grading among graders
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        const parsed = await parseBody(req, graderAssignmentSchema)
+        if ('error' in parsed) return parsed.error
+        const assignment = parsed.data
+
+        const graders = await getExamGraders(examId)
+        const graderIds = assignment.mode === 'ATTEMPTS'
+            ? assignment.graderIds
+            : assignment.questions.map(entry => entry.graderId)
+        if (graderIds.some(graderId => !graders.some(grader => grader.id === graderId))) {
+            return NextResponse.json({ error: "Grader is not a teacher of this exam" }, { status: 400 })
+        }
+
+        if (assignment.mode === 'QUESTIONS') {
+            const questionIds = assignment.questions.map(entry => entry.questionId)
+            if (new Set(questionIds).size !== questionIds.length) {
+                return NextResponse.json({ error: "Each question can only have one grader" }, { status: 400 })
+            }
+            const count = await prisma.question.count({
+                where: { id: { in: questionIds }, section: { examId } }
+            })
+            if (count !== questionIds.length) {
+                return NextResponse.json({ error: "Question not found" }, { status: 400 })
+            }
+        }
+
+        const normalized = assignment.mode === 'ATTEMPTS'
+            ? { mode: assignment.mode, graderIds: [...new Set(assignment.graderIds)] }
+            : assignment
+        const result = await assignExamGraders(examId, normalized)
+        if (result.taskCount === 0) {
+            return NextResponse.json({ error: "No submitted attempts to assign" }, { status: 400 })
+        }
+
+        await logAudit({
+            action: 'GRADING_ASSIGN',
+            actorId: user.id,
+            institutionId: user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { mode: result.mode, graderCount: new Set(graderIds).size, taskCount: result.taskCount },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ ...result, progress: await getExamGraderProgress(examId) })
+    } catch (error) {
+        console.error("[API] Assign Graders Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// DELETE /api/exams/[examId]/grading/assignments - Remove every grader assignment
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const user = await authorize(req, examId, { write: true })
+        if (user instanceof NextResponse) return user
+
+        await clearExamGraders(examId)
+
+        await logAudit({
+            action: 'GRADING_ASSIGN',
+            actorId: user.id,
+            institutionId: user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { mode: null, taskCount: 0 },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error("[API] Clear Grader Assignments Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { getAnonymityState } from "@/lib/grading/anonymity"
+
+// POST /api/exams/[examId]/grading/reveal - Reveal student identities of an anonymously graded exam
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const exam = await prisma.exam.findUnique({
+            where: { id: examId },
+            select: { gradingConfig: true }
+        })
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const gradingConfig = (exam.gradingConfig as Record<string, unknown> | null) ?? {}
+        const anonymity = getAnonymityState(gradingConfig)
+        if (!anonymity.enabled) {
+            return NextResponse.json({ error: "Anonymous grading is not enabled" }, { status: 400 })
+        }
+        if (!anonymity.identityHidden) {
+            return NextResponse.json({ revealedAt: anonymity.revealedAt })
+        }
+
+        const revealedAt = new Date()
+        await prisma.exam.update({
+            where: { id: examId },
+            data: {
+                gradingConfig: {
+                    ...gradingConfig,
+                    identityRevealedAt: revealedAt.toISOString(),
+                    identityRevealedBy: session.user.id
+                }
+            }
+        })
+
+        logAudit({
+            action: 'GRADING_IDENTITY_REVEAL',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { reason: 'TEACHER_UNLOCK' },
+            ipAddress: getClientIp(req)
+        })
+
+        return NextResponse.json({ revealedAt })
+    } catch (error) {
+        console.error("[API] Reveal Identities Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { computeGraderProgress, getAssignmentMode } from "@/lib/grading/assignment"
+import { getAnonymityState, getAttemptPseudonym, maskStudent } from "@/lib/grading/anonymity"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
 
 // GET /api/exams/[examId]/grading - List attempts for grading
 export async function GET(
@@ -57,6 +60,17 @@ export async function GET(
             }
         })
 
+        // Grader assignments (tasks assigned to a teacher, per copy or per question)
+        const assignedTasks = await prisma.gradingTask.findMany({
+            where: { attempt: { examId }, assignedTo: { not: null } },
+            select: {
+                attemptId: true,
+                questionId: true,
+                assignedTo: true,
+                user: { select: { id: true, name: true, email: true } }
+            }
+        })
+
         // Get exam max points and rubric status
         const examWithQuestions = await prisma.exam.findUnique({
             where: { id: examId },
@@ -71,16 +85,12 @@ export async function GET(
             }
         })
 
-        let examMaxPoints = 0
         let textQuestionsTotal = 0
         let textQuestionsWithRubric = 0
 
         if (examWithQuestions) {
             examWithQuestions.sections.forEach(section => {
                 section.questions.forEach(question => {
-                    question.segments.forEach(segment => {
-                        examMaxPoints += segment.maxPoints || 0
-                    })
                     // Count TEXT questions and their rubric status
                     if (question.type === 'TEXT') {
                         textQuestionsTotal++
@@ -92,6 +102,17 @@ export async function GET(
             })
         }
 
+        const gradingConfig = exam.gradingConfig as Record<string, unknown> | null
+        const gradesReleased = gradingConfig?.gradesReleased === true
+        // Blind grading: pseudonyms until the identities are revealed
+        const anonymity = getAnonymityState(gradingConfig)
+
+        // Max points of the questions the attempt was given (pool sections draw a subset)
+        const getAttemptMaxPoints = (questionSelection: unknown) =>
+            applyAttemptQuestionSelection(examWithQuestions?.sections ?? [], questionSelection)
+                .flatMap(section => section.questions)
+                .reduce((sum, question) => sum + question.segments.reduce((total, segment) => total + (segment.maxPoints || 0), 0), 0)
+
         // Calculate scores
         const gradingList = attempts.map(attempt => {
             let totalScore = 0
@@ -123,23 +144,38 @@ export async function GET(
             const isFullyGraded = attempt.status === 'GRADED'
             const hasGrades = gradedQuestionsCount > 0
 
+            // Graders of this copy, and the part assigned to the current teacher
+            const attemptTasks = assignedTasks.filter(task => task.attemptId === attempt.id)
+            const assignees = [...new Map(attemptTasks
+                .filter(task => task.user)
+                .map(task => [task.user!.id, task.user!])).values()]
+            const myTasks = attemptTasks
+                .filter(task => task.assignedTo === session.user.id)
+                .map(task => ({ attemptId: task.attemptId, questionId: task.questionId, assignedTo: task.assignedTo as string }))
+            const [myProgress] = computeGraderProgress(myTasks, attempt.answers.map(answer => ({
+                attemptId: attempt.id,
+                questionId: answer.questionId,
+                graded: answer.grades.length > 0
+            })))
+
             return {
                 attemptId: attempt.id,
-                student: attempt.student,
+                student: maskStudent(attempt.student, getAttemptPseudonym(examId, attempt.id), anonymity.identityHidden),
                 status: attempt.status,
                 submittedAt: attempt.submittedAt,
                 gradedAt: latestGradedAt,
                 totalScore: hasGrades ? totalScore : null,
-                maxPoints: examMaxPoints || null,
+                maxPoints: getAttemptMaxPoints(attempt.questionSelection) || null,
                 gradedQuestionsCount,
                 isFullyGraded,
-                humanModifiedCount
+                humanModifiedCount,
+                assignees,
+                myAssignment: myProgress
+                    ? { assigned: myProgress.assigned, graded: myProgress.graded }
+                    : null
             }
         })
 
-        const gradingConfig = exam.gradingConfig as Record<string, unknown> | null
-        const gradesReleased = gradingConfig?.gradesReleased === true
-
         // Calculate grading status
         const submittedAttempts = gradingList.filter(a =>
             a.status === 'SUBMITTED' || a.status === 'GRADING_IN_PROGRESS' || a.status === 'GRADED'
@@ -162,7 +198,12 @@ export async function GET(
             attempts: gradingList,
             gradesReleased,
             rubricStatus,
-            gradingStatus
+            gradingStatus,
+            assignmentMode: getAssignmentMode(assignedTasks),
+            anonymity: {
+                enabled: anonymity.enabled,
+                identityHidden: anonymity.identityHidden
+            }
         })
 
     } catch (error) {
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { pushExamScoresToLms } from "@/lib/lti/platform"
+
+// GET /api/exams/[examId]/lti-scores - LMS placements of the exam
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const { exam } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const links = await prisma.ltiResourceLink.findMany({
+            where: { examId },
+            select: {
+                id: true,
+                contextId: true,
+                lineItemUrl: true,
+                updatedAt: true,
+                lmsConfig: { select: { lmsType: true, issuer: true } }
+            },
+            orderBy: { createdAt: 'asc' }
+        })
+
+        return NextResponse.json({
+            links: links.map(({ lineItemUrl, ...link }) => ({ ...link, hasLineItem: Boolean(lineItemUrl) }))
+        })
+    } catch (error) {
+        console.error("[API] Get LTI Links Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/exams/[examId]/lti-scores - Push graded scores to the LMS gradebooks
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const result = await pushExamScoresToLms(examId)
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error("[API] Push LTI Scores Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
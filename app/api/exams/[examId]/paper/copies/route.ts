@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { exportQueue } from "@/lib/queue"
+import { parseBody } from "@/lib/api-validation"
+import { paperCopiesSchema } from "@/lib/schemas/exams"
+import { logAudit, getClientIp } from "@/lib/audit"
+
+// POST /api/exams/[examId]/paper/copies - Start generating the printable paper copies
+// Progress and download go through the export status/download routes.
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        if (!exportQueue) {
+            return NextResponse.json({ error: "Export service unavailable" }, { status: 503 })
+        }
+
+        const parsed = await parseBody(req, paperCopiesSchema)
+        if ('error' in parsed) return parsed.error
+        const { classIds } = parsed.data
+
+        const job = await exportQueue.add('paper-copies', {
+            examId,
+            classIds,
+            type: 'paper',
+            requestedBy: session.user.id
+        })
+
+        logAudit({
+            action: 'PAPER_COPIES_EXPORT',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: classIds ? { classIds: classIds.length } : undefined,
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({
+            jobId: job.id,
+            status: 'queued'
+        })
+    } catch (error) {
+        console.error("[API] Paper Copies Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { paperScanQueue } from "@/lib/queue"
+import { generateUploadKey, uploadFile } from "@/lib/storage/minio"
+import { logAudit, getClientIp } from "@/lib/audit"
+
+const MAX_SCAN_SIZE = 100 * 1024 * 1024
+
+// GET /api/exams/[examId]/paper/scans - Uploaded scans and their matching results
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const { exam } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const [scans, paperAttempts] = await Promise.all([
+            prisma.paperScan.findMany({
+                where: { examId },
+                select: {
+                    id: true,
+                    fileName: true,
+                    status: true,
+                    pageCount: true,
+                    matchedCount: true,
+                    unmatchedPages: true,
+                    error: true,
+                    createdAt: true,
+                    completedAt: true,
+                    uploadedBy: { select: { name: true } }
+                },
+                orderBy: { createdAt: 'desc' }
+            }),
+            prisma.attempt.count({ where: { examId, paperLayout: { not: Prisma.DbNull } } })
+        ])
+
+        return NextResponse.json({ scans, paperAttempts })
+    } catch (error) {
+        console.error("[API] Get Paper Scans Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/exams/[examId]/paper/scans - Upload a scan of paper copies (multipart 'file' field, PDF)
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        if (!paperScanQueue) {
+            return NextResponse.json({ error: "Queue not available" }, { status: 503 })
+        }
+
+        const formData = await req.formData()
+        const file = formData.get('file')
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: "No file provided" }, { status: 400 })
+        }
+        if (file.type !== 'application/pdf') {
+            return NextResponse.json({ error: "Only PDF files are accepted" }, { status: 400 })
+        }
+        if (file.size > MAX_SCAN_SIZE) {
+            return NextResponse.json({ error: "The PDF exceeds the 100 MB limit" }, { status: 400 })
+        }
+
+        const fileKey = generateUploadKey(file.name)
+        await uploadFile(fileKey, Buffer.from(await file.arrayBuffer()), file.type)
+
+        const scan = await prisma.paperScan.create({
+            data: {
+                examId,
+                uploadedById: session.user.id,
+                fileKey,
+                fileName: file.name
+            },
+            select: { id: true, status: true }
+        })
+
+        await paperScanQueue.add('process-scan', { scanId: scan.id })
+
+        logAudit({
+            action: 'PAPER_SCAN_UPLOAD',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'EXAM',
+            targetId: examId,
+            metadata: { scanId: scan.id, fileName: file.name },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ scan }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Upload Paper Scan Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
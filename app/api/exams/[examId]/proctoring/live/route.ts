@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { createLiveResponse, getExamPresence, subscribeToExam } from "@/lib/proctoring/liveBus"
+import type { LiveProctorMessage } from "@/lib/proctoring/liveState"
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/exams/[examId]/proctoring/live - Server-Sent Events of the running exam
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const exam = await prisma.exam.findUnique({
+            where: { id: examId },
+            select: {
+                course: {
+                    select: { institutionId: true }
+                }
+            }
+        })
+
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        // Verify teacher belongs to same institution
+        if (exam.course.institutionId !== session.user.institutionId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+        }
+
+        return createLiveResponse<LiveProctorMessage>(
+            req,
+            (listener) => subscribeToExam(examId, listener),
+            async () => [{ type: 'presence', presence: await getExamPresence(examId) }]
+        )
+
+    } catch (error) {
+        console.error("[API] Live Proctoring Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
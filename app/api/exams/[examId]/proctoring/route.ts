@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
-import { analyzeCopyPasteEvents } from "@/lib/antiCheat"
-import { getExamEndAt } from "@/lib/exam-time"
-import { analyzeFocusLossPatterns, analyzeExternalPastes, computeEnhancedAntiCheatScore } from "@/lib/proctoring/patternAnalysis"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getExamWindowsForStudents } from "@/lib/accommodations"
+import { analyzeAttemptProctoring } from "@/lib/proctoring/patternAnalysis"
+import { getQuestionLabels } from "@/lib/proctoring/liveState"
 
 // GET /api/exams/[examId]/proctoring - Get proctoring summary for an exam
 export async function GET(
@@ -24,6 +25,12 @@ export async function GET(
             include: {
                 course: {
                     select: { institutionId: true, archivedAt: true }
+                },
+                sections: {
+                    select: {
+                        order: true,
+                        questions: { select: { id: true, order: true, customLabel: true } }
+                    }
                 }
             }
         })
@@ -74,29 +81,12 @@ export async function GET(
             }
         })
 
-        // Calculate deadline for each attempt
+        // Calculate deadline for each attempt (per-student accommodations included)
         const now = new Date()
+        const examWindows = await getExamWindowsForStudents(exam, attempts.map(attempt => attempt.studentId))
 
         // Aggregate event counts and calculate suspicion scores
         const summary = attempts.map(attempt => {
-            const eventCounts: Record<string, number> = {
-                FOCUS_LOST: 0,
-                FOCUS_GAINED: 0,
-                TAB_SWITCH: 0,
-                FULLSCREEN_EXIT: 0,
-                COPY: 0,
-                PASTE: 0
-            }
-
-            // Count events by type
-            attempt.proctorEvents.forEach(event => {
-                if (eventCounts.hasOwnProperty(event.type)) {
-                    eventCounts[event.type]++
-                } else {
-                    eventCounts[event.type] = 1
-                }
-            })
-
             // Flatten answer timestamps
             const answerTimestamps = attempt.answers.flatMap(answer =>
                 answer.segments
@@ -107,30 +97,20 @@ export async function GET(
                     }))
             )
 
-            // Analyze focus loss patterns
-            const focusLossPattern = analyzeFocusLossPatterns(attempt.proctorEvents, answerTimestamps)
-
-            // Analyze external pastes
-            const externalPasteAnalysis = analyzeExternalPastes(attempt.proctorEvents)
-
-            // Analyze COPY→PASTE pairs using shared helper for consistent scoring
-            const copyPasteAnalysis = analyzeCopyPasteEvents(attempt.proctorEvents)
-
-            // Calculate enhanced antiCheatScore with pattern analysis
-            const antiCheatScore = computeEnhancedAntiCheatScore({
-                eventCounts,
-                focusLossPattern,
-                externalPasteAnalysis,
-                copyPasteAnalysis
-            })
+            // Counts, focus/paste patterns and enhanced score (same analysis as the live updates)
+            const analysis = analyzeAttemptProctoring(attempt.proctorEvents, answerTimestamps)
 
             // Calculate deadline and determine status
-            const examEndAt = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
-            const deadlineAt = examEndAt ?? new Date(attempt.startedAt.getTime() + (exam.durationMinutes || 60) * 60 * 1000)
+            const examWindow = examWindows.get(attempt.studentId)
+            const deadlineAt = (examWindow && getAttemptDeadline(examWindow, attempt.startedAt, attempt))
+                ?? new Date(attempt.startedAt.getTime() + (exam.durationMinutes || 60) * 60 * 1000)
             let attemptStatus: string
 
             if (attempt.submittedAt) {
                 attemptStatus = 'submitted'
+            } else if (attempt.pausedAt) {
+                // The deadline moves with the pause, the attempt cannot expire meanwhile
+                attemptStatus = 'paused'
             } else if (now > deadlineAt) {
                 attemptStatus = 'expired'
             } else {
@@ -142,25 +122,17 @@ export async function GET(
                 student: attempt.student,
                 startedAt: attempt.startedAt.toISOString(),
                 submittedAt: attempt.submittedAt?.toISOString() || null,
+                deadlineAt: deadlineAt.toISOString(),
+                hasAccommodation: examWindow?.isAccommodated ?? false,
                 status: attemptStatus,
-                eventCounts,
-                totalEvents: attempt.proctorEvents.length,
-                antiCheatScore,
-                focusLossPattern: {
-                    flag: focusLossPattern.flag,
-                    ratio: focusLossPattern.ratio,
-                    suspiciousPairs: focusLossPattern.suspiciousPairs,
-                    totalAnswers: focusLossPattern.totalAnswers
-                },
-                externalPastes: externalPasteAnalysis.externalPastes,
-                internalPastes: externalPasteAnalysis.internalPastes
+                ...analysis
             }
         })
 
         // Sort by antiCheatScore descending
         summary.sort((a, b) => b.antiCheatScore - a.antiCheatScore)
 
-        return NextResponse.json({ summary })
+        return NextResponse.json({ summary, questions: getQuestionLabels(exam.sections) })
 
     } catch (error) {
         console.error("[API] Get Proctoring Summary Error:", error)
@@ -7,6 +7,9 @@ import { parseContent, segmentsToPlainText } from '@/lib/content'
 import { getExamPermissions } from '@/lib/exam-permissions'
 import { logAudit, getClientIp } from '@/lib/audit'
 import { assertExamVariantShape, getDraftVariantsForBaseExam, getPublishPolicyResult, PublishPolicy } from '@/lib/exam-variants'
+import { isPoolSection } from '@/lib/question-pools'
+import { resolveQuestionParameterValues } from '@/lib/question-parameters'
+import { isAnswerKeyQuestionType, validateAnswerKey } from '@/lib/grading/answer-key'
 
 export async function POST(
     req: Request,
@@ -136,6 +139,11 @@ export async function POST(
             return value.trim()
         }
 
+        // Pool sections must hold at least as many questions as they draw
+        if (exam.sections.some(section => isPoolSection(section) && section.questions.length < (section.poolDrawCount ?? 0))) {
+            missing.push('pool_draw_count')
+        }
+
         // Validate all questions and their segments
         for (const section of exam.sections) {
             for (const question of section.questions) {
@@ -192,7 +200,7 @@ export async function POST(
                         }
                     }
                 } else {
-                    // For TEXT and CODE questions, validate that segments have maxPoints
+                    // For TEXT, CODE, NUMERIC and MATH_EXPRESSION questions, validate that segments have maxPoints
                     if (!question.segments || question.segments.length === 0) {
                         missing.push('question_points')
                         continue
@@ -203,6 +211,13 @@ export async function POST(
                             break // Only add once
                         }
                     }
+                    // Auto-scored questions need an answer key that evaluates (with sample parameter values)
+                    if (isAnswerKeyQuestionType(question.type) || (question.type === 'TEXT' && question.answerKey)) {
+                        const sampleValues = resolveQuestionParameterValues(question, { examId, studentId: 'publish-check' }) ?? {}
+                        if (validateAnswerKey(question.type, question.answerKey, sampleValues)) {
+                            missing.push('answer_key')
+                        }
+                    }
                 }
             }
         }
@@ -381,6 +396,10 @@ export async function DELETE(
                         where: { answerId: { in: answerIds } },
                     })
 
+                    await tx.regradeRequest.deleteMany({
+                        where: { answerId: { in: answerIds } },
+                    })
+
                     await tx.answer.deleteMany({
                         where: { attemptId: { in: attemptIds } },
                     })
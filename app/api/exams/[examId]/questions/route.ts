@@ -4,6 +4,9 @@ import { parseContent, serializeContent } from "@/lib/content"
 import { getExamPermissions } from "@/lib/exam-permissions"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { getAllowedOrigins, getCsrfCookieName, verifyCsrf } from "@/lib/csrf"
+import { DEFAULT_CODE_CONFIG } from "@/lib/grading/code-grader"
+import { getDefaultAnswerKey, isAnswerKeyQuestionType } from "@/lib/grading/answer-key"
+import { bankItemVisibilityWhere, createQuestionFromBankItem, getBankCourseIds } from "@/lib/question-bank/service"
 
 export async function POST(
     req: NextRequest,
@@ -76,19 +79,35 @@ export async function POST(
             atTop = false,
             afterQuestionId,
             outsideSection = false,
+            bankItemId,
         } = body
 
-        if (!['TEXT', 'MCQ', 'CODE'].includes(type)) {
+        if (!['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'].includes(type)) {
             return NextResponse.json({ error: "Invalid question type" }, { status: 400 })
         }
 
+        // Insert a copy of a question bank item instead of a blank question
+        let bankItem = null
+        if (bankItemId !== undefined) {
+            if (typeof bankItemId !== 'string' || !bankItemId) {
+                return NextResponse.json({ error: "Invalid bank item" }, { status: 400 })
+            }
+            const courseIds = await getBankCourseIds(session.user)
+            bankItem = await prisma.questionBankItem.findFirst({
+                where: { id: bankItemId, ...bankItemVisibilityWhere(session.user.institutionId, courseIds) }
+            })
+            if (!bankItem) {
+                return NextResponse.json({ error: "Bank item not found" }, { status: 404 })
+            }
+        }
+
         const result = await prisma.$transaction(async (tx) => {
             let targetSection
             let referenceQuestion: {
                 id: string
                 order: number
                 sectionId: string
-                section: { examId: string; order: number }
+                section: { id: string; examId: string; order: number }
             } | null = null
 
             if (afterQuestionId) {
@@ -216,6 +235,29 @@ export async function POST(
                 }
             }
 
+            if (bankItem) {
+                const inserted = await createQuestionFromBankItem(tx, bankItem, {
+                    sectionId: targetSection.id,
+                    order: questionOrder
+                })
+                const fullInserted = await tx.question.findUnique({
+                    where: { id: inserted.id },
+                    include: {
+                        segments: {
+                            include: {
+                                rubric: true
+                            }
+                        }
+                    }
+                })
+                return {
+                    question: fullInserted
+                        ? { ...fullInserted, content: parseContent(fullInserted.content) }
+                        : null,
+                    sectionId: targetSection.id
+                }
+            }
+
             const createdQuestion = await tx.question.create({
                 data: {
                     sectionId: (targetSection as any).id,
@@ -223,11 +265,13 @@ export async function POST(
                     answerTemplate: serializeContent(parseContent(answerTemplate ?? '')),
                     answerTemplateLocked: Boolean(answerTemplateLocked),
                     type,
-                    order: questionOrder
+                    order: questionOrder,
+                    ...(type === 'CODE' ? { codeConfig: DEFAULT_CODE_CONFIG } : {}),
+                    ...(isAnswerKeyQuestionType(type) ? { answerKey: getDefaultAnswerKey(type) } : {})
                 }
             })
 
-            // Only create a default segment for TEXT and CODE questions
+            // Only create a default segment for TEXT, CODE, NUMERIC and MATH_EXPRESSION questions
             // MCQ questions require multiple options to be added manually
             if (type !== 'MCQ') {
                 await tx.questionSegment.create({
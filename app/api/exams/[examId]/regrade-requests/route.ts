@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { getExamRegradeWindow, regradeRequestSelect } from "@/lib/grading/regrade-requests"
+
+// GET /api/exams/[examId]/regrade-requests - Teacher queue of regrade requests
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ examId: string }> }
+) {
+    try {
+        const { examId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const [exam, requests] = await Promise.all([
+            prisma.exam.findUnique({
+                where: { id: examId },
+                select: { gradingConfig: true, startAt: true, durationMinutes: true, endAt: true }
+            }),
+            prisma.regradeRequest.findMany({
+                where: { answer: { attempt: { examId } } },
+                select: {
+                    ...regradeRequestSelect,
+                    answer: {
+                        select: {
+                            id: true,
+                            questionId: true,
+                            attemptId: true,
+                            question: {
+                                select: {
+                                    content: true,
+                                    customLabel: true,
+                                    segments: { select: { maxPoints: true } }
+                                }
+                            },
+                            grades: { select: { score: true, feedback: true }, take: 1 }
+                        }
+                    }
+                },
+                orderBy: { createdAt: 'asc' }
+            })
+        ])
+
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        return NextResponse.json({
+            window: getExamRegradeWindow(exam),
+            requests: requests.map(({ answer, ...request }) => ({
+                ...request,
+                attemptId: answer.attemptId,
+                question: {
+                    id: answer.questionId,
+                    content: answer.question.content,
+                    label: answer.question.customLabel,
+                    maxPoints: answer.question.segments.reduce((sum, segment) => sum + (segment.maxPoints || 0), 0)
+                },
+                grade: answer.grades[0] ?? null
+            }))
+        })
+    } catch (error) {
+        console.error("[API] Get Exam Regrade Requests Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
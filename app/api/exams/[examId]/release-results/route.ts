@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { getAuthSession, isTeacher } from "@/lib/api-auth"
 import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { pushExamScoresToLms } from "@/lib/lti/platform"
+import { countPendingReconciliations } from "@/lib/grading/double-grading"
 
 // POST /api/exams/[examId]/release-results - Release exam results to students
 export async function POST(
@@ -58,6 +60,15 @@ export async function POST(
             }, { status: 400 })
         }
 
+        // Double-graded answers need their final score from the lead grader
+        const pendingReconciliations = await countPendingReconciliations(examId)
+        if (pendingReconciliations > 0) {
+            return NextResponse.json({
+                error: "DOUBLE_GRADING_PENDING",
+                message: `${pendingReconciliations} reponse(s) en double correction attendent la note finale.`
+            }, { status: 400 })
+        }
+
         // Merge gradesReleased flag into existing gradingConfig
         const existingConfig = (exam.gradingConfig as Record<string, unknown>) || {}
         const updatedConfig = {
@@ -74,9 +85,18 @@ export async function POST(
             }
         })
 
+        // Send final scores to the LMS gradebooks the exam is placed in (LTI AGS)
+        let lti = null
+        try {
+            lti = await pushExamScoresToLms(examId)
+        } catch (error) {
+            console.error("[API] Release Results LTI push failed:", error)
+        }
+
         return NextResponse.json({
             success: true,
-            gradingConfig: updatedExam.gradingConfig
+            gradingConfig: updatedExam.gradingConfig,
+            lti
         })
 
     } catch (error) {
@@ -7,6 +7,8 @@ import { parseContent } from "@/lib/content"
 import { getExamPermissions } from "@/lib/exam-permissions"
 import { assertExamVariantShape, getDraftVariantsForBaseExam } from "@/lib/exam-variants"
 import { safeJson } from "@/lib/logging"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { getAnonymityState, preserveRevealKeys } from "@/lib/grading/anonymity"
 
 const resolveCourseTeacherName = (course: {
     classes?: Array<{
@@ -76,7 +78,7 @@ export async function GET(req: Request, { params }: { params: Promise<ExamParams
                             where: { archivedAt: null },
                             select: {
                                 enrollments: {
-                                    where: { role: 'TEACHER', user: { archivedAt: null } },
+                                    where: { role: 'TEACHER', archivedAt: null, user: { archivedAt: null } },
                                     select: {
                                         user: { select: { name: true } }
                                     }
@@ -266,7 +268,12 @@ export async function PUT(req: Request, { params }: { params: Promise<ExamParams
         if (body.requireHonorCommitment !== undefined) updateData.requireHonorCommitment = body.requireHonorCommitment
         if (body.allowedMaterials !== undefined) updateData.allowedMaterials = body.allowedMaterials
         if (body.antiCheatConfig !== undefined) updateData.antiCheatConfig = body.antiCheatConfig
-        if (body.gradingConfig !== undefined) updateData.gradingConfig = body.gradingConfig
+        if (body.gradingConfig !== undefined) {
+            updateData.gradingConfig = preserveRevealKeys(
+                existingExam.gradingConfig as Record<string, unknown> | null,
+                body.gradingConfig
+            )
+        }
 
         const fieldNames = Object.keys(updateData)
         if (fieldNames.length === 0) {
@@ -296,7 +303,7 @@ export async function PUT(req: Request, { params }: { params: Promise<ExamParams
                                 where: { archivedAt: null },
                                 select: {
                                     enrollments: {
-                                        where: { role: 'TEACHER', user: { archivedAt: null } },
+                                        where: { role: 'TEACHER', archivedAt: null, user: { archivedAt: null } },
                                         select: {
                                             user: { select: { name: true } }
                                         }
@@ -390,6 +397,22 @@ export async function PUT(req: Request, { params }: { params: Promise<ExamParams
                 })
             }
             await logExamChanges({ status: existingExam.status, startAt: existingExam.startAt }, examChanges)
+            // Turning anonymous grading off while identities are hidden reveals them
+            if (
+                body.gradingConfig !== undefined &&
+                getAnonymityState(existingExam.gradingConfig as Record<string, unknown> | null).identityHidden &&
+                !getAnonymityState(updatedExam.gradingConfig as Record<string, unknown> | null).enabled
+            ) {
+                logAudit({
+                    action: 'GRADING_IDENTITY_REVEAL',
+                    actorId: session.user.id,
+                    institutionId: session.user.institutionId,
+                    targetType: 'EXAM',
+                    targetId: examId,
+                    metadata: { reason: 'ANONYMOUS_GRADING_DISABLED' },
+                    ipAddress: getClientIp(req),
+                })
+            }
             assertExamVariantShape(updatedExam, { context: 'api-exams-put' })
             const courseTeacherName = resolveCourseTeacherName(updatedExam.course)
             const mapped = mapExamContent(updatedExam)
@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
 import { getServerSession } from "next-auth"
 import { buildAuthOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { parseContent, serializeContent } from "@/lib/content"
 import { getExamPermissions } from "@/lib/exam-permissions"
+import { codeQuestionConfigSchema, questionParametersSchema } from "@/lib/schemas/exams"
+import { validateQuestionParameters } from "@/lib/question-parameters"
+import { getDefaultAnswerKey, isAnswerKeyQuestionType, parseAnswerKey } from "@/lib/grading/answer-key"
 
 type QuestionParams = { examId?: string; sectionId?: string; questionId?: string }
 
@@ -88,7 +92,10 @@ export async function PUT(
             answerTemplate?: unknown
             answerTemplateLocked?: boolean
             studentTools?: unknown
-            type?: 'TEXT' | 'MCQ' | 'CODE'
+            codeConfig?: unknown
+            parameters?: unknown
+            answerKey?: unknown
+            type?: 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
             order?: number
             customLabel?: string | null
             requireAllCorrect?: boolean
@@ -97,11 +104,49 @@ export async function PUT(
             targetSectionId?: string
             targetOrder?: number
         }
-        const { content, answerTemplate, answerTemplateLocked, studentTools, type, order, customLabel, requireAllCorrect, shuffleOptions, maxPoints, targetSectionId, targetOrder } = body
+        const { content, answerTemplate, answerTemplateLocked, studentTools, codeConfig, parameters, answerKey, type, order, customLabel, requireAllCorrect, shuffleOptions, maxPoints, targetSectionId, targetOrder } = body
 
-        if (type && !['TEXT', 'MCQ', 'CODE'].includes(type)) {
+        if (type && !['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'].includes(type)) {
             return NextResponse.json({ error: "Invalid question type" }, { status: 400 })
         }
+        let parsedCodeConfig: Prisma.InputJsonValue | null | undefined
+        if (codeConfig !== undefined && codeConfig !== null) {
+            const result = codeQuestionConfigSchema.safeParse(codeConfig)
+            if (!result.success) {
+                return NextResponse.json({ error: "Invalid code configuration" }, { status: 400 })
+            }
+            parsedCodeConfig = result.data
+        } else {
+            parsedCodeConfig = codeConfig
+        }
+        let parsedParameters: Prisma.InputJsonValue | null | undefined
+        if (parameters !== undefined && parameters !== null) {
+            const result = questionParametersSchema.safeParse(parameters)
+            if (!result.success) {
+                return NextResponse.json({ error: "Invalid question parameters" }, { status: 400 })
+            }
+            const parametersError = validateQuestionParameters(result.data)
+            if (parametersError) {
+                return NextResponse.json({ error: parametersError }, { status: 400 })
+            }
+            parsedParameters = result.data.length > 0 ? result.data : null
+        } else {
+            parsedParameters = parameters
+        }
+        const effectiveType = type ?? question.type
+        let parsedAnswerKey: Prisma.InputJsonValue | null | undefined
+        if (answerKey !== undefined && answerKey !== null) {
+            const result = parseAnswerKey(effectiveType, answerKey)
+            if (!result) {
+                return NextResponse.json({ error: "Invalid answer key" }, { status: 400 })
+            }
+            parsedAnswerKey = result
+        } else if (isAnswerKeyQuestionType(effectiveType) && !parseAnswerKey(effectiveType, question.answerKey)) {
+            // Switching to NUMERIC or MATH_EXPRESSION starts from a default key
+            parsedAnswerKey = getDefaultAnswerKey(effectiveType)
+        } else {
+            parsedAnswerKey = answerKey === null ? null : undefined
+        }
         if (targetSectionId) {
             const targetSection = await prisma.examSection.findUnique({
                 where: { id: targetSectionId },
@@ -118,6 +163,9 @@ export async function PUT(
         if (answerTemplate !== undefined) updateData.answerTemplate = serializeContent(parseContent(answerTemplate))
         if (answerTemplateLocked !== undefined) updateData.answerTemplateLocked = Boolean(answerTemplateLocked)
         if (studentTools !== undefined) updateData.studentTools = studentTools ?? null
+        if (parsedCodeConfig !== undefined) updateData.codeConfig = parsedCodeConfig ?? Prisma.DbNull
+        if (parsedParameters !== undefined) updateData.parameters = parsedParameters ?? Prisma.DbNull
+        if (parsedAnswerKey !== undefined) updateData.answerKey = parsedAnswerKey ?? Prisma.DbNull
         if (type !== undefined) updateData.type = type
         if (targetOrder !== undefined) {
             updateData.order = targetOrder
@@ -192,6 +240,42 @@ export async function PUT(
                 createdById: session.user.id,
             })
         }
+        if (parsedCodeConfig !== undefined) {
+            questionChanges.push({
+                examId,
+                entityType: 'QUESTION',
+                entityId: questionId,
+                entityLabel: questionLabel,
+                field: 'codeConfig',
+                beforeValue: question.codeConfig ?? null,
+                afterValue: parsedCodeConfig,
+                createdById: session.user.id,
+            })
+        }
+        if (parsedParameters !== undefined) {
+            questionChanges.push({
+                examId,
+                entityType: 'QUESTION',
+                entityId: questionId,
+                entityLabel: questionLabel,
+                field: 'parameters',
+                beforeValue: question.parameters ?? null,
+                afterValue: parsedParameters,
+                createdById: session.user.id,
+            })
+        }
+        if (answerKey !== undefined) {
+            questionChanges.push({
+                examId,
+                entityType: 'QUESTION',
+                entityId: questionId,
+                entityLabel: questionLabel,
+                field: 'answerKey',
+                beforeValue: question.answerKey ?? null,
+                afterValue: parsedAnswerKey ?? null,
+                createdById: session.user.id,
+            })
+        }
         await logExamChanges({ status: question.section.exam.status, startAt: question.section.exam.startAt }, questionChanges)
 
         return NextResponse.json({
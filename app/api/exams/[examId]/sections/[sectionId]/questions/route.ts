@@ -113,7 +113,7 @@ export async function POST(
             return NextResponse.json({ error: "Missing content or type" }, { status: 400 })
         }
 
-        if (!['TEXT', 'MCQ', 'CODE'].includes(type)) {
+        if (!['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'].includes(type)) {
             return NextResponse.json({ error: "Invalid question type" }, { status: 400 })
         }
 
@@ -4,6 +4,7 @@ import { buildAuthOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { parseContent } from "@/lib/content"
 import { getExamPermissions } from "@/lib/exam-permissions"
+import { POOL_STRATIFICATIONS } from "@/lib/question-pools"
 
 export async function PUT(
     req: Request,
@@ -56,7 +57,23 @@ export async function PUT(
         // Allow edits during live exams; changes will be tracked separately.
 
         const body = await req.json()
-        const { title, order, customLabel, introContent } = body
+        const { title, order, customLabel, introContent, poolDrawCount, poolStratifyBy } = body
+
+        if (poolDrawCount !== undefined && poolDrawCount !== null
+            && (!Number.isInteger(poolDrawCount) || poolDrawCount < 1)) {
+            return NextResponse.json({ error: "Invalid pool draw count" }, { status: 400 })
+        }
+        if (poolStratifyBy !== undefined && !POOL_STRATIFICATIONS.includes(poolStratifyBy)) {
+            return NextResponse.json({ error: "Invalid pool stratification" }, { status: 400 })
+        }
+
+        // Draws are persisted per attempt; changing the pool afterwards would treat students unequally
+        if (poolDrawCount !== undefined || poolStratifyBy !== undefined) {
+            const attemptCount = await prisma.attempt.count({ where: { examId } })
+            if (attemptCount > 0) {
+                return NextResponse.json({ error: "Question pools cannot change once students have started" }, { status: 409 })
+            }
+        }
 
         const updatedSection = await prisma.examSection.update({
             where: { id: sectionId },
@@ -64,7 +81,9 @@ export async function PUT(
                 ...(title !== undefined && { title }),
                 ...(order !== undefined && { order }),
                 ...(customLabel !== undefined && { customLabel: customLabel || null }),
-                ...(introContent !== undefined && { introContent })
+                ...(introContent !== undefined && { introContent }),
+                ...(poolDrawCount !== undefined && { poolDrawCount }),
+                ...(poolStratifyBy !== undefined && { poolStratifyBy })
             }
         })
 
@@ -245,8 +264,11 @@ export async function DELETE(
                     })
                 }
 
-                // Delete answers
+                // Delete answers (and their regrade requests)
                 if (answerIds.length > 0) {
+                    await tx.regradeRequest.deleteMany({
+                        where: { answerId: { in: answerIds } }
+                    })
                     await tx.answer.deleteMany({
                         where: { id: { in: answerIds } }
                     })
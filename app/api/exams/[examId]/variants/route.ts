@@ -30,6 +30,8 @@ const cloneExamContent = async (tx: Prisma.TransactionClient, sourceExamId: stri
                 isDefault: section.isDefault,
                 customLabel: section.customLabel,
                 introContent: section.introContent ?? null,
+                poolDrawCount: section.poolDrawCount ?? null,
+                poolStratifyBy: section.poolStratifyBy ?? 'NONE',
             },
         })
 
@@ -41,6 +43,10 @@ const cloneExamContent = async (tx: Prisma.TransactionClient, sourceExamId: stri
                     answerTemplate: question.answerTemplate ?? null,
                     answerTemplateLocked: question.answerTemplateLocked ?? false,
                     studentTools: (question.studentTools ?? null) as any,
+                    codeConfig: question.codeConfig ?? Prisma.DbNull,
+                    parameters: question.parameters ?? Prisma.DbNull,
+                    answerKey: question.answerKey ?? Prisma.DbNull,
+                    bankItemId: question.bankItemId ?? null,
                     shuffleOptions: question.shuffleOptions ?? false,
                     type: question.type,
                     order: question.order,
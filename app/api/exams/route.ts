@@ -40,6 +40,8 @@ const cloneExamContent = async (tx: Prisma.TransactionClient, sourceExamId: stri
                 isDefault: section.isDefault,
                 customLabel: section.customLabel,
                 introContent: section.introContent ?? null,
+                poolDrawCount: section.poolDrawCount ?? null,
+                poolStratifyBy: section.poolStratifyBy ?? 'NONE',
             },
         })
 
@@ -51,6 +53,10 @@ const cloneExamContent = async (tx: Prisma.TransactionClient, sourceExamId: stri
                     answerTemplate: question.answerTemplate ?? null,
                     answerTemplateLocked: question.answerTemplateLocked ?? false,
                     studentTools: (question.studentTools ?? null) as Prisma.InputJsonValue,
+                    codeConfig: question.codeConfig ?? Prisma.DbNull,
+                    parameters: question.parameters ?? Prisma.DbNull,
+                    answerKey: question.answerKey ?? Prisma.DbNull,
+                    bankItemId: question.bankItemId ?? null,
                     shuffleOptions: question.shuffleOptions ?? false,
                     type: question.type,
                     order: question.order,
@@ -169,7 +175,7 @@ export async function GET(req: Request) {
                 _count: {
                     select: {
                         enrollments: {
-                            where: { role: 'STUDENT', user: { archivedAt: null } }
+                            where: { role: 'STUDENT', archivedAt: null, user: { archivedAt: null } }
                         }
                     }
                 }
@@ -349,6 +355,7 @@ export async function POST(req: Request) {
                 where: {
                     userId: session.user.id,
                     role: 'TEACHER',
+                    archivedAt: null,
                     class: { courseId, archivedAt: null },
                 },
                 select: {
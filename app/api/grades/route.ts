@@ -6,6 +6,9 @@ import { getAllowedOrigins, getCsrfCookieName, verifyCsrf } from "@/lib/csrf"
 import { parseBody } from "@/lib/api-validation"
 import { upsertGradeSchema } from "@/lib/schemas/grades"
 import { logAudit, getClientIp } from "@/lib/audit"
+import { getOtherLockHolder } from "@/lib/grading/grading-locks"
+import { saveIndependentGrade } from "@/lib/grading/double-grading"
+import { clampCriterionResults } from "@/lib/grading/criteria"
 
 // POST /api/grades - Upsert a grade
 export async function POST(req: NextRequest) {
@@ -28,7 +31,7 @@ export async function POST(req: NextRequest) {
 
         const parsed = await parseBody(req, upsertGradeSchema)
         if ('error' in parsed) return parsed.error
-        const { answerId, score, feedback } = parsed.data
+        const { answerId, score, feedback, criteriaResults } = parsed.data
 
         // Verify teacher access and fetch question with segments to get maxPoints
         const answer = await prisma.answer.findUnique({
@@ -61,6 +64,12 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
         }
 
+        // Another grader has the grade editor open on this answer
+        const lockHolderId = await getOtherLockHolder(answerId, session.user.id)
+        if (lockHolderId) {
+            return NextResponse.json({ error: "ANSWER_LOCKED" }, { status: 409 })
+        }
+
         // Compute questionMaxPoints from segments
         const questionMaxPoints = answer.question.segments.reduce(
             (sum, segment) => sum + (segment.maxPoints || 0),
@@ -82,6 +91,28 @@ export async function POST(req: NextRequest) {
         // Clamp score between 0 and questionMaxPoints
         const clampedScore = Math.min(Math.max(rawScore, 0), questionMaxPoints)
 
+        // Double grading: each grader keeps an independent grade until the lead grader reconciles them
+        if (answer.doubleGrading && !answer.reconciledAt) {
+            const independentGrade = await saveIndependentGrade({
+                answerId,
+                graderId: session.user.id,
+                score: clampedScore,
+                feedback: feedback || null
+            })
+
+            logAudit({
+                action: 'GRADE_UPDATE',
+                actorId: session.user.id,
+                institutionId: session.user.institutionId,
+                targetType: 'GRADE',
+                targetId: independentGrade.id,
+                metadata: { answerId, score: clampedScore, independent: true },
+                ipAddress: getClientIp(req),
+            })
+
+            return NextResponse.json({ success: true, grade: independentGrade, independent: true })
+        }
+
         // Check if there's an existing grade to determine if this is an override
         const existingGrade = await prisma.grade.findUnique({
             where: { answerId: answerId }
@@ -90,6 +121,9 @@ export async function POST(req: NextRequest) {
         // Determine if this is an override of an AI-generated grade
         const isOverridingAIGrade = existingGrade !== null && existingGrade.gradedByUserId === null
 
+        // Criterion breakdown kept as is unless the teacher edited the checklist
+        const criteriaData = criteriaResults ? { criteriaResults: clampCriterionResults(criteriaResults) } : {}
+
         // Upsert grade with clamped score
         const grade = await prisma.grade.upsert({
             where: {
@@ -98,6 +132,7 @@ export async function POST(req: NextRequest) {
             update: {
                 score: clampedScore,
                 feedback: feedback || null,
+                ...criteriaData,
                 gradedByUserId: session.user.id,
                 isOverridden: isOverridingAIGrade || existingGrade?.isOverridden || false
             },
@@ -105,6 +140,7 @@ export async function POST(req: NextRequest) {
                 answerId: answerId,
                 score: clampedScore,
                 feedback: feedback || null,
+                ...criteriaData,
                 gradedByUserId: session.user.id,
                 isOverridden: false
             }
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { LMSConfig } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isAdmin, isPlatformAdmin, isSchoolAdmin } from '@/lib/api-auth'
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from '@/lib/csrf'
+import { unauthorized, forbidden, notFound, internal, parseBody } from '@/lib/api-validation'
+import { lmsPlatformSchema } from '@/lib/schemas/institutions'
+import { getToolPrivateKey, getToolUrl } from '@/lib/lti/platform'
+
+const canAccessInstitution = (
+    session: { user?: { institutionId?: string } } | null,
+    institutionId: string
+): boolean => {
+    if (!session?.user) {
+        return false
+    }
+    if (isPlatformAdmin(session)) {
+        return true
+    }
+
+    return isSchoolAdmin(session) && session.user.institutionId === institutionId
+}
+
+// The tool private key never leaves the server
+const toPublicConfig = ({ ltiKey, ...config }: LMSConfig) => ({ ...config, hasToolKey: Boolean(ltiKey) })
+
+// URLs to enter in the LMS when registering Correcta as an LTI 1.3 tool
+const getToolEndpoints = (origin: string) => ({
+    loginUrl: getToolUrl('/api/lti/login', origin),
+    launchUrl: getToolUrl('/api/lti/launch', origin),
+    deepLinkingUrl: getToolUrl('/api/lti/launch', origin),
+    jwksUrl: getToolUrl('/api/lti/jwks', origin),
+})
+
+// GET /api/institutions/[institutionId]/lms - LTI platform registrations
+export async function GET(req: NextRequest, { params }: { params: Promise<{ institutionId: string }> }) {
+    const session = await getAuthSession(req)
+
+    if (!session) return unauthorized()
+    if (!isAdmin(session)) return forbidden()
+
+    const { institutionId } = await params
+    if (!canAccessInstitution(session, institutionId)) return forbidden()
+
+    const configs = await prisma.lMSConfig.findMany({
+        where: { institutionId },
+        orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({
+        tool: getToolEndpoints(req.nextUrl.origin),
+        platforms: configs.map(toPublicConfig)
+    })
+}
+
+// POST /api/institutions/[institutionId]/lms - Register or update an LTI platform
+export async function POST(req: NextRequest, { params }: { params: Promise<{ institutionId: string }> }) {
+    const session = await getAuthSession(req)
+
+    if (!session) return unauthorized()
+    if (!isAdmin(session)) return forbidden()
+
+    const { institutionId } = await params
+    if (!canAccessInstitution(session, institutionId)) return forbidden()
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+    if (!csrfResult.ok) return forbidden('CSRF')
+
+    const parsed = await parseBody(req, lmsPlatformSchema)
+    if ('error' in parsed) return parsed.error
+    const { id, ...data } = parsed.data
+
+    try {
+        const duplicate = await prisma.lMSConfig.findFirst({
+            where: { issuer: data.issuer, clientId: data.clientId, ...(id ? { id: { not: id } } : {}) },
+            select: { id: true }
+        })
+        if (duplicate) {
+            return NextResponse.json({ error: 'This issuer and client id are already registered' }, { status: 409 })
+        }
+
+        let config: LMSConfig
+        if (id) {
+            const existing = await prisma.lMSConfig.findFirst({ where: { id, institutionId }, select: { id: true } })
+            if (!existing) return notFound('LMS platform not found')
+            config = await prisma.lMSConfig.update({ where: { id }, data })
+        } else {
+            config = await prisma.lMSConfig.create({ data: { ...data, institutionId } })
+        }
+
+        // Generate the tool key now so it is published on the JWKS endpoint before the first launch
+        await getToolPrivateKey(config)
+        const updated = await prisma.lMSConfig.findUnique({ where: { id: config.id } })
+        if (!updated) return notFound('LMS platform not found')
+
+        return NextResponse.json({
+            tool: getToolEndpoints(req.nextUrl.origin),
+            platform: toPublicConfig(updated)
+        }, { status: id ? 200 : 201 })
+    } catch (error) {
+        console.error('[Institutions] LMS registration failed', error)
+        return internal('Failed to save LMS platform')
+    }
+}
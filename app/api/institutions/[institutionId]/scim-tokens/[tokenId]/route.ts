@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isAdmin, isPlatformAdmin, isSchoolAdmin } from '@/lib/api-auth'
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from '@/lib/csrf'
+import { unauthorized, forbidden, notFound } from '@/lib/api-validation'
+import { getClientIp, logAudit } from '@/lib/audit'
+
+const canAccessInstitution = (
+    session: { user?: { institutionId?: string } } | null,
+    institutionId: string
+): boolean => {
+    if (!session?.user) {
+        return false
+    }
+    if (isPlatformAdmin(session)) {
+        return true
+    }
+
+    return isSchoolAdmin(session) && session.user.institutionId === institutionId
+}
+
+// DELETE /api/institutions/[institutionId]/scim-tokens/[tokenId] - Revoke a token (kept for the audit trail)
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ institutionId: string; tokenId: string }> }
+) {
+    const session = await getAuthSession(req)
+
+    if (!session) return unauthorized()
+    if (!isAdmin(session)) return forbidden()
+
+    const { institutionId, tokenId } = await params
+    if (!canAccessInstitution(session, institutionId)) return forbidden()
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+    if (!csrfResult.ok) return forbidden('CSRF')
+
+    const token = await prisma.scimToken.findFirst({
+        where: { id: tokenId, institutionId },
+        select: { id: true, name: true, revokedAt: true }
+    })
+    if (!token) return notFound('SCIM token not found')
+
+    if (!token.revokedAt) {
+        await prisma.scimToken.update({ where: { id: tokenId }, data: { revokedAt: new Date() } })
+        logAudit({
+            action: 'SCIM_TOKEN_REVOKE',
+            actorId: session.user.id,
+            institutionId,
+            targetType: 'SCIM_TOKEN',
+            targetId: tokenId,
+            metadata: { name: token.name },
+            ipAddress: getClientIp(req),
+        })
+    }
+
+    return NextResponse.json({ success: true })
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getAuthSession, isAdmin, isPlatformAdmin, isSchoolAdmin } from '@/lib/api-auth'
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from '@/lib/csrf'
+import { unauthorized, forbidden, internal, parseBody } from '@/lib/api-validation'
+import { getClientIp, logAudit } from '@/lib/audit'
+import { scimTokenSchema } from '@/lib/schemas/institutions'
+import { createScimToken, getScimBaseUrl } from '@/lib/scim/service'
+
+const canAccessInstitution = (
+    session: { user?: { institutionId?: string } } | null,
+    institutionId: string
+): boolean => {
+    if (!session?.user) {
+        return false
+    }
+    if (isPlatformAdmin(session)) {
+        return true
+    }
+
+    return isSchoolAdmin(session) && session.user.institutionId === institutionId
+}
+
+// GET /api/institutions/[institutionId]/scim-tokens - SCIM endpoint and tokens (hashes never leave the server)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ institutionId: string }> }) {
+    const session = await getAuthSession(req)
+
+    if (!session) return unauthorized()
+    if (!isAdmin(session)) return forbidden()
+
+    const { institutionId } = await params
+    if (!canAccessInstitution(session, institutionId)) return forbidden()
+
+    const tokens = await prisma.scimToken.findMany({
+        where: { institutionId },
+        select: { id: true, name: true, tokenPrefix: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+        orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ baseUrl: getScimBaseUrl(req.nextUrl.origin), tokens })
+}
+
+// POST /api/institutions/[institutionId]/scim-tokens - Create a token, returned in clear only once
+export async function POST(req: NextRequest, { params }: { params: Promise<{ institutionId: string }> }) {
+    const session = await getAuthSession(req)
+
+    if (!session) return unauthorized()
+    if (!isAdmin(session)) return forbidden()
+
+    const { institutionId } = await params
+    if (!canAccessInstitution(session, institutionId)) return forbidden()
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get('x-csrf-token'),
+        allowedOrigins: getAllowedOrigins()
+    })
+    if (!csrfResult.ok) return forbidden('CSRF')
+
+    const parsed = await parseBody(req, scimTokenSchema)
+    if ('error' in parsed) return parsed.error
+
+    try {
+        const { token, record } = await createScimToken(institutionId, parsed.data.name, session.user.id)
+
+        logAudit({
+            action: 'SCIM_TOKEN_CREATE',
+            actorId: session.user.id,
+            institutionId,
+            targetType: 'SCIM_TOKEN',
+            targetId: record.id,
+            metadata: { name: record.name },
+            ipAddress: getClientIp(req),
+        })
+        return NextResponse.json({ token, record }, { status: 201 })
+    } catch (error) {
+        console.error('[Institutions] SCIM token creation failed', error)
+        return internal('Failed to create SCIM token')
+    }
+}
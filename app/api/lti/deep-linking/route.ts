@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { LtiError, signRs256Jwt } from "@/lib/lti/jwt"
+import { buildDeepLinkingResponse } from "@/lib/lti/messages"
+import {
+    getExamLineItemMaximum,
+    getToolPrivateKey,
+    getToolUrl,
+    verifyDeepLinkingContext
+} from "@/lib/lti/platform"
+
+// POST /api/lti/deep-linking - Sign the Deep Linking response placing an exam in the LMS course
+export async function POST(req: NextRequest) {
+    try {
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const body = await req.json()
+        const contextToken = typeof body?.context === "string" ? body.context : ""
+        const examId = typeof body?.examId === "string" ? body.examId : ""
+        if (!contextToken || !examId) {
+            return NextResponse.json({ error: "Missing context or examId" }, { status: 400 })
+        }
+
+        const context = verifyDeepLinkingContext(contextToken)
+        if (context.userId !== session.user.id) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+        }
+
+        const { canEdit } = await getExamPermissions(examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const [config, exam] = await Promise.all([
+            prisma.lMSConfig.findUnique({ where: { id: context.lmsConfigId } }),
+            prisma.exam.findUnique({
+                where: { id: examId },
+                select: {
+                    id: true,
+                    title: true,
+                    sections: {
+                        select: {
+                            poolDrawCount: true,
+                            questions: { select: { segments: { select: { maxPoints: true } } } }
+                        }
+                    }
+                }
+            })
+        ])
+        if (!config || !config.issuer || !config.clientId || config.institutionId !== session.user.institutionId) {
+            return NextResponse.json({ error: "Unknown LTI platform" }, { status: 404 })
+        }
+        if (!exam) {
+            return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+        }
+
+        const claims = buildDeepLinkingResponse({
+            issuer: config.issuer,
+            clientId: config.clientId,
+            deploymentId: context.deploymentId,
+            data: context.data,
+            exam: { id: exam.id, title: exam.title, maxScore: getExamLineItemMaximum(exam.sections) },
+            launchUrl: getToolUrl("/api/lti/launch", req.nextUrl.origin)
+        })
+        const jwt = signRs256Jwt(claims, await getToolPrivateKey(config), config.id)
+
+        return NextResponse.json({ returnUrl: context.returnUrl, jwt })
+    } catch (error) {
+        if (error instanceof LtiError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        console.error("[API] LTI Deep Linking Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getToolJwks } from "@/lib/lti/platform"
+
+// GET /api/lti/jwks - Public keys the platforms use to verify tool messages and AGS token requests
+export async function GET() {
+    try {
+        return NextResponse.json(await getToolJwks(), {
+            headers: { "Cache-Control": "public, max-age=300" }
+        })
+    } catch (error) {
+        console.error("[API] LTI JWKS Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server"
+import { LtiError } from "@/lib/lti/jwt"
+import {
+    HANDOFF_TTL_SECONDS,
+    LTI_HANDOFF_COOKIE,
+    LTI_STATE_COOKIE,
+    enrollLtiStudent,
+    getToolUrl,
+    provisionLtiUser,
+    resolveLaunchExam,
+    signDeepLinkingContext,
+    signLtiHandoff,
+    verifyLaunchToken,
+    verifyLtiState
+} from "@/lib/lti/platform"
+import { prisma } from "@/lib/prisma"
+
+// POST /api/lti/launch - LTI 1.3 launch (id_token form post from the platform)
+export async function POST(req: NextRequest) {
+    try {
+        const form = await req.formData()
+        const idToken = form.get("id_token")
+        const state = form.get("state")
+        if (typeof idToken !== "string" || typeof state !== "string") {
+            return NextResponse.json({ error: "Missing id_token or state" }, { status: 400 })
+        }
+
+        const stateCookie = req.cookies.get(LTI_STATE_COOKIE)?.value
+        if (!stateCookie) {
+            return NextResponse.json({ error: "LTI session expired, relaunch from the LMS" }, { status: 401 })
+        }
+        const storedState = verifyLtiState(stateCookie)
+        if (storedState.state !== state) {
+            return NextResponse.json({ error: "Invalid state" }, { status: 401 })
+        }
+
+        const config = await prisma.lMSConfig.findUnique({ where: { id: storedState.lmsConfigId } })
+        if (!config) {
+            return NextResponse.json({ error: "Unknown LTI platform" }, { status: 404 })
+        }
+
+        const launch = await verifyLaunchToken(idToken, config, storedState.nonce)
+        const user = await provisionLtiUser(config, launch)
+        const isStudentUser = user.role === "STUDENT"
+
+        let next: string
+        if (launch.messageType === "LtiDeepLinkingRequest") {
+            if (isStudentUser || launch.role !== "TEACHER" || !launch.deepLinking) {
+                return NextResponse.json({ error: "Only instructors can add Correcta exams" }, { status: 403 })
+            }
+            const context = signDeepLinkingContext({
+                lmsConfigId: config.id,
+                deploymentId: launch.deploymentId,
+                returnUrl: launch.deepLinking.returnUrl,
+                data: launch.deepLinking.data,
+                userId: user.id
+            })
+            next = `/lti/deep-link?context=${encodeURIComponent(context)}`
+        } else {
+            const exam = await resolveLaunchExam(config, launch)
+            if (isStudentUser) {
+                await enrollLtiStudent(user.id, exam)
+                next = `/student/exams/${exam.id}/take`
+            } else {
+                next = `/dashboard/exams/${exam.id}`
+            }
+        }
+
+        // The handoff token stays out of the URL (history, logs, Referer): the landing
+        // page reads it from this cookie and posts it to the `lti` credentials provider
+        const target = getToolUrl("/lti/launch", req.nextUrl.origin)
+        const response = NextResponse.redirect(target, 303)
+        response.cookies.delete({ name: LTI_STATE_COOKIE, path: "/api/lti" })
+        response.cookies.set(LTI_HANDOFF_COOKIE, signLtiHandoff(user.id, next), {
+            httpOnly: true,
+            secure: target.startsWith("https://"),
+            sameSite: "lax",
+            path: "/lti/launch",
+            maxAge: HANDOFF_TTL_SECONDS
+        })
+        return response
+    } catch (error) {
+        if (error instanceof LtiError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        console.error("[API] LTI Launch Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,67 @@
+import { randomUUID } from "node:crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { LtiError } from "@/lib/lti/jwt"
+import { LTI_STATE_COOKIE, findLmsConfig, getToolUrl, signLtiState } from "@/lib/lti/platform"
+
+const readParams = async (req: NextRequest) => {
+    if (req.method === "POST") {
+        const form = await req.formData()
+        return new URLSearchParams(
+            Array.from(form.entries()).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+        )
+    }
+    return req.nextUrl.searchParams
+}
+
+// GET|POST /api/lti/login - LTI 1.3 OIDC login initiation (third-party initiated login)
+async function handleLogin(req: NextRequest) {
+    try {
+        const params = await readParams(req)
+        const issuer = params.get("iss")
+        const loginHint = params.get("login_hint")
+        if (!issuer || !loginHint) {
+            return NextResponse.json({ error: "Missing iss or login_hint" }, { status: 400 })
+        }
+
+        const config = await findLmsConfig(issuer, params.get("client_id"))
+        const state = randomUUID()
+        const nonce = randomUUID()
+        const redirectUri = getToolUrl("/api/lti/launch", req.nextUrl.origin)
+
+        const authUrl = new URL(config.authLoginUrl as string)
+        authUrl.searchParams.set("scope", "openid")
+        authUrl.searchParams.set("response_type", "id_token")
+        authUrl.searchParams.set("response_mode", "form_post")
+        authUrl.searchParams.set("prompt", "none")
+        authUrl.searchParams.set("client_id", config.clientId as string)
+        authUrl.searchParams.set("redirect_uri", redirectUri)
+        authUrl.searchParams.set("login_hint", loginHint)
+        authUrl.searchParams.set("state", state)
+        authUrl.searchParams.set("nonce", nonce)
+        const messageHint = params.get("lti_message_hint")
+        if (messageHint) {
+            authUrl.searchParams.set("lti_message_hint", messageHint)
+        }
+
+        // The launch comes back as a cross-site form post: the cookie must be SameSite=None over HTTPS
+        const secure = redirectUri.startsWith("https://")
+        const response = NextResponse.redirect(authUrl, 302)
+        response.cookies.set(LTI_STATE_COOKIE, signLtiState({ state, nonce, lmsConfigId: config.id }), {
+            httpOnly: true,
+            secure,
+            sameSite: secure ? "none" : "lax",
+            path: "/api/lti",
+            maxAge: 600
+        })
+        return response
+    } catch (error) {
+        if (error instanceof LtiError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        console.error("[API] LTI Login Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+export const GET = handleLogin
+export const POST = handleLogin
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { parseContent } from "@/lib/content"
+import { updateBankItemSchema } from "@/lib/schemas/question-bank"
+import { normalizeBankTags, parseBankSegments } from "@/lib/question-bank/snapshot"
+import {
+    bankItemVisibilityWhere,
+    canManageBankItem,
+    computeBankSearchText,
+    getBankCourseIds,
+    getBankItemExamHistory,
+    getBankUsageStats,
+    toBankItemSummary
+} from "@/lib/question-bank/service"
+
+// GET /api/question-bank/[itemId] - Bank item content and its usage history
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ itemId: string }> }
+) {
+    try {
+        const { itemId } = await params
+        const session = await getAuthSession(req)
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const courseIds = await getBankCourseIds(session.user)
+        const item = await prisma.questionBankItem.findFirst({
+            where: { id: itemId, ...bankItemVisibilityWhere(session.user.institutionId, courseIds) },
+            include: { course: { select: { code: true } } }
+        })
+        if (!item) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+
+        const [usage, history] = await Promise.all([
+            getBankUsageStats([item.id]),
+            getBankItemExamHistory(item.id)
+        ])
+
+        return NextResponse.json({
+            item: {
+                ...toBankItemSummary(item, usage.get(item.id)),
+                content: parseContent(item.content),
+                answerTemplate: item.answerTemplate ? parseContent(item.answerTemplate) : [],
+                segments: parseBankSegments(item.segments),
+                canManage: canManageBankItem(item, session.user)
+            },
+            history
+        })
+    } catch (error) {
+        console.error("[API] Get Question Bank Item Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// PATCH /api/question-bank/[itemId] - Update tags or sharing scope (creator or admin)
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ itemId: string }> }
+) {
+    try {
+        const { itemId } = await params
+        const session = await getAuthSession(req)
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const courseIds = await getBankCourseIds(session.user)
+        const existing = await prisma.questionBankItem.findFirst({
+            where: { id: itemId, ...bankItemVisibilityWhere(session.user.institutionId, courseIds) }
+        })
+        if (!existing) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+        if (!canManageBankItem(existing, session.user)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, updateBankItemSchema)
+        if ('error' in parsed) return parsed.error
+        const data = parsed.data
+
+        if (data.courseId && !courseIds.includes(data.courseId)) {
+            return NextResponse.json({ error: "Invalid course" }, { status: 400 })
+        }
+
+        const topics = data.topics !== undefined ? normalizeBankTags(data.topics) : existing.topics
+        const learningObjectives = data.learningObjectives !== undefined
+            ? normalizeBankTags(data.learningObjectives)
+            : existing.learningObjectives
+
+        const item = await prisma.questionBankItem.update({
+            where: { id: itemId },
+            data: {
+                ...(data.courseId !== undefined ? { courseId: data.courseId } : {}),
+                ...(data.difficulty !== undefined ? { difficulty: data.difficulty } : {}),
+                topics,
+                learningObjectives,
+                searchText: computeBankSearchText(
+                    { content: existing.content, segments: parseBankSegments(existing.segments) },
+                    { topics, learningObjectives }
+                )
+            },
+            include: { course: { select: { code: true } } }
+        })
+
+        logAudit({
+            action: 'QUESTION_BANK_UPDATE',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'QUESTION_BANK_ITEM',
+            targetId: item.id,
+            metadata: { fields: Object.keys(data) },
+            ipAddress: getClientIp(req),
+        })
+
+        const usage = await getBankUsageStats([item.id])
+        return NextResponse.json({ item: toBankItemSummary(item, usage.get(item.id)) })
+    } catch (error) {
+        console.error("[API] Update Question Bank Item Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// DELETE /api/question-bank/[itemId] - Archive a bank item; exam copies are kept
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ itemId: string }> }
+) {
+    try {
+        const { itemId } = await params
+        const session = await getAuthSession(req)
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const courseIds = await getBankCourseIds(session.user)
+        const existing = await prisma.questionBankItem.findFirst({
+            where: { id: itemId, ...bankItemVisibilityWhere(session.user.institutionId, courseIds) },
+            select: { id: true, createdById: true }
+        })
+        if (!existing) {
+            return NextResponse.json({ error: "Not found" }, { status: 404 })
+        }
+        if (!canManageBankItem(existing, session.user)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+        }
+
+        await prisma.questionBankItem.update({
+            where: { id: itemId },
+            data: { archivedAt: new Date() }
+        })
+
+        logAudit({
+            action: 'QUESTION_BANK_DELETE',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'QUESTION_BANK_ITEM',
+            targetId: itemId,
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error("[API] Delete Question Bank Item Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
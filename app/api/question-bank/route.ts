@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { parseBody } from "@/lib/api-validation"
+import { logAudit, getClientIp } from "@/lib/audit"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { createBankItemSchema } from "@/lib/schemas/question-bank"
+import { normalizeBankTags, parseBankSearchTerms } from "@/lib/question-bank/snapshot"
+import {
+    bankItemVisibilityWhere,
+    getBankCourseIds,
+    getBankUsageStats,
+    saveQuestionToBank,
+    toBankItemSummary
+} from "@/lib/question-bank/service"
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+const QUESTION_TYPES = ['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'] as const
+const DIFFICULTIES = ['EASY', 'MEDIUM', 'HARD'] as const
+
+// GET /api/question-bank - Search the bank items visible to the teacher
+// Query: q, scope ("institution" | courseId), type, difficulty, topic, objective, limit
+export async function GET(req: NextRequest) {
+    try {
+        const session = await getAuthSession(req)
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(req.url)
+        const courseIds = await getBankCourseIds(session.user)
+        const visibility = bankItemVisibilityWhere(session.user.institutionId, courseIds)
+
+        const filters: Prisma.QuestionBankItemWhereInput[] = [visibility]
+
+        const scope = searchParams.get('scope')
+        if (scope === 'institution') {
+            filters.push({ courseId: null })
+        } else if (scope) {
+            if (!courseIds.includes(scope)) {
+                return NextResponse.json({ error: "Invalid scope" }, { status: 400 })
+            }
+            filters.push({ courseId: scope })
+        }
+
+        const type = searchParams.get('type')
+        if (type) {
+            if (!QUESTION_TYPES.includes(type as typeof QUESTION_TYPES[number])) {
+                return NextResponse.json({ error: "Invalid question type" }, { status: 400 })
+            }
+            filters.push({ type: type as typeof QUESTION_TYPES[number] })
+        }
+
+        const difficulty = searchParams.get('difficulty')
+        if (difficulty) {
+            if (!DIFFICULTIES.includes(difficulty as typeof DIFFICULTIES[number])) {
+                return NextResponse.json({ error: "Invalid difficulty" }, { status: 400 })
+            }
+            filters.push({ difficulty: difficulty as typeof DIFFICULTIES[number] })
+        }
+
+        const topic = searchParams.get('topic')
+        if (topic) {
+            filters.push({ topics: { has: topic } })
+        }
+        const objective = searchParams.get('objective')
+        if (objective) {
+            filters.push({ learningObjectives: { has: objective } })
+        }
+
+        // Every search term must appear in the normalized text (content, segments, rubric, tags)
+        for (const term of parseBankSearchTerms(searchParams.get('q'))) {
+            filters.push({ searchText: { contains: term } })
+        }
+
+        const requestedLimit = Number(searchParams.get('limit'))
+        const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+            ? Math.min(requestedLimit, MAX_LIMIT)
+            : DEFAULT_LIMIT
+
+        const [items, tagSources] = await Promise.all([
+            prisma.questionBankItem.findMany({
+                where: { AND: filters },
+                include: { course: { select: { code: true } } },
+                orderBy: { updatedAt: 'desc' },
+                take: limit
+            }),
+            // Filter options for the search form
+            prisma.questionBankItem.findMany({
+                where: visibility,
+                select: { topics: true, learningObjectives: true }
+            })
+        ])
+
+        const usage = await getBankUsageStats(items.map(item => item.id))
+        const collator = new Intl.Collator('fr', { sensitivity: 'base' })
+
+        return NextResponse.json({
+            items: items.map(item => toBankItemSummary(item, usage.get(item.id))),
+            topics: Array.from(new Set(tagSources.flatMap(source => source.topics))).sort(collator.compare),
+            learningObjectives: Array.from(new Set(tagSources.flatMap(source => source.learningObjectives))).sort(collator.compare)
+        })
+    } catch (error) {
+        console.error("[API] Search Question Bank Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
+
+// POST /api/question-bank - Save a copy of an exam question to the bank
+export async function POST(req: NextRequest) {
+    try {
+        const session = await getAuthSession(req)
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, createBankItemSchema)
+        if ('error' in parsed) return parsed.error
+        const data = parsed.data
+
+        const question = await prisma.question.findUnique({
+            where: { id: data.questionId },
+            select: { id: true, section: { select: { examId: true } } }
+        })
+        if (!question) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 })
+        }
+
+        const { canEdit } = await getExamPermissions(question.section.examId, {
+            id: session.user.id,
+            institutionId: session.user.institutionId,
+            role: session.user.role,
+        })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 })
+        }
+
+        if (data.courseId) {
+            const courseIds = await getBankCourseIds(session.user)
+            if (!courseIds.includes(data.courseId)) {
+                return NextResponse.json({ error: "Invalid course" }, { status: 400 })
+            }
+        }
+
+        const item = await saveQuestionToBank({
+            questionId: question.id,
+            institutionId: session.user.institutionId,
+            courseId: data.courseId,
+            createdById: session.user.id,
+            tags: {
+                topics: normalizeBankTags(data.topics),
+                learningObjectives: normalizeBankTags(data.learningObjectives),
+                difficulty: data.difficulty ?? null,
+            }
+        })
+        if (!item) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 })
+        }
+
+        logAudit({
+            action: 'QUESTION_BANK_CREATE',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'QUESTION_BANK_ITEM',
+            targetId: item.id,
+            metadata: { questionId: question.id, courseId: item.courseId },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ item: toBankItemSummary(item, undefined) }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Create Question Bank Item Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
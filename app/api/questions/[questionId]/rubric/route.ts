@@ -138,7 +138,8 @@ export async function POST(
         const rubric = await generateRubric({
             questionContent,
             correctionGuidelines,
-            maxPoints
+            maxPoints,
+            institutionId: question.section.exam.course.institutionId
         })
 
         // Store generated rubric in question
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { parseBody } from "@/lib/api-validation"
+import { regradeMessageSchema } from "@/lib/schemas/grades"
+
+// POST /api/regrade-requests/[requestId]/messages - Reply in the thread of a regrade request
+// The student can reply while the request is open; teachers of the exam at any time.
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ requestId: string }> }
+) {
+    try {
+        const { requestId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, regradeMessageSchema)
+        if ('error' in parsed) return parsed.error
+        const { body } = parsed.data
+
+        const request = await prisma.regradeRequest.findUnique({
+            where: { id: requestId },
+            select: {
+                id: true,
+                status: true,
+                studentId: true,
+                answer: { select: { attempt: { select: { examId: true } } } }
+            }
+        })
+
+        if (!request) {
+            return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+        }
+
+        if (isTeacher(session)) {
+            const { canEdit } = await getExamPermissions(request.answer.attempt.examId, {
+                id: session.user.id,
+                role: session.user.role,
+                institutionId: session.user.institutionId
+            }, { includeArchived: true })
+            if (!canEdit) {
+                return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+            }
+        } else {
+            if (request.studentId !== session.user.id) {
+                return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+            }
+            if (request.status !== 'OPEN') {
+                return NextResponse.json({ error: "This regrade request is already resolved" }, { status: 409 })
+            }
+        }
+
+        const message = await prisma.regradeMessage.create({
+            data: { requestId, authorId: session.user.id, body },
+            select: {
+                id: true,
+                body: true,
+                createdAt: true,
+                author: { select: { id: true, name: true, role: true } }
+            }
+        })
+
+        return NextResponse.json({ message }, { status: 201 })
+    } catch (error) {
+        console.error("[API] Regrade Message Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { getExamPermissions } from "@/lib/exam-permissions"
+import { recomputeAttemptStatus } from "@/lib/attemptStatus"
+import { parseBody } from "@/lib/api-validation"
+import { resolveRegradeRequestSchema } from "@/lib/schemas/grades"
+import { regradeRequestSelect } from "@/lib/grading/regrade-requests"
+import { clampRegradeScore } from "@/lib/regrade"
+import { logAudit, getClientIp } from "@/lib/audit"
+
+// PATCH /api/regrade-requests/[requestId] - Teacher accepts or rejects a regrade request
+// Accepting sets the new score on the question grade (marked as overridden).
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ requestId: string }> }
+) {
+    try {
+        const { requestId } = await params
+        const session = await getAuthSession(req)
+
+        if (!session || !session.user || !isTeacher(session)) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+        }
+
+        const csrfResult = verifyCsrf({
+            req,
+            cookieToken: getCsrfCookieToken(req),
+            headerToken: req.headers.get('x-csrf-token'),
+            allowedOrigins: getAllowedOrigins()
+        })
+        if (!csrfResult.ok) {
+            return NextResponse.json({ error: "CSRF" }, { status: 403 })
+        }
+
+        const parsed = await parseBody(req, resolveRegradeRequestSchema)
+        if ('error' in parsed) return parsed.error
+        const { status, score, feedback, message } = parsed.data
+
+        const request = await prisma.regradeRequest.findUnique({
+            where: { id: requestId },
+            select: {
+                id: true,
+                status: true,
+                previousScore: true,
+                answer: {
+                    select: {
+                        id: true,
+                        attemptId: true,
+                        attempt: { select: { examId: true } },
+                        question: { select: { segments: { select: { maxPoints: true } } } },
+                        grades: { select: { id: true, score: true }, take: 1 }
+                    }
+                }
+            }
+        })
+
+        if (!request) {
+            return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+        }
+
+        const { canEdit } = await getExamPermissions(request.answer.attempt.examId, {
+            id: session.user.id,
+            role: session.user.role,
+            institutionId: session.user.institutionId
+        }, { includeArchived: true })
+        if (!canEdit) {
+            return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+        }
+
+        if (request.status !== 'OPEN') {
+            return NextResponse.json({ error: "This regrade request is already resolved" }, { status: 409 })
+        }
+
+        const grade = request.answer.grades[0]
+        let newScore: number | null = null
+        if (status === 'ACCEPTED') {
+            if (score === undefined || !Number.isFinite(score)) {
+                return NextResponse.json({ error: "A score is required to accept the request" }, { status: 400 })
+            }
+            if (!grade) {
+                return NextResponse.json({ error: "The question has no grade to update" }, { status: 400 })
+            }
+            const maxPoints = request.answer.question.segments.reduce((sum, segment) => sum + (segment.maxPoints || 0), 0)
+            newScore = clampRegradeScore(score, maxPoints)
+        }
+
+        const resolved = await prisma.$transaction(async (tx) => {
+            if (status === 'ACCEPTED' && grade && newScore !== null) {
+                await tx.grade.update({
+                    where: { id: grade.id },
+                    data: {
+                        score: newScore,
+                        ...(feedback !== undefined ? { feedback: feedback || null } : {}),
+                        gradedByUserId: session.user.id,
+                        isOverridden: true
+                    }
+                })
+            }
+            if (message) {
+                await tx.regradeMessage.create({
+                    data: { requestId, authorId: session.user.id, body: message }
+                })
+            }
+            return tx.regradeRequest.update({
+                where: { id: requestId },
+                data: {
+                    status,
+                    newScore,
+                    resolvedById: session.user.id,
+                    resolvedAt: new Date()
+                },
+                select: regradeRequestSelect
+            })
+        })
+
+        if (status === 'ACCEPTED') {
+            await recomputeAttemptStatus(request.answer.attemptId)
+        }
+
+        logAudit({
+            action: 'REGRADE_REQUEST_RESOLVE',
+            actorId: session.user.id,
+            institutionId: session.user.institutionId,
+            targetType: 'GRADE',
+            targetId: grade?.id,
+            metadata: {
+                requestId,
+                answerId: request.answer.id,
+                status,
+                previousScore: grade?.score ?? request.previousScore,
+                newScore
+            },
+            ipAddress: getClientIp(req),
+        })
+
+        return NextResponse.json({ request: resolved })
+    } catch (error) {
+        console.error("[API] Resolve Regrade Request Error:", error)
+        return NextResponse.json({ error: "Internal Server Error" }, { status: 500 })
+    }
+}
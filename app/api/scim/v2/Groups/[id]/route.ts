@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+    archiveScimGroup,
+    getScimGroup,
+    handleScimRequest,
+    patchScimGroup,
+    readScimBody,
+    replaceScimGroup,
+    scimJson,
+} from "@/lib/scim/service"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+// GET /api/scim/v2/Groups/[id] - Supports excludedAttributes=members
+export async function GET(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) =>
+        scimJson(await getScimGroup(context, id, req.nextUrl.searchParams))
+    )
+}
+
+// PUT /api/scim/v2/Groups/[id] - Replace the class name and members
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) =>
+        scimJson(await replaceScimGroup(context, id, await readScimBody(req)))
+    )
+}
+
+// PATCH /api/scim/v2/Groups/[id] - Apply PatchOp operations (member add/remove)
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) =>
+        scimJson(await patchScimGroup(context, id, await readScimBody(req)))
+    )
+}
+
+// DELETE /api/scim/v2/Groups/[id] - Archive the class
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) => {
+        await archiveScimGroup(context, id)
+        return new NextResponse(null, { status: 204 })
+    })
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server"
+import { createScimGroup, handleScimRequest, listScimGroups, readScimBody, scimJson } from "@/lib/scim/service"
+
+// GET /api/scim/v2/Groups - List classes of the token's institution
+export async function GET(req: NextRequest) {
+    return handleScimRequest(req, async (context) =>
+        scimJson(await listScimGroups(context, req.nextUrl.searchParams))
+    )
+}
+
+// POST /api/scim/v2/Groups - Create a class and enroll its members
+export async function POST(req: NextRequest) {
+    return handleScimRequest(req, async (context) => {
+        const group = await createScimGroup(context, await readScimBody(req))
+        return scimJson(group, 201, { Location: group.meta.location })
+    })
+}
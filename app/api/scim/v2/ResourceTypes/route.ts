@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server"
+import { buildResourceTypes } from "@/lib/scim/discovery"
+import { buildListResponse } from "@/lib/scim/protocol"
+import { getScimBaseUrl, scimJson } from "@/lib/scim/service"
+
+// GET /api/scim/v2/ResourceTypes - Public discovery document
+export async function GET(req: NextRequest) {
+    const resourceTypes = buildResourceTypes(getScimBaseUrl(req.nextUrl.origin))
+    return scimJson(buildListResponse(resourceTypes, resourceTypes.length, 1))
+}
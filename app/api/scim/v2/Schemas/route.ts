@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server"
+import { buildSchemas } from "@/lib/scim/discovery"
+import { buildListResponse } from "@/lib/scim/protocol"
+import { getScimBaseUrl, scimJson } from "@/lib/scim/service"
+
+// GET /api/scim/v2/Schemas - Public discovery document
+export async function GET(req: NextRequest) {
+    const schemas = buildSchemas(getScimBaseUrl(req.nextUrl.origin))
+    return scimJson(buildListResponse(schemas, schemas.length, 1))
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server"
+import { buildServiceProviderConfig } from "@/lib/scim/discovery"
+import { getScimBaseUrl, scimJson } from "@/lib/scim/service"
+
+// GET /api/scim/v2/ServiceProviderConfig - Public discovery document
+export async function GET(req: NextRequest) {
+    return scimJson(buildServiceProviderConfig(getScimBaseUrl(req.nextUrl.origin)))
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+    archiveScimUser,
+    getScimUser,
+    handleScimRequest,
+    patchScimUser,
+    readScimBody,
+    replaceScimUser,
+    scimJson,
+} from "@/lib/scim/service"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+// GET /api/scim/v2/Users/[id]
+export async function GET(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) => scimJson(await getScimUser(context, id)))
+}
+
+// PUT /api/scim/v2/Users/[id] - Replace the user attributes
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) =>
+        scimJson(await replaceScimUser(context, id, await readScimBody(req)))
+    )
+}
+
+// PATCH /api/scim/v2/Users/[id] - Apply PatchOp operations (active=false archives the user)
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) =>
+        scimJson(await patchScimUser(context, id, await readScimBody(req)))
+    )
+}
+
+// DELETE /api/scim/v2/Users/[id] - Archive the user
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+    const { id } = await params
+    return handleScimRequest(req, async (context) => {
+        await archiveScimUser(context, id)
+        return new NextResponse(null, { status: 204 })
+    })
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server"
+import { createScimUser, handleScimRequest, listScimUsers, readScimBody, scimJson } from "@/lib/scim/service"
+
+// GET /api/scim/v2/Users - List users of the token's institution (filter, startIndex, count)
+export async function GET(req: NextRequest) {
+    return handleScimRequest(req, async (context) =>
+        scimJson(await listScimUsers(context, req.nextUrl.searchParams))
+    )
+}
+
+// POST /api/scim/v2/Users - Provision a user
+export async function POST(req: NextRequest) {
+    return handleScimRequest(req, async (context) => {
+        const user = await createScimUser(context, await readScimBody(req))
+        return scimJson(user, 201, { Location: user.meta.location })
+    })
+}
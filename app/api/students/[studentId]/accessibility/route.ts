@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { getAuthSession, isPlatformAdmin, isSchoolAdmin, isTeacher } from "@/lib/api-auth"
+import { getAllowedOrigins, getCsrfCookieToken, verifyCsrf } from "@/lib/csrf"
+import { forbidden, notFound, parseBody, unauthorized } from "@/lib/api-validation"
+import { getClientIp, logAudit } from "@/lib/audit"
+import { normalizeAccessibilityProfile } from "@/lib/accessibility/profile"
+import { accessibilityProfileSchema } from "@/lib/schemas/accessibility"
+
+type RouteParams = { params: Promise<{ studentId: string }> }
+
+type SessionLike = { user: { id: string; institutionId?: string | null } }
+
+const DEFAULT_SECTION_NAME = "__DEFAULT__"
+
+// Whether the student is actively enrolled in a class the teacher teaches, directly or through the course section
+const teachesStudent = async (teacherId: string, studentId: string) => {
+    const teaching = { some: { userId: teacherId, role: "TEACHER" as const, archivedAt: null } }
+    const enrollment = await prisma.enrollment.findFirst({
+        where: {
+            userId: studentId,
+            role: "STUDENT",
+            archivedAt: null,
+            class: {
+                archivedAt: null,
+                OR: [
+                    { enrollments: teaching },
+                    { course: { classes: { some: { name: DEFAULT_SECTION_NAME, archivedAt: null, enrollments: teaching } } } }
+                ]
+            }
+        },
+        select: { id: true }
+    })
+    return Boolean(enrollment)
+}
+
+// Students manage their own profile; admins can set it for students of their institution, teachers for the students they teach
+const loadEditableStudent = async (session: SessionLike, studentId: string) => {
+    const student = await prisma.user.findUnique({
+        where: { id: studentId },
+        select: { id: true, role: true, institutionId: true, accessibilityProfile: true }
+    })
+    if (!student) return null
+    if (student.id === session.user.id) return student
+    if (student.role !== "STUDENT") return null
+    if (isPlatformAdmin(session)) return student
+    if (!isTeacher(session) || !student.institutionId || student.institutionId !== session.user.institutionId) {
+        return null
+    }
+    if (isSchoolAdmin(session) || await teachesStudent(session.user.id, student.id)) return student
+    return null
+}
+
+// GET /api/students/[studentId]/accessibility
+export async function GET(req: NextRequest, { params }: RouteParams) {
+    const session = await getAuthSession(req)
+    if (!session?.user) return unauthorized()
+
+    const { studentId } = await params
+    const student = await loadEditableStudent(session, studentId)
+    if (!student) return notFound()
+
+    return NextResponse.json({ profile: normalizeAccessibilityProfile(student.accessibilityProfile) })
+}
+
+// PUT /api/students/[studentId]/accessibility - Replace the accessibility profile
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+    const session = await getAuthSession(req)
+    if (!session?.user) return unauthorized()
+
+    const csrfResult = verifyCsrf({
+        req,
+        cookieToken: getCsrfCookieToken(req),
+        headerToken: req.headers.get("x-csrf-token"),
+        allowedOrigins: getAllowedOrigins()
+    })
+    if (!csrfResult.ok) return forbidden("CSRF")
+
+    const { studentId } = await params
+    const student = await loadEditableStudent(session, studentId)
+    if (!student) return notFound()
+
+    const parsed = await parseBody(req, accessibilityProfileSchema)
+    if ("error" in parsed) return parsed.error
+
+    try {
+        await prisma.user.update({
+            where: { id: studentId },
+            data: { accessibilityProfile: parsed.data }
+        })
+
+        if (studentId !== session.user.id) {
+            logAudit({
+                action: "ACCESSIBILITY_UPDATE",
+                actorId: session.user.id,
+                institutionId: student.institutionId,
+                targetType: "USER",
+                targetId: studentId,
+                metadata: parsed.data,
+                ipAddress: getClientIp(req),
+            })
+        }
+
+        return NextResponse.json({ profile: parsed.data })
+    } catch (error) {
+        console.error("[API] Accessibility Profile Error:", error)
+        return NextResponse.json({ error: "Failed to save accessibility profile" }, { status: 500 })
+    }
+}
@@ -7,6 +7,9 @@ import { redirect } from "next/navigation"
 import { Exam, Segment } from "@/types/exams"
 import { parseContent } from "@/lib/content"
 import { getDraftVariantsForBaseExam } from "@/lib/exam-variants"
+import { parseCodeConfig } from "@/lib/grading/code-grader"
+import { parseQuestionParameters } from "@/lib/question-parameters"
+import { parseAnswerKey } from "@/lib/grading/answer-key"
 
 const DEFAULT_SECTION_NAME = '__DEFAULT__'
 
@@ -44,7 +47,7 @@ export default async function ExamBuilderPage({ params }: { params: Promise<{ ex
                             id: true,
                             name: true,
                             enrollments: {
-                                where: { role: 'TEACHER' },
+                                where: { role: 'TEACHER', archivedAt: null },
                                 include: {
                                     user: {
                                         select: { name: true }
@@ -117,6 +120,7 @@ export default async function ExamBuilderPage({ params }: { params: Promise<{ ex
         where: {
             userId: session.user.id,
             role: 'TEACHER',
+            archivedAt: null,
             class: { courseId: exam.courseId },
         },
         select: {
@@ -223,6 +227,9 @@ export default async function ExamBuilderPage({ params }: { params: Promise<{ ex
             questions: section.questions.map(question => ({
                 ...question,
                 studentTools: question.studentTools as any,
+                codeConfig: parseCodeConfig(question.codeConfig),
+                parameters: parseQuestionParameters(question.parameters),
+                answerKey: parseAnswerKey(question.type, question.answerKey),
                 content: parseContent(question.content),
                 answerTemplate: parseContent(question.answerTemplate),
                 answerTemplateLocked: Boolean(question.answerTemplateLocked),
@@ -3,13 +3,18 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
 import { usePolling } from '@/lib/usePolling'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, ChevronDown, Filter, FileDown, FileText, Eye, List, BarChart3, Shield } from 'lucide-react'
+import { ArrowLeft, ChevronDown, Filter, FileDown, FileText, Eye, List, BarChart3, Shield, Printer, ScanLine, MessageSquare, Users, EyeOff, CopyCheck, Gauge } from 'lucide-react'
 import { getCsrfToken } from '@/lib/csrfClient'
 import { GradeAllButton } from '@/components/grading/GradeAllButton'
 import { ExportProgressModal } from '@/components/export/ExportProgressModal'
 import { AttemptDetailModal } from '@/components/grading/AttemptDetailModal'
 import { GradingProgressModal } from '@/components/grading/GradingProgressModal'
 import { GradeDistributionPanel } from '@/components/grading/GradeDistributionPanel'
+import { PaperScanModal } from '@/components/grading/PaperScanModal'
+import { RegradeRequestsPanel } from '@/components/grading/RegradeRequestsPanel'
+import { GraderAssignmentModal } from '@/components/grading/GraderAssignmentModal'
+import { DoubleGradingPanel } from '@/components/grading/DoubleGradingPanel'
+import { CalibrationPanel } from '@/components/grading/CalibrationPanel'
 import { Button } from '@/components/ui/Button'
 import { Card, CardBody } from '@/components/ui/Card'
 import { Text } from '@/components/ui/Text'
@@ -35,6 +40,8 @@ interface AttemptSummary {
     gradedQuestionsCount: number
     isFullyGraded: boolean
     humanModifiedCount: number
+    assignees: { id: string; name: string | null; email: string }[]
+    myAssignment: { assigned: number; graded: number } | null
 }
 
 interface GradingDashboardProps {
@@ -56,8 +63,8 @@ interface GradingStatusData {
 
 type SortField = 'name' | 'submittedAt' | 'score'
 type SortOrder = 'asc' | 'desc'
-type FilterOption = 'all' | 'ungraded' | 'graded' | 'modified'
-type ViewMode = 'list' | 'stats' | 'proctoring'
+type FilterOption = 'all' | 'mine' | 'ungraded' | 'graded' | 'modified'
+type ViewMode = 'list' | 'stats' | 'proctoring' | 'regrades' | 'double' | 'calibration'
 
 interface ProctoringStudentSummary {
     attemptId: string
@@ -95,6 +102,11 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
     const [showActionsDropdown, setShowActionsDropdown] = useState(false)
     const [exportJobId, setExportJobId] = useState<string | null>(null)
     const [isStartingExport, setIsStartingExport] = useState(false)
+    const [showPaperScans, setShowPaperScans] = useState(false)
+    const [showGraderAssignment, setShowGraderAssignment] = useState(false)
+    const [assignmentMode, setAssignmentMode] = useState<'ATTEMPTS' | 'QUESTIONS' | null>(null)
+    const [anonymity, setAnonymity] = useState<{ enabled: boolean; identityHidden: boolean }>({ enabled: false, identityHidden: false })
+    const [isRevealing, setIsRevealing] = useState(false)
     const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null)
     const [showGradingProgress, setShowGradingProgress] = useState(false)
     const [viewMode, setViewMode] = useState<ViewMode>('list')
@@ -120,6 +132,8 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
             setGradesReleased(data.gradesReleased || false)
             setRubricStatus(data.rubricStatus)
             setGradingStatusData(data.gradingStatus)
+            setAssignmentMode(data.assignmentMode ?? null)
+            setAnonymity(data.anonymity ?? { enabled: false, identityHidden: false })
         } catch (error) {
             console.error('Error fetching attempts:', error)
         } finally {
@@ -172,6 +186,8 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
     // Filter attempts based on selected filter option
     const filteredAttempts = useMemo(() => {
         switch (filterOption) {
+            case 'mine':
+                return attempts.filter(a => a.myAssignment !== null)
             case 'ungraded':
                 return attempts.filter(a => a.status === 'SUBMITTED' || a.status === 'GRADING_IN_PROGRESS')
             case 'graded':
@@ -242,6 +258,47 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
             }))
     }, [attempts])
 
+    // Blind grading: the proctoring summary is not anonymized, show the pseudonym of the graded copy
+    const getProctoringStudentName = (item: ProctoringStudentSummary) => anonymity.identityHidden
+        ? attempts.find(a => a.attemptId === item.attemptId)?.student.name ?? 'Copie anonyme'
+        : item.student.name || 'Sans nom'
+
+    const handleCsvExport = (anonymized: boolean) => {
+        // Trigger CSV download (anonymized: pseudonym column instead of name and email)
+        const url = `/api/exams/${examId}/export/csv${anonymized ? '?anonymized=1' : ''}`
+        const link = document.createElement('a')
+        link.href = url
+        link.download = '' // Let server set filename
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        setShowActionsDropdown(false)
+    }
+
+    const handleRevealIdentities = async () => {
+        if (!window.confirm('Lever l\'anonymat ? Les noms des etudiants seront visibles par tous les correcteurs. Cette action est enregistree.')) {
+            return
+        }
+        setIsRevealing(true)
+        try {
+            const csrfToken = await getCsrfToken()
+            const res = await fetch(`/api/exams/${examId}/grading/reveal`, {
+                method: 'POST',
+                headers: { 'x-csrf-token': csrfToken }
+            })
+            if (!res.ok) {
+                setReleaseMessage({ type: 'error', text: 'Erreur lors de la levee de l\'anonymat' })
+                return
+            }
+            await fetchAttempts(false)
+        } catch (error) {
+            console.error('Error revealing identities:', error)
+            setReleaseMessage({ type: 'error', text: 'Erreur lors de la levee de l\'anonymat' })
+        } finally {
+            setIsRevealing(false)
+        }
+    }
+
     const handleReleaseResults = async () => {
         setIsReleasing(true)
         setReleaseMessage(null)
@@ -268,6 +325,11 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                     type: 'warning',
                     text: 'Toutes les copies ne sont pas encore corrigees.'
                 })
+            } else if (res.status === 400 && data.error === 'DOUBLE_GRADING_PENDING') {
+                setReleaseMessage({
+                    type: 'warning',
+                    text: data.message
+                })
             } else {
                 console.error('Release results error:', data)
                 setReleaseMessage({
@@ -316,9 +378,40 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
         }
     }
 
+    const handlePaperCopies = async () => {
+        setIsStartingExport(true)
+        setShowActionsDropdown(false)
+
+        try {
+            const csrfToken = await getCsrfToken()
+            const res = await fetch(`/api/exams/${examId}/paper/copies`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-csrf-token': csrfToken
+                },
+                body: JSON.stringify({})
+            })
+
+            if (res.ok) {
+                const data = await res.json()
+                setExportJobId(data.jobId)
+            } else {
+                console.error('Failed to start paper copies generation')
+                alert('Erreur lors de la generation des copies papier')
+            }
+        } catch (error) {
+            console.error('Paper copies error:', error)
+            alert('Erreur lors de la generation des copies papier')
+        } finally {
+            setIsStartingExport(false)
+        }
+    }
+
     const getFilterLabel = (filter: FilterOption) => {
         switch (filter) {
             case 'all': return 'Toutes les copies'
+            case 'mine': return 'Ma file de correction'
             case 'ungraded': return 'Non corrigees'
             case 'graded': return 'Corrigees'
             case 'modified': return 'Modifiees'
@@ -385,22 +478,21 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                 {showActionsDropdown && (
                                     <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
                                         <button
-                                            onClick={() => {
-                                                // Trigger CSV download
-                                                const url = `/api/exams/${examId}/export/csv`
-                                                const link = document.createElement('a')
-                                                link.href = url
-                                                link.download = '' // Let server set filename
-                                                document.body.appendChild(link)
-                                                link.click()
-                                                document.body.removeChild(link)
-                                                setShowActionsDropdown(false)
-                                            }}
+                                            onClick={() => handleCsvExport(false)}
                                             className="w-full px-4 py-2 text-left text-gray-700 flex items-center gap-2 hover:bg-gray-50"
                                         >
                                             <FileDown className="w-4 h-4" />
                                             Exporter les notes (CSV)
                                         </button>
+                                        {!anonymity.identityHidden && (
+                                            <button
+                                                onClick={() => handleCsvExport(true)}
+                                                className="w-full px-4 py-2 text-left text-gray-700 flex items-center gap-2 hover:bg-gray-50"
+                                            >
+                                                <EyeOff className="w-4 h-4" />
+                                                Exporter les notes anonymisees (CSV)
+                                            </button>
+                                        )}
                                         <button
                                             onClick={handlePdfExport}
                                             disabled={isStartingExport}
@@ -409,10 +501,37 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                             <FileText className="w-4 h-4" />
                                             {isStartingExport ? 'Demarrage...' : 'Telecharger rapport (PDF)'}
                                         </button>
+                                        <button
+                                            onClick={handlePaperCopies}
+                                            disabled={isStartingExport}
+                                            className="w-full px-4 py-2 text-left text-gray-700 flex items-center gap-2 hover:bg-gray-50 disabled:text-gray-400 border-t border-gray-100"
+                                        >
+                                            <Printer className="w-4 h-4" />
+                                            Imprimer les copies papier
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                setShowPaperScans(true)
+                                                setShowActionsDropdown(false)
+                                            }}
+                                            className="w-full px-4 py-2 text-left text-gray-700 flex items-center gap-2 hover:bg-gray-50"
+                                        >
+                                            <ScanLine className="w-4 h-4" />
+                                            Importer les copies scannees
+                                        </button>
                                     </div>
                                 )}
                             </div>
 
+                            <Button
+                                variant="secondary"
+                                onClick={() => setShowGraderAssignment(true)}
+                                disabled={gradesReleased}
+                            >
+                                <Users className="w-4 h-4" />
+                                Repartir la correction
+                            </Button>
+
                             {/* Publish button */}
                             <Button
                                 onClick={() => canPublish && !gradesReleased ? setShowPublishConfirm(true) : null}
@@ -511,12 +630,43 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                 value: 'proctoring',
                                 label: 'Anti-triche',
                                 icon: <Shield className="w-4 h-4" />
+                            },
+                            {
+                                value: 'regrades',
+                                label: 'Demandes de revision',
+                                icon: <MessageSquare className="w-4 h-4" />
+                            },
+                            {
+                                value: 'double',
+                                label: 'Double correction',
+                                icon: <CopyCheck className="w-4 h-4" />
+                            },
+                            {
+                                value: 'calibration',
+                                label: 'Calibration IA',
+                                icon: <Gauge className="w-4 h-4" />
                             }
                         ]}
                     />
                 </div>
 
                 {/* Release message */}
+                {anonymity.identityHidden && (
+                    <div className="mb-6 p-4 rounded-lg bg-indigo-50 border border-indigo-200">
+                        <Inline align="between" gap="md">
+                            <Inline align="start" gap="sm">
+                                <EyeOff className="w-5 h-5 text-indigo-600" />
+                                <Text variant="body" className="text-indigo-900">
+                                    Correction anonyme : les copies sont identifiees par un pseudonyme jusqu&apos;a la publication des notes.
+                                </Text>
+                            </Inline>
+                            <Button variant="secondary" size="xs" onClick={handleRevealIdentities} disabled={isRevealing}>
+                                {isRevealing ? 'Levee...' : 'Lever l\'anonymat'}
+                            </Button>
+                        </Inline>
+                    </div>
+                )}
+
                 {releaseMessage && (
                     <div
                         className={`mb-6 p-4 rounded-lg ${releaseMessage.type === 'success'
@@ -576,6 +726,25 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                     />
                 )}
 
+                {/* Regrade requests View - Student disputes to triage */}
+                {viewMode === 'regrades' && (
+                    <RegradeRequestsPanel
+                        examId={examId}
+                        onResolved={() => fetchAttempts(false)}
+                    />
+                )}
+
+                {viewMode === 'double' && (
+                    <DoubleGradingPanel
+                        examId={examId}
+                        onReconciled={() => fetchAttempts(false)}
+                    />
+                )}
+
+                {viewMode === 'calibration' && (
+                    <CalibrationPanel examId={examId} />
+                )}
+
                 {/* Proctoring View - Anti-cheat ranking */}
                 {viewMode === 'proctoring' && (
                     <>
@@ -619,8 +788,8 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                                 >
                                                     <td className="px-6 py-4 whitespace-nowrap">
                                                         <Stack gap="xs">
-                                                            <Text variant="body" className="font-medium">{item.student.name || 'Sans nom'}</Text>
-                                                            <Text variant="caption">{item.student.email}</Text>
+                                                            <Text variant="body" className="font-medium">{getProctoringStudentName(item)}</Text>
+                                                            {!anonymity.identityHidden && <Text variant="caption">{item.student.email}</Text>}
                                                         </Stack>
                                                     </td>
                                                     <td className="px-6 py-4 whitespace-nowrap">
@@ -681,7 +850,7 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                 </Button>
                                 {showFilterDropdown && (
                                     <div className="absolute left-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-10">
-                                        {(['all', 'ungraded', 'graded', 'modified'] as FilterOption[]).map((option) => (
+                                        {(['all', ...(assignmentMode ? ['mine'] : []), 'ungraded', 'graded', 'modified'] as FilterOption[]).map((option) => (
                                             <button
                                                 key={option}
                                                 onClick={() => {
@@ -749,13 +918,23 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                                                     <td className="px-6 py-4 whitespace-nowrap">
                                                         <Stack gap="xs">
                                                             <Text variant="body" className="font-medium">{attempt.student.name}</Text>
-                                                            <Text variant="caption">{attempt.student.email}</Text>
+                                                            {attempt.student.email && <Text variant="caption">{attempt.student.email}</Text>}
+                                                            {attempt.assignees.length > 0 && (
+                                                                <Text variant="xsMuted">
+                                                                    Correcteur{attempt.assignees.length > 1 ? 's' : ''} : {attempt.assignees.map(grader => grader.name || grader.email).join(', ')}
+                                                                </Text>
+                                                            )}
                                                         </Stack>
                                                     </td>
                                                     <td className="px-6 py-4 whitespace-nowrap">
                                                         <Stack gap="xs">
                                                             <Inline align="start" gap="xs">
                                                                 {getStatusLabel(attempt.status)}
+                                                                {attempt.myAssignment && (
+                                                                    <Badge variant={attempt.myAssignment.graded === attempt.myAssignment.assigned ? 'success' : 'info'}>
+                                                                        Ma part : {attempt.myAssignment.graded}/{attempt.myAssignment.assigned}
+                                                                    </Badge>
+                                                                )}
                                                                 {hasHumanModifications && (
                                                                     <Text
                                                                         variant="caption"
@@ -847,6 +1026,24 @@ export default function GradingDashboard({ examId, examTitle }: GradingDashboard
                 />
             )}
 
+            {/* Paper Scan Modal */}
+            {showPaperScans && (
+                <PaperScanModal
+                    examId={examId}
+                    onClose={() => setShowPaperScans(false)}
+                    onScanCompleted={() => fetchAttempts(false)}
+                />
+            )}
+
+            {/* Grader Assignment Modal */}
+            {showGraderAssignment && (
+                <GraderAssignmentModal
+                    examId={examId}
+                    onClose={() => setShowGraderAssignment(false)}
+                    onSaved={() => fetchAttempts(false)}
+                />
+            )}
+
             {/* Attempt Detail Modal */}
             {selectedAttemptId && (
                 <AttemptDetailModal
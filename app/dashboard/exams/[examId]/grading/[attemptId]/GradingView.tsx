@@ -2,17 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Check, ExternalLink, Clock, Pencil, Sparkles, UserCheck } from 'lucide-react'
+import { ArrowLeft, Check, ExternalLink, Clock, Pencil, Sparkles, UserCheck, Lock, EyeOff } from 'lucide-react'
 import Link from 'next/link'
 import { getCsrfToken } from '@/lib/csrfClient'
 import MathRenderer from '@/components/exams/MathRenderer'
 import GradeEditModal from '@/components/grading/GradeEditModal'
 import ReGradeButton from '@/components/grading/ReGradeButton'
+import CriteriaChecklist from '@/components/grading/CriteriaChecklist'
+import { scoreFromCriteria, toggleCriterion } from '@/lib/grading/criteria'
+import type { CodeTestResult, GradeCriterionResult } from '@/types/exams'
 
 interface GradingData {
     attempt: {
         id: string
         student: { name: string, email: string }
+        identityHidden: boolean
         startedAt: string
         submittedAt: string
         status: string
@@ -25,8 +29,12 @@ interface GradingData {
             title: string
             questions: {
                 id: string
+                type: 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
                 content: string
                 maxPoints: number
+                assignee: { id: string, name: string | null } | null
+                lockedBy: { id: string, name: string | null } | null
+                doubleGrading: { pending: boolean, gradeCount: number } | null
                 answer: {
                     id: string
                     segments: { id: string, content: string }[]
@@ -36,6 +44,8 @@ interface GradingData {
                     score: number
                     feedback: string | null
                     aiRationale: string | null
+                    testResults: CodeTestResult[] | null
+                    criteriaResults: GradeCriterionResult[] | null
                     isOverridden: boolean
                     gradedByUserId: string | null
                 } | null
@@ -72,6 +82,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
     // Local state for inputs to allow smooth typing
     const [grades, setGrades] = useState<Record<string, number>>({}) // questionId -> score
     const [feedbacks, setFeedbacks] = useState<Record<string, string>>({}) // questionId -> feedback
+    const [criteria, setCriteria] = useState<Record<string, GradeCriterionResult[]>>({}) // questionId -> criterion checklist
 
     // AI Grading State
     const [aiStatus, setAiStatus] = useState<{ type: 'success' | 'error', message: string } | null>(null)
@@ -91,9 +102,56 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
         currentScore: number
         currentFeedback: string
         aiRationale?: string
+        currentCriteria?: GradeCriterionResult[] | null
         isAiGrade: boolean
     } | null>(null)
 
+    const [lockErrors, setLockErrors] = useState<Record<string, string>>({}) // questionId -> message
+
+    // Grading lock on the answer being edited, so two graders do not overwrite each other
+    const requestGradingLock = useCallback(async (method: 'POST' | 'DELETE', answerId: string) => {
+        const csrfToken = await getCsrfToken()
+        return fetch(`/api/attempts/${attemptId}/grading/lock`, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                'x-csrf-token': csrfToken
+            },
+            body: JSON.stringify({ answerId })
+        })
+    }, [attemptId])
+
+    const openGradeEditor = async (question: NonNullable<typeof editingQuestion>) => {
+        setLockErrors(prev => ({ ...prev, [question.questionId]: '' }))
+        try {
+            const res = await requestGradingLock('POST', question.answerId)
+            if (res.status === 409) {
+                const data = await res.json()
+                setLockErrors(prev => ({
+                    ...prev,
+                    [question.questionId]: `En cours de correction par ${data.holder?.name || 'un autre correcteur'}`
+                }))
+                return
+            }
+        } catch (error) {
+            console.error('Failed to take grading lock', error)
+        }
+        setEditingQuestion(question)
+    }
+
+    const editingAnswerId = editingQuestion?.answerId
+    useEffect(() => {
+        if (!editingAnswerId) return
+        // Renew well before the server-side expiry, release when the editor closes
+        const renewal = setInterval(() => {
+            requestGradingLock('POST', editingAnswerId).catch(() => undefined)
+        }, 60000)
+        return () => {
+            clearInterval(renewal)
+            requestGradingLock('DELETE', editingAnswerId).catch(() => undefined)
+        }
+    }, [editingAnswerId, requestGradingLock])
+
     const handleAiGrading = async () => {
         setIsAiLoading(true)
         setAiStatus(null)
@@ -169,6 +227,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
     const initializeState = (data: GradingData) => {
         const initialGrades: Record<string, number> = {}
         const initialFeedbacks: Record<string, string> = {}
+        const initialCriteria: Record<string, GradeCriterionResult[]> = {}
         let score = 0
         let max = 0
 
@@ -178,6 +237,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                 if (q.grade) {
                     initialGrades[q.id] = q.grade.score
                     initialFeedbacks[q.id] = q.grade.feedback || ''
+                    if (q.grade.criteriaResults) initialCriteria[q.id] = q.grade.criteriaResults
                     score += q.grade.score
                 }
             })
@@ -185,6 +245,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
 
         setGrades(initialGrades)
         setFeedbacks(initialFeedbacks)
+        setCriteria(initialCriteria)
         setTotalScore(score)
         setTotalMaxPoints(max)
     }
@@ -216,7 +277,13 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
     }
 
     // Save function - uses server response to update local state
-    const saveGrade = useCallback(async (questionId: string, answerId: string, score: number, feedback: string) => {
+    const saveGrade = useCallback(async (
+        questionId: string,
+        answerId: string,
+        score: number,
+        feedback: string,
+        criteriaResults?: GradeCriterionResult[]
+    ) => {
         setSaving(prev => ({ ...prev, [questionId]: true }))
         setSaved(prev => ({ ...prev, [questionId]: false }))
 
@@ -231,7 +298,8 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                 body: JSON.stringify({
                     answerId,
                     score,
-                    feedback
+                    feedback,
+                    criteriaResults
                 })
             })
 
@@ -280,6 +348,15 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
         }
     }
 
+    // Toggling a criterion of the checklist saves the recomputed score right away
+    const handleToggleCriterion = (questionId: string, answerId: string, maxPoints: number, index: number) => {
+        const current = criteria[questionId]
+        if (!current) return
+        const next = toggleCriterion(current, index)
+        setCriteria(prev => ({ ...prev, [questionId]: next }))
+        saveGrade(questionId, answerId, scoreFromCriteria(next, maxPoints), feedbacks[questionId] || '', next)
+    }
+
     const handleFeedbackChange = (questionId: string, answerId: string, value: string) => {
         setFeedbacks(prev => ({ ...prev, [questionId]: value }))
     }
@@ -307,6 +384,12 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                             Back to Grading List
                         </button>
                         <h1 className="text-2xl font-bold text-gray-900">{data.attempt.student.name}</h1>
+                        {data.attempt.identityHidden && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-indigo-100 text-indigo-700 rounded">
+                                <EyeOff className="w-3 h-3" />
+                                Correction anonyme
+                            </span>
+                        )}
                         <p className="text-sm text-gray-500">{data.exam.title} • Submitted: {new Date(data.attempt.submittedAt).toLocaleString()}</p>
                     </div>
                     <div className="text-right">
@@ -315,13 +398,16 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                         </div>
                         <div className="text-sm text-gray-500">Total Score</div>
                         <div className="flex flex-col items-end mt-2 space-y-2">
-                            <Link
-                                href={`/dashboard/exams/${examId}/proctoring/${attemptId}`}
-                                target="_blank"
-                                className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
-                            >
-                                View Proctoring Log <ExternalLink className="w-3 h-3 ml-1" />
-                            </Link>
+                            {/* The proctoring log shows the student identity */}
+                            {!data.attempt.identityHidden && (
+                                <Link
+                                    href={`/dashboard/exams/${examId}/proctoring/${attemptId}`}
+                                    target="_blank"
+                                    className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                                >
+                                    View Proctoring Log <ExternalLink className="w-3 h-3 ml-1" />
+                                </Link>
+                            )}
 
                             <button
                                 onClick={handleAiGrading}
@@ -419,6 +505,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                             const currentFeedback = feedbacks[question.id] ?? ''
                             const isSaving = saving[question.id]
                             const isSaved = saved[question.id]
+                            const questionCriteria = criteria[question.id]
 
                             // Grade source badges
                             const isAiGrade = question.grade && question.grade.gradedByUserId === null && !question.grade.isOverridden
@@ -458,6 +545,25 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                                         Modifie par prof
                                                     </span>
                                                 )}
+                                                {question.assignee && (
+                                                    <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded">
+                                                        Correcteur : {question.assignee.name || 'sans nom'}
+                                                    </span>
+                                                )}
+                                                {question.doubleGrading?.pending && (
+                                                    <span
+                                                        className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-purple-100 text-purple-700 rounded"
+                                                        title="Votre note reste independante jusqu'a l'arbitrage du correcteur principal"
+                                                    >
+                                                        Double correction ({question.doubleGrading.gradeCount}/2)
+                                                    </span>
+                                                )}
+                                                {question.lockedBy && (
+                                                    <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-700 rounded">
+                                                        <Lock className="w-3 h-3" />
+                                                        En cours de correction par {question.lockedBy.name || 'un autre correcteur'}
+                                                    </span>
+                                                )}
                                             </div>
                                             <div className="text-lg text-gray-900 font-medium mb-4">
                                                 <MathRenderer text={question.content} />
@@ -465,7 +571,11 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                             <div className="bg-blue-50 p-4 rounded-md border border-blue-100">
                                                 <h4 className="text-xs font-bold text-blue-800 uppercase mb-1">Reponse de l&apos;etudiant</h4>
                                                 <div className="text-gray-800">
-                                                    {question.answer?.segments && question.answer.segments.length > 0 ? (
+                                                    {question.type === 'CODE' && question.answer?.segments?.length ? (
+                                                        <pre className="whitespace-pre overflow-x-auto font-mono text-xs bg-white p-2 rounded border border-blue-100">
+                                                            {question.answer.segments[0].content}
+                                                        </pre>
+                                                    ) : question.answer?.segments && question.answer.segments.length > 0 ? (
                                                         question.answer.segments.map((s, i) => (
                                                             <div key={s.id || i}>
                                                                 <MathRenderer text={s.content} />
@@ -476,6 +586,38 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                                     )}
                                                 </div>
                                             </div>
+                                            {question.grade?.testResults && question.grade.testResults.length > 0 && (
+                                                <div className="mt-3 rounded-md border border-gray-200 p-3">
+                                                    <h4 className="text-xs font-bold text-gray-700 uppercase mb-2">
+                                                        Tests ({question.grade.testResults.filter(result => result.passed).length}/{question.grade.testResults.length})
+                                                    </h4>
+                                                    <ul className="space-y-1 text-xs">
+                                                        {question.grade.testResults.map((result, resultIndex) => (
+                                                            <li key={result.testId} className="flex items-center justify-between gap-2">
+                                                                <span className="text-gray-700">
+                                                                    {result.name || `Test ${resultIndex + 1}`}
+                                                                    {result.hidden && <span className="ml-1 text-gray-400">(cache)</span>}
+                                                                </span>
+                                                                <span className={result.passed ? 'text-green-600' : 'text-red-600'}>
+                                                                    {result.status} · {result.durationMs} ms
+                                                                </span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )}
+                                            {questionCriteria && (
+                                                <div className="mt-3 rounded-md border border-gray-200 p-3">
+                                                    <h4 className="text-xs font-bold text-gray-700 uppercase mb-2">
+                                                        Criteres ({questionCriteria.filter(criterion => criterion.points >= criterion.maxPoints).length}/{questionCriteria.length})
+                                                    </h4>
+                                                    <CriteriaChecklist
+                                                        criteria={questionCriteria}
+                                                        onToggle={(criterionIndex) => handleToggleCriterion(question.id, answerId, question.maxPoints, criterionIndex)}
+                                                        disabled={isSaving || !!question.lockedBy}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
                                         <div className="ml-6 w-72 bg-gray-50 p-4 rounded-lg border border-gray-200">
                                             {/* Score display */}
@@ -503,7 +645,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                             <div className="flex flex-col gap-2">
                                                 <button
                                                     type="button"
-                                                    onClick={() => setEditingQuestion({
+                                                    onClick={() => openGradeEditor({
                                                         questionId: question.id,
                                                         answerId,
                                                         questionContent: question.content,
@@ -512,6 +654,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                                         currentScore,
                                                         currentFeedback,
                                                         aiRationale: question.grade?.aiRationale || undefined,
+                                                        currentCriteria: questionCriteria ?? null,
                                                         isAiGrade: !!isAiGrade
                                                     })}
                                                     className="inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded transition-colors"
@@ -519,6 +662,9 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                                                     <Pencil className="w-4 h-4" />
                                                     Modifier
                                                 </button>
+                                                {lockErrors[question.id] && (
+                                                    <span className="text-xs text-amber-700">{lockErrors[question.id]}</span>
+                                                )}
 
                                                 <ReGradeButton
                                                     attemptId={attemptId}
@@ -552,12 +698,13 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                 <GradeEditModal
                     isOpen={true}
                     onClose={() => setEditingQuestion(null)}
-                    onSave={async (score, feedback) => {
+                    onSave={async (score, feedback, criteriaResults) => {
                         await saveGrade(
                             editingQuestion.questionId,
                             editingQuestion.answerId,
                             score,
-                            feedback
+                            feedback,
+                            criteriaResults
                         )
                         // Update local state
                         setGrades(prev => ({ ...prev, [editingQuestion.questionId]: score }))
@@ -572,6 +719,7 @@ export default function GradingView({ examId, attemptId }: GradingViewProps) {
                     currentScore={editingQuestion.currentScore}
                     currentFeedback={editingQuestion.currentFeedback}
                     aiRationale={editingQuestion.aiRationale}
+                    currentCriteria={editingQuestion.currentCriteria}
                     isAiGrade={editingQuestion.isAiGrade}
                 />
             )}
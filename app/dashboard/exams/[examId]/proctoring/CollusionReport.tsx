@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Inline, Stack, Surface } from "@/components/ui/Layout"
+import { Badge } from "@/components/ui/Badge"
+import { Text } from "@/components/ui/Text"
+
+interface CollusionEvidence {
+    questionId: string
+    kind: 'TEXT' | 'CODE' | 'MCQ'
+    similarity: number
+    pasteCorrelated: boolean
+    excerpts: [string, string] | null
+}
+
+interface CollusionPair {
+    attemptIds: [string, string]
+    score: number
+    evidence: CollusionEvidence[]
+}
+
+interface CollusionCluster {
+    attemptIds: string[]
+    pairCount: number
+    maxScore: number
+}
+
+interface CollusionReportData {
+    comparedAttempts: number
+    students: Record<string, { id: string; name: string | null; email: string }>
+    questions: Record<string, string>
+    clusters: CollusionCluster[]
+    totalPairs: number
+    pairs: CollusionPair[]
+}
+
+interface CollusionReportProps {
+    examId: string
+}
+
+const KIND_LABELS: Record<CollusionEvidence['kind'], string> = {
+    TEXT: 'texte',
+    CODE: 'code',
+    MCQ: 'même erreur QCM',
+}
+
+export default function CollusionReport({ examId }: CollusionReportProps) {
+    const router = useRouter()
+    const [report, setReport] = useState<CollusionReportData | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState(false)
+    const [expandedPair, setExpandedPair] = useState<string | null>(null)
+
+    useEffect(() => {
+        fetch(`/api/exams/${examId}/collusion-report`)
+            .then(res => res.ok ? res.json() : Promise.reject('Failed'))
+            .then((data: CollusionReportData) => setReport(data))
+            .catch(err => {
+                console.error('Error fetching collusion report:', err)
+                setError(true)
+            })
+            .finally(() => setLoading(false))
+    }, [examId])
+
+    if (loading) {
+        return <div className="p-8 text-center text-gray-500">Analyse des copies...</div>
+    }
+
+    if (error || !report) {
+        return (
+            <Surface className="text-center py-12">
+                <Text variant="muted">Le rapport de similarité n&apos;a pas pu être calculé.</Text>
+            </Surface>
+        )
+    }
+
+    const studentName = (attemptId: string) => {
+        const student = report.students[attemptId]
+        return student ? student.name || student.email : 'Étudiant'
+    }
+
+    const questionLabel = (questionId: string) => report.questions[questionId] ?? '?'
+
+    const openAttempt = (attemptId: string) => router.push(`/dashboard/exams/${examId}/proctoring/${attemptId}`)
+
+    return (
+        <Stack gap="lg">
+            <Text variant="muted">
+                {report.comparedAttempts} copie{report.comparedAttempts > 1 ? 's' : ''} comparée{report.comparedAttempts > 1 ? 's' : ''} deux à deux :
+                réponses rédigées et code similaires (hors passages communs à la plupart des copies) et mêmes erreurs peu fréquentes aux QCM.
+                Une similarité n&apos;est pas une preuve : lisez les réponses avant toute décision.
+            </Text>
+
+            {report.pairs.length === 0 ? (
+                <Surface className="text-center py-12">
+                    <Text variant="muted">Aucune similarité suspecte entre les copies.</Text>
+                </Surface>
+            ) : (
+                <>
+                    <Surface className="p-4 shadow-sm">
+                        <Text variant="sectionTitle" className="mb-3">
+                            Groupes d&apos;étudiants ({report.clusters.length})
+                        </Text>
+                        <Stack gap="sm">
+                            {report.clusters.map((cluster, index) => (
+                                <div key={cluster.attemptIds.join('|')} className="flex flex-wrap items-center gap-2 text-sm">
+                                    <Text as="span" variant="caption" className="font-semibold">Groupe {index + 1}</Text>
+                                    {cluster.attemptIds.map(attemptId => (
+                                        <button
+                                            key={attemptId}
+                                            type="button"
+                                            className="rounded-full border border-gray-200 px-2 py-0.5 text-gray-900 hover:bg-gray-50"
+                                            onClick={() => openAttempt(attemptId)}
+                                        >
+                                            {studentName(attemptId)}
+                                        </button>
+                                    ))}
+                                    <Text as="span" variant="xsMuted">
+                                        {cluster.pairCount} paire{cluster.pairCount > 1 ? 's' : ''} - score max {cluster.maxScore}
+                                    </Text>
+                                </div>
+                            ))}
+                        </Stack>
+                    </Surface>
+
+                    <Surface className="p-4 shadow-sm">
+                        <Text variant="sectionTitle" className="mb-3">
+                            Paires suspectes ({report.totalPairs})
+                        </Text>
+                        {report.totalPairs > report.pairs.length && (
+                            <Text variant="xsMuted" className="mb-3">
+                                Les {report.pairs.length} paires les plus suspectes sont affichées.
+                            </Text>
+                        )}
+                        <Stack gap="sm">
+                            {report.pairs.map(pair => {
+                                const key = pair.attemptIds.join('|')
+                                const expanded = expandedPair === key
+                                return (
+                                    <div key={key} className="rounded-lg border border-gray-200 p-3">
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                            <Inline gap="sm" align="start">
+                                                <button type="button" className="font-medium text-gray-900 hover:underline" onClick={() => openAttempt(pair.attemptIds[0])}>
+                                                    {studentName(pair.attemptIds[0])}
+                                                </button>
+                                                <Text as="span" variant="xsMuted">et</Text>
+                                                <button type="button" className="font-medium text-gray-900 hover:underline" onClick={() => openAttempt(pair.attemptIds[1])}>
+                                                    {studentName(pair.attemptIds[1])}
+                                                </button>
+                                            </Inline>
+                                            <Inline gap="sm" align="start">
+                                                <Badge variant={pair.score >= 15 ? 'warning' : 'neutral'}>Score {pair.score}</Badge>
+                                                <button
+                                                    type="button"
+                                                    className="text-xs font-medium text-brand-900 hover:underline"
+                                                    aria-expanded={expanded}
+                                                    onClick={() => setExpandedPair(expanded ? null : key)}
+                                                >
+                                                    {expanded ? 'Masquer les réponses' : 'Comparer les réponses'}
+                                                </button>
+                                            </Inline>
+                                        </div>
+                                        <div className="mt-2 flex flex-wrap gap-2">
+                                            {pair.evidence.map(evidence => (
+                                                <Badge key={`${evidence.questionId}-${evidence.kind}`} variant="info">
+                                                    Q{questionLabel(evidence.questionId)} {KIND_LABELS[evidence.kind]}
+                                                    {evidence.kind !== 'MCQ' && ` ${Math.round(evidence.similarity * 100)}%`}
+                                                    {evidence.pasteCorrelated && ' - collage externe'}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                        {expanded && (
+                                            <Stack gap="sm" className="mt-3">
+                                                {pair.evidence.filter(evidence => evidence.excerpts).map(evidence => (
+                                                    <div key={evidence.questionId}>
+                                                        <Text variant="overline" className="mb-1">Question {questionLabel(evidence.questionId)}</Text>
+                                                        <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+                                                            {evidence.excerpts!.map((excerpt, index) => (
+                                                                <Surface key={index} tone="subtle" className="p-2">
+                                                                    <Text variant="xsMuted" className="mb-1">{studentName(pair.attemptIds[index])}</Text>
+                                                                    <pre className="whitespace-pre-wrap break-words text-xs text-gray-800">{excerpt}</pre>
+                                                                </Surface>
+                                                            ))}
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                                {pair.evidence.every(evidence => !evidence.excerpts) && (
+                                                    <Text variant="xsMuted">
+                                                        Mêmes choix erronés aux questions {pair.evidence.map(evidence => questionLabel(evidence.questionId)).join(', ')}.
+                                                    </Text>
+                                                )}
+                                            </Stack>
+                                        )}
+                                    </div>
+                                )
+                            })}
+                        </Stack>
+                    </Surface>
+                </>
+            )}
+        </Stack>
+    )
+}
@@ -1,12 +1,17 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { useRouter } from "next/navigation"
-import { ArrowLeft, CheckCircle, Clock, XCircle } from "lucide-react"
-import { Surface } from "@/components/ui/Layout"
+import { ArrowLeft, CheckCircle, Clock, PauseCircle, XCircle } from "lucide-react"
+import { Inline, Stack, Surface } from "@/components/ui/Layout"
 import { Badge } from "@/components/ui/Badge"
 import { Button } from "@/components/ui/Button"
 import { Text } from "@/components/ui/Text"
+import { SegmentedControl } from "@/components/ui/SegmentedControl"
+import { formatPresenceAge, isPresent } from "@/lib/proctoring/liveState"
+import { isInterventionEvent } from "@/lib/proctoring/interventions"
+import { useLiveProctoring } from "@/lib/proctoring/useLiveProctoring"
+import CollusionReport from "./CollusionReport"
 
 interface StudentSummary {
     attemptId: string
@@ -17,6 +22,8 @@ interface StudentSummary {
     }
     startedAt: string
     submittedAt: string | null
+    deadlineAt: string
+    hasAccommodation: boolean
     status: string
     eventCounts: Record<string, number>
     totalEvents: number
@@ -28,6 +35,7 @@ interface StudentSummary {
         totalAnswers: number
     }
     externalPastes: number
+    internalPastes: number
 }
 
 interface ProctoringSummaryProps {
@@ -39,9 +47,11 @@ interface ProctoringSummaryProps {
 export default function ProctoringSummary({ examId, examTitle, courseCode }: ProctoringSummaryProps) {
     const router = useRouter()
     const [summary, setSummary] = useState<StudentSummary[]>([])
+    const [questions, setQuestions] = useState<Record<string, string>>({})
     const [loading, setLoading] = useState(true)
     const [sortBy, setSortBy] = useState<'score' | 'name' | 'status'>('score')
     const [sortDesc, setSortDesc] = useState(true)
+    const [tab, setTab] = useState<'monitoring' | 'collusion'>('monitoring')
 
     const fetchSummary = useCallback(async () => {
         try {
@@ -49,6 +59,7 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
             if (res.ok) {
                 const data = await res.json()
                 setSummary(data.summary || [])
+                setQuestions(data.questions || {})
             } else {
                 console.error('Failed to fetch proctoring summary')
             }
@@ -63,6 +74,46 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
         fetchSummary()
     }, [fetchSummary])
 
+    const { state: live, connected, now } = useLiveProctoring(examId)
+
+    // A student who starts the exam after the page was loaded is fetched once
+    const requestedAttemptIds = useRef(new Set<string>())
+    useEffect(() => {
+        if (loading) return
+        const knownIds = new Set(summary.map(item => item.attemptId))
+        const unknownIds = Object.keys(live.attempts).filter(
+            attemptId => !knownIds.has(attemptId) && !requestedAttemptIds.current.has(attemptId)
+        )
+        if (unknownIds.length === 0) return
+        unknownIds.forEach(attemptId => requestedAttemptIds.current.add(attemptId))
+        fetchSummary()
+    }, [live.attempts, summary, loading, fetchSummary])
+
+    // A pause, resume or extension changes the status and deadline: fetch them again
+    const handledInterventionIds = useRef(new Set<string>())
+    useEffect(() => {
+        const interventions = live.feed.filter(
+            event => isInterventionEvent(event.type) && !handledInterventionIds.current.has(event.id)
+        )
+        if (interventions.length === 0) return
+        interventions.forEach(event => handledInterventionIds.current.add(event.id))
+        fetchSummary()
+    }, [live.feed, fetchSummary])
+
+    // Pushed analyses and submissions replace the fetched values
+    const rows = summary.map((item): StudentSummary => {
+        const liveAttempt = live.attempts[item.attemptId]
+        if (!liveAttempt) return item
+        const submittedAt = item.submittedAt ?? liveAttempt.submittedAt ?? null
+        return {
+            ...item,
+            ...liveAttempt.analysis,
+            submittedAt,
+            status: submittedAt ? 'submitted' : item.status
+        }
+    })
+    const studentNames = new Map(summary.map(item => [item.attemptId, item.student.name || item.student.email]))
+
     const getSuspicionColor = (score: number) => {
         if (score === 0) return 'bg-green-100 text-green-800'
         if (score <= 3) return 'bg-yellow-100 text-yellow-800'
@@ -83,6 +134,8 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
                 return <CheckCircle className="w-4 h-4 text-green-600" />
             case 'in_progress':
                 return <Clock className="w-4 h-4 text-blue-600" />
+            case 'paused':
+                return <PauseCircle className="w-4 h-4 text-amber-600" />
             case 'expired':
                 return <XCircle className="w-4 h-4 text-red-600" />
             default:
@@ -96,6 +149,8 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
                 return 'Soumis'
             case 'in_progress':
                 return 'En cours'
+            case 'paused':
+                return 'En pause'
             case 'expired':
                 return 'Expiré'
             default:
@@ -103,7 +158,61 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
         }
     }
 
-    const sortedSummary = [...summary].sort((a, b) => {
+    const getEventLabel = (type: string) => {
+        switch (type) {
+            case 'FOCUS_LOST':
+                return 'Perte de focus'
+            case 'FOCUS_GAINED':
+                return 'Retour au focus'
+            case 'TAB_SWITCH':
+                return 'Changement d\'onglet'
+            case 'FULLSCREEN_EXIT':
+                return 'Sortie plein écran'
+            case 'INACTIVITY':
+                return 'Inactivité'
+            case 'MULTI_SESSION':
+                return 'Sessions simultanées'
+            case 'COPY':
+                return 'Copie'
+            case 'PASTE':
+                return 'Collage'
+            case 'PROCTOR_MESSAGE':
+                return 'Message du surveillant'
+            case 'PROCTOR_WARNING':
+                return 'Avertissement du surveillant'
+            case 'PROCTOR_PAUSE':
+                return 'Mise en pause'
+            case 'PROCTOR_RESUME':
+                return 'Reprise'
+            case 'PROCTOR_EXTEND':
+                return 'Temps supplémentaire'
+            case 'PROCTOR_TERMINATE':
+                return 'Copie rendue par le surveillant'
+            default:
+                return type
+        }
+    }
+
+    const renderPresence = (item: StudentSummary) => {
+        if (item.status !== 'in_progress' && item.status !== 'paused') {
+            return <Text variant="xsMuted">-</Text>
+        }
+        const presence = live.attempts[item.attemptId]?.presence
+        const questionLabel = presence?.questionId ? questions[presence.questionId] : undefined
+        return (
+            <Stack gap="xs">
+                {presence && isPresent(presence, now) ? (
+                    <Badge variant="success" className="w-fit">Connecté</Badge>
+                ) : (
+                    <Badge variant="neutral" className="w-fit">Hors ligne</Badge>
+                )}
+                {questionLabel && <Text variant="caption">Question {questionLabel}</Text>}
+                {presence && <Text variant="xsMuted">{formatPresenceAge(presence, now)}</Text>}
+            </Stack>
+        )
+    }
+
+    const sortedSummary = [...rows].sort((a, b) => {
         let comparison = 0
         if (sortBy === 'score') {
             comparison = a.antiCheatScore - b.antiCheatScore
@@ -146,125 +255,199 @@ export default function ProctoringSummary({ examId, examTitle, courseCode }: Pro
                         Télécharger le rapport anti-triche (CSV)
                     </a>
                 </div>
+                <div className="mt-4">
+                    <SegmentedControl
+                        value={tab}
+                        onChange={setTab}
+                        options={[
+                            { value: 'monitoring', label: 'Surveillance' },
+                            { value: 'collusion', label: 'Similarités entre copies' },
+                        ]}
+                    />
+                </div>
             </div>
 
-            {summary.length === 0 ? (
-                <Surface className="text-center py-12">
-                    <Text variant="muted">Aucune tentative enregistrée pour cet examen.</Text>
-                </Surface>
+            {tab === 'collusion' ? (
+                <CollusionReport examId={examId} />
             ) : (
-                <Surface className="overflow-hidden shadow-sm">
-                    <table className="min-w-full divide-y divide-gray-200">
-                        <thead className="bg-gray-50">
-                            <tr>
-                                <th
-                                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                                    onClick={() => {
-                                        if (sortBy === 'name') setSortDesc(!sortDesc)
-                                        else { setSortBy('name'); setSortDesc(false) }
-                                    }}
-                                >
-                                    Étudiant {sortBy === 'name' && (sortDesc ? '↓' : '↑')}
-                                </th>
-                                <th
-                                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                                    onClick={() => {
-                                        if (sortBy === 'status') setSortDesc(!sortDesc)
-                                        else { setSortBy('status'); setSortDesc(false) }
-                                    }}
-                                >
-                                    Statut {sortBy === 'status' && (sortDesc ? '↓' : '↑')}
-                                </th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                    Événements
-                                </th>
-                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                    Patterns
-                                </th>
-                                <th
-                                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
-                                    onClick={() => {
-                                        if (sortBy === 'score') setSortDesc(!sortDesc)
-                                        else { setSortBy('score'); setSortDesc(true) }
-                                    }}
-                                >
-                                    Score de suspicion (heuristique) {sortBy === 'score' && (sortDesc ? '↓' : '↑')}
-                                </th>
-                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                    Actions
-                                </th>
-                            </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-gray-200">
-                            {sortedSummary.map((item) => (
-                                <tr key={item.attemptId} className="hover:bg-gray-50">
-                                    <td className="px-6 py-4">
-                                        <div className="text-sm font-medium text-gray-900">
-                                            {item.student.name || 'Sans nom'}
-                                        </div>
-                                        <div className="text-xs text-gray-500">{item.student.email}</div>
-                                    </td>
-                                    <td className="px-6 py-4 whitespace-nowrap">
-                                        <div className="flex items-center">
-                                            {getStatusIcon(item.status)}
-                                            <span className="ml-2 text-sm text-gray-700">
-                                                {getStatusLabel(item.status)}
-                                            </span>
-                                        </div>
-                                    </td>
-                                    <td className="px-6 py-4">
-                                        <div className="text-xs text-gray-600 space-y-1">
-                                            <div>FOCUS_LOST: {item.eventCounts.FOCUS_LOST || 0}</div>
-                                            <div>TAB_SWITCH: {item.eventCounts.TAB_SWITCH || 0}</div>
-                                            <div>FOCUS_GAINED: {item.eventCounts.FOCUS_GAINED || 0}</div>
-                                            <div>COPY: {item.eventCounts.COPY || 0}</div>
-                                            <div>PASTE: {item.eventCounts.PASTE || 0}</div>
-                                            <div className="font-medium">Total: {item.totalEvents}</div>
-                                        </div>
-                                    </td>
-                                    <td className="px-6 py-4">
-                                        <div className="flex flex-col gap-2">
-                                            {item.focusLossPattern.flag === 'SUSPICIOUS' && (
-                                                <Badge variant="warning" className="w-fit bg-orange-50 text-orange-700 border-orange-200">
-                                                    Focus suspect
-                                                </Badge>
-                                            )}
-                                            {item.focusLossPattern.flag === 'HIGHLY_SUSPICIOUS' && (
-                                                <Badge className="w-fit bg-red-50 text-red-700 border-red-200">
-                                                    Focus très suspect
-                                                </Badge>
-                                            )}
-                                            {item.externalPastes > 0 && (
-                                                <Badge className="w-fit bg-purple-50 text-purple-700 border-purple-200">
-                                                    {item.externalPastes} collage{item.externalPastes > 1 ? 's' : ''} externe{item.externalPastes > 1 ? 's' : ''}
-                                                </Badge>
-                                            )}
-                                            {item.focusLossPattern.totalAnswers > 0 && (
-                                                <Text variant="xsMuted" className="mt-1">
-                                                    {item.focusLossPattern.suspiciousPairs}/{item.focusLossPattern.totalAnswers} réponses après perte de focus
-                                                </Text>
-                                            )}
-                                        </div>
-                                    </td>
-                                    <td className="px-6 py-4 whitespace-nowrap">
-                                        <span className={`px-3 py-1 inline-flex text-sm font-semibold rounded-full ${getSuspicionColor(item.antiCheatScore)}`}>
-                                            {item.antiCheatScore} - {getSuspicionLabel(item.antiCheatScore)}
-                                        </span>
-                                    </td>
-                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                        <Button
-                                            variant="ghost"
-                                            size="sm"
-                                            onClick={() => router.push(`/dashboard/exams/${examId}/proctoring/${item.attemptId}`)}
+                <>
+                    <Surface className="p-4 mb-6 shadow-sm">
+                        <Inline gap="sm" align="start" className="mb-3">
+                            <Text variant="sectionTitle">Événements en direct</Text>
+                            <Badge variant={connected ? 'success' : 'warning'}>
+                                {connected ? 'En direct' : 'Reconnexion...'}
+                            </Badge>
+                        </Inline>
+                        {live.feed.length === 0 ? (
+                            <Text variant="muted">Aucun événement depuis l&apos;ouverture de cette page.</Text>
+                        ) : (
+                            <Stack gap="xs" className="max-h-60 overflow-y-auto">
+                                {live.feed.map(event => (
+                                    <div key={event.id} className="flex items-center gap-3 text-sm">
+                                        <Text as="span" variant="xsMuted" className="font-mono">
+                                            {new Date(event.timestamp).toLocaleTimeString('fr-FR')}
+                                        </Text>
+                                        <button
+                                            type="button"
+                                            className="font-medium text-gray-900 hover:underline"
+                                            onClick={() => router.push(`/dashboard/exams/${examId}/proctoring/${event.attemptId}`)}
+                                        >
+                                            {studentNames.get(event.attemptId) ?? 'Étudiant'}
+                                        </button>
+                                        <span className="text-gray-700">{getEventLabel(event.type)}</span>
+                                        {event.type === 'PASTE' && event.metadata?.isExternal === true && (
+                                            <Badge className="bg-purple-50 text-purple-700 border-purple-200">Externe</Badge>
+                                        )}
+                                    </div>
+                                ))}
+                            </Stack>
+                        )}
+                    </Surface>
+
+                    {summary.length === 0 ? (
+                        <Surface className="text-center py-12">
+                            <Text variant="muted">Aucune tentative enregistrée pour cet examen.</Text>
+                        </Surface>
+                    ) : (
+                        <Surface className="overflow-hidden shadow-sm">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th
+                                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                                            onClick={() => {
+                                                if (sortBy === 'name') setSortDesc(!sortDesc)
+                                                else { setSortBy('name'); setSortDesc(false) }
+                                            }}
+                                        >
+                                            Étudiant {sortBy === 'name' && (sortDesc ? '↓' : '↑')}
+                                        </th>
+                                        <th
+                                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                                            onClick={() => {
+                                                if (sortBy === 'status') setSortDesc(!sortDesc)
+                                                else { setSortBy('status'); setSortDesc(false) }
+                                            }}
+                                        >
+                                            Statut {sortBy === 'status' && (sortDesc ? '↓' : '↑')}
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Connexion
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Événements
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Patterns
+                                        </th>
+                                        <th
+                                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                                            onClick={() => {
+                                                if (sortBy === 'score') setSortDesc(!sortDesc)
+                                                else { setSortBy('score'); setSortDesc(true) }
+                                            }}
                                         >
-                                            Détails
-                                        </Button>
-                                    </td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                </Surface>
+                                            Score de suspicion (heuristique) {sortBy === 'score' && (sortDesc ? '↓' : '↑')}
+                                        </th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Actions
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {sortedSummary.map((item) => (
+                                        <tr key={item.attemptId} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4">
+                                                <div className="text-sm font-medium text-gray-900">
+                                                    {item.student.name || 'Sans nom'}
+                                                </div>
+                                                <div className="text-xs text-gray-500">{item.student.email}</div>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                <div className="flex items-center">
+                                                    {getStatusIcon(item.status)}
+                                                    <span className="ml-2 text-sm text-gray-700">
+                                                        {getStatusLabel(item.status)}
+                                                    </span>
+                                                </div>
+                                                {(item.status === 'in_progress' || item.status === 'paused') && (
+                                                    <Text variant="xsMuted" className="mt-1">
+                                                        Fin : {new Date(item.deadlineAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                                                    </Text>
+                                                )}
+                                                {item.hasAccommodation && (
+                                                    <Badge variant="info" className="mt-1 w-fit">
+                                                        Temps aménagé
+                                                    </Badge>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                {renderPresence(item)}
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <div className="text-xs text-gray-600 space-y-1">
+                                                    <div>FOCUS_LOST: {item.eventCounts.FOCUS_LOST || 0}</div>
+                                                    <div>TAB_SWITCH: {item.eventCounts.TAB_SWITCH || 0}</div>
+                                                    <div>FOCUS_GAINED: {item.eventCounts.FOCUS_GAINED || 0}</div>
+                                                    <div>COPY: {item.eventCounts.COPY || 0}</div>
+                                                    <div>PASTE: {item.eventCounts.PASTE || 0}</div>
+                                                    {(item.eventCounts.FULLSCREEN_EXIT || 0) > 0 && (
+                                                        <div>FULLSCREEN_EXIT: {item.eventCounts.FULLSCREEN_EXIT}</div>
+                                                    )}
+                                                    {(item.eventCounts.INACTIVITY || 0) > 0 && (
+                                                        <div>INACTIVITY: {item.eventCounts.INACTIVITY}</div>
+                                                    )}
+                                                    {(item.eventCounts.MULTI_SESSION || 0) > 0 && (
+                                                        <div className="font-medium text-red-700">MULTI_SESSION: {item.eventCounts.MULTI_SESSION}</div>
+                                                    )}
+                                                    <div className="font-medium">Total: {item.totalEvents}</div>
+                                                </div>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <div className="flex flex-col gap-2">
+                                                    {item.focusLossPattern.flag === 'SUSPICIOUS' && (
+                                                        <Badge variant="warning" className="w-fit bg-orange-50 text-orange-700 border-orange-200">
+                                                            Focus suspect
+                                                        </Badge>
+                                                    )}
+                                                    {item.focusLossPattern.flag === 'HIGHLY_SUSPICIOUS' && (
+                                                        <Badge className="w-fit bg-red-50 text-red-700 border-red-200">
+                                                            Focus très suspect
+                                                        </Badge>
+                                                    )}
+                                                    {item.externalPastes > 0 && (
+                                                        <Badge className="w-fit bg-purple-50 text-purple-700 border-purple-200">
+                                                            {item.externalPastes} collage{item.externalPastes > 1 ? 's' : ''} externe{item.externalPastes > 1 ? 's' : ''}
+                                                        </Badge>
+                                                    )}
+                                                    {item.focusLossPattern.totalAnswers > 0 && (
+                                                        <Text variant="xsMuted" className="mt-1">
+                                                            {item.focusLossPattern.suspiciousPairs}/{item.focusLossPattern.totalAnswers} réponses après perte de focus
+                                                        </Text>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                <span className={`px-3 py-1 inline-flex text-sm font-semibold rounded-full ${getSuspicionColor(item.antiCheatScore)}`}>
+                                                    {item.antiCheatScore} - {getSuspicionLabel(item.antiCheatScore)}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => router.push(`/dashboard/exams/${examId}/proctoring/${item.attemptId}`)}
+                                                >
+                                                    Détails
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </Surface>
+                    )}
+                </>
             )}
         </div>
     )
@@ -0,0 +1,366 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Pause, Play } from "lucide-react"
+import { Surface, Stack, Inline } from "@/components/ui/Layout"
+import { Badge } from "@/components/ui/Badge"
+import { Button } from "@/components/ui/Button"
+import { Select } from "@/components/ui/Form"
+import { Text } from "@/components/ui/Text"
+import { getCsrfToken } from "@/lib/csrfClient"
+import { parseContent, segmentsToLatexString } from "@/lib/content"
+import { computeRevisionDiff, isRevisionDiff, rebuildRevisionContents } from "@/lib/answerRevisions"
+
+interface RevisionData {
+    sequence: number
+    savedAt: string
+    diff: unknown
+    snapshot: string | null
+    restoredFromSequence: number | null
+}
+
+interface SegmentHistory {
+    answerSegmentId: string
+    questionId: string
+    questionType: string
+    segmentId: string
+    segmentOrder: number
+    revisions: RevisionData[]
+}
+
+interface TimelineEvent {
+    id: string
+    type: string
+    timestamp: string
+    metadata: Record<string, unknown> | null
+}
+
+interface AnswerReplayProps {
+    attemptId: string
+    startedAt: string
+    restorable: boolean
+    events: TimelineEvent[]
+    questionLabels: Record<string, string>
+    getEventLabel: (type: string) => string
+}
+
+// Text inserted by a single autosave from this length on is shown as a large insertion
+const LARGE_INSERTION_LENGTH = 80
+const PLAYBACK_INTERVAL_MS = 400
+// Events that may explain how an answer changed
+const ALERT_EVENT_TYPES = new Set(['FOCUS_LOST', 'TAB_SWITCH', 'FULLSCREEN_EXIT', 'MULTI_SESSION', 'PASTE'])
+
+const toDisplayText = (content: string, questionType: string) =>
+    questionType === 'TEXT' ? segmentsToLatexString(parseContent(content)) : content
+
+const getInsertedLength = (revision: RevisionData) =>
+    isRevisionDiff(revision.diff) ? revision.diff[2].length : 0
+
+/**
+ * Replay of how the answers were written: one autosave per step, synchronized
+ * with the proctoring events, and restoration of an earlier version once the
+ * attempt is submitted
+ */
+export default function AnswerReplay({ attemptId, startedAt, restorable, events, questionLabels, getEventLabel }: AnswerReplayProps) {
+    const [history, setHistory] = useState<SegmentHistory[] | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState(false)
+    const [reloadKey, setReloadKey] = useState(0)
+    const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null)
+    // null follows the latest version
+    const [position, setPosition] = useState<number | null>(null)
+    const [playing, setPlaying] = useState(false)
+    const [restoring, setRestoring] = useState(false)
+    const [restoreMessage, setRestoreMessage] = useState<{ ok: boolean; text: string } | null>(null)
+
+    useEffect(() => {
+        fetch(`/api/attempts/${attemptId}/revisions`)
+            .then(res => res.ok ? res.json() : Promise.reject('Failed'))
+            .then((data: { segments: SegmentHistory[] }) => {
+                setHistory(data.segments)
+                setError(false)
+            })
+            .catch(err => {
+                console.error('Error fetching answer revisions:', err)
+                setError(true)
+            })
+            .finally(() => setLoading(false))
+    }, [attemptId, reloadKey])
+
+    const selected = history?.find(segment => segment.answerSegmentId === selectedSegmentId) ?? history?.[0] ?? null
+    const versions = useMemo(() => selected ? rebuildRevisionContents(selected.revisions) : [], [selected])
+    const lastIndex = versions.length - 1
+    const index = position === null ? lastIndex : Math.min(position, lastIndex)
+
+    // Playback stops by itself on the latest version
+    const isPlaying = playing && index < lastIndex
+
+    useEffect(() => {
+        if (!isPlaying) return
+        const timer = setInterval(() => {
+            setPosition(current => Math.min((current ?? lastIndex) + 1, lastIndex))
+        }, PLAYBACK_INTERVAL_MS)
+        return () => clearInterval(timer)
+    }, [isPlaying, lastIndex])
+
+    const times = useMemo(() => versions.map(version => new Date(version.savedAt).getTime()), [versions])
+
+    // Markers are placed on the version saved just before them, like the slider
+    const markers = useMemo(() => {
+        if (times.length === 0) return []
+        const indexAt = (time: number) => {
+            let found = 0
+            times.forEach((savedAt, versionIndex) => {
+                if (savedAt <= time) found = versionIndex
+            })
+            return found
+        }
+        const eventMarkers = events
+            .filter(event => ALERT_EVENT_TYPES.has(event.type))
+            .map(event => ({
+                key: event.id,
+                index: indexAt(new Date(event.timestamp).getTime()),
+                label: getEventLabel(event.type),
+                className: event.type === 'PASTE' ? 'bg-pink-500' : 'bg-red-500',
+            }))
+        const insertionMarkers = versions
+            .map((version, versionIndex) => ({ version, versionIndex }))
+            .filter(({ version }) => getInsertedLength(version) >= LARGE_INSERTION_LENGTH)
+            .map(({ version, versionIndex }) => ({
+                key: `insertion-${version.sequence}`,
+                index: versionIndex,
+                label: `Insertion de ${getInsertedLength(version)} caractères`,
+                className: 'bg-purple-500',
+            }))
+        return [...insertionMarkers, ...eventMarkers]
+    }, [events, versions, times, getEventLabel])
+
+    const formatRelativeTime = (timestamp: string) => {
+        const diffSec = Math.max(0, Math.floor((new Date(timestamp).getTime() - new Date(startedAt).getTime()) / 1000))
+        return `+${Math.floor(diffSec / 60)}m ${diffSec % 60}s`
+    }
+
+    const selectSegment = (answerSegmentId: string) => {
+        setSelectedSegmentId(answerSegmentId)
+        setPosition(null)
+        setPlaying(false)
+    }
+
+    const togglePlayback = () => {
+        if (!isPlaying && index >= lastIndex) {
+            setPosition(0)
+        }
+        setPlaying(!isPlaying)
+    }
+
+    const reload = () => {
+        setLoading(true)
+        setReloadKey(key => key + 1)
+    }
+
+    const restore = async (answerSegmentId: string, sequence: number) => {
+        if (!confirm(`Restaurer la version ${sequence} ? Elle remplacera la réponse actuelle, l'historique est conservé. La note déjà attribuée n'est pas recalculée.`)) return
+        setRestoring(true)
+        setRestoreMessage(null)
+        try {
+            const csrfToken = await getCsrfToken()
+            const res = await fetch(`/api/attempts/${attemptId}/revisions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+                body: JSON.stringify({ answerSegmentId, sequence })
+            })
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}))
+                setRestoreMessage({
+                    ok: false,
+                    text: data.error === 'ATTEMPT_IN_PROGRESS'
+                        ? 'La copie est en cours : une version ne peut être restaurée qu\'après la remise.'
+                        : 'La version n\'a pas pu être restaurée.'
+                })
+                return
+            }
+            setRestoreMessage({ ok: true, text: `Version ${sequence} restaurée.` })
+            setPosition(null)
+            reload()
+        } catch (err) {
+            console.error('Failed to restore answer revision:', err)
+            setRestoreMessage({ ok: false, text: 'La version n\'a pas pu être restaurée.' })
+        } finally {
+            setRestoring(false)
+        }
+    }
+
+    const segmentLabel = (segment: SegmentHistory) => {
+        const label = `Question ${questionLabels[segment.questionId] ?? '?'}`
+        const parts = history?.filter(other => other.questionId === segment.questionId) ?? []
+        return parts.length > 1 ? `${label} - partie ${parts.indexOf(segment) + 1}` : label
+    }
+
+    const renderBody = () => {
+        if (loading) {
+            return <Text variant="muted" className="text-center py-4">Chargement...</Text>
+        }
+        if (error || !history) {
+            return <Text variant="muted" className="text-center py-4">L&apos;historique des réponses n&apos;a pas pu être chargé.</Text>
+        }
+        if (!selected || versions.length === 0) {
+            return <Text variant="muted" className="text-center py-4">Aucune réponse rédigée enregistrée.</Text>
+        }
+
+        const version = versions[index]
+        const previous = index > 0 ? versions[index - 1] : null
+        const text = toDisplayText(version.content, selected.questionType)
+        const [start, deleted, inserted] = computeRevisionDiff(
+            previous ? toDisplayText(previous.content, selected.questionType) : '',
+            text
+        )
+        const insertedLength = getInsertedLength(version)
+        const previousTime = previous ? times[index - 1] : new Date(startedAt).getTime()
+        const eventsSincePrevious = events.filter(event => {
+            const time = new Date(event.timestamp).getTime()
+            return time > previousTime && time <= times[index]
+        })
+
+        return (
+            <Stack gap="md">
+                <Inline gap="sm" align="start">
+                    <Text variant="overline">Version {index + 1} / {versions.length}</Text>
+                    <Text as="span" variant="xsMuted">
+                        {formatRelativeTime(version.savedAt)} - {new Date(version.savedAt).toLocaleTimeString('fr-FR')}
+                    </Text>
+                    {insertedLength >= LARGE_INSERTION_LENGTH && (
+                        <Badge variant="warning">Insertion de {insertedLength} caractères</Badge>
+                    )}
+                    {version.restoredFromSequence !== null && (
+                        <Badge variant="info">Restaurée depuis la version {version.restoredFromSequence}</Badge>
+                    )}
+                </Inline>
+
+                <div>
+                    <div className="relative h-3 mx-2" aria-hidden="true">
+                        {markers.map(marker => (
+                            <button
+                                key={marker.key}
+                                type="button"
+                                tabIndex={-1}
+                                title={marker.label}
+                                className={`absolute top-0.5 h-2 w-2 -translate-x-1/2 rounded-full ${marker.className}`}
+                                style={{ left: `${lastIndex > 0 ? (marker.index / lastIndex) * 100 : 0}%` }}
+                                onClick={() => {
+                                    setPlaying(false)
+                                    setPosition(marker.index)
+                                }}
+                            />
+                        ))}
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={lastIndex}
+                        value={index}
+                        onChange={(event) => {
+                            setPlaying(false)
+                            setPosition(Number(event.target.value))
+                        }}
+                        aria-label="Version de la réponse"
+                        className="w-full accent-brand-900"
+                    />
+                    <Inline gap="sm">
+                        <Button variant="secondary" size="sm" disabled={index === 0} onClick={() => { setPlaying(false); setPosition(index - 1) }}>
+                            Précédente
+                        </Button>
+                        <Button variant="secondary" size="sm" disabled={lastIndex === 0} onClick={togglePlayback}>
+                            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            {isPlaying ? 'Pause' : 'Rejouer'}
+                        </Button>
+                        <Button variant="secondary" size="sm" disabled={index === lastIndex} onClick={() => { setPlaying(false); setPosition(index + 1) }}>
+                            Suivante
+                        </Button>
+                        <Text as="span" variant="xsMuted">
+                            <span className="inline-block h-2 w-2 rounded-full bg-red-500 mr-1" />événement
+                            <span className="inline-block h-2 w-2 rounded-full bg-pink-500 ml-3 mr-1" />collage
+                            <span className="inline-block h-2 w-2 rounded-full bg-purple-500 ml-3 mr-1" />insertion importante
+                        </Text>
+                    </Inline>
+                </div>
+
+                {eventsSincePrevious.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Text as="span" variant="xsMuted">Depuis la version précédente :</Text>
+                        {eventsSincePrevious.map(event => (
+                            <Badge
+                                key={event.id}
+                                variant={ALERT_EVENT_TYPES.has(event.type) ? 'warning' : 'neutral'}
+                            >
+                                {getEventLabel(event.type)}
+                                {event.type === 'PASTE' && event.metadata?.isExternal === true && ' externe'}
+                            </Badge>
+                        ))}
+                    </div>
+                )}
+
+                <Surface tone="subtle" className="p-3">
+                    <pre className="whitespace-pre-wrap break-words text-sm text-gray-900 max-h-96 overflow-y-auto">
+                        {text.slice(0, start)}
+                        {inserted && <mark className="bg-green-100 text-gray-900">{inserted}</mark>}
+                        {text.slice(start + inserted.length)}
+                    </pre>
+                    {deleted > 0 && (
+                        <Text variant="xsMuted" className="mt-2">
+                            {deleted} caractère{deleted > 1 ? 's' : ''} supprimé{deleted > 1 ? 's' : ''} depuis la version précédente
+                        </Text>
+                    )}
+                </Surface>
+
+                {restorable && index < lastIndex && (
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        className="w-fit"
+                        disabled={restoring}
+                        onClick={() => restore(selected.answerSegmentId, version.sequence)}
+                    >
+                        Restaurer cette version
+                    </Button>
+                )}
+            </Stack>
+        )
+    }
+
+    return (
+        <Surface className="p-6 mb-6 shadow-sm">
+            <Inline gap="sm" align="start" className="mb-4 justify-between">
+                <Text variant="sectionTitle">Historique des réponses</Text>
+                <Inline gap="sm" align="start">
+                    {history && history.length > 0 && (
+                        <Select
+                            size="sm"
+                            value={selected?.answerSegmentId ?? ''}
+                            onChange={(event) => selectSegment(event.target.value)}
+                            aria-label="Réponse"
+                        >
+                            {history.map(segment => (
+                                <option key={segment.answerSegmentId} value={segment.answerSegmentId}>
+                                    {segmentLabel(segment)} ({segment.revisions.length} versions)
+                                </option>
+                            ))}
+                        </Select>
+                    )}
+                    <Button variant="ghost" size="sm" disabled={loading} onClick={reload}>
+                        Actualiser
+                    </Button>
+                </Inline>
+            </Inline>
+            {renderBody()}
+            {restoreMessage && (
+                <Text
+                    variant="muted"
+                    className={`mt-3 ${restoreMessage.ok ? 'text-green-700' : 'text-red-700'}`}
+                    role="status"
+                >
+                    {restoreMessage.text}
+                </Text>
+            )}
+        </Surface>
+    )
+}
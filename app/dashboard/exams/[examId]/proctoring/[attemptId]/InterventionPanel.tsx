@@ -0,0 +1,225 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Surface, Stack, Inline } from "@/components/ui/Layout"
+import { Badge } from "@/components/ui/Badge"
+import { Button } from "@/components/ui/Button"
+import { Input, Textarea } from "@/components/ui/Form"
+import { Text } from "@/components/ui/Text"
+import { getCsrfToken } from "@/lib/csrfClient"
+import type { ProctorIntervention } from "@/lib/proctoring/interventions"
+
+interface InterventionPanelProps {
+    attemptId: string
+    paused: boolean
+    extensionMinutes: number
+    deadlineAt: string | null
+}
+
+const INTERVENTION_ERRORS: Record<string, string> = {
+    ATTEMPT_NOT_IN_PROGRESS: 'La copie a déjà été rendue.',
+    ATTEMPT_ALREADY_PAUSED: 'La copie est déjà en pause.',
+    ATTEMPT_NOT_PAUSED: 'La copie n\'est pas en pause.',
+    ATTEMPT_STATE_CHANGED: 'La copie vient de changer, réessayez.',
+}
+
+/**
+ * Proctor actions on an attempt in progress: message, warning, pause and
+ * resume, extra time, forced submission
+ */
+export default function InterventionPanel({ attemptId, paused, extensionMinutes, deadlineAt }: InterventionPanelProps) {
+    const router = useRouter()
+    const [message, setMessage] = useState('')
+    const [pauseMessage, setPauseMessage] = useState('')
+    const [minutes, setMinutes] = useState('10')
+    const [extendReason, setExtendReason] = useState('')
+    const [terminateReason, setTerminateReason] = useState('')
+    const [pending, setPending] = useState<ProctorIntervention['action'] | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [confirmation, setConfirmation] = useState<string | null>(null)
+
+    const send = async (intervention: ProctorIntervention, onSuccess: () => void, successLabel: string) => {
+        setPending(intervention.action)
+        setError(null)
+        setConfirmation(null)
+        try {
+            const csrfToken = await getCsrfToken()
+            const res = await fetch(`/api/attempts/${attemptId}/interventions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'x-csrf-token': csrfToken },
+                body: JSON.stringify(intervention)
+            })
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}))
+                setError(INTERVENTION_ERRORS[data.error] ?? 'L\'action n\'a pas pu être envoyée.')
+                return
+            }
+            onSuccess()
+            setConfirmation(successLabel)
+            router.refresh()
+        } catch (err) {
+            console.error('Failed to send proctor intervention:', err)
+            setError('L\'action n\'a pas pu être envoyée.')
+        } finally {
+            setPending(null)
+        }
+    }
+
+    const parsedMinutes = Number.parseInt(minutes, 10)
+    const minutesValid = Number.isInteger(parsedMinutes) && parsedMinutes >= 1 && parsedMinutes <= 240
+
+    return (
+        <Surface className="p-6 mb-6 shadow-sm">
+            <Inline gap="sm" align="start" className="mb-4">
+                <Text variant="sectionTitle">Interventions</Text>
+                {paused && <Badge variant="warning">En pause</Badge>}
+                {extensionMinutes > 0 && <Badge variant="info">+{extensionMinutes} min</Badge>}
+            </Inline>
+            {deadlineAt && (
+                <Text variant="muted" className="mb-4">
+                    Fin prévue : {new Date(deadlineAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                    {paused && ' (décalée tant que la pause dure)'}
+                </Text>
+            )}
+
+            <Stack gap="lg">
+                <Stack gap="sm">
+                    <Text variant="overline">Message à l&apos;étudiant</Text>
+                    <Textarea
+                        value={message}
+                        onChange={(event) => setMessage(event.target.value)}
+                        maxLength={1000}
+                        placeholder="Le message s'affiche sur l'écran de l'étudiant jusqu'à ce qu'il le ferme"
+                        className="min-h-[72px]"
+                    />
+                    <Inline gap="sm">
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={!message.trim() || pending !== null}
+                            onClick={() => send({ action: 'MESSAGE', message: message.trim() }, () => setMessage(''), 'Message envoyé.')}
+                        >
+                            Envoyer le message
+                        </Button>
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            className="border-amber-300 text-amber-800"
+                            disabled={!message.trim() || pending !== null}
+                            onClick={() => send({ action: 'WARNING', message: message.trim() }, () => setMessage(''), 'Avertissement envoyé.')}
+                        >
+                            Envoyer un avertissement
+                        </Button>
+                    </Inline>
+                </Stack>
+
+                <Stack gap="sm">
+                    <Text variant="overline">Pause</Text>
+                    {paused ? (
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            className="w-fit"
+                            disabled={pending !== null}
+                            onClick={() => send({ action: 'RESUME' }, () => undefined, 'La copie a repris.')}
+                        >
+                            Reprendre
+                        </Button>
+                    ) : (
+                        <Inline gap="sm">
+                            <Input
+                                size="sm"
+                                value={pauseMessage}
+                                onChange={(event) => setPauseMessage(event.target.value)}
+                                maxLength={1000}
+                                placeholder="Message affiché pendant la pause (facultatif)"
+                                className="max-w-md"
+                            />
+                            <Button
+                                variant="secondary"
+                                size="sm"
+                                disabled={pending !== null}
+                                onClick={() => send(
+                                    { action: 'PAUSE', message: pauseMessage.trim() || undefined },
+                                    () => setPauseMessage(''),
+                                    'Copie mise en pause : le temps est suspendu.'
+                                )}
+                            >
+                                Mettre en pause
+                            </Button>
+                        </Inline>
+                    )}
+                </Stack>
+
+                <Stack gap="sm">
+                    <Text variant="overline">Temps supplémentaire</Text>
+                    <Inline gap="sm">
+                        <Input
+                            size="sm"
+                            type="number"
+                            min={1}
+                            max={240}
+                            value={minutes}
+                            onChange={(event) => setMinutes(event.target.value)}
+                            className="w-24"
+                            aria-label="Minutes"
+                        />
+                        <Input
+                            size="sm"
+                            value={extendReason}
+                            onChange={(event) => setExtendReason(event.target.value)}
+                            maxLength={1000}
+                            placeholder="Motif (facultatif)"
+                            className="max-w-md"
+                        />
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={!minutesValid || pending !== null}
+                            onClick={() => send(
+                                { action: 'EXTEND', minutes: parsedMinutes, reason: extendReason.trim() || undefined },
+                                () => setExtendReason(''),
+                                `${parsedMinutes} min ajoutée${parsedMinutes > 1 ? 's' : ''}.`
+                            )}
+                        >
+                            Ajouter
+                        </Button>
+                    </Inline>
+                </Stack>
+
+                <Stack gap="sm">
+                    <Text variant="overline">Arrêter la copie</Text>
+                    <Inline gap="sm">
+                        <Input
+                            size="sm"
+                            value={terminateReason}
+                            onChange={(event) => setTerminateReason(event.target.value)}
+                            maxLength={1000}
+                            placeholder="Motif communiqué à l'étudiant"
+                            className="max-w-md"
+                        />
+                        <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={!terminateReason.trim() || pending !== null}
+                            onClick={() => {
+                                if (!confirm('Rendre la copie maintenant ? L\'étudiant ne pourra plus la modifier.')) return
+                                send(
+                                    { action: 'TERMINATE', reason: terminateReason.trim() },
+                                    () => setTerminateReason(''),
+                                    'La copie a été rendue.'
+                                )
+                            }}
+                        >
+                            Rendre la copie
+                        </Button>
+                    </Inline>
+                </Stack>
+
+                {error && <Text variant="muted" className="text-red-700" role="alert">{error}</Text>}
+                {confirmation && <Text variant="muted" className="text-green-700" role="status">{confirmation}</Text>}
+            </Stack>
+        </Surface>
+    )
+}
@@ -1,12 +1,17 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useRouter } from "next/navigation"
 import { ArrowLeft } from "lucide-react"
 import { Surface, Stack, Grid, Inline } from "@/components/ui/Layout"
 import { Badge } from "@/components/ui/Badge"
 import { Button } from "@/components/ui/Button"
 import { Text } from "@/components/ui/Text"
+import { formatPresenceAge, isPresent } from "@/lib/proctoring/liveState"
+import { isInterventionEvent } from "@/lib/proctoring/interventions"
+import { useLiveProctoring } from "@/lib/proctoring/useLiveProctoring"
+import InterventionPanel from "./InterventionPanel"
+import AnswerReplay from "./AnswerReplay"
 
 interface ProctoringHistoryEntry {
     attemptId: string
@@ -31,6 +36,9 @@ interface AttemptData {
     startedAt: string
     submittedAt: string | null
     status: string
+    pausedAt: string | null
+    extensionMinutes: number
+    deadlineAt: string | null
     student: {
         id: string
         name: string | null
@@ -59,12 +67,29 @@ interface AttemptData {
 interface ProctoringDetailProps {
     attempt: AttemptData
     examId: string
+    questionLabels: Record<string, string>
 }
 
-export default function ProctoringDetail({ attempt, examId }: ProctoringDetailProps) {
+export default function ProctoringDetail({ attempt, examId, questionLabels }: ProctoringDetailProps) {
     const router = useRouter()
     const [history, setHistory] = useState<ProctoringHistoryEntry[]>([])
     const [historyLoading, setHistoryLoading] = useState(true)
+    const { state: live, connected, now } = useLiveProctoring(examId)
+
+    // Events received since the page was loaded are appended to the timeline
+    const liveAttempt = live.attempts[attempt.id]
+    const proctorEvents = useMemo(() => {
+        const knownIds = new Set(attempt.proctorEvents.map(event => event.id))
+        const liveEvents = live.feed
+            .filter(event => event.attemptId === attempt.id && !knownIds.has(event.id))
+            .reverse()
+        return [...attempt.proctorEvents, ...liveEvents]
+    }, [attempt.proctorEvents, attempt.id, live.feed])
+    const { focusLossPattern, externalPastes, internalPastes, antiCheatScore } = liveAttempt?.analysis ?? attempt
+    const submittedAt = attempt.submittedAt ?? liveAttempt?.submittedAt ?? null
+    const presence = liveAttempt?.presence
+    // The proctor's own actions are in the timeline but not in the statistics
+    const studentEvents = proctorEvents.filter(event => !isInterventionEvent(event.type))
 
     useEffect(() => {
         fetch(`/api/students/${attempt.student.id}/proctoring-history`)
@@ -113,10 +138,22 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                 return 'bg-orange-50 border-orange-200 text-orange-800'
             case 'FULLSCREEN_EXIT':
                 return 'bg-yellow-50 border-yellow-200 text-yellow-800'
+            case 'INACTIVITY':
+                return 'bg-slate-50 border-slate-200 text-slate-800'
+            case 'MULTI_SESSION':
+                return 'bg-red-100 border-red-300 text-red-900'
             case 'COPY':
                 return 'bg-purple-50 border-purple-200 text-purple-800'
             case 'PASTE':
                 return 'bg-pink-50 border-pink-200 text-pink-800'
+            case 'PROCTOR_WARNING':
+            case 'PROCTOR_TERMINATE':
+                return 'bg-amber-50 border-amber-300 text-amber-900'
+            case 'PROCTOR_MESSAGE':
+            case 'PROCTOR_PAUSE':
+            case 'PROCTOR_RESUME':
+            case 'PROCTOR_EXTEND':
+                return 'bg-indigo-50 border-indigo-200 text-indigo-800'
             default:
                 return 'bg-gray-50 border-gray-200 text-gray-800'
         }
@@ -132,10 +169,26 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                 return 'Changement d\'onglet'
             case 'FULLSCREEN_EXIT':
                 return 'Sortie plein écran'
+            case 'INACTIVITY':
+                return 'Inactivité'
+            case 'MULTI_SESSION':
+                return 'Sessions simultanées'
             case 'COPY':
                 return 'Copie'
             case 'PASTE':
                 return 'Collage'
+            case 'PROCTOR_MESSAGE':
+                return 'Message du surveillant'
+            case 'PROCTOR_WARNING':
+                return 'Avertissement du surveillant'
+            case 'PROCTOR_PAUSE':
+                return 'Mise en pause'
+            case 'PROCTOR_RESUME':
+                return 'Reprise'
+            case 'PROCTOR_EXTEND':
+                return 'Temps supplémentaire'
+            case 'PROCTOR_TERMINATE':
+                return 'Copie rendue par le surveillant'
             default:
                 return type
         }
@@ -198,12 +251,44 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                     <Stack gap="xs">
                         <Text variant="overline">Soumission</Text>
                         <Text variant="muted">
-                            {attempt.submittedAt ? formatTimestamp(attempt.submittedAt) : 'Non soumis'}
+                            {submittedAt ? formatTimestamp(submittedAt) : 'Non soumis'}
                         </Text>
                     </Stack>
+                    {!submittedAt && (
+                        <Stack gap="xs">
+                            <Inline gap="sm" align="start">
+                                <Text variant="overline">Connexion</Text>
+                                <Badge variant={connected ? 'info' : 'warning'}>
+                                    {connected ? 'En direct' : 'Reconnexion...'}
+                                </Badge>
+                            </Inline>
+                            {presence && isPresent(presence, now) ? (
+                                <Badge variant="success" className="w-fit">Connecté</Badge>
+                            ) : (
+                                <Badge variant="neutral" className="w-fit">Hors ligne</Badge>
+                            )}
+                            {presence && (
+                                <Text variant="muted">
+                                    {presence.questionId && questionLabels[presence.questionId]
+                                        ? `Question ${questionLabels[presence.questionId]} - `
+                                        : ''}
+                                    dernier signal {formatPresenceAge(presence, now)}
+                                </Text>
+                            )}
+                        </Stack>
+                    )}
                 </Grid>
             </Surface>
 
+            {attempt.status === 'IN_PROGRESS' && !submittedAt && (
+                <InterventionPanel
+                    attemptId={attempt.id}
+                    paused={attempt.pausedAt !== null}
+                    extensionMinutes={attempt.extensionMinutes}
+                    deadlineAt={attempt.deadlineAt}
+                />
+            )}
+
             {/* Pattern Analysis */}
             <Surface className="p-6 mb-6 shadow-sm">
                 <Text variant="sectionTitle" className="mb-4">Analyse des patterns</Text>
@@ -211,38 +296,38 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                     <Stack gap="xs">
                         <Text variant="overline">Pattern de perte de focus</Text>
                         <div className="flex items-center gap-2">
-                            {attempt.focusLossPattern.flag === 'NONE' && (
+                            {focusLossPattern.flag === 'NONE' && (
                                 <Badge variant="success">Aucun pattern suspect</Badge>
                             )}
-                            {attempt.focusLossPattern.flag === 'SUSPICIOUS' && (
+                            {focusLossPattern.flag === 'SUSPICIOUS' && (
                                 <Badge variant="warning" className="bg-orange-50 text-orange-700 border-orange-200">
                                     Pattern suspect
                                 </Badge>
                             )}
-                            {attempt.focusLossPattern.flag === 'HIGHLY_SUSPICIOUS' && (
+                            {focusLossPattern.flag === 'HIGHLY_SUSPICIOUS' && (
                                 <Badge className="bg-red-50 text-red-700 border-red-200">
                                     Pattern très suspect
                                 </Badge>
                             )}
                         </div>
-                        {attempt.focusLossPattern.totalAnswers > 0 && (
+                        {focusLossPattern.totalAnswers > 0 && (
                             <Text variant="muted">
-                                {attempt.focusLossPattern.suspiciousPairs} réponse{attempt.focusLossPattern.suspiciousPairs > 1 ? 's' : ''} sur {attempt.focusLossPattern.totalAnswers} précédée{attempt.focusLossPattern.suspiciousPairs > 1 ? 's' : ''} d'une perte de focus ({(attempt.focusLossPattern.ratio * 100).toFixed(0)}%)
+                                {focusLossPattern.suspiciousPairs} réponse{focusLossPattern.suspiciousPairs > 1 ? 's' : ''} sur {focusLossPattern.totalAnswers} précédée{focusLossPattern.suspiciousPairs > 1 ? 's' : ''} d'une perte de focus ({(focusLossPattern.ratio * 100).toFixed(0)}%)
                             </Text>
                         )}
                     </Stack>
                     <Stack gap="xs">
                         <Text variant="overline">Collages externes</Text>
-                        <Text variant="sectionTitle">{attempt.externalPastes}</Text>
-                        {(attempt.externalPastes + attempt.internalPastes) > 0 && (
+                        <Text variant="sectionTitle">{externalPastes}</Text>
+                        {(externalPastes + internalPastes) > 0 && (
                             <Text variant="muted">
-                                {attempt.externalPastes} externe{attempt.externalPastes > 1 ? 's' : ''} / {attempt.externalPastes + attempt.internalPastes} total ({((attempt.externalPastes / (attempt.externalPastes + attempt.internalPastes)) * 100).toFixed(0)}%)
+                                {externalPastes} externe{externalPastes > 1 ? 's' : ''} / {externalPastes + internalPastes} total ({((externalPastes / (externalPastes + internalPastes)) * 100).toFixed(0)}%)
                             </Text>
                         )}
                     </Stack>
                     <Stack gap="xs">
                         <Text variant="overline">Score anti-triche amélioré</Text>
-                        <Text variant="sectionTitle">{attempt.antiCheatScore}</Text>
+                        <Text variant="sectionTitle">{antiCheatScore}</Text>
                         <Text variant="muted">
                             Score incluant patterns de focus et collages externes
                         </Text>
@@ -255,7 +340,7 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                 <Text variant="sectionTitle" className="mb-4">Statistiques des événements</Text>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     {Object.entries(
-                        attempt.proctorEvents.reduce((acc, event) => {
+                        studentEvents.reduce((acc, event) => {
                             acc[event.type] = (acc[event.type] || 0) + 1
                             return acc
                         }, {} as Record<string, number>)
@@ -266,7 +351,7 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                         </Surface>
                     ))}
                     <Surface className="text-center p-3 bg-indigo-50">
-                        <Text as="p" className="text-2xl font-bold text-indigo-900">{attempt.proctorEvents.length}</Text>
+                        <Text as="p" className="text-2xl font-bold text-indigo-900">{studentEvents.length}</Text>
                         <Text variant="xsMuted" className="mt-1 text-indigo-600">Total</Text>
                     </Surface>
                 </div>
@@ -339,17 +424,26 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                 )}
             </Surface>
 
+            <AnswerReplay
+                attemptId={attempt.id}
+                startedAt={attempt.startedAt}
+                restorable={attempt.status !== 'IN_PROGRESS' || submittedAt !== null}
+                events={proctorEvents}
+                questionLabels={questionLabels}
+                getEventLabel={getEventLabel}
+            />
+
             {/* Timeline */}
             <Surface className="p-6 shadow-sm">
                 <Text variant="sectionTitle" className="mb-4">
-                    Chronologie des événements ({attempt.proctorEvents.length})
+                    Chronologie des événements ({proctorEvents.length})
                 </Text>
 
-                {attempt.proctorEvents.length === 0 ? (
+                {proctorEvents.length === 0 ? (
                     <Text variant="muted" className="text-center py-8">Aucun événement enregistré.</Text>
                 ) : (
                     <Stack gap="sm">
-                        {attempt.proctorEvents.map((event, index) => {
+                        {proctorEvents.map((event, index) => {
                             const isExternal = event.type === 'PASTE' && getMetadataBoolean(event.metadata, 'isExternal')
                             const isPaste = event.type === 'PASTE'
                             const borderClass = isPaste
@@ -402,6 +496,32 @@ export default function ProctoringDetail({ attempt, examId }: ProctoringDetailPr
                                                         Selection: {getMetadataNumber(event.metadata, 'selectionLength')} chars
                                                     </span>
                                                 )}
+                                                {getMetadataNumber(event.metadata, 'thresholdMinutes') !== null && (
+                                                    <span className="mr-3">
+                                                        Aucune activité depuis {getMetadataNumber(event.metadata, 'thresholdMinutes')} min
+                                                    </span>
+                                                )}
+                                                {Array.isArray(event.metadata.concurrentSessionIds) && (
+                                                    <span className="mr-3">
+                                                        {event.metadata.concurrentSessionIds.length + 1} pages ouvertes en même temps
+                                                    </span>
+                                                )}
+                                                {getMetadataNumber(event.metadata, 'minutes') !== null && (
+                                                    <span className="mr-3">
+                                                        +{getMetadataNumber(event.metadata, 'minutes')} min
+                                                    </span>
+                                                )}
+                                                {getMetadataString(event.metadata, 'message') && (
+                                                    <p className="whitespace-pre-line">
+                                                        {getMetadataString(event.metadata, 'message')}
+                                                    </p>
+                                                )}
+                                                {getMetadataString(event.metadata, 'reason') && (
+                                                    <p>Motif : {getMetadataString(event.metadata, 'reason')}</p>
+                                                )}
+                                                {getMetadataString(event.metadata, 'actorName') && (
+                                                    <p className="opacity-75">Par {getMetadataString(event.metadata, 'actorName')}</p>
+                                                )}
                                             </div>
                                         )}
                                     </div>
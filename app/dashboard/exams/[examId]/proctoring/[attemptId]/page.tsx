@@ -4,8 +4,10 @@ import { getServerSession } from "next-auth"
 import { buildAuthOptions } from "@/lib/auth"
 import { isTeacher } from "@/lib/api-auth"
 import { prisma } from "@/lib/prisma"
-import { analyzeFocusLossPatterns, analyzeExternalPastes, computeEnhancedAntiCheatScore } from "@/lib/proctoring/patternAnalysis"
-import { analyzeCopyPasteEvents } from "@/lib/antiCheat"
+import { analyzeAttemptProctoring } from "@/lib/proctoring/patternAnalysis"
+import { getQuestionLabels } from "@/lib/proctoring/liveState"
+import { getStudentExamWindow } from "@/lib/accommodations"
+import { getAttemptDeadline } from "@/lib/exam-time"
 import ProctoringDetail from "./ProctoringDetail"
 
 export const metadata: Metadata = {
@@ -57,6 +59,12 @@ export default async function ProctoringDetailPage({ params }: ProctoringDetailP
                             name: true,
                             institutionId: true
                         }
+                    },
+                    sections: {
+                        select: {
+                            order: true,
+                            questions: { select: { id: true, order: true, customLabel: true } }
+                        }
                     }
                 }
             },
@@ -97,34 +105,21 @@ export default async function ProctoringDetailPage({ params }: ProctoringDetailP
             }))
     )
 
-    // Analyze focus loss patterns
-    const focusLossPattern = analyzeFocusLossPatterns(attempt.proctorEvents, answerTimestamps)
-
-    // Analyze external pastes
-    const externalPasteAnalysis = analyzeExternalPastes(attempt.proctorEvents)
-
-    // Calculate event counts
-    const eventCounts: Record<string, number> = {}
-    attempt.proctorEvents.forEach(event => {
-        eventCounts[event.type] = (eventCounts[event.type] || 0) + 1
-    })
+    // Same analysis as the proctoring summary and its live updates
+    const analysis = analyzeAttemptProctoring(attempt.proctorEvents, answerTimestamps)
 
-    // Analyze copy-paste pairs
-    const copyPasteAnalysis = analyzeCopyPasteEvents(attempt.proctorEvents)
-
-    // Calculate enhanced anti-cheat score
-    const antiCheatScore = computeEnhancedAntiCheatScore({
-        eventCounts,
-        focusLossPattern,
-        externalPasteAnalysis,
-        copyPasteAnalysis
-    })
+    // Deadline with the proctor's extensions and pauses, for the interventions panel
+    const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+    const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
 
     const serializedAttempt = {
         id: attempt.id,
         startedAt: attempt.startedAt.toISOString(),
         submittedAt: attempt.submittedAt?.toISOString() || null,
         status: attempt.status,
+        pausedAt: attempt.pausedAt?.toISOString() ?? null,
+        extensionMinutes: attempt.extensionMinutes,
+        deadlineAt: deadlineAt?.toISOString() ?? null,
         student: attempt.student,
         exam: {
             id: attempt.exam.id,
@@ -137,16 +132,17 @@ export default async function ProctoringDetailPage({ params }: ProctoringDetailP
             timestamp: event.timestamp.toISOString(),
             metadata: asObjectRecord(event.metadata)
         })),
-        focusLossPattern: {
-            flag: focusLossPattern.flag,
-            ratio: focusLossPattern.ratio,
-            suspiciousPairs: focusLossPattern.suspiciousPairs,
-            totalAnswers: focusLossPattern.totalAnswers
-        },
-        externalPastes: externalPasteAnalysis.externalPastes,
-        internalPastes: externalPasteAnalysis.internalPastes,
-        antiCheatScore
+        focusLossPattern: analysis.focusLossPattern,
+        externalPastes: analysis.externalPastes,
+        internalPastes: analysis.internalPastes,
+        antiCheatScore: analysis.antiCheatScore
     }
 
-    return <ProctoringDetail attempt={serializedAttempt} examId={examId} />
+    return (
+        <ProctoringDetail
+            attempt={serializedAttempt}
+            examId={examId}
+            questionLabels={getQuestionLabels(attempt.exam.sections)}
+        />
+    )
 }
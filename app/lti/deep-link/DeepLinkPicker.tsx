@@ -0,0 +1,114 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+
+interface DeepLinkExam {
+    id: string
+    title: string
+    status: string
+    startAt: Date | null
+    course: { code: string; name: string }
+}
+
+interface DeepLinkPickerProps {
+    context: string
+    exams: DeepLinkExam[]
+    locale: string
+}
+
+export default function DeepLinkPicker({ context, exams, locale }: DeepLinkPickerProps) {
+    const isFr = locale === 'fr'
+    const [selectedId, setSelectedId] = useState<string | null>(exams[0]?.id ?? null)
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState('')
+    const [response, setResponse] = useState<{ returnUrl: string; jwt: string } | null>(null)
+    const formRef = useRef<HTMLFormElement>(null)
+
+    const handleConfirm = async () => {
+        if (!selectedId) return
+        setSubmitting(true)
+        setError('')
+        try {
+            const data = await fetchJsonWithCsrf<{ returnUrl: string; jwt: string }>('/api/lti/deep-linking', {
+                body: { context, examId: selectedId }
+            })
+            setResponse(data)
+            // The platform expects the signed response as a form post to its return URL
+            requestAnimationFrame(() => formRef.current?.submit())
+        } catch (err) {
+            console.error('[LTI] Deep linking failed', err)
+            setError(isFr ? 'Impossible d’ajouter cet examen au cours.' : 'Could not add this exam to the course.')
+            setSubmitting(false)
+        }
+    }
+
+    if (!context) {
+        return (
+            <p className="text-sm text-gray-700">
+                {isFr
+                    ? 'Cette page s’ouvre depuis votre plateforme de cours (« Ajouter une activité »).'
+                    : 'Open this page from your LMS (“Add an activity”).'}
+            </p>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h1 className="text-xl font-semibold text-gray-900">
+                    {isFr ? 'Ajouter un examen Correcta au cours' : 'Add a Correcta exam to the course'}
+                </h1>
+                <p className="text-sm text-gray-500">
+                    {isFr
+                        ? 'Les notes seront envoyées dans le carnet de notes de la plateforme à la publication des résultats.'
+                        : 'Scores are sent to the LMS gradebook when results are released.'}
+                </p>
+            </div>
+
+            {exams.length === 0 ? (
+                <p className="text-sm text-gray-700">{isFr ? 'Aucun examen disponible.' : 'No exam available.'}</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+                    {exams.map((exam) => (
+                        <li key={exam.id}>
+                            <label className="flex cursor-pointer items-center gap-3 px-4 py-3 hover:bg-gray-50">
+                                <input
+                                    type="radio"
+                                    name="exam"
+                                    value={exam.id}
+                                    checked={selectedId === exam.id}
+                                    onChange={() => setSelectedId(exam.id)}
+                                />
+                                <span className="flex-1">
+                                    <span className="block text-sm font-medium text-gray-900">{exam.title}</span>
+                                    <span className="block text-xs text-gray-500">
+                                        {exam.course.code} — {exam.course.name}
+                                        {exam.status === 'DRAFT' ? (isFr ? ' · Brouillon' : ' · Draft') : ''}
+                                    </span>
+                                </span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+                type="button"
+                className="rounded-md bg-brand-900 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+                disabled={!selectedId || submitting}
+                onClick={handleConfirm}
+            >
+                {isFr ? 'Ajouter au cours' : 'Add to course'}
+            </button>
+
+            {response && (
+                <form ref={formRef} method="POST" action={response.returnUrl} className="hidden">
+                    <input type="hidden" name="JWT" value={response.jwt} />
+                </form>
+            )}
+        </div>
+    )
+}
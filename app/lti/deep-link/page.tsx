@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation'
+import { getAuthSession, isTeacher } from '@/lib/api-auth'
+import { getLocale } from '@/lib/i18n/server'
+import { prisma } from '@/lib/prisma'
+import DeepLinkPicker from './DeepLinkPicker'
+
+interface DeepLinkPageProps {
+    searchParams: Promise<{ context?: string }>
+}
+
+/**
+ * LTI Deep Linking: the teacher picks the Correcta exam to place in the LMS course.
+ */
+export default async function DeepLinkPage({ searchParams }: DeepLinkPageProps) {
+    const session = await getAuthSession()
+
+    if (!session || !session.user) {
+        redirect('/login')
+    }
+
+    if (!isTeacher(session)) {
+        redirect('/student/courses')
+    }
+
+    const { context } = await searchParams
+    const locale = await getLocale()
+
+    const exams = await prisma.exam.findMany({
+        where: {
+            parentExamId: null,
+            archivedAt: null,
+            course: { institutionId: session.user.institutionId, archivedAt: null },
+            ...(session.user.role === 'TEACHER' ? { authorId: session.user.id } : {}),
+        },
+        select: {
+            id: true,
+            title: true,
+            status: true,
+            startAt: true,
+            course: { select: { code: true, name: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+    })
+
+    return (
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <DeepLinkPicker context={context ?? ''} exams={exams} locale={locale} />
+        </div>
+    )
+}
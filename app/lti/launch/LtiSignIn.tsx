@@ -0,0 +1,44 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { signIn } from 'next-auth/react'
+
+interface LtiSignInProps {
+    token: string
+    next: string
+    locale: string
+}
+
+export default function LtiSignIn({ token, next, locale }: LtiSignInProps) {
+    const isFr = locale === 'fr'
+    const [failed, setFailed] = useState(false)
+    const started = useRef(false)
+
+    useEffect(() => {
+        // The provider consumes the token on first use: avoid a second attempt in React strict mode
+        if (started.current) return
+        started.current = true
+
+        signIn('lti', { token, redirect: false })
+            .then((result) => {
+                if (result?.ok && !result.error) {
+                    window.location.replace(next)
+                } else {
+                    setFailed(true)
+                }
+            })
+            .catch(() => setFailed(true))
+    }, [token, next])
+
+    return (
+        <div className="mx-auto max-w-md px-4 py-16 text-center text-sm text-gray-700">
+            {failed
+                ? isFr
+                    ? 'Connexion impossible. Relancez l’activité depuis votre plateforme de cours.'
+                    : 'Sign-in failed. Launch the activity again from your LMS.'
+                : isFr
+                    ? 'Connexion à Correcta…'
+                    : 'Signing in to Correcta…'}
+        </div>
+    )
+}
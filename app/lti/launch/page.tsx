@@ -0,0 +1,33 @@
+import { cookies } from 'next/headers'
+import { getLocale } from '@/lib/i18n/server'
+import { LTI_HANDOFF_COOKIE, verifyLtiHandoff } from '@/lib/lti/platform'
+import LtiSignIn from './LtiSignIn'
+
+/**
+ * Landing page of an LTI launch: exchanges the launch token for a Correcta
+ * session, then opens the exam (or the Deep Linking picker).
+ */
+export default async function LtiLaunchPage() {
+    const token = (await cookies()).get(LTI_HANDOFF_COOKIE)?.value
+    const locale = await getLocale()
+    const isFr = locale === 'fr'
+
+    let next: string | null = null
+    try {
+        next = token ? verifyLtiHandoff(token).next : null
+    } catch {
+        next = null
+    }
+
+    if (!token || !next) {
+        return (
+            <div className="mx-auto max-w-md px-4 py-16 text-center text-sm text-gray-700">
+                {isFr
+                    ? 'Ce lien a expiré. Relancez l’activité depuis votre plateforme de cours.'
+                    : 'This link has expired. Launch the activity again from your LMS.'}
+            </div>
+        )
+    }
+
+    return <LtiSignIn token={token} next={next} locale={locale} />
+}
@@ -1,16 +1,32 @@
 ﻿
 "use client"
 
-import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from "react"
 import { useRouter } from "next/navigation"
 import type { Dictionary } from "@/lib/i18n/dictionaries"
 import MathRenderer from "@/components/exams/MathRenderer"
 import ExamChangeLog from "@/components/exams/ExamChangeLog"
 import StringMathField from "@/components/exams/StringMathField"
+import CodeAnswerEditor from "@/components/exam-taking/CodeAnswerEditor"
 import ProctoringProvider from "@/components/proctoring/ProctoringProvider"
-import { ContentSegment, StudentToolsConfig, StudentMathSymbolSet, ExamChange } from "@/types/exams"
+import AccessibilityProvider from "@/components/exam-taking/AccessibilityProvider"
+import AccessibilityPanel from "@/components/exam-taking/AccessibilityPanel"
+import QuestionNavigator, { getQuestionElementId, type NavigatorQuestion } from "@/components/exam-taking/QuestionNavigator"
+import ProctorInterventionDialogs from "@/components/exam-taking/ProctorInterventionDialogs"
+import { useAttemptInterventions } from "@/lib/proctoring/useLiveProctoring"
+import type { AntiCheatConfig } from "@/lib/proctoring/types"
+import { DEFAULT_ACCESSIBILITY_PROFILE, type AccessibilityProfile } from "@/lib/accessibility/profile"
+import { ContentSegment, StudentToolsConfig, StudentMathSymbolSet, ExamChange, StudentCodeQuestionConfig, CodeTestResult } from "@/types/exams"
 import { parseContent, segmentsToPlainText, serializeContent } from "@/lib/content"
 import { getCsrfToken } from "@/lib/csrfClient"
+import {
+    clearJournal,
+    createJournalRequestId,
+    listJournalEntries,
+    putJournalEntry,
+    removeJournalEntry,
+    type AnswerJournalEntry
+} from "@/lib/answerJournal"
 
 type Segment = {
     id: string
@@ -26,8 +42,9 @@ type Question = {
     answerTemplate?: ContentSegment[]
     answerTemplateLocked?: boolean
     studentTools?: StudentToolsConfig | null
+    codeConfig?: StudentCodeQuestionConfig | null
     shuffleOptions?: boolean
-    type: "TEXT" | "MCQ" | "CODE"
+    type: "TEXT" | "MCQ" | "CODE" | "NUMERIC" | "MATH_EXPRESSION"
     order: number
     customLabel?: string | null
     requireAllCorrect?: boolean
@@ -67,7 +84,7 @@ type ExamData = {
     } | null
     requireHonorCommitment?: boolean
     allowedMaterials?: string | null
-    antiCheatConfig?: { webcamDeterrent?: boolean; browserLockdown?: boolean } | null
+    antiCheatConfig?: AntiCheatConfig | null
     changes?: ExamChange[]
     sections: Section[]
 }
@@ -78,6 +95,9 @@ type AttemptData = {
     startedAt: string
     submittedAt: string | null
     deadlineAt: string
+    // Set while the proctor holds the attempt
+    pausedAt?: string | null
+    hasAccommodation?: boolean
     honorStatementText?: string | null
     nonce?: string
     answers: {
@@ -190,39 +210,113 @@ const seededShuffle = <T,>(items: T[], seed: number) => {
     return result
 }
 
+type SavingStatus = "saved" | "saving" | "pending" | "error" | null
+
+const JOURNAL_RETRY_INTERVAL_MS = 15000
+
+const subscribeOnlineStatus = (callback: () => void) => {
+    window.addEventListener("online", callback)
+    window.addEventListener("offline", callback)
+    return () => {
+        window.removeEventListener("online", callback)
+        window.removeEventListener("offline", callback)
+    }
+}
+
+// Edits still in the journal are reconciled server-side before the attempt is finalized
+const buildSubmitBody = (pendingEntries: AnswerJournalEntry[]) => JSON.stringify({
+    pendingAnswers: pendingEntries.map(({ questionId, segmentId, content, clientUpdatedAt }) => ({
+        questionId,
+        segmentId,
+        content,
+        clientUpdatedAt
+    }))
+})
+
+const isAnswerFilled = (value: string | undefined) =>
+    Boolean(value) && segmentsToPlainText(parseContent(value ?? "")).trim().length > 0
+
+// Question containers are focus targets for keyboard navigation, labelled by their number
+const getQuestionRegionProps = (questionId: string) => ({
+    id: getQuestionElementId(questionId),
+    tabIndex: -1,
+    role: "region",
+    "aria-labelledby": `${getQuestionElementId(questionId)}-label`,
+    "data-question-id": questionId
+})
+
 interface ExamRoomClientProps {
     attempt: AttemptData
     exam: ExamData
+    studentId: string
     studentName?: string | null
     dictionary: Dictionary
     locale?: string
+    accessibilityProfile?: AccessibilityProfile
 }
 
 export default function ExamRoomClient({
     attempt,
     exam,
+    studentId,
     studentName,
     dictionary,
-    locale = "fr"
+    locale = "fr",
+    accessibilityProfile: initialAccessibilityProfile = DEFAULT_ACCESSIBILITY_PROFILE
 }: ExamRoomClientProps) {
     const router = useRouter()
+    const [accessibilityProfile, setAccessibilityProfile] = useState(initialAccessibilityProfile)
     const [answers, setAnswers] = useState<Record<string, string>>({})
-    const [savingStatus, setSavingStatus] = useState<Record<string, "saved" | "saving" | "error" | null>>({})
+    const [savingStatus, setSavingStatus] = useState<Record<string, SavingStatus>>({})
     const [timeLeft, setTimeLeft] = useState<number | null>(null)
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [honorText, setHonorText] = useState("")
     const [honorTouched, setHonorTouched] = useState(false)
     const [showStickyHeader, setShowStickyHeader] = useState(false)
     const [pendingSubmit, setPendingSubmit] = useState(false)
+    const [pendingSyncCount, setPendingSyncCount] = useState(0)
+    // Notices stay dismissed across reloads; they only arrive after hydration
+    const noticesStorageKey = `attempt:${attempt.id}:acknowledgedNotices`
+    const [acknowledgedNotices, setAcknowledgedNotices] = useState<string[]>(() => {
+        if (typeof window === "undefined") return []
+        try {
+            const stored = JSON.parse(localStorage.getItem(noticesStorageKey) ?? "[]")
+            return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === "string") : []
+        } catch {
+            return []
+        }
+    })
+    const isOnline = useSyncExternalStore(subscribeOnlineStatus, () => navigator.onLine, () => true)
 
     const saveTimeoutRefs = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
     const prefilledTemplateRef = useRef<Set<string>>(new Set())
     const honorSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    // Offline journal: writes are chained to keep edits in order, replays never overlap
+    const journalWritesRef = useRef<Promise<void>>(Promise.resolve())
+    const replayRef = useRef<Promise<void> | null>(null)
+    // Request ids already consumed by a failed server-side save must not be reused
+    const retryRequestIdsRef = useRef<Map<string, string>>(new Map())
     const dict = dictionary.student.examRunner
     const honorStorageKey = `attempt:${attempt.id}:honorStatement`
     const examHeaderRef = useRef<HTMLDivElement | null>(null)
     const confirmSubmitLabel = locale === "fr" ? "Confirmer" : "Confirm"
 
+    // Proctor interventions: once the server sent the timing, it wins over the page's
+    const proctorState = useAttemptInterventions(attempt.id)
+    const hasLiveTiming = proctorState.deadlineAt !== undefined
+    const deadlineAt = hasLiveTiming ? proctorState.deadlineAt ?? null : attempt.deadlineAt
+    const isPaused = hasLiveTiming ? proctorState.pausedAt !== null : Boolean(attempt.pausedAt)
+    const isTerminated = proctorState.terminated !== null
+    const pendingNotices = proctorState.notices.filter(notice => !acknowledgedNotices.includes(notice.id))
+
+    const acknowledgeNotice = useCallback((noticeId: string) => {
+        setAcknowledgedNotices(prev => {
+            const next = [...prev, noticeId]
+            localStorage.setItem(noticesStorageKey, JSON.stringify(next))
+            return next
+        })
+    }, [noticesStorageKey])
+
     useEffect(() => {
         const initialAnswers: Record<string, string> = {}
         attempt.answers.forEach(ans => {
@@ -234,21 +328,48 @@ export default function ExamRoomClient({
     }, [attempt])
 
     const timeExpired = timeLeft !== null && timeLeft <= 0
+    // While paused, the time left when the pause started
+    const displayedTimeLeft = isPaused ? proctorState.remainingSeconds ?? timeLeft : timeLeft
     const honorRequired = exam.requireHonorCommitment !== false
     const honorValid = honorRequired ? isHonorStatementValid(honorText) : true
     const honorLocked = honorRequired && !honorValid
-    const answerEditingLocked = timeExpired || isSubmitting || honorLocked
+    const answerEditingLocked = timeExpired || isSubmitting || honorLocked || isPaused || isTerminated
 
-    const buildIntegrityHeaders = async () => {
+    const buildIntegrityHeaders = useCallback(async (requestId: string = createJournalRequestId()) => {
         const csrfToken = await getCsrfToken()
-        const requestId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
-            ? crypto.randomUUID()
-            : `${Date.now()}-${Math.random().toString(36).slice(2)}`
         return {
             'x-csrf-token': csrfToken,
             'x-attempt-nonce': attempt.nonce ?? '',
             'x-request-id': requestId
         }
+    }, [attempt.nonce])
+
+    // CODE questions: run the visible tests server-side (hidden tests run at grading time)
+    const handleRunCode = async (questionId: string, code: string): Promise<CodeTestResult[]> => {
+        const integrityHeaders = await buildIntegrityHeaders()
+        const res = await fetch(`/api/attempts/${attempt.id}/code-run`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...integrityHeaders
+            },
+            body: JSON.stringify({ questionId, code })
+        })
+        const data = await res.json().catch(() => null)
+        if (!res.ok) {
+            if (res.status === 429) {
+                throw new Error(locale === "fr"
+                    ? "Trop d’exécutions, réessayez dans une minute."
+                    : "Too many runs, try again in a minute.")
+            }
+            if (res.status === 503 || res.status === 504) {
+                throw new Error(locale === "fr"
+                    ? "L’exécution des tests est indisponible pour le moment, réessayez plus tard."
+                    : "Running the tests is unavailable right now, try again later.")
+            }
+            throw new Error("")
+        }
+        return (data?.results ?? []) as CodeTestResult[]
     }
 
     useEffect(() => {
@@ -298,7 +419,7 @@ export default function ExamRoomClient({
                 console.error("Honor statement save error:", error)
             }
         }, 800)
-    }, [attempt.id, honorRequired])
+    }, [attempt.id, honorRequired, buildIntegrityHeaders])
 
     useEffect(() => {
         if (attempt.honorStatementText) {
@@ -316,31 +437,172 @@ export default function ExamRoomClient({
         }
     }, [attempt.honorStatementText, honorStorageKey, saveHonorStatement])
 
+    const refreshPendingSyncCount = useCallback(async () => {
+        const entries = await listJournalEntries(attempt.id)
+        setPendingSyncCount(entries.length)
+    }, [attempt.id])
+
+    // Send one journaled edit. The journal's request id makes a replay of an edit the
+    // server already stored a no-op (ensureIdempotency), and the server keeps the newest edit.
+    const sendJournalEntry = useCallback(async (
+        entry: AnswerJournalEntry
+    ): Promise<{ status: Exclude<SavingStatus, "saving" | null>; staleContent?: string }> => {
+        try {
+            const requestId = retryRequestIdsRef.current.get(entry.requestId) ?? entry.requestId
+            const integrityHeaders = await buildIntegrityHeaders(requestId)
+            const res = await fetch(`/api/attempts/${attempt.id}`, {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...integrityHeaders
+                },
+                body: JSON.stringify({
+                    questionId: entry.questionId,
+                    segmentId: entry.segmentId,
+                    content: entry.content,
+                    clientUpdatedAt: entry.clientUpdatedAt
+                })
+            })
+
+            if (res.ok) {
+                const data = await res.json().catch(() => null)
+                retryRequestIdsRef.current.delete(entry.requestId)
+                await removeJournalEntry(attempt.id, entry.segmentId, entry.requestId)
+                return data?.stale
+                    ? { status: "saved", staleContent: data.answerSegment?.content }
+                    : { status: "saved" }
+            }
+
+            // 423: paused by the proctor, the edit is replayed once the attempt resumes
+            if (res.status === 423 || res.status === 429 || res.status >= 500) {
+                if (res.status >= 500) {
+                    retryRequestIdsRef.current.set(entry.requestId, createJournalRequestId())
+                }
+                return { status: "pending" }
+            }
+
+            // Rejected (exam ended, attempt locked...): replaying would not help
+            await removeJournalEntry(attempt.id, entry.segmentId, entry.requestId)
+            return { status: "error" }
+        } catch (error) {
+            // Network failure: the edit stays journaled and is replayed later
+            console.error("Autosave error:", error)
+            return { status: "pending" }
+        }
+    }, [attempt.id, buildIntegrityHeaders])
+
+    const replayJournal = useCallback((): Promise<void> => {
+        if (replayRef.current) return replayRef.current
+
+        const replay = (async () => {
+            const entries = await listJournalEntries(attempt.id)
+            for (const entry of entries) {
+                // A debounced save for this segment will send a newer edit
+                if (saveTimeoutRefs.current[entry.segmentId]) continue
+                const { status, staleContent } = await sendJournalEntry(entry)
+                setSavingStatus(prev => ({ ...prev, [entry.segmentId]: status }))
+                if (staleContent !== undefined) {
+                    // A newer edit was saved from another session: show what the server kept
+                    setAnswers(prev => ({ ...prev, [entry.segmentId]: staleContent }))
+                }
+                if (status === "pending") break
+            }
+            await refreshPendingSyncCount()
+        })().finally(() => {
+            replayRef.current = null
+        })
+
+        replayRef.current = replay
+        return replay
+    }, [attempt.id, refreshPendingSyncCount, sendJournalEntry])
+
+    // Send every pending edit now; returns what could not be synced
+    const flushJournal = useCallback(async () => {
+        Object.values(saveTimeoutRefs.current).forEach(clearTimeout)
+        saveTimeoutRefs.current = {}
+        await journalWritesRef.current
+        if (replayRef.current) {
+            await replayRef.current
+        }
+        await replayJournal()
+        return listJournalEntries(attempt.id)
+    }, [attempt.id, replayJournal])
+
+    useEffect(() => {
+        let cancelled = false
+        listJournalEntries(attempt.id).then((entries) => {
+            if (cancelled || entries.length === 0) return
+            // Edits that never reached the server (e.g. offline then reload) win over the loaded copy
+            setAnswers(prev => {
+                const next = { ...prev }
+                entries.forEach(entry => {
+                    next[entry.segmentId] = entry.content
+                })
+                return next
+            })
+            setSavingStatus(prev => {
+                const next = { ...prev }
+                entries.forEach(entry => {
+                    next[entry.segmentId] = "pending"
+                })
+                return next
+            })
+            setPendingSyncCount(entries.length)
+            replayJournal()
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [attempt.id, replayJournal])
+
+    useEffect(() => {
+        if (isOnline) {
+            replayJournal()
+        }
+    }, [isOnline, replayJournal])
+
+    useEffect(() => {
+        if (pendingSyncCount === 0) return
+        const interval = setInterval(() => {
+            replayJournal()
+        }, JOURNAL_RETRY_INTERVAL_MS)
+        return () => clearInterval(interval)
+    }, [pendingSyncCount, replayJournal])
+
     const handleAutoSubmit = useCallback(async () => {
         if (isSubmitting) return
 
         setIsSubmitting(true)
         try {
+            const pendingEntries = await flushJournal()
             const integrityHeaders = await buildIntegrityHeaders()
-            await fetch(`/api/attempts/${attempt.id}/submit`, {
+            const res = await fetch(`/api/attempts/${attempt.id}/submit`, {
                 method: "POST",
-                headers: integrityHeaders
+                headers: {
+                    "Content-Type": "application/json",
+                    ...integrityHeaders
+                },
+                body: buildSubmitBody(pendingEntries)
             })
+            if (res.ok) {
+                await clearJournal(attempt.id)
+            }
             window.location.href = "/student/exams"
         } catch (error) {
             console.error("Auto-submit error:", error)
             window.location.href = "/student/exams"
         }
-    }, [attempt.id, isSubmitting])
+    }, [attempt.id, isSubmitting, flushJournal, buildIntegrityHeaders])
 
     useEffect(() => {
-        if (!attempt.deadlineAt) return
+        // The clock is stopped while paused
+        if (isTerminated || isPaused || !deadlineAt) return
 
-        const deadlineAt = new Date(attempt.deadlineAt).getTime()
+        const deadline = new Date(deadlineAt).getTime()
 
         const interval = setInterval(() => {
             const now = Date.now()
-            const remaining = Math.max(0, Math.ceil((deadlineAt - now) / 1000))
+            const remaining = Math.max(0, Math.ceil((deadline - now) / 1000))
             setTimeLeft(remaining)
 
             if (remaining <= 0) {
@@ -350,7 +612,15 @@ export default function ExamRoomClient({
         }, 1000)
 
         return () => clearInterval(interval)
-    }, [attempt.deadlineAt, handleAutoSubmit])
+    }, [deadlineAt, isPaused, isTerminated, handleAutoSubmit])
+
+    // The proctor ended the attempt: nothing left to sync
+    useEffect(() => {
+        if (!isTerminated) return
+        Object.values(saveTimeoutRefs.current).forEach(clearTimeout)
+        saveTimeoutRefs.current = {}
+        clearJournal(attempt.id)
+    }, [isTerminated, attempt.id])
 
     useEffect(() => {
         const updateStickyVisibility = () => {
@@ -372,37 +642,31 @@ export default function ExamRoomClient({
         setAnswers(prev => ({ ...prev, [segmentId]: content }))
         setSavingStatus(prev => ({ ...prev, [segmentId]: "saving" }))
 
+        // Journal the edit first so it survives a network drop or a reload
+        const entry: AnswerJournalEntry = {
+            attemptId: attempt.id,
+            questionId,
+            segmentId,
+            content,
+            clientUpdatedAt: new Date().toISOString(),
+            requestId: createJournalRequestId()
+        }
+        journalWritesRef.current = journalWritesRef.current
+            .then(() => putJournalEntry(entry))
+            .then(() => refreshPendingSyncCount())
+
         if (saveTimeoutRefs.current[segmentId]) {
             clearTimeout(saveTimeoutRefs.current[segmentId])
         }
 
         saveTimeoutRefs.current[segmentId] = setTimeout(async () => {
-            try {
-                const integrityHeaders = await buildIntegrityHeaders()
-                const res = await fetch(`/api/attempts/${attempt.id}`, {
-                    method: "PUT",
-                    headers: {
-                        "Content-Type": "application/json",
-                        ...integrityHeaders
-                    },
-                    body: JSON.stringify({
-                        questionId,
-                        segmentId,
-                        content
-                    })
-                })
-
-                if (res.ok) {
-                    setSavingStatus(prev => ({ ...prev, [segmentId]: "saved" }))
-                } else {
-                    setSavingStatus(prev => ({ ...prev, [segmentId]: "error" }))
-                }
-            } catch (error) {
-                console.error("Autosave error:", error)
-                setSavingStatus(prev => ({ ...prev, [segmentId]: "error" }))
-            }
+            delete saveTimeoutRefs.current[segmentId]
+            await journalWritesRef.current
+            const { status } = await sendJournalEntry(entry)
+            setSavingStatus(prev => ({ ...prev, [segmentId]: status }))
+            await refreshPendingSyncCount()
         }, 1000)
-    }, [attempt.id])
+    }, [attempt.id, refreshPendingSyncCount, sendJournalEntry])
 
     useEffect(() => {
         exam.sections.forEach((section) => {
@@ -436,13 +700,20 @@ export default function ExamRoomClient({
         setIsSubmitting(true)
 
         try {
+            // Reconcile the offline journal: whatever could not be synced is sent with the submission
+            const pendingEntries = await flushJournal()
             const integrityHeaders = await buildIntegrityHeaders()
             const res = await fetch(`/api/attempts/${attempt.id}/submit`, {
                 method: "POST",
-                headers: integrityHeaders
+                headers: {
+                    "Content-Type": "application/json",
+                    ...integrityHeaders
+                },
+                body: buildSubmitBody(pendingEntries)
             })
 
             if (res.ok) {
+                await clearJournal(attempt.id)
                 window.location.href = "/student/exams"
             } else {
                 const data = await res.json()
@@ -451,7 +722,7 @@ export default function ExamRoomClient({
             }
         } catch (error) {
             console.error("[DEBUG] Submission error:", error)
-            alert(dict.actions.submitNetworkError)
+            alert(navigator.onLine ? dict.actions.submitNetworkError : dict.connection.offlineSubmitMessage)
             setIsSubmitting(false)
         }
     }
@@ -475,6 +746,31 @@ export default function ExamRoomClient({
 
     const sortedSections = useMemo(() => sortByOrder(exam.sections), [exam.sections])
 
+    const navigatorQuestions = useMemo<NavigatorQuestion[]>(() => {
+        const questions = sortedSections.flatMap((section) => sortByOrder(section.questions))
+        return questions.map((question, index) => ({
+            id: question.id,
+            label: question.customLabel || String(index + 1),
+            answered: question.type === "MCQ"
+                ? question.segments.some((segment) => answers[segment.id] === "true" || answers[segment.id] === "1")
+                : question.segments.some((segment) => isAnswerFilled(answers[segment.id]))
+        }))
+    }, [sortedSections, answers])
+
+    const connectionStatus = (
+        <div
+            role="status"
+            aria-live="polite"
+            className={`inline-flex items-center gap-1.5 text-xs ${isOnline ? "text-gray-500" : "text-amber-700 font-medium"}`}
+        >
+            <span aria-hidden="true" className={`h-2 w-2 rounded-full ${isOnline ? "bg-green-500" : "bg-amber-500"}`} />
+            <span>{isOnline ? dict.connection.online : dict.connection.offline}</span>
+            {pendingSyncCount > 0 && (
+                <span>· {dict.connection.pendingChanges.replace("{{count}}", String(pendingSyncCount))}</span>
+            )}
+        </div>
+    )
+
     if (attempt.status !== "IN_PROGRESS") {
         return (
             <div className="max-w-4xl mx-auto py-12 text-center">
@@ -495,8 +791,26 @@ export default function ExamRoomClient({
             antiCheatConfig={exam.antiCheatConfig ?? null}
             attemptId={attempt.id}
             nonce={attempt.nonce ?? ""}
+            fullscreenLabels={dict.fullscreen}
+            suspended={isPaused || isTerminated}
         >
+            <AccessibilityProvider profile={accessibilityProfile} locale={locale}>
+            <ProctorInterventionDialogs
+                state={proctorState}
+                paused={isPaused}
+                pendingNotices={pendingNotices}
+                onAcknowledge={acknowledgeNotice}
+                onLeave={() => router.push("/student/exams")}
+                labels={dict.proctor}
+                leaveLabel={dict.actions.backToListButton}
+            />
             <div className="max-w-5xl mx-auto py-8 px-4 pb-24 space-y-6">
+            <a
+                href={`#${getQuestionElementId(navigatorQuestions[0]?.id ?? "")}`}
+                className="sr-only focus:not-sr-only focus:absolute focus:z-40 focus:rounded focus:bg-white focus:px-3 focus:py-2 focus:shadow"
+            >
+                {dict.navigation.skipToQuestions}
+            </a>
             {showStickyHeader && (
                 <div className="sticky top-0 z-20 bg-white/95 backdrop-blur border border-gray-200 rounded-md px-4 py-3 shadow-sm flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                     <div>
@@ -505,8 +819,9 @@ export default function ExamRoomClient({
                         </div>
                         <div className="text-lg font-semibold text-gray-900">{exam.title || dict.header.titleFallback}</div>
                         <div className="text-sm text-gray-600">
-                            {dict.header.timeRemainingLabel} {timeLeft !== null ? formatTime(timeLeft) : "..."}
+                            {dict.header.timeRemainingLabel} {displayedTimeLeft !== null ? formatTime(displayedTimeLeft) : "..."}
                         </div>
+                        {connectionStatus}
                     </div>
                     {!timeExpired && (
                         <div className="flex items-center gap-2" data-submit-confirm-group="true">
@@ -519,7 +834,7 @@ export default function ExamRoomClient({
                                         setPendingSubmit(true)
                                     }
                                 }}
-                                disabled={isSubmitting || honorLocked}
+                                disabled={isSubmitting || honorLocked || isPaused || isTerminated}
                                 className="px-5 py-2 rounded-md bg-brand-900 text-white text-sm font-semibold hover:bg-brand-800 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isSubmitting
@@ -548,6 +863,12 @@ export default function ExamRoomClient({
                 </div>
             )}
 
+            <QuestionNavigator
+                questions={navigatorQuestions}
+                labels={dict.navigation}
+                reducedMotion={accessibilityProfile.reducedMotion}
+            />
+
             <div className="bg-white rounded-md shadow-sm border border-gray-200">
                 <div ref={examHeaderRef} className="p-6 pb-4 border-b border-gray-100">
                     <div className="flex flex-wrap items-start justify-between gap-4 text-sm text-gray-700">
@@ -568,9 +889,23 @@ export default function ExamRoomClient({
                             <div>
                                 {locale === "fr" ? "Durée :" : "Duration:"}{" "}
                                 {exam.durationMinutes ? `${exam.durationMinutes} ${locale === "fr" ? "minutes" : "minutes"}` : (locale === "fr" ? "Non défini" : "Not defined")}
+                                {attempt.hasAccommodation && (
+                                    <span className="ml-1 text-xs text-gray-500">
+                                        {locale === "fr" ? "(temps aménagé)" : "(adjusted time)"}
+                                    </span>
+                                )}
                             </div>
                             <div className="font-medium">
-                                {dict.header.timeRemainingLabel} {timeLeft !== null ? formatTime(timeLeft) : "..."}
+                                {dict.header.timeRemainingLabel} {displayedTimeLeft !== null ? formatTime(displayedTimeLeft) : "..."}
+                            </div>
+                            <div className="flex justify-end">{connectionStatus}</div>
+                            <div className="flex justify-end">
+                                <AccessibilityPanel
+                                    studentId={studentId}
+                                    profile={accessibilityProfile}
+                                    onChange={setAccessibilityProfile}
+                                    labels={dict.accessibility}
+                                />
                             </div>
                             {!timeExpired && (
                                 <div className="mt-2 flex items-center justify-end gap-2" data-submit-confirm-group="true">
@@ -583,7 +918,7 @@ export default function ExamRoomClient({
                                                 setPendingSubmit(true)
                                             }
                                         }}
-                                        disabled={isSubmitting || honorLocked}
+                                        disabled={isSubmitting || honorLocked || isPaused || isTerminated}
                                         className="px-5 py-2 rounded-md bg-brand-900 text-white text-sm font-semibold hover:bg-brand-800 disabled:opacity-50 disabled:cursor-not-allowed"
                                     >
                                         {isSubmitting
@@ -785,15 +1120,17 @@ export default function ExamRoomClient({
                                                     ? "error"
                                                     : optionStatuses.includes("saving")
                                                         ? "saving"
-                                                        : optionStatuses.includes("saved")
-                                                            ? "saved"
-                                                            : null
+                                                        : optionStatuses.includes("pending")
+                                                            ? "pending"
+                                                            : optionStatuses.includes("saved")
+                                                                ? "saved"
+                                                                : null
 
                                                 return (
-                                                    <div key={question.id} className={`p-4 ${questionDividerClass}`}>
+                                                    <div key={question.id} {...getQuestionRegionProps(question.id)} className={`p-4 scroll-mt-24 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand-700 ${questionDividerClass}`}>
                                                         <div className="mb-3 space-y-1">
                                                             <div className="flex items-start justify-between gap-2">
-                                                                <span className="text-base font-semibold text-gray-900">
+                                                                <span id={`${getQuestionElementId(question.id)}-label`} className="text-base font-semibold text-gray-900">
                                                                     {questionLabel}
                                                                 </span>
                                                                 {totalPoints > 0 && (
@@ -840,6 +1177,9 @@ export default function ExamRoomClient({
                                                                 {mcqStatus === "saved" && (
                                                                     <span className="text-xs text-green-600">{dict.questions.saved}</span>
                                                                 )}
+                                                                {mcqStatus === "pending" && (
+                                                                    <span className="text-xs text-amber-700">{dict.questions.savedLocally}</span>
+                                                                )}
                                                                 {mcqStatus === "error" && (
                                                                     <span className="text-xs text-red-600">{dict.questions.errorSaving}</span>
                                                                 )}
@@ -849,6 +1189,133 @@ export default function ExamRoomClient({
                                                 )
                                             }
 
+                                            if (question.type === "CODE") {
+                                                const codeSegment = sortByOrder(question.segments)[0]
+                                                return (
+                                                    <div key={question.id} {...getQuestionRegionProps(question.id)} className={`p-4 scroll-mt-24 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand-700 ${questionDividerClass}`}>
+                                                        <div className="mb-3 space-y-1">
+                                                            <div className="flex items-start justify-between gap-2">
+                                                                <span id={`${getQuestionElementId(question.id)}-label`} className="text-base font-semibold text-gray-900">
+                                                                    {questionLabel}
+                                                                </span>
+                                                                {totalPoints > 0 && (
+                                                                    <span className="text-sm font-semibold text-gray-700 whitespace-nowrap">
+                                                                        {totalPoints} {totalPoints === 1 ? (locale === "fr" ? "point" : "point") : (locale === "fr" ? "points" : "points")}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <MathRenderer text={questionText} className="text-base text-gray-900 whitespace-pre-wrap leading-relaxed" tableScale="fit" />
+                                                        </div>
+
+                                                        {codeSegment && (
+                                                            <div className="mt-4">
+                                                                <CodeAnswerEditor
+                                                                    value={answers[codeSegment.id] || ""}
+                                                                    onChange={(code) => handleAnswerChange(question.id, codeSegment.id, code)}
+                                                                    language={question.codeConfig?.language ?? "python"}
+                                                                    starterCode={question.codeConfig?.starterCode}
+                                                                    visibleTests={question.codeConfig?.tests}
+                                                                    hiddenTestCount={question.codeConfig?.hiddenTestCount}
+                                                                    disabled={answerEditingLocked}
+                                                                    locale={locale}
+                                                                    onRunTests={(code) => handleRunCode(question.id, code)}
+                                                                />
+                                                                <div className="mt-1 h-5 flex justify-end">
+                                                                    {savingStatus[codeSegment.id] === "saving" && (
+                                                                        <span className="text-xs text-gray-500 italic">{dict.questions.saving}</span>
+                                                                    )}
+                                                                    {savingStatus[codeSegment.id] === "saved" && (
+                                                                        <span className="text-xs text-green-600">{dict.questions.saved}</span>
+                                                                    )}
+                                                                    {savingStatus[codeSegment.id] === "pending" && (
+                                                                        <span className="text-xs text-amber-700">{dict.questions.savedLocally}</span>
+                                                                    )}
+                                                                    {savingStatus[codeSegment.id] === "error" && (
+                                                                        <span className="text-xs text-red-600">{dict.questions.errorSaving}</span>
+                                                                    )}
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                )
+                                            }
+
+                                            if (question.type === "NUMERIC" || question.type === "MATH_EXPRESSION") {
+                                                const answerSegment = sortByOrder(question.segments)[0]
+                                                return (
+                                                    <div key={question.id} {...getQuestionRegionProps(question.id)} className={`p-4 scroll-mt-24 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand-700 ${questionDividerClass}`}>
+                                                        <div className="mb-3 space-y-1">
+                                                            <div className="flex items-start justify-between gap-2">
+                                                                <span id={`${getQuestionElementId(question.id)}-label`} className="text-base font-semibold text-gray-900">
+                                                                    {questionLabel}
+                                                                </span>
+                                                                {totalPoints > 0 && (
+                                                                    <span className="text-sm font-semibold text-gray-700 whitespace-nowrap">
+                                                                        {totalPoints} {totalPoints === 1 ? (locale === "fr" ? "point" : "point") : (locale === "fr" ? "points" : "points")}
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                            <MathRenderer text={questionText} className="text-base text-gray-900 whitespace-pre-wrap leading-relaxed" tableScale="fit" />
+                                                        </div>
+
+                                                        {answerSegment && (
+                                                            <div className="mt-4">
+                                                                {answerSegment.instruction && (
+                                                                    <div className="mb-2">
+                                                                        <MathRenderer text={answerSegment.instruction} className="block text-sm font-medium text-gray-700" />
+                                                                    </div>
+                                                                )}
+                                                                {question.type === "NUMERIC" ? (
+                                                                    <input
+                                                                        type="text"
+                                                                        inputMode="decimal"
+                                                                        autoComplete="off"
+                                                                        className="w-full max-w-sm rounded-md border border-gray-300 px-3 py-2 text-base text-gray-900 focus:border-brand-900 focus:ring-brand-900 disabled:bg-gray-50"
+                                                                        value={answers[answerSegment.id] || ""}
+                                                                        onChange={(e) => handleAnswerChange(question.id, answerSegment.id, e.target.value)}
+                                                                        disabled={answerEditingLocked}
+                                                                        placeholder={locale === "fr" ? "Valeur et unité, ex. 9,81 m/s^2" : "Value and unit, e.g. 9.81 m/s^2"}
+                                                                        aria-label={questionLabel}
+                                                                    />
+                                                                ) : (
+                                                                    <div className="rounded-md border border-gray-300 bg-gray-50">
+                                                                        <div className="px-3 py-2">
+                                                                            <StringMathField
+                                                                                value={answers[answerSegment.id] || ""}
+                                                                                onChange={(value) => handleAnswerChange(question.id, answerSegment.id, value)}
+                                                                                disabled={answerEditingLocked}
+                                                                                className="text-base text-gray-900"
+                                                                                placeholder={locale === "fr" ? "Saisissez votre expression" : "Type your expression"}
+                                                                                minRows={1}
+                                                                                showMathButton
+                                                                                showTableButton={false}
+                                                                                showGraphButton={false}
+                                                                                toolbarSize="md"
+                                                                                locale={locale}
+                                                                            />
+                                                                        </div>
+                                                                    </div>
+                                                                )}
+                                                                <div className="mt-1 h-5 flex justify-end">
+                                                                    {savingStatus[answerSegment.id] === "saving" && (
+                                                                        <span className="text-xs text-gray-500 italic">{dict.questions.saving}</span>
+                                                                    )}
+                                                                    {savingStatus[answerSegment.id] === "saved" && (
+                                                                        <span className="text-xs text-green-600">{dict.questions.saved}</span>
+                                                                    )}
+                                                                    {savingStatus[answerSegment.id] === "pending" && (
+                                                                        <span className="text-xs text-amber-700">{dict.questions.savedLocally}</span>
+                                                                    )}
+                                                                    {savingStatus[answerSegment.id] === "error" && (
+                                                                        <span className="text-xs text-red-600">{dict.questions.errorSaving}</span>
+                                                                    )}
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                )
+                                            }
+
                                             const tools = normalizeStudentTools(question.studentTools)
                                             const mathEnabled = tools.math?.enabled !== false
                                             const tableEnabled = tools.table?.enabled !== false
@@ -869,10 +1336,10 @@ export default function ExamRoomClient({
                                             }
 
                                             return (
-                                                <div key={question.id} className={`p-4 ${questionDividerClass}`}>
+                                                <div key={question.id} {...getQuestionRegionProps(question.id)} className={`p-4 scroll-mt-24 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand-700 ${questionDividerClass}`}>
                                                     <div className="mb-3 space-y-1">
                                                         <div className="flex items-start justify-between gap-2">
-                                                            <span className="text-base font-semibold text-gray-900">
+                                                            <span id={`${getQuestionElementId(question.id)}-label`} className="text-base font-semibold text-gray-900">
                                                                 {questionLabel}
                                                             </span>
                                                             {totalPoints > 0 && (
@@ -942,6 +1409,9 @@ export default function ExamRoomClient({
                                                                 {savingStatus[segment.id] === "saved" && (
                                                                     <span className="text-xs text-green-600">{dict.questions.saved}</span>
                                                                 )}
+                                                                {savingStatus[segment.id] === "pending" && (
+                                                                    <span className="text-xs text-amber-700">{dict.questions.savedLocally}</span>
+                                                                )}
                                                                 {savingStatus[segment.id] === "error" && (
                                                                     <span className="text-xs text-red-600">{dict.questions.errorSaving}</span>
                                                                 )}
@@ -961,6 +1431,7 @@ export default function ExamRoomClient({
                 </div>
             </div>
         </div>
+            </AccessibilityProvider>
         </ProctoringProvider>
     )
 }
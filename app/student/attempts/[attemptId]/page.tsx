@@ -8,8 +8,14 @@ import { prisma } from "@/lib/prisma"
 import ExamRoomClient from "./ExamRoomClient"
 import { getDictionary, getLocale } from "@/lib/i18n/server"
 import { parseContent } from "@/lib/content"
-import { getExamEndAt } from "@/lib/exam-time"
+import { getAttemptDeadline } from "@/lib/exam-time"
+import { getStudentExamWindow } from "@/lib/accommodations"
 import { ensureAttemptNonce } from "@/lib/attemptIntegrity"
+import { parseCodeConfig, toStudentCodeConfig } from "@/lib/grading/code-grader"
+import { applyAttemptQuestionSelection } from "@/lib/question-pools"
+import { applyAttemptParameterValues } from "@/lib/question-parameters"
+import { normalizeAccessibilityProfile } from "@/lib/accessibility/profile"
+import { normalizeAntiCheatConfig } from "@/lib/proctoring/types"
 import type { StudentToolsConfig } from "@/types/exams"
 
 export const metadata: Metadata = {
@@ -83,7 +89,8 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
         notFound()
     }
 
-    if (attempt.studentId !== session.user.id) {
+    // Paper copies are answered on paper, not in the exam room
+    if (attempt.studentId !== session.user.id || attempt.paperLayout !== null) {
         redirect("/student/exams")
     }
 
@@ -98,10 +105,10 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
         redirect("/student/exams")
     }
 
-    // Calculate deadline for this attempt
-    const durationMinutes = attempt.exam.durationMinutes ?? 0
-    const examEndAt = getExamEndAt(attempt.exam.startAt, durationMinutes, attempt.exam.endAt)
-    const deadlineAt = examEndAt ?? new Date(attempt.startedAt.getTime() + durationMinutes * 60 * 1000)
+    // Calculate deadline for this attempt (accommodations included)
+    const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+    const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
+        ?? new Date(attempt.startedAt.getTime() + (attempt.exam.durationMinutes ?? 0) * 60 * 1000)
     const now = new Date()
 
     // If already past deadline, redirect
@@ -123,8 +130,8 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
     const examData = {
         id: attempt.exam.id,
         title: attempt.exam.title,
-        startAt: attempt.exam.startAt?.toISOString() ?? null,
-        durationMinutes: attempt.exam.durationMinutes,
+        startAt: examWindow.startAt?.toISOString() ?? null,
+        durationMinutes: examWindow.durationMinutes,
         course: {
             code: attempt.exam.course.code,
             name: attempt.exam.course.name,
@@ -140,13 +147,16 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
         requireHonorCommitment: attempt.exam.requireHonorCommitment,
         allowedMaterials: attempt.exam.allowedMaterials ?? null,
         antiCheatConfig: attempt.exam.antiCheatConfig
-            ? (attempt.exam.antiCheatConfig as { webcamDeterrent?: boolean; browserLockdown?: boolean })
+            ? normalizeAntiCheatConfig(attempt.exam.antiCheatConfig)
             : null,
         changes: attempt.exam.changes.map((change) => ({
             ...change,
             createdAt: change.createdAt.toISOString(),
         })),
-        sections: attempt.exam.sections.map(s => ({
+        sections: applyAttemptParameterValues(
+            applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection),
+            attempt
+        ).map(s => ({
             id: s.id,
             title: s.title,
             order: s.order,
@@ -159,6 +169,7 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
                 answerTemplate: parseContent(q.answerTemplate),
                 answerTemplateLocked: q.answerTemplateLocked,
                 studentTools: (q.studentTools ?? null) as StudentToolsConfig | null,
+                codeConfig: toStudentCodeConfig(parseCodeConfig(q.codeConfig)),
                 type: q.type,
                 order: q.order,
                 customLabel: q.customLabel,
@@ -182,6 +193,8 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
         startedAt: attempt.startedAt.toISOString(),
         submittedAt: attempt.submittedAt ? attempt.submittedAt.toISOString() : null,
         deadlineAt: deadlineAt.toISOString(),
+        pausedAt: attempt.pausedAt?.toISOString() ?? null,
+        hasAccommodation: examWindow.isAccommodated,
         honorStatementText: attempt.honorStatementText ?? null,
         nonce: attemptNonce,
         answers: attempt.answers.map(a => ({
@@ -193,6 +206,20 @@ export default async function ExamRoomPage({ params }: ExamRoomPageProps) {
     }
 
     const dictionary = await getDictionary()
+    const student = await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { accessibilityProfile: true }
+    })
 
-    return <ExamRoomClient attempt={attemptData} exam={examData} studentName={session.user.name} dictionary={dictionary} locale={locale} />
+    return (
+        <ExamRoomClient
+            attempt={attemptData}
+            exam={examData}
+            studentId={session.user.id}
+            studentName={session.user.name}
+            dictionary={dictionary}
+            locale={locale}
+            accessibilityProfile={normalizeAccessibilityProfile(student?.accessibilityProfile)}
+        />
+    )
 }
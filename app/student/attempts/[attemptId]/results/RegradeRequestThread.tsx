@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { MessageSquare } from 'lucide-react'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Badge } from '@/components/ui/Badge'
+import { Button } from '@/components/ui/Button'
+import { Textarea } from '@/components/ui/Form'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Text } from '@/components/ui/Text'
+
+export type RegradeRequestStatus = 'OPEN' | 'ACCEPTED' | 'REJECTED'
+
+export interface RegradeRequestData {
+    id: string
+    status: RegradeRequestStatus
+    justification: string
+    previousScore: number | null
+    newScore: number | null
+    resolvedAt: string | null
+    createdAt: string
+    messages: {
+        id: string
+        body: string
+        createdAt: string
+        author: { id: string; name: string | null; role: string }
+    }[]
+}
+
+const STATUS_VARIANTS: Record<RegradeRequestStatus, 'info' | 'success' | 'warning'> = {
+    OPEN: 'info',
+    ACCEPTED: 'success',
+    REJECTED: 'warning',
+}
+
+interface RegradeRequestThreadProps {
+    attemptId: string
+    questionId: string
+    maxPoints: number
+    request: RegradeRequestData | null
+    canRequest: boolean
+    dict: Dictionary['student']['attemptResults']['regrade']
+    onChange: () => void
+}
+
+/**
+ * Regrade request of one question: the form to file it, then its thread with the teacher.
+ */
+export default function RegradeRequestThread({
+    attemptId,
+    questionId,
+    maxPoints,
+    request,
+    canRequest,
+    dict,
+    onChange,
+}: RegradeRequestThreadProps) {
+    const [isWriting, setIsWriting] = useState(false)
+    const [text, setText] = useState('')
+    const [isSending, setIsSending] = useState(false)
+    const [error, setError] = useState('')
+
+    const send = async (url: string, body: Record<string, string>) => {
+        setIsSending(true)
+        setError('')
+        try {
+            await fetchJsonWithCsrf(url, { method: 'POST', body })
+            setText('')
+            setIsWriting(false)
+            onChange()
+        } catch (err) {
+            console.error('Regrade request error:', err)
+            setError(dict.submitError)
+        } finally {
+            setIsSending(false)
+        }
+    }
+
+    if (!request) {
+        if (!canRequest) return null
+        if (!isWriting) {
+            return (
+                <Button variant="secondary" size="xs" className="w-fit" onClick={() => setIsWriting(true)}>
+                    <MessageSquare className="w-3 h-3" />
+                    {dict.requestButton}
+                </Button>
+            )
+        }
+        return (
+            <Stack gap="xs">
+                <label htmlFor={`regrade-${questionId}`}>
+                    <Text variant="overline">{dict.justificationLabel}</Text>
+                </label>
+                <Textarea
+                    id={`regrade-${questionId}`}
+                    rows={4}
+                    value={text}
+                    onChange={(event) => setText(event.target.value)}
+                    placeholder={dict.justificationPlaceholder}
+                />
+                {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+                <Inline align="end" gap="sm">
+                    <Button variant="ghost" size="xs" onClick={() => setIsWriting(false)}>{dict.cancel}</Button>
+                    <Button
+                        size="xs"
+                        disabled={isSending || !text.trim()}
+                        onClick={() => send(`/api/attempts/${attemptId}/regrade-requests`, { questionId, justification: text })}
+                    >
+                        {dict.submit}
+                    </Button>
+                </Inline>
+            </Stack>
+        )
+    }
+
+    return (
+        <div className="rounded-md border border-gray-200 p-4">
+            <Stack gap="sm">
+                <Inline align="between" gap="sm">
+                    <Text variant="overline">{dict.threadTitle}</Text>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>{dict.status[request.status]}</Badge>
+                </Inline>
+                <Text variant="body" className="whitespace-pre-wrap">{request.justification}</Text>
+                {request.status === 'ACCEPTED' && request.newScore !== null && (
+                    <Text variant="caption" className="text-emerald-700">
+                        {dict.scoreChange} : {request.previousScore ?? '-'} → {request.newScore} / {maxPoints}
+                    </Text>
+                )}
+                {request.messages.map((message) => (
+                    <div key={message.id} className="border-l-2 border-gray-200 pl-3">
+                        <Text variant="xsMuted">
+                            {message.author.role === 'STUDENT' ? dict.studentAuthor : (message.author.name || dict.teacherAuthor)}
+                            {' - '}
+                            {new Date(message.createdAt).toLocaleString()}
+                        </Text>
+                        <Text variant="body" className="whitespace-pre-wrap">{message.body}</Text>
+                    </div>
+                ))}
+                {request.status === 'OPEN' && (
+                    <Stack gap="xs">
+                        <Textarea
+                            rows={2}
+                            value={text}
+                            aria-label={dict.replyPlaceholder}
+                            onChange={(event) => setText(event.target.value)}
+                            placeholder={dict.replyPlaceholder}
+                        />
+                        {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+                        <Inline align="end" gap="sm">
+                            <Button
+                                size="xs"
+                                variant="secondary"
+                                disabled={isSending || !text.trim()}
+                                onClick={() => send(`/api/regrade-requests/${request.id}/messages`, { body: text })}
+                            >
+                                {dict.replySubmit}
+                            </Button>
+                        </Inline>
+                    </Stack>
+                )}
+            </Stack>
+        </div>
+    )
+}
@@ -12,6 +12,9 @@ import { Stack } from '@/components/ui/Layout'
 import { Surface } from '@/components/ui/Layout'
 import { Text } from '@/components/ui/Text'
 import { cn } from '@/components/ui/cn'
+import CriteriaChecklist from '@/components/grading/CriteriaChecklist'
+import type { GradeCriterionResult } from '@/types/exams'
+import RegradeRequestThread, { type RegradeRequestData } from './RegradeRequestThread'
 
 interface ResultData {
     examTitle: string
@@ -19,6 +22,11 @@ interface ResultData {
     submittedAt: string
     totalScore: number
     totalMaxPoints: number
+    regrade: {
+        enabled: boolean
+        deadline: string | null
+        isOpen: boolean
+    }
     sections: {
         id: string
         title: string
@@ -32,8 +40,10 @@ interface ResultData {
             grade: {
                 score: number
                 feedback: string | null
+                criteria: GradeCriterionResult[] | null
                 isAiGrade?: boolean
             } | null
+            regradeRequest: RegradeRequestData | null
         }[]
     }[]
 }
@@ -69,9 +79,10 @@ function getDefaultFeedback(score: number, maxPoints: number): string {
 interface ResultsViewProps {
     attemptId: string
     dictionary: Dictionary
+    isOwner: boolean
 }
 
-export default function ResultsView({ attemptId, dictionary }: ResultsViewProps) {
+export default function ResultsView({ attemptId, dictionary, isOwner }: ResultsViewProps) {
     const router = useRouter()
     const [data, setData] = useState<ResultData | null>(null)
     const [loading, setLoading] = useState(true)
@@ -205,6 +216,13 @@ export default function ResultsView({ attemptId, dictionary }: ResultsViewProps)
                                 <Text variant="muted" className="font-medium text-brand-900 uppercase tracking-wide">{dict.header.finalGradeLabel}</Text>
                             </div>
                         </div>
+                        {data.regrade.enabled && data.regrade.deadline && (
+                            <Text variant="xsMuted" className="mt-4">
+                                {data.regrade.isOpen
+                                    ? `${dict.regrade.deadlineLabel} ${new Date(data.regrade.deadline).toLocaleString()}`
+                                    : dict.regrade.closedLabel}
+                            </Text>
+                        )}
                     </CardBody>
                 </Card>
 
@@ -259,8 +277,24 @@ export default function ResultsView({ attemptId, dictionary }: ResultsViewProps)
                                                             {getDefaultFeedback(question.grade.score, question.maxPoints)}
                                                         </Text>
                                                     )}
+                                                    {question.grade.criteria && (
+                                                        <div className="mt-4">
+                                                            <Text variant="overline" className="mb-2">{dict.questionCard.criteriaLabel}</Text>
+                                                            <CriteriaChecklist criteria={question.grade.criteria} />
+                                                        </div>
+                                                    )}
                                                 </div>
                                             )}
+
+                                            <RegradeRequestThread
+                                                attemptId={attemptId}
+                                                questionId={question.id}
+                                                maxPoints={question.maxPoints}
+                                                request={question.regradeRequest}
+                                                canRequest={isOwner && data.regrade.isOpen && question.grade !== null}
+                                                dict={dict.regrade}
+                                                onChange={fetchResults}
+                                            />
                                         </Stack>
                                     </CardBody>
                                 </Card>
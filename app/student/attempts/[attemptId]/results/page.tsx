@@ -35,5 +35,5 @@ export default async function StudentResultsPage({
 
     const dictionary = await getDictionary()
 
-    return <ResultsView attemptId={attemptId} dictionary={dictionary} />
+    return <ResultsView attemptId={attemptId} dictionary={dictionary} isOwner={isOwner} />
 }
@@ -40,6 +40,7 @@ export default async function StudentCoursesPage() {
     const enrollments = await prisma.enrollment.findMany({
         where: {
             userId: studentId,
+            archivedAt: null,
             class: {
                 archivedAt: null,
                 course: { archivedAt: null }
@@ -78,7 +79,7 @@ export default async function StudentCoursesPage() {
                 some: {
                     archivedAt: null,
                     enrollments: {
-                        some: { userId: studentId }
+                        some: { userId: studentId, archivedAt: null }
                     }
                 }
             }
@@ -129,7 +130,7 @@ export default async function StudentCoursesPage() {
             classes: {
                 include: {
                     enrollments: {
-                        where: { role: 'TEACHER', user: { archivedAt: null } },
+                        where: { role: 'TEACHER', archivedAt: null, user: { archivedAt: null } },
                         include: {
                             user: {
                                 select: {
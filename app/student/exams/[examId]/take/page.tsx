@@ -4,7 +4,8 @@ import { getServerSession } from 'next-auth'
 import { buildAuthOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { isStudent } from '@/lib/api-auth'
-import { getExamEndAt } from '@/lib/exam-time'
+import { getStudentExamWindow } from '@/lib/accommodations'
+import { getDrawnQuestionCount } from '@/lib/question-pools'
 import { getDictionary, getLocale } from '@/lib/i18n/server'
 import ExamStartPage from './ExamStartPage'
 
@@ -59,7 +60,7 @@ export default async function TakeExamPage({ params }: TakeExamPageProps) {
             where: { archivedAt: null },
             include: {
               enrollments: {
-                where: { userId: session.user.id }
+                where: { userId: session.user.id, archivedAt: null }
               }
             }
           }
@@ -103,11 +104,12 @@ export default async function TakeExamPage({ params }: TakeExamPageProps) {
     redirect('/student/exams')
   }
 
-  // Check time window
+  // Check time window (individual window when the student has accommodations)
   const now = new Date()
-  const examEndAt = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
+  const examWindow = await getStudentExamWindow(exam, session.user.id)
+  const examEndAt = examWindow.endAt
 
-  if (exam.startAt && now < exam.startAt) {
+  if (examWindow.startAt && now < examWindow.startAt) {
     // Exam hasn't started yet - redirect to exams list
     redirect('/student/exams')
   }
@@ -139,9 +141,9 @@ export default async function TakeExamPage({ params }: TakeExamPageProps) {
     redirect('/student/exams')
   }
 
-  // Count questions
+  // Count questions (pool sections count the questions each student draws)
   const questionCount = exam.sections.reduce(
-    (sum, section) => sum + section.questions.length,
+    (sum, section) => sum + getDrawnQuestionCount(section),
     0
   )
 
@@ -153,8 +155,8 @@ export default async function TakeExamPage({ params }: TakeExamPageProps) {
     id: exam.id,
     title: exam.title,
     description: exam.description,
-    durationMinutes: exam.durationMinutes,
-    startAt: exam.startAt?.toISOString() ?? null,
+    durationMinutes: examWindow.durationMinutes,
+    startAt: examWindow.startAt?.toISOString() ?? null,
     endAt: exam.endAt?.toISOString() ?? null,
     examEndAt: examEndAt?.toISOString() ?? null,
     requireHonorCommitment: exam.requireHonorCommitment,
@@ -41,6 +41,7 @@ export default async function StudentExamsPage() {
     const enrollments = await prisma.enrollment.findMany({
         where: {
             userId: studentId,
+            archivedAt: null,
             class: {
                 archivedAt: null,
                 course: { archivedAt: null }
@@ -87,7 +88,7 @@ export default async function StudentExamsPage() {
                         some: {
                             archivedAt: null,
                             enrollments: {
-                                some: { userId: studentId },
+                                some: { userId: studentId, archivedAt: null },
                             },
                         },
                     },
@@ -136,7 +137,7 @@ export default async function StudentExamsPage() {
                 classes: {
                     select: {
                         enrollments: {
-                            where: { role: UserRole.TEACHER, user: { archivedAt: null } },
+                            where: { role: UserRole.TEACHER, archivedAt: null, user: { archivedAt: null } },
                             select: {
                                 user: { select: { name: true } },
                             },
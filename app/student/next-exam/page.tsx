@@ -58,6 +58,7 @@ export default async function NextExamPage() {
     const enrollments = await prisma.enrollment.findMany({
         where: {
             userId: studentId,
+            archivedAt: null,
             class: {
                 archivedAt: null,
                 course: { archivedAt: null }
@@ -102,7 +103,7 @@ export default async function NextExamPage() {
                         some: {
                             archivedAt: null,
                             enrollments: {
-                                some: { userId: studentId }
+                                some: { userId: studentId, archivedAt: null }
                             }
                         }
                     }
@@ -3,9 +3,10 @@
 import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { getCsrfToken } from '@/lib/csrfClient'
-import { ArrowLeft, Plus, Users, Layers, FileText, Download, Trash2 } from 'lucide-react'
+import { ArrowLeft, Plus, Users, Layers, FileText, Download, Trash2, Clock } from 'lucide-react'
 import type { Dictionary } from '@/lib/i18n/dictionaries'
 import { CourseCodeBadge } from '@/components/teacher/CourseCodeBadge'
+import AccommodationsPanel from '@/components/accommodations/AccommodationsPanel'
 import { getExamEndAt } from '@/lib/exam-time'
 import { Button } from '@/components/ui/Button'
 import { Card, CardBody } from '@/components/ui/Card'
@@ -63,7 +64,7 @@ export default function TeacherCourseDetailClient({
     const dict = dictionary.teacher.courseDetailPage
     const coursesDict = dictionary.teacher.coursesPage
     const examBuilderDict = dictionary.teacher.examBuilderPage
-    const [activeTab, setActiveTab] = useState<'exams' | 'sections' | 'students'>('exams')
+    const [activeTab, setActiveTab] = useState<'exams' | 'sections' | 'students' | 'accommodations'>('exams')
     const [examIdPendingDelete, setExamIdPendingDelete] = useState<string | null>(null)
     const [isDeleting, setIsDeleting] = useState(false)
     const [examsList, setExamsList] = useState<Exam[]>(exams)
@@ -228,6 +229,14 @@ export default function TeacherCourseDetailClient({
                             <Users className="h-4 w-4" />
                             {dict.tabs.students}
                         </Button>
+                        <Button
+                            variant={activeTab === 'accommodations' ? 'primary' : 'secondary'}
+                            size="xs"
+                            onClick={() => setActiveTab('accommodations')}
+                        >
+                            <Clock className="h-4 w-4" />
+                            {dict.tabs.accommodations}
+                        </Button>
                     </div>
 
                     {activeTab === 'students' && students.length > 0 && (
@@ -424,6 +433,11 @@ export default function TeacherCourseDetailClient({
                             )}
                         </Stack>
                     )}
+
+                    {/* Accommodations Tab */}
+                    {activeTab === 'accommodations' && (
+                        <AccommodationsPanel courseId={courseId} dictionary={dictionary} />
+                    )}
                 </CardBody>
             </Card>
         </div>
@@ -43,6 +43,7 @@ export default async function TeacherCourseDetailPage({
                 include: {
                     enrollments: {
                         where: {
+                            archivedAt: null,
                             user: { archivedAt: null }
                         },
                         include: {
@@ -25,7 +25,8 @@ export default async function TeacherCoursesPage() {
                             enrollments: {
                                 some: {
                                     userId: session.user.id,
-                                    role: 'TEACHER'
+                                    role: 'TEACHER',
+                                    archivedAt: null
                                 }
                             }
                         }
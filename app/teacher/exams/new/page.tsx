@@ -31,7 +31,8 @@ export default async function TeacherNewExamPage() {
                             enrollments: {
                                 some: {
                                     userId: session.user.id,
-                                    role: 'TEACHER'
+                                    role: 'TEACHER',
+                                    archivedAt: null
                                 }
                             }
                         }
@@ -68,6 +69,7 @@ export default async function TeacherNewExamPage() {
                 where: {
                     userId: session.user.id,
                     role: 'TEACHER',
+                    archivedAt: null,
                     class: {
                         courseId: { in: courseIds },
                         archivedAt: null,
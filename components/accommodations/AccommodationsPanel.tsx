@@ -0,0 +1,433 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import ConfirmModal from '@/components/ui/ConfirmModal'
+import { Badge } from '@/components/ui/Badge'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Input, Select } from '@/components/ui/Form'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Text } from '@/components/ui/Text'
+
+type Accommodation = {
+    id: string
+    userId: string | null
+    classId: string | null
+    examId: string | null
+    durationMultiplier: number | null
+    extraMinutes: number | null
+    startAt: string | null
+    endAt: string | null
+    lateStartGraceMinutes: number | null
+    reason: string | null
+    user: { id: string; name: string | null; email: string | null } | null
+    class: { id: string; name: string } | null
+    exam: { id: string; title: string } | null
+}
+
+type Option = { id: string; label: string }
+
+type AccommodationsResponse = {
+    accommodations: Accommodation[]
+    students: { id: string; name: string | null; email: string | null }[]
+    sections: { id: string; name: string }[]
+    exams: { id: string; title: string }[]
+}
+
+type FormState = {
+    target: 'student' | 'section'
+    userId: string
+    classId: string
+    examId: string
+    durationMultiplier: string
+    extraMinutes: string
+    lateStartGraceMinutes: string
+    startAt: string
+    endAt: string
+    reason: string
+}
+
+type AccommodationsPanelProps = {
+    courseId: string
+    dictionary: Dictionary
+}
+
+const DEFAULT_SECTION_NAME = '__DEFAULT__'
+
+const emptyForm: FormState = {
+    target: 'student',
+    userId: '',
+    classId: '',
+    examId: '',
+    durationMultiplier: '',
+    extraMinutes: '',
+    lateStartGraceMinutes: '',
+    startAt: '',
+    endAt: '',
+    reason: '',
+}
+
+// datetime-local inputs work in local time without timezone suffix
+const toLocalInputValue = (iso: string | null) => {
+    if (!iso) return ''
+    const date = new Date(iso)
+    const offset = date.getTimezoneOffset() * 60000
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+const toNumberOrNull = (value: string) => {
+    const trimmed = value.trim()
+    if (!trimmed) return null
+    const parsed = Number(trimmed.replace(',', '.'))
+    return Number.isFinite(parsed) ? parsed : null
+}
+
+export default function AccommodationsPanel({ courseId, dictionary }: AccommodationsPanelProps) {
+    const dict = dictionary.accommodations
+    const [accommodations, setAccommodations] = useState<Accommodation[]>([])
+    const [students, setStudents] = useState<Option[]>([])
+    const [sections, setSections] = useState<Option[]>([])
+    const [exams, setExams] = useState<Option[]>([])
+    const [loading, setLoading] = useState(true)
+    const [error, setError] = useState('')
+    const [formOpen, setFormOpen] = useState(false)
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [form, setForm] = useState<FormState>(emptyForm)
+    const [saving, setSaving] = useState(false)
+    const [pendingRemoveId, setPendingRemoveId] = useState<string | null>(null)
+
+    const loadAccommodations = useCallback(async () => {
+        setLoading(true)
+        try {
+            const data = await fetchJsonWithCsrf<AccommodationsResponse>(`/api/courses/${courseId}/accommodations`)
+            setAccommodations(data.accommodations)
+            setStudents(data.students.map(s => ({ id: s.id, label: s.name || s.email || s.id })))
+            setSections(data.sections
+                .filter(s => s.name !== DEFAULT_SECTION_NAME)
+                .map(s => ({ id: s.id, label: s.name })))
+            setExams(data.exams.map(e => ({ id: e.id, label: e.title })))
+            setError('')
+        } catch (err) {
+            console.error('[Accommodations] Load failed', err)
+            setError(dict.loadError)
+        } finally {
+            setLoading(false)
+        }
+    }, [courseId, dict.loadError])
+
+    useEffect(() => {
+        void loadAccommodations()
+    }, [loadAccommodations])
+
+    const openCreate = () => {
+        setEditingId(null)
+        setForm(emptyForm)
+        setError('')
+        setFormOpen(true)
+    }
+
+    const openEdit = (accommodation: Accommodation) => {
+        setEditingId(accommodation.id)
+        setForm({
+            target: accommodation.classId ? 'section' : 'student',
+            userId: accommodation.userId ?? '',
+            classId: accommodation.classId ?? '',
+            examId: accommodation.examId ?? '',
+            durationMultiplier: accommodation.durationMultiplier?.toString() ?? '',
+            extraMinutes: accommodation.extraMinutes?.toString() ?? '',
+            lateStartGraceMinutes: accommodation.lateStartGraceMinutes?.toString() ?? '',
+            startAt: toLocalInputValue(accommodation.startAt),
+            endAt: toLocalInputValue(accommodation.endAt),
+            reason: accommodation.reason ?? '',
+        })
+        setError('')
+        setFormOpen(true)
+    }
+
+    const closeForm = () => {
+        setFormOpen(false)
+        setEditingId(null)
+    }
+
+    const handleSave = async () => {
+        const rules = {
+            examId: form.examId || null,
+            durationMultiplier: toNumberOrNull(form.durationMultiplier),
+            extraMinutes: toNumberOrNull(form.extraMinutes),
+            lateStartGraceMinutes: toNumberOrNull(form.lateStartGraceMinutes),
+            startAt: form.startAt ? new Date(form.startAt).toISOString() : null,
+            endAt: form.endAt ? new Date(form.endAt).toISOString() : null,
+            reason: form.reason.trim() || null,
+        }
+
+        const hasRule = rules.durationMultiplier !== null || rules.extraMinutes !== null
+            || rules.lateStartGraceMinutes !== null || rules.startAt !== null || rules.endAt !== null
+        if (!hasRule) {
+            setError(dict.missingRule)
+            return
+        }
+
+        setSaving(true)
+        setError('')
+        try {
+            if (editingId) {
+                await fetchJsonWithCsrf(`/api/courses/${courseId}/accommodations/${editingId}`, {
+                    method: 'PATCH',
+                    body: rules,
+                })
+            } else {
+                const targetId = form.target === 'student' ? form.userId : form.classId
+                if (!targetId) {
+                    setError(dict.missingTarget)
+                    return
+                }
+                await fetchJsonWithCsrf(`/api/courses/${courseId}/accommodations`, {
+                    method: 'POST',
+                    body: {
+                        ...rules,
+                        ...(form.target === 'student' ? { userId: targetId } : { classId: targetId }),
+                    },
+                })
+            }
+            closeForm()
+            await loadAccommodations()
+        } catch (err) {
+            console.error('[Accommodations] Save failed', err)
+            setError(dict.saveError)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleRemove = async () => {
+        if (!pendingRemoveId) return
+        try {
+            await fetchJsonWithCsrf(`/api/courses/${courseId}/accommodations/${pendingRemoveId}`, {
+                method: 'DELETE',
+            })
+            setAccommodations(prev => prev.filter(a => a.id !== pendingRemoveId))
+        } catch (err) {
+            console.error('[Accommodations] Remove failed', err)
+            setError(dict.saveError)
+        } finally {
+            setPendingRemoveId(null)
+        }
+    }
+
+    const describeRules = (accommodation: Accommodation) => {
+        const parts: string[] = []
+        if (accommodation.durationMultiplier) parts.push(`× ${accommodation.durationMultiplier}`)
+        if (accommodation.extraMinutes) parts.push(`+${accommodation.extraMinutes} min`)
+        if (accommodation.startAt) parts.push(`${dict.startAtLabel}: ${new Date(accommodation.startAt).toLocaleString()}`)
+        if (accommodation.endAt) parts.push(`${dict.endAtLabel}: ${new Date(accommodation.endAt).toLocaleString()}`)
+        if (accommodation.lateStartGraceMinutes) parts.push(`${dict.lateStartGraceLabel}: ${accommodation.lateStartGraceMinutes}`)
+        return parts.join(' · ')
+    }
+
+    return (
+        <Stack gap="md">
+            <Inline align="between" gap="md">
+                <Text variant="muted">{dict.subtitle}</Text>
+                {!formOpen && (
+                    <Button type="button" size="xs" onClick={openCreate}>
+                        <Plus className="h-4 w-4" />
+                        {dict.addButton}
+                    </Button>
+                )}
+            </Inline>
+
+            {error && (
+                <Text variant="muted" className="text-red-700">{error}</Text>
+            )}
+
+            {formOpen && (
+                <Card>
+                    <CardBody padding="md">
+                        <Stack gap="md">
+                            {!editingId && (
+                                <Inline align="start" gap="md">
+                                    <label className="flex flex-col gap-1">
+                                        <Text variant="label">{dict.targetLabel}</Text>
+                                        <Select
+                                            value={form.target}
+                                            onChange={(e) => setForm({ ...form, target: e.target.value as FormState['target'] })}
+                                        >
+                                            <option value="student">{dict.targetStudent}</option>
+                                            <option value="section">{dict.targetSection}</option>
+                                        </Select>
+                                    </label>
+                                    {form.target === 'student' ? (
+                                        <label className="flex flex-col gap-1">
+                                            <Text variant="label">{dict.studentLabel} *</Text>
+                                            <Select
+                                                value={form.userId}
+                                                onChange={(e) => setForm({ ...form, userId: e.target.value })}
+                                            >
+                                                <option value="">{dict.selectPlaceholder}</option>
+                                                {students.map(s => (
+                                                    <option key={s.id} value={s.id}>{s.label}</option>
+                                                ))}
+                                            </Select>
+                                        </label>
+                                    ) : (
+                                        <label className="flex flex-col gap-1">
+                                            <Text variant="label">{dict.sectionLabel} *</Text>
+                                            <Select
+                                                value={form.classId}
+                                                onChange={(e) => setForm({ ...form, classId: e.target.value })}
+                                            >
+                                                <option value="">{dict.selectPlaceholder}</option>
+                                                {sections.map(s => (
+                                                    <option key={s.id} value={s.id}>{s.label}</option>
+                                                ))}
+                                            </Select>
+                                        </label>
+                                    )}
+                                </Inline>
+                            )}
+                            <label className="flex flex-col gap-1">
+                                <Text variant="label">{dict.examLabel}</Text>
+                                <Select
+                                    value={form.examId}
+                                    onChange={(e) => setForm({ ...form, examId: e.target.value })}
+                                >
+                                    <option value="">{dict.allExams}</option>
+                                    {exams.map(e => (
+                                        <option key={e.id} value={e.id}>{e.label}</option>
+                                    ))}
+                                </Select>
+                            </label>
+                            <Inline align="start" gap="md">
+                                <label className="flex flex-col gap-1">
+                                    <Text variant="label">{dict.durationMultiplierLabel}</Text>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        max={4}
+                                        step={0.01}
+                                        value={form.durationMultiplier}
+                                        placeholder={dict.durationMultiplierPlaceholder}
+                                        onChange={(e) => setForm({ ...form, durationMultiplier: e.target.value })}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    <Text variant="label">{dict.extraMinutesLabel}</Text>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        step={1}
+                                        value={form.extraMinutes}
+                                        onChange={(e) => setForm({ ...form, extraMinutes: e.target.value })}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    <Text variant="label">{dict.lateStartGraceLabel}</Text>
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        step={1}
+                                        value={form.lateStartGraceMinutes}
+                                        onChange={(e) => setForm({ ...form, lateStartGraceMinutes: e.target.value })}
+                                    />
+                                </label>
+                            </Inline>
+                            <Inline align="start" gap="md">
+                                <label className="flex flex-col gap-1">
+                                    <Text variant="label">{dict.startAtLabel}</Text>
+                                    <Input
+                                        type="datetime-local"
+                                        value={form.startAt}
+                                        onChange={(e) => setForm({ ...form, startAt: e.target.value })}
+                                    />
+                                </label>
+                                <label className="flex flex-col gap-1">
+                                    <Text variant="label">{dict.endAtLabel}</Text>
+                                    <Input
+                                        type="datetime-local"
+                                        value={form.endAt}
+                                        onChange={(e) => setForm({ ...form, endAt: e.target.value })}
+                                    />
+                                </label>
+                            </Inline>
+                            <label className="flex flex-col gap-1">
+                                <Text variant="label">{dict.reasonLabel}</Text>
+                                <Input
+                                    type="text"
+                                    maxLength={500}
+                                    value={form.reason}
+                                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                                />
+                            </label>
+                            <Inline align="end" gap="sm">
+                                <Button type="button" variant="secondary" size="sm" onClick={closeForm}>
+                                    {dict.cancelButton}
+                                </Button>
+                                <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+                                    {dict.saveButton}
+                                </Button>
+                            </Inline>
+                        </Stack>
+                    </CardBody>
+                </Card>
+            )}
+
+            {loading ? null : accommodations.length === 0 ? (
+                <Text variant="muted" className="text-center py-8 italic">{dict.empty}</Text>
+            ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {accommodations.map((accommodation) => (
+                        <li key={accommodation.id} className="px-4 py-3 flex items-center justify-between gap-3 hover:bg-gray-50">
+                            <Stack gap="xs">
+                                <Inline align="start" gap="sm">
+                                    <Text variant="body" className="font-medium">
+                                        {accommodation.user
+                                            ? accommodation.user.name || accommodation.user.email
+                                            : accommodation.class?.name}
+                                    </Text>
+                                    <Badge variant={accommodation.classId ? 'info' : 'neutral'}>
+                                        {accommodation.classId ? dict.sectionLabel : dict.studentLabel}
+                                    </Badge>
+                                    <Badge variant="neutral">
+                                        {accommodation.exam?.title ?? dict.allExams}
+                                    </Badge>
+                                </Inline>
+                                <Text variant="xsMuted">{describeRules(accommodation)}</Text>
+                                {accommodation.reason && (
+                                    <Text variant="xsMuted" className="italic">{accommodation.reason}</Text>
+                                )}
+                            </Stack>
+                            <Inline align="end" gap="sm" wrap="nowrap">
+                                <Button type="button" variant="ghost" size="xs" onClick={() => openEdit(accommodation)}>
+                                    <Pencil className="h-4 w-4" />
+                                    {dict.editButton}
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="destructive"
+                                    size="xs"
+                                    onClick={() => setPendingRemoveId(accommodation.id)}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                    {dict.removeButton}
+                                </Button>
+                            </Inline>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <ConfirmModal
+                open={pendingRemoveId !== null}
+                title={dict.removeConfirmTitle}
+                description={dict.removeConfirmDescription}
+                confirmLabel={dict.removeButton}
+                cancelLabel={dict.cancelButton}
+                onConfirm={handleRemove}
+                onCancel={() => setPendingRemoveId(null)}
+            />
+        </Stack>
+    )
+}
@@ -1,12 +1,12 @@
 'use client'
 
 import { useState, useCallback, useRef, useEffect } from 'react'
-import { Plus, FileText, ListChecks, ChevronDown } from 'lucide-react'
+import { Plus, FileText, ListChecks, Code, Hash, Sigma, ChevronDown } from 'lucide-react'
 import { useExamStore } from './store'
 import { addQuestion } from '@/lib/actions/exam-editor'
 import { useToast } from '@/components/ui/Toast'
 
-type QuestionType = 'TEXT' | 'MCQ'
+type QuestionType = 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
 
 interface QuestionTypeOption {
   type: QuestionType
@@ -28,6 +28,24 @@ const questionTypes: QuestionTypeOption[] = [
     description: 'Select one or more correct options',
     icon: ListChecks,
   },
+  {
+    type: 'CODE',
+    label: 'Code',
+    description: 'Program graded automatically against test cases',
+    icon: Code,
+  },
+  {
+    type: 'NUMERIC',
+    label: 'Numeric',
+    description: 'Number with tolerance and units, scored on submit',
+    icon: Hash,
+  },
+  {
+    type: 'MATH_EXPRESSION',
+    label: 'Math Expression',
+    description: 'Formula checked for equivalence with the expected expression',
+    icon: Sigma,
+  },
 ]
 
 export default function AddQuestionButton() {
@@ -92,12 +110,14 @@ export default function AddQuestionButton() {
             answerTemplateLocked: result.question.answerTemplateLocked,
             studentTools: result.question.studentTools as import('@/types/exams').StudentToolsConfig | null,
             shuffleOptions: result.question.shuffleOptions,
-            type: result.question.type as 'TEXT' | 'MCQ' | 'CODE',
+            type: result.question.type as QuestionType,
             order: result.question.order,
             customLabel: result.question.customLabel,
             requireAllCorrect: result.question.requireAllCorrect,
             maxPoints: result.question.maxPoints,
             correctionGuidelines: result.question.correctionGuidelines ?? null,
+            codeConfig: result.question.codeConfig,
+            answerKey: result.question.answerKey,
             segments: result.question.segments.map(seg => ({
               id: seg.id,
               order: seg.order,
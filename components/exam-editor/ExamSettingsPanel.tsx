@@ -4,7 +4,9 @@ import { useExamStore } from './store'
 import { Surface, Stack, Inline } from '@/components/ui/Layout'
 import { Text } from '@/components/ui/Text'
 import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Form'
 import { X } from 'lucide-react'
+import { DEFAULT_ANTI_CHEAT_CONFIG, INACTIVITY_MINUTES_OPTIONS } from '@/lib/proctoring/types'
 
 interface ExamSettingsPanelProps {
   onClose: () => void
@@ -16,7 +18,7 @@ export default function ExamSettingsPanel({ onClose }: ExamSettingsPanelProps) {
 
   if (!exam) return null
 
-  const antiCheatConfig = exam.antiCheatConfig || { webcamDeterrent: false, browserLockdown: false }
+  const antiCheatConfig = { ...DEFAULT_ANTI_CHEAT_CONFIG, ...exam.antiCheatConfig }
 
   const handleToggleWebcam = () => {
     updateAntiCheatConfig({ webcamDeterrent: !antiCheatConfig.webcamDeterrent })
@@ -26,6 +28,14 @@ export default function ExamSettingsPanel({ onClose }: ExamSettingsPanelProps) {
     updateAntiCheatConfig({ browserLockdown: !antiCheatConfig.browserLockdown })
   }
 
+  const handleToggleFullscreen = () => {
+    updateAntiCheatConfig({ requireFullscreen: !antiCheatConfig.requireFullscreen })
+  }
+
+  const handleInactivityChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    updateAntiCheatConfig({ inactivityMinutes: Number(event.target.value) })
+  }
+
   return (
     <div className="absolute right-0 top-full mt-2 z-50 w-96">
       <Surface className="p-4 shadow-xl">
@@ -75,6 +85,47 @@ export default function ExamSettingsPanel({ onClose }: ExamSettingsPanelProps) {
               Detecte les changements d'onglet, les pertes de focus et les collages depuis des sources externes.
             </Text>
           </Stack>
+
+          {/* Required Fullscreen Setting */}
+          <Stack gap="xs">
+            <Inline align="between" wrap="nowrap">
+              <label htmlFor="fullscreen-toggle" className="flex items-center gap-3 cursor-pointer flex-1">
+                <input
+                  type="checkbox"
+                  id="fullscreen-toggle"
+                  checked={antiCheatConfig.requireFullscreen}
+                  onChange={handleToggleFullscreen}
+                  className="w-4 h-4 rounded border-gray-300 text-brand-600 focus:ring-brand-500 focus:ring-offset-0 focus:ring-2 cursor-pointer"
+                />
+                <Text variant="label" className="flex-1">Plein ecran obligatoire</Text>
+              </label>
+            </Inline>
+            <Text variant="muted" className="ml-7">
+              L&apos;examen reste masque tant que l&apos;etudiant n&apos;est pas en plein ecran. Chaque sortie du plein ecran est signalee.
+            </Text>
+          </Stack>
+
+          {/* Inactivity Setting */}
+          <Stack gap="xs">
+            <label htmlFor="inactivity-select">
+              <Text variant="label">Detection d&apos;inactivite</Text>
+            </label>
+            <Select
+              id="inactivity-select"
+              size="sm"
+              value={antiCheatConfig.inactivityMinutes}
+              onChange={handleInactivityChange}
+            >
+              {INACTIVITY_MINUTES_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Desactivee' : `Apres ${minutes} min sans activite`}
+                </option>
+              ))}
+            </Select>
+            <Text variant="muted">
+              Signale un etudiant qui n&apos;utilise ni le clavier ni la souris pendant cette duree.
+            </Text>
+          </Stack>
         </Stack>
       </Surface>
     </div>
@@ -1,7 +1,7 @@
 'use client'
 
 import { useExamStore, useQuestion } from './store'
-import { FileText, ListChecks, Code } from 'lucide-react'
+import { FileText, ListChecks, Code, Hash, Sigma } from 'lucide-react'
 import QuestionEditorFactory from './question-types/QuestionEditorFactory'
 
 export default function QuestionPanel() {
@@ -38,6 +38,10 @@ export default function QuestionPanel() {
         return ListChecks
       case 'CODE':
         return Code
+      case 'NUMERIC':
+        return Hash
+      case 'MATH_EXPRESSION':
+        return Sigma
       default:
         return FileText
     }
@@ -52,6 +56,10 @@ export default function QuestionPanel() {
         return 'Multiple Choice'
       case 'CODE':
         return 'Code'
+      case 'NUMERIC':
+        return 'Numeric'
+      case 'MATH_EXPRESSION':
+        return 'Math Expression'
       default:
         return 'Open Question'
     }
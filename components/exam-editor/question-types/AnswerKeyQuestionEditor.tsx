@@ -0,0 +1,69 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useExamStore, useQuestion } from '../store'
+import OpenQuestionEditor from './OpenQuestionEditor'
+import { AnswerKeySettings } from '@/components/exams/builder/AnswerKeySettings'
+import { useToast } from '@/components/ui/Toast'
+import type { AnswerKey } from '@/types/exams'
+
+interface AnswerKeyQuestionEditorProps {
+  questionId: string
+  /** Locale for labels */
+  locale?: 'fr' | 'en'
+}
+
+/**
+ * Editor for NUMERIC and MATH_EXPRESSION questions
+ *
+ * Features:
+ * - Question body and points (shared with open questions)
+ * - Expected value with tolerance and units, or reference expression and variables
+ * - The answer key is saved right away so submissions are scored with it
+ */
+export default function AnswerKeyQuestionEditor({ questionId, locale = 'fr' }: AnswerKeyQuestionEditorProps) {
+  const question = useQuestion(questionId)
+  const exam = useExamStore((state) => state.exam)
+  const updateQuestion = useExamStore((state) => state.updateQuestion)
+  const { toast } = useToast()
+
+  const handleSave = useCallback(
+    async (answerKey: AnswerKey) => {
+      updateQuestion(questionId, { answerKey })
+      const sectionId = exam?.sections.find((section) =>
+        section.questions.some((q) => q.id === questionId)
+      )?.id
+      if (!exam || !sectionId) return
+
+      try {
+        const res = await fetch(`/api/exams/${exam.id}/sections/${sectionId}/questions/${questionId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ answerKey }),
+        })
+        if (!res.ok) throw new Error('Failed to save answer key')
+      } catch (error) {
+        console.error('Failed to save answer key:', error)
+        toast(locale === 'fr' ? 'Échec de l’enregistrement de la réponse attendue' : 'Failed to save expected answer', 'error')
+      }
+    },
+    [exam, questionId, updateQuestion, toast, locale]
+  )
+
+  if (!question || (question.type !== 'NUMERIC' && question.type !== 'MATH_EXPRESSION')) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Question not found
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <OpenQuestionEditor questionId={questionId} locale={locale} />
+      <div className="pt-4 border-t border-gray-200">
+        <AnswerKeySettings type={question.type} answerKey={question.answerKey} locale={locale} onSave={handleSave} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useExamStore, useQuestion } from '../store'
+import OpenQuestionEditor from './OpenQuestionEditor'
+import { CodeQuestionSettings } from '@/components/exams/builder/CodeQuestionSettings'
+import { useToast } from '@/components/ui/Toast'
+import type { CodeQuestionConfig } from '@/types/exams'
+
+interface CodeQuestionEditorProps {
+  questionId: string
+  /** Locale for labels */
+  locale?: 'fr' | 'en'
+}
+
+/**
+ * Editor for CODE questions
+ *
+ * Features:
+ * - Question body and points (shared with open questions)
+ * - Language, starter code, limits and visible/hidden test cases
+ * - Test configuration is saved right away so the code-grading worker sees it
+ */
+export default function CodeQuestionEditor({ questionId, locale = 'fr' }: CodeQuestionEditorProps) {
+  const question = useQuestion(questionId)
+  const exam = useExamStore((state) => state.exam)
+  const updateQuestion = useExamStore((state) => state.updateQuestion)
+  const { toast } = useToast()
+
+  const handleSave = useCallback(
+    async (codeConfig: CodeQuestionConfig) => {
+      updateQuestion(questionId, { codeConfig })
+      const sectionId = exam?.sections.find((section) =>
+        section.questions.some((q) => q.id === questionId)
+      )?.id
+      if (!exam || !sectionId) return
+
+      try {
+        const res = await fetch(`/api/exams/${exam.id}/sections/${sectionId}/questions/${questionId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ codeConfig }),
+        })
+        if (!res.ok) throw new Error('Failed to save code configuration')
+      } catch (error) {
+        console.error('Failed to save code configuration:', error)
+        toast(locale === 'fr' ? 'Échec de l’enregistrement des tests' : 'Failed to save tests', 'error')
+      }
+    },
+    [exam, questionId, updateQuestion, toast, locale]
+  )
+
+  if (!question) {
+    return (
+      <div className="p-4 text-center text-gray-500">
+        Question not found
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <OpenQuestionEditor questionId={questionId} locale={locale} />
+      <div className="pt-4 border-t border-gray-200">
+        <CodeQuestionSettings config={question.codeConfig} locale={locale} onSave={handleSave} />
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useQuestion } from '../store'
 import OpenQuestionEditor from './OpenQuestionEditor'
 import MultipleChoiceEditor from './MultipleChoiceEditor'
+import CodeQuestionEditor from './CodeQuestionEditor'
+import AnswerKeyQuestionEditor from './AnswerKeyQuestionEditor'
 
 interface QuestionEditorFactoryProps {
   questionId: string
@@ -10,7 +12,7 @@ interface QuestionEditorFactoryProps {
 
 /**
  * Factory component that renders the appropriate editor
- * based on the question type (TEXT, MCQ, CODE)
+ * based on the question type (TEXT, MCQ, CODE, NUMERIC, MATH_EXPRESSION)
  */
 export default function QuestionEditorFactory({ questionId }: QuestionEditorFactoryProps) {
   const question = useQuestion(questionId)
@@ -29,12 +31,10 @@ export default function QuestionEditorFactory({ questionId }: QuestionEditorFact
     case 'MCQ':
       return <MultipleChoiceEditor questionId={questionId} />
     case 'CODE':
-      return (
-        <div className="p-6 text-center text-gray-500 bg-gray-50 rounded-lg border border-dashed border-gray-300">
-          <p className="text-sm font-medium">Code Editor</p>
-          <p className="text-xs mt-1">Not implemented - coming in future version</p>
-        </div>
-      )
+      return <CodeQuestionEditor questionId={questionId} />
+    case 'NUMERIC':
+    case 'MATH_EXPRESSION':
+      return <AnswerKeyQuestionEditor questionId={questionId} />
     default:
       return (
         <div className="p-4 text-center text-red-500">
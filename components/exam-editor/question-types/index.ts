@@ -1,3 +1,5 @@
 export { default as QuestionEditorFactory } from './QuestionEditorFactory'
 export { default as OpenQuestionEditor } from './OpenQuestionEditor'
 export { default as MultipleChoiceEditor } from './MultipleChoiceEditor'
+export { default as CodeQuestionEditor } from './CodeQuestionEditor'
+export { default as AnswerKeyQuestionEditor } from './AnswerKeyQuestionEditor'
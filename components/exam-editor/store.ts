@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { ContentSegments, QuestionType, StudentToolsConfig, RubricLevel } from '@/types/exams'
+import type { AnswerKey, CodeQuestionConfig, ContentSegments, QuestionType, StudentToolsConfig, RubricLevel } from '@/types/exams'
 import type { AntiCheatConfig } from '@/lib/proctoring/types'
 import { DEFAULT_ANTI_CHEAT_CONFIG } from '@/lib/proctoring/types'
 
@@ -69,6 +69,10 @@ export interface EditorQuestion {
   segments: EditorSegment[]
   /** AI grading guidelines for TEXT questions (Phase 4) */
   correctionGuidelines: string | null
+  /** Language, starter code and test suite for CODE questions */
+  codeConfig: CodeQuestionConfig | null
+  /** Expected answer of NUMERIC and MATH_EXPRESSION questions */
+  answerKey: AnswerKey | null
 }
 
 /**
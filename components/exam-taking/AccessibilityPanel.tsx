@@ -0,0 +1,96 @@
+'use client'
+
+import { useId, useState } from 'react'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { FONT_SCALES, type AccessibilityProfile, type FontScale } from '@/lib/accessibility/profile'
+
+type AccessibilityPanelProps = {
+  studentId: string
+  profile: AccessibilityProfile
+  onChange: (profile: AccessibilityProfile) => void
+  labels: Dictionary['student']['examRunner']['accessibility']
+}
+
+type ToggleKey = 'highContrast' | 'dyslexiaFont' | 'reducedMotion'
+
+const TOGGLES: ToggleKey[] = ['highContrast', 'dyslexiaFont', 'reducedMotion']
+
+/**
+ * AccessibilityPanel - Display options shown in the exam room
+ *
+ * Changes apply immediately and are saved to the student's profile,
+ * so they carry over to the next exams.
+ */
+export default function AccessibilityPanel({ studentId, profile, onChange, labels }: AccessibilityPanelProps) {
+  const panelId = useId()
+  const [open, setOpen] = useState(false)
+  const [status, setStatus] = useState<'saved' | 'error' | null>(null)
+
+  const update = async (next: AccessibilityProfile) => {
+    onChange(next)
+    setStatus(null)
+    try {
+      await fetchJsonWithCsrf(`/api/students/${studentId}/accessibility`, {
+        method: 'PUT',
+        body: next,
+      })
+      setStatus('saved')
+    } catch (error) {
+      console.error('[Accessibility] Save failed', error)
+      setStatus('error')
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-controls={panelId}
+        onClick={() => setOpen((value) => !value)}
+        className="text-xs font-medium text-gray-600 hover:text-gray-900 underline underline-offset-2"
+      >
+        {labels.toggle}
+      </button>
+      {open && (
+        <div
+          id={panelId}
+          role="group"
+          aria-label={labels.title}
+          className="absolute right-0 z-30 mt-2 w-64 rounded-md border border-gray-200 bg-white p-4 text-left shadow-lg space-y-3"
+        >
+          <div className="text-sm font-semibold text-gray-900">{labels.title}</div>
+          <label className="block text-sm text-gray-700">
+            <span className="block mb-1">{labels.fontSize}</span>
+            <select
+              value={profile.fontScale}
+              onChange={(event) => void update({ ...profile, fontScale: Number(event.target.value) as FontScale })}
+              className="w-full rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              {FONT_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {`${scale * 100} %`}
+                </option>
+              ))}
+            </select>
+          </label>
+          {TOGGLES.map((key) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={profile[key]}
+                onChange={(event) => void update({ ...profile, [key]: event.target.checked })}
+              />
+              {labels[key]}
+            </label>
+          ))}
+          <div role="status" aria-live="polite" className="text-xs">
+            {status === 'saved' && <span className="text-green-600">{labels.saved}</span>}
+            {status === 'error' && <span className="text-red-600">{labels.saveError}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
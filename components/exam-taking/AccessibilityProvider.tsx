@@ -0,0 +1,69 @@
+'use client'
+
+import { createContext, useContext, useEffect, useSyncExternalStore, type ReactNode } from 'react'
+import { cn } from '@/components/ui/cn'
+import type { AccessibilityProfile } from '@/lib/accessibility/profile'
+import type { SpeechLocale } from '@/lib/accessibility/math-speech'
+
+type AccessibilityContextValue = {
+  locale: SpeechLocale
+  profile: AccessibilityProfile | null
+}
+
+const AccessibilityContext = createContext<AccessibilityContextValue | null>(null)
+
+const subscribeToNothing = () => () => {}
+
+const readDocumentLocale = (): SpeechLocale =>
+  document.documentElement.lang === 'en' ? 'en' : 'fr'
+
+/**
+ * Language of spoken math and graph descriptions: the exam room locale when
+ * inside the provider, otherwise the page language.
+ */
+export function useSpeechLocale(): SpeechLocale {
+  const context = useContext(AccessibilityContext)
+  const documentLocale = useSyncExternalStore(subscribeToNothing, readDocumentLocale, () => 'fr' as const)
+  return context?.locale ?? documentLocale
+}
+
+export function useAccessibilityProfile(): AccessibilityProfile | null {
+  return useContext(AccessibilityContext)?.profile ?? null
+}
+
+interface AccessibilityProviderProps {
+  profile: AccessibilityProfile
+  locale: string
+  children: ReactNode
+}
+
+/**
+ * AccessibilityProvider - Applies a student's accessibility profile
+ *
+ * - Font scaling through the root font size, so every rem-based size follows
+ * - High contrast, dyslexia font and reduced motion through wrapper classes (see globals.css)
+ */
+export default function AccessibilityProvider({ profile, locale, children }: AccessibilityProviderProps) {
+  useEffect(() => {
+    const root = document.documentElement
+    const previous = root.style.fontSize
+    root.style.fontSize = profile.fontScale === 1 ? previous : `${profile.fontScale * 100}%`
+    return () => {
+      root.style.fontSize = previous
+    }
+  }, [profile.fontScale])
+
+  return (
+    <AccessibilityContext.Provider value={{ locale: locale === 'en' ? 'en' : 'fr', profile }}>
+      <div
+        className={cn(
+          profile.highContrast && 'a11y-high-contrast',
+          profile.dyslexiaFont && 'a11y-dyslexia',
+          profile.reducedMotion && 'a11y-reduced-motion'
+        )}
+      >
+        {children}
+      </div>
+    </AccessibilityContext.Provider>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useRef, useState, type KeyboardEvent } from 'react'
+import type { CodeLanguage, CodeTestCase, CodeTestResult } from '@/types/exams'
+
+type CodeAnswerEditorProps = {
+  value: string
+  onChange: (code: string) => void
+  language: CodeLanguage
+  starterCode?: string
+  visibleTests?: CodeTestCase[]
+  hiddenTestCount?: number
+  disabled?: boolean
+  locale?: string
+  onRunTests?: (code: string) => Promise<CodeTestResult[]>
+}
+
+const INDENT = '    '
+
+const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  python: 'Python 3',
+  javascript: 'JavaScript',
+}
+
+/**
+ * CodeAnswerEditor - Monospace editor for CODE questions
+ *
+ * Features:
+ * - Line numbers, Tab indents instead of leaving the field
+ * - Prefilled with the starter code until the student edits it
+ * - "Run visible tests" button; hidden tests only run at grading time
+ */
+export default function CodeAnswerEditor({
+  value,
+  onChange,
+  language,
+  starterCode = '',
+  visibleTests = [],
+  hiddenTestCount = 0,
+  disabled = false,
+  locale = 'fr',
+  onRunTests,
+}: CodeAnswerEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<CodeTestResult[] | null>(null)
+  const [runError, setRunError] = useState<string | null>(null)
+
+  const dict = {
+    run: locale === 'fr' ? 'Exécuter les tests visibles' : 'Run visible tests',
+    running: locale === 'fr' ? 'Exécution...' : 'Running...',
+    runError: locale === 'fr' ? 'Impossible d’exécuter les tests.' : 'Could not run the tests.',
+    noVisibleTests: locale === 'fr' ? 'Aucun test visible pour cette question.' : 'No visible tests for this question.',
+    hiddenTests: (count: number) =>
+      locale === 'fr'
+        ? `${count} test${count > 1 ? 's' : ''} caché${count > 1 ? 's' : ''} exécuté${count > 1 ? 's' : ''} à la correction.`
+        : `${count} hidden test${count > 1 ? 's' : ''} will run at grading time.`,
+    passed: locale === 'fr' ? 'Réussi' : 'Passed',
+    failed: locale === 'fr' ? 'Sortie incorrecte' : 'Wrong output',
+    error: locale === 'fr' ? 'Erreur' : 'Error',
+    timeout: locale === 'fr' ? 'Temps dépassé' : 'Timed out',
+    input: locale === 'fr' ? 'Entrée' : 'Input',
+    expected: locale === 'fr' ? 'Attendu' : 'Expected',
+    actual: locale === 'fr' ? 'Obtenu' : 'Got',
+    stderr: locale === 'fr' ? 'Erreurs' : 'Errors',
+    summary: (passed: number, total: number) =>
+      locale === 'fr' ? `${passed}/${total} tests visibles réussis` : `${passed}/${total} visible tests passed`,
+  }
+
+  const code = value || starterCode
+  const lineCount = Math.max(code.split('\n').length, 1)
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey || disabled) return
+    event.preventDefault()
+    const target = event.currentTarget
+    const { selectionStart, selectionEnd } = target
+    const next = `${code.slice(0, selectionStart)}${INDENT}${code.slice(selectionEnd)}`
+    onChange(next)
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      textarea.selectionStart = selectionStart + INDENT.length
+      textarea.selectionEnd = selectionStart + INDENT.length
+    })
+  }
+
+  const handleRun = async () => {
+    if (!onRunTests) return
+    setRunning(true)
+    setRunError(null)
+    try {
+      setResults(await onRunTests(code))
+    } catch (error) {
+      setResults(null)
+      setRunError(error instanceof Error && error.message ? error.message : dict.runError)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const statusLabel = (status: CodeTestResult['status']) => dict[status]
+  const testsById = new Map(visibleTests.map((test) => [test.id, test]))
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-hidden rounded-md border border-gray-300 bg-gray-950">
+        <div className="flex items-center justify-between border-b border-gray-800 px-3 py-1 text-xs text-gray-400">
+          <span>{LANGUAGE_LABELS[language]}</span>
+        </div>
+        <div className="flex max-h-[28rem]">
+          <div
+            ref={gutterRef}
+            aria-hidden="true"
+            className="select-none overflow-hidden border-r border-gray-800 px-2 py-2 text-right font-mono text-xs leading-5 text-gray-500"
+          >
+            {Array.from({ length: lineCount }, (_, index) => (
+              <div key={index}>{index + 1}</div>
+            ))}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={code}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={(e) => {
+              if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop
+            }}
+            disabled={disabled}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            wrap="off"
+            rows={Math.min(Math.max(lineCount, 12), 22)}
+            className="flex-1 resize-none bg-transparent px-3 py-2 font-mono text-xs leading-5 text-gray-100 focus:outline-none disabled:opacity-70"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-gray-500">
+          {visibleTests.length === 0 && <span>{dict.noVisibleTests} </span>}
+          {hiddenTestCount > 0 && <span>{dict.hiddenTests(hiddenTestCount)}</span>}
+        </div>
+        {onRunTests && visibleTests.length > 0 && (
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={disabled || running}
+            className="rounded-md border border-brand-900 px-3 py-1.5 text-sm font-semibold text-brand-900 hover:bg-brand-50 disabled:opacity-50"
+          >
+            {running ? dict.running : dict.run}
+          </button>
+        )}
+      </div>
+
+      {runError && <p className="text-xs text-red-600">{runError}</p>}
+
+      {results && (
+        <div className="space-y-2" aria-live="polite">
+          <p className="text-sm font-semibold text-gray-900">
+            {dict.summary(results.filter((result) => result.passed).length, results.length)}
+          </p>
+          {results.map((result, index) => {
+            const test = testsById.get(result.testId)
+            return (
+              <div
+                key={result.testId}
+                className={`rounded-md border p-2 text-xs ${result.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-gray-900">{result.name || `Test ${index + 1}`}</span>
+                  <span className={result.passed ? 'text-green-700' : 'text-red-700'}>
+                    {statusLabel(result.status)} · {result.durationMs} ms
+                  </span>
+                </div>
+                {!result.passed && (
+                  <div className="mt-2 grid gap-2 md:grid-cols-3">
+                    <div>
+                      <div className="font-semibold text-gray-600">{dict.input}</div>
+                      <pre className="whitespace-pre-wrap break-all font-mono text-gray-800">{test?.input ?? ''}</pre>
+                    </div>
+                    <div>
+                      <div className="font-semibold text-gray-600">{dict.expected}</div>
+                      <pre className="whitespace-pre-wrap break-all font-mono text-gray-800">{result.expectedOutput ?? ''}</pre>
+                    </div>
+                    <div>
+                      <div className="font-semibold text-gray-600">{dict.actual}</div>
+                      <pre className="whitespace-pre-wrap break-all font-mono text-gray-800">{result.stdout ?? ''}</pre>
+                    </div>
+                  </div>
+                )}
+                {!result.passed && result.stderr && (
+                  <div className="mt-2">
+                    <div className="font-semibold text-gray-600">{dict.stderr}</div>
+                    <pre className="whitespace-pre-wrap break-all font-mono text-red-800">{result.stderr}</pre>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
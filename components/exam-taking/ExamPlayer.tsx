@@ -4,7 +4,7 @@ import { useState, useCallback, useRef, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import QuestionRenderer from './QuestionRenderer'
 import ExamTimer from './ExamTimer'
-import type { ContentSegment, StudentToolsConfig } from '@/types/exams'
+import type { ContentSegment, StudentCodeQuestionConfig, StudentToolsConfig } from '@/types/exams'
 
 // Types
 type QuestionSegment = {
@@ -20,8 +20,9 @@ type Question = {
   answerTemplate?: ContentSegment[]
   answerTemplateLocked?: boolean
   studentTools?: StudentToolsConfig | null
+  codeConfig?: StudentCodeQuestionConfig | null
   shuffleOptions?: boolean
-  type: 'TEXT' | 'MCQ' | 'CODE'
+  type: 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
   order: number
   customLabel?: string | null
   requireAllCorrect?: boolean
@@ -58,6 +59,7 @@ type AttemptData = {
   status: string
   startedAt: string
   deadlineAt: string
+  hasAccommodation?: boolean
   answers: Array<{
     questionId: string
     segments: Array<{
@@ -305,6 +307,7 @@ export default function ExamPlayer({
             deadlineAt={attempt.deadlineAt}
             onTimeExpired={handleTimeExpired}
             locale={locale}
+            hasAccommodation={attempt.hasAccommodation}
           />
         </div>
 
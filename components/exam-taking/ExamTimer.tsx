@@ -6,6 +6,7 @@ interface ExamTimerProps {
   deadlineAt: string // ISO timestamp
   onTimeExpired?: () => void
   locale?: string
+  hasAccommodation?: boolean // Deadline already includes extra time / individual window
 }
 
 /**
@@ -16,11 +17,13 @@ interface ExamTimerProps {
  * - Visual warning when time is low (< 5 minutes)
  * - Critical warning when very low (< 1 minute)
  * - Calls onTimeExpired when timer reaches 0
+ * - Shows an "adjusted time" hint when the student has accommodations
  */
 export default function ExamTimer({
   deadlineAt,
   onTimeExpired,
   locale = 'fr',
+  hasAccommodation = false,
 }: ExamTimerProps) {
   const [timeLeft, setTimeLeft] = useState<number | null>(null)
 
@@ -131,6 +134,11 @@ export default function ExamTimer({
         <span className={`ml-1 font-semibold ${textColor}`}>
           {timeLeft !== null ? formatTime(timeLeft) : '...'}
         </span>
+        {hasAccommodation && (
+          <span className="ml-2 text-xs text-gray-500">
+            {locale === 'fr' ? '(temps aménagé)' : '(adjusted time)'}
+          </span>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/Button'
+import type { AttemptLiveState, ProctorNotice } from '@/lib/proctoring/liveState'
+
+type ProctorInterventionLabels = {
+    messageTitle: string
+    warningTitle: string
+    acknowledge: string
+    pausedTitle: string
+    pausedMessage: string
+    terminatedTitle: string
+    terminatedMessage: string
+    reasonLabel: string
+}
+
+type ProctorInterventionDialogsProps = {
+    state: AttemptLiveState
+    paused: boolean
+    // Notices not acknowledged yet, oldest first
+    pendingNotices: ProctorNotice[]
+    onAcknowledge: (noticeId: string) => void
+    onLeave: () => void
+    labels: ProctorInterventionLabels
+    leaveLabel: string
+}
+
+/**
+ * Blocking dialogs of the proctor's interventions on the exam page: the forced
+ * end, the pause, then the messages one at a time until acknowledged.
+ */
+export default function ProctorInterventionDialogs({
+    state,
+    paused,
+    pendingNotices,
+    onAcknowledge,
+    onLeave,
+    labels,
+    leaveLabel,
+}: ProctorInterventionDialogsProps) {
+    const actionRef = useRef<HTMLButtonElement | null>(null)
+    const notice = pendingNotices[0]
+    const open = Boolean(state.terminated || paused || notice)
+
+    useEffect(() => {
+        if (!open) return
+        actionRef.current?.focus()
+        const previousOverflow = document.body.style.overflow
+        document.body.style.overflow = 'hidden'
+        return () => {
+            document.body.style.overflow = previousOverflow
+        }
+    }, [open, notice?.id])
+
+    if (!open) return null
+
+    let title: string
+    let body: React.ReactNode
+    let action: React.ReactNode = null
+
+    if (state.terminated) {
+        title = labels.terminatedTitle
+        body = (
+            <>
+                <p>{labels.terminatedMessage}</p>
+                {state.terminated.reason && (
+                    <p className="mt-2">
+                        <span className="font-medium">{labels.reasonLabel}</span> {state.terminated.reason}
+                    </p>
+                )}
+            </>
+        )
+        action = (
+            <Button ref={actionRef} variant="primary" size="sm" onClick={onLeave}>
+                {leaveLabel}
+            </Button>
+        )
+    } else if (paused) {
+        title = labels.pausedTitle
+        body = (
+            <>
+                <p>{labels.pausedMessage}</p>
+                {state.pauseMessage && <p className="mt-2 font-medium text-gray-900">{state.pauseMessage}</p>}
+            </>
+        )
+    } else {
+        title = notice.kind === 'warning' ? labels.warningTitle : labels.messageTitle
+        body = <p className="whitespace-pre-line">{notice.text}</p>
+        action = (
+            <Button ref={actionRef} variant="primary" size="sm" onClick={() => onAcknowledge(notice.id)}>
+                {labels.acknowledge}
+            </Button>
+        )
+    }
+
+    const isWarning = !state.terminated && !paused && notice?.kind === 'warning'
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+            role="alertdialog"
+            aria-modal="true"
+            aria-label={title}
+        >
+            <div
+                className={`w-full max-w-md rounded-lg border bg-white p-6 shadow-xl ${isWarning ? 'border-amber-300' : 'border-gray-200'}`}
+                tabIndex={-1}
+            >
+                <h2 className={`text-base font-semibold ${isWarning ? 'text-amber-800' : 'text-gray-900'}`}>{title}</h2>
+                <div className="mt-2 text-sm text-gray-600" role="status" aria-live="assertive">
+                    {body}
+                </div>
+                {action && <div className="mt-6 flex justify-end">{action}</div>}
+            </div>
+        </div>
+    )
+}
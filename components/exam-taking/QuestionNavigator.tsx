@@ -0,0 +1,118 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { Dictionary } from '@/lib/i18n/dictionaries'
+
+export type NavigatorQuestion = {
+  id: string
+  label: string
+  answered: boolean
+}
+
+type QuestionNavigatorProps = {
+  questions: NavigatorQuestion[]
+  labels: Dictionary['student']['examRunner']['navigation']
+  reducedMotion?: boolean
+}
+
+export const QUESTION_MAP_ID = 'question-map'
+
+/** DOM id of a question container, focused when navigating to it. */
+export const getQuestionElementId = (questionId: string) => `question-${questionId}`
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key: string) => String(values[key] ?? ''))
+
+/**
+ * QuestionNavigator - Keyboard navigation between exam questions
+ *
+ * - Question map listing every question with its answered state
+ * - Alt+N / Alt+P move to the next / previous question, Alt+M focuses the map
+ * - The reached question is announced to screen readers
+ */
+export default function QuestionNavigator({ questions, labels, reducedMotion = false }: QuestionNavigatorProps) {
+  const [currentIndex, setCurrentIndex] = useState(-1)
+  const [announcement, setAnnouncement] = useState('')
+  const mapRef = useRef<HTMLElement | null>(null)
+
+  const goTo = useCallback(
+    (index: number) => {
+      const question = questions[index]
+      if (!question) return
+      const element = document.getElementById(getQuestionElementId(question.id))
+      if (!element) return
+      element.scrollIntoView({ behavior: reducedMotion ? 'auto' : 'smooth', block: 'start' })
+      element.focus({ preventScroll: true })
+      setCurrentIndex(index)
+      setAnnouncement(fill(labels.position, { index: index + 1, total: questions.length }))
+    },
+    [questions, reducedMotion, labels.position]
+  )
+
+  // Keep the position in sync when the student tabs or clicks into a question
+  useEffect(() => {
+    const handleFocusIn = (event: FocusEvent) => {
+      const target = event.target instanceof Element ? event.target.closest('[data-question-id]') : null
+      const questionId = target?.getAttribute('data-question-id')
+      if (!questionId) return
+      const index = questions.findIndex((question) => question.id === questionId)
+      if (index !== -1) setCurrentIndex(index)
+    }
+    document.addEventListener('focusin', handleFocusIn)
+    return () => document.removeEventListener('focusin', handleFocusIn)
+  }, [questions])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || event.ctrlKey || event.metaKey) return
+      // event.code: Alt+letter produces special characters on macOS layouts
+      if (event.code === 'KeyN') {
+        event.preventDefault()
+        goTo(Math.min(currentIndex + 1, questions.length - 1))
+      } else if (event.code === 'KeyP') {
+        event.preventDefault()
+        goTo(Math.max(currentIndex - 1, 0))
+      } else if (event.code === 'KeyM') {
+        event.preventDefault()
+        mapRef.current?.querySelector('button')?.focus()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [goTo, currentIndex, questions.length])
+
+  if (questions.length === 0) return null
+
+  return (
+    <nav
+      ref={mapRef}
+      id={QUESTION_MAP_ID}
+      aria-label={labels.questionMap}
+      className="bg-white rounded-md shadow-sm border border-gray-200 px-4 py-3"
+    >
+      <ol className="flex flex-wrap gap-2">
+        {questions.map((question, index) => (
+          <li key={question.id}>
+            <button
+              type="button"
+              onClick={() => goTo(index)}
+              aria-current={index === currentIndex ? 'step' : undefined}
+              aria-label={`${fill(labels.questionLabel, { index: question.label })}, ${question.answered ? labels.answered : labels.unanswered}`}
+              className={`min-w-9 h-9 px-2 rounded border text-sm font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-brand-700 ${
+                question.answered
+                  ? 'bg-brand-900 text-white border-brand-900'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-gray-500'
+              } ${index === currentIndex ? 'ring-2 ring-offset-1 ring-brand-700' : ''}`}
+            >
+              {question.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="mt-2 text-xs text-gray-500">{labels.shortcuts}</p>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </nav>
+  )
+}
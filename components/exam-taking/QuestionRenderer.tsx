@@ -3,7 +3,14 @@
 import { useMemo } from 'react'
 import MathRenderer from '@/components/exams/MathRenderer'
 import StringMathField from '@/components/exams/StringMathField'
-import type { ContentSegment, StudentToolsConfig, StudentMathSymbolSet } from '@/types/exams'
+import CodeAnswerEditor from './CodeAnswerEditor'
+import type {
+  CodeTestResult,
+  ContentSegment,
+  StudentCodeQuestionConfig,
+  StudentToolsConfig,
+  StudentMathSymbolSet,
+} from '@/types/exams'
 
 // Types matching the exam structure
 export type QuestionSegment = {
@@ -19,8 +26,9 @@ export type Question = {
   answerTemplate?: ContentSegment[]
   answerTemplateLocked?: boolean
   studentTools?: StudentToolsConfig | null
+  codeConfig?: StudentCodeQuestionConfig | null // Hidden tests already stripped
   shuffleOptions?: boolean
-  type: 'TEXT' | 'MCQ' | 'CODE'
+  type: 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
   order: number
   customLabel?: string | null
   requireAllCorrect?: boolean
@@ -37,6 +45,7 @@ export type QuestionRendererProps = {
   locale?: string
   savingStatus?: Record<string, 'saved' | 'saving' | 'error' | null>
   shuffleSeed?: number // For consistent MCQ option shuffling
+  onRunCode?: (questionId: string, code: string) => Promise<CodeTestResult[]> // CODE: run visible tests
 }
 
 // Default student tools config
@@ -117,6 +126,7 @@ const seededShuffle = <T,>(items: T[], seed: number) => {
  * Handles both TEXT (open-ended) and MCQ (multiple choice) questions.
  * For TEXT: Renders StringMathField with math toolbar support
  * For MCQ: Renders checkbox options with optional shuffling
+ * For NUMERIC and MATH_EXPRESSION: Renders a single-line answer scored on submit
  */
 export default function QuestionRenderer({
   question,
@@ -127,6 +137,7 @@ export default function QuestionRenderer({
   locale = 'fr',
   savingStatus = {},
   shuffleSeed,
+  onRunCode,
 }: QuestionRendererProps) {
   const dict = {
     saving: locale === 'fr' ? 'Sauvegarde...' : 'Saving...',
@@ -250,6 +261,138 @@ export default function QuestionRenderer({
     )
   }
 
+  // Render CODE question: the submission is stored in the first segment
+  if (question.type === 'CODE') {
+    const codeSegment = sortByOrder(question.segments)[0]
+
+    return (
+      <div className="space-y-3">
+        {/* Question header */}
+        <div className="flex items-start justify-between gap-2">
+          <span className="text-base font-semibold text-gray-900">
+            {questionLabel}
+          </span>
+          {totalPoints > 0 && (
+            <span className="text-sm font-semibold text-gray-700 whitespace-nowrap">
+              {totalPoints} {totalPoints === 1 ? dict.point : dict.points}
+            </span>
+          )}
+        </div>
+
+        {/* Question content */}
+        <MathRenderer
+          text={questionText}
+          className="text-base text-gray-900 whitespace-pre-wrap leading-relaxed"
+          tableScale="fit"
+        />
+
+        {codeSegment && (
+          <div className="mt-4">
+            <CodeAnswerEditor
+              value={value[codeSegment.id] || ''}
+              onChange={(code) => onChange(codeSegment.id, code)}
+              language={question.codeConfig?.language ?? 'python'}
+              starterCode={question.codeConfig?.starterCode}
+              visibleTests={question.codeConfig?.tests}
+              hiddenTestCount={question.codeConfig?.hiddenTestCount}
+              disabled={disabled}
+              locale={locale}
+              onRunTests={onRunCode ? (code) => onRunCode(question.id, code) : undefined}
+            />
+
+            {/* Saving status */}
+            <div className="mt-1 h-5 flex justify-end">
+              {savingStatus[codeSegment.id] === 'saving' && (
+                <span className="text-xs text-gray-500 italic">{dict.saving}</span>
+              )}
+              {savingStatus[codeSegment.id] === 'saved' && (
+                <span className="text-xs text-green-600">{dict.saved}</span>
+              )}
+              {savingStatus[codeSegment.id] === 'error' && (
+                <span className="text-xs text-red-600">{dict.errorSaving}</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Render NUMERIC and MATH_EXPRESSION questions: a single answer scored on submit
+  if (question.type === 'NUMERIC' || question.type === 'MATH_EXPRESSION') {
+    const answerSegment = sortByOrder(question.segments)[0]
+
+    return (
+      <div className="space-y-3">
+        {/* Question header */}
+        <div className="flex items-start justify-between gap-2">
+          <span className="text-base font-semibold text-gray-900">
+            {questionLabel}
+          </span>
+          {totalPoints > 0 && (
+            <span className="text-sm font-semibold text-gray-700 whitespace-nowrap">
+              {totalPoints} {totalPoints === 1 ? dict.point : dict.points}
+            </span>
+          )}
+        </div>
+
+        {/* Question content */}
+        <MathRenderer
+          text={questionText}
+          className="text-base text-gray-900 whitespace-pre-wrap leading-relaxed"
+          tableScale="fit"
+        />
+
+        {answerSegment && (
+          <div className="mt-4">
+            {question.type === 'NUMERIC' ? (
+              <input
+                type="text"
+                inputMode="decimal"
+                autoComplete="off"
+                className="w-full max-w-sm rounded-md border border-gray-300 px-3 py-2 text-base text-gray-900 focus:border-brand-900 focus:ring-brand-900 disabled:bg-gray-50"
+                value={value[answerSegment.id] || ''}
+                onChange={(e) => onChange(answerSegment.id, e.target.value)}
+                disabled={disabled}
+                placeholder={locale === 'fr' ? 'Valeur et unité, ex. 9,81 m/s^2' : 'Value and unit, e.g. 9.81 m/s^2'}
+                aria-label={questionLabel}
+              />
+            ) : (
+              <div className="rounded-md border border-gray-300 bg-gray-50 px-3 py-2">
+                <StringMathField
+                  value={value[answerSegment.id] || ''}
+                  onChange={(nextValue) => onChange(answerSegment.id, nextValue)}
+                  disabled={disabled}
+                  className="text-base text-gray-900"
+                  placeholder={locale === 'fr' ? 'Saisissez votre expression' : 'Type your expression'}
+                  minRows={1}
+                  showMathButton
+                  showTableButton={false}
+                  showGraphButton={false}
+                  toolbarSize="md"
+                  locale={locale}
+                />
+              </div>
+            )}
+
+            {/* Saving status */}
+            <div className="mt-1 h-5 flex justify-end">
+              {savingStatus[answerSegment.id] === 'saving' && (
+                <span className="text-xs text-gray-500 italic">{dict.saving}</span>
+              )}
+              {savingStatus[answerSegment.id] === 'saved' && (
+                <span className="text-xs text-green-600">{dict.saved}</span>
+              )}
+              {savingStatus[answerSegment.id] === 'error' && (
+                <span className="text-xs text-red-600">{dict.errorSaving}</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   // Render TEXT question
   const tools = normalizeStudentTools(question.studentTools)
   const mathEnabled = tools.math?.enabled !== false
@@ -1,4 +1,8 @@
 export { default as ExamPlayer } from './ExamPlayer'
 export { default as ExamTimer } from './ExamTimer'
 export { default as QuestionRenderer } from './QuestionRenderer'
+export { default as CodeAnswerEditor } from './CodeAnswerEditor'
 export type { Question, QuestionSegment, QuestionRendererProps } from './QuestionRenderer'
+export { default as AccessibilityProvider } from './AccessibilityProvider'
+export { default as AccessibilityPanel } from './AccessibilityPanel'
+export { default as QuestionNavigator } from './QuestionNavigator'
@@ -7,6 +7,8 @@ import ExamPreview from '@/components/exams/ExamPreview'
 import { ExamLayout } from '@/components/exams/builder/ExamLayout'
 import { ExamMetadataHeader } from '@/components/exams/builder/ExamMetadataHeader'
 import { PreviewToggle } from '@/components/exams/builder/PreviewToggle'
+import { QuestionBankPanel } from '@/components/exams/builder/QuestionBankPanel'
+import { SaveToBankDialog } from '@/components/exams/builder/SaveToBankDialog'
 import { SectionList } from '@/components/exams/builder/SectionList'
 import { useExamBuilderData } from '@/components/exams/hooks/useExamBuilderData'
 import { Exam, ExamChange } from '@/types/exams'
@@ -37,6 +39,7 @@ export default function ExamBuilder({ examId, initialData, isLocked = false, dic
     const dict = dictionary.teacher.examBuilderPage
     const isLiveExam = isLocked
     const [liveEditEnabled, setLiveEditEnabled] = useState(false)
+    const [bankQuestionId, setBankQuestionId] = useState<string | null>(null)
     const isEditingLocked = isLiveExam && !liveEditEnabled
     const canEdit = initialData.canEdit !== false
     const isReadOnly = isEditingLocked || !canEdit
@@ -640,6 +643,18 @@ export default function ExamBuilder({ examId, initialData, isLocked = false, dic
                 </div>
             )}
 
+            {canEdit && (
+                <QuestionBankPanel
+                    examId={examId}
+                    courseId={exam.courseId}
+                    courseCode={exam.course.code}
+                    sections={liveExam.sections}
+                    locale={locale}
+                    disabled={isReadOnly || loading}
+                    onInserted={reloadExam}
+                />
+            )}
+
             <ExamLayout
                 left={
                     <SectionList
@@ -682,10 +697,22 @@ export default function ExamBuilder({ examId, initialData, isLocked = false, dic
                         updateLiveSectionTitle={updateLiveSectionTitle}
                         updateLiveSectionLabel={updateLiveSectionLabel}
                         updateLiveSectionIntro={updateLiveSectionIntro}
+                        onSaveToBank={canEdit ? setBankQuestionId : undefined}
+                        poolsLocked={isLiveExam}
                     />
                 }
                 right={!isFocusMode && previewEnabled ? previewContent : null}
             />
+
+            {bankQuestionId && (
+                <SaveToBankDialog
+                    questionId={bankQuestionId}
+                    courseId={exam.courseId}
+                    courseCode={exam.course.code}
+                    locale={locale}
+                    onClose={() => setBankQuestionId(null)}
+                />
+            )}
         </div>
     )
 }
@@ -37,7 +37,8 @@ function getKatexOptions(
         errorColor,
         strict: false,
         trust: true,
-        output: 'html',
+        // MathML alongside the visual HTML so screen readers can navigate the formula
+        output: 'htmlAndMathml',
         macros: {},
     }
 }
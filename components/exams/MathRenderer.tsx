@@ -6,6 +6,9 @@ import { parseContent } from '@/lib/content'
 import { ContentSegment } from '@/types/exams'
 import { renderGraphInto } from './graph-utils'
 import { KaTeXRenderer, renderLatexToString } from './KaTeXRenderer'
+import { latexToSpeech } from '@/lib/accessibility/math-speech'
+import { describeGraphItems } from '@/lib/accessibility/graph-description'
+import { useSpeechLocale } from '@/components/exam-taking/AccessibilityProvider'
 
 const maxExamSheetWidth = 820
 
@@ -63,13 +66,17 @@ interface MathRendererProps {
 }
 
 /**
- * Render a math segment using KaTeX
+ * Render a math segment using KaTeX, with its spoken form as accessible name
  */
 function MathSegment({ latex, scale }: { latex: string; scale: number }) {
     const displayMode = needsDisplayMode(latex)
+    const locale = useSpeechLocale()
+    const speech = useMemo(() => latexToSpeech(latex, locale), [latex, locale])
 
     return (
         <span
+            role="math"
+            aria-label={speech || undefined}
             className={`math-inline ${displayMode ? 'math-inline-display' : ''}`}
             style={scale !== 1 ? { fontSize: `${scale}em` } : undefined}
         >
@@ -148,7 +155,7 @@ function TableSegment({
 }
 
 /**
- * Render a graph segment
+ * Render a graph segment, followed by a textual description for screen readers
  */
 function GraphSegment({
     segment,
@@ -160,6 +167,8 @@ function GraphSegment({
     availableWidth: number
 }) {
     const [html, setHtml] = useState<string>('')
+    const locale = useSpeechLocale()
+    const description = useMemo(() => describeGraphItems(segment, locale), [segment, locale])
 
     useEffect(() => {
         // Create a temporary container for the graph (client-side only)
@@ -189,15 +198,25 @@ function GraphSegment({
     }
 
     return (
-        <div
-            style={{
-                display: 'block',
-                margin: '8px 0',
-                width: 'max-content',
-                maxWidth: '100%',
-            }}
-            dangerouslySetInnerHTML={{ __html: html }}
-        />
+        <figure style={{ margin: 0 }}>
+            <div
+                aria-hidden="true"
+                style={{
+                    display: 'block',
+                    margin: '8px 0',
+                    width: 'max-content',
+                    maxWidth: '100%',
+                }}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+            <figcaption className="sr-only">
+                <ul>
+                    {description.map((item, index) => (
+                        <li key={index}>{item}</li>
+                    ))}
+                </ul>
+            </figcaption>
+        </figure>
     )
 }
 
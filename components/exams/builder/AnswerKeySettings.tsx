@@ -0,0 +1,261 @@
+import { useMemo, useState } from 'react'
+import { CheckCircle2, XCircle } from 'lucide-react'
+import type { AnswerKey, NumericToleranceMode, QuestionParameter } from '@/types/exams'
+import {
+    getDefaultAnswerKey,
+    parseAnswerKey,
+    scoreAnswerKeyQuestion,
+    validateAnswerKey,
+} from '@/lib/grading/answer-key'
+import { drawQuestionParameterValues } from '@/lib/question-parameters'
+
+interface AnswerKeySettingsProps {
+    type: 'NUMERIC' | 'MATH_EXPRESSION'
+    answerKey: AnswerKey | null | undefined
+    parameters?: QuestionParameter[] | null
+    locale: string
+    disabled?: boolean
+    onSave: (answerKey: AnswerKey) => void
+}
+
+type Draft = {
+    value: string
+    tolerance: string
+    toleranceMode: NumericToleranceMode
+    units: string
+    unitPenalty: string
+    expression: string
+    variables: string
+}
+
+const toDraft = (type: AnswerKeySettingsProps['type'], answerKey: AnswerKey | null | undefined): Draft => {
+    const key = parseAnswerKey(type, answerKey) ?? getDefaultAnswerKey(type)
+    const numeric = 'value' in key ? key : null
+    const expression = 'expression' in key ? key : null
+    return {
+        value: numeric?.value ?? '',
+        tolerance: numeric ? String(numeric.tolerance) : '0',
+        toleranceMode: numeric?.toleranceMode ?? 'absolute',
+        units: numeric?.units?.join(', ') ?? '',
+        unitPenalty: numeric?.unitPenalty !== undefined ? String(Math.round(numeric.unitPenalty * 100)) : '',
+        expression: expression?.expression ?? '',
+        variables: expression?.variables.join(', ') ?? '',
+    }
+}
+
+const splitList = (value: string) =>
+    value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+
+const fromDraft = (type: AnswerKeySettingsProps['type'], draft: Draft): AnswerKey | null => {
+    if (type === 'NUMERIC') {
+        const tolerance = Number(draft.tolerance.trim() || '0')
+        const unitPenalty = draft.unitPenalty.trim() ? Number(draft.unitPenalty) / 100 : undefined
+        return parseAnswerKey(type, {
+            value: draft.value.trim(),
+            tolerance,
+            toleranceMode: draft.toleranceMode,
+            units: splitList(draft.units),
+            ...(unitPenalty !== undefined ? { unitPenalty } : {}),
+        })
+    }
+    return parseAnswerKey(type, {
+        expression: draft.expression.trim(),
+        variables: splitList(draft.variables),
+    })
+}
+
+const inputClass =
+    'mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-brand-900 focus:ring-brand-900'
+
+/**
+ * Teacher settings for NUMERIC and MATH_EXPRESSION questions: the expected
+ * answer used to score submissions instantly. A sample answer can be checked
+ * against the key before publishing.
+ */
+export function AnswerKeySettings({ type, answerKey, parameters, locale, disabled = false, onSave }: AnswerKeySettingsProps) {
+    const isFr = locale === 'fr'
+    const [draft, setDraft] = useState<Draft>(() => toDraft(type, answerKey))
+    const [syncedKey, setSyncedKey] = useState({ type, answerKey })
+    const [sampleAnswer, setSampleAnswer] = useState('')
+
+    // Reset the draft when the saved key or the question type changes
+    if (answerKey !== syncedKey.answerKey || type !== syncedKey.type) {
+        setSyncedKey({ type, answerKey })
+        setDraft(toDraft(type, answerKey))
+    }
+
+    const sampleValues = useMemo(() => {
+        if (!parameters?.length) return {}
+        try {
+            return drawQuestionParameterValues(parameters, 'builder-preview')
+        } catch {
+            return {}
+        }
+    }, [parameters])
+
+    const parsed = useMemo(() => fromDraft(type, draft), [type, draft])
+    const validationError = parsed
+        ? validateAnswerKey(type, parsed, sampleValues)
+        : isFr
+            ? 'Complétez la réponse attendue.'
+            : 'Fill in the expected answer.'
+
+    const sampleResult = useMemo(() => {
+        if (!parsed || validationError || !sampleAnswer.trim()) return null
+        return scoreAnswerKeyQuestion({ type, answerKey: parsed, answer: sampleAnswer, maxPoints: 1, parameterValues: sampleValues })
+    }, [parsed, validationError, sampleAnswer, type, sampleValues])
+
+    const commit = (next: Draft = draft) => {
+        setDraft(next)
+        const nextKey = fromDraft(type, next)
+        if (!nextKey || validateAnswerKey(type, nextKey, sampleValues)) return
+        onSave(nextKey)
+    }
+
+    const updateDraft = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }))
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="text-xs font-semibold uppercase text-gray-500">
+                    {isFr ? 'Réponse attendue' : 'Expected answer'}
+                </label>
+                <p className="text-xs text-gray-500">
+                    {type === 'NUMERIC'
+                        ? isFr
+                            ? 'La réponse est corrigée automatiquement à la remise. La valeur peut utiliser les paramètres, par ex. {{a}} * 9.81.'
+                            : 'Answers are scored automatically on submit. The value may use parameters, e.g. {{a}} * 9.81.'
+                        : isFr
+                            ? 'Toute expression équivalente est acceptée (vérifiée en évaluant les deux expressions en plusieurs points).'
+                            : 'Any equivalent expression is accepted (checked by evaluating both expressions at several points).'}
+                </p>
+            </div>
+
+            {type === 'NUMERIC' ? (
+                <div className="grid gap-3 md:grid-cols-3">
+                    <div className="flex flex-col md:col-span-3">
+                        <label className="text-xs font-semibold text-gray-700">{isFr ? 'Valeur' : 'Value'}</label>
+                        <input
+                            type="text"
+                            className={`${inputClass} font-mono`}
+                            placeholder="9.81"
+                            value={draft.value}
+                            disabled={disabled}
+                            onChange={(e) => updateDraft({ value: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">{isFr ? 'Tolérance' : 'Tolerance'}</label>
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className={inputClass}
+                            value={draft.tolerance}
+                            disabled={disabled}
+                            onChange={(e) => updateDraft({ tolerance: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">{isFr ? 'Type de tolérance' : 'Tolerance type'}</label>
+                        <select
+                            className={inputClass}
+                            value={draft.toleranceMode}
+                            disabled={disabled}
+                            onChange={(e) => commit({ ...draft, toleranceMode: e.target.value as NumericToleranceMode })}
+                        >
+                            <option value="absolute">{isFr ? 'Absolue (± valeur)' : 'Absolute (± value)'}</option>
+                            <option value="relative">{isFr ? 'Relative (± %)' : 'Relative (± %)'}</option>
+                        </select>
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Pénalité d’unité (%)' : 'Unit penalty (%)'}
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className={inputClass}
+                            placeholder="50"
+                            value={draft.unitPenalty}
+                            disabled={disabled || splitList(draft.units).length === 0}
+                            onChange={(e) => updateDraft({ unitPenalty: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                    <div className="flex flex-col md:col-span-3">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Unités acceptées (séparées par des virgules)' : 'Accepted units (comma separated)'}
+                        </label>
+                        <input
+                            type="text"
+                            className={`${inputClass} font-mono`}
+                            placeholder="m/s^2, m.s^-2"
+                            value={draft.units}
+                            disabled={disabled}
+                            onChange={(e) => updateDraft({ units: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                </div>
+            ) : (
+                <div className="grid gap-3 md:grid-cols-3">
+                    <div className="flex flex-col md:col-span-2">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Expression de référence' : 'Reference expression'}
+                        </label>
+                        <input
+                            type="text"
+                            className={`${inputClass} font-mono`}
+                            placeholder="(x+1)^2"
+                            value={draft.expression}
+                            disabled={disabled}
+                            onChange={(e) => updateDraft({ expression: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">{isFr ? 'Variables' : 'Variables'}</label>
+                        <input
+                            type="text"
+                            className={`${inputClass} font-mono`}
+                            placeholder="x, y"
+                            value={draft.variables}
+                            disabled={disabled}
+                            onChange={(e) => updateDraft({ variables: e.target.value })}
+                            onBlur={() => commit()}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {validationError && <p className="text-xs text-red-600">{validationError}</p>}
+
+            {!validationError && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="text"
+                        className="flex-1 rounded-md border border-gray-300 px-2 py-1 font-mono text-xs text-gray-900 focus:border-brand-900 focus:ring-brand-900"
+                        placeholder={isFr ? 'Tester une réponse d’étudiant…' : 'Try a student answer…'}
+                        value={sampleAnswer}
+                        onChange={(e) => setSampleAnswer(e.target.value)}
+                    />
+                    {sampleResult && (
+                        <span
+                            className={`inline-flex items-center gap-1 text-xs ${sampleResult.isCorrect ? 'text-green-700' : sampleResult.score > 0 ? 'text-amber-700' : 'text-red-600'}`}
+                        >
+                            {sampleResult.isCorrect ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                            {sampleResult.feedback}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import type { CodeLanguage, CodeQuestionConfig, CodeTestCase } from '@/types/exams'
+
+interface CodeQuestionSettingsProps {
+    config: CodeQuestionConfig | null | undefined
+    locale: string
+    disabled?: boolean
+    onSave: (config: CodeQuestionConfig) => void
+}
+
+const DEFAULT_CONFIG: CodeQuestionConfig = {
+    language: 'python',
+    starterCode: '',
+    tests: [],
+}
+
+const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+    python: 'Python 3',
+    javascript: 'JavaScript (Node.js)',
+}
+
+const createTestId = () => `test-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+
+const inputClass =
+    'mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-brand-900 focus:ring-brand-900'
+const codeInputClass = `${inputClass} font-mono text-xs`
+
+/**
+ * Teacher settings for CODE questions: language, starter code, limits and test cases.
+ * Text fields are saved on blur, toggles and selects immediately.
+ */
+export function CodeQuestionSettings({ config, locale, disabled = false, onSave }: CodeQuestionSettingsProps) {
+    const isFr = locale === 'fr'
+    const [draft, setDraft] = useState<CodeQuestionConfig>(config ?? DEFAULT_CONFIG)
+    const [syncedConfig, setSyncedConfig] = useState(config)
+
+    // Reset the draft when the saved config changes (e.g. after the exam reloads)
+    if (config !== syncedConfig) {
+        setSyncedConfig(config)
+        setDraft(config ?? DEFAULT_CONFIG)
+    }
+
+    const commit = (next: CodeQuestionConfig = draft) => {
+        setDraft(next)
+        onSave(next)
+    }
+
+    const updateTest = (testId: string, patch: Partial<CodeTestCase>) => {
+        setDraft((prev) => ({
+            ...prev,
+            tests: prev.tests.map((test) => (test.id === testId ? { ...test, ...patch } : test)),
+        }))
+    }
+
+    const parseOptionalInt = (rawValue: string) => {
+        const parsed = Number(rawValue.trim())
+        return rawValue.trim() && Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined
+    }
+
+    const hiddenCount = draft.tests.filter((test) => test.hidden).length
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className="text-xs font-semibold uppercase text-gray-500">
+                    {isFr ? 'Correction automatique du code' : 'Automatic code grading'}
+                </label>
+                <p className="text-xs text-gray-500">
+                    {isFr
+                        ? 'Chaque test envoie l’entrée sur stdin et compare la sortie standard. Les tests cachés ne sont exécutés qu’à la correction.'
+                        : 'Each test feeds its input on stdin and compares standard output. Hidden tests only run at grading time.'}
+                </p>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-3">
+                <div className="flex flex-col">
+                    <label className="text-xs font-semibold text-gray-700">{isFr ? 'Langage' : 'Language'}</label>
+                    <select
+                        className={inputClass}
+                        value={draft.language}
+                        disabled={disabled}
+                        onChange={(e) => commit({ ...draft, language: e.target.value as CodeLanguage })}
+                    >
+                        {(Object.keys(LANGUAGE_LABELS) as CodeLanguage[]).map((language) => (
+                            <option key={language} value={language}>
+                                {LANGUAGE_LABELS[language]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex flex-col">
+                    <label className="text-xs font-semibold text-gray-700">
+                        {isFr ? 'Temps limite par test (ms)' : 'Time limit per test (ms)'}
+                    </label>
+                    <input
+                        type="number"
+                        min={100}
+                        max={30000}
+                        step={100}
+                        className={inputClass}
+                        placeholder="2000"
+                        value={draft.timeLimitMs ?? ''}
+                        disabled={disabled}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, timeLimitMs: parseOptionalInt(e.target.value) }))}
+                        onBlur={() => commit()}
+                    />
+                </div>
+                <div className="flex flex-col">
+                    <label className="text-xs font-semibold text-gray-700">
+                        {isFr ? 'Mémoire max (Mo)' : 'Memory limit (MB)'}
+                    </label>
+                    <input
+                        type="number"
+                        min={16}
+                        max={1024}
+                        className={inputClass}
+                        placeholder="128"
+                        value={draft.memoryLimitMb ?? ''}
+                        disabled={disabled}
+                        onChange={(e) => setDraft((prev) => ({ ...prev, memoryLimitMb: parseOptionalInt(e.target.value) }))}
+                        onBlur={() => commit()}
+                    />
+                </div>
+            </div>
+
+            <div className="flex flex-col">
+                <label className="text-xs font-semibold text-gray-700">{isFr ? 'Code de départ' : 'Starter code'}</label>
+                <textarea
+                    className={codeInputClass}
+                    rows={6}
+                    spellCheck={false}
+                    value={draft.starterCode}
+                    disabled={disabled}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, starterCode: e.target.value }))}
+                    onBlur={() => commit()}
+                />
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs font-semibold text-gray-700">
+                        {isFr
+                            ? `Tests (${draft.tests.length}, dont ${hiddenCount} caché${hiddenCount > 1 ? 's' : ''})`
+                            : `Tests (${draft.tests.length}, ${hiddenCount} hidden)`}
+                    </span>
+                    <button
+                        type="button"
+                        className="inline-flex items-center gap-1 text-xs font-semibold text-brand-900 hover:text-brand-700 disabled:opacity-50"
+                        disabled={disabled || draft.tests.length >= 50}
+                        onClick={() =>
+                            commit({
+                                ...draft,
+                                tests: [
+                                    ...draft.tests,
+                                    { id: createTestId(), name: '', input: '', expectedOutput: '', hidden: false },
+                                ],
+                            })
+                        }
+                    >
+                        <Plus className="h-3 w-3" />
+                        {isFr ? 'Ajouter un test' : 'Add test'}
+                    </button>
+                </div>
+
+                {draft.tests.length === 0 && (
+                    <p className="text-xs text-amber-700">
+                        {isFr
+                            ? 'Sans test, les réponses devront être corrigées manuellement.'
+                            : 'Without tests, answers have to be graded manually.'}
+                    </p>
+                )}
+
+                {draft.tests.map((test, index) => (
+                    <div key={test.id} className="rounded-md border border-gray-200 p-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <input
+                                type="text"
+                                className="flex-1 min-w-[10rem] rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-brand-900 focus:ring-brand-900"
+                                placeholder={`Test ${index + 1}`}
+                                value={test.name ?? ''}
+                                disabled={disabled}
+                                onChange={(e) => updateTest(test.id, { name: e.target.value })}
+                                onBlur={() => commit()}
+                            />
+                            <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+                                {isFr ? 'Poids' : 'Weight'}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    step="any"
+                                    className="w-16 rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-brand-900 focus:ring-brand-900"
+                                    placeholder="1"
+                                    value={test.weight ?? ''}
+                                    disabled={disabled}
+                                    onChange={(e) => {
+                                        const parsed = Number(e.target.value)
+                                        updateTest(test.id, {
+                                            weight: e.target.value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined,
+                                        })
+                                    }}
+                                    onBlur={() => commit()}
+                                />
+                            </label>
+                            <label className="inline-flex items-center gap-2 text-xs font-semibold text-gray-600">
+                                <input
+                                    type="checkbox"
+                                    className="h-4 w-4 rounded border-gray-300 text-brand-900 focus:ring-brand-900"
+                                    checked={test.hidden}
+                                    disabled={disabled}
+                                    onChange={(e) =>
+                                        commit({
+                                            ...draft,
+                                            tests: draft.tests.map((item) =>
+                                                item.id === test.id ? { ...item, hidden: e.target.checked } : item
+                                            ),
+                                        })
+                                    }
+                                />
+                                {isFr ? 'Caché' : 'Hidden'}
+                            </label>
+                            <button
+                                type="button"
+                                className="text-gray-400 hover:text-red-600"
+                                disabled={disabled}
+                                onClick={() => commit({ ...draft, tests: draft.tests.filter((item) => item.id !== test.id) })}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">{isFr ? 'Supprimer le test' : 'Delete test'}</span>
+                            </button>
+                        </div>
+                        <div className="grid gap-2 md:grid-cols-2">
+                            <div className="flex flex-col">
+                                <label className="text-[11px] font-semibold uppercase text-gray-500">
+                                    {isFr ? 'Entrée (stdin)' : 'Input (stdin)'}
+                                </label>
+                                <textarea
+                                    className={codeInputClass}
+                                    rows={3}
+                                    spellCheck={false}
+                                    value={test.input}
+                                    disabled={disabled}
+                                    onChange={(e) => updateTest(test.id, { input: e.target.value })}
+                                    onBlur={() => commit()}
+                                />
+                            </div>
+                            <div className="flex flex-col">
+                                <label className="text-[11px] font-semibold uppercase text-gray-500">
+                                    {isFr ? 'Sortie attendue' : 'Expected output'}
+                                </label>
+                                <textarea
+                                    className={codeInputClass}
+                                    rows={3}
+                                    spellCheck={false}
+                                    value={test.expectedOutput}
+                                    disabled={disabled}
+                                    onChange={(e) => updateTest(test.id, { expectedOutput: e.target.value })}
+                                    onBlur={() => commit()}
+                                />
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
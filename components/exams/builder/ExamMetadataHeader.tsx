@@ -8,6 +8,8 @@ import { DateTimePicker } from '@/components/ui/DateTimePicker'
 import { ExamStatusBadge } from '@/components/teacher/ExamStatusBadge'
 import { getCorrectionReleaseInfo } from '@/lib/correction-release'
 import { getExamEndAt } from '@/lib/exam-time'
+import { getRegradeWindowDays, MAX_REGRADE_WINDOW_DAYS } from '@/lib/regrade'
+import { getDivergenceThreshold } from '@/lib/grading/inter-rater'
 import { Exam, ValidationErrors } from '@/types/exams'
 
 type ExamMetadataHeaderProps = {
@@ -105,6 +107,7 @@ export function ExamMetadataHeader({
     const [editingCorrectionRelease, setEditingCorrectionRelease] = useState(false)
     const [tempCorrectionReleaseAt, setTempCorrectionReleaseAt] = useState<Date | null>(null)
     const [correctionReleaseWarning, setCorrectionReleaseWarning] = useState<string | null>(null)
+    const [tempRegradeWindowDays, setTempRegradeWindowDays] = useState<string | null>(null)
     const [showStickyLiveBanner, setShowStickyLiveBanner] = useState(false)
     const [stickyLiveWidth, setStickyLiveWidth] = useState<number | null>(null)
     const confirmRef = useRef<HTMLDivElement>(null)
@@ -453,6 +456,50 @@ export function ExamMetadataHeader({
         }
     }
 
+    const regradeWindowDays = getRegradeWindowDays(liveExam.gradingConfig)
+
+    const handleRegradeWindowSave = async () => {
+        if (tempRegradeWindowDays === null) return
+        const parsed = Number(tempRegradeWindowDays)
+        const nextDays = Number.isFinite(parsed)
+            ? Math.min(Math.max(Math.floor(parsed), 0), MAX_REGRADE_WINDOW_DAYS)
+            : regradeWindowDays
+        if (nextDays !== regradeWindowDays) {
+            const nextConfig = {
+                ...(liveExam.gradingConfig ?? {}),
+                regradeWindowDays: nextDays,
+            }
+            const success = await onUpdateGradingConfig(nextConfig)
+            if (!success) return
+        }
+        setTempRegradeWindowDays(null)
+    }
+
+    const anonymousGrading = liveExam.gradingConfig?.anonymousGrading === true
+
+    const handleAnonymousGradingToggle = async (enabled: boolean) => {
+        // Turning it off reveals the students to every grader (audit logged by the server)
+        if (!enabled && !liveExam.gradingConfig?.identityRevealedAt && !liveExam.gradingConfig?.gradesReleased) {
+            const confirmed = window.confirm(isFrench
+                ? 'D\u00e9sactiver la correction anonyme r\u00e9v\u00e8le le nom des \u00e9tudiants aux correcteurs. Continuer ?'
+                : 'Turning off anonymous grading reveals student names to graders. Continue?')
+            if (!confirmed) return
+        }
+        await onUpdateGradingConfig({
+            ...(liveExam.gradingConfig ?? {}),
+            anonymousGrading: enabled,
+        })
+    }
+
+    const doubleGradingThresholdPercent = Math.round(getDivergenceThreshold(liveExam.gradingConfig) * 100)
+
+    const handleDoubleGradingThresholdChange = async (percent: number) => {
+        await onUpdateGradingConfig({
+            ...(liveExam.gradingConfig ?? {}),
+            doubleGradingThreshold: percent / 100,
+        })
+    }
+
     const handleSendCorrectionNow = async () => {
         if (!correctionInfo.canSendManually) return
         const nowIso = new Date().toISOString()
@@ -1369,6 +1416,55 @@ export function ExamMetadataHeader({
                             </p>
                         )}
                     </div>
+
+                    <div className="space-y-2">
+                        <label htmlFor="regrade-window-days" className="text-xs font-semibold uppercase text-gray-500 block">
+                            {isFrench ? 'Demandes de r\u00e9vision' : 'Regrade requests'}
+                        </label>
+                        <div className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                id="regrade-window-days"
+                                type="number"
+                                min={0}
+                                max={MAX_REGRADE_WINDOW_DAYS}
+                                value={tempRegradeWindowDays ?? String(regradeWindowDays)}
+                                onChange={(e) => setTempRegradeWindowDays(e.target.value)}
+                                onBlur={handleRegradeWindowSave}
+                                className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-brand-900 focus:ring-brand-900"
+                            />
+                            {isFrench ? 'jours apr\u00e8s la publication des notes (0 pour d\u00e9sactiver)' : 'days after results are released (0 to disable)'}
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={anonymousGrading}
+                            onChange={(e) => handleAnonymousGradingToggle(e.target.checked)}
+                            disabled={liveExam.gradingConfig?.gradesReleased === true}
+                            className="w-4 h-4 text-brand-900 border-gray-300 rounded focus:ring-brand-900"
+                        />
+                        {isFrench
+                            ? 'Correction anonyme (pseudonymes jusqu\u2019\u00e0 la publication des notes)'
+                            : 'Anonymous grading (pseudonyms until results are released)'}
+                    </label>
+
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        <label htmlFor="double-grading-threshold">
+                            {isFrench ? 'Double correction : \u00e9cart signal\u00e9 au-del\u00e0 de' : 'Double grading: flag gaps above'}
+                        </label>
+                        <select
+                            id="double-grading-threshold"
+                            value={doubleGradingThresholdPercent}
+                            onChange={(e) => handleDoubleGradingThresholdChange(Number(e.target.value))}
+                            className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-brand-900 focus:ring-brand-900"
+                        >
+                            {[5, 10, 15, 20, 25, 30, 40, 50].map((percent) => (
+                                <option key={percent} value={percent}>{percent}%</option>
+                            ))}
+                        </select>
+                        {isFrench ? 'des points de la question' : 'of the question points'}
+                    </div>
                 </div>
 
                 <div className="mt-3 flex justify-end">
@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react'
+import type { AnswerKey, GraphAnswerKey, GraphSegment } from '@/types/exams'
+import { DEFAULT_GRAPH_TOLERANCES, parseGraphAnswerKey, validateAnswerKey } from '@/lib/grading/answer-key'
+import MathRenderer from '@/components/exams/MathRenderer'
+import { GraphEditorPopup } from '@/components/exams/graph-editor/GraphEditorPopup'
+import type { GraphPayload } from '@/components/exams/graph-editor/types'
+
+interface GraphAnswerKeySettingsProps {
+    answerKey: AnswerKey | null | undefined
+    locale: string
+    disabled?: boolean
+    onSave: (answerKey: GraphAnswerKey | null) => void
+}
+
+type ToleranceDraft = {
+    tolerance: string
+    slopeTolerance: string
+    areaOverlap: string
+}
+
+const createEmptyGraph = (): GraphPayload => ({
+    axes: { xMin: -5, xMax: 5, yMin: -5, yMax: 5, showGrid: true, gridStep: 1 },
+    points: [],
+    lines: [],
+    curves: [],
+    functions: [],
+    areas: [],
+    texts: [],
+    width: 480,
+    height: 280,
+})
+
+const toToleranceDraft = (key: GraphAnswerKey | null): ToleranceDraft => {
+    const tolerances = key ?? DEFAULT_GRAPH_TOLERANCES
+    return {
+        tolerance: String(tolerances.tolerance),
+        slopeTolerance: String(tolerances.slopeTolerance),
+        areaOverlap: String(Math.round(tolerances.areaOverlap * 100)),
+    }
+}
+
+const inputClass =
+    'mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-brand-900 focus:ring-brand-900'
+
+/**
+ * Teacher settings for TEXT questions answered with a graph: the reference graph
+ * and the tolerances used to score the student's graph on submit, without AI.
+ */
+export function GraphAnswerKeySettings({ answerKey, locale, disabled = false, onSave }: GraphAnswerKeySettingsProps) {
+    const isFr = locale === 'fr'
+    const key = parseGraphAnswerKey(answerKey)
+    const [draftGraph, setDraftGraph] = useState<GraphPayload | null>(null)
+    const [tolerances, setTolerances] = useState<ToleranceDraft>(() => toToleranceDraft(key))
+    const [syncedKey, setSyncedKey] = useState(answerKey)
+    const [error, setError] = useState<string | null>(null)
+    const anchorRef = useRef<HTMLDivElement>(null)
+
+    // Reset the draft when the saved key changes
+    if (answerKey !== syncedKey) {
+        setSyncedKey(answerKey)
+        setTolerances(toToleranceDraft(key))
+    }
+
+    const save = (reference: GraphSegment, next: ToleranceDraft) => {
+        const nextKey = parseGraphAnswerKey({
+            reference,
+            tolerance: Number(next.tolerance),
+            slopeTolerance: Number(next.slopeTolerance),
+            areaOverlap: Number(next.areaOverlap) / 100,
+        })
+        const validationError = nextKey
+            ? validateAnswerKey('TEXT', nextKey)
+            : isFr ? 'Tolérances invalides.' : 'Invalid tolerances.'
+        setError(validationError)
+        if (!nextKey || validationError) return false
+        onSave(nextKey)
+        return true
+    }
+
+    const handleConfirmGraph = () => {
+        if (!draftGraph) return
+        const reference: GraphSegment = { ...draftGraph, id: key?.reference.id ?? `graph-${Date.now().toString(36)}`, type: 'graph' }
+        if (save(reference, tolerances)) setDraftGraph(null)
+    }
+
+    const handleCommitTolerances = () => {
+        if (key) save(key.reference, tolerances)
+    }
+
+    const handleRemove = () => {
+        setError(null)
+        onSave(null)
+    }
+
+    const openEditor = () => {
+        setDraftGraph(key ? { ...key.reference } : createEmptyGraph())
+    }
+
+    return (
+        <div className="space-y-3" ref={anchorRef}>
+            <div>
+                <label className="text-xs font-semibold uppercase text-gray-500">
+                    {isFr ? 'Graphique de référence' : 'Reference graph'}
+                </label>
+                <p className="text-xs text-gray-500">
+                    {isFr
+                        ? 'Si la réponse attendue est un graphique, il est comparé à celui de l’étudiant à la remise : fonctions, points, droites et aires hachurées. Chaque élément retrouvé rapporte une part égale des points.'
+                        : 'When the expected answer is a graph, it is compared with the student’s graph on submit: functions, points, lines and shaded areas. Each element found earns an equal share of the points.'}
+                </p>
+            </div>
+
+            {key && (
+                <div className="rounded-md border border-gray-200 bg-white p-2">
+                    <MathRenderer text={[key.reference]} />
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    type="button"
+                    className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    disabled={disabled}
+                    onClick={openEditor}
+                >
+                    {key
+                        ? isFr ? 'Modifier le graphique' : 'Edit graph'
+                        : isFr ? 'Tracer un graphique de référence' : 'Draw a reference graph'}
+                </button>
+                {key && (
+                    <button
+                        type="button"
+                        className="rounded-md px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                        disabled={disabled}
+                        onClick={handleRemove}
+                    >
+                        {isFr ? 'Retirer (correction manuelle ou IA)' : 'Remove (manual or AI grading)'}
+                    </button>
+                )}
+            </div>
+
+            {key && (
+                <div className="grid gap-3 md:grid-cols-3">
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Tolérance (unités du repère)' : 'Tolerance (graph units)'}
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className={inputClass}
+                            value={tolerances.tolerance}
+                            disabled={disabled}
+                            onChange={(e) => setTolerances((prev) => ({ ...prev, tolerance: e.target.value }))}
+                            onBlur={handleCommitTolerances}
+                        />
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Tolérance sur les pentes' : 'Slope tolerance'}
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className={inputClass}
+                            value={tolerances.slopeTolerance}
+                            disabled={disabled}
+                            onChange={(e) => setTolerances((prev) => ({ ...prev, slopeTolerance: e.target.value }))}
+                            onBlur={handleCommitTolerances}
+                        />
+                    </div>
+                    <div className="flex flex-col">
+                        <label className="text-xs font-semibold text-gray-700">
+                            {isFr ? 'Recouvrement des aires (%)' : 'Area overlap (%)'}
+                        </label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            className={inputClass}
+                            value={tolerances.areaOverlap}
+                            disabled={disabled}
+                            onChange={(e) => setTolerances((prev) => ({ ...prev, areaOverlap: e.target.value }))}
+                            onBlur={handleCommitTolerances}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            {draftGraph && (
+                <GraphEditorPopup
+                    value={draftGraph}
+                    onChangeDraft={setDraftGraph}
+                    onConfirm={handleConfirmGraph}
+                    onCancel={() => setDraftGraph(null)}
+                    onDelete={() => setDraftGraph(null)}
+                    anchorRef={anchorRef}
+                    locale={locale}
+                />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ChevronDown, ChevronRight, Library, Search } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import type { QuestionBankItemSummary, QuestionDifficulty, Section } from '@/types/exams'
+
+interface QuestionBankPanelProps {
+    examId: string
+    courseId: string
+    courseCode: string
+    sections: Section[]
+    locale: string
+    disabled: boolean
+    onInserted: () => Promise<unknown>
+}
+
+type BankSearchResponse = {
+    items: QuestionBankItemSummary[]
+    topics: string[]
+    learningObjectives: string[]
+}
+
+type BankItemHistory = Array<{
+    examId: string
+    title: string
+    courseCode: string
+    startAt: string | null
+    gradedAnswerCount: number
+    averageScorePercent: number | null
+}>
+
+type BankItemDetails = {
+    item: QuestionBankItemSummary & { canManage: boolean }
+    history: BankItemHistory
+}
+
+const selectClass = 'rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900'
+
+const difficultyLabels: Record<QuestionDifficulty, { fr: string; en: string }> = {
+    EASY: { fr: 'Facile', en: 'Easy' },
+    MEDIUM: { fr: 'Moyenne', en: 'Medium' },
+    HARD: { fr: 'Difficile', en: 'Hard' },
+}
+
+/**
+ * Search the question bank and insert copies of its questions into the exam.
+ */
+export function QuestionBankPanel({
+    examId,
+    courseId,
+    courseCode,
+    sections,
+    locale,
+    disabled,
+    onInserted,
+}: QuestionBankPanelProps) {
+    const isFr = locale === 'fr'
+    const [open, setOpen] = useState(false)
+    const [query, setQuery] = useState('')
+    const [type, setType] = useState('')
+    const [difficulty, setDifficulty] = useState('')
+    const [topic, setTopic] = useState('')
+    const [objective, setObjective] = useState('')
+    const [scope, setScope] = useState('')
+    const [targetSectionId, setTargetSectionId] = useState('')
+    const [results, setResults] = useState<BankSearchResponse | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [insertingId, setInsertingId] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const [details, setDetails] = useState<BankItemDetails | null>(null)
+
+    const search = useCallback(async () => {
+        const params = new URLSearchParams()
+        if (query.trim()) params.set('q', query.trim())
+        if (type) params.set('type', type)
+        if (difficulty) params.set('difficulty', difficulty)
+        if (topic) params.set('topic', topic)
+        if (objective) params.set('objective', objective)
+        if (scope) params.set('scope', scope)
+        setLoading(true)
+        setError(null)
+        try {
+            const data = await fetchJsonWithCsrf<BankSearchResponse>(`/api/question-bank?${params.toString()}`)
+            setResults(data)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : isFr ? 'Recherche impossible' : 'Search failed')
+        } finally {
+            setLoading(false)
+        }
+    }, [query, type, difficulty, topic, objective, scope, isFr])
+
+    // Filters apply immediately; the free-text query is submitted with the form
+    useEffect(() => {
+        if (!open) return
+        void search()
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [open, type, difficulty, topic, objective, scope])
+
+    const toggleDetails = async (itemId: string) => {
+        if (expandedId === itemId) {
+            setExpandedId(null)
+            setDetails(null)
+            return
+        }
+        setExpandedId(itemId)
+        setDetails(null)
+        try {
+            const data = await fetchJsonWithCsrf<BankItemDetails>(`/api/question-bank/${itemId}`)
+            setDetails(data)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Error')
+        }
+    }
+
+    const handleInsert = async (itemId: string) => {
+        setInsertingId(itemId)
+        setError(null)
+        try {
+            await fetchJsonWithCsrf(`/api/exams/${examId}/questions`, {
+                method: 'POST',
+                body: { bankItemId: itemId, ...(targetSectionId ? { sectionId: targetSectionId } : {}) },
+            })
+            await onInserted()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : isFr ? 'Insertion impossible' : 'Could not insert')
+        } finally {
+            setInsertingId(null)
+        }
+    }
+
+    const handleArchive = async (itemId: string) => {
+        const confirmed = window.confirm(
+            isFr
+                ? 'Retirer cette question de la banque ? Les examens qui l’utilisent ne sont pas modifiés.'
+                : 'Remove this question from the bank? Exams using it are not changed.'
+        )
+        if (!confirmed) return
+        try {
+            await fetchJsonWithCsrf(`/api/question-bank/${itemId}`, { method: 'DELETE' })
+            setExpandedId(null)
+            setDetails(null)
+            await search()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Error')
+        }
+    }
+
+    const namedSections = sections.filter((section) => !(section.isDefault && !section.customLabel && !section.title))
+
+    return (
+        <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+            <button
+                type="button"
+                onClick={() => setOpen((value) => !value)}
+                className="flex w-full items-center justify-between px-4 py-3 text-left"
+                aria-expanded={open}
+            >
+                <span className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <Library className="h-4 w-4 text-brand-900" />
+                    {isFr ? 'Banque de questions' : 'Question bank'}
+                </span>
+                {open ? <ChevronDown className="h-4 w-4 text-gray-500" /> : <ChevronRight className="h-4 w-4 text-gray-500" />}
+            </button>
+
+            {open && (
+                <div className="space-y-4 border-t border-gray-200 px-4 py-4">
+                    <form
+                        className="flex flex-wrap items-center gap-2"
+                        onSubmit={(event) => {
+                            event.preventDefault()
+                            void search()
+                        }}
+                    >
+                        <div className="relative min-w-[200px] flex-1">
+                            <Search className="pointer-events-none absolute left-2 top-2 h-4 w-4 text-gray-400" />
+                            <input
+                                type="search"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder={isFr ? 'Rechercher dans l’énoncé, les barèmes, les thèmes...' : 'Search statements, rubrics, topics...'}
+                                className="w-full rounded-md border border-gray-300 py-1.5 pl-8 pr-2 text-sm text-gray-900"
+                            />
+                        </div>
+                        <select className={selectClass} value={scope} onChange={(e) => setScope(e.target.value)} aria-label={isFr ? 'Partage' : 'Sharing'}>
+                            <option value="">{isFr ? 'Toutes les banques' : 'All banks'}</option>
+                            <option value={courseId}>{courseCode}</option>
+                            <option value="institution">{isFr ? 'Établissement' : 'Institution'}</option>
+                        </select>
+                        <select className={selectClass} value={type} onChange={(e) => setType(e.target.value)} aria-label="Type">
+                            <option value="">{isFr ? 'Tous les types' : 'All types'}</option>
+                            <option value="TEXT">{isFr ? 'Rédaction' : 'Text'}</option>
+                            <option value="MCQ">QCM</option>
+                            <option value="CODE">Code</option>
+                            <option value="NUMERIC">{isFr ? 'Numérique' : 'Numeric'}</option>
+                            <option value="MATH_EXPRESSION">{isFr ? 'Expression mathématique' : 'Math expression'}</option>
+                        </select>
+                        <select className={selectClass} value={difficulty} onChange={(e) => setDifficulty(e.target.value)} aria-label={isFr ? 'Difficulté' : 'Difficulty'}>
+                            <option value="">{isFr ? 'Toutes difficultés' : 'Any difficulty'}</option>
+                            {(Object.keys(difficultyLabels) as QuestionDifficulty[]).map((value) => (
+                                <option key={value} value={value}>
+                                    {isFr ? difficultyLabels[value].fr : difficultyLabels[value].en}
+                                </option>
+                            ))}
+                        </select>
+                        <select className={selectClass} value={topic} onChange={(e) => setTopic(e.target.value)} aria-label={isFr ? 'Thème' : 'Topic'}>
+                            <option value="">{isFr ? 'Tous les thèmes' : 'All topics'}</option>
+                            {results?.topics.map((value) => (
+                                <option key={value} value={value}>{value}</option>
+                            ))}
+                        </select>
+                        <select className={selectClass} value={objective} onChange={(e) => setObjective(e.target.value)} aria-label={isFr ? 'Objectif' : 'Objective'}>
+                            <option value="">{isFr ? 'Tous les objectifs' : 'All objectives'}</option>
+                            {results?.learningObjectives.map((value) => (
+                                <option key={value} value={value}>{value}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="submit"
+                            className="rounded-md bg-brand-900 px-3 py-1.5 text-sm font-semibold text-white hover:bg-brand-800"
+                        >
+                            {isFr ? 'Rechercher' : 'Search'}
+                        </button>
+                    </form>
+
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        <label htmlFor="bank-target-section">{isFr ? 'Insérer dans' : 'Insert into'}</label>
+                        <select
+                            id="bank-target-section"
+                            className={selectClass}
+                            value={targetSectionId}
+                            onChange={(e) => setTargetSectionId(e.target.value)}
+                        >
+                            <option value="">{isFr ? 'Questions hors partie' : 'Standalone questions'}</option>
+                            {namedSections.map((section) => (
+                                <option key={section.id} value={section.id}>
+                                    {section.customLabel || section.title}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {loading && !results ? (
+                        <p className="text-sm text-gray-500">{isFr ? 'Chargement...' : 'Loading...'}</p>
+                    ) : results && results.items.length === 0 ? (
+                        <p className="text-sm text-gray-500">{isFr ? 'Aucune question trouvée.' : 'No questions found.'}</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {results?.items.map((item) => (
+                                <li key={item.id} className="py-3">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div className="min-w-0 flex-1 space-y-1">
+                                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                                                <span className="rounded bg-gray-100 px-1.5 py-0.5 font-semibold text-gray-700">
+                                                    {item.type === 'MCQ'
+                                                        ? 'QCM'
+                                                        : item.type === 'CODE'
+                                                            ? 'Code'
+                                                            : item.type === 'NUMERIC'
+                                                                ? isFr ? 'Numérique' : 'Numeric'
+                                                                : item.type === 'MATH_EXPRESSION'
+                                                                    ? 'Expression'
+                                                                    : isFr ? 'Rédaction' : 'Text'}
+                                                </span>
+                                                <span className="text-gray-500">
+                                                    {item.courseCode ?? (isFr ? 'Établissement' : 'Institution')}
+                                                </span>
+                                                <span className="text-gray-500">{item.totalPoints} pts</span>
+                                                {item.difficulty && (
+                                                    <span className="rounded bg-amber-50 px-1.5 py-0.5 text-amber-800">
+                                                        {isFr ? difficultyLabels[item.difficulty].fr : difficultyLabels[item.difficulty].en}
+                                                    </span>
+                                                )}
+                                                {[...item.topics, ...item.learningObjectives].map((tag) => (
+                                                    <span key={tag} className="rounded bg-brand-50 px-1.5 py-0.5 text-brand-900">{tag}</span>
+                                                ))}
+                                            </div>
+                                            <p className="text-sm text-gray-900">{item.preview || (isFr ? '(Sans énoncé)' : '(No statement)')}</p>
+                                            <button
+                                                type="button"
+                                                onClick={() => void toggleDetails(item.id)}
+                                                className="text-xs text-gray-500 hover:text-gray-700 hover:underline"
+                                            >
+                                                {isFr
+                                                    ? `Utilisée dans ${item.usage.examCount} examen(s)`
+                                                    : `Used in ${item.usage.examCount} exam(s)`}
+                                                {item.usage.averageScorePercent !== null &&
+                                                    ` · ${isFr ? 'moyenne' : 'average'} ${item.usage.averageScorePercent} %`}
+                                            </button>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => void handleInsert(item.id)}
+                                            disabled={disabled || insertingId !== null}
+                                            className="shrink-0 rounded-md border border-brand-900 px-3 py-1.5 text-sm font-medium text-brand-900 hover:bg-brand-50 disabled:opacity-50"
+                                        >
+                                            {insertingId === item.id ? (isFr ? 'Insertion...' : 'Inserting...') : isFr ? 'Insérer' : 'Insert'}
+                                        </button>
+                                    </div>
+
+                                    {expandedId === item.id && (
+                                        <div className="mt-2 rounded-md bg-gray-50 p-3 text-xs text-gray-700">
+                                            {!details ? (
+                                                <p>{isFr ? 'Chargement...' : 'Loading...'}</p>
+                                            ) : (
+                                                <>
+                                                    {details.history.length === 0 ? (
+                                                        <p>{isFr ? 'Jamais utilisée dans un examen.' : 'Never used in an exam.'}</p>
+                                                    ) : (
+                                                        <ul className="space-y-1">
+                                                            {details.history.map((entry) => (
+                                                                <li key={entry.examId} className="flex justify-between gap-4">
+                                                                    <span>
+                                                                        {entry.courseCode} · {entry.title}
+                                                                        {entry.startAt && ` · ${new Date(entry.startAt).toLocaleDateString(locale)}`}
+                                                                    </span>
+                                                                    <span className="text-gray-500">
+                                                                        {entry.averageScorePercent !== null
+                                                                            ? `${entry.averageScorePercent} % (${entry.gradedAnswerCount})`
+                                                                            : isFr ? 'Non notée' : 'Not graded'}
+                                                                    </span>
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                    {details.item.canManage && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => void handleArchive(item.id)}
+                                                            className="mt-2 text-red-600 hover:underline"
+                                                        >
+                                                            {isFr ? 'Retirer de la banque' : 'Remove from bank'}
+                                                        </button>
+                                                    )}
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
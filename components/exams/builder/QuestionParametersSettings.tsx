@@ -0,0 +1,249 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, Plus, Trash2, Variable } from 'lucide-react'
+import type { QuestionParameter } from '@/types/exams'
+import { drawQuestionParameterValues, validateQuestionParameters } from '@/lib/question-parameters'
+
+interface QuestionParametersSettingsProps {
+    parameters: QuestionParameter[] | null | undefined
+    locale: string
+    disabled?: boolean
+    onSave: (parameters: QuestionParameter[] | null) => void
+}
+
+type DraftParameter = {
+    key: string
+    name: string
+    type: QuestionParameter['type']
+    min: string
+    max: string
+    step: string
+    expression: string
+}
+
+const createKey = () => `param-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+
+const toDraft = (parameters: QuestionParameter[] | null | undefined): DraftParameter[] =>
+    (parameters ?? []).map((parameter) => ({
+        key: createKey(),
+        name: parameter.name,
+        type: parameter.type,
+        min: parameter.type === 'range' ? String(parameter.min) : '',
+        max: parameter.type === 'range' ? String(parameter.max) : '',
+        step: parameter.type === 'range' && parameter.step !== undefined ? String(parameter.step) : '',
+        expression: parameter.type === 'formula' ? parameter.expression : '',
+    }))
+
+const fromDraft = (draft: DraftParameter[]): QuestionParameter[] | null => {
+    const parameters: QuestionParameter[] = []
+    for (const row of draft) {
+        const name = row.name.trim()
+        if (!/^[A-Za-z][A-Za-z0-9_]{0,19}$/.test(name)) return null
+        if (row.type === 'formula') {
+            if (!row.expression.trim()) return null
+            parameters.push({ name, type: 'formula', expression: row.expression.trim() })
+            continue
+        }
+        const min = Number(row.min)
+        const max = Number(row.max)
+        const step = row.step.trim() ? Number(row.step) : undefined
+        if (!row.min.trim() || !row.max.trim() || !Number.isFinite(min) || !Number.isFinite(max)) return null
+        if (step !== undefined && (!Number.isFinite(step) || step <= 0)) return null
+        parameters.push({ name, type: 'range', min, max, ...(step !== undefined ? { step } : {}) })
+    }
+    return parameters
+}
+
+const inputClass =
+    'rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-900 focus:border-brand-900 focus:ring-brand-900 disabled:bg-gray-50'
+
+/**
+ * Teacher settings for parameterized questions: random ranges and formulas,
+ * used as {{a}} or {{2*a+1}} in the statement, options and rubric. Values are
+ * drawn for each student when the attempt starts.
+ */
+export function QuestionParametersSettings({ parameters, locale, disabled = false, onSave }: QuestionParametersSettingsProps) {
+    const isFr = locale === 'fr'
+    const [open, setOpen] = useState(Boolean(parameters?.length))
+    const [draft, setDraft] = useState<DraftParameter[]>(() => toDraft(parameters))
+    const [syncedParameters, setSyncedParameters] = useState(parameters)
+
+    // Reset the draft when the saved parameters change (e.g. after the exam reloads)
+    if (parameters !== syncedParameters) {
+        setSyncedParameters(parameters)
+        setDraft(toDraft(parameters))
+    }
+
+    const parsed = useMemo(() => fromDraft(draft), [draft])
+    const validationError = parsed
+        ? validateQuestionParameters(parsed)
+        : isFr
+            ? 'Complétez le nom et les valeurs de chaque paramètre.'
+            : 'Fill in the name and values of every parameter.'
+
+    const preview = useMemo(() => {
+        if (!parsed || parsed.length === 0 || validationError) return null
+        try {
+            return drawQuestionParameterValues(parsed, 'builder-preview')
+        } catch {
+            return null
+        }
+    }, [parsed, validationError])
+
+    const commit = (next: DraftParameter[] = draft) => {
+        setDraft(next)
+        const nextParameters = fromDraft(next)
+        if (!nextParameters || validateQuestionParameters(nextParameters)) return
+        onSave(nextParameters.length > 0 ? nextParameters : null)
+    }
+
+    const updateRow = (key: string, patch: Partial<DraftParameter>) => {
+        setDraft((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)))
+    }
+
+    return (
+        <div className="space-y-3">
+            <button
+                type="button"
+                className="flex w-full items-center justify-between gap-2 text-left"
+                onClick={() => setOpen((prev) => !prev)}
+                aria-expanded={open}
+            >
+                <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase text-gray-500">
+                    <Variable className="h-4 w-4" />
+                    {isFr ? 'Paramètres aléatoires' : 'Random parameters'}
+                    {draft.length > 0 && <span className="text-gray-400">({draft.length})</span>}
+                </span>
+                {open ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+            </button>
+
+            {open && (
+                <>
+                    <p className="text-xs text-gray-500">
+                        {isFr
+                            ? 'Chaque étudiant reçoit ses propres valeurs. Écrivez {{a}} ou {{2*a+1}} dans l’énoncé (texte ou LaTeX), les options et le barème. Fonctions : sqrt, abs, round(x, n), min, max, sin, cos, tan, exp, ln, log.'
+                            : 'Each student gets their own values. Write {{a}} or {{2*a+1}} in the statement (text or LaTeX), the options and the rubric. Functions: sqrt, abs, round(x, n), min, max, sin, cos, tan, exp, ln, log.'}
+                    </p>
+
+                    {draft.map((row) => (
+                        <div key={row.key} className="flex flex-wrap items-center gap-2">
+                            <input
+                                type="text"
+                                className={`${inputClass} w-20 font-mono`}
+                                placeholder="a"
+                                value={row.name}
+                                disabled={disabled}
+                                onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                                onBlur={() => commit()}
+                                aria-label={isFr ? 'Nom du paramètre' : 'Parameter name'}
+                            />
+                            <select
+                                className={inputClass}
+                                value={row.type}
+                                disabled={disabled}
+                                onChange={(e) =>
+                                    commit(
+                                        draft.map((item) =>
+                                            item.key === row.key
+                                                ? { ...item, type: e.target.value as QuestionParameter['type'] }
+                                                : item
+                                        )
+                                    )
+                                }
+                                aria-label={isFr ? 'Type de paramètre' : 'Parameter type'}
+                            >
+                                <option value="range">{isFr ? '∈ intervalle' : '∈ range'}</option>
+                                <option value="formula">{isFr ? '= formule' : '= formula'}</option>
+                            </select>
+                            {row.type === 'range' ? (
+                                <>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        className={`${inputClass} w-20`}
+                                        placeholder="min"
+                                        value={row.min}
+                                        disabled={disabled}
+                                        onChange={(e) => updateRow(row.key, { min: e.target.value })}
+                                        onBlur={() => commit()}
+                                        aria-label="min"
+                                    />
+                                    <span className="text-xs text-gray-500">..</span>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        className={`${inputClass} w-20`}
+                                        placeholder="max"
+                                        value={row.max}
+                                        disabled={disabled}
+                                        onChange={(e) => updateRow(row.key, { max: e.target.value })}
+                                        onBlur={() => commit()}
+                                        aria-label="max"
+                                    />
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        min={0}
+                                        className={`${inputClass} w-20`}
+                                        placeholder={isFr ? 'pas (1)' : 'step (1)'}
+                                        value={row.step}
+                                        disabled={disabled}
+                                        onChange={(e) => updateRow(row.key, { step: e.target.value })}
+                                        onBlur={() => commit()}
+                                        aria-label={isFr ? 'Pas' : 'Step'}
+                                    />
+                                </>
+                            ) : (
+                                <input
+                                    type="text"
+                                    className={`${inputClass} min-w-[12rem] flex-1 font-mono`}
+                                    placeholder="a^2 + 1"
+                                    value={row.expression}
+                                    disabled={disabled}
+                                    onChange={(e) => updateRow(row.key, { expression: e.target.value })}
+                                    onBlur={() => commit()}
+                                    aria-label={isFr ? 'Formule' : 'Formula'}
+                                />
+                            )}
+                            <button
+                                type="button"
+                                className="text-gray-400 hover:text-red-600"
+                                disabled={disabled}
+                                onClick={() => commit(draft.filter((item) => item.key !== row.key))}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">{isFr ? 'Supprimer le paramètre' : 'Delete parameter'}</span>
+                            </button>
+                        </div>
+                    ))}
+
+                    <button
+                        type="button"
+                        className="inline-flex items-center gap-1 text-xs font-semibold text-brand-900 hover:text-brand-700 disabled:opacity-50"
+                        disabled={disabled || draft.length >= 20}
+                        onClick={() =>
+                            setDraft((prev) => [
+                                ...prev,
+                                { key: createKey(), name: '', type: 'range', min: '', max: '', step: '', expression: '' },
+                            ])
+                        }
+                    >
+                        <Plus className="h-3 w-3" />
+                        {isFr ? 'Ajouter un paramètre' : 'Add parameter'}
+                    </button>
+
+                    {draft.length > 0 && validationError && <p className="text-xs text-red-600">{validationError}</p>}
+                    {preview && (
+                        <p className="text-xs text-gray-500">
+                            {isFr ? 'Exemple de tirage : ' : 'Sample draw: '}
+                            <span className="font-mono">
+                                {Object.entries(preview)
+                                    .map(([name, value]) => `${name} = ${value}`)
+                                    .join(', ')}
+                            </span>
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
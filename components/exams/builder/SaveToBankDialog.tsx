@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import type { QuestionDifficulty } from '@/types/exams'
+
+interface SaveToBankDialogProps {
+    questionId: string
+    courseId: string
+    courseCode: string
+    locale: string
+    onClose: () => void
+    onSaved?: () => void
+}
+
+const splitTags = (value: string) =>
+    value
+        .split(/[,;\n]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+
+const inputClass =
+    'mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-brand-900 focus:ring-brand-900'
+
+/**
+ * Save a copy of a question (segments, rubrics, tools) to the question bank,
+ * tagged by topic, difficulty and learning objective.
+ */
+export function SaveToBankDialog({ questionId, courseId, courseCode, locale, onClose, onSaved }: SaveToBankDialogProps) {
+    const isFr = locale === 'fr'
+    const [scope, setScope] = useState<'course' | 'institution'>('course')
+    const [topics, setTopics] = useState('')
+    const [objectives, setObjectives] = useState('')
+    const [difficulty, setDifficulty] = useState<QuestionDifficulty | ''>('')
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const handleSubmit = async () => {
+        setSaving(true)
+        setError(null)
+        try {
+            await fetchJsonWithCsrf('/api/question-bank', {
+                method: 'POST',
+                body: {
+                    questionId,
+                    courseId: scope === 'course' ? courseId : null,
+                    topics: splitTags(topics),
+                    learningObjectives: splitTags(objectives),
+                    difficulty: difficulty || null,
+                },
+            })
+            onSaved?.()
+            onClose()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : isFr ? 'Enregistrement impossible' : 'Could not save')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="save-to-bank-title"
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-lg rounded-lg border border-gray-200 bg-white p-6 shadow-lg"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <div className="flex items-start justify-between gap-4">
+                    <h2 id="save-to-bank-title" className="text-lg font-semibold text-gray-900">
+                        {isFr ? 'Ajouter à la banque de questions' : 'Add to question bank'}
+                    </h2>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                        <X className="h-5 w-5" />
+                        <span className="sr-only">{isFr ? 'Fermer' : 'Close'}</span>
+                    </button>
+                </div>
+                <p className="mt-1 text-sm text-gray-600">
+                    {isFr
+                        ? 'Une copie de la question (parties, barèmes, outils) est enregistrée ; les modifications ultérieures de l’examen ne l’affectent pas.'
+                        : 'A copy of the question (parts, rubrics, tools) is saved; later edits to this exam do not affect it.'}
+                </p>
+
+                <div className="mt-4 space-y-4">
+                    <fieldset className="space-y-2">
+                        <legend className="text-xs font-semibold uppercase text-gray-500">
+                            {isFr ? 'Partage' : 'Sharing'}
+                        </legend>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="radio"
+                                name="bank-scope"
+                                checked={scope === 'course'}
+                                onChange={() => setScope('course')}
+                                className="h-4 w-4 text-brand-900"
+                            />
+                            {isFr ? `Enseignants du cours ${courseCode}` : `Teachers of ${courseCode}`}
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                                type="radio"
+                                name="bank-scope"
+                                checked={scope === 'institution'}
+                                onChange={() => setScope('institution')}
+                                className="h-4 w-4 text-brand-900"
+                            />
+                            {isFr ? 'Tout l’établissement' : 'Whole institution'}
+                        </label>
+                    </fieldset>
+
+                    <div>
+                        <label className="text-xs font-semibold text-gray-700" htmlFor="bank-topics">
+                            {isFr ? 'Thèmes' : 'Topics'}
+                        </label>
+                        <input
+                            id="bank-topics"
+                            type="text"
+                            className={inputClass}
+                            placeholder={isFr ? 'ex. intégrales, suites' : 'e.g. integrals, sequences'}
+                            value={topics}
+                            onChange={(e) => setTopics(e.target.value)}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-semibold text-gray-700" htmlFor="bank-objectives">
+                            {isFr ? 'Objectifs d’apprentissage' : 'Learning objectives'}
+                        </label>
+                        <input
+                            id="bank-objectives"
+                            type="text"
+                            className={inputClass}
+                            placeholder={isFr ? 'Séparés par des virgules' : 'Comma-separated'}
+                            value={objectives}
+                            onChange={(e) => setObjectives(e.target.value)}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-semibold text-gray-700" htmlFor="bank-difficulty">
+                            {isFr ? 'Difficulté' : 'Difficulty'}
+                        </label>
+                        <select
+                            id="bank-difficulty"
+                            className={inputClass}
+                            value={difficulty}
+                            onChange={(e) => setDifficulty(e.target.value as QuestionDifficulty | '')}
+                        >
+                            <option value="">{isFr ? 'Non précisée' : 'Not set'}</option>
+                            <option value="EASY">{isFr ? 'Facile' : 'Easy'}</option>
+                            <option value="MEDIUM">{isFr ? 'Moyenne' : 'Medium'}</option>
+                            <option value="HARD">{isFr ? 'Difficile' : 'Hard'}</option>
+                        </select>
+                    </div>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <div className="mt-6 flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="rounded-md border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                        {isFr ? 'Annuler' : 'Cancel'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleSubmit}
+                        disabled={saving}
+                        className="rounded-md bg-brand-900 px-4 py-2 text-sm font-semibold text-white hover:bg-brand-800 disabled:opacity-50"
+                    >
+                        {saving ? (isFr ? 'Enregistrement...' : 'Saving...') : isFr ? 'Enregistrer' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -1,10 +1,15 @@
 import { useMemo, useState, useEffect, useLayoutEffect, useRef, useCallback, type ReactNode } from 'react'
 import type { JSX } from 'react'
-import { ChevronDown, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
-import { Exam, Question, QuestionType, ValidationErrors, Segment, ContentSegment, StudentToolsConfig, StudentMathSymbolSet, Rubric } from '@/types/exams'
+import { ChevronDown, Plus, Trash2, ArrowUp, ArrowDown, BookmarkPlus } from 'lucide-react'
+import { Exam, Question, QuestionType, ValidationErrors, Segment, ContentSegment, StudentToolsConfig, StudentMathSymbolSet, Rubric, PoolStratification } from '@/types/exams'
 import SegmentedMathField from '@/components/exams/SegmentedMathField'
 import StringMathField from '@/components/exams/StringMathField'
 import { PreviewToggle } from '@/components/exams/builder/PreviewToggle'
+import { CodeQuestionSettings } from '@/components/exams/builder/CodeQuestionSettings'
+import { QuestionParametersSettings } from '@/components/exams/builder/QuestionParametersSettings'
+import { AnswerKeySettings } from '@/components/exams/builder/AnswerKeySettings'
+import { GraphAnswerKeySettings } from '@/components/exams/builder/GraphAnswerKeySettings'
+import { SectionPoolSettings } from '@/components/exams/builder/SectionPoolSettings'
 import { parseContent, segmentsToPlainText } from '@/lib/content'
 
 interface SectionListProps {
@@ -30,7 +35,7 @@ interface SectionListProps {
         outsideSection?: boolean
     ) => Promise<void>
     addSegment: (questionId: string) => Promise<void>
-    updateSection: (sectionId: string, data: { title?: string; customLabel?: string | null; order?: number; introContent?: ContentSegment[] | string | null }) => Promise<void>
+    updateSection: (sectionId: string, data: { title?: string; customLabel?: string | null; order?: number; introContent?: ContentSegment[] | string | null; poolDrawCount?: number | null; poolStratifyBy?: PoolStratification }) => Promise<void>
     updateQuestion: (sectionId: string, questionId: string, data: Partial<Question> & { targetSectionId?: string; targetOrder?: number }) => Promise<void>
     updateSegment: (
         questionId: string,
@@ -63,6 +68,8 @@ interface SectionListProps {
     updateLiveSectionTitle: (sectionId: string, title: string) => void
     updateLiveSectionLabel: (sectionId: string, label: string | null) => void
     updateLiveSectionIntro: (sectionId: string, introContent: ContentSegment[]) => void
+    onSaveToBank?: (questionId: string) => void
+    poolsLocked?: boolean
 }
 
 const buildExamplesPayload = (value: string) => {
@@ -332,6 +339,8 @@ export function SectionList({
     updateLiveSectionTitle,
     updateLiveSectionLabel,
     updateLiveSectionIntro,
+    onSaveToBank,
+    poolsLocked = false,
 }: SectionListProps) {
     const sectionsToDisplay = useMemo(() => {
         return [...liveExam.sections].sort((a, b) => a.order - b.order)
@@ -1206,6 +1215,22 @@ export function SectionList({
         return <div className="flex items-center gap-1">{buttons}</div>
     }
 
+    const renderSaveToBankButton = (questionId: string) => {
+        const label = locale === 'fr' ? 'Ajouter à la banque de questions' : 'Add to question bank'
+        return (
+            <button
+                type="button"
+                onClick={() => onSaveToBank?.(questionId)}
+                title={label}
+                aria-label={label}
+                className="inline-flex items-center justify-center rounded-md border border-transparent p-2 text-gray-500 hover:text-brand-900 hover:border-brand-200 hover:bg-brand-50 focus:outline-none focus:ring-2 focus:ring-brand-200 disabled:opacity-50"
+                disabled={loading}
+            >
+                <BookmarkPlus className="w-4 h-4" />
+            </button>
+        )
+    }
+
     const handleAddSection = useCallback(
         async (...args: Parameters<typeof addSection>) => {
             const id = await addSection(...args)
@@ -1261,6 +1286,18 @@ export function SectionList({
                                 label: addMcqLabel,
                                 onSelect: () => handleAddQuestion(sectionId, 'MCQ', false),
                             },
+                            {
+                                label: 'Code',
+                                onSelect: () => handleAddQuestion(sectionId, 'CODE', false),
+                            },
+                            {
+                                label: isFrench ? 'Numérique' : 'Numeric',
+                                onSelect: () => handleAddQuestion(sectionId, 'NUMERIC', false),
+                            },
+                            {
+                                label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                onSelect: () => handleAddQuestion(sectionId, 'MATH_EXPRESSION', false),
+                            },
                         ],
                     },
                     {
@@ -1274,6 +1311,18 @@ export function SectionList({
                                 label: addMcqLabel,
                                 onSelect: () => handleEmptySectionAdd(sectionId, 'out', 'MCQ'),
                             },
+                            {
+                                label: 'Code',
+                                onSelect: () => handleEmptySectionAdd(sectionId, 'out', 'CODE'),
+                            },
+                            {
+                                label: isFrench ? 'Numérique' : 'Numeric',
+                                onSelect: () => handleEmptySectionAdd(sectionId, 'out', 'NUMERIC'),
+                            },
+                            {
+                                label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                onSelect: () => handleEmptySectionAdd(sectionId, 'out', 'MATH_EXPRESSION'),
+                            },
                         ],
                     },
                     {
@@ -1310,6 +1359,21 @@ export function SectionList({
                                     onSelect: () =>
                                         handleAddQuestion(targetSectionId, 'MCQ', false, node.questionId, outsideSection),
                                 },
+                                {
+                                    label: 'Code',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'CODE', false, node.questionId, outsideSection),
+                                },
+                                {
+                                    label: isFrench ? 'Numérique' : 'Numeric',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'NUMERIC', false, node.questionId, outsideSection),
+                                },
+                                {
+                                    label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'MATH_EXPRESSION', false, node.questionId, outsideSection),
+                                },
                             ],
                         },
                         {
@@ -1338,6 +1402,21 @@ export function SectionList({
                                     onSelect: () =>
                                         handleAddQuestion(targetSectionId, 'MCQ', false, node.questionId, outsideSection),
                                 },
+                                {
+                                    label: 'Code',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'CODE', false, node.questionId, outsideSection),
+                                },
+                                {
+                                    label: isFrench ? 'Numérique' : 'Numeric',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'NUMERIC', false, node.questionId, outsideSection),
+                                },
+                                {
+                                    label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                    onSelect: () =>
+                                        handleAddQuestion(targetSectionId, 'MATH_EXPRESSION', false, node.questionId, outsideSection),
+                                },
                             ],
                         },
                         {
@@ -1351,6 +1430,18 @@ export function SectionList({
                                     label: addMcqLabel,
                                     onSelect: () => handleEmptySectionAdd(sectionId ?? '', 'out', 'MCQ'),
                                 },
+                                {
+                                    label: 'Code',
+                                    onSelect: () => handleEmptySectionAdd(sectionId ?? '', 'out', 'CODE'),
+                                },
+                                {
+                                    label: isFrench ? 'Numérique' : 'Numeric',
+                                    onSelect: () => handleEmptySectionAdd(sectionId ?? '', 'out', 'NUMERIC'),
+                                },
+                                {
+                                    label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                    onSelect: () => handleEmptySectionAdd(sectionId ?? '', 'out', 'MATH_EXPRESSION'),
+                                },
                             ],
                         },
                         {
@@ -1378,6 +1469,21 @@ export function SectionList({
                                 onSelect: () =>
                                     handleAddQuestion(targetSectionId, 'MCQ', false, node.questionId, outsideSection),
                             },
+                            {
+                                label: 'Code',
+                                onSelect: () =>
+                                    handleAddQuestion(targetSectionId, 'CODE', false, node.questionId, outsideSection),
+                            },
+                            {
+                                label: isFrench ? 'Numérique' : 'Numeric',
+                                onSelect: () =>
+                                    handleAddQuestion(targetSectionId, 'NUMERIC', false, node.questionId, outsideSection),
+                            },
+                            {
+                                label: isFrench ? 'Expression mathématique' : 'Math expression',
+                                onSelect: () =>
+                                    handleAddQuestion(targetSectionId, 'MATH_EXPRESSION', false, node.questionId, outsideSection),
+                            },
                         ],
                     },
                     {
@@ -1423,6 +1529,18 @@ export function SectionList({
                 label: addMcqLabel,
                 onSelect: () => handleAddQuestion(sectionId, 'MCQ', false, questionId, false),
             },
+            {
+                label: 'Code',
+                onSelect: () => handleAddQuestion(sectionId, 'CODE', false, questionId, false),
+            },
+            {
+                label: isFrench ? 'Numérique' : 'Numeric',
+                onSelect: () => handleAddQuestion(sectionId, 'NUMERIC', false, questionId, false),
+            },
+            {
+                label: isFrench ? 'Expression mathématique' : 'Math expression',
+                onSelect: () => handleAddQuestion(sectionId, 'MATH_EXPRESSION', false, questionId, false),
+            },
         ]
 
         const outSectionItems: AddInsertMenuItem[] = [
@@ -1434,6 +1552,18 @@ export function SectionList({
                 label: addMcqLabel,
                 onSelect: () => handleAddQuestion(undefined, 'MCQ', false, questionId, true),
             },
+            {
+                label: 'Code',
+                onSelect: () => handleAddQuestion(undefined, 'CODE', false, questionId, true),
+            },
+            {
+                label: isFrench ? 'Numérique' : 'Numeric',
+                onSelect: () => handleAddQuestion(undefined, 'NUMERIC', false, questionId, true),
+            },
+            {
+                label: isFrench ? 'Expression mathématique' : 'Math expression',
+                onSelect: () => handleAddQuestion(undefined, 'MATH_EXPRESSION', false, questionId, true),
+            },
         ]
 
         const groups: AddInsertMenuGroup[] = []
@@ -1586,6 +1716,7 @@ export function SectionList({
                     >
                         {!isFocusMode &&
                             renderQuestionMoveButtons({ section, questionIndex, sectionIndex })}
+                        {onSaveToBank && renderSaveToBankButton(question.id)}
                         <div className="relative flex items-center">
                             <button
                                 type="button"
@@ -2045,6 +2176,7 @@ export function SectionList({
                     >
                         {!isFocusMode &&
                             renderQuestionMoveButtons({ section, questionIndex, sectionIndex })}
+                        {onSaveToBank && renderSaveToBankButton(question.id)}
                         <div className="relative flex items-center">
                             <button
                                 type="button"
@@ -2163,6 +2295,52 @@ export function SectionList({
                     )}
                 </div>
 
+                {question.type === 'CODE' && (
+                    <div className={`pt-3 border-t border-gray-200 ${lockedBlockClass}`}>
+                        <CodeQuestionSettings
+                            config={liveQuestion?.codeConfig ?? question.codeConfig}
+                            locale={locale}
+                            disabled={isLocked}
+                            onSave={(codeConfig) => updateQuestion(sectionId, question.id, { codeConfig })}
+                        />
+                    </div>
+                )}
+
+                {(question.type === 'NUMERIC' || question.type === 'MATH_EXPRESSION') && (
+                    <div className={`pt-3 border-t border-gray-200 ${lockedBlockClass}`}>
+                        <AnswerKeySettings
+                            type={question.type}
+                            answerKey={liveQuestion?.answerKey ?? question.answerKey}
+                            parameters={liveQuestion?.parameters ?? question.parameters}
+                            locale={locale}
+                            disabled={isLocked}
+                            onSave={(answerKey) => updateQuestion(sectionId, question.id, { answerKey })}
+                        />
+                    </div>
+                )}
+
+                {question.type === 'TEXT' && (
+                    <div className={`pt-3 border-t border-gray-200 ${lockedBlockClass}`}>
+                        <GraphAnswerKeySettings
+                            answerKey={liveQuestion?.answerKey ?? question.answerKey}
+                            locale={locale}
+                            disabled={isLocked}
+                            onSave={(answerKey) => updateQuestion(sectionId, question.id, { answerKey })}
+                        />
+                    </div>
+                )}
+
+                {question.type !== 'CODE' && (
+                    <div className={`pt-3 border-t border-gray-200 ${lockedBlockClass}`}>
+                        <QuestionParametersSettings
+                            parameters={liveQuestion?.parameters ?? question.parameters}
+                            locale={locale}
+                            disabled={isLocked}
+                            onSave={(parameters) => updateQuestion(sectionId, question.id, { parameters })}
+                        />
+                    </div>
+                )}
+
                 <div className={`pt-3 border-t border-gray-200 ${lockedBlockClass}`}>
                     <button
                         type="button"
@@ -2825,6 +3003,16 @@ export function SectionList({
                                 </div>
                             </div>
                         )}
+                        {showSectionHeader && (
+                            <SectionPoolSettings
+                                drawCount={section.poolDrawCount}
+                                stratifyBy={section.poolStratifyBy}
+                                questionCount={sectionQuestions.length}
+                                locale={locale}
+                                disabled={isLocked || loading || poolsLocked}
+                                onSave={(data) => updateSection(section.id, data)}
+                            />
+                        )}
                         {shouldRenderQuestions &&
                             (sectionQuestions.length === 0 ? (
                                 <div className="p-4 group/empty-section">
@@ -2847,6 +3035,18 @@ export function SectionList({
                                                                 label: locale === 'fr' ? 'QCM' : 'MCQ',
                                                                 onSelect: () => handleEmptySectionAdd(section.id, 'in', 'MCQ'),
                                                             },
+                                                            {
+                                                                label: 'Code',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'in', 'CODE'),
+                                                            },
+                                                            {
+                                                                label: locale === 'fr' ? 'Numérique' : 'Numeric',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'in', 'NUMERIC'),
+                                                            },
+                                                            {
+                                                                label: locale === 'fr' ? 'Expression mathématique' : 'Math expression',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'in', 'MATH_EXPRESSION'),
+                                                            },
                                                         ],
                                                     },
                                                     {
@@ -2860,6 +3060,18 @@ export function SectionList({
                                                                 label: locale === 'fr' ? 'QCM' : 'MCQ',
                                                                 onSelect: () => handleEmptySectionAdd(section.id, 'out', 'MCQ'),
                                                             },
+                                                            {
+                                                                label: 'Code',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'out', 'CODE'),
+                                                            },
+                                                            {
+                                                                label: locale === 'fr' ? 'Numérique' : 'Numeric',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'out', 'NUMERIC'),
+                                                            },
+                                                            {
+                                                                label: locale === 'fr' ? 'Expression mathématique' : 'Math expression',
+                                                                onSelect: () => handleEmptySectionAdd(section.id, 'out', 'MATH_EXPRESSION'),
+                                                            },
                                                         ],
                                                     },
                                                     {
@@ -2953,6 +3165,18 @@ export function SectionList({
                                     label: locale === 'fr' ? 'QCM' : 'MCQ',
                                     onSelect: () => handleAddQuestion(undefined, 'MCQ', true),
                                 },
+                                {
+                                    label: 'Code',
+                                    onSelect: () => handleAddQuestion(undefined, 'CODE', true),
+                                },
+                                {
+                                    label: locale === 'fr' ? 'Numérique' : 'Numeric',
+                                    onSelect: () => handleAddQuestion(undefined, 'NUMERIC', true),
+                                },
+                                {
+                                    label: locale === 'fr' ? 'Expression mathématique' : 'Math expression',
+                                    onSelect: () => handleAddQuestion(undefined, 'MATH_EXPRESSION', true),
+                                },
                             ],
                         },
                     ]}
@@ -2984,6 +3208,18 @@ export function SectionList({
                                                 label: locale === 'fr' ? 'QCM' : 'MCQ',
                                                 onSelect: () => handleAddQuestion(undefined, 'MCQ', true),
                                             },
+                                            {
+                                                label: 'Code',
+                                                onSelect: () => handleAddQuestion(undefined, 'CODE', true),
+                                            },
+                                            {
+                                                label: locale === 'fr' ? 'Numérique' : 'Numeric',
+                                                onSelect: () => handleAddQuestion(undefined, 'NUMERIC', true),
+                                            },
+                                            {
+                                                label: locale === 'fr' ? 'Expression mathématique' : 'Math expression',
+                                                onSelect: () => handleAddQuestion(undefined, 'MATH_EXPRESSION', true),
+                                            },
                                         ],
                                     },
                                 ]}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Shuffle } from 'lucide-react'
+import type { PoolStratification } from '@/types/exams'
+
+interface SectionPoolSettingsProps {
+    drawCount: number | null | undefined
+    stratifyBy: PoolStratification | undefined
+    questionCount: number
+    locale: string
+    disabled?: boolean
+    onSave: (data: { poolDrawCount: number | null; poolStratifyBy: PoolStratification }) => void
+}
+
+const selectClass =
+    'rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-brand-900 focus:ring-brand-900 disabled:bg-gray-50'
+
+/**
+ * Turn a part into a question pool: each student draws N of its questions,
+ * optionally keeping the same mix of difficulties or points for everyone.
+ */
+export function SectionPoolSettings({
+    drawCount,
+    stratifyBy = 'NONE',
+    questionCount,
+    locale,
+    disabled = false,
+    onSave,
+}: SectionPoolSettingsProps) {
+    const isFr = locale === 'fr'
+    const enabled = typeof drawCount === 'number' && drawCount > 0
+    const [draftCount, setDraftCount] = useState(String(drawCount ?? ''))
+    const [syncedCount, setSyncedCount] = useState(drawCount)
+
+    // Reset the draft when the saved value changes (e.g. after the exam reloads)
+    if (drawCount !== syncedCount) {
+        setSyncedCount(drawCount)
+        setDraftCount(String(drawCount ?? ''))
+    }
+
+    const commitCount = () => {
+        const parsed = Math.floor(Number(draftCount))
+        if (!Number.isFinite(parsed) || parsed < 1) {
+            setDraftCount(String(drawCount ?? ''))
+            return
+        }
+        if (parsed !== drawCount) onSave({ poolDrawCount: parsed, poolStratifyBy: stratifyBy })
+    }
+
+    return (
+        <div className="p-4 bg-white">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-brand-900"
+                    checked={enabled}
+                    disabled={disabled}
+                    onChange={(e) =>
+                        onSave({
+                            poolDrawCount: e.target.checked ? Math.max(1, questionCount - 1) : null,
+                            poolStratifyBy: e.target.checked ? stratifyBy : 'NONE',
+                        })
+                    }
+                />
+                <Shuffle className="h-4 w-4 text-gray-500" />
+                {isFr ? 'Tirer les questions au sort pour chaque étudiant' : 'Draw questions at random for each student'}
+            </label>
+
+            {enabled && (
+                <div className="mt-3 space-y-2 pl-6">
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                        <span>{isFr ? 'Chaque étudiant reçoit' : 'Each student gets'}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={Math.max(1, questionCount)}
+                            className={`${selectClass} w-20`}
+                            value={draftCount}
+                            disabled={disabled}
+                            onChange={(e) => setDraftCount(e.target.value)}
+                            onBlur={commitCount}
+                            aria-label={isFr ? 'Nombre de questions tirées' : 'Number of questions drawn'}
+                        />
+                        <span>
+                            {isFr ? `question(s) sur ${questionCount}, en répartissant` : `of ${questionCount} question(s), balanced by`}
+                        </span>
+                        <select
+                            className={selectClass}
+                            value={stratifyBy}
+                            disabled={disabled}
+                            onChange={(e) =>
+                                onSave({ poolDrawCount: drawCount ?? null, poolStratifyBy: e.target.value as PoolStratification })
+                            }
+                            aria-label={isFr ? 'Répartition' : 'Balancing'}
+                        >
+                            <option value="NONE">{isFr ? 'au hasard' : 'nothing (pure random)'}</option>
+                            <option value="DIFFICULTY">{isFr ? 'par difficulté' : 'difficulty'}</option>
+                            <option value="POINTS">{isFr ? 'par barème' : 'points'}</option>
+                        </select>
+                    </div>
+                    {typeof drawCount === 'number' && drawCount > questionCount && (
+                        <p className="text-xs text-red-600">
+                            {isFr
+                                ? 'Ajoutez des questions : la partie en contient moins que le nombre tiré.'
+                                : 'Add questions: the part holds fewer questions than it draws.'}
+                        </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                        {isFr
+                            ? 'Les questions tirées sont présentées dans un ordre aléatoire. Le tirage est enregistré au démarrage de chaque copie. La difficulté provient de la banque de questions.'
+                            : 'Drawn questions are shown in random order. The draw is saved when each attempt starts. Difficulty comes from the question bank.'}
+                    </p>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,4 +1,4 @@
-import { compileExpression } from '@/components/exams/graph-utils'
+import { compileExpression } from '../../graph-utils'
 import type { GraphLine } from '@/types/exams'
 
 /**
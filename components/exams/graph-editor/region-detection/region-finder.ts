@@ -1,4 +1,4 @@
-import { compileExpression } from '@/components/exams/graph-utils'
+import { compileExpression } from '../../graph-utils'
 import type { GraphFunction, GraphLine, GraphAxes } from '@/types/exams'
 
 /** An element that can serve as a boundary */
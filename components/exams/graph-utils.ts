@@ -244,10 +244,18 @@ const applyFill = (el: SVGElement, style?: { color?: string; opacity?: number })
     el.setAttribute('fill-opacity', String(Math.max(0, Math.min(1, opacity))))
 }
 
+// Names an expression may use; anything else would reach the Function body as code
+const EXPRESSION_IDENTIFIERS = new Set([
+    'x', 'pi', 'e', 'ln', 'log', 'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'sqrt', 'abs', 'exp', 'pow',
+])
+
 export const compileExpression = (expression: string): ((x: number) => number) | null => {
     const raw = normalizeGraphExpression(expression)
     if (!raw) return null
     if (!/^[0-9xX+\-*/^().,\sA-Za-z_]+$/.test(raw)) return null
+    // Expressions of students' graphs are also evaluated on the server when grading
+    const identifiers = raw.replace(/\d+(?:\.\d*)?(?:e[+-]?\d+)?/gi, ' ').match(/[A-Za-z_]+/g) ?? []
+    if (identifiers.some((name) => !EXPRESSION_IDENTIFIERS.has(name.toLowerCase()))) return null
 
     let formula = raw
         .replace(/\^/g, '**')
@@ -329,7 +337,7 @@ const findRayEnd = (start: GraphCoord, through: GraphCoord, axes: GraphAxes): Gr
     return best
 }
 
-const buildLinePath = (line: GraphLine, axes: GraphAxes, payload: GraphSegment, seen?: Set<string>): { start: GraphCoord; end: GraphCoord } | null => {
+export const buildLinePath = (line: GraphLine, axes: GraphAxes, payload: GraphSegment, seen?: Set<string>): { start: GraphCoord; end: GraphCoord } | null => {
     const start = resolveAnchor(line.start, payload, seen)
     const end = resolveAnchor(line.end, payload, seen)
 
@@ -352,7 +360,7 @@ const buildLinePath = (line: GraphLine, axes: GraphAxes, payload: GraphSegment,
     return null
 }
 
-const buildCurvePath = (curve: GraphCurve, axes: GraphAxes, payload: GraphSegment, seen?: Set<string>): { start: GraphCoord; control: GraphCoord; end: GraphCoord } => {
+export const buildCurvePath = (curve: GraphCurve, axes: GraphAxes, payload: GraphSegment, seen?: Set<string>): { start: GraphCoord; control: GraphCoord; end: GraphCoord } => {
     const start = resolveAnchor(curve.start, payload, seen)
     const end = resolveAnchor(curve.end, payload, seen)
     const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
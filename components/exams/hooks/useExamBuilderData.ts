@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react'
-import { Exam, Question, QuestionType, Segment, ValidationErrors, ContentSegment, Rubric } from '@/types/exams'
+import { Exam, Question, QuestionType, Segment, ValidationErrors, ContentSegment, Rubric, PoolStratification } from '@/types/exams'
 import { parseContent, serializeContent, segmentsToPlainText } from '@/lib/content'
 import { getCsrfToken } from '@/lib/csrfClient'
 import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
@@ -41,6 +41,9 @@ const normalizeExam = (incoming: Exam): Exam => ({
             answerTemplate: parseContent((question as unknown as { answerTemplate?: unknown }).answerTemplate),
             answerTemplateLocked: Boolean((question as unknown as { answerTemplateLocked?: unknown }).answerTemplateLocked),
             studentTools: (question as unknown as { studentTools?: unknown }).studentTools ?? null,
+            codeConfig: (question as unknown as { codeConfig?: Question['codeConfig'] }).codeConfig ?? null,
+            parameters: (question as unknown as { parameters?: Question['parameters'] }).parameters ?? null,
+            answerKey: (question as unknown as { answerKey?: Question['answerKey'] }).answerKey ?? null,
             shuffleOptions: Boolean((question as unknown as { shuffleOptions?: unknown }).shuffleOptions),
             segments: question.segments.map((segment) => ({
                 ...segment,
@@ -723,7 +726,7 @@ export function useExamBuilderData({ examId, initialData, dict, locale }: UseExa
     )
 
     const updateSection = useCallback(
-        async (sectionId: string, data: { title?: string; customLabel?: string | null; order?: number; introContent?: ContentSegment[] | string | null }) => {
+        async (sectionId: string, data: { title?: string; customLabel?: string | null; order?: number; introContent?: ContentSegment[] | string | null; poolDrawCount?: number | null; poolStratifyBy?: PoolStratification }) => {
             try {
                 const payload: Record<string, unknown> = { ...data }
                 if (data.introContent !== undefined) {
@@ -736,7 +739,10 @@ export function useExamBuilderData({ examId, initialData, dict, locale }: UseExa
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(payload),
                 })
-                if (!res.ok) throw new Error('Failed to update section')
+                if (!res.ok) {
+                    const body = await res.json().catch(() => null)
+                    throw new Error(body?.error || 'Failed to update section')
+                }
                 await reloadExam()
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Network error')
@@ -1076,6 +1082,14 @@ export function useExamBuilderData({ examId, initialData, dict, locale }: UseExa
                                 : 'MCQ total points must equal the sum of positive option points'
                         case 'mcq_correct_options':
                             return dict.validationMcqCorrectOptions
+                        case 'pool_draw_count':
+                            return locale === 'fr'
+                                ? 'Chaque partie tirée au sort doit contenir au moins autant de questions que le nombre tiré'
+                                : 'Each randomized part must contain at least as many questions as it draws'
+                        case 'answer_key':
+                            return locale === 'fr'
+                                ? 'Chaque question numérique ou d\'expression doit avoir une réponse attendue valide'
+                                : 'Each numeric or expression question needs a valid expected answer'
                         default:
                             return key
                     }
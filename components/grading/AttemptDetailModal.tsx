@@ -219,7 +219,7 @@ export function AttemptDetailModal({ attemptId, isOpen, onClose, onGradeUpdated
                         {data && (
                             <>
                                 <Text variant="pageTitle" className="text-xl">{data.attempt.student.name}</Text>
-                                <Text variant="muted">{data.attempt.student.email}</Text>
+                                {data.attempt.student.email && <Text variant="muted">{data.attempt.student.email}</Text>}
                                 <Text variant="muted">
                                     Soumis le {new Date(data.attempt.submittedAt).toLocaleString()}
                                 </Text>
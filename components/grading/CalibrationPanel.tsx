@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Check, Trash2 } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Input, Select } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Badge } from '@/components/ui/Badge'
+import { TextLink } from '@/components/ui/TextLink'
+import { EmptyState } from '@/components/ui/EmptyState'
+import { CalibrationRunsComparison, type CalibrationRunSummary } from './CalibrationRunsComparison'
+
+interface CalibrationSet {
+    id: string
+    name: string
+    createdAt: string
+    items: { answerId: string; attemptId: string; questionLabel: string; teacherGraded: boolean }[]
+    runs: CalibrationRunSummary[]
+}
+
+interface CalibrationOverview {
+    prompts: { id: string | null; label: string }[]
+    sets: CalibrationSet[]
+}
+
+interface CalibrationPanelProps {
+    examId: string
+}
+
+/**
+ * AI grading calibration: golden sets of answers graded by hand, AI runs on the
+ * same answers with the active or a candidate prompt, and their reports side by side.
+ */
+export function CalibrationPanel({ examId }: CalibrationPanelProps) {
+    const [overview, setOverview] = useState<CalibrationOverview | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [name, setName] = useState('')
+    const [perQuestion, setPerQuestion] = useState('5')
+    const [isCreating, setIsCreating] = useState(false)
+    const [runningSetId, setRunningSetId] = useState<string | null>(null)
+    const [promptBySet, setPromptBySet] = useState<Record<string, string>>({})
+    const [message, setMessage] = useState('')
+
+    const fetchOverview = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/exams/${examId}/calibration`)
+            if (!res.ok) {
+                console.error('Failed to fetch calibration')
+                return
+            }
+            setOverview(await res.json())
+        } catch (error) {
+            console.error('Error fetching calibration:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [examId])
+
+    useEffect(() => { fetchOverview() }, [fetchOverview])
+
+    const handleCreate = async () => {
+        setIsCreating(true)
+        setMessage('')
+        try {
+            await fetchJsonWithCsrf(`/api/exams/${examId}/calibration`, {
+                method: 'POST',
+                body: { name: name.trim(), perQuestion: Number(perQuestion) }
+            })
+            setName('')
+            await fetchOverview()
+        } catch (error) {
+            console.error('Calibration set creation error:', error)
+            setMessage(error instanceof Error ? error.message : 'Erreur lors de la creation de l\'echantillon')
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    const handleRun = async (setId: string) => {
+        setRunningSetId(setId)
+        setMessage('')
+        try {
+            await fetchJsonWithCsrf(`/api/exams/${examId}/calibration/${setId}/runs`, {
+                method: 'POST',
+                body: { promptVersionId: promptBySet[setId] || null }
+            })
+            await fetchOverview()
+        } catch (error) {
+            console.error('Calibration run error:', error)
+            setMessage(error instanceof Error ? error.message : 'Erreur lors de la calibration')
+        } finally {
+            setRunningSetId(null)
+        }
+    }
+
+    const handleDelete = async (setId: string) => {
+        if (!window.confirm('Supprimer cet echantillon et ses calibrations ? Les notes des copies ne sont pas modifiees.')) return
+        try {
+            await fetchJsonWithCsrf(`/api/exams/${examId}/calibration/${setId}`, { method: 'DELETE' })
+            await fetchOverview()
+        } catch (error) {
+            console.error('Calibration set deletion error:', error)
+        }
+    }
+
+    if (loading || !overview) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <Text variant="body" className="text-gray-600">Chargement de la calibration...</Text>
+            </div>
+        )
+    }
+
+    const perQuestionValue = Number(perQuestion)
+    const canCreate = name.trim().length > 0 && Number.isInteger(perQuestionValue) && perQuestionValue >= 1 && perQuestionValue <= 50
+
+    return (
+        <Stack gap="md">
+            <Card>
+                <CardBody padding="md">
+                    <Stack gap="sm">
+                        <Text variant="label">Nouvel echantillon de reference</Text>
+                        <Text variant="xsMuted">
+                            Des copies sont tirees au hasard par question ouverte. Corrigez-les a la main, puis lancez
+                            la correction IA sur ces memes copies pour mesurer son ecart avec vos notes.
+                        </Text>
+                        <Inline align="start" gap="sm">
+                            <Input
+                                size="sm"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Nom de l'echantillon"
+                                className="flex-1"
+                            />
+                            <Inline align="start" gap="xs">
+                                <Input
+                                    size="sm"
+                                    type="number"
+                                    min={1}
+                                    max={50}
+                                    value={perQuestion}
+                                    onChange={(e) => setPerQuestion(e.target.value)}
+                                    className="w-20"
+                                />
+                                <Text variant="caption">copies par question</Text>
+                            </Inline>
+                            <Button size="xs" onClick={handleCreate} disabled={isCreating || !canCreate}>
+                                {isCreating ? 'Creation...' : 'Creer l\'echantillon'}
+                            </Button>
+                        </Inline>
+                        {message && <Text variant="caption" className="text-gray-700">{message}</Text>}
+                    </Stack>
+                </CardBody>
+            </Card>
+
+            {overview.sets.length === 0 ? (
+                <EmptyState
+                    title="Aucun echantillon"
+                    description="Creez un echantillon de copies a corriger a la main pour calibrer la correction IA."
+                    size="compact"
+                />
+            ) : (
+                overview.sets.map((set) => {
+                    const gradedCount = set.items.filter((item) => item.teacherGraded).length
+                    return (
+                        <Card key={set.id}>
+                            <CardBody padding="md">
+                                <Stack gap="md">
+                                    <Inline align="between" gap="sm">
+                                        <Stack gap="xs">
+                                            <Text variant="sectionTitle">{set.name}</Text>
+                                            <Text variant="xsMuted">
+                                                {gradedCount} / {set.items.length} copie(s) corrigee(s) par un enseignant
+                                            </Text>
+                                        </Stack>
+                                        <Inline align="start" gap="sm">
+                                            <Select
+                                                size="sm"
+                                                className="w-auto"
+                                                value={promptBySet[set.id] ?? ''}
+                                                onChange={(e) => setPromptBySet({ ...promptBySet, [set.id]: e.target.value })}
+                                            >
+                                                {overview.prompts.map((prompt) => (
+                                                    <option key={prompt.id ?? 'active'} value={prompt.id ?? ''}>{prompt.label}</option>
+                                                ))}
+                                            </Select>
+                                            <Button
+                                                size="xs"
+                                                onClick={() => handleRun(set.id)}
+                                                disabled={runningSetId !== null || gradedCount === 0}
+                                            >
+                                                {runningSetId === set.id ? 'Correction IA en cours...' : 'Lancer la calibration'}
+                                            </Button>
+                                            <Button
+                                                size="xs"
+                                                variant="ghost"
+                                                onClick={() => handleDelete(set.id)}
+                                                aria-label="Supprimer l'echantillon"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </Inline>
+                                    </Inline>
+
+                                    <div className="flex flex-wrap gap-2">
+                                        {set.items.map((item) => (
+                                            <TextLink
+                                                key={item.answerId}
+                                                href={`/dashboard/exams/${examId}/grading/${item.attemptId}`}
+                                                size="sm"
+                                            >
+                                                <Badge variant={item.teacherGraded ? 'success' : 'neutral'}>
+                                                    {item.teacherGraded && <Check className="w-3 h-3 mr-1" />}
+                                                    {item.questionLabel}
+                                                </Badge>
+                                            </TextLink>
+                                        ))}
+                                    </div>
+
+                                    <CalibrationRunsComparison runs={set.runs} examId={examId} />
+                                </Stack>
+                            </CardBody>
+                        </Card>
+                    )
+                })
+            )}
+        </Stack>
+    )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { Select } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack, Surface } from '@/components/ui/Layout'
+import { TextLink } from '@/components/ui/TextLink'
+
+export interface CalibrationResult {
+    answerId: string
+    attemptId: string
+    questionId: string
+    questionLabel: string
+    maxPoints: number
+    teacherScore: number
+    aiScore: number
+    aiFeedback: string
+    aiRationale: string
+}
+
+export interface CalibrationReport {
+    count: number
+    meanAbsoluteError: number | null
+    meanRelativeError: number | null
+    bias: number | null
+    agreementRate: number | null
+    correlation: number | null
+    tolerance: number
+    perQuestion: {
+        questionId: string
+        questionLabel: string
+        count: number
+        meanAbsoluteError: number | null
+        bias: number | null
+        agreementRate: number | null
+    }[]
+    worst: CalibrationResult[]
+    ungradedCount: number
+    failedCount: number
+}
+
+export interface CalibrationRunSummary {
+    id: string
+    promptVersionId: string | null
+    promptLabel: string
+    model: string
+    report: CalibrationReport
+    createdAt: string
+}
+
+interface CalibrationRunsComparisonProps {
+    runs: CalibrationRunSummary[]
+    // Links the worst disagreements to the grading view when set
+    examId?: string
+}
+
+const formatPercent = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`
+const formatPoints = (value: number | null) => value === null ? '-' : `${value.toFixed(2)} pt`
+const formatBias = (value: number | null) => value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)} pt`
+
+/**
+ * Calibration runs of one golden set side by side: one column per prompt run,
+ * overall and per-question errors, then the worst disagreements of a run.
+ */
+export function CalibrationRunsComparison({ runs, examId }: CalibrationRunsComparisonProps) {
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+    const selectedRun = runs.find((run) => run.id === selectedRunId) ?? runs[runs.length - 1]
+
+    if (!selectedRun) {
+        return <Text variant="xsMuted">Aucune calibration lancee sur cet echantillon.</Text>
+    }
+
+    const questions = new Map<string, string>()
+    for (const run of runs) {
+        for (const question of run.report.perQuestion) {
+            questions.set(question.questionId, question.questionLabel)
+        }
+    }
+
+    const rows: { label: string; value: (report: CalibrationReport) => string }[] = [
+        { label: 'Copies comparees', value: (report) => String(report.count) },
+        {
+            label: 'Erreur moyenne',
+            value: (report) => report.meanAbsoluteError === null
+                ? '-'
+                : `${formatPoints(report.meanAbsoluteError)} (${formatPercent(report.meanRelativeError)})`,
+        },
+        { label: 'Biais (IA - enseignant)', value: (report) => formatBias(report.bias) },
+        { label: 'Accord', value: (report) => formatPercent(report.agreementRate) },
+        { label: 'Correlation', value: (report) => report.correlation === null ? '-' : report.correlation.toFixed(2) },
+        ...[...questions].map(([questionId, questionLabel]) => ({
+            label: `${questionLabel} - erreur / biais`,
+            value: (report: CalibrationReport) => {
+                const stats = report.perQuestion.find((question) => question.questionId === questionId)
+                return stats ? `${formatPoints(stats.meanAbsoluteError)} / ${formatBias(stats.bias)}` : '-'
+            },
+        })),
+    ]
+
+    return (
+        <Stack gap="md">
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-gray-200">
+                            <th className="py-2 pr-4 text-left font-medium text-gray-500" />
+                            {runs.map((run) => (
+                                <th key={run.id} className="py-2 px-3 text-left align-top">
+                                    <Text variant="label">{run.promptLabel}</Text>
+                                    <Text variant="xsMuted">
+                                        {run.model} - {new Date(run.createdAt).toLocaleString('fr-FR')}
+                                    </Text>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row) => (
+                            <tr key={row.label} className="border-b border-gray-100">
+                                <td className="py-2 pr-4 text-gray-600">{row.label}</td>
+                                {runs.map((run) => (
+                                    <td key={run.id} className="py-2 px-3 font-mono text-gray-900">{row.value(run.report)}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <Stack gap="sm">
+                <Inline align="between" gap="sm">
+                    <Text variant="label">Plus forts desaccords</Text>
+                    {runs.length > 1 && (
+                        <Select
+                            size="sm"
+                            className="w-auto"
+                            value={selectedRun.id}
+                            onChange={(e) => setSelectedRunId(e.target.value)}
+                        >
+                            {runs.map((run) => (
+                                <option key={run.id} value={run.id}>{run.promptLabel}</option>
+                            ))}
+                        </Select>
+                    )}
+                </Inline>
+                {(selectedRun.report.ungradedCount > 0 || selectedRun.report.failedCount > 0) && (
+                    <Text variant="xsMuted">
+                        {selectedRun.report.ungradedCount} copie(s) sans note enseignant ignoree(s)
+                        {selectedRun.report.failedCount > 0 && `, ${selectedRun.report.failedCount} echec(s) de l'IA`}
+                    </Text>
+                )}
+                {selectedRun.report.worst.length === 0 ? (
+                    <Text variant="xsMuted">L&apos;IA a donne la meme note que l&apos;enseignant sur toutes les copies.</Text>
+                ) : (
+                    selectedRun.report.worst.map((result) => (
+                        <Surface key={result.answerId} tone="subtle" className="p-3">
+                            <Stack gap="xs">
+                                <Inline align="between" gap="sm">
+                                    <Text variant="label">
+                                        {result.questionLabel} - enseignant {result.teacherScore} / IA {result.aiScore} (sur {result.maxPoints})
+                                    </Text>
+                                    {examId && (
+                                        <TextLink href={`/dashboard/exams/${examId}/grading/${result.attemptId}`} size="sm">
+                                            <Inline align="start" gap="xs">
+                                                Voir la copie <ExternalLink className="w-3 h-3" />
+                                            </Inline>
+                                        </TextLink>
+                                    )}
+                                </Inline>
+                                <Text variant="caption" className="text-gray-700 whitespace-pre-wrap">{result.aiRationale}</Text>
+                            </Stack>
+                        </Surface>
+                    ))
+                )}
+            </Stack>
+        </Stack>
+    )
+}
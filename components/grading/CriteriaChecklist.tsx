@@ -0,0 +1,59 @@
+'use client'
+
+import MathRenderer from '@/components/exams/MathRenderer'
+import { Text } from '@/components/ui/Text'
+import { cn } from '@/components/ui/cn'
+import type { GradeCriterionResult } from '@/types/exams'
+
+interface CriteriaChecklistProps {
+    criteria: GradeCriterionResult[]
+    // Toggles criterion `index`; read-only when omitted
+    onToggle?: (index: number) => void
+    disabled?: boolean
+}
+
+/**
+ * Rubric criteria of a grade: points earned on each one and the AI justification.
+ * A criterion is checked when all its points are earned.
+ */
+export default function CriteriaChecklist({ criteria, onToggle, disabled }: CriteriaChecklistProps) {
+    return (
+        <ul className="space-y-2">
+            {criteria.map((criterion, index) => {
+                const met = criterion.points >= criterion.maxPoints
+                const partial = !met && criterion.points > 0
+                return (
+                    <li key={`${index}-${criterion.name}`} className="flex items-start gap-2">
+                        <input
+                            type="checkbox"
+                            checked={met}
+                            ref={(input) => {
+                                if (input) input.indeterminate = partial
+                            }}
+                            onChange={() => onToggle?.(index)}
+                            disabled={disabled || !onToggle}
+                            aria-label={criterion.name}
+                            className="mt-0.5 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2">
+                                <Text variant="caption" className="font-medium text-gray-800">{criterion.name}</Text>
+                                <span className={cn(
+                                    'text-xs font-mono whitespace-nowrap',
+                                    met ? 'text-green-600' : partial ? 'text-yellow-600' : 'text-red-600'
+                                )}>
+                                    {criterion.points} / {criterion.maxPoints}
+                                </span>
+                            </div>
+                            {criterion.justification && (
+                                <div className="text-xs text-gray-600">
+                                    <MathRenderer text={criterion.justification} />
+                                </div>
+                            )}
+                        </div>
+                    </li>
+                )
+            })}
+        </ul>
+    )
+}
@@ -0,0 +1,364 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Check, ExternalLink } from 'lucide-react'
+import MathRenderer from '@/components/exams/MathRenderer'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Input, Select } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack, Surface } from '@/components/ui/Layout'
+import { Badge } from '@/components/ui/Badge'
+import { TextLink } from '@/components/ui/TextLink'
+import { EmptyState } from '@/components/ui/EmptyState'
+
+type ItemFilter = 'divergent' | 'pending' | 'all'
+
+interface DoubleGradingItem {
+    answerId: string
+    attemptId: string
+    student: { name: string | null; email: string }
+    question: { id: string; label: string; content: string; maxPoints: number }
+    grades: { graderId: string | null; graderName: string | null; score: number; feedback: string | null }[]
+    divergent: boolean
+    finalGrade: { score: number; feedback: string | null } | null
+    reconciledAt: string | null
+}
+
+interface AgreementStats {
+    pairCount: number
+    meanAbsoluteDifference: number | null
+    meanRelativeDifference: number | null
+    agreementRate: number | null
+    divergentCount: number
+    correlation: number | null
+}
+
+interface DoubleGradingOverview {
+    threshold: number
+    stats: AgreementStats
+    questions: { id: string; label: string }[]
+    items: DoubleGradingItem[]
+}
+
+interface DoubleGradingPanelProps {
+    examId: string
+    onReconciled: () => void
+}
+
+const formatPercent = (value: number | null) => value === null ? '-' : `${Math.round(value * 100)}%`
+
+/**
+ * Double grading of a sample of copies: marking for second grading, inter-rater
+ * agreement, and reconciliation of the two independent grades by the lead grader.
+ */
+export function DoubleGradingPanel({ examId, onReconciled }: DoubleGradingPanelProps) {
+    const [overview, setOverview] = useState<DoubleGradingOverview | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [filter, setFilter] = useState<ItemFilter>('pending')
+    const [samplePercentage, setSamplePercentage] = useState('10')
+    const [questionId, setQuestionId] = useState('')
+    const [isMarking, setIsMarking] = useState(false)
+    const [message, setMessage] = useState('')
+
+    const fetchOverview = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/exams/${examId}/double-grading`)
+            if (!res.ok) {
+                console.error('Failed to fetch double grading')
+                return
+            }
+            setOverview(await res.json())
+        } catch (error) {
+            console.error('Error fetching double grading:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [examId])
+
+    useEffect(() => { fetchOverview() }, [fetchOverview])
+
+    const runMarking = async (method: 'POST' | 'DELETE', body?: Record<string, unknown>) => {
+        setIsMarking(true)
+        setMessage('')
+        try {
+            const result = await fetchJsonWithCsrf<{ markedCount?: number; clearedCount?: number }>(
+                `/api/exams/${examId}/double-grading`,
+                { method, ...(body ? { body } : {}) }
+            )
+            setMessage(method === 'POST'
+                ? `${result.markedCount ?? 0} reponse(s) marquee(s) pour double correction`
+                : `${result.clearedCount ?? 0} marquage(s) retire(s)`)
+            await fetchOverview()
+        } catch (error) {
+            console.error('Double grading marking error:', error)
+            setMessage(error instanceof Error ? error.message : 'Erreur lors du marquage')
+        } finally {
+            setIsMarking(false)
+        }
+    }
+
+    if (loading || !overview) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <Text variant="body" className="text-gray-600">Chargement de la double correction...</Text>
+            </div>
+        )
+    }
+
+    const { stats, items } = overview
+    const pendingCount = items.filter((item) => !item.reconciledAt).length
+    const visibleItems = items.filter((item) => filter === 'all'
+        || (filter === 'pending' && !item.reconciledAt)
+        || (filter === 'divergent' && item.divergent && !item.reconciledAt))
+    const percentageValue = Number(samplePercentage)
+    const isPercentageValid = Number.isInteger(percentageValue) && percentageValue >= 1 && percentageValue <= 100
+
+    return (
+        <Stack gap="md">
+            <Card>
+                <CardBody padding="md">
+                    <Stack gap="sm">
+                        <Inline align="between" gap="sm">
+                            <Text variant="label">Accord inter-correcteurs</Text>
+                            <Text variant="xsMuted">Ecart signale au-dela de {formatPercent(overview.threshold)} des points de la question</Text>
+                        </Inline>
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                            {[
+                                { label: 'Paires notees', value: String(stats.pairCount) },
+                                { label: 'Accord', value: formatPercent(stats.agreementRate) },
+                                {
+                                    label: 'Ecart moyen',
+                                    value: stats.meanAbsoluteDifference === null
+                                        ? '-'
+                                        : `${stats.meanAbsoluteDifference.toFixed(2)} pt (${formatPercent(stats.meanRelativeDifference)})`,
+                                },
+                                { label: 'Correlation', value: stats.correlation === null ? '-' : stats.correlation.toFixed(2) },
+                                { label: 'Divergences', value: String(stats.divergentCount) },
+                                { label: 'A arbitrer', value: String(pendingCount) },
+                            ].map((stat) => (
+                                <Stack key={stat.label} gap="xs">
+                                    <Text variant="caption">{stat.label}</Text>
+                                    <Text variant="body" className="font-semibold">{stat.value}</Text>
+                                </Stack>
+                            ))}
+                        </div>
+                    </Stack>
+                </CardBody>
+            </Card>
+
+            <Card>
+                <CardBody padding="md">
+                    <Stack gap="sm">
+                        <Text variant="label">Marquer pour double correction</Text>
+                        <Inline align="start" gap="sm">
+                            <Input
+                                type="number"
+                                size="sm"
+                                min={1}
+                                max={100}
+                                value={samplePercentage}
+                                aria-label="Pourcentage de copies"
+                                onChange={(event) => setSamplePercentage(event.target.value)}
+                                className="w-20"
+                            />
+                            <Button
+                                size="xs"
+                                variant="secondary"
+                                onClick={() => runMarking('POST', { mode: 'SAMPLE', percentage: percentageValue })}
+                                disabled={isMarking || !isPercentageValid}
+                            >
+                                % des copies, tirees au hasard
+                            </Button>
+                            <Select
+                                size="sm"
+                                aria-label="Question a double corriger"
+                                value={questionId}
+                                onChange={(event) => setQuestionId(event.target.value)}
+                                className="w-40"
+                            >
+                                <option value="">Question...</option>
+                                {overview.questions.map((question) => (
+                                    <option key={question.id} value={question.id}>{question.label}</option>
+                                ))}
+                            </Select>
+                            <Button
+                                size="xs"
+                                variant="secondary"
+                                onClick={() => runMarking('POST', { mode: 'QUESTIONS', questionIds: [questionId] })}
+                                disabled={isMarking || !questionId}
+                            >
+                                Toutes les copies de la question
+                            </Button>
+                            <Button size="xs" variant="ghost" onClick={() => runMarking('DELETE')} disabled={isMarking}>
+                                Retirer les marquages non commences
+                            </Button>
+                        </Inline>
+                        {message && <Text variant="caption">{message}</Text>}
+                    </Stack>
+                </CardBody>
+            </Card>
+
+            <Inline align="end" gap="xs">
+                {(['pending', 'divergent', 'all'] as ItemFilter[]).map((value) => (
+                    <Button
+                        key={value}
+                        size="xs"
+                        variant={filter === value ? 'primary' : 'secondary'}
+                        onClick={() => setFilter(value)}
+                    >
+                        {value === 'pending' ? `A arbitrer (${pendingCount})` : value === 'divergent' ? 'Divergences' : 'Toutes'}
+                    </Button>
+                ))}
+            </Inline>
+
+            {visibleItems.length === 0 ? (
+                <div className="p-12">
+                    <EmptyState title="Aucune reponse en double correction." size="full" />
+                </div>
+            ) : (
+                visibleItems.map((item) => (
+                    <ReconciliationCard
+                        key={item.answerId}
+                        examId={examId}
+                        item={item}
+                        onReconciled={() => {
+                            fetchOverview()
+                            onReconciled()
+                        }}
+                    />
+                ))
+            )}
+        </Stack>
+    )
+}
+
+function ReconciliationCard({
+    examId,
+    item,
+    onReconciled,
+}: {
+    examId: string
+    item: DoubleGradingItem
+    onReconciled: () => void
+}) {
+    const [score, setScore] = useState(String(item.finalGrade?.score ?? item.grades[0]?.score ?? ''))
+    const [feedback, setFeedback] = useState(item.finalGrade?.feedback ?? item.grades[0]?.feedback ?? '')
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState('')
+
+    const handleReconcile = async () => {
+        setIsSaving(true)
+        setError('')
+        try {
+            await fetchJsonWithCsrf(`/api/exams/${examId}/double-grading/reconcile`, {
+                method: 'POST',
+                body: { answerId: item.answerId, score: Number(score), feedback },
+            })
+            onReconciled()
+        } catch (err) {
+            console.error('Reconciliation error:', err)
+            setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const scoreValue = Number(score)
+    const isScoreValid = score.trim() !== '' && Number.isFinite(scoreValue)
+        && scoreValue >= 0 && scoreValue <= item.question.maxPoints
+    const average = item.grades.length >= 2
+        ? Math.round(((item.grades[0].score + item.grades[1].score) / 2) * 100) / 100
+        : null
+
+    return (
+        <Card>
+            <CardBody padding="md">
+                <Stack gap="sm">
+                    <Inline align="between" gap="sm">
+                        <Stack gap="xs">
+                            <Text variant="label">{item.student.name || item.student.email}</Text>
+                            <Text variant="xsMuted">Question {item.question.label} - {item.question.maxPoints} pt</Text>
+                        </Stack>
+                        <Inline align="end" gap="sm">
+                            {item.divergent && <Badge variant="warning">Ecart important</Badge>}
+                            {item.reconciledAt
+                                ? <Badge variant="success">Note finale : {item.finalGrade?.score ?? '-'} / {item.question.maxPoints}</Badge>
+                                : <Badge variant="info">{item.grades.length}/2 corrections</Badge>}
+                        </Inline>
+                    </Inline>
+
+                    <Surface tone="subtle" className="p-3">
+                        <MathRenderer text={item.question.content} className="text-sm text-gray-800" />
+                    </Surface>
+
+                    {item.grades.map((grade, index) => (
+                        <div key={grade.graderId ?? index} className="border-l-2 border-indigo-300 pl-3">
+                            <Inline align="between" gap="sm">
+                                <Text variant="xsMuted">{grade.graderName || `Correcteur ${index + 1}`}</Text>
+                                <Inline align="end" gap="sm">
+                                    <Text variant="body" className="font-semibold">{grade.score} / {item.question.maxPoints}</Text>
+                                    <Button
+                                        size="xs"
+                                        variant="ghost"
+                                        onClick={() => {
+                                            setScore(String(grade.score))
+                                            setFeedback(grade.feedback ?? '')
+                                        }}
+                                    >
+                                        Retenir
+                                    </Button>
+                                </Inline>
+                            </Inline>
+                            {grade.feedback && <Text variant="caption" className="whitespace-pre-wrap">{grade.feedback}</Text>}
+                        </div>
+                    ))}
+
+                    <Inline align="start" gap="sm">
+                        <label className="flex items-center gap-2">
+                            <Text as="span" variant="caption">Note finale</Text>
+                            <Input
+                                type="number"
+                                size="sm"
+                                min={0}
+                                max={item.question.maxPoints}
+                                step={0.25}
+                                value={score}
+                                onChange={(event) => setScore(event.target.value)}
+                                className="w-24"
+                            />
+                            <Text as="span" variant="caption">/ {item.question.maxPoints}</Text>
+                        </label>
+                        {average !== null && (
+                            <Button size="xs" variant="ghost" onClick={() => setScore(String(average))}>
+                                Moyenne ({average})
+                            </Button>
+                        )}
+                        <Input
+                            size="sm"
+                            value={feedback}
+                            aria-label="Commentaire de correction"
+                            placeholder="Commentaire de correction"
+                            onChange={(event) => setFeedback(event.target.value)}
+                            className="flex-1 min-w-48"
+                        />
+                    </Inline>
+
+                    {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+
+                    <Inline align="between" gap="sm">
+                        <TextLink href={`/dashboard/exams/${examId}/grading/${item.attemptId}`}>
+                            <ExternalLink className="w-4 h-4 mr-1" />
+                            Ouvrir la copie
+                        </TextLink>
+                        <Button size="xs" onClick={handleReconcile} disabled={isSaving || !isScoreValid}>
+                            <Check className="w-3 h-3" />
+                            {item.reconciledAt ? 'Modifier la note finale' : 'Valider la note finale'}
+                        </Button>
+                    </Inline>
+                </Stack>
+            </CardBody>
+        </Card>
+    )
+}
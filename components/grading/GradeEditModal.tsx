@@ -7,17 +7,21 @@ import { Button } from '@/components/ui/Button'
 import { Input, Textarea } from '@/components/ui/Form'
 import { Text } from '@/components/ui/Text'
 import { Stack, Surface } from '@/components/ui/Layout'
+import CriteriaChecklist from '@/components/grading/CriteriaChecklist'
+import { scoreFromCriteria, toggleCriterion } from '@/lib/grading/criteria'
+import type { GradeCriterionResult } from '@/types/exams'
 
 interface GradeEditModalProps {
     isOpen: boolean
     onClose: () => void
-    onSave: (score: number, feedback: string) => void
+    onSave: (score: number, feedback: string, criteria?: GradeCriterionResult[]) => void
     questionContent: string
     studentAnswer: string
     maxPoints: number
     currentScore: number
     currentFeedback: string
     aiRationale?: string
+    currentCriteria?: GradeCriterionResult[] | null
     isAiGrade: boolean
 }
 
@@ -44,10 +48,12 @@ export default function GradeEditModal({
     currentScore,
     currentFeedback,
     aiRationale,
+    currentCriteria,
     isAiGrade,
 }: GradeEditModalProps) {
     const [score, setScore] = useState(currentScore)
     const [feedback, setFeedback] = useState(currentFeedback)
+    const [criteria, setCriteria] = useState(currentCriteria ?? null)
     const [contextExpanded, setContextExpanded] = useState(true)
 
     const panelRef = useRef<HTMLDivElement | null>(null)
@@ -58,9 +64,10 @@ export default function GradeEditModal({
         if (isOpen) {
             setScore(currentScore)
             setFeedback(currentFeedback)
+            setCriteria(currentCriteria ?? null)
             closeButtonRef.current?.focus()
         }
-    }, [isOpen, currentScore, currentFeedback])
+    }, [isOpen, currentScore, currentFeedback, currentCriteria])
 
     // Handle escape key and body scroll lock
     useEffect(() => {
@@ -100,7 +107,15 @@ export default function GradeEditModal({
     }
 
     const handleSave = () => {
-        onSave(score, feedback)
+        onSave(score, feedback, criteria ?? undefined)
+    }
+
+    // Toggling a criterion recomputes the score from the checklist
+    const handleToggleCriterion = (index: number) => {
+        if (!criteria) return
+        const next = toggleCriterion(criteria, index)
+        setCriteria(next)
+        setScore(scoreFromCriteria(next, maxPoints))
     }
 
     const handleScoreChange = (value: string) => {
@@ -214,6 +229,17 @@ export default function GradeEditModal({
 
                     {/* Edit Section */}
                     <Stack gap="md">
+                        {/* Criterion checklist */}
+                        {criteria && (
+                            <div>
+                                <Text variant="label" className="mb-2">Criteres du bareme</Text>
+                                <CriteriaChecklist criteria={criteria} onToggle={handleToggleCriterion} />
+                                <Text variant="xsMuted" className="mt-1">
+                                    Cocher ou decocher un critere recalcule le score
+                                </Text>
+                            </div>
+                        )}
+
                         {/* Score Input */}
                         <div>
                             <Text as="label" variant="label" htmlFor="grade-score" className="mb-1">
@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Loader2 } from 'lucide-react'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { SegmentedControl } from '@/components/ui/SegmentedControl'
+
+type AssignmentMode = 'ATTEMPTS' | 'QUESTIONS'
+
+interface Grader {
+    id: string
+    name: string | null
+    email: string
+}
+
+interface AssignableQuestion {
+    id: string
+    label: string
+    content: string
+    type: string
+}
+
+interface GraderProgress extends Grader {
+    assigned: number
+    graded: number
+    percentage: number
+}
+
+interface AssignmentsResponse {
+    graders: Grader[]
+    questions: AssignableQuestion[]
+    assignment: {
+        mode: AssignmentMode | null
+        graderIds: string[]
+        questions: { questionId: string; graderId: string }[]
+    }
+    progress: GraderProgress[]
+}
+
+interface GraderAssignmentModalProps {
+    examId: string
+    onClose: () => void
+    onSaved: () => void
+}
+
+const graderLabel = (grader: Grader) => grader.name || grader.email
+
+/**
+ * Split of the human grading among the course teachers: alphabetical batches
+ * of copies, or one grader per question across all copies.
+ */
+export function GraderAssignmentModal({ examId, onClose, onSaved }: GraderAssignmentModalProps) {
+    const [data, setData] = useState<AssignmentsResponse | null>(null)
+    const [mode, setMode] = useState<AssignmentMode>('ATTEMPTS')
+    const [selectedGraderIds, setSelectedGraderIds] = useState<string[]>([])
+    const [questionGraders, setQuestionGraders] = useState<Record<string, string>>({})
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        fetch(`/api/exams/${examId}/grading/assignments`)
+            .then(res => res.ok ? res.json() : Promise.reject('Failed'))
+            .then((payload: AssignmentsResponse) => {
+                setData(payload)
+                setMode(payload.assignment.mode ?? 'ATTEMPTS')
+                setSelectedGraderIds(payload.assignment.mode === 'ATTEMPTS' ? payload.assignment.graderIds : [])
+                setQuestionGraders(Object.fromEntries(
+                    payload.assignment.questions.map((entry) => [entry.questionId, entry.graderId])
+                ))
+            })
+            .catch(err => {
+                console.error('Error loading grader assignments:', err)
+                setError('Erreur lors du chargement des correcteurs')
+            })
+    }, [examId])
+
+    const toggleGrader = (graderId: string) => {
+        setSelectedGraderIds((previous) => previous.includes(graderId)
+            ? previous.filter((id) => id !== graderId)
+            : [...previous, graderId])
+    }
+
+    const assignedQuestions = Object.entries(questionGraders)
+        .filter(([, graderId]) => graderId)
+        .map(([questionId, graderId]) => ({ questionId, graderId }))
+    const canSave = mode === 'ATTEMPTS' ? selectedGraderIds.length > 0 : assignedQuestions.length > 0
+
+    const run = async (action: () => Promise<unknown>) => {
+        setIsSaving(true)
+        setError('')
+        try {
+            await action()
+            onSaved()
+            onClose()
+        } catch (err) {
+            console.error('Grader assignment error:', err)
+            setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleSave = () => run(() => fetchJsonWithCsrf(`/api/exams/${examId}/grading/assignments`, {
+        method: 'PUT',
+        body: mode === 'ATTEMPTS'
+            ? { mode, graderIds: selectedGraderIds }
+            : { mode, questions: assignedQuestions },
+    }))
+
+    const handleClear = () => run(() => fetchJsonWithCsrf(`/api/exams/${examId}/grading/assignments`, {
+        method: 'DELETE',
+    }))
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center" role="dialog" aria-modal="true" aria-label="Repartir la correction">
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 p-6 max-h-[85vh] overflow-y-auto">
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+                    aria-label="Fermer"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+
+                <Stack gap="md">
+                    <Stack gap="xs">
+                        <Text as="h3" variant="sectionTitle">Repartir la correction</Text>
+                        <Text variant="caption">
+                            Chaque correcteur retrouve sa part dans &quot;Ma file de correction&quot;. Une nouvelle repartition
+                            remplace la precedente ; les notes deja saisies sont conservees.
+                        </Text>
+                    </Stack>
+
+                    {!data ? (
+                        error ? null : (
+                            <Inline align="center" gap="sm">
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                <Text variant="muted">Chargement...</Text>
+                            </Inline>
+                        )
+                    ) : (
+                        <>
+                            <SegmentedControl
+                                value={mode}
+                                onChange={(value) => setMode(value)}
+                                options={[
+                                    { value: 'ATTEMPTS', label: 'Par lots de copies' },
+                                    { value: 'QUESTIONS', label: 'Par question' },
+                                ]}
+                            />
+
+                            {mode === 'ATTEMPTS' ? (
+                                <Stack gap="xs">
+                                    <Text variant="caption">
+                                        Les copies rendues sont partagees par ordre alphabetique en lots de taille egale.
+                                    </Text>
+                                    {data.graders.map((grader) => (
+                                        <label key={grader.id} className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedGraderIds.includes(grader.id)}
+                                                onChange={() => toggleGrader(grader.id)}
+                                            />
+                                            <Text as="span" variant="body">{graderLabel(grader)}</Text>
+                                        </label>
+                                    ))}
+                                </Stack>
+                            ) : (
+                                <Stack gap="xs">
+                                    <Text variant="caption">
+                                        Chaque question est corrigee par un seul correcteur sur toutes les copies.
+                                    </Text>
+                                    {data.questions.map((question) => (
+                                        <Inline key={question.id} align="between" gap="sm">
+                                            <Text variant="body" className="truncate max-w-xs" title={question.content}>
+                                                {question.label}
+                                            </Text>
+                                            <Select
+                                                size="sm"
+                                                aria-label={`Correcteur de ${question.label}`}
+                                                value={questionGraders[question.id] ?? ''}
+                                                onChange={(event) => setQuestionGraders((previous) => ({
+                                                    ...previous,
+                                                    [question.id]: event.target.value,
+                                                }))}
+                                                className="w-56"
+                                            >
+                                                <option value="">Non attribuee</option>
+                                                {data.graders.map((grader) => (
+                                                    <option key={grader.id} value={grader.id}>{graderLabel(grader)}</option>
+                                                ))}
+                                            </Select>
+                                        </Inline>
+                                    ))}
+                                </Stack>
+                            )}
+
+                            {data.progress.length > 0 && (
+                                <Stack gap="xs">
+                                    <Text variant="overline">Repartition actuelle</Text>
+                                    {data.progress.map((grader) => (
+                                        <Text key={grader.id} variant="caption">
+                                            {graderLabel(grader)} : {grader.graded} / {grader.assigned} reponses corrigees
+                                        </Text>
+                                    ))}
+                                </Stack>
+                            )}
+                        </>
+                    )}
+
+                    {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+
+                    <Inline align="between" gap="sm">
+                        <Button
+                            variant="ghost"
+                            size="xs"
+                            onClick={handleClear}
+                            disabled={isSaving || !data?.assignment.mode}
+                        >
+                            Supprimer la repartition
+                        </Button>
+                        <Inline align="end" gap="sm">
+                            <Button variant="secondary" onClick={onClose}>Annuler</Button>
+                            <Button onClick={handleSave} disabled={isSaving || !canSave}>
+                                {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                            </Button>
+                        </Inline>
+                    </Inline>
+                </Stack>
+            </div>
+        </div>
+    )
+}
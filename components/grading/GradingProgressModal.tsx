@@ -22,6 +22,16 @@ interface ProgressData {
     percentage: number
     status: 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED'
     canCancel: boolean
+    graders: GraderProgress[]
+}
+
+interface GraderProgress {
+    id: string
+    name: string | null
+    email: string
+    assigned: number
+    graded: number
+    percentage: number
 }
 
 export function GradingProgressModal({
@@ -256,6 +266,27 @@ export function GradingProgressModal({
                             {progress.percentage}%
                         </Text>
 
+                        {/* Per-grader progress when the grading is split among teachers */}
+                        {progress.graders?.length > 0 && (
+                            <div className="pt-2 border-t border-gray-200 space-y-2">
+                                <Text variant="overline">Par correcteur</Text>
+                                {progress.graders.map((grader) => (
+                                    <div key={grader.id}>
+                                        <div className="flex justify-between">
+                                            <Text variant="caption">{grader.name || grader.email}</Text>
+                                            <Text variant="xsMuted">{grader.graded} / {grader.assigned} reponses</Text>
+                                        </div>
+                                        <div className="w-full bg-gray-200 rounded-full h-1.5">
+                                            <div
+                                                className={`h-1.5 rounded-full ${grader.percentage === 100 ? 'bg-green-500' : 'bg-indigo-400'}`}
+                                                style={{ width: `${grader.percentage}%` }}
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         {/* Stuck warning */}
                         {isStuck && !isComplete && (
                             <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Upload, Loader2 } from 'lucide-react'
+import { usePolling } from '@/lib/usePolling'
+import { getCsrfToken } from '@/lib/csrfClient'
+import { Button } from '@/components/ui/Button'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack } from '@/components/ui/Layout'
+import { Badge } from '@/components/ui/Badge'
+
+interface PaperScanModalProps {
+    examId: string
+    onClose: () => void
+    onScanCompleted: () => void
+}
+
+type PaperScanStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+
+interface PaperScanSummary {
+    id: string
+    fileName: string
+    status: PaperScanStatus
+    pageCount: number
+    matchedCount: number
+    unmatchedPages: { page: number; reason: string }[] | null
+    error: string | null
+    createdAt: string
+    uploadedBy: { name: string | null }
+}
+
+const STATUS_LABELS: Record<PaperScanStatus, string> = {
+    PENDING: 'En attente',
+    PROCESSING: 'Traitement...',
+    COMPLETED: 'Termine',
+    FAILED: 'Echec',
+}
+
+const REASON_LABELS: Record<string, string> = {
+    NO_QR_CODE: 'code QR illisible',
+    UNKNOWN_ATTEMPT: 'copie d\'un autre examen',
+    UNKNOWN_PAGE: 'page inconnue',
+    ERROR: 'erreur de traitement',
+}
+
+/**
+ * Upload of scanned paper copies. Pages are matched to the students' copies
+ * by their QR code; pages that could not be matched are listed for checking.
+ */
+export function PaperScanModal({ examId, onClose, onScanCompleted }: PaperScanModalProps) {
+    const [scans, setScans] = useState<PaperScanSummary[]>([])
+    const [paperAttempts, setPaperAttempts] = useState(0)
+    const [file, setFile] = useState<File | null>(null)
+    const [isUploading, setIsUploading] = useState(false)
+    const [error, setError] = useState('')
+
+    const hasRunningScan = scans.some((scan) => scan.status === 'PENDING' || scan.status === 'PROCESSING')
+
+    usePolling(async () => {
+        try {
+            const res = await fetch(`/api/exams/${examId}/paper/scans`)
+            if (!res.ok) return
+            const data: { scans: PaperScanSummary[]; paperAttempts: number } = await res.json()
+            const wasRunning = scans.filter((scan) => scan.status === 'PENDING' || scan.status === 'PROCESSING')
+            if (wasRunning.some((previous) => data.scans.find((scan) => scan.id === previous.id)?.status === 'COMPLETED')) {
+                onScanCompleted()
+            }
+            setScans(data.scans)
+            setPaperAttempts(data.paperAttempts)
+        } catch (err) {
+            console.error('Error loading paper scans:', err)
+        }
+    }, { intervalMs: hasRunningScan ? 2000 : 15000 })
+
+    const handleUpload = async () => {
+        if (!file) return
+        setIsUploading(true)
+        setError('')
+        try {
+            const formData = new FormData()
+            formData.append('file', file)
+            const csrfToken = await getCsrfToken()
+            const res = await fetch(`/api/exams/${examId}/paper/scans`, {
+                method: 'POST',
+                headers: { 'x-csrf-token': csrfToken },
+                body: formData
+            })
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}))
+                setError(data.error || 'Erreur lors de l\'envoi du scan')
+                return
+            }
+            const data: { scan: { id: string; status: PaperScanStatus } } = await res.json()
+            setScans((previous) => [{
+                id: data.scan.id,
+                fileName: file.name,
+                status: data.scan.status,
+                pageCount: 0,
+                matchedCount: 0,
+                unmatchedPages: null,
+                error: null,
+                createdAt: new Date().toISOString(),
+                uploadedBy: { name: null }
+            }, ...previous])
+            setFile(null)
+        } catch (err) {
+            console.error('Paper scan upload error:', err)
+            setError('Erreur lors de l\'envoi du scan')
+        } finally {
+            setIsUploading(false)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center" role="dialog" aria-modal="true" aria-label="Copies scannees">
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 p-6 max-h-[85vh] overflow-y-auto">
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+                    aria-label="Fermer"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+
+                <Stack gap="md">
+                    <Stack gap="xs">
+                        <Text as="h3" variant="sectionTitle">Copies scannees</Text>
+                        <Text variant="caption">
+                            Deposez le PDF des copies papier scannees : chaque page est rattachee a la copie de l&apos;etudiant
+                            grace a son code QR. {paperAttempts} copie{paperAttempts > 1 ? 's' : ''} papier pour cet examen.
+                        </Text>
+                    </Stack>
+
+                    <Inline align="start" gap="sm">
+                        <input
+                            type="file"
+                            accept="application/pdf"
+                            aria-label="Scan PDF"
+                            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                            className="text-sm"
+                        />
+                        <Button onClick={handleUpload} disabled={!file || isUploading} size="xs">
+                            {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                            Importer
+                        </Button>
+                    </Inline>
+                    {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+
+                    {scans.length === 0 ? (
+                        <Text variant="muted">Aucun scan importe pour le moment.</Text>
+                    ) : (
+                        <Stack gap="sm">
+                            {scans.map((scan) => (
+                                <div key={scan.id} className="rounded-md border border-gray-200 p-3">
+                                    <Inline align="between" gap="sm">
+                                        <Text variant="body" className="font-medium">{scan.fileName}</Text>
+                                        <Badge variant={scan.status === 'COMPLETED' ? 'success' : scan.status === 'FAILED' ? 'warning' : 'info'}>
+                                            {STATUS_LABELS[scan.status]}
+                                        </Badge>
+                                    </Inline>
+                                    <Text variant="xsMuted">
+                                        {new Date(scan.createdAt).toLocaleString('fr-FR')}
+                                        {scan.uploadedBy.name ? ` - ${scan.uploadedBy.name}` : ''}
+                                        {scan.pageCount > 0 ? ` - ${scan.matchedCount} / ${scan.pageCount} pages rattachees` : ''}
+                                    </Text>
+                                    {scan.error && <Text variant="caption" className="text-red-600">{scan.error}</Text>}
+                                    {scan.unmatchedPages && scan.unmatchedPages.length > 0 && (
+                                        <Text variant="caption" className="text-amber-700 mt-1">
+                                            Pages non rattachees : {scan.unmatchedPages
+                                                .map((entry) => `${entry.page} (${REASON_LABELS[entry.reason] ?? entry.reason})`)
+                                                .join(', ')}
+                                        </Text>
+                                    )}
+                                </div>
+                            ))}
+                        </Stack>
+                    )}
+                </Stack>
+            </div>
+        </div>
+    )
+}
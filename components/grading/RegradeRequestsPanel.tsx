@@ -0,0 +1,317 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Check, X, ExternalLink } from 'lucide-react'
+import MathRenderer from '@/components/exams/MathRenderer'
+import { fetchJsonWithCsrf } from '@/lib/fetchJsonWithCsrf'
+import { Button } from '@/components/ui/Button'
+import { Card, CardBody } from '@/components/ui/Card'
+import { Input, Textarea } from '@/components/ui/Form'
+import { Text } from '@/components/ui/Text'
+import { Inline, Stack, Surface } from '@/components/ui/Layout'
+import { Badge } from '@/components/ui/Badge'
+import { TextLink } from '@/components/ui/TextLink'
+import { EmptyState } from '@/components/ui/EmptyState'
+
+type RegradeStatus = 'OPEN' | 'ACCEPTED' | 'REJECTED'
+type StatusFilter = RegradeStatus | 'all'
+
+interface RegradeRequestItem {
+    id: string
+    status: RegradeStatus
+    justification: string
+    previousScore: number | null
+    newScore: number | null
+    resolvedAt: string | null
+    createdAt: string
+    attemptId: string
+    student: { id: string; name: string | null; email: string }
+    question: { id: string; content: string; label: string | null; maxPoints: number }
+    grade: { score: number; feedback: string | null } | null
+    messages: {
+        id: string
+        body: string
+        createdAt: string
+        author: { id: string; name: string | null; role: string }
+    }[]
+}
+
+interface RegradeWindow {
+    enabled: boolean
+    deadline: string | null
+    isOpen: boolean
+}
+
+interface RegradeRequestsPanelProps {
+    examId: string
+    onResolved: () => void
+}
+
+const STATUS_LABELS: Record<RegradeStatus, string> = {
+    OPEN: 'Ouverte',
+    ACCEPTED: 'Acceptee',
+    REJECTED: 'Refusee',
+}
+
+const STATUS_VARIANTS: Record<RegradeStatus, 'info' | 'success' | 'warning'> = {
+    OPEN: 'info',
+    ACCEPTED: 'success',
+    REJECTED: 'warning',
+}
+
+/**
+ * Teacher queue of the students' regrade requests: reply in the thread,
+ * then accept (with the new score) or reject each request.
+ */
+export function RegradeRequestsPanel({ examId, onResolved }: RegradeRequestsPanelProps) {
+    const [requests, setRequests] = useState<RegradeRequestItem[]>([])
+    const [regradeWindow, setRegradeWindow] = useState<RegradeWindow | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [filter, setFilter] = useState<StatusFilter>('OPEN')
+
+    const fetchRequests = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/exams/${examId}/regrade-requests`)
+            if (!res.ok) {
+                console.error('Failed to fetch regrade requests')
+                return
+            }
+            const data: { requests: RegradeRequestItem[]; window: RegradeWindow } = await res.json()
+            setRequests(data.requests)
+            setRegradeWindow(data.window)
+        } catch (error) {
+            console.error('Error fetching regrade requests:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [examId])
+
+    useEffect(() => { fetchRequests() }, [fetchRequests])
+
+    const visibleRequests = filter === 'all' ? requests : requests.filter((request) => request.status === filter)
+    const openCount = requests.filter((request) => request.status === 'OPEN').length
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <Text variant="body" className="text-gray-600">Chargement des demandes de revision...</Text>
+            </div>
+        )
+    }
+
+    return (
+        <Stack gap="md">
+            <Inline align="between" gap="sm">
+                <Text variant="caption">
+                    {!regradeWindow?.enabled
+                        ? 'Les demandes de revision sont desactivees pour cet examen.'
+                        : regradeWindow.deadline
+                            ? `Demandes ${regradeWindow.isOpen ? 'ouvertes' : 'closes'} - date limite : ${new Date(regradeWindow.deadline).toLocaleString('fr-FR')}`
+                            : 'Les demandes s\'ouvriront a la publication des notes.'}
+                </Text>
+                <Inline align="end" gap="xs">
+                    {(['OPEN', 'ACCEPTED', 'REJECTED', 'all'] as StatusFilter[]).map((value) => (
+                        <Button
+                            key={value}
+                            size="xs"
+                            variant={filter === value ? 'primary' : 'secondary'}
+                            onClick={() => setFilter(value)}
+                        >
+                            {value === 'all' ? 'Toutes' : STATUS_LABELS[value]}
+                            {value === 'OPEN' && openCount > 0 ? ` (${openCount})` : ''}
+                        </Button>
+                    ))}
+                </Inline>
+            </Inline>
+
+            {visibleRequests.length === 0 ? (
+                <div className="p-12">
+                    <EmptyState title="Aucune demande de revision." size="full" />
+                </div>
+            ) : (
+                visibleRequests.map((request) => (
+                    <RegradeRequestCard
+                        key={request.id}
+                        examId={examId}
+                        request={request}
+                        onChange={fetchRequests}
+                        onResolved={() => {
+                            fetchRequests()
+                            onResolved()
+                        }}
+                    />
+                ))
+            )}
+        </Stack>
+    )
+}
+
+function RegradeRequestCard({
+    examId,
+    request,
+    onChange,
+    onResolved,
+}: {
+    examId: string
+    request: RegradeRequestItem
+    onChange: () => void
+    onResolved: () => void
+}) {
+    const [reply, setReply] = useState('')
+    const [score, setScore] = useState(String(request.grade?.score ?? request.previousScore ?? 0))
+    const [feedback, setFeedback] = useState(request.grade?.feedback ?? '')
+    const [isSaving, setIsSaving] = useState(false)
+    const [error, setError] = useState('')
+
+    const run = async (action: () => Promise<unknown>, done: () => void) => {
+        setIsSaving(true)
+        setError('')
+        try {
+            await action()
+            done()
+        } catch (err) {
+            console.error('Regrade request error:', err)
+            setError(err instanceof Error ? err.message : 'Erreur lors de l\'enregistrement')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleReply = () => run(
+        () => fetchJsonWithCsrf(`/api/regrade-requests/${request.id}/messages`, { method: 'POST', body: { body: reply } }),
+        () => {
+            setReply('')
+            onChange()
+        }
+    )
+
+    const handleResolve = (status: 'ACCEPTED' | 'REJECTED') => run(
+        () => fetchJsonWithCsrf(`/api/regrade-requests/${request.id}`, {
+            method: 'PATCH',
+            body: {
+                status,
+                ...(status === 'ACCEPTED' ? { score: Number(score), feedback } : {}),
+                ...(reply.trim() ? { message: reply } : {}),
+            },
+        }),
+        () => {
+            setReply('')
+            onResolved()
+        }
+    )
+
+    const scoreValue = Number(score)
+    const isScoreValid = score.trim() !== '' && Number.isFinite(scoreValue)
+        && scoreValue >= 0 && scoreValue <= request.question.maxPoints
+
+    return (
+        <Card>
+            <CardBody padding="md">
+                <Stack gap="sm">
+                    <Inline align="between" gap="sm">
+                        <Stack gap="xs">
+                            <Text variant="label">{request.student.name || request.student.email}</Text>
+                            <Text variant="xsMuted">
+                                {request.question.label ? `Question ${request.question.label} - ` : ''}
+                                Demande du {new Date(request.createdAt).toLocaleString('fr-FR')}
+                            </Text>
+                        </Stack>
+                        <Inline align="end" gap="sm">
+                            <Text variant="body" className="font-semibold">
+                                {request.grade ? request.grade.score : '-'} / {request.question.maxPoints}
+                            </Text>
+                            <Badge variant={STATUS_VARIANTS[request.status]}>{STATUS_LABELS[request.status]}</Badge>
+                        </Inline>
+                    </Inline>
+
+                    <Surface tone="subtle" className="p-3">
+                        <MathRenderer text={request.question.content} className="text-sm text-gray-800" />
+                    </Surface>
+
+                    <div className="border-l-2 border-indigo-300 pl-3">
+                        <Text variant="overline">Justification de l&apos;etudiant</Text>
+                        <Text variant="body" className="whitespace-pre-wrap">{request.justification}</Text>
+                    </div>
+
+                    {request.messages.map((message) => (
+                        <div key={message.id} className="border-l-2 border-gray-200 pl-3">
+                            <Text variant="xsMuted">
+                                {message.author.name || (message.author.role === 'STUDENT' ? 'Etudiant' : 'Enseignant')}
+                                {' - '}
+                                {new Date(message.createdAt).toLocaleString('fr-FR')}
+                            </Text>
+                            <Text variant="body" className="whitespace-pre-wrap">{message.body}</Text>
+                        </div>
+                    ))}
+
+                    {request.status === 'ACCEPTED' && request.newScore !== null && (
+                        <Text variant="caption" className="text-emerald-700">
+                            Note modifiee : {request.previousScore ?? '-'} → {request.newScore} / {request.question.maxPoints}
+                        </Text>
+                    )}
+
+                    <Textarea
+                        rows={2}
+                        value={reply}
+                        aria-label="Reponse a l'etudiant"
+                        placeholder="Repondre a l'etudiant..."
+                        onChange={(event) => setReply(event.target.value)}
+                    />
+
+                    {request.status === 'OPEN' && (
+                        <Inline align="start" gap="sm">
+                            <label className="flex items-center gap-2">
+                                <Text as="span" variant="caption">Nouvelle note</Text>
+                                <Input
+                                    type="number"
+                                    size="sm"
+                                    min={0}
+                                    max={request.question.maxPoints}
+                                    step={0.25}
+                                    value={score}
+                                    onChange={(event) => setScore(event.target.value)}
+                                    className="w-24"
+                                />
+                                <Text as="span" variant="caption">/ {request.question.maxPoints}</Text>
+                            </label>
+                            <Input
+                                size="sm"
+                                value={feedback}
+                                aria-label="Commentaire de correction"
+                                placeholder="Commentaire de correction"
+                                onChange={(event) => setFeedback(event.target.value)}
+                                className="flex-1 min-w-48"
+                            />
+                        </Inline>
+                    )}
+
+                    {error && <Text variant="caption" className="text-red-600">{error}</Text>}
+
+                    <Inline align="between" gap="sm">
+                        <TextLink href={`/dashboard/exams/${examId}/grading/${request.attemptId}`}>
+                            <ExternalLink className="w-4 h-4 mr-1" />
+                            Ouvrir la copie
+                        </TextLink>
+                        <Inline align="end" gap="sm">
+                            <Button size="xs" variant="secondary" onClick={handleReply} disabled={isSaving || !reply.trim()}>
+                                Repondre
+                            </Button>
+                            {request.status === 'OPEN' && (
+                                <>
+                                    <Button size="xs" variant="destructive" onClick={() => handleResolve('REJECTED')} disabled={isSaving}>
+                                        <X className="w-3 h-3" />
+                                        Refuser
+                                    </Button>
+                                    <Button size="xs" onClick={() => handleResolve('ACCEPTED')} disabled={isSaving || !isScoreValid}>
+                                        <Check className="w-3 h-3" />
+                                        Accepter
+                                    </Button>
+                                </>
+                            )}
+                        </Inline>
+                    </Inline>
+                </Stack>
+            </CardBody>
+        </Card>
+    )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useEffect, useRef } from "react"
-import { getCsrfToken } from "@/lib/csrfClient"
+import { sendProctorEvent } from "./sendProctorEvent"
 
 /**
  * BrowserLockdownMonitor Component
@@ -53,37 +53,8 @@ export default function BrowserLockdownMonitor({
   useEffect(() => {
     if (!enabled) return
 
-    const buildIntegrityHeaders = async () => {
-      const csrfToken = await getCsrfToken()
-      const requestId =
-        typeof crypto !== "undefined" && "randomUUID" in crypto
-          ? crypto.randomUUID()
-          : `${Date.now()}-${Math.random().toString(36).slice(2)}`
-      return {
-        "x-csrf-token": csrfToken,
-        "x-attempt-nonce": nonce,
-        "x-request-id": requestId,
-      }
-    }
-
-    const sendEvent = async (type: ProctorEventType, metadata: EventMetadata) => {
-      try {
-        const integrityHeaders = await buildIntegrityHeaders()
-        await fetch(`/api/attempts/${attemptId}/proctor-events`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...integrityHeaders,
-          },
-          body: JSON.stringify({
-            type,
-            metadata,
-          }),
-        })
-      } catch (error) {
-        console.error("Failed to send proctor event:", error)
-      }
-    }
+    const sendEvent = (type: ProctorEventType, metadata: EventMetadata) =>
+      sendProctorEvent(attemptId, nonce, type, { ...metadata })
 
     const debouncedSendEvent = (
       type: ProctorEventType,
@@ -0,0 +1,86 @@
+"use client"
+
+import { ReactNode, useEffect, useRef, useSyncExternalStore } from "react"
+import { Button } from "@/components/ui/Button"
+import { sendProctorEvent } from "./sendProctorEvent"
+
+/**
+ * FullscreenGuard Component
+ *
+ * When the exam requires fullscreen, hides the exam behind a blocking dialog
+ * until the page is in fullscreen, and reports each exit as FULLSCREEN_EXIT.
+ * Browsers without the Fullscreen API (phones) are not blocked.
+ */
+
+export interface FullscreenGuardLabels {
+  title: string
+  message: string
+  enterButton: string
+}
+
+interface FullscreenGuardProps {
+  attemptId: string
+  nonce: string
+  labels: FullscreenGuardLabels
+  // Paused or ended by the proctor: nothing to answer, nothing to block
+  suspended: boolean
+  children: ReactNode
+}
+
+const subscribe = (onChange: () => void) => {
+  document.addEventListener("fullscreenchange", onChange)
+  return () => document.removeEventListener("fullscreenchange", onChange)
+}
+
+// The server renders the exam, the client blocks it if needed
+const getFullscreenSnapshot = () => !document.fullscreenEnabled || document.fullscreenElement !== null
+const getServerSnapshot = () => true
+
+export default function FullscreenGuard({ attemptId, nonce, labels, suspended, children }: FullscreenGuardProps) {
+  const isFullscreen = useSyncExternalStore(subscribe, getFullscreenSnapshot, getServerSnapshot)
+  const wasFullscreenRef = useRef(isFullscreen)
+  const buttonRef = useRef<HTMLButtonElement | null>(null)
+  const blocked = !isFullscreen && !suspended
+
+  useEffect(() => {
+    const wasFullscreen = wasFullscreenRef.current
+    wasFullscreenRef.current = isFullscreen
+    if (wasFullscreen && !isFullscreen && document.fullscreenEnabled) {
+      void sendProctorEvent(attemptId, nonce, "FULLSCREEN_EXIT", { originalEvent: "fullscreenchange" })
+    }
+  }, [isFullscreen, attemptId, nonce])
+
+  useEffect(() => {
+    if (blocked) buttonRef.current?.focus()
+  }, [blocked])
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen().catch((error) => {
+      console.warn("Fullscreen request refused:", error)
+    })
+  }
+
+  return (
+    <>
+      <div inert={blocked}>{children}</div>
+      {blocked && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 px-4"
+          role="alertdialog"
+          aria-modal="true"
+          aria-label={labels.title}
+        >
+          <div className="w-full max-w-md rounded-lg border border-gray-200 bg-white p-6 shadow-xl">
+            <h2 className="text-base font-semibold text-gray-900">{labels.title}</h2>
+            <p className="mt-2 text-sm text-gray-600">{labels.message}</p>
+            <div className="mt-6 flex justify-end">
+              <Button ref={buttonRef} variant="primary" size="sm" onClick={enterFullscreen}>
+                {labels.enterButton}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
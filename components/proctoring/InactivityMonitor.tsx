@@ -0,0 +1,55 @@
+"use client"
+
+import { useEffect } from "react"
+import { sendProctorEvent } from "./sendProctorEvent"
+
+/**
+ * InactivityMonitor Component
+ *
+ * Reports INACTIVITY once per idle period when the student has not used the
+ * keyboard or the pointer for the exam's threshold.
+ */
+
+// How often the idle time is checked
+const CHECK_INTERVAL_MS = 15_000
+
+const ACTIVITY_EVENTS = ["keydown", "pointerdown", "pointermove", "wheel", "touchstart", "input"] as const
+
+interface InactivityMonitorProps {
+  attemptId: string
+  nonce: string
+  thresholdMinutes: number
+}
+
+export default function InactivityMonitor({ attemptId, nonce, thresholdMinutes }: InactivityMonitorProps) {
+  useEffect(() => {
+    const thresholdMs = thresholdMinutes * 60_000
+    let lastActivityAt = Date.now()
+    let reported = false
+
+    const handleActivity = () => {
+      lastActivityAt = Date.now()
+      reported = false
+    }
+
+    const check = () => {
+      const idleMs = Date.now() - lastActivityAt
+      if (reported || idleMs < thresholdMs) return
+      reported = true
+      void sendProctorEvent(attemptId, nonce, "INACTIVITY", {
+        thresholdMinutes,
+        idleSince: new Date(lastActivityAt).toISOString(),
+      })
+    }
+
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    ACTIVITY_EVENTS.forEach((type) => document.addEventListener(type, handleActivity, { passive: true }))
+
+    return () => {
+      clearInterval(interval)
+      ACTIVITY_EVENTS.forEach((type) => document.removeEventListener(type, handleActivity))
+    }
+  }, [attemptId, nonce, thresholdMinutes])
+
+  return null
+}
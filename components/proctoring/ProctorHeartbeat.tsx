@@ -0,0 +1,62 @@
+"use client"
+
+import { useEffect } from "react"
+import { HEARTBEAT_INTERVAL_MS } from "@/lib/proctoring/liveState"
+import { createClientId, sendProctorEvent } from "./sendProctorEvent"
+
+/**
+ * ProctorHeartbeat Component
+ *
+ * Tells the live proctoring console that the exam page is still open, and on
+ * which question the student is working (the last question focused).
+ * Each page load is a session of its own, so the server can tell when the
+ * attempt is open on two devices or tabs at once.
+ * Runs on every attempt, whatever the anti-cheat configuration.
+ */
+
+// Moving through questions quickly sends one heartbeat, not one per question
+const MIN_HEARTBEAT_GAP_MS = 5_000
+
+interface ProctorHeartbeatProps {
+  attemptId: string
+  nonce: string
+}
+
+export default function ProctorHeartbeat({ attemptId, nonce }: ProctorHeartbeatProps) {
+  useEffect(() => {
+    const sessionId = createClientId()
+    let questionId: string | null = null
+    let lastSentAt = 0
+    let pending: ReturnType<typeof setTimeout> | null = null
+
+    const send = () => {
+      if (pending) {
+        clearTimeout(pending)
+        pending = null
+      }
+      lastSentAt = Date.now()
+      void sendProctorEvent(attemptId, nonce, "HEARTBEAT", { questionId, sessionId })
+    }
+
+    const handleFocusIn = (event: FocusEvent) => {
+      const target = event.target instanceof Element ? event.target.closest("[data-question-id]") : null
+      const focusedQuestionId = target?.getAttribute("data-question-id")
+      if (!focusedQuestionId || focusedQuestionId === questionId) return
+      questionId = focusedQuestionId
+      if (pending) return
+      pending = setTimeout(send, Math.max(0, lastSentAt + MIN_HEARTBEAT_GAP_MS - Date.now()))
+    }
+
+    send()
+    const interval = setInterval(send, HEARTBEAT_INTERVAL_MS)
+    document.addEventListener("focusin", handleFocusIn)
+
+    return () => {
+      clearInterval(interval)
+      if (pending) clearTimeout(pending)
+      document.removeEventListener("focusin", handleFocusIn)
+    }
+  }, [attemptId, nonce])
+
+  return null
+}
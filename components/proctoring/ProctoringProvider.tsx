@@ -1,27 +1,31 @@
 "use client"
 
 import { ReactNode } from "react"
+import type { AntiCheatConfig } from "@/lib/proctoring/types"
 import WebcamDeterrent from "./WebcamDeterrent"
 import BrowserLockdownMonitor from "./BrowserLockdownMonitor"
+import ProctorHeartbeat from "./ProctorHeartbeat"
+import InactivityMonitor from "./InactivityMonitor"
+import FullscreenGuard, { type FullscreenGuardLabels } from "./FullscreenGuard"
 
 /**
  * ProctoringProvider Component
  *
  * Orchestrates proctoring features during exam taking based on antiCheatConfig.
- * Conditionally renders WebcamDeterrent and BrowserLockdownMonitor.
+ * Conditionally renders WebcamDeterrent, BrowserLockdownMonitor,
+ * InactivityMonitor and FullscreenGuard.
+ * The heartbeat of the live proctoring console always runs.
  *
  * Phase 7: Intelligent Proctoring
  */
 
-interface AntiCheatConfig {
-  webcamDeterrent?: boolean
-  browserLockdown?: boolean
-}
-
 interface ProctoringProviderProps {
   antiCheatConfig: AntiCheatConfig | null
   attemptId: string
   nonce: string
+  fullscreenLabels: FullscreenGuardLabels
+  // Attempt paused or ended by the proctor
+  suspended?: boolean
   children: ReactNode
 }
 
@@ -29,18 +33,18 @@ export default function ProctoringProvider({
   antiCheatConfig,
   attemptId,
   nonce,
+  fullscreenLabels,
+  suspended = false,
   children,
 }: ProctoringProviderProps) {
   const webcamEnabled = antiCheatConfig?.webcamDeterrent === true
   const browserLockdownEnabled = antiCheatConfig?.browserLockdown === true
-
-  // If both features are disabled, just render children
-  if (!webcamEnabled && !browserLockdownEnabled) {
-    return <>{children}</>
-  }
+  const fullscreenRequired = antiCheatConfig?.requireFullscreen === true
+  const inactivityMinutes = antiCheatConfig?.inactivityMinutes ?? 0
 
   return (
     <>
+      <ProctorHeartbeat attemptId={attemptId} nonce={nonce} />
       {webcamEnabled && <WebcamDeterrent />}
       {browserLockdownEnabled && (
         <BrowserLockdownMonitor
@@ -49,7 +53,21 @@ export default function ProctoringProvider({
           enabled={browserLockdownEnabled}
         />
       )}
-      {children}
+      {inactivityMinutes > 0 && !suspended && (
+        <InactivityMonitor attemptId={attemptId} nonce={nonce} thresholdMinutes={inactivityMinutes} />
+      )}
+      {fullscreenRequired ? (
+        <FullscreenGuard
+          attemptId={attemptId}
+          nonce={nonce}
+          labels={fullscreenLabels}
+          suspended={suspended}
+        >
+          {children}
+        </FullscreenGuard>
+      ) : (
+        children
+      )}
     </>
   )
 }
@@ -0,0 +1,42 @@
+import { getCsrfToken } from "@/lib/csrfClient"
+
+/**
+ * Random id for a request or an exam page session
+ */
+export function createClientId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Send a proctoring event of the attempt with the integrity headers the
+ * proctor-events API requires. Failures are logged, never thrown: proctoring
+ * must not get in the way of the exam.
+ */
+export async function sendProctorEvent(
+  attemptId: string,
+  nonce: string,
+  type: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  try {
+    const csrfToken = await getCsrfToken()
+    const requestId = createClientId()
+    await fetch(`/api/attempts/${attemptId}/proctor-events`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-csrf-token": csrfToken,
+        "x-attempt-nonce": nonce,
+        "x-request-id": requestId,
+      },
+      body: JSON.stringify({
+        type,
+        metadata,
+      }),
+    })
+  } catch (error) {
+    console.error("Failed to send proctor event:", error)
+  }
+}
@@ -0,0 +1,193 @@
+import type { GraphAnchor, GraphArea, GraphSegment } from '../../types/exams'
+import { latexToSpeech, type SpeechLocale } from './math-speech'
+
+/**
+ * Text alternative for graph segments: axes, functions, points, lines, curves,
+ * shaded areas and free text, one sentence per element.
+ */
+
+const TEXT = {
+    en: {
+        graph: 'Graph',
+        axes: (x: string, y: string) => `Horizontal axis${x} from {xMin} to {xMax}, vertical axis${y} from {yMin} to {yMax}.`,
+        grid: 'Grid shown.',
+        function: 'Function',
+        domain: 'for x from {min} to {max}',
+        translated: 'shifted by {dx} horizontally and {dy} vertically',
+        scaled: 'vertical scale {k}',
+        point: 'Point',
+        segment: 'Segment from {start} to {end}.',
+        line: 'Line through {start} and {end}.',
+        ray: 'Ray from {start} through {end}.',
+        curve: 'Curve from {start} to {end}.',
+        area: 'Shaded area',
+        underFunction: 'under the curve of {fn}',
+        betweenFunctions: 'between the curves of {fn} and {fn2}',
+        betweenLineAndFunction: 'between {line} and the curve of {fn}',
+        polygon: 'with vertices {points}',
+        boundedRegion: 'bounded by {count} elements',
+        text: 'Text',
+        quote: (content: string) => `"${content}"`,
+        at: 'at',
+    },
+    fr: {
+        graph: 'Graphique',
+        axes: (x: string, y: string) => `Axe horizontal${x} de {xMin} à {xMax}, axe vertical${y} de {yMin} à {yMax}.`,
+        grid: 'Quadrillage affiché.',
+        function: 'Fonction',
+        domain: 'pour x de {min} à {max}',
+        translated: 'décalée de {dx} horizontalement et de {dy} verticalement',
+        scaled: 'échelle verticale {k}',
+        point: 'Point',
+        segment: 'Segment de {start} à {end}.',
+        line: 'Droite passant par {start} et {end}.',
+        ray: 'Demi-droite partant de {start} et passant par {end}.',
+        curve: 'Courbe de {start} à {end}.',
+        area: 'Zone colorée',
+        underFunction: 'sous la courbe de {fn}',
+        betweenFunctions: 'entre les courbes de {fn} et {fn2}',
+        betweenLineAndFunction: 'entre {line} et la courbe de {fn}',
+        polygon: 'de sommets {points}',
+        boundedRegion: 'délimitée par {count} éléments',
+        text: 'Texte',
+        quote: (content: string) => `« ${content} »`,
+        at: 'en',
+    },
+}
+
+const fill = (template: string, values: Record<string, string>) =>
+    template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '')
+
+const formatNumber = (value: number, locale: SpeechLocale) => {
+    const rounded = String(Math.round(value * 100) / 100)
+    return locale === 'fr' ? rounded.replace('.', ',') : rounded
+}
+
+// French coordinates use a semicolon, as the decimal separator is a comma
+const formatCoord = (x: number, y: number, locale: SpeechLocale) =>
+    `(${formatNumber(x, locale)}${locale === 'fr' ? ' ; ' : ', '}${formatNumber(y, locale)})`
+
+// Plain expressions (sin(x) * 2) are turned into LaTeX first so functions and products are spoken
+const speakExpression = (expression: string, locale: SpeechLocale) => {
+    const latex = expression.includes('\\')
+        ? expression
+        : expression
+            .replace(/(sin|cos|tan|exp|ln|log|sqrt)(?=\s*\()/g, '\\$1 ')
+            .replace(/\*/g, '\\cdot ')
+    return latexToSpeech(latex, locale)
+}
+
+const speakLabel = (label: string | undefined, isMath: boolean | undefined, locale: SpeechLocale) => {
+    if (!label?.trim()) return ''
+    return isMath ? latexToSpeech(label, locale) : label.trim()
+}
+
+/** Sentences describing the graph, in drawing order. */
+export function describeGraphItems(graph: GraphSegment, locale: SpeechLocale = 'en'): string[] {
+    const text = TEXT[locale]
+    const { axes } = graph
+    const points = graph.points ?? []
+    const lines = graph.lines ?? []
+    const functions = graph.functions ?? []
+
+    const describeAnchor = (anchor: GraphAnchor) => {
+        if (anchor.type === 'point') {
+            const point = points.find((entry) => entry.id === anchor.pointId)
+            if (!point) return '?'
+            const label = speakLabel(point.label, point.labelIsMath, locale)
+            return `${label ? `${label} ` : ''}${formatCoord(point.x, point.y, locale)}`
+        }
+        return formatCoord(anchor.x, anchor.y, locale)
+    }
+
+    const functionName = (id: string | undefined) => {
+        const fn = functions.find((entry) => entry.id === id)
+        if (!fn) return '?'
+        return speakLabel(fn.label, fn.labelIsMath, locale) || `y = ${speakExpression(fn.expression, locale)}`
+    }
+
+    const describeArea = (area: GraphArea) => {
+        const label = speakLabel(area.label, area.labelIsMath, locale)
+        const parts = [label ? `${text.area} ${label}` : text.area]
+        if (area.mode === 'under-function') {
+            parts.push(fill(text.underFunction, { fn: functionName(area.functionId) }))
+        } else if (area.mode === 'between-functions') {
+            parts.push(fill(text.betweenFunctions, { fn: functionName(area.functionId), fn2: functionName(area.functionId2) }))
+        } else if (area.mode === 'between-line-and-function') {
+            const line = lines.find((entry) => entry.id === area.lineId)
+            const lineText = line ? speakLabel(line.label, line.labelIsMath, locale) || `${describeAnchor(line.start)} – ${describeAnchor(line.end)}` : '?'
+            parts.push(fill(text.betweenLineAndFunction, { line: lineText, fn: functionName(area.functionId) }))
+        } else if (area.mode === 'polygon' && area.points?.length) {
+            parts.push(fill(text.polygon, { points: area.points.map(describeAnchor).join(', ') }))
+        } else if (area.mode === 'bounded-region' && area.boundaryIds?.length) {
+            parts.push(fill(text.boundedRegion, { count: String(area.boundaryIds.length) }))
+        }
+        if (area.domain && typeof area.domain.min === 'number' && typeof area.domain.max === 'number') {
+            parts.push(fill(text.domain, { min: formatNumber(area.domain.min, locale), max: formatNumber(area.domain.max, locale) }))
+        }
+        return `${parts.join(' ')}.`
+    }
+
+    const xLabel = speakLabel(axes.xLabel, axes.xLabelIsMath, locale)
+    const yLabel = speakLabel(axes.yLabel, axes.yLabelIsMath, locale)
+    const items = [
+        fill(text.axes(xLabel ? ` ${xLabel}` : '', yLabel ? ` ${yLabel}` : ''), {
+            xMin: formatNumber(axes.xMin, locale),
+            xMax: formatNumber(axes.xMax, locale),
+            yMin: formatNumber(axes.yMin, locale),
+            yMax: formatNumber(axes.yMax, locale),
+        }),
+    ]
+    if (axes.showGrid) items.push(text.grid)
+
+    for (const fn of functions) {
+        const label = speakLabel(fn.label, fn.labelIsMath, locale)
+        const parts = [`${text.function}${label ? ` ${label}` : ''}: y = ${speakExpression(fn.expression, locale)}`]
+        if (fn.offsetX || fn.offsetY) {
+            parts.push(fill(text.translated, { dx: formatNumber(fn.offsetX ?? 0, locale), dy: formatNumber(fn.offsetY ?? 0, locale) }))
+        }
+        if (typeof fn.scaleY === 'number' && fn.scaleY !== 1) {
+            parts.push(fill(text.scaled, { k: formatNumber(fn.scaleY, locale) }))
+        }
+        if (fn.domain && (typeof fn.domain.min === 'number' || typeof fn.domain.max === 'number')) {
+            parts.push(fill(text.domain, {
+                min: formatNumber(fn.domain.min ?? axes.xMin, locale),
+                max: formatNumber(fn.domain.max ?? axes.xMax, locale),
+            }))
+        }
+        items.push(`${parts.join(', ')}.`)
+    }
+
+    for (const point of points) {
+        const label = speakLabel(point.label, point.labelIsMath, locale)
+        items.push(`${text.point}${label ? ` ${label}` : ''} ${text.at} ${formatCoord(point.x, point.y, locale)}.`)
+    }
+
+    for (const line of lines) {
+        const label = speakLabel(line.label, line.labelIsMath, locale)
+        const sentence = fill(text[line.kind], { start: describeAnchor(line.start), end: describeAnchor(line.end) })
+        items.push(label ? `${label}: ${sentence}` : sentence)
+    }
+
+    for (const curve of graph.curves ?? []) {
+        const label = speakLabel(curve.label, curve.labelIsMath, locale)
+        const sentence = fill(text.curve, { start: describeAnchor(curve.start), end: describeAnchor(curve.end) })
+        items.push(label ? `${label}: ${sentence}` : sentence)
+    }
+
+    for (const area of graph.areas ?? []) {
+        items.push(describeArea(area))
+    }
+
+    for (const entry of graph.texts ?? []) {
+        const content = speakLabel(entry.text, entry.isMath, locale)
+        if (content) items.push(`${text.text} ${text.quote(content)} ${text.at} ${formatCoord(entry.x, entry.y, locale)}.`)
+    }
+
+    return items
+}
+
+/** One-paragraph description, used as the accessible name of the graph. */
+export function describeGraph(graph: GraphSegment, locale: SpeechLocale = 'en'): string {
+    return `${TEXT[locale].graph}. ${describeGraphItems(graph, locale).join(' ')}`
+}
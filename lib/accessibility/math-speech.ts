@@ -0,0 +1,322 @@
+/**
+ * Spoken text for LaTeX math, used as the accessible name of rendered
+ * formulas. Covers the notation of the exam editor toolbar; unknown commands
+ * are read by name rather than dropped.
+ */
+
+export type SpeechLocale = 'fr' | 'en'
+
+type MathNode =
+    | { kind: 'char'; value: string }
+    | { kind: 'number'; value: string }
+    | { kind: 'command'; name: string }
+    | { kind: 'group'; children: MathNode[] }
+
+const VOCABULARY = {
+    en: {
+        fraction: 'fraction', over: 'over', endFraction: 'end fraction',
+        squareRoot: 'square root of', root: (index: string) => `root of index ${index} of`, endRoot: 'end root',
+        squared: 'squared', cubed: 'cubed', power: 'to the power', endPower: 'end power', sub: 'sub',
+        from: 'from', to: 'to', of: 'of', limit: 'limit', limitAs: 'limit as', degrees: 'degrees', prime: 'prime',
+        vector: 'vector', bar: 'bar', hat: 'hat', blank: 'blank',
+    },
+    fr: {
+        fraction: 'fraction', over: 'sur', endFraction: 'fin de fraction',
+        squareRoot: 'racine carrée de', root: (index: string) => `racine d'indice ${index} de`, endRoot: 'fin de racine',
+        squared: 'au carré', cubed: 'au cube', power: 'puissance', endPower: 'fin de puissance', sub: 'indice',
+        from: 'de', to: 'à', of: 'de', limit: 'limite', limitAs: 'limite quand', degrees: 'degrés', prime: 'prime',
+        vector: 'vecteur', bar: 'barre', hat: 'chapeau', blank: 'case vide',
+    },
+}
+
+const SYMBOLS: Record<string, { en: string; fr: string }> = {
+    '+': { en: 'plus', fr: 'plus' },
+    '-': { en: 'minus', fr: 'moins' },
+    '=': { en: 'equals', fr: 'égale' },
+    '<': { en: 'less than', fr: 'inférieur à' },
+    '>': { en: 'greater than', fr: 'supérieur à' },
+    '(': { en: 'open parenthesis', fr: 'ouvrir la parenthèse' },
+    ')': { en: 'close parenthesis', fr: 'fermer la parenthèse' },
+    '[': { en: 'open bracket', fr: 'ouvrir le crochet' },
+    ']': { en: 'close bracket', fr: 'fermer le crochet' },
+    '|': { en: 'vertical bar', fr: 'barre verticale' },
+    '/': { en: 'divided by', fr: 'divisé par' },
+    '!': { en: 'factorial', fr: 'factorielle' },
+    '%': { en: 'percent', fr: 'pour cent' },
+    ',': { en: 'comma', fr: 'virgule' },
+    ';': { en: 'semicolon', fr: 'point-virgule' },
+    ':': { en: 'colon', fr: 'deux points' },
+    "'": { en: 'prime', fr: 'prime' },
+    times: { en: 'times', fr: 'fois' },
+    cdot: { en: 'times', fr: 'fois' },
+    div: { en: 'divided by', fr: 'divisé par' },
+    pm: { en: 'plus or minus', fr: 'plus ou moins' },
+    mp: { en: 'minus or plus', fr: 'moins ou plus' },
+    neq: { en: 'not equal to', fr: 'différent de' },
+    ne: { en: 'not equal to', fr: 'différent de' },
+    leq: { en: 'less than or equal to', fr: 'inférieur ou égal à' },
+    le: { en: 'less than or equal to', fr: 'inférieur ou égal à' },
+    geq: { en: 'greater than or equal to', fr: 'supérieur ou égal à' },
+    ge: { en: 'greater than or equal to', fr: 'supérieur ou égal à' },
+    approx: { en: 'approximately equal to', fr: 'environ égal à' },
+    equiv: { en: 'equivalent to', fr: 'équivalent à' },
+    infty: { en: 'infinity', fr: 'infini' },
+    to: { en: 'tends to', fr: 'tend vers' },
+    rightarrow: { en: 'tends to', fr: 'tend vers' },
+    Rightarrow: { en: 'implies', fr: 'implique' },
+    implies: { en: 'implies', fr: 'implique' },
+    Leftrightarrow: { en: 'if and only if', fr: 'équivaut à' },
+    iff: { en: 'if and only if', fr: 'équivaut à' },
+    in: { en: 'in', fr: 'appartient à' },
+    notin: { en: 'not in', fr: "n'appartient pas à" },
+    subset: { en: 'subset of', fr: 'inclus dans' },
+    subseteq: { en: 'subset of or equal to', fr: 'inclus ou égal à' },
+    cup: { en: 'union', fr: 'union' },
+    cap: { en: 'intersection', fr: 'inter' },
+    forall: { en: 'for all', fr: 'pour tout' },
+    exists: { en: 'there exists', fr: 'il existe' },
+    emptyset: { en: 'empty set', fr: 'ensemble vide' },
+    varnothing: { en: 'empty set', fr: 'ensemble vide' },
+    partial: { en: 'partial', fr: 'd rond' },
+    nabla: { en: 'nabla', fr: 'nabla' },
+    circ: { en: 'composed with', fr: 'rond' },
+    degree: { en: 'degrees', fr: 'degrés' },
+    ldots: { en: 'dot dot dot', fr: 'points de suspension' },
+    cdots: { en: 'dot dot dot', fr: 'points de suspension' },
+    dots: { en: 'dot dot dot', fr: 'points de suspension' },
+    perp: { en: 'perpendicular to', fr: 'perpendiculaire à' },
+    parallel: { en: 'parallel to', fr: 'parallèle à' },
+    angle: { en: 'angle', fr: 'angle' },
+    '{': { en: 'open brace', fr: 'ouvrir l\'accolade' },
+    '}': { en: 'close brace', fr: 'fermer l\'accolade' },
+}
+
+const FUNCTIONS: Record<string, { en: string; fr: string }> = {
+    sin: { en: 'sine', fr: 'sinus' },
+    cos: { en: 'cosine', fr: 'cosinus' },
+    tan: { en: 'tangent', fr: 'tangente' },
+    arcsin: { en: 'arc sine', fr: 'arc sinus' },
+    arccos: { en: 'arc cosine', fr: 'arc cosinus' },
+    arctan: { en: 'arc tangent', fr: 'arc tangente' },
+    ln: { en: 'natural log', fr: 'logarithme népérien' },
+    log: { en: 'log', fr: 'logarithme' },
+    exp: { en: 'exponential', fr: 'exponentielle' },
+    max: { en: 'maximum', fr: 'maximum' },
+    min: { en: 'minimum', fr: 'minimum' },
+    det: { en: 'determinant', fr: 'déterminant' },
+}
+
+const BIG_OPERATORS: Record<string, { en: string; fr: string }> = {
+    sum: { en: 'sum', fr: 'somme' },
+    prod: { en: 'product', fr: 'produit' },
+    int: { en: 'integral', fr: 'intégrale' },
+    iint: { en: 'double integral', fr: 'intégrale double' },
+    oint: { en: 'contour integral', fr: 'intégrale curviligne' },
+}
+
+const GREEK: Record<string, string> = {
+    alpha: 'alpha', beta: 'bêta', gamma: 'gamma', delta: 'delta', epsilon: 'epsilon', varepsilon: 'epsilon',
+    zeta: 'zêta', eta: 'êta', theta: 'thêta', vartheta: 'thêta', iota: 'iota', kappa: 'kappa', lambda: 'lambda',
+    mu: 'mu', nu: 'nu', xi: 'xi', pi: 'pi', rho: 'rhô', sigma: 'sigma', tau: 'tau', upsilon: 'upsilon',
+    phi: 'phi', varphi: 'phi', chi: 'khi', psi: 'psi', omega: 'oméga',
+}
+
+const SETS: Record<string, { en: string; fr: string }> = {
+    R: { en: 'the real numbers', fr: 'R' },
+    N: { en: 'the natural numbers', fr: 'N' },
+    Z: { en: 'the integers', fr: 'Z' },
+    Q: { en: 'the rational numbers', fr: 'Q' },
+    C: { en: 'the complex numbers', fr: 'C' },
+}
+
+/** Commands rendered as spacing or sizing only. */
+const SILENT_COMMANDS = new Set([
+    ',', ';', ':', '!', ' ', 'quad', 'qquad', 'left', 'right', 'displaystyle', 'textstyle', 'limits',
+    'big', 'Big', 'bigg', 'Bigg', 'mathrm', 'mathit', 'mathbf', 'boldsymbol',
+])
+
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textit', 'textbf', 'operatorname', 'mbox'])
+
+const parseLatex = (latex: string): MathNode[] => {
+    let index = 0
+
+    const parseSequence = (closing: string | null): MathNode[] => {
+        const nodes: MathNode[] = []
+        while (index < latex.length) {
+            const char = latex[index]
+            if (closing && char === closing) {
+                index++
+                return nodes
+            }
+            if (char === '{') {
+                index++
+                nodes.push({ kind: 'group', children: parseSequence('}') })
+            } else if (char === '\\') {
+                const match = /^\\([A-Za-z]+|.)/.exec(latex.slice(index))
+                const name = match ? match[1] : ''
+                index += match ? match[0].length : 1
+                if (name) nodes.push({ kind: 'command', name })
+            } else if (/\d/.test(char)) {
+                const match = /^\d+(?:\.\d+)?/.exec(latex.slice(index))
+                const value = match ? match[0] : char
+                index += value.length
+                nodes.push({ kind: 'number', value })
+            } else if (/\s|~|&/.test(char)) {
+                index++
+            } else {
+                index++
+                nodes.push({ kind: 'char', value: char })
+            }
+        }
+        return nodes
+    }
+
+    return parseSequence(null)
+}
+
+const isSimple = (node: MathNode | undefined): boolean => {
+    if (!node) return true
+    if (node.kind === 'group') return node.children.length <= 1 && isSimple(node.children[0])
+    return node.kind === 'char' || node.kind === 'number'
+}
+
+const textOf = (node: MathNode | undefined): string => {
+    if (!node) return ''
+    if (node.kind === 'group') return node.children.map(textOf).join('')
+    if (node.kind === 'command') return node.name.length === 1 ? node.name : ''
+    return node.value
+}
+
+/** Spoken text of a LaTeX formula. */
+export function latexToSpeech(latex: string, locale: SpeechLocale = 'en'): string {
+    const words = VOCABULARY[locale]
+    const nodes = parseLatex(latex.replace(/\\placeholder(\{[^}]*\})?/g, '\\placeholder'))
+
+    const speakNode = (node: MathNode | undefined): string[] => {
+        if (!node) return []
+        if (node.kind === 'group') return speakSequence(node.children)
+        return speakSequence([node])
+    }
+
+    const speakSequence = (sequence: MathNode[]): string[] => {
+        const output: string[] = []
+        let position = 0
+        const next = () => sequence[position++]
+
+        // Collects the `_{...}` and `^{...}` following a big operator or limit, in either order.
+        const readLimits = () => {
+            const limits: { lower?: MathNode; upper?: MathNode } = {}
+            while (position < sequence.length) {
+                const node = sequence[position]
+                if (node.kind === 'command' && (node.name === 'limits' || node.name === 'nolimits')) {
+                    position++
+                } else if (node.kind === 'char' && node.value === '_' && !limits.lower) {
+                    position++
+                    limits.lower = next()
+                } else if (node.kind === 'char' && node.value === '^' && !limits.upper) {
+                    position++
+                    limits.upper = next()
+                } else {
+                    break
+                }
+            }
+            return limits
+        }
+
+        while (position < sequence.length) {
+            const node = next()
+
+            if (node.kind === 'number') {
+                output.push(locale === 'fr' ? node.value.replace('.', ',') : node.value)
+                continue
+            }
+            if (node.kind === 'group') {
+                output.push(...speakSequence(node.children))
+                continue
+            }
+            if (node.kind === 'char') {
+                if (node.value === '^') {
+                    const exponent = next()
+                    const text = textOf(exponent)
+                    if (text === '2') output.push(words.squared)
+                    else if (text === '3') output.push(words.cubed)
+                    else if (exponent?.kind === 'command' && exponent.name === 'circ') output.push(words.degrees)
+                    else if (exponent?.kind === 'group' && exponent.children.length === 1
+                        && exponent.children[0].kind === 'command' && exponent.children[0].name === 'circ') output.push(words.degrees)
+                    else if (exponent?.kind === 'group' && exponent.children.every((child) => child.kind === 'char' && child.value === "'")) {
+                        output.push(...exponent.children.map(() => words.prime))
+                    } else if (isSimple(exponent)) output.push(words.power, ...speakNode(exponent))
+                    else output.push(words.power, ...speakNode(exponent), words.endPower)
+                } else if (node.value === '_') {
+                    output.push(words.sub, ...speakNode(next()))
+                } else if (SYMBOLS[node.value]) {
+                    output.push(SYMBOLS[node.value][locale])
+                } else {
+                    output.push(node.value)
+                }
+                continue
+            }
+
+            const name = node.name
+            if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+                const numerator = next()
+                const denominator = next()
+                if (isSimple(numerator) && isSimple(denominator)) {
+                    output.push(...speakNode(numerator), words.over, ...speakNode(denominator))
+                } else {
+                    output.push(words.fraction, ...speakNode(numerator), words.over, ...speakNode(denominator), words.endFraction)
+                }
+            } else if (name === 'sqrt') {
+                let rootIndex: MathNode[] | null = null
+                if (sequence[position]?.kind === 'char' && (sequence[position] as { value: string }).value === '[') {
+                    const end = sequence.findIndex((entry, i) => i > position && entry.kind === 'char' && entry.value === ']')
+                    if (end > position) {
+                        rootIndex = sequence.slice(position + 1, end)
+                        position = end + 1
+                    }
+                }
+                const radicand = next()
+                output.push(rootIndex ? words.root(speakSequence(rootIndex).join(' ')) : words.squareRoot)
+                output.push(...speakNode(radicand))
+                if (!isSimple(radicand)) output.push(words.endRoot)
+            } else if (BIG_OPERATORS[name]) {
+                const { lower, upper } = readLimits()
+                output.push(BIG_OPERATORS[name][locale])
+                if (lower) output.push(words.from, ...speakNode(lower))
+                if (upper) output.push(words.to, ...speakNode(upper))
+                if (lower || upper) output.push(words.of)
+            } else if (name === 'lim') {
+                const { lower } = readLimits()
+                output.push(lower ? words.limitAs : words.limit, ...speakNode(lower))
+                if (lower) output.push(words.of)
+            } else if (FUNCTIONS[name]) {
+                output.push(FUNCTIONS[name][locale])
+            } else if (GREEK[name.toLowerCase()]) {
+                const letter = locale === 'fr' ? GREEK[name.toLowerCase()] : name.toLowerCase().replace(/^var/, '')
+                output.push(name[0] === name[0].toUpperCase() ? `${locale === 'fr' ? `${letter} majuscule` : `capital ${letter}`}` : letter)
+            } else if (name === 'mathbb') {
+                const set = textOf(next())
+                output.push(SETS[set]?.[locale] ?? set)
+            } else if (TEXT_COMMANDS.has(name)) {
+                output.push(textOf(next()))
+            } else if (name === 'vec' || name === 'overrightarrow') {
+                output.push(words.vector, ...speakNode(next()))
+            } else if (name === 'overline' || name === 'bar') {
+                output.push(...speakNode(next()), words.bar)
+            } else if (name === 'hat' || name === 'widehat') {
+                output.push(...speakNode(next()), words.hat)
+            } else if (name === 'placeholder' || name === 'square') {
+                output.push(words.blank)
+            } else if (SILENT_COMMANDS.has(name)) {
+                // spacing and sizing only
+            } else if (SYMBOLS[name]) {
+                output.push(SYMBOLS[name][locale])
+            } else {
+                output.push(name)
+            }
+        }
+        return output
+    }
+
+    return speakSequence(nodes).filter(Boolean).join(' ').replace(/\s+/g, ' ').trim()
+}
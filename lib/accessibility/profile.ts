@@ -0,0 +1,37 @@
+/**
+ * Accessibility profile of a student, stored on `User.accessibilityProfile`
+ * and applied to the exam room.
+ */
+
+export const FONT_SCALES = [1, 1.25, 1.5, 2] as const
+
+export type FontScale = (typeof FONT_SCALES)[number]
+
+export type AccessibilityProfile = {
+    fontScale: FontScale
+    highContrast: boolean
+    dyslexiaFont: boolean
+    reducedMotion: boolean
+}
+
+export const DEFAULT_ACCESSIBILITY_PROFILE: AccessibilityProfile = {
+    fontScale: 1,
+    highContrast: false,
+    dyslexiaFont: false,
+    reducedMotion: false,
+}
+
+/** Read a stored profile, falling back to defaults for missing or invalid fields. */
+export function normalizeAccessibilityProfile(value: unknown): AccessibilityProfile {
+    const record = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+    const fontScale = FONT_SCALES.find((scale) => scale === record.fontScale) ?? DEFAULT_ACCESSIBILITY_PROFILE.fontScale
+    return {
+        fontScale,
+        highContrast: record.highContrast === true,
+        dyslexiaFont: record.dyslexiaFont === true,
+        reducedMotion: record.reducedMotion === true,
+    }
+}
+
+export const isDefaultAccessibilityProfile = (profile: AccessibilityProfile) =>
+    profile.fontScale === 1 && !profile.highContrast && !profile.dyslexiaFont && !profile.reducedMotion
@@ -0,0 +1,154 @@
+import { prisma } from '@/lib/prisma'
+import {
+    getEffectiveExamWindow,
+    resolveAccommodation,
+    type AccommodationCandidate,
+    type EffectiveExamWindow,
+} from '@/lib/exam-time'
+
+type SessionUser = {
+    id: string
+    role: string
+    institutionId?: string | null
+}
+
+export type AccommodationExam = {
+    id: string
+    courseId: string
+    parentExamId?: string | null
+    startAt: Date | null
+    endAt: Date | null
+    durationMinutes: number | null
+}
+
+export const accommodationSelect = {
+    id: true,
+    courseId: true,
+    userId: true,
+    classId: true,
+    examId: true,
+    durationMultiplier: true,
+    extraMinutes: true,
+    startAt: true,
+    endAt: true,
+    lateStartGraceMinutes: true,
+    reason: true,
+    createdAt: true,
+    user: { select: { id: true, name: true, email: true } },
+    class: { select: { id: true, name: true } },
+    exam: { select: { id: true, title: true } },
+} as const
+
+// undefined = field untouched, null = cleared
+export const parseOptionalDate = (value: string | null | undefined) => {
+    if (value === undefined) return undefined
+    if (value === null || value === '') return null
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? 'invalid' as const : date
+}
+
+const isAdminRole = (role: string) => role === 'SCHOOL_ADMIN' || role === 'PLATFORM_ADMIN'
+
+/**
+ * Effective exam windows for a set of students, keyed by studentId.
+ * Students without any accommodation get the plain exam window.
+ * Variants inherit accommodations declared on their parent exam.
+ */
+export async function getExamWindowsForStudents(
+    exam: AccommodationExam,
+    studentIds: string[]
+): Promise<Map<string, EffectiveExamWindow>> {
+    const windows = new Map<string, EffectiveExamWindow>()
+    if (studentIds.length === 0) {
+        return windows
+    }
+
+    const examIds = [exam.id, exam.parentExamId].filter((id): id is string => Boolean(id))
+    const accommodations = await prisma.examAccommodation.findMany({
+        where: {
+            courseId: exam.courseId,
+            archivedAt: null,
+            OR: [{ examId: null }, { examId: { in: examIds } }],
+            AND: [{
+                OR: [
+                    { userId: { in: studentIds } },
+                    { class: { archivedAt: null, enrollments: { some: { userId: { in: studentIds }, archivedAt: null } } } },
+                ],
+            }],
+        },
+        include: {
+            class: {
+                select: {
+                    enrollments: {
+                        where: { userId: { in: studentIds }, archivedAt: null },
+                        select: { userId: true },
+                    },
+                },
+            },
+        },
+    })
+
+    for (const studentId of studentIds) {
+        const candidates: AccommodationCandidate[] = accommodations.filter((entry) =>
+            entry.userId === studentId ||
+            (entry.userId === null && entry.class?.enrollments.some((enrollment) => enrollment.userId === studentId))
+        )
+        windows.set(studentId, getEffectiveExamWindow(exam, resolveAccommodation(candidates)))
+    }
+
+    return windows
+}
+
+export async function getStudentExamWindow(
+    exam: AccommodationExam,
+    studentId: string
+): Promise<EffectiveExamWindow> {
+    const windows = await getExamWindowsForStudents(exam, [studentId])
+    return windows.get(studentId) ?? getEffectiveExamWindow(exam)
+}
+
+/**
+ * Teachers enrolled in the course and admins of its institution may manage
+ * accommodations; returns the course's institutionId when allowed.
+ */
+export async function canManageCourseAccommodations(
+    courseId: string,
+    user: SessionUser
+): Promise<{ ok: true; institutionId: string } | { ok: false }> {
+    const course = await prisma.course.findUnique({
+        where: { id: courseId },
+        select: { institutionId: true, archivedAt: true },
+    })
+
+    if (!course || course.archivedAt) {
+        return { ok: false }
+    }
+
+    if (user.role === 'PLATFORM_ADMIN') {
+        return { ok: true, institutionId: course.institutionId }
+    }
+
+    if (course.institutionId !== user.institutionId) {
+        return { ok: false }
+    }
+
+    if (isAdminRole(user.role)) {
+        return { ok: true, institutionId: course.institutionId }
+    }
+
+    if (user.role !== 'TEACHER') {
+        return { ok: false }
+    }
+
+    const teacherEnrollment = await prisma.enrollment.findFirst({
+        where: {
+            userId: user.id,
+            role: 'TEACHER',
+            archivedAt: null,
+            class: { courseId, archivedAt: null },
+        },
+        select: { id: true },
+    })
+
+    return teacherEnrollment ? { ok: true, institutionId: course.institutionId } : { ok: false }
+}
@@ -7,9 +7,10 @@ import { cookies } from 'next/headers'
 import { revalidatePath } from 'next/cache'
 import { parseContent } from '@/lib/content'
 import { getExamPermissions } from '@/lib/exam-permissions'
-import type { StudentToolsConfig } from '@/types/exams'
-import type { AntiCheatConfig } from '@/lib/proctoring/types'
-import { DEFAULT_ANTI_CHEAT_CONFIG } from '@/lib/proctoring/types'
+import type { QuestionType, StudentToolsConfig } from '@/types/exams'
+import { DEFAULT_CODE_CONFIG, parseCodeConfig } from '@/lib/grading/code-grader'
+import { getDefaultAnswerKey, isAnswerKeyQuestionType, parseAnswerKey } from '@/lib/grading/answer-key'
+import { normalizeAntiCheatConfig } from '@/lib/proctoring/types'
 
 /**
  * Creates a new draft exam for the specified course.
@@ -148,7 +149,7 @@ export async function getExamForEditor(examId: string) {
     startAt: exam.startAt?.toISOString() ?? null,
     endAt: exam.endAt?.toISOString() ?? null,
     author: exam.author,
-    antiCheatConfig: (exam.antiCheatConfig as AntiCheatConfig | null) || DEFAULT_ANTI_CHEAT_CONFIG,
+    antiCheatConfig: normalizeAntiCheatConfig(exam.antiCheatConfig),
     sections: exam.sections.map(section => ({
       id: section.id,
       title: section.title,
@@ -163,7 +164,7 @@ export async function getExamForEditor(examId: string) {
         answerTemplateLocked: question.answerTemplateLocked,
         studentTools: question.studentTools as StudentToolsConfig | null,
         shuffleOptions: question.shuffleOptions,
-        type: question.type as 'TEXT' | 'MCQ' | 'CODE',
+        type: question.type as QuestionType,
         order: question.order,
         customLabel: question.customLabel,
         requireAllCorrect: question.requireAllCorrect,
@@ -171,6 +172,8 @@ export async function getExamForEditor(examId: string) {
         // correctionGuidelines is stored in segment rubric criteria for now
         // TODO: Add dedicated field when schema is updated for Phase 4
         correctionGuidelines: question.segments[0]?.rubric?.criteria ?? null,
+        codeConfig: parseCodeConfig(question.codeConfig),
+        answerKey: parseAnswerKey(question.type, question.answerKey),
         segments: question.segments.map(segment => ({
           id: segment.id,
           order: segment.order,
@@ -269,7 +272,7 @@ export async function updateExamMetadata(
  */
 export async function addQuestion(
   examId: string,
-  type: 'TEXT' | 'MCQ',
+  type: QuestionType,
   sectionId?: string
 ) {
   const cookieStore = await cookies()
@@ -305,7 +308,7 @@ export async function addQuestion(
     throw new Error('Forbidden')
   }
 
-  if (!['TEXT', 'MCQ'].includes(type)) {
+  if (!['TEXT', 'MCQ', 'CODE', 'NUMERIC', 'MATH_EXPRESSION'].includes(type)) {
     throw new Error('Invalid question type')
   }
 
@@ -355,12 +358,14 @@ export async function addQuestion(
         answerTemplate: '',
         type,
         order: newOrder,
+        ...(type === 'CODE' ? { codeConfig: DEFAULT_CODE_CONFIG } : {}),
+        ...(isAnswerKeyQuestionType(type) ? { answerKey: getDefaultAnswerKey(type) } : {}),
       }
     })
 
-    // Create default segment with 1 point (only for TEXT questions)
+    // Create default segment with 1 point (TEXT and CODE questions)
     // MCQ questions use segments as options, handled differently
-    if (type === 'TEXT') {
+    if (type !== 'MCQ') {
       await tx.questionSegment.create({
         data: {
           questionId: question.id,
@@ -397,12 +402,14 @@ export async function addQuestion(
         answerTemplateLocked: fullQuestion.answerTemplateLocked,
         studentTools: fullQuestion.studentTools as StudentToolsConfig | null,
         shuffleOptions: fullQuestion.shuffleOptions,
-        type: fullQuestion.type as 'TEXT' | 'MCQ' | 'CODE',
+        type: fullQuestion.type as QuestionType,
         order: fullQuestion.order,
         customLabel: fullQuestion.customLabel,
         requireAllCorrect: fullQuestion.requireAllCorrect,
         maxPoints: fullQuestion.maxPoints,
         correctionGuidelines: null, // New questions start with no guidelines
+        codeConfig: parseCodeConfig(fullQuestion.codeConfig),
+        answerKey: parseAnswerKey(fullQuestion.type, fullQuestion.answerKey),
         segments: fullQuestion.segments.map(segment => ({
           id: segment.id,
           order: segment.order,
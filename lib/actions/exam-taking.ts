@@ -5,8 +5,18 @@ import { buildAuthOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { cookies } from 'next/headers'
 import { revalidatePath } from 'next/cache'
-import { getExamEndAt } from '@/lib/exam-time'
-import { recomputeAttemptStatus } from '@/lib/attemptStatus'
+import { getAttemptDeadline } from '@/lib/exam-time'
+import { getStudentExamWindow } from '@/lib/accommodations'
+import { drawParameterValuesForAttempt, drawQuestionSelectionForAttempt } from '@/lib/attempt-questions'
+import { applyAttemptQuestionSelection, isQuestionInAttemptSelection } from '@/lib/question-pools'
+import { applyAttemptParameterValues } from '@/lib/question-parameters'
+import { saveAnswerSegment } from '@/lib/answerAutosave'
+import { AUTO_SCORED_CODE, parseCodeConfig, toStudentCodeConfig } from '@/lib/grading/code-grader'
+import {
+  AUTO_SCORED_GRAPH,
+  AUTO_SCORED_MATH_EXPRESSION,
+  AUTO_SCORED_NUMERIC
+} from '@/lib/grading/answer-key'
 
 // Types for MCQ scoring
 type McqScoreResult = {
@@ -143,7 +153,7 @@ export async function startAttempt(examId: string) {
             where: { archivedAt: null },
             include: {
               enrollments: {
-                where: { userId: session.user.id }
+                where: { userId: session.user.id, archivedAt: null }
               }
             }
           }
@@ -165,24 +175,28 @@ export async function startAttempt(examId: string) {
     throw new Error('You are not enrolled in this exam')
   }
 
-  // Check time window
+  // Check time window (individual window when the student has accommodations)
   const now = new Date()
-  if (exam.startAt && now < exam.startAt) {
+  const examWindow = await getStudentExamWindow(exam, session.user.id)
+  if (examWindow.startAt && now < examWindow.startAt) {
     throw new Error('Exam has not started yet')
   }
 
-  const examEndAt = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
-  if (examEndAt && now > examEndAt) {
+  if (examWindow.endAt && now > examWindow.endAt) {
     throw new Error('Exam has ended')
   }
 
-  // Create new attempt
+  // Create new attempt with its own draw from the exam's question pools and parameters
+  const questionSelection = await drawQuestionSelectionForAttempt(examId, session.user.id)
+  const parameterValues = await drawParameterValuesForAttempt(examId, session.user.id)
   const attempt = await prisma.attempt.create({
     data: {
       examId,
       studentId: session.user.id,
       status: 'IN_PROGRESS',
-      startedAt: new Date()
+      startedAt: new Date(),
+      ...(questionSelection ? { questionSelection } : {}),
+      ...(parameterValues ? { parameterValues } : {})
     }
   })
 
@@ -233,244 +247,39 @@ export async function saveAnswer(
 
   // Check time window
   const now = new Date()
-  const examEndAt = getExamEndAt(attempt.exam.startAt, attempt.exam.durationMinutes, attempt.exam.endAt)
-  if (examEndAt && now > examEndAt) {
+  const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+  const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
+  if (deadlineAt && now > deadlineAt) {
     throw new Error('Exam has ended')
   }
 
-  // Find or create Answer for this question
-  let answer = await prisma.answer.findUnique({
-    where: {
-      attemptId_questionId: {
-        attemptId,
-        questionId
-      }
-    }
-  })
-
-  if (!answer) {
-    answer = await prisma.answer.create({
-      data: {
-        attemptId,
-        questionId
-      }
-    })
+  if (attempt.pausedAt) {
+    throw new Error('Attempt is paused by the proctor')
   }
 
-  // Upsert AnswerSegment
-  const answerSegment = await prisma.answerSegment.upsert({
-    where: {
-      answerId_segmentId: {
-        answerId: answer.id,
-        segmentId
-      }
-    },
-    create: {
-      answerId: answer.id,
-      segmentId,
-      content,
-      autosavedAt: new Date()
-    },
-    update: {
-      content,
-      autosavedAt: new Date()
-    }
-  })
-
-  return {
-    success: true,
-    answerSegmentId: answerSegment.id,
-    autosavedAt: answerSegment.autosavedAt?.toISOString()
-  }
-}
-
-/**
- * Submits an exam attempt and auto-scores MCQ questions.
- *
- * For MCQ questions:
- * - Creates Grade records with automatic scores
- * - Sets isAutoScored flag via aiRationale field
- *
- * For TEXT questions:
- * - Leaves scores as null (pending manual/AI grading)
- *
- * Returns summary of auto-scored results.
- */
-export async function submitAttempt(attemptId: string) {
-  const cookieStore = await cookies()
-  const institutionId = cookieStore.get('correcta-institution')?.value
-
-  const authOptions = await buildAuthOptions(institutionId)
-  const session = await getServerSession(authOptions)
-
-  if (!session?.user || session.user.role !== 'STUDENT') {
-    throw new Error('Unauthorized')
-  }
-
-  // Fetch attempt with all answers and question details
-  const attempt = await prisma.attempt.findUnique({
-    where: { id: attemptId },
-    include: {
-      exam: {
-        include: {
-          sections: {
-            include: {
-              questions: {
-                include: {
-                  segments: true
-                }
-              }
-            }
-          }
-        }
-      },
-      answers: {
-        include: {
-          segments: true,
-          question: {
-            include: {
-              segments: true
-            }
-          }
-        }
-      }
-    }
+  // Only questions of this exam that were drawn for the attempt can be answered
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: { id: true, sectionId: true, section: { select: { examId: true } } }
   })
-
-  if (!attempt || attempt.studentId !== session.user.id) {
-    throw new Error('Attempt not found')
-  }
-
-  if (attempt.status !== 'IN_PROGRESS') {
-    throw new Error('Attempt already submitted')
+  if (!question || question.section.examId !== attempt.examId
+    || !isQuestionInAttemptSelection(question, attempt.questionSelection)) {
+    throw new Error('Question not found')
   }
 
-  // Check time window with grace period (60 seconds)
-  const now = new Date()
-  const gracePeriodSeconds = 60
-  const examEndAt = getExamEndAt(attempt.exam.startAt, attempt.exam.durationMinutes, attempt.exam.endAt)
-
-  if (examEndAt) {
-    const endAtWithGrace = new Date(examEndAt.getTime() + gracePeriodSeconds * 1000)
-    if (now > endAtWithGrace) {
-      throw new Error('Exam has ended, submission not allowed')
-    }
-  }
-
-  // Process MCQ auto-scoring
-  const mcqScores: Array<{
-    questionId: string
-    answerId: string
-    score: number
-    isCorrect: boolean
-  }> = []
-
-  let totalAutoScoredPoints = 0
-
-  for (const answer of attempt.answers) {
-    const question = answer.question
-
-    if (question.type === 'MCQ') {
-      // Build map of student answers for this question
-      const studentAnswers = new Map<string, string>()
-      for (const seg of answer.segments) {
-        studentAnswers.set(seg.segmentId, seg.content)
-      }
-
-      // Score the MCQ
-      const scoreResult = await scoreMultipleChoiceAnswer(
-        {
-          id: question.id,
-          maxPoints: question.maxPoints,
-          requireAllCorrect: question.requireAllCorrect,
-          segments: question.segments.map(s => ({
-            id: s.id,
-            maxPoints: s.maxPoints,
-            isCorrect: s.isCorrect
-          }))
-        },
-        studentAnswers
-      )
-
-      mcqScores.push({
-        questionId: question.id,
-        answerId: answer.id,
-        score: scoreResult.score,
-        isCorrect: scoreResult.isCorrect
-      })
-
-      totalAutoScoredPoints += scoreResult.score
-    }
-    // TEXT questions: leave ungraded for now
-  }
-
-  // Execute submission in transaction
-  const result = await prisma.$transaction(async (tx) => {
-    // Update attempt status
-    const updatedAttempt = await tx.attempt.update({
-      where: { id: attemptId },
-      data: {
-        status: 'SUBMITTED',
-        submittedAt: new Date()
-      }
-    })
-
-    // Create Grade records for MCQ answers
-    for (const mcqScore of mcqScores) {
-      // Check if grade already exists
-      const existingGrade = await tx.grade.findUnique({
-        where: { answerId: mcqScore.answerId }
-      })
-
-      if (!existingGrade) {
-        await tx.grade.create({
-          data: {
-            answerId: mcqScore.answerId,
-            score: mcqScore.score,
-            feedback: mcqScore.isCorrect
-              ? 'Correct answer'
-              : 'Incorrect answer',
-            aiRationale: 'AUTO_SCORED_MCQ', // Flag indicating auto-scored
-            isOverridden: false,
-            gradedByUserId: null // null indicates automatic grading
-          }
-        })
-      }
-    }
-
-    // Create grading task placeholder for TEXT questions (Phase 4)
-    const hasTextQuestions = attempt.answers.some(
-      a => a.question.type === 'TEXT'
-    )
-
-    if (hasTextQuestions) {
-      await tx.gradingTask.create({
-        data: {
-          attemptId,
-          status: 'PENDING'
-        }
-      })
-    }
-
-    return updatedAttempt
+  // Same write as the autosave API, revision history included
+  const { answerSegment } = await saveAnswerSegment(prisma, {
+    attemptId,
+    questionId,
+    segmentId,
+    content,
+    savedAt: new Date()
   })
 
-  // Recompute status after transaction (MCQ-only exams should be marked GRADED immediately)
-  await recomputeAttemptStatus(attemptId)
-
-  revalidatePath('/student/exams')
-  revalidatePath(`/student/attempts/${attemptId}`)
-
   return {
     success: true,
-    attemptId: result.id,
-    status: result.status,
-    submittedAt: result.submittedAt?.toISOString(),
-    autoScoredResults: {
-      mcqCount: mcqScores.length,
-      totalAutoScoredPoints,
-      scores: mcqScores
-    }
+    answerSegmentId: answerSegment.id,
+    autosavedAt: answerSegment.autosavedAt?.toISOString()
   }
 }
 
@@ -531,18 +340,9 @@ export async function getAttemptState(attemptId: string) {
     throw new Error('Attempt not found')
   }
 
-  // Calculate deadline
-  const examEndAt = getExamEndAt(
-    attempt.exam.startAt,
-    attempt.exam.durationMinutes,
-    attempt.exam.endAt
-  )
-  const deadlineFromStart = attempt.exam.durationMinutes
-    ? new Date(attempt.startedAt.getTime() + attempt.exam.durationMinutes * 60 * 1000)
-    : null
-  const deadline = examEndAt && deadlineFromStart
-    ? (examEndAt < deadlineFromStart ? examEndAt : deadlineFromStart)
-    : examEndAt || deadlineFromStart
+  // Calculate deadline (accommodations included)
+  const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+  const deadline = getAttemptDeadline(examWindow, attempt.startedAt, attempt)
 
   return {
     attemptId: attempt.id,
@@ -550,13 +350,26 @@ export async function getAttemptState(attemptId: string) {
     startedAt: attempt.startedAt.toISOString(),
     submittedAt: attempt.submittedAt?.toISOString() ?? null,
     deadlineAt: deadline?.toISOString() ?? null,
+    hasAccommodation: examWindow.isAccommodated,
     exam: {
       id: attempt.exam.id,
       title: attempt.exam.title,
-      durationMinutes: attempt.exam.durationMinutes,
+      durationMinutes: examWindow.durationMinutes,
       course: attempt.exam.course,
       author: attempt.exam.author,
-      sections: attempt.exam.sections
+      // Hidden CODE tests and parameter definitions never leave the server
+      sections: applyAttemptParameterValues(
+        applyAttemptQuestionSelection(attempt.exam.sections, attempt.questionSelection),
+        attempt
+      ).map(section => ({
+        ...section,
+        questions: section.questions.map(question => ({
+          ...question,
+          parameters: undefined,
+          answerKey: undefined,
+          codeConfig: toStudentCodeConfig(parseCodeConfig(question.codeConfig))
+        }))
+      }))
     },
     answers: attempt.answers.map(a => ({
       questionId: a.questionId,
@@ -568,6 +381,10 @@ export async function getAttemptState(attemptId: string) {
         score: a.grades[0].score,
         feedback: a.grades[0].feedback,
         isAutoScored: a.grades[0].aiRationale === 'AUTO_SCORED_MCQ'
+          || a.grades[0].aiRationale === AUTO_SCORED_CODE
+          || a.grades[0].aiRationale === AUTO_SCORED_NUMERIC
+          || a.grades[0].aiRationale === AUTO_SCORED_MATH_EXPRESSION
+          || a.grades[0].aiRationale === AUTO_SCORED_GRAPH
       } : null
     }))
   }
@@ -0,0 +1,231 @@
+import { Prisma, type AnswerSegment, type PrismaClient } from '@prisma/client'
+import { computeRevisionDiff, getRevisionContent, shouldStoreRevisionSnapshot } from './answerRevisions'
+
+type AutosaveClient = PrismaClient | Prisma.TransactionClient
+
+const inTransaction = <T>(db: AutosaveClient, run: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> =>
+    '$transaction' in db ? db.$transaction(run) : run(db)
+
+export type AnswerSegmentWrite = {
+    attemptId: string
+    questionId: string
+    segmentId: string
+    content: string
+    savedAt: Date
+}
+
+export type AnswerSegmentWriteResult = {
+    answerSegment: AnswerSegment
+    stale: boolean
+}
+
+/**
+ * Edits replayed from the offline journal may reach the server shortly after
+ * the deadline; they are accepted if they were made before it.
+ */
+export const LATE_SYNC_GRACE_SECONDS = 60
+
+/**
+ * Resolve the time an edit was made on the client.
+ * Falls back to `now` when missing or invalid, and never trusts a future clock.
+ */
+export const resolveClientUpdatedAt = (raw: unknown, now: Date = new Date()): Date => {
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+        return now
+    }
+    const parsed = new Date(raw)
+    if (Number.isNaN(parsed.getTime()) || parsed > now) {
+        return now
+    }
+    return parsed
+}
+
+/**
+ * Last-write-wins: an edit older than the stored one must not overwrite it
+ * (e.g. a journal replay arriving after a newer online save).
+ */
+export const isStaleAutosave = (storedAt: Date | null | undefined, incomingAt: Date): boolean =>
+    !!storedAt && storedAt.getTime() > incomingAt.getTime()
+
+/**
+ * Whether an autosave may still be stored at `now` for an attempt ending at `deadlineAt`.
+ */
+export const canStoreAutosave = (deadlineAt: Date | null, savedAt: Date, now: Date = new Date()): boolean => {
+    if (!deadlineAt || now <= deadlineAt) {
+        return true
+    }
+    const graceEnd = deadlineAt.getTime() + LATE_SYNC_GRACE_SECONDS * 1000
+    return now.getTime() <= graceEnd && savedAt <= deadlineAt
+}
+
+/**
+ * Revision appended with a content change. Its sequence is the segment's
+ * `revisionCount` once incremented, in the transaction that changes the content.
+ */
+const buildRevision = (
+    previousContent: string,
+    content: string,
+    sequence: number,
+    savedAt: Date,
+    restore?: { fromSequence: number; byId: string }
+) => ({
+    sequence,
+    savedAt,
+    diff: computeRevisionDiff(previousContent, content),
+    snapshot: shouldStoreRevisionSnapshot(sequence) ? content : null,
+    restoredFromSequence: restore?.fromSequence ?? null,
+    restoredById: restore?.byId ?? null
+})
+
+/**
+ * Store one AnswerSegment edit, creating the Answer if needed.
+ * Stale edits leave the stored segment untouched and are reported with `stale: true`.
+ * Every change of content is kept as an AnswerRevision.
+ */
+export async function saveAnswerSegment(
+    db: AutosaveClient,
+    { attemptId, questionId, segmentId, content, savedAt }: AnswerSegmentWrite
+): Promise<AnswerSegmentWriteResult> {
+    const answer = await db.answer.upsert({
+        where: {
+            attemptId_questionId: {
+                attemptId,
+                questionId
+            }
+        },
+        create: {
+            attemptId,
+            questionId
+        },
+        update: {}
+    })
+
+    const existing = await db.answerSegment.findUnique({
+        where: {
+            answerId_segmentId: {
+                answerId: answer.id,
+                segmentId
+            }
+        }
+    })
+
+    if (existing && isStaleAutosave(existing.autosavedAt, savedAt)) {
+        return { answerSegment: existing, stale: true }
+    }
+
+    if (!existing) {
+        try {
+            const answerSegment = await db.answerSegment.create({
+                data: {
+                    answerId: answer.id,
+                    segmentId,
+                    content,
+                    autosavedAt: savedAt,
+                    ...(content !== '' && {
+                        revisionCount: 1,
+                        revisions: { create: buildRevision('', content, 1, savedAt) }
+                    })
+                }
+            })
+            return { answerSegment, stale: false }
+        } catch (error) {
+            // Created by a concurrent save: store this one as an edit of it
+            if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+                throw error
+            }
+        }
+    }
+
+    const where = { answerId_segmentId: { answerId: answer.id, segmentId } }
+    return inTransaction(db, async (tx) => {
+        // The stale check is part of the write, which also locks the segment until the
+        // end of the transaction: the content read next is the one this edit replaces
+        const claimed = await tx.answerSegment.updateMany({
+            where: {
+                answerId: answer.id,
+                segmentId,
+                OR: [{ autosavedAt: null }, { autosavedAt: { lte: savedAt } }]
+            },
+            data: { autosavedAt: savedAt }
+        })
+        const previous = await tx.answerSegment.findUniqueOrThrow({ where })
+        if (claimed.count === 0) {
+            return { answerSegment: previous, stale: true }
+        }
+        if (previous.content === content) {
+            return { answerSegment: previous, stale: false }
+        }
+
+        const answerSegment = await tx.answerSegment.update({
+            where,
+            data: { content, revisionCount: { increment: 1 } }
+        })
+        await tx.answerRevision.create({
+            data: {
+                answerSegmentId: answerSegment.id,
+                ...buildRevision(previous.content, content, answerSegment.revisionCount, savedAt)
+            }
+        })
+        return { answerSegment, stale: false }
+    })
+}
+
+export class AnswerRevisionNotFoundError extends Error {
+    constructor(message: string = 'Answer revision not found') {
+        super(message)
+        this.name = 'AnswerRevisionNotFoundError'
+    }
+}
+
+/**
+ * Put back the content of an earlier revision, as a new revision.
+ * `autosavedAt` is left alone: it is the time of the student's last edit.
+ */
+export async function restoreAnswerRevision(
+    db: AutosaveClient,
+    { answerSegmentId, sequence, restoredById, now = new Date() }: {
+        answerSegmentId: string
+        sequence: number
+        restoredById: string
+        now?: Date
+    }
+): Promise<AnswerSegment> {
+    return inTransaction(db, async (tx) => {
+        const current = await tx.answerSegment.findUnique({ where: { id: answerSegmentId }, select: { id: true } })
+        if (!current) {
+            throw new AnswerRevisionNotFoundError()
+        }
+
+        // Takes the next sequence and locks the segment until the restored content is written
+        const answerSegment = await tx.answerSegment.update({
+            where: { id: answerSegmentId },
+            data: { revisionCount: { increment: 1 } },
+            include: {
+                revisions: {
+                    where: { sequence: { lte: sequence } },
+                    select: { sequence: true, diff: true, snapshot: true }
+                }
+            }
+        })
+
+        const content = getRevisionContent(answerSegment.revisions, sequence)
+        if (content === null) {
+            throw new AnswerRevisionNotFoundError()
+        }
+
+        const nextSequence = answerSegment.revisionCount
+        await tx.answerRevision.create({
+            data: {
+                answerSegmentId,
+                ...buildRevision(answerSegment.content, content, nextSequence, now, {
+                    fromSequence: sequence,
+                    byId: restoredById
+                })
+            }
+        })
+        return tx.answerSegment.update({
+            where: { id: answerSegmentId },
+            data: { content }
+        })
+    })
+}
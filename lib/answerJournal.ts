@@ -0,0 +1,151 @@
+/**
+ * Client-side journal of answer edits not yet acknowledged by the server.
+ *
+ * Entries are stored in IndexedDB (one per attempt and segment, the latest edit
+ * wins) so that edits made while offline survive a reload and can be replayed
+ * against PUT /api/attempts/[id]. Falls back to memory when IndexedDB is unavailable.
+ */
+
+export type AnswerJournalEntry = {
+    attemptId: string
+    questionId: string
+    segmentId: string
+    content: string
+    /** ISO time of the edit on the client, used server-side for last-write-wins */
+    clientUpdatedAt: string
+    /** Sent as x-request-id so a replay of an already stored edit is deduplicated */
+    requestId: string
+}
+
+const DB_NAME = 'correcta-answer-journal'
+const DB_VERSION = 1
+const STORE_NAME = 'entries'
+const ATTEMPT_INDEX = 'attemptId'
+
+const memoryJournal = new Map<string, AnswerJournalEntry>()
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+const memoryKey = (attemptId: string, segmentId: string) => `${attemptId}:${segmentId}`
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) {
+        return dbPromise
+    }
+
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null)
+            return
+        }
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION)
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: ['attemptId', 'segmentId'] })
+                    store.createIndex(ATTEMPT_INDEX, 'attemptId', { unique: false })
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            // Private browsing or blocked storage: keep the journal in memory
+            request.onerror = () => resolve(null)
+            request.onblocked = () => resolve(null)
+        } catch {
+            resolve(null)
+        }
+    })
+
+    return dbPromise
+}
+
+export const createJournalRequestId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+export async function putJournalEntry(entry: AnswerJournalEntry): Promise<void> {
+    const db = await openDatabase()
+    if (!db) {
+        memoryJournal.set(memoryKey(entry.attemptId, entry.segmentId), entry)
+        return
+    }
+    try {
+        const tx = db.transaction(STORE_NAME, 'readwrite')
+        await requestToPromise(tx.objectStore(STORE_NAME).put(entry))
+    } catch (error) {
+        console.error('[AnswerJournal] Write failed, keeping entry in memory:', error)
+        memoryJournal.set(memoryKey(entry.attemptId, entry.segmentId), entry)
+    }
+}
+
+/** Pending entries of an attempt, oldest edit first. */
+export async function listJournalEntries(attemptId: string): Promise<AnswerJournalEntry[]> {
+    const entries = new Map<string, AnswerJournalEntry>()
+    const db = await openDatabase()
+    if (db) {
+        try {
+            const tx = db.transaction(STORE_NAME, 'readonly')
+            const stored = await requestToPromise(
+                tx.objectStore(STORE_NAME).index(ATTEMPT_INDEX).getAll(attemptId)
+            ) as AnswerJournalEntry[]
+            stored.forEach((entry) => entries.set(memoryKey(entry.attemptId, entry.segmentId), entry))
+        } catch (error) {
+            console.error('[AnswerJournal] Read failed:', error)
+        }
+    }
+    memoryJournal.forEach((entry, key) => {
+        const current = entries.get(key)
+        if (entry.attemptId === attemptId && (!current || current.clientUpdatedAt < entry.clientUpdatedAt)) {
+            entries.set(key, entry)
+        }
+    })
+    return Array.from(entries.values()).sort((a, b) => a.clientUpdatedAt.localeCompare(b.clientUpdatedAt))
+}
+
+/**
+ * Remove an acknowledged entry. Only removes it if it is still the edit that was
+ * sent (`requestId`), so a newer edit made in the meantime stays journaled.
+ */
+export async function removeJournalEntry(attemptId: string, segmentId: string, requestId: string): Promise<void> {
+    const key = memoryKey(attemptId, segmentId)
+    if (memoryJournal.get(key)?.requestId === requestId) {
+        memoryJournal.delete(key)
+    }
+    const db = await openDatabase()
+    if (!db) return
+    try {
+        const tx = db.transaction(STORE_NAME, 'readwrite')
+        const store = tx.objectStore(STORE_NAME)
+        const current = await requestToPromise(store.get([attemptId, segmentId])) as AnswerJournalEntry | undefined
+        if (current?.requestId === requestId) {
+            await requestToPromise(store.delete([attemptId, segmentId]))
+        }
+    } catch (error) {
+        console.error('[AnswerJournal] Delete failed:', error)
+    }
+}
+
+/** Drop every entry of an attempt (after a successful submission). */
+export async function clearJournal(attemptId: string): Promise<void> {
+    memoryJournal.forEach((entry, key) => {
+        if (entry.attemptId === attemptId) {
+            memoryJournal.delete(key)
+        }
+    })
+    const db = await openDatabase()
+    if (!db) return
+    try {
+        const tx = db.transaction(STORE_NAME, 'readwrite')
+        const store = tx.objectStore(STORE_NAME)
+        const keys = await requestToPromise(store.index(ATTEMPT_INDEX).getAllKeys(attemptId))
+        await Promise.all(keys.map((key) => requestToPromise(store.delete(key))))
+    } catch (error) {
+        console.error('[AnswerJournal] Clear failed:', error)
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * Answer revisions are stored as compact diffs: the changed range of the
+ * content against the previous revision. A full snapshot is kept every
+ * REVISION_SNAPSHOT_INTERVAL revisions (and on the first one) so that a
+ * version is rebuilt from a bounded number of diffs.
+ */
+export const REVISION_SNAPSHOT_INTERVAL = 50
+
+/** [start, deletedLength, insertedText] */
+export type RevisionDiff = [number, number, string]
+
+export type StoredRevision = {
+    sequence: number
+    diff: unknown
+    snapshot: string | null
+}
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff
+const isLowSurrogate = (code: number) => code >= 0xdc00 && code <= 0xdfff
+
+/**
+ * Changed range between two contents (common prefix and suffix removed).
+ * The range never splits a surrogate pair so that the inserted text stays valid JSON.
+ */
+export const computeRevisionDiff = (previous: string, next: string): RevisionDiff => {
+    const maxPrefix = Math.min(previous.length, next.length)
+    let prefix = 0
+    while (prefix < maxPrefix && previous[prefix] === next[prefix]) prefix++
+    if (prefix > 0 && isHighSurrogate(next.charCodeAt(prefix - 1))) prefix--
+
+    const maxSuffix = maxPrefix - prefix
+    let suffix = 0
+    while (suffix < maxSuffix && previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++
+    if (suffix > 0 && isLowSurrogate(next.charCodeAt(next.length - suffix))) suffix--
+
+    return [prefix, previous.length - prefix - suffix, next.slice(prefix, next.length - suffix)]
+}
+
+export const applyRevisionDiff = (content: string, [start, deleted, inserted]: RevisionDiff): string =>
+    content.slice(0, start) + inserted + content.slice(start + deleted)
+
+export const isRevisionDiff = (value: unknown): value is RevisionDiff =>
+    Array.isArray(value)
+    && value.length === 3
+    && Number.isInteger(value[0]) && value[0] >= 0
+    && Number.isInteger(value[1]) && value[1] >= 0
+    && typeof value[2] === 'string'
+
+export const shouldStoreRevisionSnapshot = (sequence: number): boolean =>
+    (sequence - 1) % REVISION_SNAPSHOT_INTERVAL === 0
+
+/**
+ * Content of every revision, in sequence order.
+ * Snapshots reset the content; a malformed diff keeps the previous content.
+ */
+export const rebuildRevisionContents = <T extends StoredRevision>(revisions: T[]): Array<T & { content: string }> => {
+    let content = ''
+    return [...revisions]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map((revision) => {
+            if (revision.snapshot !== null) {
+                content = revision.snapshot
+            } else if (isRevisionDiff(revision.diff)) {
+                content = applyRevisionDiff(content, revision.diff)
+            }
+            return { ...revision, content }
+        })
+}
+
+/**
+ * Content of one revision, rebuilt from the closest snapshot before it.
+ * Returns null when the revision does not exist.
+ */
+export const getRevisionContent = (revisions: StoredRevision[], sequence: number): string | null => {
+    const sorted = revisions
+        .filter((revision) => revision.sequence <= sequence)
+        .sort((a, b) => a.sequence - b.sequence)
+    if (sorted.length === 0 || sorted[sorted.length - 1].sequence !== sequence) {
+        return null
+    }
+    let start = 0
+    sorted.forEach((revision, index) => {
+        if (revision.snapshot !== null) start = index
+    })
+    const rebuilt = rebuildRevisionContents(sorted.slice(start))
+    return rebuilt[rebuilt.length - 1].content
+}
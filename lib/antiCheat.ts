@@ -98,8 +98,9 @@ export function analyzeCopyPasteEvents(events: ProctorEventData[]): CopyPasteAna
  * Compute anti-cheat score using the weighted formula:
  * 
  * Base Score = 2 × FOCUS_LOST + 3 × TAB_SWITCH
+ * Session Score = 2 × FULLSCREEN_EXIT + 1 × INACTIVITY + 10 × MULTI_SESSION
  * Copy/Paste Score = 3 × suspiciousPairs + 7 × strongPairs
- * Total Score = Base Score + Copy/Paste Score
+ * Total Score = Base Score + Session Score + Copy/Paste Score
  * 
  * Note: COPY and PASTE events are NOT counted directly.
  * Only copy/paste PATTERNS (suspicious/strong pairs) contribute to the score.
@@ -115,11 +116,17 @@ export function computeAntiCheatScore(params: AntiCheatScoreParams): number {
         (eventCounts.FOCUS_LOST || 0) * 2 +
         (eventCounts.TAB_SWITCH || 0) * 3
 
+    // Leaving the required fullscreen, idle periods and a second device or tab
+    const sessionScore =
+        (eventCounts.FULLSCREEN_EXIT || 0) * 2 +
+        (eventCounts.INACTIVITY || 0) * 1 +
+        (eventCounts.MULTI_SESSION || 0) * 10
+
     // Copy/paste scenario score (if analysis is available)
     const copyPasteScore = copyPasteAnalysis
         ? (copyPasteAnalysis.suspiciousPairs || 0) * 3 +
         (copyPasteAnalysis.strongPairs || 0) * 7
         : 0
 
-    return baseScore + copyPasteScore
+    return baseScore + sessionScore + copyPasteScore
 }
@@ -0,0 +1,62 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getQuestionTotalPoints } from '@/lib/question-bank/snapshot'
+import { drawAttemptQuestionSelection, type AttemptQuestionSelection } from '@/lib/question-pools'
+import { drawAttemptParameterValues, type AttemptParameterValues } from '@/lib/question-parameters'
+
+/**
+ * Draw the pool questions of a new attempt. The seed depends on the exam and
+ * the student only, so the draw is reproducible (e.g. after an attempt reset).
+ */
+export async function drawQuestionSelectionForAttempt(
+    examId: string,
+    studentId: string
+): Promise<AttemptQuestionSelection | null> {
+    const sections = await prisma.examSection.findMany({
+        where: { examId },
+        select: {
+            id: true,
+            poolDrawCount: true,
+            poolStratifyBy: true,
+            questions: {
+                select: {
+                    id: true,
+                    maxPoints: true,
+                    segments: { select: { maxPoints: true } },
+                    bankItem: { select: { difficulty: true } },
+                },
+                orderBy: { order: 'asc' },
+            },
+        },
+        orderBy: { order: 'asc' },
+    })
+
+    return drawAttemptQuestionSelection(
+        sections.map((section) => ({
+            id: section.id,
+            poolDrawCount: section.poolDrawCount,
+            poolStratifyBy: section.poolStratifyBy,
+            questions: section.questions.map((question) => ({
+                id: question.id,
+                totalPoints: getQuestionTotalPoints(question.maxPoints, question.segments),
+                difficulty: question.bankItem?.difficulty ?? null,
+            })),
+        })),
+        `${examId}:${studentId}`
+    )
+}
+
+/**
+ * Draw the values of the parameterized questions of a new attempt, with the
+ * same exam + student seed as the pool draw.
+ */
+export async function drawParameterValuesForAttempt(
+    examId: string,
+    studentId: string
+): Promise<AttemptParameterValues | null> {
+    const questions = await prisma.question.findMany({
+        where: { section: { examId }, parameters: { not: Prisma.DbNull } },
+        select: { id: true, parameters: true },
+    })
+    return drawAttemptParameterValues(questions, `${examId}:${studentId}`)
+}
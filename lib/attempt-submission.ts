@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { scoreMultipleChoiceAnswer } from '@/lib/actions/exam-taking'
+import { enqueueCodeGrading, isCodeGradingAvailable } from '@/lib/grading/code-jobs'
+import { scoreAnswerKeyAnswers } from '@/lib/grading/answer-key'
+import { publishProctorMessage } from '@/lib/proctoring/liveBus'
+
+/**
+ * What a submission needs loaded: the exam questions and the answers with their questions
+ */
+export const submissionAttemptInclude = {
+    exam: {
+        include: {
+            sections: {
+                include: {
+                    questions: {
+                        include: {
+                            segments: true
+                        }
+                    }
+                }
+            }
+        }
+    },
+    answers: {
+        include: {
+            segments: true,
+            question: {
+                include: {
+                    segments: true
+                }
+            }
+        }
+    }
+} satisfies Prisma.AttemptInclude
+
+export type SubmissionAttempt = Prisma.AttemptGetPayload<{ include: typeof submissionAttemptInclude }>
+
+/**
+ * Submit an in-progress attempt: auto-score MCQ and answer-key questions, mark the
+ * attempt SUBMITTED, queue the grading of TEXT and CODE answers and tell the live
+ * proctoring console. Used by the student's submission and by the proctor's forced one.
+ * The caller checks permissions, the deadline and the attempt status. Returns null when
+ * the attempt was submitted in the meantime.
+ */
+export async function finalizeAttemptSubmission(attempt: SubmissionAttempt) {
+    // Process MCQ auto-scoring
+    const mcqScores: Array<{
+        questionId: string
+        answerId: string
+        score: number
+        isCorrect: boolean
+    }> = []
+
+    let totalAutoScoredPoints = 0
+
+    for (const answer of attempt.answers) {
+        const question = answer.question
+
+        if (question.type === 'MCQ') {
+            // Build map of student answers for this question
+            const studentAnswers = new Map<string, string>()
+            for (const seg of answer.segments) {
+                studentAnswers.set(seg.segmentId, seg.content)
+            }
+
+            // Score the MCQ
+            const scoreResult = await scoreMultipleChoiceAnswer(
+                {
+                    id: question.id,
+                    maxPoints: question.maxPoints,
+                    requireAllCorrect: question.requireAllCorrect,
+                    segments: question.segments.map(s => ({
+                        id: s.id,
+                        maxPoints: s.maxPoints,
+                        isCorrect: s.isCorrect
+                    }))
+                },
+                studentAnswers
+            )
+
+            mcqScores.push({
+                questionId: question.id,
+                answerId: answer.id,
+                score: scoreResult.score,
+                isCorrect: scoreResult.isCorrect
+            })
+
+            totalAutoScoredPoints += scoreResult.score
+        }
+    }
+
+    // NUMERIC, MATH_EXPRESSION and graph-keyed answers are checked against their answer key
+    const answerKeyScores = scoreAnswerKeyAnswers(attempt.answers, attempt)
+    for (const answerKeyScore of answerKeyScores) {
+        totalAutoScoredPoints += answerKeyScore.score
+    }
+
+    // Execute submission in transaction
+    const result = await prisma.$transaction(async (tx) => {
+        // Only the request that moves the attempt out of IN_PROGRESS goes on:
+        // a concurrent submission (student and proctor) must not grade it twice
+        const claimed = await tx.attempt.updateMany({
+            where: { id: attempt.id, status: 'IN_PROGRESS' },
+            data: {
+                status: 'SUBMITTED',
+                submittedAt: new Date()
+            }
+        })
+        if (claimed.count === 0) {
+            return null
+        }
+        const updatedAttempt = await tx.attempt.findUniqueOrThrow({ where: { id: attempt.id } })
+
+        // Create Grade records for MCQ answers
+        for (const mcqScore of mcqScores) {
+            // Check if grade already exists
+            const existingGrade = await tx.grade.findUnique({
+                where: { answerId: mcqScore.answerId }
+            })
+
+            if (!existingGrade) {
+                await tx.grade.create({
+                    data: {
+                        answerId: mcqScore.answerId,
+                        score: mcqScore.score,
+                        feedback: mcqScore.isCorrect
+                            ? 'Correct answer'
+                            : 'Incorrect answer',
+                        aiRationale: 'AUTO_SCORED_MCQ', // Flag indicating auto-scored
+                        isOverridden: false,
+                        gradedByUserId: null // null indicates automatic grading
+                    }
+                })
+            }
+        }
+
+        for (const answerKeyScore of answerKeyScores) {
+            const existingGrade = await tx.grade.findUnique({
+                where: { answerId: answerKeyScore.answerId }
+            })
+
+            if (!existingGrade) {
+                await tx.grade.create({
+                    data: {
+                        answerId: answerKeyScore.answerId,
+                        score: answerKeyScore.score,
+                        feedback: answerKeyScore.feedback,
+                        aiRationale: answerKeyScore.aiRationale,
+                        isOverridden: false,
+                        gradedByUserId: null
+                    }
+                })
+            }
+        }
+
+        // Create grading task for TEXT questions (Phase 4 placeholder)
+        // CODE answers only need one when the code-grading worker is unavailable
+        const hasTextQuestions = attempt.answers.some(
+            a => a.question.type === 'TEXT'
+                || (a.question.type === 'CODE' && !isCodeGradingAvailable())
+        )
+
+        if (hasTextQuestions) {
+            await tx.gradingTask.create({
+                data: {
+                    attemptId: attempt.id,
+                    status: 'PENDING'
+                }
+            })
+        }
+
+        return updatedAttempt
+    })
+
+    if (!result) {
+        return null
+    }
+
+    await publishProctorMessage(attempt.examId, {
+        type: 'status',
+        attemptId: attempt.id,
+        status: 'submitted',
+        at: (result.submittedAt ?? new Date()).toISOString()
+    })
+
+    let codeJobCount = 0
+    try {
+        codeJobCount = await enqueueCodeGrading(
+            attempt.id,
+            attempt.answers.filter(a => a.question.type === 'CODE')
+        )
+    } catch (error) {
+        // The submission is saved; CODE answers can still be graded manually
+        console.error('[Submission] Failed to enqueue code grading', error)
+    }
+
+    return {
+        attempt: result,
+        autoScoring: {
+            mcqCount: mcqScores.length,
+            answerKeyCount: answerKeyScores.length,
+            totalAutoScoredPoints,
+            codeJobCount
+        }
+    }
+}
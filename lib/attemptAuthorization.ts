@@ -18,6 +18,8 @@ type AttemptAccessAction =
     | 'enqueueGrading'
     | 'viewResults'
     | 'viewGrading'
+    | 'intervene'
+    | 'restoreAnswer'
 
 const isAdminRole = (role: string) =>
     role === 'ADMIN' || role === 'SCHOOL_ADMIN' || role === 'PLATFORM_ADMIN'
@@ -75,6 +77,8 @@ export function canAccessAttemptAction(
         case 'viewAntiCheat':
         case 'enqueueGrading':
         case 'viewGrading':
+        case 'intervene':
+        case 'restoreAnswer':
             if (isAdminRole(sessionUser.role)) {
                 return true
             }
@@ -38,13 +38,18 @@ export async function assertAttemptContentEditable(
     // For non-admins, check attempt status
     const attempt = await prisma.attempt.findUnique({
         where: { id: attemptId },
-        select: { status: true, studentId: true }
+        select: { status: true, studentId: true, paperLayout: true }
     })
 
     if (!attempt) {
         throw new Error(`Attempt ${attemptId} not found`)
     }
 
+    // Paper copies are filled in by the scan-in, not online
+    if (attempt.paperLayout !== null) {
+        throw new AttemptNotEditableError('Attempt content comes from scanned paper copies')
+    }
+
     // Only IN_PROGRESS attempts are editable
     if (attempt.status !== 'IN_PROGRESS') {
         throw new AttemptNotEditableError(
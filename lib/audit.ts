@@ -9,19 +9,43 @@ export type AuditAction =
     | 'LOGIN_FAIL'
     | 'GRADE_UPDATE'
     | 'GRADE_HARMONIZE'
+    | 'REGRADE_REQUEST_CREATE'
+    | 'REGRADE_REQUEST_RESOLVE'
+    | 'GRADING_ASSIGN'
+    | 'GRADING_IDENTITY_REVEAL'
+    | 'DOUBLE_GRADING_MARK'
+    | 'GRADE_RECONCILE'
+    | 'AI_CALIBRATION_RUN'
+    | 'PROCTOR_INTERVENTION'
+    | 'ANSWER_RESTORE'
     | 'EXAM_PUBLISH'
     | 'EXAM_UNPUBLISH'
     | 'EXAM_CREATE'
     | 'EXAM_DELETE'
     | 'EXPORT_CSV'
     | 'EXPORT_PDF'
+    | 'PAPER_COPIES_EXPORT'
+    | 'PAPER_SCAN_UPLOAD'
     | 'SETTING_UPDATE'
+    | 'AI_PROMPT_ACTIVATE'
     | 'ENROLLMENT_CREATE'
     | 'ENROLLMENT_DELETE'
     | 'COURSE_CREATE'
     | 'COURSE_UPDATE'
+    | 'CLASS_CREATE'
+    | 'CLASS_UPDATE'
+    | 'CLASS_ARCHIVE'
+    | 'ACCOMMODATION_CREATE'
+    | 'ACCOMMODATION_UPDATE'
+    | 'ACCOMMODATION_DELETE'
+    | 'ACCESSIBILITY_UPDATE'
+    | 'QUESTION_BANK_CREATE'
+    | 'QUESTION_BANK_UPDATE'
+    | 'QUESTION_BANK_DELETE'
     | 'INSTITUTION_CREATE'
     | 'INSTITUTION_UPDATE'
+    | 'SCIM_TOKEN_CREATE'
+    | 'SCIM_TOKEN_REVOKE'
 
 type AuditParams = {
     action: AuditAction
@@ -6,6 +6,7 @@ import { prisma } from "@/lib/prisma"
 import bcrypt from "bcryptjs"
 import { safeJson } from "@/lib/logging"
 import { resolveInstitutionIdFromCookieValue } from "@/lib/institutionCookie"
+import { consumeLtiHandoff } from "@/lib/lti/platform"
 import { getClientIdentifier, hashRateLimitKey, rateLimit } from "@/lib/rateLimit"
 import type { UserRole } from "@prisma/client"
 
@@ -147,6 +148,39 @@ export const buildAuthOptions = async (institutionCookieValue?: string): Promise
                     return null
                 }
 
+                return {
+                    id: user.id,
+                    email: user.email,
+                    name: user.name,
+                    role: user.role,
+                    institutionId: user.institutionId
+                }
+            }
+        }),
+        // LTI launches: exchanges the short-lived token issued by /api/lti/launch, once
+        CredentialsProvider({
+            id: "lti",
+            name: "LTI",
+            credentials: {
+                token: { label: "Token", type: "text" }
+            },
+            async authorize(credentials) {
+                if (!credentials?.token) {
+                    return null
+                }
+
+                let userId: string
+                try {
+                    userId = (await consumeLtiHandoff(credentials.token)).userId
+                } catch {
+                    return null
+                }
+
+                const user = await prisma.user.findUnique({ where: { id: userId } })
+                if (!user || user.archivedAt) {
+                    return null
+                }
+
                 return {
                     id: user.id,
                     email: user.email,
@@ -224,6 +224,16 @@ function normalizeSegment(segment: Partial<ContentSegment>, fallback: 'text' | '
         }
     }
 
+    if (segment?.type === 'image') {
+        const image = segment as Extract<ContentSegment, { type: 'image' }>
+        return {
+            id: segment.id || createSegmentId(),
+            type: 'image',
+            url: sanitizeText(image.url),
+            alt: sanitizeText(image.alt),
+        }
+    }
+
     if (segment?.type === 'text') {
         return {
             id: segment.id || createSegmentId(),
@@ -8,6 +8,7 @@ type CorrectionReleaseInfo = {
     gradesReleased: boolean
     gradesReleasedAt: Date | null
     endAt: Date | null
+    releasedAt: Date | null
     isReleased: boolean
     canSendManually: boolean
 }
@@ -45,6 +46,10 @@ export function getCorrectionReleaseInfo(params: {
 
     const isReleased = gradesReleased || Boolean(gradesReleasedAt) || scheduledReached
     const canSendManually = Boolean(computedEndAt && now >= computedEndAt && !isReleased)
+    // When students first got their results: manual release, else the scheduled date that was reached
+    const releasedAt = gradesReleasedAt
+        ?? (releaseAt && now >= releaseAt ? releaseAt : null)
+        ?? (releaseOnEnd && computedEndAt && now >= computedEndAt ? computedEndAt : null)
 
     return {
         releaseOnEnd,
@@ -52,6 +57,7 @@ export function getCorrectionReleaseInfo(params: {
         gradesReleased,
         gradesReleasedAt,
         endAt: computedEndAt,
+        releasedAt,
         isReleased,
         canSendManually,
     }
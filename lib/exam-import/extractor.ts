@@ -1,34 +1,35 @@
-import { zodResponseFormat } from 'openai/helpers/zod'
-import { getOpenAIClient, GRADING_MODEL } from '@/lib/grading/openai-client'
+import { getLLMProvider } from '@/lib/grading/llm-settings'
 import { ExamExtractionSchema, type ExamExtraction } from './schemas'
 import { downloadFile } from '@/lib/storage/minio'
 import { logAIInteraction } from '@/lib/grading/ai-logger'
 
 /**
- * Extract exam structure from PDF using GPT-4o
+ * Extract exam structure from PDF using the institution's LLM provider
  *
- * Uses GPT-4o's native PDF vision capabilities to analyze exam documents
- * and extract structured data (questions, types, points, correction guidelines).
+ * Relies on the model's native PDF input (GPT-4o and other vision models) to analyze
+ * exam documents and extract structured data (questions, types, points, correction guidelines).
  *
  * @param params.pdfKey - MinIO object key for the PDF file
+ * @param params.institutionId - Institution whose AI provider is used (platform default otherwise)
  * @param params.userId - Optional user ID for logging
  * @returns Structured exam extraction with questions, types, and metadata
- * @throws Error if OpenAI is not configured or API call fails
+ * @throws Error if no AI provider is configured or the call fails
  */
 export async function extractExamFromPDF(params: {
   pdfKey: string
+  institutionId?: string | null
   userId?: string
 }): Promise<ExamExtraction> {
   const startTime = Date.now()
-  const openai = await getOpenAIClient()
+  const provider = await getLLMProvider(params.institutionId)
 
   // Download PDF and convert to base64 for inline sending
-  // (presigned URLs point to localhost which OpenAI cannot access)
+  // (presigned URLs point to localhost which the provider cannot access)
   const pdfBuffer = await downloadFile(params.pdfKey)
   const pdfBase64 = pdfBuffer.toString('base64')
   const pdfDataUrl = `data:application/pdf;base64,${pdfBase64}`
 
-  // System prompt - Guide GPT-4o on hierarchical exercise extraction with rich content
+  // System prompt - Guide the model on hierarchical exercise extraction with rich content
   const systemPrompt = `Tu es un assistant specialise dans l'extraction de structure d'examens.
 
 Analyse le PDF et extrais la structure HIERARCHIQUE de l'examen.
@@ -91,43 +92,37 @@ Quand le PDF contient des figures, graphiques, schemas ou photos :
   let tokensOutput: number | undefined
 
   try {
-    const completion = await openai.chat.completions.parse({
-      model: GRADING_MODEL, // gpt-4o supports PDF vision
+    const completion = await provider.generateStructured({
+      schema: ExamExtractionSchema,
+      schemaName: 'exam_extraction',
       messages: [
         { role: 'system', content: systemPrompt },
         {
           role: 'user',
           content: [
             { type: 'text', text: userPrompt },
-            {
-              type: 'file',
-              file: {
-                filename: 'exam.pdf',
-                file_data: pdfDataUrl,
-              }
-            } as never // SDK types may not include 'file' content type yet
+            { type: 'file', filename: 'exam.pdf', dataUrl: pdfDataUrl }
           ]
         }
       ],
-      response_format: zodResponseFormat(ExamExtractionSchema, 'exam_extraction'),
       temperature: 0.1, // Low temperature for more consistent extraction
-      max_tokens: 8000
+      maxTokens: 8000
     })
 
-    rawResponse = JSON.stringify(completion.choices[0]?.message)
-    tokensInput = completion.usage?.prompt_tokens
-    tokensOutput = completion.usage?.completion_tokens
+    rawResponse = completion.rawResponse
+    tokensInput = completion.tokensInput
+    tokensOutput = completion.tokensOutput
 
-    const parsed = completion.choices[0]?.message?.parsed
+    const parsed = completion.output
     if (!parsed) {
-      throw new Error('Failed to parse exam extraction response from OpenAI')
+      throw new Error(`Failed to parse exam extraction response from ${provider.model}`)
     }
 
     // Log successful interaction
     const durationMs = Date.now() - startTime
     await logAIInteraction({
       operation: 'PDF_IMPORT',
-      model: GRADING_MODEL,
+      model: provider.model,
       systemPrompt,
       userPrompt,
       rawResponse,
@@ -144,7 +139,7 @@ Quand le PDF contient des figures, graphiques, schemas ou photos :
     const durationMs = Date.now() - startTime
     await logAIInteraction({
       operation: 'PDF_IMPORT',
-      model: GRADING_MODEL,
+      model: provider.model,
       systemPrompt,
       userPrompt,
       rawResponse,
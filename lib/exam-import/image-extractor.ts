@@ -40,7 +40,7 @@ const SCALE = RENDER_DPI / 72 // PDF units are 72 DPI
  */
 let _mupdf: typeof import('mupdf') | null = null
 
-async function getMupdf() {
+export async function getMupdf() {
   if (!_mupdf) {
     _mupdf = await import('mupdf')
   }
@@ -50,7 +50,7 @@ async function getMupdf() {
 /**
  * Render a single PDF page to a PNG buffer using MuPDF WASM.
  */
-async function renderPage(
+export async function renderPage(
   mupdf: typeof import('mupdf'),
   doc: InstanceType<typeof import('mupdf').Document>,
   pageNumber: number
@@ -76,7 +76,7 @@ async function renderPage(
  * @param bbox - Bounding box as percentages (0–100)
  * @returns Cropped PNG buffer
  */
-async function cropRegion(
+export async function cropRegion(
   pagePng: Buffer,
   pageWidth: number,
   pageHeight: number,
@@ -59,6 +59,7 @@ export async function getExamPermissions(examId: string, user: SessionUser, opti
         where: {
             userId: user.id,
             role: 'TEACHER',
+            archivedAt: null,
             class: { courseId: exam.courseId, archivedAt: null },
         },
         select: {
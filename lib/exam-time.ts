@@ -23,3 +23,171 @@ export const getExamEndAt = (
 
     return new Date(start.getTime() + durationMinutes * 60 * 1000)
 }
+
+// --- Accommodations (tiers-temps, sessions séparées) ---
+
+export type AccommodationOverrides = {
+    durationMultiplier?: number | null
+    extraMinutes?: number | null
+    startAt?: DateInput
+    endAt?: DateInput
+    lateStartGraceMinutes?: number | null
+}
+
+export type AccommodationCandidate = AccommodationOverrides & {
+    userId?: string | null
+    classId?: string | null
+    examId?: string | null
+}
+
+export type ExamTimingSource = {
+    startAt: DateInput
+    endAt?: DateInput
+    durationMinutes: number | null | undefined
+}
+
+export type EffectiveExamWindow = {
+    startAt: Date | null
+    endAt: Date | null
+    durationMinutes: number | null
+    lateStartGraceMinutes: number
+    isAccommodated: boolean
+}
+
+const OVERRIDE_FIELDS: (keyof AccommodationOverrides)[] = [
+    'durationMultiplier',
+    'extraMinutes',
+    'startAt',
+    'endAt',
+    'lateStartGraceMinutes',
+]
+
+const toDate = (value: DateInput) => {
+    if (!value) return null
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+}
+
+// Exam-specific beats course-wide, then student beats class.
+const accommodationRank = (candidate: AccommodationCandidate) =>
+    (candidate.examId ? 2 : 0) + (candidate.userId ? 1 : 0)
+
+/**
+ * Merge every accommodation that applies to a student into one set of overrides.
+ * Each field is taken from the most specific accommodation that defines it, so a
+ * course-wide tiers-temps still applies when an exam-specific entry only moves the window.
+ */
+export const resolveAccommodation = (
+    candidates: AccommodationCandidate[]
+): AccommodationOverrides | null => {
+    if (candidates.length === 0) return null
+
+    const ordered = [...candidates].sort((a, b) => accommodationRank(b) - accommodationRank(a))
+    const merged: AccommodationOverrides = {}
+    for (const field of OVERRIDE_FIELDS) {
+        const source = ordered.find((candidate) => candidate[field] !== null && candidate[field] !== undefined)
+        if (source) {
+            (merged as Record<string, unknown>)[field] = source[field]
+        }
+    }
+
+    return Object.keys(merged).length > 0 ? merged : null
+}
+
+/**
+ * Exam window as seen by one student once accommodations are applied.
+ * Extra time pushes the window end back by the same amount, and an individual
+ * start shifts the whole window unless an explicit end is given.
+ */
+export const getEffectiveExamWindow = (
+    exam: ExamTimingSource,
+    accommodation?: AccommodationOverrides | null
+): EffectiveExamWindow => {
+    const baseStart = toDate(exam.startAt)
+    const baseDuration = exam.durationMinutes && exam.durationMinutes > 0 ? exam.durationMinutes : null
+    const baseEnd = getExamEndAt(exam.startAt, exam.durationMinutes, exam.endAt)
+
+    if (!accommodation) {
+        return {
+            startAt: baseStart,
+            endAt: baseEnd,
+            durationMinutes: baseDuration,
+            lateStartGraceMinutes: 0,
+            isAccommodated: false,
+        }
+    }
+
+    const multiplier = accommodation.durationMultiplier && accommodation.durationMultiplier > 0
+        ? accommodation.durationMultiplier
+        : 1
+    const extraMinutes = Math.max(0, accommodation.extraMinutes ?? 0)
+    const durationMinutes = baseDuration !== null
+        // Round away float noise first (100 * 1.1 must stay 110, not 111)
+        ? Math.ceil(Math.round((baseDuration * multiplier + extraMinutes) * 1000) / 1000)
+        : null
+
+    const startAt = toDate(accommodation.startAt) ?? baseStart
+    let endAt = toDate(accommodation.endAt)
+    if (!endAt && baseEnd) {
+        const shiftMs = startAt && baseStart ? startAt.getTime() - baseStart.getTime() : 0
+        const extraMs = durationMinutes !== null && baseDuration !== null
+            ? (durationMinutes - baseDuration) * 60 * 1000
+            : 0
+        endAt = new Date(baseEnd.getTime() + shiftMs + extraMs)
+    }
+
+    return {
+        startAt,
+        endAt,
+        durationMinutes,
+        lateStartGraceMinutes: Math.max(0, accommodation.lateStartGraceMinutes ?? 0),
+        isAccommodated: true,
+    }
+}
+
+// --- Proctor interventions (extension, pause) ---
+
+export type AttemptTimeAdjustments = {
+    extensionMinutes?: number | null
+    pausedAt?: DateInput
+    pausedSeconds?: number | null
+}
+
+/**
+ * Time added to an attempt by the proctor: the extension, the time already spent
+ * paused, and the current pause so far (the deadline moves while paused).
+ */
+export const getAttemptAdjustmentMs = (adjustments: AttemptTimeAdjustments | null | undefined, now: Date = new Date()) => {
+    if (!adjustments) return 0
+    const extensionMs = Math.max(0, adjustments.extensionMinutes ?? 0) * 60 * 1000
+    const pausedMs = Math.max(0, adjustments.pausedSeconds ?? 0) * 1000
+    const pausedAt = toDate(adjustments.pausedAt)
+    const currentPauseMs = pausedAt ? Math.max(0, now.getTime() - pausedAt.getTime()) : 0
+    return extensionMs + pausedMs + currentPauseMs
+}
+
+/**
+ * Deadline of an attempt: its own duration counted from startedAt, capped by the
+ * window end (plus late-start grace, so a late starter keeps part of their time).
+ * Proctor extensions and pauses push it back, past the window end if needed.
+ */
+export const getAttemptDeadline = (
+    window: EffectiveExamWindow,
+    startedAt: DateInput,
+    adjustments?: AttemptTimeAdjustments | null,
+    now: Date = new Date()
+) => {
+    const started = toDate(startedAt)
+    const fromStart = started && window.durationMinutes
+        ? new Date(started.getTime() + window.durationMinutes * 60 * 1000)
+        : null
+    const windowEnd = window.endAt
+        ? new Date(window.endAt.getTime() + window.lateStartGraceMinutes * 60 * 1000)
+        : null
+
+    const deadline = fromStart && windowEnd
+        ? (fromStart < windowEnd ? fromStart : windowEnd)
+        : fromStart ?? windowEnd
+    const adjustmentMs = getAttemptAdjustmentMs(adjustments, now)
+    return deadline && adjustmentMs > 0 ? new Date(deadline.getTime() + adjustmentMs) : deadline
+}
@@ -1,13 +1,16 @@
 import * as Papa from 'papaparse'
 import { prisma } from '@/lib/prisma'
+import { getAttemptQuestionIds } from '@/lib/question-pools'
+import { getAttemptPseudonym } from '@/lib/grading/anonymity'
 
 interface CSVExportOptions {
   examId: string
   classIds?: string[]  // Optional filter by class/subgroup
+  anonymized?: boolean  // 'Copie' pseudonym column instead of student name and email
 }
 
 export async function generateGradesCSV(options: CSVExportOptions): Promise<string> {
-  const { examId, classIds } = options
+  const { examId, classIds, anonymized = false } = options
 
   // Build where clause with optional class filter
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -21,7 +24,7 @@ export async function generateGradesCSV(options: CSVExportOptions): Promise<stri
     const allClassIds = await getClassIdsWithChildren(classIds)
     whereClause.student = {
       enrollments: {
-        some: { classId: { in: allClassIds } }
+        some: { classId: { in: allClassIds }, archivedAt: null }
       }
     }
   }
@@ -51,12 +54,9 @@ export async function generateGradesCSV(options: CSVExportOptions): Promise<stri
   // Build question order map and calculate max points
   const questions = exam.sections.flatMap(s => s.questions)
   const questionMaxPoints: Record<string, number> = {}
-  let totalMaxPoints = 0
 
   questions.forEach(q => {
-    const maxPts = q.segments.reduce((sum, seg) => sum + (seg.maxPoints ?? 0), 0)
-    questionMaxPoints[q.id] = maxPts
-    totalMaxPoints += maxPts
+    questionMaxPoints[q.id] = q.segments.reduce((sum, seg) => sum + (seg.maxPoints ?? 0), 0)
   })
 
   // Fetch attempts with grades
@@ -78,12 +78,18 @@ export async function generateGradesCSV(options: CSVExportOptions): Promise<stri
 
   // Transform to CSV rows
   const rows = attempts.map(attempt => {
-    const row: Record<string, string | number> = {
-      'Etudiant': attempt.student.name || '',
-      'Email': attempt.student.email || ''
-    }
+    const row: Record<string, string | number> = anonymized
+      ? { 'Copie': getAttemptPseudonym(examId, attempt.id) }
+      : {
+          'Etudiant': attempt.student.name || '',
+          'Email': attempt.student.email || ''
+        }
 
     let total = 0
+    let totalMaxPoints = 0
+
+    // Pool sections: each attempt only has the questions drawn for it
+    const attemptQuestionIds = getAttemptQuestionIds(exam.sections, attempt.questionSelection)
 
     // Build answer lookup map (avoids O(n²) .find() in loop)
     const answerByQuestionId = new Map(
@@ -96,6 +102,12 @@ export async function generateGradesCSV(options: CSVExportOptions): Promise<stri
       const score = answer?.grades[0]?.score
       const colName = `Q${idx + 1}`
 
+      if (!attemptQuestionIds.has(q.id)) {
+        row[colName] = '-'  // Not drawn for this student
+        return
+      }
+      totalMaxPoints += questionMaxPoints[q.id]
+
       if (score !== undefined && score !== null) {
         row[colName] = score
         total += score
@@ -110,6 +122,11 @@ export async function generateGradesCSV(options: CSVExportOptions): Promise<stri
     return row
   })
 
+  // Alphabetical order of the real names would hint at identities
+  if (anonymized) {
+    rows.sort((a, b) => String(a['Copie']).localeCompare(String(b['Copie'])))
+  }
+
   // Generate CSV with semicolon delimiter (French locale)
   return Papa.unparse(rows, {
     header: true,
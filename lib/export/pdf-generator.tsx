@@ -4,11 +4,13 @@ import {
   Page,
   Text,
   View,
+  Image,
   StyleSheet,
 } from '@react-pdf/renderer'
 import { latexToReactPdf, parseMathContent, extractSvgDimensions, latexToSvg } from './math-to-svg'
 import { parseContent, segmentsToPlainText } from '@/lib/content'
 import type { ContentSegment } from '@/types/exams'
+import type { PaperCopy } from '@/lib/paper/copies'
 
 // PDF styles
 const styles = StyleSheet.create({
@@ -127,6 +129,59 @@ const styles = StyleSheet.create({
     fontSize: 9,
     color: '#9ca3af',
     textAlign: 'center'
+  },
+  // Paper copies: the header band and answer area match PAPER_ANSWER_REGION (lib/paper/layout.ts)
+  paperPage: {
+    fontSize: 11,
+    fontFamily: 'Helvetica'
+  },
+  paperHeader: {
+    position: 'absolute',
+    top: 16,
+    left: 18,
+    right: 18,
+    height: 70,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderBottom: '1px solid #111827'
+  },
+  paperQr: {
+    width: 64,
+    height: 64
+  },
+  paperBody: {
+    position: 'absolute',
+    top: 96,
+    left: 18,
+    right: 18,
+    bottom: 26
+  },
+  paperAnswerBox: {
+    flexGrow: 1,
+    marginTop: 10,
+    border: '1px solid #9ca3af',
+    borderRadius: 2
+  },
+  paperOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6
+  },
+  paperCheckbox: {
+    width: 10,
+    height: 10,
+    marginRight: 8,
+    border: '1px solid #111827'
+  },
+  paperFooter: {
+    position: 'absolute',
+    bottom: 10,
+    left: 18,
+    right: 18,
+    fontSize: 8,
+    color: '#6b7280',
+    textAlign: 'center'
   }
 })
 
@@ -313,3 +368,46 @@ export function StudentReportDocument({ exam, attempt }: { exam: ExportDocumentP
     </Document>
   )
 }
+
+/**
+ * Printable paper copies: one page per question, QR code in the top-right
+ * corner, the rest of the page left for the handwritten answer
+ */
+export function PaperCopiesDocument({ exam, copies }: { exam: ExportDocumentProps['exam']; copies: PaperCopy[] }) {
+  return (
+    <Document>
+      {copies.flatMap((copy) =>
+        copy.pages.map((page) => (
+          <Page key={`${copy.attemptId}-${page.page}`} size="A4" style={styles.paperPage}>
+            <View style={styles.paperHeader}>
+              <View>
+                <Text style={styles.subheader}>{exam.title}</Text>
+                <Text style={styles.studentName}>{copy.student.name}</Text>
+                <Text style={styles.studentEmail}>
+                  Question {page.question.label} - {page.question.maxPoints} pt{page.question.maxPoints > 1 ? 's' : ''}
+                </Text>
+              </View>
+              {/* eslint-disable-next-line jsx-a11y/alt-text */}
+              <Image src={page.qrDataUrl} style={styles.paperQr} />
+            </View>
+
+            <View style={styles.paperBody}>
+              <MathContent content={page.question.content} />
+              {page.question.options.map((option, index) => (
+                <View key={index} style={styles.paperOption}>
+                  <View style={styles.paperCheckbox} />
+                  <MathContent content={option} />
+                </View>
+              ))}
+              {page.question.type !== 'MCQ' && <View style={styles.paperAnswerBox} />}
+            </View>
+
+            <Text style={styles.paperFooter} fixed>
+              Page {page.page} / {copy.pages.length} - Ne pas ecrire sur le code QR
+            </Text>
+          </Page>
+        ))
+      )}
+    </Document>
+  )
+}
@@ -1,7 +1,17 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { GRADING_SYSTEM_PROMPT, RUBRIC_GENERATION_PROMPT } from './prompts'
 
-export type AIOperation = 'GRADING' | 'RUBRIC_GENERATION' | 'PDF_IMPORT' | 'TEST'
+export type AIOperation = 'GRADING' | 'RUBRIC_GENERATION' | 'PDF_IMPORT' | 'CALIBRATION' | 'TEST'
+
+// An image sent with the prompt: the data itself is not kept, only where it came from
+export type AILogImage = {
+    label: string
+    source: 'question' | 'answer'
+    kind: 'image' | 'graph'
+    ref: string
+    bytes: number
+}
 
 export type AILogEntry = {
     attemptId?: string
@@ -11,6 +21,7 @@ export type AILogEntry = {
     model: string
     systemPrompt: string
     userPrompt: string
+    images?: AILogImage[]
     rawResponse?: string
     score?: number
     feedback?: string
@@ -37,6 +48,7 @@ export async function logAIInteraction(entry: AILogEntry): Promise<void> {
                 model: entry.model,
                 systemPrompt: entry.systemPrompt,
                 userPrompt: entry.userPrompt,
+                images: entry.images?.length ? entry.images : Prisma.DbNull,
                 rawResponse: entry.rawResponse,
                 score: entry.score,
                 feedback: entry.feedback,
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto'
+
+/**
+ * Anonymous (blind) grading: when `anonymousGrading` is set in the exam grading
+ * config, graders see stable pseudonyms instead of student identities until a
+ * teacher explicitly reveals them (`identityRevealedAt`) or results are released.
+ */
+
+type GradingConfig = Record<string, unknown> | null | undefined
+
+export type AnonymityState = {
+    enabled: boolean
+    identityHidden: boolean
+    revealedAt: Date | null
+}
+
+// Server-managed keys: only the reveal endpoint writes them
+const REVEAL_KEYS = ['identityRevealedAt', 'identityRevealedBy'] as const
+
+export function isAnonymousGrading(gradingConfig: GradingConfig): boolean {
+    return gradingConfig?.anonymousGrading === true
+}
+
+export function getAnonymityState(gradingConfig: GradingConfig): AnonymityState {
+    const enabled = isAnonymousGrading(gradingConfig)
+    const revealedAtRaw = typeof gradingConfig?.identityRevealedAt === 'string' ? gradingConfig.identityRevealedAt : null
+    const revealedAt = revealedAtRaw ? new Date(revealedAtRaw) : null
+    const resultsReleased = gradingConfig?.gradesReleased === true || typeof gradingConfig?.gradesReleasedAt === 'string'
+    return {
+        enabled,
+        identityHidden: enabled && !revealedAt && !resultsReleased,
+        revealedAt,
+    }
+}
+
+/** Stable pseudonym of an attempt, the same on every screen and export of the exam. */
+export function getAttemptPseudonym(examId: string, attemptId: string): string {
+    const code = createHash('sha256').update(`${examId}:${attemptId}`).digest('hex').slice(0, 6).toUpperCase()
+    return `Copie ${code}`
+}
+
+/** Student shown to graders: the pseudonym replaces the name, the email and the id are blanked. */
+export function maskStudent<T extends { name: string | null; email: string | null }>(
+    student: T,
+    pseudonym: string,
+    identityHidden: boolean
+): T {
+    if (!identityHidden) return student
+    return { ...student, ...('id' in student ? { id: '' } : {}), name: pseudonym, email: '' } as T
+}
+
+/**
+ * Grading config saved from the exam editor: the reveal keys keep their stored
+ * values, so identities can only be revealed through the audited endpoint.
+ */
+export function preserveRevealKeys(
+    previous: GradingConfig,
+    next: Record<string, unknown> | null
+): Record<string, unknown> | null {
+    if (!next) return next
+    const merged: Record<string, unknown> = { ...next }
+    for (const key of REVEAL_KEYS) {
+        if (previous && key in previous) {
+            merged[key] = previous[key]
+        } else {
+            delete merged[key]
+        }
+    }
+    return merged
+}
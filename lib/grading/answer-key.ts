@@ -0,0 +1,397 @@
+import { graphAnswerKeySchema, graphSegmentSchema, mathExpressionAnswerKeySchema, numericAnswerKeySchema } from '../schemas/exams'
+import { areExpressionsEquivalent, evaluateMathInput } from '../math/expression'
+import { resolveQuestionParameterValues, substituteParameters } from '../question-parameters'
+import { compareGraphs, countGraphElements, getAreaPolygon } from './graph-comparison'
+import { compileExpression } from '../../components/exams/graph-utils'
+import type {
+    AnswerKey,
+    GraphAnswerKey,
+    GraphSegment,
+    MathExpressionAnswerKey,
+    NumericAnswerKey,
+    QuestionParameterValues,
+    QuestionType,
+} from '../../types/exams'
+
+/** Stored in Grade.aiRationale to flag grades computed from the answer key. */
+export const AUTO_SCORED_NUMERIC = 'AUTO_SCORED_NUMERIC'
+export const AUTO_SCORED_MATH_EXPRESSION = 'AUTO_SCORED_MATH_EXPRESSION'
+export const AUTO_SCORED_GRAPH = 'AUTO_SCORED_GRAPH'
+
+export const DEFAULT_UNIT_PENALTY = 0.5
+
+export const DEFAULT_NUMERIC_ANSWER_KEY: NumericAnswerKey = {
+    value: '0',
+    tolerance: 0,
+    toleranceMode: 'absolute',
+    units: [],
+}
+
+export const DEFAULT_MATH_EXPRESSION_ANSWER_KEY: MathExpressionAnswerKey = {
+    expression: 'x',
+    variables: ['x'],
+}
+
+export const DEFAULT_GRAPH_TOLERANCES: Omit<GraphAnswerKey, 'reference'> = {
+    tolerance: 0.25,
+    slopeTolerance: 0.1,
+    areaOverlap: 0.8,
+}
+
+/** Question types scored on submit from their answer key, without AI. */
+export const isAnswerKeyQuestionType = (type: QuestionType | string): type is 'NUMERIC' | 'MATH_EXPRESSION' =>
+    type === 'NUMERIC' || type === 'MATH_EXPRESSION'
+
+export const getDefaultAnswerKey = (type: 'NUMERIC' | 'MATH_EXPRESSION'): AnswerKey =>
+    type === 'NUMERIC' ? DEFAULT_NUMERIC_ANSWER_KEY : DEFAULT_MATH_EXPRESSION_ANSWER_KEY
+
+/** Read Question.answerKey (JSON column) for a NUMERIC question. Returns null when missing or malformed. */
+export const parseNumericAnswerKey = (value: unknown): NumericAnswerKey | null => {
+    const parsed = numericAnswerKeySchema.safeParse(value)
+    return parsed.success ? parsed.data : null
+}
+
+/** Read Question.answerKey (JSON column) for a MATH_EXPRESSION question. Returns null when missing or malformed. */
+export const parseMathExpressionAnswerKey = (value: unknown): MathExpressionAnswerKey | null => {
+    const parsed = mathExpressionAnswerKeySchema.safeParse(value)
+    return parsed.success ? parsed.data : null
+}
+
+/** Read Question.answerKey (JSON column) for a TEXT question answered with a graph. Returns null when missing or malformed. */
+export const parseGraphAnswerKey = (value: unknown): GraphAnswerKey | null => {
+    const parsed = graphAnswerKeySchema.safeParse(value)
+    return parsed.success ? (parsed.data as GraphAnswerKey) : null
+}
+
+export const parseAnswerKey = (type: QuestionType | string, value: unknown) =>
+    type === 'NUMERIC'
+        ? parseNumericAnswerKey(value)
+        : type === 'MATH_EXPRESSION'
+            ? parseMathExpressionAnswerKey(value)
+            : type === 'TEXT'
+                ? parseGraphAnswerKey(value)
+                : null
+
+/**
+ * Whether answers to the question are scored from its answer key instead of the
+ * AI: NUMERIC and MATH_EXPRESSION questions, and TEXT questions with a reference graph.
+ */
+export const isAnswerKeyScored = (question: { type: QuestionType | string; answerKey?: unknown }) =>
+    isAnswerKeyQuestionType(question.type)
+    || (question.type === 'TEXT' && parseGraphAnswerKey(question.answerKey) !== null)
+
+/**
+ * Check that an answer key can score answers: the expected value evaluates
+ * (parameters are replaced by sample values), the reference expression parses.
+ * Returns an error message, or null.
+ */
+export const validateAnswerKey = (
+    type: QuestionType | string,
+    value: unknown,
+    sampleValues: QuestionParameterValues = {}
+): string | null => {
+    if (type === 'NUMERIC') {
+        const key = parseNumericAnswerKey(value)
+        if (!key) return 'Invalid numeric answer key'
+        try {
+            evaluateMathInput(substituteParameters(key.value, sampleValues), sampleValues)
+        } catch (error) {
+            return `Expected value: ${error instanceof Error ? error.message : 'invalid expression'}`
+        }
+        return null
+    }
+    if (type === 'MATH_EXPRESSION') {
+        const key = parseMathExpressionAnswerKey(value)
+        if (!key) return 'Invalid expression answer key'
+        const reference = substituteParameters(key.expression, sampleValues)
+        if (!areExpressionsEquivalent(reference, reference, { variables: key.variables, scope: sampleValues })) {
+            return 'Reference expression cannot be evaluated'
+        }
+        return null
+    }
+    if (type === 'TEXT') {
+        if (value === null || value === undefined) return null
+        const key = parseGraphAnswerKey(value)
+        if (!key) return 'Invalid graph answer key'
+        if (countGraphElements(key.reference) === 0) return 'Reference graph has no function, point, line or area'
+        const invalidFunction = key.reference.functions.find((fn) => !compileExpression(fn.expression))
+        if (invalidFunction) return `Function ${invalidFunction.expression} cannot be evaluated`
+        if (key.reference.areas.some((area) => !getAreaPolygon(area, key.reference))) {
+            return 'A shaded area of the reference graph cannot be computed'
+        }
+        return null
+    }
+    return null
+}
+
+/** First graph drawn in a stored answer (serialized content segments), or null. */
+export const getAnswerGraph = (content: string | null | undefined): GraphSegment | null => {
+    if (!content) return null
+    try {
+        const parsed = JSON.parse(content)
+        if (!Array.isArray(parsed)) return null
+        for (const segment of parsed) {
+            if (segment?.type !== 'graph') continue
+            const graph = graphSegmentSchema.safeParse(segment)
+            if (graph.success) return graph.data as GraphSegment
+        }
+    } catch {
+        // Not JSON: a text answer has no graph
+    }
+    return null
+}
+
+/** Plain text of a stored answer: serialized content segments or a raw string. */
+export const getAnswerText = (content: string | null | undefined) => {
+    if (!content) return ''
+    try {
+        const parsed = JSON.parse(content)
+        if (Array.isArray(parsed)) {
+            return parsed
+                .map((segment: { type?: string; text?: string; latex?: string }) =>
+                    segment?.type === 'math' ? segment.latex ?? '' : segment?.text ?? ''
+                )
+                .join(' ')
+                .trim()
+        }
+    } catch {
+        // Not JSON, use raw string
+    }
+    return content.trim()
+}
+
+const normalizeUnit = (unit: string) =>
+    unit
+        .replace(/\$/g, '')
+        .replace(/\\(?:text|mathrm|operatorname)\{([^}]*)\}/g, '$1')
+        .replace(/\\,|\\;|\\!|\\ /g, '')
+        .replace(/[·⋅]|\\cdot/g, '.')
+        .replace(/\^\{([^}]*)\}/g, '^$1')
+        .replace(/[−–]/g, '-')
+        .replace(/\s+/g, '')
+
+const NUMBER_WITH_UNIT_PATTERN =
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)(?:\s*(?:\*|x|×|\\times|\\cdot)\s*10\s*\^\s*\{?\s*([+-]?\d+)\s*\}?)?\s*(.*)$/
+
+/**
+ * Read a numeric answer: a number (decimal comma, scientific notation and
+ * simple expressions such as 3/4 or \frac{3}{4} accepted) optionally followed
+ * by a unit. Returns null when no number can be read.
+ */
+export const parseNumericAnswer = (raw: string): { value: number; unit: string } | null => {
+    const text = raw
+        .replace(/\$/g, ' ')
+        .replace(/[−–]/g, '-')
+        .replace(/(\d)[\s  ](?=\d{3}\b)/g, '$1')
+        .replace(/(\d),(\d)/g, '$1.$2')
+        .trim()
+    if (!text) return null
+
+    try {
+        return { value: evaluateMathInput(text), unit: '' }
+    } catch {
+        // Not a pure expression: look for a number followed by a unit
+    }
+
+    const match = NUMBER_WITH_UNIT_PATTERN.exec(text)
+    if (!match) return null
+    const value = Number(match[1]) * (match[2] ? 10 ** Number(match[2]) : 1)
+    return Number.isFinite(value) ? { value, unit: match[3].trim() } : null
+}
+
+export type AnswerKeyScore = {
+    score: number
+    isCorrect: boolean
+    feedback: string
+    aiRationale: string
+}
+
+const roundScore = (score: number) => Math.round(score * 100) / 100
+
+const formatNumber = (value: number) => String(Number(value.toPrecision(12)))
+
+/**
+ * Score a NUMERIC answer: full points within tolerance, minus the unit penalty
+ * when units are expected and the student's unit is missing or not accepted.
+ */
+export const scoreNumericAnswer = (params: {
+    answerKey: NumericAnswerKey
+    answer: string
+    maxPoints: number
+    parameterValues?: QuestionParameterValues | null
+}): AnswerKeyScore => {
+    const values = params.parameterValues ?? {}
+    const base = { aiRationale: AUTO_SCORED_NUMERIC }
+
+    let expected: number
+    try {
+        expected = evaluateMathInput(substituteParameters(params.answerKey.value, values), values)
+    } catch {
+        return { ...base, score: 0, isCorrect: false, feedback: 'Réponse attendue invalide : correction manuelle nécessaire.' }
+    }
+
+    const answer = parseNumericAnswer(params.answer)
+    if (!answer) {
+        return {
+            ...base,
+            score: 0,
+            isCorrect: false,
+            feedback: params.answer.trim() ? 'Réponse non numérique.' : 'Aucune réponse.',
+        }
+    }
+
+    const allowedError = params.answerKey.toleranceMode === 'relative'
+        ? Math.abs(expected) * params.answerKey.tolerance / 100
+        : params.answerKey.tolerance
+    // Absorb floating point noise so a zero tolerance still accepts 0.1 + 0.2
+    const withinTolerance = Math.abs(answer.value - expected) <= allowedError + 1e-9 * Math.max(1, Math.abs(expected))
+    if (!withinTolerance) {
+        return { ...base, score: 0, isCorrect: false, feedback: 'Réponse incorrecte.' }
+    }
+
+    const units = (params.answerKey.units ?? []).map(normalizeUnit).filter(Boolean)
+    if (units.length > 0 && !units.includes(normalizeUnit(answer.unit))) {
+        const penalty = params.answerKey.unitPenalty ?? DEFAULT_UNIT_PENALTY
+        return {
+            ...base,
+            score: roundScore(params.maxPoints * (1 - penalty)),
+            isCorrect: false,
+            feedback: `Valeur correcte, mais unité ${answer.unit ? 'incorrecte' : 'manquante'} (attendue : ${params.answerKey.units?.[0]}).`,
+        }
+    }
+
+    return {
+        ...base,
+        score: roundScore(params.maxPoints),
+        isCorrect: true,
+        feedback: `Réponse correcte (${formatNumber(expected)}).`,
+    }
+}
+
+/** Score a MATH_EXPRESSION answer by symbolic equivalence (numerical sampling). */
+export const scoreMathExpressionAnswer = (params: {
+    answerKey: MathExpressionAnswerKey
+    answer: string
+    maxPoints: number
+    parameterValues?: QuestionParameterValues | null
+}): AnswerKeyScore => {
+    const values = params.parameterValues ?? {}
+    const base = { aiRationale: AUTO_SCORED_MATH_EXPRESSION }
+    if (!params.answer.trim()) {
+        return { ...base, score: 0, isCorrect: false, feedback: 'Aucune réponse.' }
+    }
+
+    const isCorrect = areExpressionsEquivalent(
+        substituteParameters(params.answerKey.expression, values),
+        substituteParameters(params.answer, values),
+        { variables: params.answerKey.variables, scope: values }
+    )
+    return {
+        ...base,
+        score: isCorrect ? roundScore(params.maxPoints) : 0,
+        isCorrect,
+        feedback: isCorrect ? 'Expression correcte.' : 'Expression non équivalente à la réponse attendue.',
+    }
+}
+
+/**
+ * Score a graph answer: each element of the reference graph found in the
+ * student's graph earns an equal share of the points. The feedback lists them.
+ */
+export const scoreGraphAnswer = (params: {
+    answerKey: GraphAnswerKey
+    answer: string
+    maxPoints: number
+}): AnswerKeyScore => {
+    const base = { aiRationale: AUTO_SCORED_GRAPH }
+    const graph = getAnswerGraph(params.answer)
+    if (!graph) {
+        return { ...base, score: 0, isCorrect: false, feedback: 'Aucun graphique dans la réponse.' }
+    }
+
+    const comparison = compareGraphs(params.answerKey.reference, graph, params.answerKey)
+    const matched = comparison.items.filter((item) => item.matched).length
+    const isCorrect = comparison.items.length > 0 && matched === comparison.items.length
+    const summary = isCorrect
+        ? 'Graphique conforme à la référence.'
+        : `${matched} élément(s) sur ${comparison.items.length} conforme(s) à la référence.`
+    return {
+        ...base,
+        score: roundScore(params.maxPoints * comparison.ratio),
+        isCorrect,
+        feedback: [summary, ...comparison.items.map((item) => `${item.matched ? '✓' : '✗'} ${item.label} : ${item.detail}.`)].join('\n'),
+    }
+}
+
+/**
+ * Score an answer of a NUMERIC, MATH_EXPRESSION or graph-keyed TEXT question
+ * (the answer is then the serialized content). Returns null for other types, or
+ * when the answer key is missing (manual or AI grading).
+ */
+export const scoreAnswerKeyQuestion = (params: {
+    type: QuestionType | string
+    answerKey: unknown
+    answer: string
+    maxPoints: number
+    parameterValues?: QuestionParameterValues | null
+}): AnswerKeyScore | null => {
+    if (params.type === 'NUMERIC') {
+        const answerKey = parseNumericAnswerKey(params.answerKey)
+        return answerKey ? scoreNumericAnswer({ ...params, answerKey }) : null
+    }
+    if (params.type === 'MATH_EXPRESSION') {
+        const answerKey = parseMathExpressionAnswerKey(params.answerKey)
+        return answerKey ? scoreMathExpressionAnswer({ ...params, answerKey }) : null
+    }
+    if (params.type === 'TEXT') {
+        const answerKey = parseGraphAnswerKey(params.answerKey)
+        return answerKey ? scoreGraphAnswer({ ...params, answerKey }) : null
+    }
+    return null
+}
+
+export type AnswerKeyAnswerScore = AnswerKeyScore & {
+    questionId: string
+    answerId: string
+}
+
+/**
+ * Score the NUMERIC, MATH_EXPRESSION and graph-keyed TEXT answers of a submitted
+ * attempt with the parameter values drawn for the student. Points come from the
+ * question segments.
+ */
+export const scoreAnswerKeyAnswers = (
+    answers: Array<{
+        id: string
+        segments: Array<{ content: string }>
+        question: {
+            id: string
+            type: string
+            answerKey?: unknown
+            parameters?: unknown
+            segments: Array<{ maxPoints: number | null }>
+        }
+    }>,
+    attempt: { parameterValues?: unknown; examId: string; studentId: string }
+): AnswerKeyAnswerScore[] => {
+    const scores: AnswerKeyAnswerScore[] = []
+    for (const answer of answers) {
+        const question = answer.question
+        if (!isAnswerKeyScored(question)) continue
+        // A graph can be drawn in any part of a TEXT answer
+        const content = question.type === 'TEXT'
+            ? answer.segments.map((segment) => segment.content).find((entry) => getAnswerGraph(entry)) ?? ''
+            : getAnswerText(answer.segments[0]?.content)
+        const result = scoreAnswerKeyQuestion({
+            type: question.type,
+            answerKey: question.answerKey,
+            answer: content,
+            maxPoints: question.segments.reduce((sum, segment) => sum + (segment.maxPoints ?? 0), 0),
+            parameterValues: resolveQuestionParameterValues(question, attempt),
+        })
+        if (result) {
+            scores.push({ ...result, questionId: question.id, answerId: answer.id })
+        }
+    }
+    return scores
+}
@@ -0,0 +1,95 @@
+/**
+ * Split of human grading among graders. Assignments are GradingTasks with
+ * `assignedTo` set: per attempt batch (questionId null, the whole copy) or per
+ * question (the same question across all copies).
+ */
+
+export type GraderAssignmentMode = 'ATTEMPTS' | 'QUESTIONS'
+
+export type AssignedTask = {
+    assignedTo: string
+    attemptId: string
+    questionId: string | null
+}
+
+export type GradableAnswer = {
+    attemptId: string
+    questionId: string
+    graded: boolean
+}
+
+export type GraderProgress = {
+    graderId: string
+    assigned: number
+    graded: number
+}
+
+// A grader holds the lock on an answer while the grade editor is open; the
+// client renews it, so a lock that was not renewed in time is stale.
+export const GRADING_LOCK_TTL_MS = 2 * 60 * 1000
+
+/**
+ * Split attempts into contiguous batches, one per grader, sizes differing by at most one.
+ */
+export function splitIntoBatches<T>(items: T[], graderIds: string[]): Map<string, T[]> {
+    const batches = new Map<string, T[]>()
+    if (graderIds.length === 0) return batches
+    const baseSize = Math.floor(items.length / graderIds.length)
+    const remainder = items.length % graderIds.length
+    let start = 0
+    graderIds.forEach((graderId, index) => {
+        const size = baseSize + (index < remainder ? 1 : 0)
+        batches.set(graderId, items.slice(start, start + size))
+        start += size
+    })
+    return batches
+}
+
+export function getAssignmentMode(tasks: Pick<AssignedTask, 'questionId'>[]): GraderAssignmentMode | null {
+    if (tasks.length === 0) return null
+    return tasks.some((task) => task.questionId !== null) ? 'QUESTIONS' : 'ATTEMPTS'
+}
+
+/** Whether an answer falls in the scope of a task (whole attempt, or the task's question). */
+export function isAnswerInTask(task: Omit<AssignedTask, 'assignedTo'>, answer: Pick<GradableAnswer, 'attemptId' | 'questionId'>): boolean {
+    return task.attemptId === answer.attemptId && (task.questionId === null || task.questionId === answer.questionId)
+}
+
+/** Graded / assigned answers per grader. */
+export function computeGraderProgress(tasks: AssignedTask[], answers: GradableAnswer[]): GraderProgress[] {
+    const answersByAttempt = new Map<string, GradableAnswer[]>()
+    for (const answer of answers) {
+        const list = answersByAttempt.get(answer.attemptId) ?? []
+        list.push(answer)
+        answersByAttempt.set(answer.attemptId, list)
+    }
+
+    const scopes = new Map<string, Map<string, GradableAnswer>>()
+    for (const task of tasks) {
+        const scope = scopes.get(task.assignedTo) ?? new Map<string, GradableAnswer>()
+        for (const answer of answersByAttempt.get(task.attemptId) ?? []) {
+            if (isAnswerInTask(task, answer)) {
+                scope.set(`${answer.attemptId}:${answer.questionId}`, answer)
+            }
+        }
+        scopes.set(task.assignedTo, scope)
+    }
+
+    return [...scopes.entries()].map(([graderId, scope]) => {
+        const scoped = [...scope.values()]
+        return {
+            graderId,
+            assigned: scoped.length,
+            graded: scoped.filter((answer) => answer.graded).length,
+        }
+    })
+}
+
+/** Holder of a live grading lock, or null when the answer is free (or the lock is stale). */
+export function getActiveLockHolder(
+    lock: { gradingLockedBy: string | null; gradingLockedAt: Date | null },
+    now = new Date()
+): string | null {
+    if (!lock.gradingLockedBy || !lock.gradingLockedAt) return null
+    return now.getTime() - lock.gradingLockedAt.getTime() < GRADING_LOCK_TTL_MS ? lock.gradingLockedBy : null
+}
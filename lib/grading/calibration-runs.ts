@@ -0,0 +1,312 @@
+import { prisma } from '@/lib/prisma'
+import { parseContent } from '@/lib/content'
+import { resolveQuestionParameterValues, substituteParametersDeep } from '@/lib/question-parameters'
+import type { ContentSegment } from '@/types/exams'
+import { gradeAnswer } from './grader'
+import { getPrompt } from './ai-logger'
+import { getLLMProvider } from './llm-settings'
+import { getDivergenceThreshold } from './inter-rater'
+import { parseRubricCriteria } from './criteria'
+import { segmentsToGradingText, type GradingVisual } from './grading-visuals'
+import {
+    computeCalibrationReport,
+    sampleGoldenSet,
+    type CalibrationReport,
+    type CalibrationResult,
+} from './calibration'
+
+const GRADING_PROMPT_KEY = 'GRADING_SYSTEM'
+const GRADABLE_STATUSES = ['SUBMITTED', 'GRADING_IN_PROGRESS', 'GRADED'] as const
+
+export type StoredCalibrationReport = CalibrationReport & {
+    ungradedCount: number // Golden set answers without a teacher grade yet
+    failedCount: number // Answers the AI call failed on
+}
+
+export type PromptOption = { id: string | null; label: string; activatedAt: Date | null }
+
+/** Teacher grade: set by hand, or an AI grade a teacher has overridden */
+function isTeacherGrade(grade: { gradedByUserId: string | null; isOverridden: boolean } | undefined) {
+    return Boolean(grade && (grade.gradedByUserId !== null || grade.isOverridden))
+}
+
+async function getQuestionLabels(examId: string): Promise<Map<string, string>> {
+    const sections = await prisma.examSection.findMany({
+        where: { examId },
+        orderBy: { order: 'asc' },
+        select: { questions: { orderBy: { order: 'asc' }, select: { id: true, customLabel: true } } },
+    })
+    return new Map(sections
+        .flatMap((section) => section.questions)
+        .map((question, index) => [question.id, question.customLabel || `Q${index + 1}`]))
+}
+
+/** Grading prompts a calibration can run with: the active one first, then the candidate versions */
+export async function getGradingPromptOptions(): Promise<PromptOption[]> {
+    const [active, versions] = await Promise.all([
+        prisma.aIPromptConfig.findUnique({ where: { key: GRADING_PROMPT_KEY } }),
+        prisma.aIPromptVersion.findMany({
+            where: { key: GRADING_PROMPT_KEY },
+            orderBy: { createdAt: 'desc' },
+            select: { id: true, label: true, activatedAt: true },
+        }),
+    ])
+    return [
+        { id: null, label: active?.isActive ? `Prompt actif (v${active.version})` : 'Prompt par defaut', activatedAt: null },
+        ...versions,
+    ]
+}
+
+/** Sample answers of the exam's open questions into a new golden set */
+export async function createCalibrationSet(params: {
+    examId: string
+    name: string
+    perQuestion: number
+    questionIds?: string[]
+    userId: string
+}) {
+    const { examId, name, perQuestion, questionIds, userId } = params
+    const answers = await prisma.answer.findMany({
+        where: {
+            attempt: { examId, status: { in: [...GRADABLE_STATUSES] } },
+            question: { type: 'TEXT', ...(questionIds?.length ? { id: { in: questionIds } } : {}) },
+        },
+        select: { id: true, questionId: true },
+    })
+    const sample = sampleGoldenSet(answers, perQuestion)
+
+    return prisma.calibrationSet.create({
+        data: {
+            examId,
+            name,
+            createdBy: userId,
+            items: { create: sample.map((answer) => ({ answerId: answer.id })) },
+        },
+    })
+}
+
+export async function deleteCalibrationSet(setId: string): Promise<void> {
+    await prisma.calibrationSet.delete({ where: { id: setId } })
+}
+
+/** Golden sets of the exam with their grading progress and runs, newest first */
+export async function getCalibrationOverview(examId: string) {
+    const [sets, prompts, questionLabels] = await Promise.all([
+        prisma.calibrationSet.findMany({
+            where: { examId },
+            orderBy: { createdAt: 'desc' },
+            select: {
+                id: true,
+                name: true,
+                createdAt: true,
+                items: {
+                    select: {
+                        answer: {
+                            select: {
+                                id: true,
+                                attemptId: true,
+                                questionId: true,
+                                grades: { select: { gradedByUserId: true, isOverridden: true } },
+                            },
+                        },
+                    },
+                },
+                runs: {
+                    orderBy: { createdAt: 'asc' },
+                    select: { id: true, promptVersionId: true, promptLabel: true, model: true, report: true, createdAt: true },
+                },
+            },
+        }),
+        getGradingPromptOptions(),
+        getQuestionLabels(examId),
+    ])
+
+    return {
+        prompts,
+        sets: sets.map((set) => ({
+            id: set.id,
+            name: set.name,
+            createdAt: set.createdAt,
+            items: set.items.map(({ answer }) => ({
+                answerId: answer.id,
+                attemptId: answer.attemptId,
+                questionLabel: questionLabels.get(answer.questionId) ?? '',
+                teacherGraded: isTeacherGrade(answer.grades[0]),
+            })),
+            runs: set.runs.map((run) => ({ ...run, report: run.report as StoredCalibrationReport })),
+        })),
+    }
+}
+
+/**
+ * Grade the golden set's teacher-graded answers with the AI and store the report.
+ * Runs synchronously: golden sets are capped at MAX_GOLDEN_SET_SIZE answers.
+ * Returns null when no answer of the set has a teacher grade yet.
+ */
+export async function runCalibration(params: {
+    setId: string
+    promptVersionId: string | null
+    institutionId: string | null
+    userId: string
+}) {
+    const { setId, promptVersionId, institutionId, userId } = params
+
+    const set = await prisma.calibrationSet.findUnique({
+        where: { id: setId },
+        select: {
+            examId: true,
+            exam: { select: { gradingConfig: true } },
+            items: {
+                select: {
+                    answer: {
+                        include: {
+                            question: { include: { segments: { include: { rubric: true }, orderBy: { order: 'asc' } } } },
+                            segments: true,
+                            attempt: true,
+                            grades: true,
+                        },
+                    },
+                },
+            },
+        },
+    })
+    if (!set) return null
+
+    const graded = set.items.filter(({ answer }) => isTeacherGrade(answer.grades[0]))
+    if (graded.length === 0) return null
+
+    let promptLabel: string
+    let systemPrompt: string
+    if (promptVersionId) {
+        const version = await prisma.aIPromptVersion.findUniqueOrThrow({ where: { id: promptVersionId } })
+        promptLabel = version.label
+        systemPrompt = version.content
+    } else {
+        const [active] = await getGradingPromptOptions()
+        promptLabel = active.label
+        systemPrompt = await getPrompt(GRADING_PROMPT_KEY)
+    }
+
+    const { model } = await getLLMProvider(institutionId)
+    const questionLabels = await getQuestionLabels(set.examId)
+    const results: CalibrationResult[] = []
+    let failedCount = 0
+
+    for (const { answer } of graded) {
+        const maxPoints = answer.question.segments.reduce((sum, segment) => sum + (segment.maxPoints ?? 0), 0)
+        if (maxPoints <= 0) continue
+
+        // Same grading input as the AI grading worker
+        const parameterValues = resolveQuestionParameterValues(answer.question, answer.attempt)
+        const instantiate = <T>(value: T): T =>
+            parameterValues ? substituteParametersDeep(value, parameterValues) : value
+        const visuals: GradingVisual[] = []
+        const questionContent = segmentsToGradingText(
+            instantiate(parseContent(answer.question.content) as ContentSegment[]),
+            'question',
+            visuals
+        )
+        const studentAnswer = segmentsToGradingText(
+            answer.segments.flatMap((segment) => parseContent(segment.content) as ContentSegment[]),
+            'answer',
+            visuals
+        )
+        const correctionGuidelines = answer.question.segments
+            .filter((segment) => segment.rubric?.criteria)
+            .map((segment) => instantiate(segment.rubric!.criteria))
+            .join('\n\n')
+        const rubric = answer.question.generatedRubric
+            ? JSON.stringify(instantiate(answer.question.generatedRubric))
+            : correctionGuidelines || `Points maximum: ${maxPoints}. Evaluer la justesse et la completude de la reponse.`
+
+        try {
+            const grading = await gradeAnswer({
+                question: questionContent,
+                rubric,
+                studentAnswer: studentAnswer || '(Aucune reponse)',
+                maxPoints,
+                parameterValues,
+                criteria: answer.question.generatedRubric
+                    ? parseRubricCriteria(instantiate(answer.question.generatedRubric))
+                    : null,
+                visuals,
+                institutionId,
+                systemPrompt,
+                operation: 'CALIBRATION',
+                attemptId: answer.attemptId,
+                answerId: answer.id,
+                questionId: answer.questionId,
+                userId,
+            })
+            results.push({
+                answerId: answer.id,
+                attemptId: answer.attemptId,
+                questionId: answer.questionId,
+                questionLabel: questionLabels.get(answer.questionId) ?? '',
+                maxPoints,
+                teacherScore: answer.grades[0].score,
+                aiScore: grading.score,
+                aiFeedback: grading.feedback,
+                aiRationale: grading.aiRationale,
+            })
+        } catch (error) {
+            failedCount++
+            console.error(`[Calibration] AI grading failed for answer ${answer.id}:`, error)
+        }
+    }
+
+    const gradingConfig = set.exam.gradingConfig as Record<string, unknown> | null
+    const report: StoredCalibrationReport = {
+        ...computeCalibrationReport(results, getDivergenceThreshold(gradingConfig)),
+        ungradedCount: set.items.length - graded.length,
+        failedCount,
+    }
+
+    return prisma.calibrationRun.create({
+        data: {
+            setId,
+            promptVersionId,
+            promptLabel,
+            model,
+            results,
+            report,
+            createdBy: userId,
+        },
+    })
+}
+
+/**
+ * Candidate versions of a prompt, with every golden set they were run on and all the
+ * runs of those sets, so each version is compared to the active prompt on the same answers
+ */
+export async function getPromptVersionComparison(key: string) {
+    const versions = await prisma.aIPromptVersion.findMany({
+        where: { key },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, label: true, content: true, createdAt: true, activatedAt: true },
+    })
+
+    const sets = await prisma.calibrationSet.findMany({
+        where: { runs: { some: { promptVersion: { key } } } },
+        orderBy: { createdAt: 'desc' },
+        select: {
+            id: true,
+            name: true,
+            exam: { select: { title: true } },
+            runs: {
+                orderBy: { createdAt: 'asc' },
+                select: { id: true, promptVersionId: true, promptLabel: true, model: true, report: true, createdAt: true },
+            },
+        },
+    })
+
+    return {
+        versions,
+        sets: sets.map((set) => ({
+            id: set.id,
+            name: set.name,
+            examTitle: set.exam.title,
+            runs: set.runs.map((run) => ({ ...run, report: run.report as StoredCalibrationReport })),
+        })),
+    }
+}
@@ -0,0 +1,125 @@
+import { computeAgreementStats, type GradePair } from './inter-rater'
+
+/**
+ * AI grading calibration: teachers grade a golden set of answers by hand, the AI
+ * grades the same answers, and the report measures how far the AI is from the
+ * teachers. Prompt versions are compared by running them on the same golden set.
+ */
+
+export const MAX_GOLDEN_SET_SIZE = 50
+export const WORST_DISAGREEMENT_COUNT = 5
+
+export type CalibrationResult = {
+    answerId: string
+    attemptId: string
+    questionId: string
+    questionLabel: string
+    maxPoints: number
+    teacherScore: number
+    aiScore: number
+    aiFeedback: string
+    aiRationale: string
+}
+
+export type CalibrationQuestionStats = {
+    questionId: string
+    questionLabel: string
+    count: number
+    meanAbsoluteError: number | null
+    bias: number | null
+    agreementRate: number | null
+}
+
+export type CalibrationReport = {
+    count: number
+    meanAbsoluteError: number | null // In points
+    meanRelativeError: number | null // Fraction of the question points
+    bias: number | null // Mean of AI - teacher: positive when the AI is more lenient
+    agreementRate: number | null // Answers within the tolerance
+    correlation: number | null
+    tolerance: number
+    perQuestion: CalibrationQuestionStats[]
+    worst: CalibrationResult[]
+}
+
+function toPair(result: CalibrationResult): GradePair {
+    return { first: result.teacherScore, second: result.aiScore, maxPoints: result.maxPoints }
+}
+
+function meanBias(results: CalibrationResult[]): number | null {
+    if (results.length === 0) return null
+    return results.reduce((sum, result) => sum + (result.aiScore - result.teacherScore), 0) / results.length
+}
+
+/**
+ * Compare AI scores to teacher scores. `tolerance` is the gap, as a fraction of the
+ * question points, under which the AI is considered to agree with the teacher.
+ */
+export function computeCalibrationReport(results: CalibrationResult[], tolerance: number): CalibrationReport {
+    const overall = computeAgreementStats(results.map(toPair), tolerance)
+
+    const byQuestion = new Map<string, CalibrationResult[]>()
+    for (const result of results) {
+        const group = byQuestion.get(result.questionId) ?? []
+        group.push(result)
+        byQuestion.set(result.questionId, group)
+    }
+
+    const perQuestion = [...byQuestion.values()].map((group) => {
+        const stats = computeAgreementStats(group.map(toPair), tolerance)
+        return {
+            questionId: group[0].questionId,
+            questionLabel: group[0].questionLabel,
+            count: group.length,
+            meanAbsoluteError: stats.meanAbsoluteDifference,
+            bias: meanBias(group),
+            agreementRate: stats.agreementRate,
+        }
+    })
+
+    const relativeGap = (result: CalibrationResult) =>
+        result.maxPoints > 0 ? Math.abs(result.aiScore - result.teacherScore) / result.maxPoints : 0
+    const worst = [...results]
+        .filter((result) => result.aiScore !== result.teacherScore)
+        .sort((a, b) => relativeGap(b) - relativeGap(a))
+        .slice(0, WORST_DISAGREEMENT_COUNT)
+
+    return {
+        count: overall.pairCount,
+        meanAbsoluteError: overall.meanAbsoluteDifference,
+        meanRelativeError: overall.meanRelativeDifference,
+        bias: meanBias(results),
+        agreementRate: overall.agreementRate,
+        correlation: overall.correlation,
+        tolerance,
+        perQuestion,
+        worst,
+    }
+}
+
+/**
+ * Pick up to `perQuestion` random answers of each question, at most MAX_GOLDEN_SET_SIZE overall
+ */
+export function sampleGoldenSet<T extends { questionId: string }>(
+    answers: T[],
+    perQuestion: number,
+    random: () => number = Math.random
+): T[] {
+    const byQuestion = new Map<string, T[]>()
+    for (const answer of answers) {
+        const group = byQuestion.get(answer.questionId) ?? []
+        group.push(answer)
+        byQuestion.set(answer.questionId, group)
+    }
+
+    const sample: T[] = []
+    for (const group of byQuestion.values()) {
+        const shuffled = [...group]
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1))
+            ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+        }
+        sample.push(...shuffled.slice(0, perQuestion))
+    }
+    return sample.slice(0, MAX_GOLDEN_SET_SIZE)
+}
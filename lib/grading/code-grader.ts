@@ -0,0 +1,130 @@
+import { codeQuestionConfigSchema } from '../schemas/exams'
+import { runTestSuite } from './code-runner'
+import type {
+    CodeQuestionConfig,
+    CodeTestCase,
+    CodeTestResult,
+    StudentCodeQuestionConfig,
+} from '../../types/exams'
+
+/** Stored in Grade.aiRationale to flag grades produced by the test runner. */
+export const AUTO_SCORED_CODE = 'AUTO_SCORED_CODE'
+
+export const DEFAULT_CODE_CONFIG: CodeQuestionConfig = {
+    language: 'python',
+    starterCode: '',
+    tests: [],
+}
+
+export type CodeGradingResult = {
+    score: number
+    feedback: string
+    aiRationale: string
+    testResults: CodeTestResult[]
+}
+
+/**
+ * Read Question.codeConfig (JSON column). Returns null when it is missing or malformed.
+ */
+export const parseCodeConfig = (value: unknown): CodeQuestionConfig | null => {
+    const parsed = codeQuestionConfigSchema.safeParse(value)
+    return parsed.success ? parsed.data : null
+}
+
+/**
+ * Config sent to students: hidden tests never leave the server.
+ */
+export const toStudentCodeConfig = (config: CodeQuestionConfig | null): StudentCodeQuestionConfig | null => {
+    if (!config) return null
+    const visibleTests = config.tests.filter((test) => !test.hidden)
+    return {
+        ...config,
+        tests: visibleTests,
+        hiddenTestCount: config.tests.length - visibleTests.length,
+    }
+}
+
+const testWeight = (test: Pick<CodeTestCase, 'weight'>) =>
+    typeof test.weight === 'number' && test.weight >= 0 ? test.weight : 1
+
+/**
+ * Score proportional to the (weighted) share of passing tests, rounded to 0.01.
+ */
+export const scoreCodeResults = (
+    results: CodeTestResult[],
+    tests: CodeTestCase[],
+    maxPoints: number
+) => {
+    const totalWeight = tests.reduce((sum, test) => sum + testWeight(test), 0)
+    if (totalWeight <= 0 || maxPoints <= 0) return 0
+
+    const passed = new Set(results.filter((result) => result.passed).map((result) => result.testId))
+    const passedWeight = tests
+        .filter((test) => passed.has(test.id))
+        .reduce((sum, test) => sum + testWeight(test), 0)
+
+    return Math.round((passedWeight / totalWeight) * maxPoints * 100) / 100
+}
+
+const STATUS_LABELS: Record<CodeTestResult['status'], string> = {
+    passed: 'réussi',
+    failed: 'sortie incorrecte',
+    error: "erreur d'exécution",
+    timeout: 'temps limite dépassé',
+}
+
+/**
+ * Student-facing summary. Hidden tests are only counted, never described.
+ */
+export const buildCodeFeedback = (results: CodeTestResult[]) => {
+    if (results.length === 0) {
+        return 'Aucun test défini pour cette question.'
+    }
+
+    const visible = results.filter((result) => !result.hidden)
+    const hidden = results.filter((result) => result.hidden)
+    const passedCount = results.filter((result) => result.passed).length
+
+    const lines = [`Tests réussis : ${passedCount}/${results.length}.`]
+    if (visible.length > 0) {
+        lines.push(`Tests visibles : ${visible.filter((result) => result.passed).length}/${visible.length}.`)
+    }
+    if (hidden.length > 0) {
+        lines.push(`Tests cachés : ${hidden.filter((result) => result.passed).length}/${hidden.length}.`)
+    }
+
+    visible
+        .filter((result) => !result.passed)
+        .forEach((result, index) => {
+            lines.push(`- ${result.name || `Test ${index + 1}`} : ${STATUS_LABELS[result.status]}`)
+        })
+
+    return lines.join('\n')
+}
+
+/**
+ * Run the full suite (hidden tests included) and turn it into a grade.
+ */
+export async function gradeCodeAnswer(params: {
+    config: CodeQuestionConfig
+    code: string
+    maxPoints: number
+}): Promise<CodeGradingResult> {
+    if (!params.code.trim()) {
+        return {
+            score: 0,
+            feedback: 'Aucun code soumis.',
+            aiRationale: AUTO_SCORED_CODE,
+            testResults: [],
+        }
+    }
+
+    const testResults = await runTestSuite(params.config, params.code, { includeHidden: true })
+
+    return {
+        score: scoreCodeResults(testResults, params.config.tests, params.maxPoints),
+        feedback: buildCodeFeedback(testResults),
+        aiRationale: AUTO_SCORED_CODE,
+        testResults,
+    }
+}
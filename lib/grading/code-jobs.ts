@@ -0,0 +1,84 @@
+import { codeGradingQueue } from '../queue'
+import type { CodeTestResult } from '../../types/exams'
+
+type CodeAnswerRef = {
+    id: string
+    questionId: string
+}
+
+// Longest wait for a visible-tests run, queue time included
+export const CODE_RUN_TIMEOUT_MS = 30_000
+const CODE_RUN_POLL_INTERVAL_MS = 250
+
+export class CodeRunUnavailableError extends Error {
+    constructor(message: string = 'Code runner unavailable') {
+        super(message)
+        this.name = 'CodeRunUnavailableError'
+    }
+}
+
+export class CodeRunTimeoutError extends Error {
+    constructor(message: string = 'Code run timed out') {
+        super(message)
+        this.name = 'CodeRunTimeoutError'
+    }
+}
+
+/**
+ * Whether submitted CODE answers can be graded by the code-grading worker.
+ * When false, they stay in the manual grading flow.
+ */
+export const isCodeGradingAvailable = () => codeGradingQueue !== null
+
+/**
+ * Queue one 'grade-code' job per CODE answer of a submitted attempt.
+ * Returns the number of jobs queued (0 when the queue is unavailable).
+ */
+export async function enqueueCodeGrading(attemptId: string, answers: CodeAnswerRef[]) {
+    if (!codeGradingQueue || answers.length === 0) {
+        return 0
+    }
+
+    await codeGradingQueue.addBulk(
+        answers.map((answer) => ({
+            name: 'grade-code',
+            data: { attemptId, answerId: answer.id, questionId: answer.questionId },
+        }))
+    )
+
+    return answers.length
+}
+
+/**
+ * Run a CODE answer against the visible tests of its question in the
+ * code-grading worker and wait for the results.
+ * Student code never runs in the web process.
+ */
+export async function runVisibleTests(questionId: string, code: string): Promise<CodeTestResult[]> {
+    if (!codeGradingQueue) {
+        throw new CodeRunUnavailableError()
+    }
+
+    const job = await codeGradingQueue.add('run-visible-tests', { questionId, code }, {
+        attempts: 1,
+        removeOnComplete: { age: 300 },
+        removeOnFail: { age: 300 },
+    })
+
+    const deadline = Date.now() + CODE_RUN_TIMEOUT_MS
+    while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, CODE_RUN_POLL_INTERVAL_MS))
+        const state = await job.getState()
+        if (state === 'completed') {
+            const finished = await codeGradingQueue.getJob(job.id!)
+            return (finished?.returnvalue ?? []) as CodeTestResult[]
+        }
+        if (state === 'failed') {
+            throw new CodeRunUnavailableError(`Code run job ${job.id} failed`)
+        }
+    }
+
+    // Nobody waits for the results anymore
+    await job.remove().catch(() => undefined)
+    throw new CodeRunTimeoutError()
+}
@@ -0,0 +1,233 @@
+import { spawn } from 'node:child_process'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import type { CodeLanguage, CodeQuestionConfig, CodeTestResult } from '../../types/exams'
+
+/**
+ * Local sandbox for CODE questions.
+ *
+ * Every run gets a fresh temp directory and a child process with a wall-clock
+ * limit, a memory cap, a stripped environment and capped output. This is
+ * process-level isolation only: in production the code-grading worker should
+ * run in its own container without network access.
+ */
+
+export const DEFAULT_TIME_LIMIT_MS = 2000
+export const DEFAULT_MEMORY_LIMIT_MB = 128
+const MAX_OUTPUT_BYTES = 64 * 1024
+// Outputs kept on results (and persisted in Grade.testResults)
+const MAX_STORED_OUTPUT_CHARS = 2000
+
+type RuntimeCommand = { command: string; args: string[] }
+
+type LanguageRuntime = {
+    fileName: string
+    build: (filePath: string, memoryLimitMb: number) => RuntimeCommand
+}
+
+const RUNTIMES: Record<CodeLanguage, LanguageRuntime> = {
+    python: {
+        fileName: 'main.py',
+        // ulimit caps the address space; -I isolates from user site-packages and env vars
+        build: (filePath, memoryLimitMb) => ({
+            command: '/bin/sh',
+            args: [
+                '-c',
+                `ulimit -v ${memoryLimitMb * 1024}; exec "$0" -I "$1"`,
+                process.env.CODE_RUNNER_PYTHON || 'python3',
+                filePath,
+            ],
+        }),
+    },
+    javascript: {
+        fileName: 'main.js',
+        // V8 reserves far more virtual memory than it uses, so cap the heap instead of ulimit
+        build: (filePath, memoryLimitMb) => ({
+            command: process.env.CODE_RUNNER_NODE || process.execPath,
+            args: [`--max-old-space-size=${memoryLimitMb}`, filePath],
+        }),
+    },
+}
+
+export type RunCodeParams = {
+    language: CodeLanguage
+    code: string
+    input: string
+    timeLimitMs?: number
+    memoryLimitMb?: number
+}
+
+export type CodeRunResult = {
+    stdout: string
+    stderr: string
+    exitCode: number | null
+    timedOut: boolean
+    outputTruncated: boolean
+    durationMs: number
+}
+
+/**
+ * Run a single program with the given stdin and collect its output.
+ * Never throws for student errors: crashes, timeouts and oversized output are
+ * reported in the result.
+ */
+export async function runCode(params: RunCodeParams): Promise<CodeRunResult> {
+    const runtime = RUNTIMES[params.language]
+    if (!runtime) {
+        throw new Error(`Unsupported language: ${params.language}`)
+    }
+
+    const timeLimitMs = params.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS
+    const memoryLimitMb = params.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB
+    const workDir = await mkdtemp(path.join(tmpdir(), 'correcta-code-'))
+    const filePath = path.join(workDir, runtime.fileName)
+
+    try {
+        await writeFile(filePath, params.code, 'utf8')
+        const { command, args } = runtime.build(filePath, memoryLimitMb)
+
+        return await new Promise<CodeRunResult>((resolve, reject) => {
+            const startedAt = Date.now()
+            const child = spawn(command, args, {
+                cwd: workDir,
+                env: {
+                    NODE_ENV: 'production',
+                    PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+                    HOME: workDir,
+                    LANG: 'C.UTF-8',
+                    PYTHONDONTWRITEBYTECODE: '1',
+                    PYTHONIOENCODING: 'utf-8',
+                },
+                // Own process group so the whole tree can be killed on timeout
+                detached: true,
+                stdio: ['pipe', 'pipe', 'pipe'],
+            })
+
+            let stdout = ''
+            let stderr = ''
+            let outputBytes = 0
+            let timedOut = false
+            let outputTruncated = false
+            let settled = false
+
+            const killTree = () => {
+                if (child.pid === undefined) return
+                try {
+                    process.kill(-child.pid, 'SIGKILL')
+                } catch {
+                    // Already exited
+                }
+            }
+
+            const timer = setTimeout(() => {
+                timedOut = true
+                killTree()
+            }, timeLimitMs)
+
+            const collect = (target: 'stdout' | 'stderr') => (chunk: Buffer) => {
+                outputBytes += chunk.length
+                if (outputBytes > MAX_OUTPUT_BYTES) {
+                    outputTruncated = true
+                    killTree()
+                    return
+                }
+                if (target === 'stdout') stdout += chunk.toString('utf8')
+                else stderr += chunk.toString('utf8')
+            }
+
+            child.stdout.on('data', collect('stdout'))
+            child.stderr.on('data', collect('stderr'))
+            // Programs that never read stdin close the pipe early
+            child.stdin.on('error', () => undefined)
+
+            child.on('error', (error) => {
+                clearTimeout(timer)
+                if (settled) return
+                settled = true
+                reject(error)
+            })
+
+            child.on('close', (exitCode) => {
+                clearTimeout(timer)
+                if (settled) return
+                settled = true
+                resolve({
+                    stdout,
+                    stderr,
+                    exitCode,
+                    timedOut,
+                    outputTruncated,
+                    durationMs: Date.now() - startedAt,
+                })
+            })
+
+            child.stdin.end(params.input)
+        })
+    } finally {
+        await rm(workDir, { recursive: true, force: true })
+    }
+}
+
+const normalizeOutput = (value: string) =>
+    value
+        .replace(/\r\n/g, '\n')
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .join('\n')
+        .replace(/\n+$/, '')
+
+/**
+ * Outputs match when they are equal line by line, ignoring trailing spaces
+ * and trailing blank lines.
+ */
+export const outputsMatch = (actual: string, expected: string) =>
+    normalizeOutput(actual) === normalizeOutput(expected)
+
+const truncate = (value: string) =>
+    value.length > MAX_STORED_OUTPUT_CHARS ? `${value.slice(0, MAX_STORED_OUTPUT_CHARS)}…` : value
+
+/**
+ * Run the test suite of a CODE question against a submission, one test at a time.
+ * Hidden tests are skipped unless includeHidden is set (grading only).
+ */
+export async function runTestSuite(
+    config: CodeQuestionConfig,
+    code: string,
+    options: { includeHidden: boolean }
+): Promise<CodeTestResult[]> {
+    const tests = options.includeHidden ? config.tests : config.tests.filter((test) => !test.hidden)
+    const results: CodeTestResult[] = []
+
+    for (const test of tests) {
+        const run = await runCode({
+            language: config.language,
+            code,
+            input: test.input,
+            timeLimitMs: config.timeLimitMs,
+            memoryLimitMb: config.memoryLimitMb,
+        })
+
+        const status: CodeTestResult['status'] = run.timedOut
+            ? 'timeout'
+            : run.exitCode !== 0 || run.outputTruncated
+                ? 'error'
+                : outputsMatch(run.stdout, test.expectedOutput)
+                    ? 'passed'
+                    : 'failed'
+
+        results.push({
+            testId: test.id,
+            name: test.name,
+            hidden: test.hidden,
+            status,
+            passed: status === 'passed',
+            durationMs: run.durationMs,
+            stdout: truncate(run.stdout),
+            stderr: truncate(run.stderr),
+            expectedOutput: truncate(test.expectedOutput),
+        })
+    }
+
+    return results
+}
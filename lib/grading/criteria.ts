@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { RubricSchema, type RubricCriterion, type CriterionScore } from './schemas'
+import type { GradeCriterionResult } from '@/types/exams'
+
+/**
+ * Criterion-level grading: the AI scores each criterion of the question's rubric,
+ * the breakdown is stored on the Grade and teachers toggle individual criteria.
+ */
+
+const GradeCriterionResultSchema = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    maxPoints: z.number().min(0),
+    points: z.number(),
+    justification: z.string(),
+})
+
+const roundPoints = (value: number) => Math.round(value * 100) / 100
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+/** Criteria of a generated rubric, null when the question has no usable criteria */
+export function parseRubricCriteria(generatedRubric: unknown): RubricCriterion[] | null {
+    const parsed = RubricSchema.safeParse(generatedRubric)
+    if (!parsed.success) return null
+    const criteria = parsed.data.criteria.filter((criterion) => criterion.points > 0)
+    return criteria.length > 0 ? criteria : null
+}
+
+/** Criterion results stored on a Grade, null when missing or malformed */
+export function parseCriterionResults(value: unknown): GradeCriterionResult[] | null {
+    const parsed = z.array(GradeCriterionResultSchema).safeParse(value)
+    return parsed.success && parsed.data.length > 0 ? parsed.data : null
+}
+
+/**
+ * Match the AI scores to the rubric criteria (by name, then by position) and clamp
+ * each one to its points. Criteria the AI skipped get no points.
+ */
+export function alignCriterionScores(criteria: RubricCriterion[], scores: CriterionScore[]): GradeCriterionResult[] {
+    const byName = new Map(scores.map((score) => [normalizeName(score.criterion), score]))
+    const criterionNames = new Set(criteria.map((criterion) => normalizeName(criterion.name)))
+    // Scores under a name the rubric does not have, taken in order for the unmatched criteria
+    const unmatched = scores.filter((score) => !criterionNames.has(normalizeName(score.criterion)))
+
+    return criteria.map((criterion) => {
+        const score = byName.get(normalizeName(criterion.name)) ?? unmatched.shift()
+        return {
+            name: criterion.name,
+            description: criterion.description,
+            maxPoints: criterion.points,
+            points: score ? roundPoints(Math.min(criterion.points, Math.max(0, score.score))) : 0,
+            justification: score?.justification ?? '',
+        }
+    })
+}
+
+/**
+ * Question score from its criteria, scaled when the rubric total differs from the
+ * question points (rubric generated before the points changed)
+ */
+export function scoreFromCriteria(results: GradeCriterionResult[], maxPoints: number): number {
+    const rubricTotal = results.reduce((sum, result) => sum + result.maxPoints, 0)
+    if (rubricTotal <= 0) return 0
+    const earned = results.reduce((sum, result) => sum + Math.min(result.maxPoints, Math.max(0, result.points)), 0)
+    const score = rubricTotal === maxPoints ? earned : (earned / rubricTotal) * maxPoints
+    return roundPoints(Math.min(maxPoints, Math.max(0, score)))
+}
+
+/** Teacher toggle: a fully met criterion loses its points, any other gets them all */
+export function toggleCriterion(results: GradeCriterionResult[], index: number): GradeCriterionResult[] {
+    return results.map((result, i) => i === index
+        ? { ...result, points: result.points >= result.maxPoints ? 0 : result.maxPoints }
+        : result)
+}
+
+/** Clamp teacher-submitted criterion points to their range */
+export function clampCriterionResults(results: GradeCriterionResult[]): GradeCriterionResult[] {
+    return results.map((result) => ({
+        ...result,
+        points: roundPoints(Math.min(result.maxPoints, Math.max(0, result.points))),
+    }))
+}
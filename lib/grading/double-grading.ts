@@ -0,0 +1,209 @@
+import { prisma } from '@/lib/prisma'
+import { recomputeAttemptStatus } from '@/lib/attemptStatus'
+import { getAnonymityState, getAttemptPseudonym, maskStudent } from '@/lib/grading/anonymity'
+import {
+    computeAgreementStats,
+    getDivergenceThreshold,
+    isDivergent,
+    sampleAttemptIds,
+    type AgreementStats,
+} from '@/lib/grading/inter-rater'
+
+export type DoubleGradingSelection =
+    | { mode: 'ATTEMPTS'; attemptIds: string[] }
+    | { mode: 'QUESTIONS'; questionIds: string[] }
+    | { mode: 'SAMPLE'; percentage: number }
+
+export type DoubleGradingItem = {
+    answerId: string
+    attemptId: string
+    student: { name: string | null; email: string }
+    question: { id: string; label: string; content: string; maxPoints: number }
+    grades: { graderId: string | null; graderName: string | null; score: number; feedback: string | null }[]
+    divergent: boolean
+    finalGrade: { score: number; feedback: string | null } | null
+    reconciledAt: Date | null
+}
+
+const GRADABLE_STATUSES = ['SUBMITTED', 'GRADING_IN_PROGRESS', 'GRADED'] as const
+
+/** Mark answers of submitted copies for two independent graders. Returns the number of newly marked answers. */
+export async function markForDoubleGrading(examId: string, selection: DoubleGradingSelection): Promise<number> {
+    let attemptIds: string[] | undefined
+    if (selection.mode === 'SAMPLE') {
+        const attempts = await prisma.attempt.findMany({
+            where: { examId, status: { in: [...GRADABLE_STATUSES] } },
+            select: { id: true },
+        })
+        attemptIds = sampleAttemptIds(attempts.map((attempt) => attempt.id), selection.percentage)
+    } else if (selection.mode === 'ATTEMPTS') {
+        attemptIds = selection.attemptIds
+    }
+
+    const { count } = await prisma.answer.updateMany({
+        where: {
+            doubleGrading: false,
+            attempt: { examId, status: { in: [...GRADABLE_STATUSES] } },
+            ...(attemptIds ? { attemptId: { in: attemptIds } } : {}),
+            ...(selection.mode === 'QUESTIONS' ? { questionId: { in: selection.questionIds } } : {}),
+        },
+        data: { doubleGrading: true },
+    })
+    return count
+}
+
+/** Unmark the answers no grader has started on. */
+export async function clearDoubleGradingMarks(examId: string): Promise<number> {
+    const { count } = await prisma.answer.updateMany({
+        where: {
+            doubleGrading: true,
+            reconciledAt: null,
+            attempt: { examId },
+            independentGrades: { none: {} },
+        },
+        data: { doubleGrading: false },
+    })
+    return count
+}
+
+/** Double-graded answers still waiting for the lead grader's final score. */
+export async function countPendingReconciliations(examId: string): Promise<number> {
+    return prisma.answer.count({
+        where: { doubleGrading: true, reconciledAt: null, attempt: { examId } },
+    })
+}
+
+/**
+ * Store the grader's own independent grade of a double-graded answer.
+ * The question-level grade is left untouched until reconciliation.
+ */
+export async function saveIndependentGrade(params: {
+    answerId: string
+    graderId: string
+    score: number
+    feedback: string | null
+}) {
+    const { answerId, graderId, score, feedback } = params
+    return prisma.grade.upsert({
+        where: { independentAnswerId_gradedByUserId: { independentAnswerId: answerId, gradedByUserId: graderId } },
+        update: { score, feedback },
+        create: { independentAnswerId: answerId, gradedByUserId: graderId, score, feedback },
+    })
+}
+
+/** Final score set by the lead grader: becomes the question-level grade of the answer. */
+export async function reconcileAnswer(params: {
+    answerId: string
+    attemptId: string
+    leadGraderId: string
+    score: number
+    feedback: string | null
+}) {
+    const { answerId, attemptId, leadGraderId, score, feedback } = params
+    const [grade] = await prisma.$transaction([
+        prisma.grade.upsert({
+            where: { answerId },
+            update: { score, feedback, gradedByUserId: leadGraderId, isOverridden: true },
+            create: { answerId, score, feedback, gradedByUserId: leadGraderId },
+        }),
+        prisma.answer.update({
+            where: { id: answerId },
+            data: { reconciledAt: new Date(), reconciledBy: leadGraderId },
+        }),
+    ])
+    await recomputeAttemptStatus(attemptId)
+    return grade
+}
+
+/** Double-graded answers of the exam with their independent grades, and the inter-rater agreement. */
+export async function getDoubleGradingOverview(examId: string): Promise<{
+    threshold: number
+    stats: AgreementStats
+    questions: { id: string; label: string }[]
+    items: DoubleGradingItem[]
+}> {
+    const exam = await prisma.exam.findUnique({
+        where: { id: examId },
+        select: {
+            gradingConfig: true,
+            sections: {
+                orderBy: { order: 'asc' },
+                select: {
+                    questions: {
+                        orderBy: { order: 'asc' },
+                        select: { id: true, customLabel: true },
+                    },
+                },
+            },
+        },
+    })
+    if (!exam) throw new Error('Exam not found')
+
+    const gradingConfig = exam.gradingConfig as Record<string, unknown> | null
+    const threshold = getDivergenceThreshold(gradingConfig)
+    const { identityHidden } = getAnonymityState(gradingConfig)
+    const questions = exam.sections
+        .flatMap((section) => section.questions)
+        .map((question, index) => ({ id: question.id, label: question.customLabel || `Q${index + 1}` }))
+    const questionLabels = new Map(questions.map((question) => [question.id, question.label]))
+
+    const answers = await prisma.answer.findMany({
+        where: { doubleGrading: true, attempt: { examId } },
+        select: {
+            id: true,
+            attemptId: true,
+            reconciledAt: true,
+            attempt: { select: { student: { select: { name: true, email: true } } } },
+            question: {
+                select: { id: true, content: true, segments: { select: { maxPoints: true } } },
+            },
+            grades: { select: { score: true, feedback: true } },
+            independentGrades: {
+                orderBy: { createdAt: 'asc' },
+                select: { gradedByUserId: true, score: true, feedback: true },
+            },
+        },
+    })
+
+    const graderIds = [...new Set(answers.flatMap((answer) =>
+        answer.independentGrades.map((grade) => grade.gradedByUserId).filter((id): id is string => id !== null)))]
+    const graders = graderIds.length > 0
+        ? await prisma.user.findMany({ where: { id: { in: graderIds } }, select: { id: true, name: true, email: true } })
+        : []
+
+    const pairs: { first: number; second: number; maxPoints: number }[] = []
+    const items = answers.map((answer) => {
+        const maxPoints = answer.question.segments.reduce((sum, segment) => sum + (segment.maxPoints || 0), 0)
+        const [first, second] = answer.independentGrades
+        const pair = first && second ? { first: first.score, second: second.score, maxPoints } : null
+        if (pair) pairs.push(pair)
+
+        return {
+            answerId: answer.id,
+            attemptId: answer.attemptId,
+            student: maskStudent(answer.attempt.student, getAttemptPseudonym(examId, answer.attemptId), identityHidden),
+            question: {
+                id: answer.question.id,
+                label: questionLabels.get(answer.question.id) ?? '',
+                content: answer.question.content,
+                maxPoints,
+            },
+            grades: answer.independentGrades.map((grade) => {
+                const grader = graders.find((user) => user.id === grade.gradedByUserId)
+                return {
+                    graderId: grade.gradedByUserId,
+                    graderName: grader ? grader.name || grader.email : null,
+                    score: grade.score,
+                    feedback: grade.feedback,
+                }
+            }),
+            divergent: pair ? isDivergent(pair, threshold) : false,
+            finalGrade: answer.reconciledAt && answer.grades[0]
+                ? { score: answer.grades[0].score, feedback: answer.grades[0].feedback }
+                : null,
+            reconciledAt: answer.reconciledAt,
+        }
+    })
+
+    return { threshold, stats: computeAgreementStats(pairs, threshold), questions, items }
+}
@@ -0,0 +1,119 @@
+import { prisma } from '@/lib/prisma'
+import {
+    computeGraderProgress,
+    splitIntoBatches,
+    type GraderAssignmentMode,
+} from '@/lib/grading/assignment'
+
+export type Grader = { id: string; name: string | null; email: string }
+
+export type GraderProgressSummary = Grader & { assigned: number; graded: number; percentage: number }
+
+const GRADABLE_STATUSES = ['SUBMITTED', 'GRADING_IN_PROGRESS', 'GRADED'] as const
+
+/** Teachers who can be given grading work on the exam: the course teachers and the exam author. */
+export async function getExamGraders(examId: string): Promise<Grader[]> {
+    const exam = await prisma.exam.findUnique({
+        where: { id: examId },
+        select: { courseId: true, authorId: true },
+    })
+    if (!exam) return []
+
+    const users = await prisma.user.findMany({
+        where: {
+            archivedAt: null,
+            OR: [
+                {
+                    enrollments: {
+                        some: { role: 'TEACHER', archivedAt: null, class: { courseId: exam.courseId, archivedAt: null } },
+                    },
+                },
+                ...(exam.authorId ? [{ id: exam.authorId }] : []),
+            ],
+        },
+        select: { id: true, name: true, email: true },
+    })
+    return users.sort((a, b) => (a.name ?? a.email).localeCompare(b.name ?? b.email))
+}
+
+/** Grading tasks assigned on the exam (unassigned placeholder tasks excluded). */
+export async function getExamAssignedTasks(examId: string) {
+    const tasks = await prisma.gradingTask.findMany({
+        where: { attempt: { examId }, assignedTo: { not: null } },
+        select: { attemptId: true, questionId: true, assignedTo: true },
+    })
+    return tasks.map((task) => ({ ...task, assignedTo: task.assignedTo as string }))
+}
+
+/**
+ * Replace the grader assignments of the exam. Submitted copies are split in
+ * alphabetical batches (ATTEMPTS) or each question goes to one grader (QUESTIONS).
+ */
+export async function assignExamGraders(
+    examId: string,
+    assignment:
+        | { mode: 'ATTEMPTS'; graderIds: string[] }
+        | { mode: 'QUESTIONS'; questions: { questionId: string; graderId: string }[] }
+): Promise<{ mode: GraderAssignmentMode; taskCount: number }> {
+    const attempts = await prisma.attempt.findMany({
+        where: { examId, status: { in: [...GRADABLE_STATUSES] } },
+        select: { id: true, student: { select: { name: true, email: true } } },
+    })
+    const attemptIds = attempts
+        .sort((a, b) => (a.student.name ?? a.student.email).localeCompare(b.student.name ?? b.student.email))
+        .map((attempt) => attempt.id)
+
+    const data = assignment.mode === 'ATTEMPTS'
+        ? [...splitIntoBatches(attemptIds, assignment.graderIds).entries()].flatMap(([graderId, batch]) =>
+            batch.map((attemptId) => ({ attemptId, assignedTo: graderId, questionId: null })))
+        : assignment.questions.flatMap(({ questionId, graderId }) =>
+            attemptIds.map((attemptId) => ({ attemptId, assignedTo: graderId, questionId })))
+
+    await prisma.$transaction([
+        prisma.gradingTask.deleteMany({ where: { attempt: { examId }, assignedTo: { not: null } } }),
+        prisma.gradingTask.createMany({ data: data.map((task) => ({ ...task, status: 'PENDING' as const })) }),
+    ])
+
+    return { mode: assignment.mode, taskCount: data.length }
+}
+
+export async function clearExamGraders(examId: string): Promise<void> {
+    await prisma.gradingTask.deleteMany({ where: { attempt: { examId }, assignedTo: { not: null } } })
+}
+
+/** Graded / assigned answers of each grader of the exam. */
+export async function getExamGraderProgress(examId: string): Promise<GraderProgressSummary[]> {
+    const tasks = await getExamAssignedTasks(examId)
+    if (tasks.length === 0) return []
+
+    const [answers, graders] = await Promise.all([
+        prisma.answer.findMany({
+            where: { attemptId: { in: [...new Set(tasks.map((task) => task.attemptId))] } },
+            select: { attemptId: true, questionId: true, grades: { select: { id: true }, take: 1 } },
+        }),
+        prisma.user.findMany({
+            where: { id: { in: [...new Set(tasks.map((task) => task.assignedTo))] } },
+            select: { id: true, name: true, email: true },
+        }),
+    ])
+
+    const progress = computeGraderProgress(tasks, answers.map((answer) => ({
+        attemptId: answer.attemptId,
+        questionId: answer.questionId,
+        graded: answer.grades.length > 0,
+    })))
+
+    return progress
+        .map((entry) => {
+            const grader = graders.find((user) => user.id === entry.graderId)
+            return {
+                id: entry.graderId,
+                name: grader?.name ?? null,
+                email: grader?.email ?? '',
+                assigned: entry.assigned,
+                graded: entry.graded,
+                percentage: entry.assigned > 0 ? Math.round((entry.graded / entry.assigned) * 100) : 100,
+            }
+        })
+        .sort((a, b) => (a.name ?? a.email).localeCompare(b.name ?? b.email))
+}
@@ -1,14 +1,35 @@
-import { zodResponseFormat } from 'openai/helpers/zod'
-import { getOpenAIClient, GRADING_MODEL } from './openai-client'
-import { GradingResponseSchema, type GradingResponse } from './schemas'
+import { getLLMProvider } from './llm-settings'
+import type { LLMCompletion, LLMMessage } from './llm-provider'
+import {
+    CriterionGradingResponseSchema,
+    GradingResponseSchema,
+    type CriterionGradingResponse,
+    type GradingResponse,
+    type RubricCriterion,
+} from './schemas'
 import { buildGradingUserPrompt } from './prompts'
-import { logAIInteraction, getPrompt } from './ai-logger'
+import { logAIInteraction, getPrompt, type AIOperation } from './ai-logger'
+import { alignCriterionScores, scoreFromCriteria } from './criteria'
+import { loadGradingImages } from './grading-images'
+import type { GradingVisual } from './grading-visuals'
+import type { GradeCriterionResult } from '@/types/exams'
 
 export type GradeAnswerParams = {
     question: string
     rubric: string
     studentAnswer: string
     maxPoints: number
+    // Values drawn for the student when the question is parameterized
+    parameterValues?: Record<string, number> | null
+    // Structured rubric criteria: each one is scored and the score is their sum
+    criteria?: RubricCriterion[] | null
+    // Images and graphs numbered in the question and answer text, sent to vision models
+    visuals?: GradingVisual[]
+    // Institution whose AI provider grades the answer (platform default otherwise)
+    institutionId?: string | null
+    // Candidate system prompt replacing the active one (calibration runs)
+    systemPrompt?: string
+    operation?: Extract<AIOperation, 'GRADING' | 'CALIBRATION'>
     // Optional metadata for logging
     attemptId?: string
     answerId?: string
@@ -16,58 +37,99 @@ export type GradeAnswerParams = {
     userId?: string
 }
 
+export type GradeAnswerResult = GradingResponse & {
+    // Per-criterion breakdown, null when the rubric has no structured criteria
+    criteria: GradeCriterionResult[] | null
+}
+
 /**
- * Grades a student answer using GPT-4 with structured output
+ * Grades a student answer with the institution's LLM provider, using structured output
  *
  * @param params - Question content, rubric (JSON string), student answer, and max points
- * @returns Grading response with score, feedback, and AI rationale
- * @throws Error if OpenAI is not configured or API call fails
+ * @returns Grading response with score, feedback, AI rationale and criterion breakdown
+ * @throws Error if no AI provider is configured or the call fails
  */
-export async function gradeAnswer(params: GradeAnswerParams): Promise<GradingResponse> {
+export async function gradeAnswer(params: GradeAnswerParams): Promise<GradeAnswerResult> {
     const startTime = Date.now()
-    const openai = await getOpenAIClient()
+    const provider = await getLLMProvider(params.institutionId)
 
-    // Get system prompt (custom or default)
-    const systemPrompt = await getPrompt('GRADING_SYSTEM')
+    // Get system prompt (candidate, custom or default)
+    const systemPrompt = params.systemPrompt ?? await getPrompt('GRADING_SYSTEM')
+
+    // Models without vision grade from the text: graphs are described there, images are not
+    const visuals = params.visuals ?? []
+    const images = visuals.length > 0 && provider.supportsVision ? await loadGradingImages(visuals) : []
+    const sentLabels = new Set(images.map((image) => image.label))
 
     const userPrompt = buildGradingUserPrompt({
         question: params.question,
         rubric: params.rubric,
         studentAnswer: params.studentAnswer,
-        maxPoints: params.maxPoints
+        maxPoints: params.maxPoints,
+        parameterValues: params.parameterValues,
+        criteria: params.criteria,
+        images: images.map((image) => ({ label: image.label, source: image.source })),
+        missingImages: visuals
+            .filter((visual) => visual.kind === 'image' && !sentLabels.has(visual.label))
+            .map((visual) => visual.label)
     })
+    const loggedImages = images.map(({ label, source, kind, ref, bytes }) => ({ label, source, kind, ref, bytes }))
 
     let rawResponse: string | undefined
     let tokensInput: number | undefined
     let tokensOutput: number | undefined
 
     try {
-        const completion = await openai.chat.completions.parse({
-            model: GRADING_MODEL,
-            messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userPrompt }
-            ],
-            response_format: zodResponseFormat(GradingResponseSchema, 'grading'),
-            temperature: 0, // Deterministic grading
-            max_tokens: 1000
-        })
+        const messages: LLMMessage[] = [
+            { role: 'system', content: systemPrompt },
+            {
+                role: 'user',
+                content: images.length > 0
+                    ? [
+                        { type: 'text', text: userPrompt },
+                        ...images.map((image) => ({ type: 'image' as const, dataUrl: image.dataUrl }))
+                    ]
+                    : userPrompt
+            }
+        ]
+        const completion: LLMCompletion<GradingResponse | CriterionGradingResponse> = params.criteria
+            ? await provider.generateStructured({
+                schema: CriterionGradingResponseSchema,
+                schemaName: 'criterion_grading',
+                messages,
+                temperature: 0,
+                maxTokens: 2000 // Room for one justification per criterion
+            })
+            : await provider.generateStructured({
+                schema: GradingResponseSchema,
+                schemaName: 'grading',
+                messages,
+                temperature: 0, // Deterministic grading
+                maxTokens: 1000
+            })
 
-        rawResponse = JSON.stringify(completion.choices[0]?.message)
-        tokensInput = completion.usage?.prompt_tokens
-        tokensOutput = completion.usage?.completion_tokens
+        rawResponse = completion.rawResponse
+        tokensInput = completion.tokensInput
+        tokensOutput = completion.tokensOutput
 
-        const parsed = completion.choices[0]?.message?.parsed
+        const parsed = completion.output
         if (!parsed) {
-            throw new Error('Failed to parse grading response from OpenAI')
+            throw new Error(`Failed to parse grading response from ${provider.model}`)
         }
 
-        // Clamp score to valid range [0, maxPoints]
-        const clampedScore = Math.min(params.maxPoints, Math.max(0, parsed.score))
+        // With criteria the score is their sum, otherwise clamped to [0, maxPoints]
+        const criteria = params.criteria && 'criteria' in parsed
+            ? alignCriterionScores(params.criteria, parsed.criteria)
+            : null
+        const score = criteria
+            ? scoreFromCriteria(criteria, params.maxPoints)
+            : Math.min(params.maxPoints, Math.max(0, parsed.score))
 
-        const result: GradingResponse = {
-            ...parsed,
-            score: clampedScore
+        const result: GradeAnswerResult = {
+            score,
+            feedback: parsed.feedback,
+            aiRationale: parsed.aiRationale,
+            criteria
         }
 
         // Log successful interaction
@@ -76,10 +138,11 @@ export async function gradeAnswer(params: GradeAnswerParams): Promise<GradingRes
             attemptId: params.attemptId,
             answerId: params.answerId,
             questionId: params.questionId,
-            operation: 'GRADING',
-            model: GRADING_MODEL,
+            operation: params.operation ?? 'GRADING',
+            model: provider.model,
             systemPrompt,
             userPrompt,
+            images: loggedImages,
             rawResponse,
             score: result.score,
             feedback: result.feedback,
@@ -99,10 +162,11 @@ export async function gradeAnswer(params: GradeAnswerParams): Promise<GradingRes
             attemptId: params.attemptId,
             answerId: params.answerId,
             questionId: params.questionId,
-            operation: 'GRADING',
-            model: GRADING_MODEL,
+            operation: params.operation ?? 'GRADING',
+            model: provider.model,
             systemPrompt,
             userPrompt,
+            images: loggedImages,
             rawResponse,
             tokensInput,
             tokensOutput,
@@ -0,0 +1,71 @@
+import sharp from 'sharp'
+import { downloadFile, getObjectKeyFromUrl } from '../storage/minio'
+import { renderGraphSvg, type GradingVisual, type GradingVisualSource } from './grading-visuals'
+
+/**
+ * Image inputs of AI grading: uploaded images are read from our storage (never
+ * from an external URL) and graphs rasterized, then downscaled to what vision
+ * models actually look at.
+ */
+
+const MAX_IMAGE_SIDE = 1600
+const MAX_DATA_URL_BYTES = 10 * 1024 * 1024
+
+export type GradingImage = {
+    label: string
+    source: GradingVisualSource
+    kind: GradingVisual['kind']
+    // Storage key of an uploaded image, graph id of a rendered graph
+    ref: string
+    dataUrl: string
+    bytes: number
+}
+
+async function readImage(url: string): Promise<{ buffer: Buffer; ref: string } | null> {
+    const dataUrl = url.match(/^data:image\/[\w.+-]+;base64,(.+)$/)
+    if (dataUrl) {
+        const buffer = Buffer.from(dataUrl[1], 'base64')
+        return buffer.length <= MAX_DATA_URL_BYTES ? { buffer, ref: 'data-url' } : null
+    }
+    const key = getObjectKeyFromUrl(url)
+    return key ? { buffer: await downloadFile(key), ref: key } : null
+}
+
+async function toImage(visual: GradingVisual): Promise<Omit<GradingImage, 'label' | 'source' | 'kind'> | null> {
+    if (visual.kind === 'graph') {
+        const png = await sharp(Buffer.from(renderGraphSvg(visual.graph))).png().toBuffer()
+        return { ref: visual.graph.id, dataUrl: `data:image/png;base64,${png.toString('base64')}`, bytes: png.length }
+    }
+
+    const image = await readImage(visual.url)
+    if (!image) return null
+    // Phone photos: apply the EXIF orientation, drop transparency
+    const jpeg = await sharp(image.buffer)
+        .rotate()
+        .resize({ width: MAX_IMAGE_SIDE, height: MAX_IMAGE_SIDE, fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 85 })
+        .toBuffer()
+    return { ref: image.ref, dataUrl: `data:image/jpeg;base64,${jpeg.toString('base64')}`, bytes: jpeg.length }
+}
+
+/**
+ * Load the images of a question and answer. Images that cannot be read (external
+ * URL, missing object, not an image) are skipped: the grading goes on with the text.
+ */
+export async function loadGradingImages(visuals: GradingVisual[]): Promise<GradingImage[]> {
+    const images: GradingImage[] = []
+    for (const visual of visuals) {
+        try {
+            const image = await toImage(visual)
+            if (image) {
+                images.push({ label: visual.label, source: visual.source, kind: visual.kind, ...image })
+            } else {
+                console.warn(`[AI Grading] ${visual.label} is not stored on the platform, not sent`)
+            }
+        } catch (error) {
+            console.warn(`[AI Grading] Failed to load ${visual.label}:`, error)
+        }
+    }
+    return images
+}
@@ -0,0 +1,65 @@
+import { prisma } from '@/lib/prisma'
+import { GRADING_LOCK_TTL_MS, getActiveLockHolder } from '@/lib/grading/assignment'
+
+export type GradingLockResult =
+    | { ok: true; lockedAt: Date }
+    | { ok: false; holder: { id: string; name: string | null } }
+
+/**
+ * Take (or renew) the grading lock of an answer. The update only matches when the
+ * answer is free, already held by the user, or held by a stale lock.
+ */
+export async function acquireGradingLock(answerId: string, userId: string): Promise<GradingLockResult> {
+    // Second pass covers a lock released between the update and the holder lookup
+    for (let pass = 0; pass < 2; pass++) {
+        const now = new Date()
+        const staleBefore = new Date(now.getTime() - GRADING_LOCK_TTL_MS)
+        const { count } = await prisma.answer.updateMany({
+            where: {
+                id: answerId,
+                OR: [
+                    { gradingLockedBy: null },
+                    { gradingLockedBy: userId },
+                    { gradingLockedAt: null },
+                    { gradingLockedAt: { lt: staleBefore } },
+                ],
+            },
+            data: { gradingLockedBy: userId, gradingLockedAt: now },
+        })
+        if (count === 1) {
+            return { ok: true, lockedAt: now }
+        }
+
+        const answer = await prisma.answer.findUnique({
+            where: { id: answerId },
+            select: { gradingLockedBy: true, gradingLockedAt: true },
+        })
+        if (!answer) {
+            throw new Error('Answer not found')
+        }
+        const holderId = getActiveLockHolder(answer, now)
+        if (holderId) {
+            const holder = await prisma.user.findUnique({ where: { id: holderId }, select: { id: true, name: true } })
+            return { ok: false, holder: holder ?? { id: holderId, name: null } }
+        }
+    }
+    throw new Error('Could not acquire the grading lock')
+}
+
+/** Release the lock if the user holds it. */
+export async function releaseGradingLock(answerId: string, userId: string): Promise<void> {
+    await prisma.answer.updateMany({
+        where: { id: answerId, gradingLockedBy: userId },
+        data: { gradingLockedBy: null, gradingLockedAt: null },
+    })
+}
+
+/** Other grader holding a live lock on the answer, if any. */
+export async function getOtherLockHolder(answerId: string, userId: string): Promise<string | null> {
+    const answer = await prisma.answer.findUnique({
+        where: { id: answerId },
+        select: { gradingLockedBy: true, gradingLockedAt: true },
+    })
+    const holderId = answer ? getActiveLockHolder(answer) : null
+    return holderId && holderId !== userId ? holderId : null
+}
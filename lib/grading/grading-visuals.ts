@@ -0,0 +1,208 @@
+import {
+    buildCurvePath,
+    buildLinePath,
+    resolvePointPosition,
+    sampleFunction,
+    type GraphCoord,
+} from '../../components/exams/graph-utils'
+import { describeGraph } from '../accessibility/graph-description'
+import { getAreaPolygon } from './graph-comparison'
+import type { ContentSegment, GraphSegment } from '../../types/exams'
+
+/**
+ * Images and graphs of a question or answer, for AI grading. The prompt text
+ * numbers them ("[Image 1]", "[Graphique 2 : ...]") and vision-capable models
+ * receive them as image inputs in the same order, graphs rendered to SVG.
+ * Graphs always carry a text description for models without vision.
+ */
+
+// More images cost tokens without helping: a question with its answer rarely needs them
+export const MAX_GRADING_VISUALS = 8
+
+export type GradingVisualSource = 'question' | 'answer'
+
+export type GradingVisual =
+    | { kind: 'image'; source: GradingVisualSource; label: string; url: string }
+    | { kind: 'graph'; source: GradingVisualSource; label: string; graph: GraphSegment }
+
+/**
+ * Prompt text of content segments. Images and graphs are appended to `visuals`,
+ * numbered after the ones already there, up to MAX_GRADING_VISUALS.
+ */
+export function segmentsToGradingText(
+    segments: ContentSegment[],
+    source: GradingVisualSource,
+    visuals: GradingVisual[]
+): string {
+    const toText = (value: ContentSegment[]): string =>
+        value
+            .map((segment) => {
+                if (segment.type === 'math') return `$${segment.latex}$`
+                if (segment.type === 'table') {
+                    return segment.rows
+                        .map((row) => row.map((cell) => toText(cell)).join('\t'))
+                        .join('\n')
+                }
+                if (segment.type === 'image') {
+                    const alt = segment.alt?.trim() ? ` : ${segment.alt.trim()}` : ''
+                    if (!segment.url || visuals.length >= MAX_GRADING_VISUALS) return `[Image non transmise${alt}]`
+                    const label = `Image ${visuals.length + 1}`
+                    visuals.push({ kind: 'image', source, label, url: segment.url })
+                    return `[${label}${alt}]`
+                }
+                if (segment.type === 'graph') {
+                    const description = describeGraph(segment, 'fr')
+                    if (visuals.length >= MAX_GRADING_VISUALS) return `[Graphique : ${description}]`
+                    const label = `Graphique ${visuals.length + 1}`
+                    visuals.push({ kind: 'graph', source, label, graph: segment })
+                    return `[${label} : ${description}]`
+                }
+                return segment.text
+            })
+            .join('')
+
+    return segments?.length ? toText(segments) : ''
+}
+
+const escapeXml = (value: string) =>
+    value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+// Colors come from the student's graph: anything unusual falls back to the default
+const safeColor = (color: string | undefined, fallback: string) =>
+    color && /^(#[0-9a-f]{3,8}|[a-z]{3,20}|rgba?\([\d.,\s%]+\))$/i.test(color) ? color : fallback
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const finite = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+// Grid and tick values at multiples of the step, thinned out to about `count`
+const axisValues = (min: number, max: number, step: number, count: number) => {
+    if (!(step > 0)) return []
+    const stride = Math.max(1, Math.ceil((max - min) / step / count))
+    const values: number[] = []
+    for (let i = Math.ceil(min / step); i * step <= max; i += stride) {
+        values.push(round(i * step))
+    }
+    return values
+}
+
+/**
+ * Standalone SVG of a graph segment, as the exam page draws it: grid, axes with
+ * graduations, shaded areas, functions, lines, curves, points and texts.
+ * Labels are written as entered (LaTeX source for math labels).
+ */
+export function renderGraphSvg(graph: GraphSegment): string {
+    const axes = graph.axes
+    const width = Math.max(120, finite(graph.width, 480))
+    const height = Math.max(80, finite(graph.height, 280))
+    const xRange = axes.xMax - axes.xMin || 1
+    const yRange = axes.yMax - axes.yMin || 1
+    const px = (point: GraphCoord) => ({
+        x: round(((point.x - axes.xMin) / xRange) * width),
+        y: round(height - ((point.y - axes.yMin) / yRange) * height),
+    })
+    const label = (text: string, at: GraphCoord, color = '#111827') => {
+        const pos = px(at)
+        return `<text x="${pos.x + 4}" y="${pos.y - 4}" font-family="sans-serif" font-size="12" fill="${color}">${escapeXml(text)}</text>`
+    }
+    const stroke = (style: { color?: string; width?: number; dashed?: boolean } | undefined, fallback = '#111827') =>
+        `stroke="${safeColor(style?.color, fallback)}" stroke-width="${finite(style?.width, 1.5)}" fill="none"${style?.dashed ? ' stroke-dasharray="6 4"' : ''}`
+    const parts: string[] = []
+
+    parts.push(`<rect width="${width}" height="${height}" fill="${safeColor(graph.background, '#ffffff')}"/>`)
+
+    const gridStep = finite(axes.gridStep, 1)
+    if (axes.showGrid) {
+        for (const x of axisValues(axes.xMin, axes.xMax, gridStep, 100)) {
+            const pos = px({ x, y: 0 })
+            parts.push(`<line x1="${pos.x}" y1="0" x2="${pos.x}" y2="${height}" stroke="#e5e7eb" stroke-width="1"/>`)
+        }
+        for (const y of axisValues(axes.yMin, axes.yMax, gridStep, 100)) {
+            const pos = px({ x: 0, y })
+            parts.push(`<line x1="0" y1="${pos.y}" x2="${width}" y2="${pos.y}" stroke="#e5e7eb" stroke-width="1"/>`)
+        }
+    }
+
+    // Axes through the origin, or along the border when it is out of view
+    const origin = px({
+        x: Math.min(axes.xMax, Math.max(axes.xMin, 0)),
+        y: Math.min(axes.yMax, Math.max(axes.yMin, 0)),
+    })
+    parts.push(`<line x1="0" y1="${origin.y}" x2="${width}" y2="${origin.y}" stroke="#374151" stroke-width="1.2"/>`)
+    parts.push(`<line x1="${origin.x}" y1="0" x2="${origin.x}" y2="${height}" stroke="#374151" stroke-width="1.2"/>`)
+    for (const x of axisValues(axes.xMin, axes.xMax, finite(axes.xStep, gridStep), 20)) {
+        if (x === 0 || x === axes.xMin || x === axes.xMax) continue
+        const pos = px({ x, y: 0 })
+        parts.push(`<text x="${pos.x}" y="${origin.y + 12}" font-family="sans-serif" font-size="9" fill="#6b7280" text-anchor="middle">${x}</text>`)
+    }
+    for (const y of axisValues(axes.yMin, axes.yMax, finite(axes.yStep, gridStep), 20)) {
+        if (y === 0 || y === axes.yMin || y === axes.yMax) continue
+        const pos = px({ x: 0, y })
+        parts.push(`<text x="${origin.x - 3}" y="${pos.y + 3}" font-family="sans-serif" font-size="9" fill="#6b7280" text-anchor="end">${y}</text>`)
+    }
+    if (axes.xLabel) {
+        parts.push(`<text x="${width - 4}" y="${origin.y - 4}" font-family="sans-serif" font-size="12" fill="#374151" text-anchor="end">${escapeXml(axes.xLabel)}</text>`)
+    }
+    if (axes.yLabel) {
+        parts.push(`<text x="${origin.x + 4}" y="12" font-family="sans-serif" font-size="12" fill="#374151">${escapeXml(axes.yLabel)}</text>`)
+    }
+
+    for (const area of graph.areas) {
+        const polygon = getAreaPolygon(area, graph)
+        if (!polygon) continue
+        const points = polygon.map((point) => px(point)).map((pos) => `${pos.x},${pos.y}`).join(' ')
+        const opacity = Math.max(0, Math.min(1, finite(area.fill?.opacity, 0.18)))
+        parts.push(`<polygon points="${points}" fill="${safeColor(area.fill?.color, '#6366f1')}" fill-opacity="${opacity}" stroke="none"/>`)
+        if (area.label && area.labelPos && area.showLabel !== false) parts.push(label(area.label, area.labelPos))
+    }
+
+    for (const fn of graph.functions) {
+        // Split the curve where it jumps (asymptotes) instead of joining the branches
+        const runs: GraphCoord[][] = [[]]
+        let previous: GraphCoord | null = null
+        for (const point of sampleFunction(fn, axes)) {
+            if (previous && Math.abs(point.y - previous.y) > yRange * 2) runs.push([])
+            runs[runs.length - 1].push(point)
+            previous = point
+        }
+        for (const run of runs.filter((entry) => entry.length >= 2)) {
+            const points = run.map((point) => px(point)).map((pos) => `${pos.x},${pos.y}`).join(' ')
+            parts.push(`<polyline points="${points}" ${stroke(fn.style, '#2563eb')}/>`)
+        }
+        if (fn.labelPos && fn.showLabel !== false) parts.push(label(fn.label || `y = ${fn.expression}`, fn.labelPos))
+    }
+
+    for (const line of graph.lines) {
+        const path = buildLinePath(line, axes, graph)
+        if (!path) continue
+        const start = px(path.start)
+        const end = px(path.end)
+        parts.push(`<line x1="${start.x}" y1="${start.y}" x2="${end.x}" y2="${end.y}" ${stroke(line.style)}/>`)
+        if (line.label && line.labelPos && line.showLabel !== false) parts.push(label(line.label, line.labelPos))
+    }
+
+    for (const curve of graph.curves) {
+        const path = buildCurvePath(curve, axes, graph)
+        const [start, control, end] = [px(path.start), px(path.control), px(path.end)]
+        parts.push(`<path d="M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}" ${stroke(curve.style)}/>`)
+        if (curve.label && curve.labelPos && curve.showLabel !== false) parts.push(label(curve.label, curve.labelPos))
+    }
+
+    for (const point of graph.points) {
+        const coord = resolvePointPosition(point, graph)
+        const pos = px(coord)
+        const color = safeColor(point.color, '#111827')
+        const radius = Math.max(1, Math.min(10, finite(point.size, 4)))
+        parts.push(`<circle cx="${pos.x}" cy="${pos.y}" r="${radius}" fill="${point.filled === false ? '#ffffff' : color}" stroke="${color}" stroke-width="1.5"/>`)
+        if (point.label && point.showLabel !== false) {
+            parts.push(label(point.label, point.labelPos ?? coord, color))
+        }
+    }
+
+    for (const text of graph.texts) {
+        parts.push(label(text.text, { x: text.x, y: text.y }))
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width * 2}" height="${height * 2}" viewBox="0 0 ${width} ${height}">${parts.join('')}</svg>`
+}
@@ -0,0 +1,380 @@
+import { compileExpression, resolvePointPosition, type GraphCoord } from '../../components/exams/graph-utils'
+import {
+    findEnclosingRegion,
+    findFunctionIntersections,
+    type RegionElement,
+} from '../../components/exams/graph-editor/region-detection'
+import type { GraphAnchor, GraphAnswerKey, GraphArea, GraphFunction, GraphLine, GraphSegment } from '../../types/exams'
+
+/**
+ * Structural comparison of a student's graph with the reference graph of an
+ * answer key: each expected function, point, line and shaded area is looked for
+ * in the student's graph. Extra elements drawn by the student are not penalized.
+ */
+
+export type GraphComparisonItem = {
+    kind: 'function' | 'point' | 'line' | 'area'
+    label: string
+    matched: boolean
+    /** What was found, in French (shown in the student feedback) */
+    detail: string
+}
+
+export type GraphComparison = {
+    items: GraphComparisonItem[]
+    /** Share of the expected elements found, from 0 to 1 */
+    ratio: number
+}
+
+type GraphTolerances = Pick<GraphAnswerKey, 'tolerance' | 'slopeTolerance' | 'areaOverlap'>
+
+const FUNCTION_SAMPLES = 60
+// Share of the visible samples that must lie within tolerance for a function to match
+const FUNCTION_MATCH_SHARE = 0.9
+const AREA_SAMPLES = 80
+const AREA_GRID = 60
+const VERTICAL_EPSILON = 1e-9
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100)
+
+const formatCoord = (point: GraphCoord) => `(${formatNumber(point.x)} ; ${formatNumber(point.y)})`
+
+const resolveAnchor = (anchor: GraphAnchor, graph: GraphSegment): GraphCoord => {
+    if (anchor.type === 'point') {
+        const point = graph.points.find((entry) => entry.id === anchor.pointId)
+        return point ? resolvePointPosition(point, graph) : { x: 0, y: 0 }
+    }
+    return { x: anchor.x, y: anchor.y }
+}
+
+/** The line with both ends as coordinates, as the region finder expects */
+const resolveLine = (line: GraphLine, graph: GraphSegment): GraphLine => {
+    const start = resolveAnchor(line.start, graph)
+    const end = resolveAnchor(line.end, graph)
+    return { ...line, start: { type: 'coord', ...start }, end: { type: 'coord', ...end } }
+}
+
+const toEvaluator = (fn: GraphFunction): ((x: number) => number) | null => {
+    const compiled = compileExpression(fn.expression)
+    if (!compiled) return null
+    const offsetX = fn.offsetX ?? 0
+    const offsetY = fn.offsetY ?? 0
+    const scaleY = fn.scaleY ?? 1
+    return (x: number) => {
+        try {
+            return scaleY * compiled(x - offsetX) + offsetY
+        } catch {
+            return NaN
+        }
+    }
+}
+
+const getDomain = (domain: { min?: number; max?: number } | undefined, fallback: { min: number; max: number }) => ({
+    min: typeof domain?.min === 'number' ? domain.min : fallback.min,
+    max: typeof domain?.max === 'number' ? domain.max : fallback.max,
+})
+
+const functionLabel = (fn: GraphFunction) => fn.label?.trim() || `y = ${fn.expression}`
+
+/**
+ * Share of the reference samples, within the visible window, where the candidate
+ * is within tolerance. Samples where the candidate is undefined count as misses.
+ */
+const functionAgreement = (
+    reference: (x: number) => number,
+    candidate: (x: number) => number,
+    domain: { min: number; max: number },
+    graph: GraphSegment,
+    tolerance: number
+) => {
+    let visible = 0
+    let close = 0
+    for (let i = 0; i <= FUNCTION_SAMPLES; i++) {
+        const x = domain.min + ((domain.max - domain.min) * i) / FUNCTION_SAMPLES
+        const expected = reference(x)
+        if (!Number.isFinite(expected) || expected < graph.axes.yMin || expected > graph.axes.yMax) continue
+        visible++
+        const actual = candidate(x)
+        if (Number.isFinite(actual) && Math.abs(actual - expected) <= tolerance) close++
+    }
+    return visible === 0 ? 0 : close / visible
+}
+
+const compareFunctions = (reference: GraphSegment, student: GraphSegment, tolerance: number): GraphComparisonItem[] => {
+    const axesDomain = { min: reference.axes.xMin, max: reference.axes.xMax }
+    const candidates = student.functions
+        .map((fn) => ({ fn, evaluate: toEvaluator(fn), domain: getDomain(fn.domain, axesDomain) }))
+        .filter((candidate) => candidate.evaluate !== null)
+    const used = new Set<string>()
+
+    return reference.functions.map((fn) => {
+        const label = `Fonction ${functionLabel(fn)}`
+        const evaluate = toEvaluator(fn)
+        if (!evaluate) {
+            return { kind: 'function', label, matched: false, detail: 'fonction de référence invalide' }
+        }
+        const domain = getDomain(fn.domain, axesDomain)
+        let best: { id: string; agreement: number } | null = null
+        for (const candidate of candidates) {
+            if (used.has(candidate.fn.id)) continue
+            // Outside its own domain the student's function is not drawn
+            const candidateEvaluate = candidate.evaluate!
+            const agreement = functionAgreement(
+                evaluate,
+                (x) => x >= candidate.domain.min && x <= candidate.domain.max ? candidateEvaluate(x) : NaN,
+                domain,
+                reference,
+                tolerance
+            )
+            if (!best || agreement > best.agreement) best = { id: candidate.fn.id, agreement }
+        }
+        if (best && best.agreement >= FUNCTION_MATCH_SHARE) {
+            used.add(best.id)
+            return { kind: 'function', label, matched: true, detail: 'tracée correctement' }
+        }
+        const detail = !best
+            ? 'absente'
+            : best.agreement > 0
+                ? `courbe trop éloignée (${Math.round(best.agreement * 100)} % des points dans la tolérance)`
+                : 'courbe incorrecte'
+        return { kind: 'function', label, matched: false, detail }
+    })
+}
+
+const comparePoints = (reference: GraphSegment, student: GraphSegment, tolerance: number): GraphComparisonItem[] => {
+    const candidates = student.points.map((point) => ({ id: point.id, position: resolvePointPosition(point, student) }))
+    const used = new Set<string>()
+
+    return reference.points.map((point) => {
+        const expected = resolvePointPosition(point, reference)
+        const label = `Point ${point.label?.trim() || formatCoord(expected)}`
+        let best: { id: string; distance: number } | null = null
+        for (const candidate of candidates) {
+            if (used.has(candidate.id)) continue
+            const distance = Math.hypot(candidate.position.x - expected.x, candidate.position.y - expected.y)
+            if (!best || distance < best.distance) best = { id: candidate.id, distance }
+        }
+        if (best && best.distance <= tolerance) {
+            used.add(best.id)
+            return { kind: 'point', label, matched: true, detail: 'placé correctement' }
+        }
+        return {
+            kind: 'point',
+            label,
+            matched: false,
+            detail: best ? `point le plus proche à ${formatNumber(best.distance)} unité(s)` : 'absent',
+        }
+    })
+}
+
+type ResolvedLine = { line: GraphLine; start: GraphCoord; end: GraphCoord; slope: number }
+
+const toResolvedLine = (line: GraphLine, graph: GraphSegment): ResolvedLine => {
+    const start = resolveAnchor(line.start, graph)
+    const end = resolveAnchor(line.end, graph)
+    const dx = end.x - start.x
+    return { line, start, end, slope: Math.abs(dx) < VERTICAL_EPSILON ? Infinity : (end.y - start.y) / dx }
+}
+
+const slopesMatch = (a: number, b: number, slopeTolerance: number) =>
+    (!Number.isFinite(a) && !Number.isFinite(b))
+    || (Number.isFinite(a) && Number.isFinite(b) && Math.abs(a - b) <= slopeTolerance)
+
+const distanceToLine = (point: GraphCoord, line: ResolvedLine) => {
+    const dx = line.end.x - line.start.x
+    const dy = line.end.y - line.start.y
+    const length = Math.hypot(dx, dy)
+    if (length === 0) return Math.hypot(point.x - line.start.x, point.y - line.start.y)
+    return Math.abs(dy * (point.x - line.start.x) - dx * (point.y - line.start.y)) / length
+}
+
+const distance = (a: GraphCoord, b: GraphCoord) => Math.hypot(a.x - b.x, a.y - b.y)
+
+/** Same carrier line, then the ends that matter for the kind: both for a segment, the origin and direction for a ray */
+const linePositionMatches = (expected: ResolvedLine, candidate: ResolvedLine, tolerance: number) => {
+    if (distanceToLine(expected.start, candidate) > tolerance) return false
+    if (expected.line.kind === 'segment') {
+        return (distance(expected.start, candidate.start) <= tolerance && distance(expected.end, candidate.end) <= tolerance)
+            || (distance(expected.start, candidate.end) <= tolerance && distance(expected.end, candidate.start) <= tolerance)
+    }
+    if (expected.line.kind === 'ray') {
+        const direction = (expected.end.x - expected.start.x) * (candidate.end.x - candidate.start.x)
+            + (expected.end.y - expected.start.y) * (candidate.end.y - candidate.start.y)
+        return distance(expected.start, candidate.start) <= tolerance && direction > 0
+    }
+    return true
+}
+
+const LINE_KIND_LABELS: Record<GraphLine['kind'], string> = {
+    line: 'Droite',
+    segment: 'Segment',
+    ray: 'Demi-droite',
+}
+
+const compareLines = (reference: GraphSegment, student: GraphSegment, tolerances: GraphTolerances): GraphComparisonItem[] => {
+    const candidates = student.lines.map((line) => toResolvedLine(line, student))
+    const used = new Set<string>()
+
+    return reference.lines.map((line) => {
+        const expected = toResolvedLine(line, reference)
+        const label = `${LINE_KIND_LABELS[line.kind]} ${line.label?.trim() || `${formatCoord(expected.start)} - ${formatCoord(expected.end)}`}`
+        const available = candidates.filter((candidate) => !used.has(candidate.line.id))
+        const sameSlope = available.filter((candidate) => slopesMatch(expected.slope, candidate.slope, tolerances.slopeTolerance))
+        const match = sameSlope.find((candidate) => linePositionMatches(expected, candidate, tolerances.tolerance))
+        const kindDone = line.kind === 'segment' ? 'tracé correctement' : 'tracée correctement'
+        if (match) {
+            used.add(match.line.id)
+            return { kind: 'line', label, matched: true, detail: kindDone }
+        }
+        const detail = sameSlope.length > 0
+            ? 'pente correcte, mais position incorrecte'
+            : available.length > 0
+                ? 'pente incorrecte'
+                : 'absent(e)'
+        return { kind: 'line', label, matched: false, detail }
+    })
+}
+
+const sampleBetween = (evaluate: (x: number) => number, domain: { min: number; max: number }) => {
+    const points: GraphCoord[] = []
+    for (let i = 0; i <= AREA_SAMPLES; i++) {
+        const x = domain.min + ((domain.max - domain.min) * i) / AREA_SAMPLES
+        const y = evaluate(x)
+        if (Number.isFinite(y)) points.push({ x, y })
+    }
+    return points
+}
+
+const isTransformed = (fn: GraphFunction) =>
+    (fn.offsetX ?? 0) !== 0 || (fn.offsetY ?? 0) !== 0 || (fn.scaleY ?? 1) !== 1
+
+/**
+ * Polygon of a shaded area: the polygon cached by the editor when there is one,
+ * otherwise rebuilt from its functions, or from the region around its label.
+ */
+export const getAreaPolygon = (area: GraphArea, graph: GraphSegment): GraphCoord[] | null => {
+    if (area.points && area.points.length >= 3) {
+        return area.points.map((anchor) => resolveAnchor(anchor, graph))
+    }
+    const axesDomain = { min: graph.axes.xMin, max: graph.axes.xMax }
+
+    if (area.mode === 'under-function') {
+        const fn = graph.functions.find((entry) => entry.id === area.functionId)
+        const evaluate = fn ? toEvaluator(fn) : null
+        if (!fn || !evaluate) return null
+        const domain = getDomain(area.domain, getDomain(fn.domain, axesDomain))
+        const curve = sampleBetween(evaluate, domain)
+        return curve.length >= 2 ? [{ x: domain.min, y: 0 }, ...curve, { x: domain.max, y: 0 }] : null
+    }
+
+    if (area.mode === 'between-functions') {
+        const fn1 = graph.functions.find((entry) => entry.id === area.functionId)
+        const fn2 = graph.functions.find((entry) => entry.id === area.functionId2)
+        const evaluate1 = fn1 ? toEvaluator(fn1) : null
+        const evaluate2 = fn2 ? toEvaluator(fn2) : null
+        if (!fn1 || !fn2 || !evaluate1 || !evaluate2) return null
+        let domain = getDomain(area.domain, axesDomain)
+        // Without a domain the area spans between the outer crossings of the two curves
+        if (!area.domain && !isTransformed(fn1) && !isTransformed(fn2)) {
+            const crossings = findFunctionIntersections(fn1.expression, fn2.expression, axesDomain.min, axesDomain.max)
+            if (crossings.length >= 2) domain = { min: crossings[0], max: crossings[crossings.length - 1] }
+        }
+        const upper = sampleBetween(evaluate1, domain)
+        const lower = sampleBetween(evaluate2, domain).reverse()
+        return upper.length >= 2 && lower.length >= 2 ? [...upper, ...lower] : null
+    }
+
+    if (!area.labelPos) return null
+    const boundaryIds = area.boundaryIds?.length
+        ? area.boundaryIds
+        : [area.functionId, area.lineId].filter((id): id is string => Boolean(id))
+    const elements: RegionElement[] = [
+        ...graph.functions.map((fn) => ({ type: 'function' as const, id: fn.id, element: fn })),
+        ...graph.lines.map((line) => ({ type: 'line' as const, id: line.id, element: resolveLine(line, graph) })),
+    ].filter((element) => boundaryIds.length === 0 || boundaryIds.includes(element.id))
+    const region = findEnclosingRegion(area.labelPos, elements, graph.axes, area.ignoredBoundaries)
+    return region && region.polygon.length >= 3 ? region.polygon : null
+}
+
+const isInsidePolygon = (point: GraphCoord, polygon: GraphCoord[]) => {
+    let inside = false
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i]
+        const b = polygon[j]
+        if ((a.y > point.y) !== (b.y > point.y)
+            && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside
+        }
+    }
+    return inside
+}
+
+/** Intersection over union of two polygons, estimated on a grid covering both */
+export const polygonOverlap = (a: GraphCoord[], b: GraphCoord[]) => {
+    const all = [...a, ...b]
+    const xMin = Math.min(...all.map((point) => point.x))
+    const xMax = Math.max(...all.map((point) => point.x))
+    const yMin = Math.min(...all.map((point) => point.y))
+    const yMax = Math.max(...all.map((point) => point.y))
+    let both = 0
+    let either = 0
+    for (let i = 0; i < AREA_GRID; i++) {
+        for (let j = 0; j < AREA_GRID; j++) {
+            const point = {
+                x: xMin + ((xMax - xMin) * (i + 0.5)) / AREA_GRID,
+                y: yMin + ((yMax - yMin) * (j + 0.5)) / AREA_GRID,
+            }
+            const inA = isInsidePolygon(point, a)
+            const inB = isInsidePolygon(point, b)
+            if (inA && inB) both++
+            if (inA || inB) either++
+        }
+    }
+    return either === 0 ? 0 : both / either
+}
+
+const compareAreas = (reference: GraphSegment, student: GraphSegment, areaOverlap: number): GraphComparisonItem[] => {
+    const candidates = student.areas
+        .map((area) => ({ id: area.id, polygon: getAreaPolygon(area, student) }))
+        .filter((candidate): candidate is { id: string; polygon: GraphCoord[] } => candidate.polygon !== null)
+    const used = new Set<string>()
+
+    return reference.areas.map((area, index) => {
+        const label = `Aire ${area.label?.trim() || `n°${index + 1}`}`
+        const expected = getAreaPolygon(area, reference)
+        if (!expected) {
+            return { kind: 'area', label, matched: false, detail: 'aire de référence invalide' }
+        }
+        let best: { id: string; overlap: number } | null = null
+        for (const candidate of candidates) {
+            if (used.has(candidate.id)) continue
+            const overlap = polygonOverlap(expected, candidate.polygon)
+            if (!best || overlap > best.overlap) best = { id: candidate.id, overlap }
+        }
+        if (best && best.overlap >= areaOverlap) {
+            used.add(best.id)
+            return { kind: 'area', label, matched: true, detail: 'hachurée correctement' }
+        }
+        return {
+            kind: 'area',
+            label,
+            matched: false,
+            detail: best ? `recouvrement insuffisant (${Math.round(best.overlap * 100)} %)` : 'absente',
+        }
+    })
+}
+
+/** Number of elements of a reference graph that are compared */
+export const countGraphElements = (graph: GraphSegment) =>
+    graph.functions.length + graph.points.length + graph.lines.length + graph.areas.length
+
+export const compareGraphs = (reference: GraphSegment, student: GraphSegment, tolerances: GraphTolerances): GraphComparison => {
+    const items = [
+        ...compareFunctions(reference, student, tolerances.tolerance),
+        ...comparePoints(reference, student, tolerances.tolerance),
+        ...compareLines(reference, student, tolerances),
+        ...compareAreas(reference, student, tolerances.areaOverlap),
+    ]
+    const matched = items.filter((item) => item.matched).length
+    return { items, ratio: items.length === 0 ? 0 : matched / items.length }
+}
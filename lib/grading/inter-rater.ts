@@ -0,0 +1,94 @@
+/**
+ * Double grading: answers marked for second grading get independent grades from
+ * two graders. Their agreement is measured per exam, and a pair whose gap exceeds
+ * `doubleGradingThreshold` (fraction of the question points, in the exam grading
+ * config) is flagged for the lead grader's reconciliation.
+ */
+
+export const DEFAULT_DIVERGENCE_THRESHOLD = 0.2
+
+export type GradePair = {
+    first: number
+    second: number
+    maxPoints: number
+}
+
+export type AgreementStats = {
+    pairCount: number
+    meanAbsoluteDifference: number | null
+    meanRelativeDifference: number | null // Fraction of the question points
+    agreementRate: number | null // Pairs within the threshold
+    divergentCount: number
+    correlation: number | null // Pearson, on scores relative to the question points
+}
+
+export function getDivergenceThreshold(gradingConfig: Record<string, unknown> | null | undefined): number {
+    const raw = gradingConfig?.doubleGradingThreshold
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) return DEFAULT_DIVERGENCE_THRESHOLD
+    return Math.min(Math.max(raw, 0), 1)
+}
+
+export function isDivergent(pair: GradePair, threshold: number): boolean {
+    if (pair.maxPoints <= 0) return pair.first !== pair.second
+    return Math.abs(pair.first - pair.second) / pair.maxPoints > threshold
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+    if (xs.length < 2) return null
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+    let covariance = 0
+    let varianceX = 0
+    let varianceY = 0
+    xs.forEach((x, index) => {
+        const dx = x - meanX
+        const dy = ys[index] - meanY
+        covariance += dx * dy
+        varianceX += dx * dx
+        varianceY += dy * dy
+    })
+    if (varianceX === 0 || varianceY === 0) return null
+    return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+export function computeAgreementStats(pairs: GradePair[], threshold: number): AgreementStats {
+    if (pairs.length === 0) {
+        return {
+            pairCount: 0,
+            meanAbsoluteDifference: null,
+            meanRelativeDifference: null,
+            agreementRate: null,
+            divergentCount: 0,
+            correlation: null,
+        }
+    }
+
+    const relative = (score: number, maxPoints: number) => maxPoints > 0 ? score / maxPoints : 0
+    const divergentCount = pairs.filter((pair) => isDivergent(pair, threshold)).length
+
+    return {
+        pairCount: pairs.length,
+        meanAbsoluteDifference: pairs.reduce((sum, pair) => sum + Math.abs(pair.first - pair.second), 0) / pairs.length,
+        meanRelativeDifference: pairs.reduce(
+            (sum, pair) => sum + Math.abs(relative(pair.first, pair.maxPoints) - relative(pair.second, pair.maxPoints)),
+            0
+        ) / pairs.length,
+        agreementRate: (pairs.length - divergentCount) / pairs.length,
+        divergentCount,
+        correlation: pearson(
+            pairs.map((pair) => relative(pair.first, pair.maxPoints)),
+            pairs.map((pair) => relative(pair.second, pair.maxPoints))
+        ),
+    }
+}
+
+/** Random sample of `percentage` % of the attempts (at least one when there are attempts). */
+export function sampleAttemptIds(attemptIds: string[], percentage: number, random: () => number = Math.random): string[] {
+    const count = Math.min(attemptIds.length, Math.max(1, Math.ceil((attemptIds.length * percentage) / 100)))
+    const shuffled = [...attemptIds]
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+    return shuffled.slice(0, count)
+}
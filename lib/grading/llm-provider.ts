@@ -0,0 +1,311 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import type { z } from 'zod'
+
+/**
+ * LLM Provider Abstraction
+ *
+ * AI grading, rubric generation and PDF import talk to a provider instead of the
+ * OpenAI SDK directly, so an institution can keep student data on its own
+ * infrastructure:
+ * - OPENAI: api.openai.com
+ * - OPENAI_COMPATIBLE: any server exposing the OpenAI chat completions API
+ *   (vLLM, Ollama, LM Studio...) at `baseUrl`
+ * - AZURE_OPENAI: an Azure OpenAI resource, `model` being the deployment name
+ * - MOCK: deterministic responses, no network (tests and local development)
+ *
+ * Structured outputs are requested with a JSON schema derived from the Zod
+ * schema; self-hosted servers must support `response_format: json_schema`
+ * (vLLM guided decoding, Ollama >= 0.5).
+ *
+ * Image inputs (answer photos, rendered graphs) are only sent to vision-capable
+ * models: `vision` in the config, or guessed from the model name when unset.
+ */
+
+export const LLM_PROVIDER_KINDS = ['OPENAI', 'OPENAI_COMPATIBLE', 'AZURE_OPENAI', 'MOCK'] as const
+export type LLMProviderKind = (typeof LLM_PROVIDER_KINDS)[number]
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o'
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21'
+export const MOCK_MODEL = 'mock'
+
+export type LLMProviderConfig = {
+    provider: LLMProviderKind
+    model: string
+    baseUrl?: string | null
+    apiKey?: string | null
+    apiVersion?: string | null
+    // Whether the model accepts images; null guesses from the model name
+    vision?: boolean | null
+}
+
+export type LLMContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'file'; filename: string; dataUrl: string }
+    | { type: 'image'; dataUrl: string }
+
+export type LLMMessage = {
+    role: 'system' | 'user'
+    content: string | LLMContentPart[]
+}
+
+export type LLMStructuredRequest<Schema extends z.ZodType> = {
+    schema: Schema
+    schemaName: string
+    messages: LLMMessage[]
+    temperature?: number
+    maxTokens?: number
+}
+
+export type LLMTextRequest = {
+    messages: LLMMessage[]
+    temperature?: number
+    maxTokens?: number
+}
+
+export type LLMCompletion<T> = {
+    output: T | null // null when the response does not match the requested schema
+    rawResponse: string
+    tokensInput?: number
+    tokensOutput?: number
+}
+
+export interface LLMProvider {
+    readonly kind: LLMProviderKind
+    readonly model: string
+    readonly supportsVision: boolean
+    generateStructured<Schema extends z.ZodType>(request: LLMStructuredRequest<Schema>): Promise<LLMCompletion<z.infer<Schema>>>
+    generateText(request: LLMTextRequest): Promise<LLMCompletion<string>>
+}
+
+export function isLLMProviderKind(value: unknown): value is LLMProviderKind {
+    return typeof value === 'string' && (LLM_PROVIDER_KINDS as readonly string[]).includes(value)
+}
+
+/**
+ * Read a stored provider config (SystemSetting JSON), returning null when malformed
+ */
+export function parseLLMProviderConfig(value: unknown): LLMProviderConfig | null {
+    if (!value || typeof value !== 'object') return null
+    const raw = value as Record<string, unknown>
+    if (!isLLMProviderKind(raw.provider)) return null
+    const text = (field: unknown) => typeof field === 'string' && field.trim() ? field.trim() : null
+
+    return {
+        provider: raw.provider,
+        model: text(raw.model) ?? (raw.provider === 'MOCK' ? MOCK_MODEL : DEFAULT_OPENAI_MODEL),
+        baseUrl: text(raw.baseUrl),
+        apiKey: text(raw.apiKey),
+        apiVersion: text(raw.apiVersion),
+        vision: typeof raw.vision === 'boolean' ? raw.vision : null,
+    }
+}
+
+// Model families known to accept image inputs (OpenAI and common open-weight models)
+const VISION_MODEL_PATTERNS = [
+    /^gpt-4o/, /^gpt-4\.1/, /^gpt-4-turbo/, /^gpt-4-vision/, /^gpt-5/, /^o[134](-|$)/, /^chatgpt-4o/,
+    /llava/, /bakllava/, /-vl\b/, /vision/, /pixtral/, /gemma-?3/, /minicpm-v/, /moondream/, /qwen2\.5vl/,
+]
+
+/**
+ * Whether images can be sent to the configured model: the explicit `vision`
+ * setting, otherwise a guess from the model (or Azure deployment) name
+ */
+export function supportsVision(config: LLMProviderConfig): boolean {
+    if (config.provider === 'MOCK') return true
+    if (typeof config.vision === 'boolean') return config.vision
+    const model = config.model.trim().toLowerCase()
+    return VISION_MODEL_PATTERNS.some((pattern) => pattern.test(model))
+}
+
+/**
+ * Check the fields each provider needs. Returns an error message, or null when valid.
+ * OPENAI may omit the key: the platform OpenAI key is used.
+ */
+export function validateLLMProviderConfig(config: LLMProviderConfig): string | null {
+    if (config.provider === 'MOCK') return null
+    if (!config.model.trim()) return 'A model name is required'
+
+    if (config.provider === 'OPENAI_COMPATIBLE' || config.provider === 'AZURE_OPENAI') {
+        if (!config.baseUrl) return 'A base URL is required for this provider'
+        try {
+            const url = new URL(config.baseUrl)
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+                return 'The base URL must use http or https'
+            }
+        } catch {
+            return 'The base URL is not a valid URL'
+        }
+    }
+
+    if (config.provider === 'AZURE_OPENAI' && !config.apiKey) {
+        return 'An API key is required for Azure OpenAI'
+    }
+
+    return null
+}
+
+/**
+ * Provider config from environment variables (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL,
+ * LLM_API_KEY, LLM_API_VERSION, LLM_VISION). Returns null when LLM_PROVIDER is not set.
+ */
+export function getEnvLLMProviderConfig(env: Record<string, string | undefined> = process.env): LLMProviderConfig | null {
+    const provider = env.LLM_PROVIDER?.trim().toUpperCase()
+    if (!provider) return null
+    return parseLLMProviderConfig({
+        provider,
+        model: env.LLM_MODEL,
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        apiVersion: env.LLM_API_VERSION,
+        vision: env.LLM_VISION === 'true' ? true : env.LLM_VISION === 'false' ? false : null,
+    })
+}
+
+function toOpenAIMessages(messages: LLMMessage[]): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    return messages.map((message) => {
+        if (message.role === 'system') {
+            const content = typeof message.content === 'string'
+                ? message.content
+                : message.content.map((part) => part.type === 'text' ? part.text : '').join('\n')
+            return { role: 'system', content }
+        }
+
+        if (typeof message.content === 'string') {
+            return { role: 'user', content: message.content }
+        }
+
+        return {
+            role: 'user',
+            content: message.content.map((part): OpenAI.Chat.Completions.ChatCompletionContentPart => {
+                if (part.type === 'text') return { type: 'text', text: part.text }
+                if (part.type === 'image') return { type: 'image_url', image_url: { url: part.dataUrl, detail: 'high' } }
+                return { type: 'file', file: { filename: part.filename, file_data: part.dataUrl } }
+            }),
+        }
+    })
+}
+
+function createOpenAIBackedProvider(kind: LLMProviderKind, client: OpenAI, config: LLMProviderConfig): LLMProvider {
+    const model = config.model
+    return {
+        kind,
+        model,
+        supportsVision: supportsVision(config),
+        async generateStructured(request) {
+            const completion = await client.chat.completions.parse({
+                model,
+                messages: toOpenAIMessages(request.messages),
+                response_format: zodResponseFormat(request.schema, request.schemaName),
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            })
+
+            return {
+                output: completion.choices[0]?.message?.parsed ?? null,
+                rawResponse: JSON.stringify(completion.choices[0]?.message),
+                tokensInput: completion.usage?.prompt_tokens,
+                tokensOutput: completion.usage?.completion_tokens,
+            }
+        },
+        async generateText(request) {
+            const completion = await client.chat.completions.create({
+                model,
+                messages: toOpenAIMessages(request.messages),
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            })
+
+            return {
+                output: completion.choices[0]?.message?.content ?? null,
+                rawResponse: JSON.stringify(completion.choices[0]?.message),
+                tokensInput: completion.usage?.prompt_tokens,
+                tokensOutput: completion.usage?.completion_tokens,
+            }
+        },
+    }
+}
+
+export type MockResponder = (request: LLMStructuredRequest<z.ZodType>) => unknown
+
+/**
+ * Canned outputs of the mock provider, by schema name
+ */
+const MOCK_RESPONSES: Record<string, unknown> = {
+    grading: {
+        score: 0,
+        feedback: 'Correction simulee : aucune note n\'a ete attribuee par un modele.',
+        aiRationale: 'Mock provider response',
+    },
+    criterion_grading: {
+        score: 0,
+        feedback: 'Correction simulee : aucune note n\'a ete attribuee par un modele.',
+        aiRationale: 'Mock provider response',
+        criteria: [],
+    },
+    rubric: {
+        criteria: [
+            { name: 'Reponse', points: 1, description: 'Critere simule par le fournisseur de test' },
+        ],
+        totalPoints: 1,
+    },
+    exam_extraction: {
+        title: 'Examen importe (simulation)',
+        exercises: [],
+        totalPoints: null,
+        metadata: { confidence: 'low', warnings: ['Extraction simulee par le fournisseur de test'] },
+    },
+}
+
+/**
+ * Deterministic provider: the same request always yields the same output, and no
+ * data leaves the process. Outputs that do not match the schema come back as null,
+ * like a model answering off-schema.
+ */
+export function createMockProvider(respond?: MockResponder, model: string = MOCK_MODEL): LLMProvider {
+    return {
+        kind: 'MOCK',
+        model,
+        supportsVision: true,
+        async generateStructured(request) {
+            const value = respond ? respond(request) : MOCK_RESPONSES[request.schemaName]
+            const parsed = request.schema.safeParse(value)
+            return {
+                output: parsed.success ? parsed.data : null,
+                rawResponse: JSON.stringify(value ?? null),
+            }
+        },
+        async generateText() {
+            return { output: 'OK', rawResponse: JSON.stringify('OK') }
+        },
+    }
+}
+
+/**
+ * Build the provider for a validated config. `apiKey` overrides the config key
+ * (OPENAI falls back to the platform OpenAI key).
+ */
+export function createLLMProvider(config: LLMProviderConfig, apiKey: string | null = config.apiKey ?? null): LLMProvider {
+    switch (config.provider) {
+        case 'MOCK':
+            return createMockProvider(undefined, config.model)
+        case 'AZURE_OPENAI':
+            return createOpenAIBackedProvider('AZURE_OPENAI', new AzureOpenAI({
+                apiKey: apiKey ?? undefined,
+                endpoint: config.baseUrl ?? undefined,
+                apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+                deployment: config.model,
+            }), config)
+        case 'OPENAI_COMPATIBLE':
+            // Local servers usually ignore the key, but the SDK requires one
+            return createOpenAIBackedProvider('OPENAI_COMPATIBLE', new OpenAI({
+                apiKey: apiKey || 'not-needed',
+                baseURL: config.baseUrl ?? undefined,
+            }), config)
+        case 'OPENAI':
+            if (!apiKey) {
+                throw new Error('OpenAI is not configured. Please set the API key in platform settings.')
+            }
+            return createOpenAIBackedProvider('OPENAI', new OpenAI({ apiKey }), config)
+    }
+}
@@ -0,0 +1,125 @@
+import { prisma } from '@/lib/prisma'
+import { decrypt } from '@/lib/encryption'
+import { getOpenAIApiKey } from './openai-client'
+import {
+    DEFAULT_OPENAI_MODEL,
+    createLLMProvider,
+    getEnvLLMProviderConfig,
+    parseLLMProviderConfig,
+    validateLLMProviderConfig,
+    type LLMProvider,
+    type LLMProviderConfig,
+} from './llm-provider'
+
+/**
+ * LLM provider selection
+ *
+ * Config resolution order:
+ * 1. Institution override (SystemSetting 'LLM_PROVIDER:<institutionId>')
+ * 2. Platform default (SystemSetting 'LLM_PROVIDER')
+ * 3. Environment variables (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL, ...)
+ * 4. OpenAI with gpt-4o and the platform OpenAI key
+ *
+ * Settings hold the config as encrypted JSON since it may carry an API key.
+ */
+
+export const LLM_PROVIDER_SETTING_KEY = 'LLM_PROVIDER'
+
+export type LLMProviderSource = 'INSTITUTION' | 'PLATFORM' | 'ENV' | 'DEFAULT'
+
+export function getLLMProviderSettingKey(institutionId?: string | null): string {
+    return institutionId ? `${LLM_PROVIDER_SETTING_KEY}:${institutionId}` : LLM_PROVIDER_SETTING_KEY
+}
+
+const CACHE_TTL_MS = 60 * 1000 // 1 minute cache
+const settingCache = new Map<string, { config: LLMProviderConfig | null; timestamp: number }>()
+
+/**
+ * Read a stored provider config, cached for 1 minute
+ */
+export async function readLLMProviderSetting(key: string): Promise<LLMProviderConfig | null> {
+    const now = Date.now()
+    const cached = settingCache.get(key)
+    if (cached && now - cached.timestamp < CACHE_TTL_MS) {
+        return cached.config
+    }
+
+    let config: LLMProviderConfig | null = null
+    try {
+        const setting = await prisma.systemSetting.findUnique({ where: { key } })
+        if (setting) {
+            const value = setting.encrypted ? decrypt(setting.value) : setting.value
+            config = parseLLMProviderConfig(JSON.parse(value))
+        }
+    } catch (error) {
+        console.warn(`[LLM] Failed to read provider setting ${key}:`, error)
+    }
+
+    settingCache.set(key, { config, timestamp: now })
+    return config
+}
+
+/**
+ * Clear the provider config cache (call after updating a provider setting)
+ */
+export function clearLLMProviderCache(): void {
+    settingCache.clear()
+}
+
+/**
+ * Provider config that applies to the institution, and where it comes from
+ */
+export async function resolveLLMProviderConfig(institutionId?: string | null): Promise<{
+    config: LLMProviderConfig
+    source: LLMProviderSource
+}> {
+    if (institutionId) {
+        const institutionConfig = await readLLMProviderSetting(getLLMProviderSettingKey(institutionId))
+        if (institutionConfig) return { config: institutionConfig, source: 'INSTITUTION' }
+    }
+
+    const platformConfig = await readLLMProviderSetting(LLM_PROVIDER_SETTING_KEY)
+    if (platformConfig) return { config: platformConfig, source: 'PLATFORM' }
+
+    const envConfig = getEnvLLMProviderConfig()
+    if (envConfig) return { config: envConfig, source: 'ENV' }
+
+    return { config: { provider: 'OPENAI', model: DEFAULT_OPENAI_MODEL }, source: 'DEFAULT' }
+}
+
+/**
+ * Get the LLM provider of the institution, throwing if it is not usable
+ */
+export async function getLLMProvider(institutionId?: string | null): Promise<LLMProvider> {
+    const { config } = await resolveLLMProviderConfig(institutionId)
+
+    const invalid = validateLLMProviderConfig(config)
+    if (invalid) {
+        throw new Error(`AI provider is misconfigured: ${invalid}`)
+    }
+
+    const apiKey = config.apiKey || (config.provider === 'OPENAI' ? await getOpenAIApiKey() : null)
+    return createLLMProvider(config, apiKey)
+}
+
+/**
+ * Check if an LLM provider is usable for the institution
+ */
+export async function isLLMConfigured(institutionId?: string | null): Promise<boolean> {
+    const { config } = await resolveLLMProviderConfig(institutionId)
+    if (validateLLMProviderConfig(config)) return false
+    if (config.provider === 'OPENAI' && !config.apiKey) {
+        return Boolean(await getOpenAIApiKey())
+    }
+    return true
+}
+
+/**
+ * Check if a provider is configured from the environment (synchronous, no DB)
+ * Use this for quick checks where async is not possible
+ */
+export function isLLMConfiguredSync(): boolean {
+    const envConfig = getEnvLLMProviderConfig()
+    if (envConfig) return !validateLLMProviderConfig(envConfig)
+    return Boolean(process.env.OPENAI_API_KEY)
+}
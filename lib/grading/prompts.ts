@@ -71,23 +71,70 @@ Format de sortie: JSON structure avec criteria (liste de criteres) et totalPoint
 
 /**
  * Build user prompt for grading
+ *
+ * For parameterized questions, question and rubric are already instantiated;
+ * the values drawn for the student are listed so the expected results can be
+ * checked against them. With structured criteria, each one is scored separately.
+ * Images and graphs attached to the message are listed under their label.
  */
 export function buildGradingUserPrompt(params: {
     question: string
     rubric: string
     studentAnswer: string
     maxPoints: number
+    parameterValues?: Record<string, number> | null
+    criteria?: { name: string; points: number }[] | null
+    // Images sent with the prompt, in order, and the ones the model cannot see
+    images?: { label: string; source: 'question' | 'answer' }[]
+    missingImages?: string[]
 }): string {
+    const parameterLines = Object.entries(params.parameterValues ?? {})
+        .map(([name, value]) => `${name} = ${value}`)
+        .join('\n')
+    const parameterBlock = parameterLines
+        ? `
+
+VALEURS DES PARAMETRES POUR CET ETUDIANT (la question et la notice utilisent deja ces valeurs):
+${parameterLines}`
+        : ''
+
+    const criteriaLines = (params.criteria ?? [])
+        .map((criterion, index) => `${index + 1}. ${criterion.name} (${criterion.points} points)`)
+        .join('\n')
+    const criteriaBlock = criteriaLines
+        ? `
+
+CRITERES A NOTER UN PAR UN (utilise exactement ces noms):
+${criteriaLines}`
+        : ''
+    const imageLines = (params.images ?? [])
+        .map((image) => `- ${image.label} (${image.source === 'question' ? 'question' : 'reponse de l\'etudiant'})`)
+        .join('\n')
+    const imagesBlock = imageLines
+        ? `
+
+IMAGES JOINTES (dans cet ordre, elles font partie de la question ou de la reponse: photos de copies manuscrites, graphiques traces):
+${imageLines}`
+        : ''
+    const missingBlock = params.missingImages?.length
+        ? `
+
+IMAGES NON TRANSMISES (${params.missingImages.join(', ')}): ne devine pas leur contenu. Si la note en depend, indique-le dans ton raisonnement.`
+        : ''
+    const instruction = criteriaLines
+        ? `Evalue cette reponse critere par critere: pour chaque critere, un score (entre 0 et ses points) et une justification courte. Fournis aussi un score global (sur ${params.maxPoints}), un feedback pour l'etudiant, et ton raisonnement.`
+        : `Evalue cette reponse et fournis un score (sur ${params.maxPoints}), un feedback pour l'etudiant, et ton raisonnement.`
+
     return `QUESTION:
-${params.question}
+${params.question}${parameterBlock}
 
 NOTICE DE CORRECTION (${params.maxPoints} points max):
-${params.rubric}
+${params.rubric}${criteriaBlock}
 
 REPONSE DE L'ETUDIANT:
-${params.studentAnswer}
+${params.studentAnswer}${imagesBlock}${missingBlock}
 
-Evalue cette reponse et fournis un score (sur ${params.maxPoints}), un feedback pour l'etudiant, et ton raisonnement.`
+${instruction}`
 }
 
 /**
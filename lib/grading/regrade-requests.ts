@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client'
+import { getCorrectionReleaseInfo } from '@/lib/correction-release'
+import { getRegradeWindow, type RegradeWindow } from '@/lib/regrade'
+
+/**
+ * Shape of a regrade request returned to students and teachers, thread included.
+ */
+export const regradeRequestSelect = {
+    id: true,
+    status: true,
+    justification: true,
+    previousScore: true,
+    newScore: true,
+    resolvedAt: true,
+    createdAt: true,
+    answer: { select: { id: true, questionId: true, attemptId: true } },
+    student: { select: { id: true, name: true, email: true } },
+    messages: {
+        select: {
+            id: true,
+            body: true,
+            createdAt: true,
+            author: { select: { id: true, name: true, role: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+    },
+} satisfies Prisma.RegradeRequestSelect
+
+export type RegradeRequestPayload = Prisma.RegradeRequestGetPayload<{ select: typeof regradeRequestSelect }>
+
+type RegradeExam = {
+    gradingConfig: Prisma.JsonValue
+    startAt: Date | null
+    durationMinutes: number | null
+    endAt: Date | null
+}
+
+/** Regrade window of an exam, starting when its results were released to students. */
+export function getExamRegradeWindow(exam: RegradeExam, now = new Date()): RegradeWindow {
+    const gradingConfig = (exam.gradingConfig as Record<string, unknown>) || {}
+    const releaseInfo = getCorrectionReleaseInfo({
+        gradingConfig,
+        startAt: exam.startAt,
+        durationMinutes: exam.durationMinutes,
+        endAt: exam.endAt,
+        now,
+    })
+    return getRegradeWindow({ gradingConfig, releasedAt: releaseInfo.releasedAt, now })
+}
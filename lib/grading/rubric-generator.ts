@@ -1,5 +1,4 @@
-import { zodResponseFormat } from 'openai/helpers/zod'
-import { getOpenAIClient, GRADING_MODEL } from './openai-client'
+import { getLLMProvider } from './llm-settings'
 import { RubricSchema, type Rubric } from './schemas'
 import { buildRubricUserPrompt } from './prompts'
 import { logAIInteraction, getPrompt } from './ai-logger'
@@ -8,21 +7,23 @@ export type GenerateRubricParams = {
     questionContent: string
     correctionGuidelines: string | null
     maxPoints: number
+    // Institution whose AI provider writes the rubric (platform default otherwise)
+    institutionId?: string | null
     // Optional metadata for logging
     questionId?: string
     userId?: string
 }
 
 /**
- * Generates a grading rubric from question content using GPT-4
+ * Generates a grading rubric from question content with the institution's LLM provider
  *
  * @param params - Question content, optional correction guidelines, and max points
  * @returns Parsed rubric with criteria and total points
- * @throws Error if OpenAI is not configured or API call fails
+ * @throws Error if no AI provider is configured or the call fails
  */
 export async function generateRubric(params: GenerateRubricParams): Promise<Rubric> {
     const startTime = Date.now()
-    const openai = await getOpenAIClient()
+    const provider = await getLLMProvider(params.institutionId)
 
     // Get system prompt (custom or default)
     const systemPrompt = await getPrompt('RUBRIC_SYSTEM')
@@ -38,24 +39,24 @@ export async function generateRubric(params: GenerateRubricParams): Promise<Rubr
     let tokensOutput: number | undefined
 
     try {
-        const completion = await openai.chat.completions.parse({
-            model: GRADING_MODEL,
+        const completion = await provider.generateStructured({
+            schema: RubricSchema,
+            schemaName: 'rubric',
             messages: [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
             ],
-            response_format: zodResponseFormat(RubricSchema, 'rubric'),
             temperature: 0.3, // Some creativity for rubric generation
-            max_tokens: 1000
+            maxTokens: 1000
         })
 
-        rawResponse = JSON.stringify(completion.choices[0]?.message)
-        tokensInput = completion.usage?.prompt_tokens
-        tokensOutput = completion.usage?.completion_tokens
+        rawResponse = completion.rawResponse
+        tokensInput = completion.tokensInput
+        tokensOutput = completion.tokensOutput
 
-        const parsed = completion.choices[0]?.message?.parsed
+        const parsed = completion.output
         if (!parsed) {
-            throw new Error('Failed to parse rubric response from OpenAI')
+            throw new Error(`Failed to parse rubric response from ${provider.model}`)
         }
 
         let result = parsed
@@ -80,7 +81,7 @@ export async function generateRubric(params: GenerateRubricParams): Promise<Rubr
         await logAIInteraction({
             questionId: params.questionId,
             operation: 'RUBRIC_GENERATION',
-            model: GRADING_MODEL,
+            model: provider.model,
             systemPrompt,
             userPrompt,
             rawResponse,
@@ -98,7 +99,7 @@ export async function generateRubric(params: GenerateRubricParams): Promise<Rubr
         await logAIInteraction({
             questionId: params.questionId,
             operation: 'RUBRIC_GENERATION',
-            model: GRADING_MODEL,
+            model: provider.model,
             systemPrompt,
             userPrompt,
             rawResponse,
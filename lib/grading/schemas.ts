@@ -14,6 +14,27 @@ export const GradingResponseSchema = z.object({
     aiRationale: z.string().describe('Raisonnement interne expliquant la notation (non montre a l\'etudiant)')
 })
 
+/**
+ * Criterion Score Schema
+ *
+ * Score of the answer on one rubric criterion, with its justification
+ */
+export const CriterionScoreSchema = z.object({
+    criterion: z.string().describe('Nom exact du critere de la notice'),
+    score: z.number().describe('Points attribues pour ce critere (entre 0 et les points du critere)'),
+    justification: z.string().describe('Justification courte, destinee a l\'etudiant, du score de ce critere')
+})
+
+/**
+ * Criterion Grading Response Schema
+ *
+ * Grading output when the rubric has structured criteria: the overall response
+ * plus one score per criterion (the question score is the sum of the criteria)
+ */
+export const CriterionGradingResponseSchema = GradingResponseSchema.extend({
+    criteria: z.array(CriterionScoreSchema).describe('Score de chaque critere de la notice, dans l\'ordre de la notice')
+})
+
 /**
  * Rubric Criterion Schema
  *
@@ -41,5 +62,7 @@ export const RubricSchema = z.object({
  * TypeScript types inferred from Zod schemas
  */
 export type GradingResponse = z.infer<typeof GradingResponseSchema>
+export type CriterionScore = z.infer<typeof CriterionScoreSchema>
+export type CriterionGradingResponse = z.infer<typeof CriterionGradingResponseSchema>
 export type RubricCriterion = z.infer<typeof RubricCriterionSchema>
 export type Rubric = z.infer<typeof RubricSchema>
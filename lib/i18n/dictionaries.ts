@@ -398,12 +398,27 @@ const dictionaries = {
                     ssoNotRoster: 'SSO ≠ Roster',
                     ssoNotRosterHint: 'Le SSO permet l\'authentification mais ne synchronise pas automatiquement la liste des utilisateurs.',
                     directorySync: 'Synchronisation annuaire',
-                    directorySyncHint: 'Synchronisez automatiquement les utilisateurs depuis votre annuaire.',
-                    comingSoon: 'Bientôt disponible',
-                    scimHint: 'Provisionnement SCIM standard',
-                    azureHint: 'Synchronisation avec Azure Active Directory',
-                    googleHint: 'Synchronisation avec Google Workspace',
-                    configureSync: 'Configurer la synchronisation',
+                    directorySyncHint: 'Synchronisez automatiquement les utilisateurs et les classes depuis votre annuaire.',
+                    scimHint: 'Les utilisateurs et les groupes (classes) sont créés, mis à jour et archivés automatiquement.',
+                    azureHint: 'Ajoutez une application d\'entreprise hors galerie avec le provisionnement automatique, puis saisissez l\'URL et un jeton.',
+                    googleHint: 'Utilisez un connecteur SCIM qui envoie vos utilisateurs et groupes vers cette URL.',
+                    scimEndpoint: 'URL du locataire SCIM',
+                    scimTokens: 'Jetons d\'accès',
+                    scimTokenName: 'Nom du jeton',
+                    scimTokenNamePlaceholder: 'Ex. : Entra ID',
+                    scimCreateToken: 'Créer un jeton',
+                    scimNewToken: 'Copiez ce jeton maintenant : il ne sera plus affiché.',
+                    scimNoTokens: 'Aucun jeton pour le moment.',
+                    scimActive: 'Actif',
+                    scimRevoked: 'Révoqué',
+                    scimLastUsed: 'Dernière utilisation',
+                    scimNeverUsed: 'Jamais utilisé',
+                    scimRevoke: 'Révoquer',
+                    scimRevokeConfirmTitle: 'Révoquer ce jeton ?',
+                    scimRevokeConfirmDescription: 'L\'annuaire qui l\'utilise ne pourra plus synchroniser les utilisateurs.',
+                    scimCancel: 'Annuler',
+                    scimLoadError: 'Impossible de charger la configuration SCIM.',
+                    scimSaveError: 'Impossible d\'enregistrer le jeton.',
                 },
             },
         },
@@ -480,6 +495,13 @@ const dictionaries = {
                     saving: 'Enregistrement...',
                     saved: 'Enregistré',
                     errorSaving: 'Erreur de sauvegarde',
+                    savedLocally: 'Enregistré sur cet appareil',
+                },
+                connection: {
+                    online: 'En ligne',
+                    offline: 'Hors ligne',
+                    pendingChanges: '{{count}} modification(s) en attente de synchronisation',
+                    offlineSubmitMessage: "Vous êtes hors ligne. Vos réponses sont conservées sur cet appareil : soumettez à nouveau dès que la connexion revient.",
                 },
                 actions: {
                     submitConfirmMessage: "Êtes-vous sûr de vouloir soumettre votre copie ? Vous ne pourrez plus la modifier.",
@@ -491,6 +513,41 @@ const dictionaries = {
                     finishedTitle: "Examen terminé",
                     finishedMessage: "Cet examen a déjà été soumis.",
                 },
+                proctor: {
+                    messageTitle: 'Message du surveillant',
+                    warningTitle: 'Avertissement du surveillant',
+                    acknowledge: "J'ai compris",
+                    pausedTitle: 'Examen en pause',
+                    pausedMessage: 'Le surveillant a mis votre examen en pause. Le temps ne s’écoule pas et vos réponses sont conservées.',
+                    pausedLabel: 'En pause',
+                    terminatedTitle: 'Copie remise par le surveillant',
+                    terminatedMessage: 'Le surveillant a mis fin à votre examen. Vos réponses enregistrées ont été soumises.',
+                    reasonLabel: 'Motif :',
+                },
+                fullscreen: {
+                    title: 'Plein écran obligatoire',
+                    message: 'Cet examen se passe en plein écran. Chaque sortie du plein écran est signalée au surveillant.',
+                    enterButton: 'Passer en plein écran',
+                },
+                accessibility: {
+                    toggle: 'Accessibilité',
+                    title: "Options d'affichage",
+                    fontSize: 'Taille du texte',
+                    highContrast: 'Contraste élevé',
+                    dyslexiaFont: 'Police adaptée à la dyslexie',
+                    reducedMotion: 'Réduire les animations',
+                    saved: 'Préférences enregistrées',
+                    saveError: "Impossible d'enregistrer vos préférences.",
+                },
+                navigation: {
+                    skipToQuestions: 'Aller aux questions',
+                    questionMap: 'Plan des questions',
+                    questionLabel: 'Question {{index}}',
+                    answered: 'répondue',
+                    unanswered: 'sans réponse',
+                    position: 'Question {{index}} sur {{total}}',
+                    shortcuts: 'Alt+N : question suivante · Alt+P : question précédente · Alt+M : plan des questions',
+                },
             },
             attemptResults: {
                 backLink: 'Retour',
@@ -506,6 +563,7 @@ const dictionaries = {
                     noAnswerLabel: 'Pas de réponse',
                     correctionLabel: 'Correction',
                     noFeedbackLabel: 'Aucun commentaire',
+                    criteriaLabel: 'Détail par critère',
                 },
                 messages: {
                     loading: 'Chargement des résultats...',
@@ -515,6 +573,27 @@ const dictionaries = {
                     notReleasedTitle: 'Résultats non rendus',
                     notReleasedMessage: "Votre copie a été corrigée, mais les résultats n'ont pas encore été publiés par votre enseignant.",
                 },
+                regrade: {
+                    requestButton: 'Demander une révision',
+                    deadlineLabel: "Demandes de révision possibles jusqu'au",
+                    closedLabel: 'Les demandes de révision sont closes pour cet examen.',
+                    justificationLabel: 'Justification',
+                    justificationPlaceholder: 'Expliquez pourquoi la note de cette question devrait être revue...',
+                    submit: 'Envoyer la demande',
+                    cancel: 'Annuler',
+                    submitError: "Erreur lors de l'envoi de la demande.",
+                    threadTitle: 'Demande de révision',
+                    replyPlaceholder: 'Répondre...',
+                    replySubmit: 'Répondre',
+                    teacherAuthor: 'Enseignant',
+                    studentAuthor: 'Vous',
+                    scoreChange: 'Note révisée',
+                    status: {
+                        OPEN: 'En attente',
+                        ACCEPTED: 'Acceptée',
+                        REJECTED: 'Refusée',
+                    },
+                },
             },
         },
         teacher: {
@@ -654,6 +733,7 @@ const dictionaries = {
                     exams: 'Examens',
                     sections: 'Sections',
                     students: 'Étudiants',
+                    accommodations: 'Aménagements',
                 },
                 examsTitle: 'Examens',
                 sectionsTitle: 'Sections',
@@ -747,6 +827,38 @@ const dictionaries = {
                 standalonePerfectAnswerPlaceholder: 'ex. "Selon Faraday… "',
             },
         },
+        accommodations: {
+            title: 'Aménagements',
+            subtitle: 'Temps supplémentaire et fenêtres individuelles pour les étudiants ou les sections.',
+            addButton: 'Ajouter un aménagement',
+            empty: 'Aucun aménagement pour ce cours.',
+            loadError: 'Impossible de charger les aménagements.',
+            saveError: "Impossible d'enregistrer l'aménagement.",
+            targetLabel: 'Appliquer à',
+            targetStudent: 'Un étudiant',
+            targetSection: 'Une section',
+            studentLabel: 'Étudiant',
+            sectionLabel: 'Section',
+            selectPlaceholder: 'Sélectionner…',
+            examLabel: 'Examen',
+            allExams: 'Tous les examens du cours',
+            durationMultiplierLabel: 'Multiplicateur de durée',
+            durationMultiplierPlaceholder: 'ex. 1.33',
+            extraMinutesLabel: 'Minutes supplémentaires',
+            lateStartGraceLabel: 'Tolérance après la fin de la fenêtre (min)',
+            startAtLabel: 'Début individuel',
+            endAtLabel: 'Fin individuelle',
+            reasonLabel: 'Motif (interne)',
+            missingTarget: 'Sélectionnez un étudiant ou une section.',
+            missingRule: 'Renseignez au moins une règle (durée, minutes, fenêtre ou tolérance).',
+            saveButton: 'Enregistrer',
+            cancelButton: 'Annuler',
+            editButton: 'Modifier',
+            removeButton: 'Supprimer',
+            removeConfirmTitle: 'Supprimer cet aménagement ?',
+            removeConfirmDescription: "Les tentatives futures utiliseront à nouveau les horaires standards de l'examen.",
+            manageButton: 'Aménagements',
+        },
         errors: {
             notFound: {
                 title: 'Page non trouvée',
@@ -1192,12 +1304,27 @@ const dictionaries = {
                     ssoNotRoster: 'SSO ≠ Roster',
                     ssoNotRosterHint: 'SSO enables authentication but does not automatically sync the user list.',
                     directorySync: 'Directory sync',
-                    directorySyncHint: 'Automatically sync users from your directory.',
-                    comingSoon: 'Coming soon',
-                    scimHint: 'Standard SCIM provisioning',
-                    azureHint: 'Sync with Azure Active Directory',
-                    googleHint: 'Sync with Google Workspace',
-                    configureSync: 'Configure sync',
+                    directorySyncHint: 'Automatically sync users and classes from your directory.',
+                    scimHint: 'Users and groups (classes) are created, updated and archived automatically.',
+                    azureHint: 'Add a non-gallery enterprise application with automatic provisioning, then enter the URL and a token.',
+                    googleHint: 'Use a SCIM connector that pushes your users and groups to this URL.',
+                    scimEndpoint: 'SCIM tenant URL',
+                    scimTokens: 'Access tokens',
+                    scimTokenName: 'Token name',
+                    scimTokenNamePlaceholder: 'e.g. Entra ID',
+                    scimCreateToken: 'Create token',
+                    scimNewToken: 'Copy this token now: it will not be shown again.',
+                    scimNoTokens: 'No tokens yet.',
+                    scimActive: 'Active',
+                    scimRevoked: 'Revoked',
+                    scimLastUsed: 'Last used',
+                    scimNeverUsed: 'Never used',
+                    scimRevoke: 'Revoke',
+                    scimRevokeConfirmTitle: 'Revoke this token?',
+                    scimRevokeConfirmDescription: 'The directory using it will no longer be able to sync users.',
+                    scimCancel: 'Cancel',
+                    scimLoadError: 'Unable to load the SCIM configuration.',
+                    scimSaveError: 'Unable to save the token.',
                 },
             },
         },
@@ -1274,6 +1401,13 @@ const dictionaries = {
                     saving: 'Saving...',
                     saved: 'Saved',
                     errorSaving: 'Error saving',
+                    savedLocally: 'Saved on this device',
+                },
+                connection: {
+                    online: 'Online',
+                    offline: 'Offline',
+                    pendingChanges: '{{count}} change(s) waiting to sync',
+                    offlineSubmitMessage: "You are offline. Your answers are kept on this device: submit again once the connection is back.",
                 },
                 actions: {
                     submitConfirmMessage: "Are you sure you want to submit? You will not be able to modify your answers.",
@@ -1285,6 +1419,41 @@ const dictionaries = {
                     finishedTitle: "Exam finished",
                     finishedMessage: "This exam has already been submitted.",
                 },
+                proctor: {
+                    messageTitle: 'Message from the proctor',
+                    warningTitle: 'Warning from the proctor',
+                    acknowledge: 'I understand',
+                    pausedTitle: 'Exam paused',
+                    pausedMessage: 'The proctor has paused your exam. The timer is stopped and your answers are kept.',
+                    pausedLabel: 'Paused',
+                    terminatedTitle: 'Submitted by the proctor',
+                    terminatedMessage: 'The proctor has ended your exam. Your saved answers have been submitted.',
+                    reasonLabel: 'Reason:',
+                },
+                fullscreen: {
+                    title: 'Fullscreen required',
+                    message: 'This exam is taken in fullscreen. Each exit from fullscreen is reported to the proctor.',
+                    enterButton: 'Enter fullscreen',
+                },
+                accessibility: {
+                    toggle: 'Accessibility',
+                    title: 'Display options',
+                    fontSize: 'Text size',
+                    highContrast: 'High contrast',
+                    dyslexiaFont: 'Dyslexia-friendly font',
+                    reducedMotion: 'Reduce motion',
+                    saved: 'Preferences saved',
+                    saveError: 'Could not save your preferences.',
+                },
+                navigation: {
+                    skipToQuestions: 'Skip to questions',
+                    questionMap: 'Question map',
+                    questionLabel: 'Question {{index}}',
+                    answered: 'answered',
+                    unanswered: 'unanswered',
+                    position: 'Question {{index}} of {{total}}',
+                    shortcuts: 'Alt+N: next question · Alt+P: previous question · Alt+M: question map',
+                },
             },
             attemptResults: {
                 backLink: 'Back',
@@ -1300,6 +1469,7 @@ const dictionaries = {
                     noAnswerLabel: 'No answer provided',
                     correctionLabel: 'Correction',
                     noFeedbackLabel: 'No feedback',
+                    criteriaLabel: 'Breakdown by criterion',
                 },
                 messages: {
                     loading: 'Loading results...',
@@ -1309,6 +1479,27 @@ const dictionaries = {
                     notReleasedTitle: 'Results not released',
                     notReleasedMessage: "Your exam has been graded, but results have not been released by your instructor yet.",
                 },
+                regrade: {
+                    requestButton: 'Request a regrade',
+                    deadlineLabel: 'Regrade requests accepted until',
+                    closedLabel: 'Regrade requests are closed for this exam.',
+                    justificationLabel: 'Justification',
+                    justificationPlaceholder: 'Explain why the grade of this question should be reviewed...',
+                    submit: 'Send request',
+                    cancel: 'Cancel',
+                    submitError: 'Failed to send the request.',
+                    threadTitle: 'Regrade request',
+                    replyPlaceholder: 'Reply...',
+                    replySubmit: 'Reply',
+                    teacherAuthor: 'Instructor',
+                    studentAuthor: 'You',
+                    scoreChange: 'Revised grade',
+                    status: {
+                        OPEN: 'Pending',
+                        ACCEPTED: 'Accepted',
+                        REJECTED: 'Rejected',
+                    },
+                },
             },
         },
         teacher: {
@@ -1448,6 +1639,7 @@ const dictionaries = {
                     exams: 'Exams',
                     sections: 'Sections',
                     students: 'Students',
+                    accommodations: 'Accommodations',
                 },
                 examsTitle: 'Exams',
                 sectionsTitle: 'Sections',
@@ -1541,6 +1733,38 @@ const dictionaries = {
                 standalonePerfectAnswerPlaceholder: 'e.g. "According to Faraday…"',
             },
         },
+        accommodations: {
+            title: 'Accommodations',
+            subtitle: 'Extra time and individual windows for students or sections.',
+            addButton: 'Add accommodation',
+            empty: 'No accommodations for this course.',
+            loadError: 'Unable to load accommodations.',
+            saveError: 'Unable to save the accommodation.',
+            targetLabel: 'Apply to',
+            targetStudent: 'A student',
+            targetSection: 'A section',
+            studentLabel: 'Student',
+            sectionLabel: 'Section',
+            selectPlaceholder: 'Select…',
+            examLabel: 'Exam',
+            allExams: 'All exams in the course',
+            durationMultiplierLabel: 'Duration multiplier',
+            durationMultiplierPlaceholder: 'e.g. 1.33',
+            extraMinutesLabel: 'Extra minutes',
+            lateStartGraceLabel: 'Grace after the window closes (min)',
+            startAtLabel: 'Individual start',
+            endAtLabel: 'Individual end',
+            reasonLabel: 'Reason (internal)',
+            missingTarget: 'Select a student or a section.',
+            missingRule: 'Fill in at least one rule (duration, minutes, window or grace).',
+            saveButton: 'Save',
+            cancelButton: 'Cancel',
+            editButton: 'Edit',
+            removeButton: 'Remove',
+            removeConfirmTitle: 'Remove this accommodation?',
+            removeConfirmDescription: 'Future attempts will use the standard exam schedule again.',
+            manageButton: 'Accommodations',
+        },
         errors: {
             notFound: {
                 title: 'Page not found',
@@ -0,0 +1,282 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import { generateKeyPairSync, randomUUID } from 'node:crypto'
+import { decodeJwt, nowInSeconds, signRs256Jwt, verifyRs256Jwt, type JwtPayload, type PublicJwk } from './jwt'
+import { LTI_CLAIMS, LTI_VERSION } from './messages'
+
+/**
+ * Minimal LTI 1.3 platform for local testing: it plays the LMS side of the
+ * OIDC login, signs launch id_tokens, receives Deep Linking responses and
+ * records AGS scores. Run it with `npm run lti:fake-platform`.
+ */
+
+export type FakePlatformUser = {
+    sub: string
+    name: string
+    email: string
+    roles: string[]
+}
+
+export type FakePlatformOptions = {
+    /** Public URL of the fake platform (its LTI issuer) */
+    issuer: string
+    clientId?: string
+    deploymentId?: string
+    /** Tool base URL, e.g. http://localhost:3000 */
+    toolUrl: string
+    users?: Record<string, FakePlatformUser>
+}
+
+export type FakePlatformScore = JwtPayload & { lineItemId: string }
+
+const INSTRUCTOR_ROLE = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor'
+const LEARNER_ROLE = 'http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'
+const PLATFORM_KID = 'fake-platform-key'
+
+const DEFAULT_USERS: Record<string, FakePlatformUser> = {
+    teacher: { sub: 'lms-teacher-1', name: 'Ada Teacher', email: 'teacher@lms.test', roles: [INSTRUCTOR_ROLE] },
+    student: { sub: 'lms-student-1', name: 'Sam Student', email: 'student@lms.test', roles: [LEARNER_ROLE] },
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
+const autoPostForm = (action: string, fields: Record<string, string>) => `<!doctype html>
+<html><body onload="document.forms[0].submit()">
+<form method="POST" action="${escapeHtml(action)}">
+${Object.entries(fields).map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`).join('\n')}
+<noscript><button type="submit">Continue</button></noscript>
+</form></body></html>`
+
+const readBody = (req: IncomingMessage) =>
+    new Promise<string>((resolve, reject) => {
+        let body = ''
+        req.setEncoding('utf8')
+        req.on('data', (chunk: string) => { body += chunk })
+        req.on('end', () => resolve(body))
+        req.on('error', reject)
+    })
+
+export function createFakePlatform(options: FakePlatformOptions) {
+    const issuer = options.issuer.replace(/\/$/, '')
+    const clientId = options.clientId ?? 'correcta-tool'
+    const deploymentId = options.deploymentId ?? 'deployment-1'
+    const users = options.users ?? DEFAULT_USERS
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    const jwks: { keys: PublicJwk[] } = {
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: PLATFORM_KID, alg: 'RS256', use: 'sig' }],
+    }
+
+    /** Resource links placed by Deep Linking, keyed by resource link id */
+    const resourceLinks = new Map<string, { title: string; custom: Record<string, string> }>()
+    const scores: FakePlatformScore[] = []
+    const accessTokens = new Set<string>()
+
+    const toolUrl = (path: string) => new URL(path, options.toolUrl).toString()
+
+    /** Signed launch id_token for a user; `overrides` lets tests break individual claims. */
+    const issueIdToken = ({
+        user,
+        nonce,
+        resourceLinkId,
+        deepLinking = false,
+        overrides = {},
+    }: {
+        user: FakePlatformUser
+        nonce: string
+        resourceLinkId?: string
+        deepLinking?: boolean
+        overrides?: JwtPayload
+    }) => {
+        const now = nowInSeconds()
+        const link = resourceLinkId ? resourceLinks.get(resourceLinkId) : undefined
+        const lineItemId = resourceLinkId ?? 'default'
+        const claims: JwtPayload = {
+            iss: issuer,
+            aud: clientId,
+            sub: user.sub,
+            iat: now,
+            exp: now + 300,
+            nonce,
+            name: user.name,
+            email: user.email,
+            [LTI_CLAIMS.version]: LTI_VERSION,
+            [LTI_CLAIMS.deploymentId]: deploymentId,
+            [LTI_CLAIMS.roles]: user.roles,
+            [LTI_CLAIMS.context]: { id: 'course-1', title: 'Fake LMS course' },
+            ...(deepLinking
+                ? {
+                    [LTI_CLAIMS.messageType]: 'LtiDeepLinkingRequest',
+                    [LTI_CLAIMS.deepLinkingSettings]: {
+                        deep_link_return_url: `${issuer}/deep-link-return`,
+                        accept_types: ['ltiResourceLink'],
+                        accept_presentation_document_targets: ['window'],
+                        data: 'fake-data',
+                    },
+                }
+                : {
+                    [LTI_CLAIMS.messageType]: 'LtiResourceLinkRequest',
+                    [LTI_CLAIMS.targetLinkUri]: toolUrl('/api/lti/launch'),
+                    [LTI_CLAIMS.resourceLink]: { id: resourceLinkId, title: link?.title },
+                    [LTI_CLAIMS.custom]: link?.custom ?? {},
+                    [LTI_CLAIMS.ags]: {
+                        scope: [
+                            'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+                            'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+                        ],
+                        lineitems: `${issuer}/lineitems`,
+                        lineitem: `${issuer}/lineitems/${encodeURIComponent(lineItemId)}`,
+                    },
+                }),
+            ...overrides,
+        }
+        return signRs256Jwt(claims, privateKey, PLATFORM_KID)
+    }
+
+    const fetchToolKeys = async () => {
+        const res = await fetch(toolUrl('/api/lti/jwks'))
+        const body = await res.json() as { keys?: PublicJwk[] }
+        return body.keys ?? []
+    }
+
+    /** Verify a message signed by the tool (deep linking response, client assertion). */
+    const verifyToolJwt = async (token: string, keys?: PublicJwk[]) => {
+        const { header } = decodeJwt(token)
+        const toolKeys = keys ?? await fetchToolKeys()
+        return verifyRs256Jwt(token, toolKeys.filter((key) => !header.kid || key.kid === header.kid)).payload
+    }
+
+    const send = (res: ServerResponse, status: number, body: string, contentType = 'application/json') => {
+        res.writeHead(status, { 'Content-Type': contentType })
+        res.end(body)
+    }
+
+    const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? '/', issuer)
+
+        // Public keys of the platform
+        if (req.method === 'GET' && url.pathname === '/jwks') {
+            return send(res, 200, JSON.stringify(jwks))
+        }
+
+        // Start a launch: /launch?user=student&link=<resource link id> or /launch?user=teacher&deep_linking=1
+        if (req.method === 'GET' && url.pathname === '/launch') {
+            const login = new URL(toolUrl('/api/lti/login'))
+            login.searchParams.set('iss', issuer)
+            login.searchParams.set('client_id', clientId)
+            login.searchParams.set('lti_deployment_id', deploymentId)
+            login.searchParams.set('login_hint', url.searchParams.get('user') ?? 'student')
+            login.searchParams.set('target_link_uri', toolUrl('/api/lti/launch'))
+            login.searchParams.set(
+                'lti_message_hint',
+                url.searchParams.get('deep_linking') ? 'deep-linking' : url.searchParams.get('link') ?? 'link-1'
+            )
+            res.writeHead(302, { Location: login.toString() })
+            return res.end()
+        }
+
+        // OIDC authorization endpoint: answers with the id_token as a form post
+        if (req.method === 'GET' && url.pathname === '/auth') {
+            const params = url.searchParams
+            const user = users[params.get('login_hint') ?? '']
+            const redirectUri = params.get('redirect_uri')
+            if (!user || params.get('client_id') !== clientId || !redirectUri || !params.get('nonce')) {
+                return send(res, 400, JSON.stringify({ error: 'invalid_request' }))
+            }
+            const hint = params.get('lti_message_hint') ?? 'link-1'
+            const idToken = issueIdToken({
+                user,
+                nonce: params.get('nonce') as string,
+                deepLinking: hint === 'deep-linking',
+                resourceLinkId: hint === 'deep-linking' ? undefined : hint,
+            })
+            return send(res, 200, autoPostForm(redirectUri, { id_token: idToken, state: params.get('state') ?? '' }), 'text/html')
+        }
+
+        // Deep Linking return: records the placed resource link
+        if (req.method === 'POST' && url.pathname === '/deep-link-return') {
+            const jwt = new URLSearchParams(await readBody(req)).get('JWT') ?? ''
+            const payload = await verifyToolJwt(jwt)
+            const items = (payload[LTI_CLAIMS.contentItems] as Array<{ title?: string; custom?: Record<string, string> }>) ?? []
+            const placed = items.map((item) => {
+                const id = `link-${resourceLinks.size + 1}`
+                resourceLinks.set(id, { title: item.title ?? id, custom: item.custom ?? {} })
+                return { id, ...item }
+            })
+            return send(res, 200, JSON.stringify({ placed }, null, 2))
+        }
+
+        // OAuth2 token endpoint for AGS (client_credentials with a JWT assertion)
+        if (req.method === 'POST' && url.pathname === '/token') {
+            const params = new URLSearchParams(await readBody(req))
+            const assertion = params.get('client_assertion') ?? ''
+            try {
+                const payload = await verifyToolJwt(assertion)
+                if (payload.iss !== clientId || payload.sub !== clientId || payload.aud !== `${issuer}/token`) {
+                    return send(res, 401, JSON.stringify({ error: 'invalid_client' }))
+                }
+            } catch {
+                return send(res, 401, JSON.stringify({ error: 'invalid_client' }))
+            }
+            const token = randomUUID()
+            accessTokens.add(token)
+            return send(res, 200, JSON.stringify({
+                access_token: token,
+                token_type: 'Bearer',
+                expires_in: 3600,
+                scope: params.get('scope') ?? '',
+            }))
+        }
+
+        // AGS scores service
+        const scoreMatch = url.pathname.match(/^\/lineitems\/([^/]+)\/scores$/)
+        if (req.method === 'POST' && scoreMatch) {
+            const token = (req.headers.authorization ?? '').replace(/^Bearer /, '')
+            if (!accessTokens.has(token)) {
+                return send(res, 401, JSON.stringify({ error: 'invalid_token' }))
+            }
+            scores.push({ ...(JSON.parse(await readBody(req)) as JwtPayload), lineItemId: decodeURIComponent(scoreMatch[1]) })
+            return send(res, 200, '{}')
+        }
+
+        if (req.method === 'GET' && url.pathname === '/scores') {
+            return send(res, 200, JSON.stringify(scores, null, 2))
+        }
+
+        return send(res, 404, JSON.stringify({ error: 'not_found' }))
+    }
+
+    const listen = (port: number) =>
+        new Promise<Server>((resolve) => {
+            const server = createServer((req, res) => {
+                handleRequest(req, res).catch((error) => {
+                    console.error('[Fake LMS] Request failed', error)
+                    send(res, 500, JSON.stringify({ error: String(error) }))
+                })
+            })
+            server.listen(port, () => resolve(server))
+        })
+
+    return {
+        issuer,
+        clientId,
+        deploymentId,
+        jwks,
+        users,
+        resourceLinks,
+        scores,
+        /** Values to enter in the Correcta LMS registration */
+        registration: {
+            lmsType: 'MOODLE',
+            issuer,
+            clientId,
+            deploymentId,
+            authLoginUrl: `${issuer}/auth`,
+            accessTokenUrl: `${issuer}/token`,
+            jwksUrl: `${issuer}/jwks`,
+        },
+        issueIdToken,
+        verifyToolJwt,
+        handleRequest,
+        listen,
+    }
+}
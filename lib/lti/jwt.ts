@@ -0,0 +1,145 @@
+import {
+    createHmac,
+    createPrivateKey,
+    createPublicKey,
+    generateKeyPairSync,
+    sign,
+    timingSafeEqual,
+    verify,
+    type JsonWebKey,
+    type KeyObject,
+} from 'node:crypto'
+
+/**
+ * Minimal JWT support for LTI 1.3 (RS256 with platform/tool key pairs) and for
+ * short-lived tokens Correcta signs for itself (HS256).
+ */
+
+export class LtiError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message)
+        this.name = 'LtiError'
+    }
+}
+
+export type JwtHeader = { alg: string; typ?: string; kid?: string }
+export type JwtPayload = Record<string, unknown> & {
+    iss?: string
+    sub?: string
+    aud?: string | string[]
+    exp?: number
+    iat?: number
+    nbf?: number
+    nonce?: string
+}
+
+/** Public key entry of a JWKS document. */
+export type PublicJwk = JsonWebKey & { kid?: string; alg?: string; use?: string }
+
+const CLOCK_SKEW_SECONDS = 60
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+const decodeSegment = <T>(segment: string): T => {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T
+    } catch {
+        throw new LtiError('Malformed JWT')
+    }
+}
+
+export const nowInSeconds = () => Math.floor(Date.now() / 1000)
+
+/** Split a compact JWT without checking its signature. */
+export const decodeJwt = (token: string) => {
+    const parts = token.split('.')
+    if (parts.length !== 3 || parts.some((part) => !part)) {
+        throw new LtiError('Malformed JWT')
+    }
+    return {
+        header: decodeSegment<JwtHeader>(parts[0]),
+        payload: decodeSegment<JwtPayload>(parts[1]),
+        signingInput: `${parts[0]}.${parts[1]}`,
+        signature: Buffer.from(parts[2], 'base64url'),
+    }
+}
+
+/** Check exp/nbf/iat with a small clock skew allowance. */
+export const assertJwtTimes = (payload: JwtPayload, now: number = nowInSeconds()) => {
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new LtiError('JWT expired')
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+        throw new LtiError('JWT not yet valid')
+    }
+    if (typeof payload.iat === 'number' && payload.iat - CLOCK_SKEW_SECONDS > now) {
+        throw new LtiError('JWT issued in the future')
+    }
+}
+
+export const signRs256Jwt = (payload: JwtPayload, privateKey: KeyObject | string, kid?: string) => {
+    const header: JwtHeader = { alg: 'RS256', typ: 'JWT', ...(kid ? { kid } : {}) }
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`
+    const key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey
+    return `${signingInput}.${sign('RSA-SHA256', Buffer.from(signingInput), key).toString('base64url')}`
+}
+
+/**
+ * Verify an RS256 JWT against a JWKS. The key is picked by `kid`, or the only
+ * key of the set when the token has none. Times are checked; claims are not.
+ */
+export const verifyRs256Jwt = (token: string, keys: PublicJwk[], now: number = nowInSeconds()) => {
+    const { header, payload, signingInput, signature } = decodeJwt(token)
+    if (header.alg !== 'RS256') {
+        throw new LtiError(`Unsupported JWT algorithm "${header.alg}"`)
+    }
+    const candidates = keys.filter((key) => key.kty === 'RSA' && (!key.use || key.use === 'sig'))
+    const jwk = header.kid
+        ? candidates.find((key) => key.kid === header.kid)
+        : candidates.length === 1 ? candidates[0] : undefined
+    if (!jwk) {
+        throw new LtiError('No matching key in platform JWKS', 401)
+    }
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' })
+    if (!verify('RSA-SHA256', Buffer.from(signingInput), publicKey, signature)) {
+        throw new LtiError('Invalid JWT signature', 401)
+    }
+    assertJwtTimes(payload, now)
+    return { header, payload }
+}
+
+const hmac = (signingInput: string, secret: string) =>
+    createHmac('sha256', secret).update(signingInput).digest()
+
+/** Sign a token Correcta verifies itself (OIDC state, login handoff, deep linking context). */
+export const signHs256Jwt = (payload: JwtPayload, secret: string) => {
+    const signingInput = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(payload)}`
+    return `${signingInput}.${hmac(signingInput, secret).toString('base64url')}`
+}
+
+export const verifyHs256Jwt = (token: string, secret: string, now: number = nowInSeconds()) => {
+    const { header, payload, signingInput, signature } = decodeJwt(token)
+    if (header.alg !== 'HS256') {
+        throw new LtiError('Invalid token', 401)
+    }
+    const expected = hmac(signingInput, secret)
+    if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+        throw new LtiError('Invalid token', 401)
+    }
+    assertJwtTimes(payload, now)
+    return payload
+}
+
+/** New RS256 key pair for a platform registration, private key as PKCS#8 PEM. */
+export const generateToolKeyPair = () => {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+    return privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+}
+
+/** Public JWK of a PEM private key, as published on the tool JWKS endpoint. */
+export const toPublicJwk = (privateKeyPem: string, kid: string): PublicJwk => ({
+    ...createPublicKey(createPrivateKey(privateKeyPem)).export({ format: 'jwk' }),
+    kid,
+    alg: 'RS256',
+    use: 'sig',
+})
@@ -0,0 +1,244 @@
+import { randomUUID } from 'node:crypto'
+import { LtiError, nowInSeconds, type JwtPayload } from './jwt'
+
+/**
+ * LTI 1.3 message handling: launch claim validation, Deep Linking responses and
+ * Assignment and Grade Services (AGS) score payloads.
+ */
+
+export const LTI_VERSION = '1.3.0'
+
+export const LTI_CLAIMS = {
+    messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+    version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+    deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+    targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+    resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+    roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+    context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+    custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+    deepLinkingSettings: 'https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings',
+    contentItems: 'https://purl.imsglobal.org/spec/lti-dl/claim/content_items',
+    deepLinkingData: 'https://purl.imsglobal.org/spec/lti-dl/claim/data',
+    ags: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+} as const
+
+export const AGS_SCOPES = {
+    lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+    score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+} as const
+
+export type LtiMessageType = 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest'
+
+export type LtiRole = 'TEACHER' | 'STUDENT'
+
+export type LtiLaunch = {
+    messageType: LtiMessageType
+    issuer: string
+    clientId: string
+    deploymentId: string
+    sub: string
+    email: string | null
+    name: string | null
+    role: LtiRole
+    contextId: string | null
+    contextTitle: string | null
+    resourceLinkId: string | null
+    custom: Record<string, string>
+    lineItemUrl: string | null
+    lineItemsUrl: string | null
+    deepLinking: { returnUrl: string; data: string | null } | null
+}
+
+export type LtiRegistration = {
+    issuer: string
+    clientId: string
+    /** null accepts every deployment of the client */
+    deploymentId: string | null
+}
+
+const TEACHER_ROLES = ['Instructor', 'Administrator', 'ContentDeveloper', 'TeachingAssistant', 'Mentor']
+
+/**
+ * Map LTI role URIs to a Correcta role. Context, institution and system roles
+ * share the same short names, so only the fragment after `#` is compared.
+ */
+export const mapLtiRoles = (roles: unknown): LtiRole => {
+    if (!Array.isArray(roles)) return 'STUDENT'
+    const names = roles
+        .filter((role): role is string => typeof role === 'string')
+        .map((role) => role.split('#').pop()?.split('/').pop() ?? role)
+    return names.some((name) => TEACHER_ROLES.includes(name)) ? 'TEACHER' : 'STUDENT'
+}
+
+/**
+ * Whether a first launch may be linked to an existing account by the email the
+ * platform asserts. Platforms do not prove that the user owns that email, so
+ * only students and teachers of the platform's institution are linked; admins
+ * and accounts outside the institution are never taken over from an LMS.
+ */
+export const canAutoLinkLtiUser = (
+    user: { role: string; institutionId: string | null; archivedAt: Date | null },
+    institutionId: string
+) =>
+    !user.archivedAt
+    && user.institutionId === institutionId
+    && (user.role === 'STUDENT' || user.role === 'TEACHER')
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+
+const asString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : null)
+
+/**
+ * Validate the claims of a verified launch id_token against the platform
+ * registration and the nonce stored at login initiation.
+ */
+export const validateLaunchClaims = (
+    claims: JwtPayload,
+    registration: LtiRegistration,
+    expectedNonce: string
+): LtiLaunch => {
+    if (claims.iss !== registration.issuer) {
+        throw new LtiError('Unexpected issuer', 401)
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(registration.clientId)) {
+        throw new LtiError('Token audience does not match the client id', 401)
+    }
+    if (audiences.length > 1 && claims.azp !== registration.clientId) {
+        throw new LtiError('Token authorized party does not match the client id', 401)
+    }
+    if (!claims.nonce || claims.nonce !== expectedNonce) {
+        throw new LtiError('Invalid nonce', 401)
+    }
+    const sub = asString(claims.sub)
+    if (!sub) {
+        throw new LtiError('Anonymous launches are not supported')
+    }
+
+    if (claims[LTI_CLAIMS.version] !== LTI_VERSION) {
+        throw new LtiError('Unsupported LTI version')
+    }
+    const messageType = claims[LTI_CLAIMS.messageType]
+    if (messageType !== 'LtiResourceLinkRequest' && messageType !== 'LtiDeepLinkingRequest') {
+        throw new LtiError('Unsupported LTI message type')
+    }
+    const deploymentId = asString(claims[LTI_CLAIMS.deploymentId])
+    if (!deploymentId || (registration.deploymentId && deploymentId !== registration.deploymentId)) {
+        throw new LtiError('Unknown deployment', 401)
+    }
+
+    const resourceLink = asRecord(claims[LTI_CLAIMS.resourceLink])
+    const resourceLinkId = asString(resourceLink?.id)
+    if (messageType === 'LtiResourceLinkRequest' && !resourceLinkId) {
+        throw new LtiError('Missing resource link')
+    }
+
+    let deepLinking: LtiLaunch['deepLinking'] = null
+    if (messageType === 'LtiDeepLinkingRequest') {
+        const settings = asRecord(claims[LTI_CLAIMS.deepLinkingSettings])
+        const returnUrl = asString(settings?.deep_link_return_url)
+        if (!returnUrl) {
+            throw new LtiError('Missing deep linking return URL')
+        }
+        deepLinking = { returnUrl, data: asString(settings?.data) }
+    }
+
+    const context = asRecord(claims[LTI_CLAIMS.context])
+    const ags = asRecord(claims[LTI_CLAIMS.ags])
+    const custom = Object.fromEntries(
+        Object.entries(asRecord(claims[LTI_CLAIMS.custom]) ?? {})
+            .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    )
+    const name = asString(claims.name)
+        ?? ([asString(claims.given_name), asString(claims.family_name)].filter(Boolean).join(' ') || null)
+
+    return {
+        messageType,
+        issuer: registration.issuer,
+        clientId: registration.clientId,
+        deploymentId,
+        sub,
+        email: asString(claims.email)?.toLowerCase() ?? null,
+        name,
+        role: mapLtiRoles(claims[LTI_CLAIMS.roles]),
+        contextId: asString(context?.id),
+        contextTitle: asString(context?.title),
+        resourceLinkId,
+        custom,
+        lineItemUrl: asString(ags?.lineitem),
+        lineItemsUrl: asString(ags?.lineitems),
+        deepLinking,
+    }
+}
+
+/**
+ * Claims of the Deep Linking response JWT placing an exam in the course. The
+ * exam id travels as a custom parameter so later launches resolve it.
+ */
+export const buildDeepLinkingResponse = ({
+    issuer,
+    clientId,
+    deploymentId,
+    data,
+    exam,
+    launchUrl,
+    now = nowInSeconds(),
+}: {
+    issuer: string
+    clientId: string
+    deploymentId: string
+    data: string | null
+    exam: { id: string; title: string; maxScore: number | null }
+    launchUrl: string
+    now?: number
+}): JwtPayload => ({
+    iss: clientId,
+    aud: issuer,
+    iat: now,
+    exp: now + 600,
+    nonce: randomUUID(),
+    [LTI_CLAIMS.messageType]: 'LtiDeepLinkingResponse',
+    [LTI_CLAIMS.version]: LTI_VERSION,
+    [LTI_CLAIMS.deploymentId]: deploymentId,
+    ...(data ? { [LTI_CLAIMS.deepLinkingData]: data } : {}),
+    [LTI_CLAIMS.contentItems]: [
+        {
+            type: 'ltiResourceLink',
+            title: exam.title,
+            url: launchUrl,
+            custom: { exam_id: exam.id },
+            ...(exam.maxScore && exam.maxScore > 0
+                ? { lineItem: { scoreMaximum: exam.maxScore, label: exam.title, resourceId: exam.id } }
+                : {}),
+        },
+    ],
+})
+
+/** AGS score for one student, sent to `<lineitem>/scores`. */
+export const buildScorePayload = ({
+    userId,
+    scoreGiven,
+    scoreMaximum,
+    timestamp = new Date(),
+}: {
+    userId: string
+    scoreGiven: number
+    scoreMaximum: number
+    timestamp?: Date
+}) => ({
+    userId,
+    scoreGiven: Math.min(Math.max(scoreGiven, 0), scoreMaximum),
+    scoreMaximum,
+    activityProgress: 'Completed',
+    gradingProgress: 'FullyGraded',
+    timestamp: timestamp.toISOString(),
+})
+
+/** URL of the scores service of a line item (query string kept after the path). */
+export const getScoresUrl = (lineItemUrl: string) => {
+    const url = new URL(lineItemUrl)
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`
+    return url.toString()
+}
@@ -0,0 +1,484 @@
+import { randomUUID } from 'node:crypto'
+import type { LMSConfig } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { decrypt, encrypt } from '@/lib/encryption'
+import { applyAttemptQuestionSelection, isPoolSection } from '@/lib/question-pools'
+import {
+    LtiError,
+    generateToolKeyPair,
+    nowInSeconds,
+    signHs256Jwt,
+    signRs256Jwt,
+    toPublicJwk,
+    verifyHs256Jwt,
+    verifyRs256Jwt,
+    type JwtPayload,
+    type PublicJwk,
+} from '@/lib/lti/jwt'
+import {
+    AGS_SCOPES,
+    buildScorePayload,
+    canAutoLinkLtiUser,
+    getScoresUrl,
+    validateLaunchClaims,
+    type LtiLaunch,
+} from '@/lib/lti/messages'
+import { claimLtiTokenId } from '@/lib/lti/replay'
+
+/**
+ * Server side of the LTI 1.3 tool: platform registrations (LMSConfig), keys,
+ * launch verification, account provisioning and grade passback.
+ */
+
+/** Cookie holding the signed OIDC state and nonce between login and launch. */
+export const LTI_STATE_COOKIE = 'correcta-lti-state'
+
+/** Cookie carrying the handoff token from the launch to the /lti/launch page, kept out of the URL. */
+export const LTI_HANDOFF_COOKIE = 'correcta-lti-handoff'
+
+const STATE_TTL_SECONDS = 600
+export const HANDOFF_TTL_SECONDS = 120
+const JWKS_CACHE_TTL_MS = 5 * 60 * 1000
+
+const getLtiSecret = () => {
+    const secret = process.env.NEXTAUTH_SECRET
+    if (!secret) {
+        throw new Error('NEXTAUTH_SECRET must be set for LTI')
+    }
+    return secret
+}
+
+/** Public URL of the tool, used in redirects and in the registration endpoints. */
+export const getToolUrl = (path: string, fallbackOrigin?: string) => {
+    const base = process.env.NEXTAUTH_URL || fallbackOrigin || 'http://localhost:3000'
+    return new URL(path, base).toString()
+}
+
+export const isLtiPlatformConfigured = (config: LMSConfig) =>
+    Boolean(config.issuer && config.clientId && config.authLoginUrl && config.jwksUrl)
+
+/**
+ * Registration matching a login or launch. `client_id` is optional at login
+ * initiation, in which case the issuer must identify a single registration.
+ */
+export async function findLmsConfig(issuer: string, clientId?: string | null) {
+    const configs = await prisma.lMSConfig.findMany({
+        where: { issuer, ...(clientId ? { clientId } : {}) },
+        take: 2,
+    })
+    if (configs.length !== 1 || !isLtiPlatformConfigured(configs[0])) {
+        throw new LtiError('Unknown LTI platform', 404)
+    }
+    return configs[0]
+}
+
+/** Tool private key of a registration, generated and stored encrypted on first use. */
+export async function getToolPrivateKey(config: Pick<LMSConfig, 'id' | 'ltiKey'>) {
+    if (config.ltiKey) {
+        return decrypt(config.ltiKey)
+    }
+    const privateKey = generateToolKeyPair()
+    const updated = await prisma.lMSConfig.updateMany({
+        where: { id: config.id, ltiKey: null },
+        data: { ltiKey: encrypt(privateKey) },
+    })
+    if (updated.count === 0) {
+        // Another request generated the key first
+        const current = await prisma.lMSConfig.findUniqueOrThrow({ where: { id: config.id }, select: { ltiKey: true } })
+        return decrypt(current.ltiKey as string)
+    }
+    return privateKey
+}
+
+/** Public keys of every registration, served on the tool JWKS endpoint (kid = registration id). */
+export async function getToolJwks(): Promise<{ keys: PublicJwk[] }> {
+    const configs = await prisma.lMSConfig.findMany({
+        where: { ltiKey: { not: null } },
+        select: { id: true, ltiKey: true },
+    })
+    const keys = configs.flatMap((config) => {
+        try {
+            return [toPublicJwk(decrypt(config.ltiKey as string), config.id)]
+        } catch (error) {
+            console.error('[LTI] Unreadable tool key', { lmsConfigId: config.id, error })
+            return []
+        }
+    })
+    return { keys }
+}
+
+const jwksCache = new Map<string, { keys: PublicJwk[]; fetchedAt: number }>()
+
+async function fetchPlatformJwks(jwksUrl: string, forceRefresh = false) {
+    const cached = jwksCache.get(jwksUrl)
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+        return cached.keys
+    }
+    const res = await fetch(jwksUrl, { headers: { Accept: 'application/json' }, cache: 'no-store' })
+    if (!res.ok) {
+        throw new LtiError(`Platform JWKS request failed (${res.status})`, 502)
+    }
+    const body = await res.json() as { keys?: PublicJwk[] }
+    const keys = Array.isArray(body.keys) ? body.keys : []
+    jwksCache.set(jwksUrl, { keys, fetchedAt: Date.now() })
+    return keys
+}
+
+/** Verify a launch id_token: signature against the platform JWKS, then LTI claims. */
+export async function verifyLaunchToken(idToken: string, config: LMSConfig, expectedNonce: string): Promise<LtiLaunch> {
+    const jwksUrl = config.jwksUrl as string
+    let payload: JwtPayload
+    try {
+        payload = verifyRs256Jwt(idToken, await fetchPlatformJwks(jwksUrl)).payload
+    } catch (error) {
+        // Platforms rotate keys: retry once with a fresh JWKS when the kid is unknown
+        if (!(error instanceof LtiError) || error.message !== 'No matching key in platform JWKS') throw error
+        payload = verifyRs256Jwt(idToken, await fetchPlatformJwks(jwksUrl, true)).payload
+    }
+    return validateLaunchClaims(
+        payload,
+        { issuer: config.issuer as string, clientId: config.clientId as string, deploymentId: config.deploymentId },
+        expectedNonce
+    )
+}
+
+export type LtiState = { state: string; nonce: string; lmsConfigId: string }
+
+export const signLtiState = (value: LtiState) => {
+    const now = nowInSeconds()
+    return signHs256Jwt({ ...value, typ: 'lti-state', iat: now, exp: now + STATE_TTL_SECONDS }, getLtiSecret())
+}
+
+export const verifyLtiState = (token: string): LtiState => {
+    const payload = verifyHs256Jwt(token, getLtiSecret())
+    if (payload.typ !== 'lti-state') {
+        throw new LtiError('Invalid LTI state', 401)
+    }
+    return { state: String(payload.state), nonce: String(payload.nonce), lmsConfigId: String(payload.lmsConfigId) }
+}
+
+/**
+ * Short-lived, single-use token exchanged for a session by the `lti` credentials
+ * provider. The redirect target is signed with it so it cannot be swapped.
+ */
+export const signLtiHandoff = (userId: string, next: string) => {
+    const now = nowInSeconds()
+    return signHs256Jwt(
+        { sub: userId, next, typ: 'lti-handoff', jti: randomUUID(), iat: now, exp: now + HANDOFF_TTL_SECONDS },
+        getLtiSecret()
+    )
+}
+
+export const verifyLtiHandoff = (token: string) => {
+    const payload = verifyHs256Jwt(token, getLtiSecret())
+    if (payload.typ !== 'lti-handoff' || typeof payload.sub !== 'string' || typeof payload.next !== 'string') {
+        throw new LtiError('Invalid LTI token', 401)
+    }
+    return { userId: payload.sub, next: payload.next, jti: payload.jti }
+}
+
+/** Verifies the handoff token and burns its id, so a leaked token cannot open a second session. */
+export async function consumeLtiHandoff(token: string) {
+    const { userId, next, jti } = verifyLtiHandoff(token)
+    // Remembered past the expiry, which verification accepts with some clock skew
+    if (typeof jti !== 'string' || !await claimLtiTokenId(jti, HANDOFF_TTL_SECONDS * 2)) {
+        throw new LtiError('LTI token already used', 401)
+    }
+    return { userId, next }
+}
+
+export type LtiDeepLinkingContext = {
+    lmsConfigId: string
+    deploymentId: string
+    returnUrl: string
+    data: string | null
+    userId: string
+}
+
+export const signDeepLinkingContext = (context: LtiDeepLinkingContext) => {
+    const now = nowInSeconds()
+    return signHs256Jwt({ ...context, typ: 'lti-deep-linking', iat: now, exp: now + STATE_TTL_SECONDS }, getLtiSecret())
+}
+
+export const verifyDeepLinkingContext = (token: string): LtiDeepLinkingContext => {
+    const payload = verifyHs256Jwt(token, getLtiSecret())
+    if (payload.typ !== 'lti-deep-linking') {
+        throw new LtiError('Invalid deep linking context', 401)
+    }
+    return {
+        lmsConfigId: String(payload.lmsConfigId),
+        deploymentId: String(payload.deploymentId),
+        returnUrl: String(payload.returnUrl),
+        data: typeof payload.data === 'string' ? payload.data : null,
+        userId: String(payload.userId),
+    }
+}
+
+/**
+ * Correcta user of an LMS account: the linked user, else the student or
+ * teacher of the institution with the same email (see canAutoLinkLtiUser),
+ * else a new account. Existing users keep their role and institution.
+ */
+export async function provisionLtiUser(config: LMSConfig, launch: LtiLaunch) {
+    const link = await prisma.ltiUserLink.findUnique({
+        where: { lmsConfigId_sub: { lmsConfigId: config.id, sub: launch.sub } },
+        include: { user: true },
+    })
+    if (link) {
+        if (link.user.archivedAt) throw new LtiError('Account disabled', 403)
+        return link.user
+    }
+
+    if (!launch.email) {
+        throw new LtiError('The platform did not share an email address for this user', 403)
+    }
+
+    let user = await prisma.user.findUnique({ where: { email: launch.email } })
+    if (user && !canAutoLinkLtiUser(user, config.institutionId)) {
+        throw new LtiError('This email belongs to another account', 403)
+    }
+    if (!user) {
+        user = await prisma.user.create({
+            data: {
+                email: launch.email,
+                name: launch.name ?? launch.email,
+                role: launch.role,
+                institutionId: config.institutionId,
+            },
+        })
+    }
+
+    await prisma.ltiUserLink.create({ data: { lmsConfigId: config.id, sub: launch.sub, userId: user.id } })
+    return user
+}
+
+/**
+ * Exam of a resource link launch. The first launch of a link placed by Deep
+ * Linking carries the exam id as a custom parameter; later launches reuse the
+ * stored link and refresh its AGS endpoints.
+ */
+export async function resolveLaunchExam(config: LMSConfig, launch: LtiLaunch) {
+    const resourceLinkId = launch.resourceLinkId as string
+    const existing = await prisma.ltiResourceLink.findUnique({
+        where: { lmsConfigId_resourceLinkId: { lmsConfigId: config.id, resourceLinkId } },
+    })
+    const examId = existing?.examId ?? launch.custom.exam_id
+    if (!examId) {
+        throw new LtiError('This link is not attached to a Correcta exam', 404)
+    }
+
+    const exam = await prisma.exam.findUnique({
+        where: { id: examId },
+        select: {
+            id: true,
+            classId: true,
+            classIds: true,
+            parentExamId: true,
+            archivedAt: true,
+            course: { select: { id: true, institutionId: true, archivedAt: true } },
+        },
+    })
+    if (!exam || exam.archivedAt || exam.course.archivedAt || exam.course.institutionId !== config.institutionId) {
+        throw new LtiError('Exam not found', 404)
+    }
+
+    const agsData = {
+        contextId: launch.contextId,
+        lineItemUrl: launch.lineItemUrl ?? existing?.lineItemUrl ?? null,
+        lineItemsUrl: launch.lineItemsUrl ?? existing?.lineItemsUrl ?? null,
+    }
+    await prisma.ltiResourceLink.upsert({
+        where: { lmsConfigId_resourceLinkId: { lmsConfigId: config.id, resourceLinkId } },
+        create: { lmsConfigId: config.id, resourceLinkId, examId: exam.id, ...agsData },
+        update: agsData,
+    })
+    return exam
+}
+
+/**
+ * Enroll a launching student in the class the exam targets so the usual
+ * access checks let them start it. Only enrollments LTI created come back
+ * from archive: one the directory or a teacher archived refuses the launch.
+ */
+export async function enrollLtiStudent(
+    userId: string,
+    exam: { classId: string | null; classIds: string[]; course: { id: string } }
+) {
+    const classId = exam.classId
+        ?? exam.classIds[0]
+        ?? (await prisma.class.findFirst({
+            where: { courseId: exam.course.id, archivedAt: null },
+            orderBy: { name: 'asc' },
+            select: { id: true },
+        }))?.id
+    if (!classId) return
+    const enrollment = await prisma.enrollment.upsert({
+        where: { userId_classId: { userId, classId } },
+        create: { userId, classId, role: 'STUDENT', source: 'LTI' },
+        update: {},
+        select: { source: true, archivedAt: true },
+    })
+    if (!enrollment.archivedAt) return
+    if (enrollment.source !== 'LTI') {
+        throw new LtiError('The student is no longer enrolled in this class', 403)
+    }
+    await prisma.enrollment.updateMany({
+        where: { userId, classId, source: 'LTI' },
+        data: { archivedAt: null },
+    })
+}
+
+/** OAuth2 client_credentials token for AGS, authenticated with a signed JWT assertion. */
+async function getAgsAccessToken(config: LMSConfig) {
+    if (!config.accessTokenUrl || !config.clientId) {
+        throw new LtiError('The platform has no token endpoint configured', 400)
+    }
+    const now = nowInSeconds()
+    const assertion = signRs256Jwt(
+        {
+            iss: config.clientId,
+            sub: config.clientId,
+            aud: config.accessTokenUrl,
+            iat: now,
+            exp: now + 300,
+            jti: randomUUID(),
+        },
+        await getToolPrivateKey(config),
+        config.id
+    )
+    const res = await fetch(config.accessTokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+            client_assertion: assertion,
+            scope: [AGS_SCOPES.score, AGS_SCOPES.lineItem].join(' '),
+        }),
+        cache: 'no-store',
+    })
+    if (!res.ok) {
+        throw new LtiError(`Platform token request failed (${res.status})`, 502)
+    }
+    const body = await res.json() as { access_token?: string }
+    if (!body.access_token) {
+        throw new LtiError('Platform token response has no access token', 502)
+    }
+    return body.access_token
+}
+
+export type LtiScorePushResult = { links: number; pushed: number; skipped: number; failed: number }
+
+/**
+ * Send the final score of every graded attempt of an exam to each LMS line
+ * item the exam is placed in. Students without an LMS account link are skipped.
+ */
+export async function pushExamScoresToLms(examId: string): Promise<LtiScorePushResult> {
+    const result: LtiScorePushResult = { links: 0, pushed: 0, skipped: 0, failed: 0 }
+    const links = await prisma.ltiResourceLink.findMany({
+        where: { examId, lineItemUrl: { not: null } },
+        include: { lmsConfig: true },
+    })
+    if (links.length === 0) return result
+    result.links = links.length
+
+    const exam = await prisma.exam.findUnique({
+        where: { id: examId },
+        select: {
+            sections: {
+                select: {
+                    id: true,
+                    questions: { select: { id: true, segments: { select: { maxPoints: true } } } },
+                },
+            },
+        },
+    })
+    if (!exam) return result
+
+    const attempts = await prisma.attempt.findMany({
+        where: { examId, status: 'GRADED' },
+        select: {
+            studentId: true,
+            questionSelection: true,
+            submittedAt: true,
+            answers: { select: { grades: { select: { score: true } } } },
+        },
+    })
+
+    const tokens = new Map<string, string>()
+    for (const link of links) {
+        const subs = new Map(
+            (await prisma.ltiUserLink.findMany({
+                where: { lmsConfigId: link.lmsConfigId, userId: { in: attempts.map((attempt) => attempt.studentId) } },
+                select: { userId: true, sub: true },
+            })).map((userLink) => [userLink.userId, userLink.sub])
+        )
+
+        let accessToken = tokens.get(link.lmsConfigId)
+        if (!accessToken) {
+            try {
+                accessToken = await getAgsAccessToken(link.lmsConfig)
+                tokens.set(link.lmsConfigId, accessToken)
+            } catch (error) {
+                console.error('[LTI] AGS token error', { lmsConfigId: link.lmsConfigId, error })
+                result.failed += attempts.length
+                continue
+            }
+        }
+
+        for (const attempt of attempts) {
+            const sub = subs.get(attempt.studentId)
+            const scoreMaximum = applyAttemptQuestionSelection(exam.sections, attempt.questionSelection)
+                .flatMap((section) => section.questions)
+                .reduce((sum, question) => sum + question.segments.reduce((total, seg) => total + (seg.maxPoints || 0), 0), 0)
+            if (!sub || scoreMaximum <= 0) {
+                result.skipped++
+                continue
+            }
+            const scoreGiven = attempt.answers.reduce((sum, answer) => sum + (answer.grades[0]?.score ?? 0), 0)
+            try {
+                const res = await fetch(getScoresUrl(link.lineItemUrl as string), {
+                    method: 'POST',
+                    headers: {
+                        Authorization: `Bearer ${accessToken}`,
+                        'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+                    },
+                    body: JSON.stringify(buildScorePayload({
+                        userId: sub,
+                        scoreGiven,
+                        scoreMaximum,
+                        timestamp: attempt.submittedAt ?? new Date(),
+                    })),
+                    cache: 'no-store',
+                })
+                if (res.ok) {
+                    result.pushed++
+                } else {
+                    console.error('[LTI] Score push failed', { resourceLinkId: link.id, status: res.status })
+                    result.failed++
+                }
+            } catch (error) {
+                // An unreachable platform fails this score, not the rest of the push
+                console.error('[LTI] Score push error', { resourceLinkId: link.id, error })
+                result.failed++
+            }
+        }
+    }
+    return result
+}
+
+/**
+ * Maximum score declared on the line item created by Deep Linking. Pool
+ * sections draw different questions per student, so the maximum is only
+ * known when the exam has none; platforms rescale each pushed score anyway.
+ */
+export function getExamLineItemMaximum(sections: Array<{
+    poolDrawCount?: number | null
+    questions: Array<{ segments: Array<{ maxPoints: number | null }> }>
+}>) {
+    if (sections.some(isPoolSection)) return 100
+    const total = sections
+        .flatMap((section) => section.questions)
+        .reduce((sum, question) => sum + question.segments.reduce((acc, seg) => acc + (seg.maxPoints || 0), 0), 0)
+    return total > 0 ? total : null
+}
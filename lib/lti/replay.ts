@@ -0,0 +1,48 @@
+import Redis from 'ioredis'
+
+/**
+ * One-time use of the tokens Correcta signs for itself: the first claim of a
+ * token id wins, later claims are replays. Redis backs it so every web process
+ * shares the used ids; the in-memory fallback only covers development.
+ */
+
+const KEY_PREFIX = 'lti:jti'
+
+const memoryExpiry = new Map<string, number>()
+let redisClient: Redis | null = null
+
+const getRedisClient = (): Redis | null => {
+    const redisUrl = process.env.REDIS_URL
+    if (!redisUrl) {
+        if (process.env.NODE_ENV === 'production') {
+            throw new Error('LTI token replay protection requires Redis in production')
+        }
+        return null
+    }
+    if (!redisClient) {
+        redisClient = new Redis(redisUrl, {
+            maxRetriesPerRequest: 1,
+            enableReadyCheck: false
+        })
+    }
+    return redisClient
+}
+
+/** Returns false when the token id was already claimed within `ttlSeconds`. */
+export async function claimLtiTokenId(jti: string, ttlSeconds: number): Promise<boolean> {
+    const key = `${KEY_PREFIX}:${jti}`
+    const redis = getRedisClient()
+
+    if (redis) {
+        const result = await redis.set(key, '1', 'EX', ttlSeconds, 'NX')
+        return result === 'OK'
+    }
+
+    const now = Date.now()
+    const expiresAt = memoryExpiry.get(key)
+    if (expiresAt && expiresAt > now) {
+        return false
+    }
+    memoryExpiry.set(key, now + ttlSeconds * 1000)
+    return true
+}
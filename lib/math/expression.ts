@@ -0,0 +1,235 @@
+import type { QuestionParameterValues } from '../../types/exams'
+import { evaluateExpression, RESERVED_PARAMETER_NAMES } from '../question-parameters'
+import { createSeededRandom, hashSeed } from '../question-pools'
+
+/**
+ * Student math input (MathLive LaTeX or plain text such as `2x^2 + 1`) turned
+ * into expressions the parameter evaluator understands, and compared by
+ * evaluating both sides at sample points.
+ */
+
+const FRACTION_COMMANDS = ['frac', 'dfrac', 'tfrac', 'cfrac']
+const FUNCTION_COMMANDS = ['sin', 'cos', 'tan', 'exp', 'ln', 'log', 'sqrt']
+const DROPPED_COMMANDS = ['left', 'right', 'displaystyle', 'mathrm', 'text', 'operatorname', 'mathit', 'big', 'Big']
+
+const readGroup = (input: string, start: number): { content: string; end: number } => {
+    if (input[start] !== '{') {
+        // Single token argument: \frac12, x^2
+        const command = /^\\[A-Za-z]+/.exec(input.slice(start))
+        const token = command ? command[0] : input[start] ?? ''
+        return { content: token, end: start + token.length }
+    }
+    let depth = 0
+    for (let index = start; index < input.length; index += 1) {
+        if (input[index] === '{') depth += 1
+        if (input[index] === '}') depth -= 1
+        if (depth === 0) return { content: input.slice(start + 1, index), end: index + 1 }
+    }
+    return { content: input.slice(start + 1), end: input.length }
+}
+
+const skipSpaces = (input: string, index: number) => {
+    while (input[index] === ' ') index += 1
+    return index
+}
+
+const convertLatex = (input: string): string => {
+    let output = ''
+    let index = 0
+    while (index < input.length) {
+        const char = input[index]
+        if (char === '\\') {
+            const name = /^\\([A-Za-z]+|.)/.exec(input.slice(index))?.[1] ?? ''
+            index += name.length + 1
+            if (FRACTION_COMMANDS.includes(name)) {
+                const numerator = readGroup(input, skipSpaces(input, index))
+                const denominator = readGroup(input, skipSpaces(input, numerator.end))
+                output += `((${convertLatex(numerator.content)})/(${convertLatex(denominator.content)}))`
+                index = denominator.end
+            } else if (name === 'sqrt') {
+                let root: string | null = null
+                if (input[index] === '[') {
+                    const close = input.indexOf(']', index)
+                    root = input.slice(index + 1, close === -1 ? input.length : close)
+                    index = close === -1 ? input.length : close + 1
+                }
+                const radicand = readGroup(input, skipSpaces(input, index))
+                output += root
+                    ? `((${convertLatex(radicand.content)})^(1/(${convertLatex(root)})))`
+                    : `sqrt(${convertLatex(radicand.content)})`
+                index = radicand.end
+            } else if (name === 'cdot' || name === 'times' || name === 'ast') {
+                output += '*'
+            } else if (name === 'div') {
+                output += '/'
+            } else if (name === 'pi') {
+                output += ' pi '
+            } else if (name === 'exponentialE') {
+                output += ' e '
+            } else if (name === 'lvert' || name === 'rvert' || name === 'vert' || name === '|') {
+                output += '|'
+            } else if (FUNCTION_COMMANDS.includes(name)) {
+                output += ` ${name} `
+            } else if (DROPPED_COMMANDS.includes(name) || /^[A-Za-z]+$/.test(name) === false) {
+                // Spacing (\, \; \!) and layout commands carry no value
+                output += ''
+            } else {
+                output += ` ${name} `
+            }
+            continue
+        }
+        if (char === '{') {
+            const group = readGroup(input, index)
+            output += `(${convertLatex(group.content)})`
+            index = group.end
+            continue
+        }
+        if (char === '_') {
+            // x_{1} and x_1 are a single variable name
+            const group = readGroup(input, index + 1)
+            output += `_${group.content.replace(/[^A-Za-z0-9]/g, '')}`
+            index = group.end
+            continue
+        }
+        output += char
+        index += 1
+    }
+    return output
+}
+
+/** Replace |a| pairs with abs(a). */
+const convertAbsoluteBars = (input: string) => {
+    let open = false
+    return input.replace(/\|/g, () => {
+        open = !open
+        return open ? 'abs(' : ')'
+    })
+}
+
+/**
+ * Convert LaTeX (or plain text) to an explicit expression string: fractions,
+ * roots, \cdot and |x| are rewritten; `$` delimiters and spacing are dropped.
+ */
+export const latexToExpression = (input: string) =>
+    convertAbsoluteBars(
+        convertLatex(
+            input
+                .replace(/\$/g, ' ')
+                .replace(/[−–]/g, '-')
+                .replace(/[×·⋅]/g, '*')
+                .replace(/÷/g, '/')
+                .replace(/π/g, ' pi ')
+                .replace(/\*\*/g, '^')
+        )
+    ).trim()
+
+type Token = { kind: 'number' | 'value' | 'function' | 'op'; text: string }
+
+const FUNCTION_NAMES = RESERVED_PARAMETER_NAMES.filter((name) => name !== 'pi' && name !== 'e')
+
+/**
+ * Split identifiers into known names (functions, constants, variables) and
+ * insert the multiplications students leave implicit: 2x, xy, 2(x+1), (a)(b),
+ * sin x.
+ */
+export const toExplicitExpression = (expression: string, variables: string[] = []) => {
+    const names = [...variables, ...FUNCTION_NAMES, 'pi', 'e'].sort((a, b) => b.length - a.length)
+    const tokens: Token[] = []
+    const pattern = /\s*(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+|[A-Za-z][A-Za-z0-9_]*|.)/gy
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(expression)) !== null) {
+        const text = match[1]
+        if (!text.trim()) continue
+        if (/^[\d.]/.test(text)) {
+            tokens.push({ kind: 'number', text })
+        } else if (/^[A-Za-z]/.test(text)) {
+            let rest = text
+            while (rest) {
+                const name = names.find((candidate) => rest.startsWith(candidate)) ?? rest[0]
+                tokens.push({ kind: FUNCTION_NAMES.includes(name) ? 'function' : 'value', text: name })
+                rest = rest.slice(name.length)
+            }
+        } else {
+            tokens.push({ kind: 'op', text })
+        }
+    }
+
+    const output: string[] = []
+    for (let index = 0; index < tokens.length; index += 1) {
+        const token = tokens[index]
+        const previous = tokens[index - 1]
+        const endsOperand = previous && (previous.kind === 'number' || previous.kind === 'value' || previous.text === ')')
+        const startsOperand = token.kind !== 'op' || token.text === '('
+        if (endsOperand && startsOperand) output.push('*')
+
+        const next = tokens[index + 1]
+        if (token.kind === 'function' && next && next.text !== '(' && next.kind !== 'op') {
+            // sin x -> sin(x)
+            output.push(`${token.text}(${next.text})`)
+            index += 1
+            tokens[index] = { kind: 'value', text: ')' }
+            continue
+        }
+        output.push(token.text)
+    }
+    return output.join('')
+}
+
+/** Evaluate student math input (LaTeX or plain text) with the given variable values. */
+export const evaluateMathInput = (input: string, scope: QuestionParameterValues = {}, variables: string[] = []) =>
+    evaluateExpression(toExplicitExpression(latexToExpression(input), [...variables, ...Object.keys(scope)]), scope)
+
+const SAMPLE_COUNT = 12
+const MIN_VALID_SAMPLES = 4
+
+const valuesMatch = (a: number, b: number) => Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b))
+
+/**
+ * Whether two expressions are equal for every sampled value of the variables.
+ * Points where either side is undefined (sqrt of a negative, division by zero)
+ * are skipped; enough points must remain for the comparison to count.
+ */
+export const areExpressionsEquivalent = (
+    reference: string,
+    candidate: string,
+    options: { variables: string[]; scope?: QuestionParameterValues }
+) => {
+    const scope = options.scope ?? {}
+    const names = [...options.variables, ...Object.keys(scope)]
+    let referenceExpression: string
+    let candidateExpression: string
+    try {
+        referenceExpression = toExplicitExpression(latexToExpression(reference), names)
+        candidateExpression = toExplicitExpression(latexToExpression(candidate), names)
+    } catch {
+        return false
+    }
+
+    const random = createSeededRandom(hashSeed(referenceExpression))
+    let validSamples = 0
+    for (let sample = 0; sample < SAMPLE_COUNT; sample += 1) {
+        const point: QuestionParameterValues = { ...scope }
+        for (const variable of options.variables) {
+            // Alternate signs so |x| and x, or x^2 and x|x|, are told apart
+            const magnitude = 0.5 + random() * 2.5
+            point[variable] = sample % 2 === 0 ? magnitude : -magnitude
+        }
+        let expected: number
+        try {
+            expected = evaluateExpression(referenceExpression, point)
+        } catch {
+            continue
+        }
+        let actual: number
+        try {
+            actual = evaluateExpression(candidateExpression, point)
+        } catch (error) {
+            // A syntax error or unknown name is never equivalent; a domain error is skipped
+            if (error instanceof Error && !/finite/.test(error.message)) return false
+            continue
+        }
+        if (!valuesMatch(expected, actual)) return false
+        validSamples += 1
+    }
+    return validSamples >= MIN_VALID_SAMPLES
+}
@@ -0,0 +1,157 @@
+import QRCode from 'qrcode'
+import { prisma } from '@/lib/prisma'
+import { drawParameterValuesForAttempt, drawQuestionSelectionForAttempt } from '@/lib/attempt-questions'
+import { applyAttemptQuestionSelection } from '@/lib/question-pools'
+import { applyAttemptParameterValues } from '@/lib/question-parameters'
+import { buildPaperLayout, encodePaperQr, parsePaperLayout } from '@/lib/paper/layout'
+
+/**
+ * Printable paper copies: one attempt per enrolled student, laid out one
+ * question per page, each page stamped with its QR code.
+ */
+
+export type PaperCopyPage = {
+    page: number
+    qrDataUrl: string
+    question: {
+        id: string
+        label: string
+        type: string
+        content: string // JSON string of ContentSegment[]
+        maxPoints: number
+        options: string[] // MCQ options, printed with a box to tick
+    }
+}
+
+export type PaperCopy = {
+    attemptId: string
+    student: { name: string; email: string }
+    pages: PaperCopyPage[]
+}
+
+export type PaperCopiesResult = {
+    exam: { title: string }
+    copies: PaperCopy[]
+    skippedOnline: number // students who already started the exam online
+}
+
+const QR_OPTIONS = { margin: 1, width: 160, errorCorrectionLevel: 'M' as const }
+
+async function getExamStudents(
+    exam: { classId: string | null; classIds: string[]; course: { classes: { id: string }[] } },
+    classIds?: string[]
+) {
+    const examClassIds = exam.classId
+        ? [exam.classId]
+        : exam.classIds.length > 0
+            ? exam.classIds
+            : exam.course.classes.map((cls) => cls.id)
+    const targetClassIds = classIds?.length ? examClassIds.filter((id) => classIds.includes(id)) : examClassIds
+
+    const enrollments = await prisma.enrollment.findMany({
+        where: {
+            classId: { in: targetClassIds },
+            role: 'STUDENT',
+            archivedAt: null,
+            class: { archivedAt: null },
+            user: { archivedAt: null },
+        },
+        select: { user: { select: { id: true, name: true, email: true } } },
+    })
+
+    const students = new Map(enrollments.map(({ user }) => [user.id, user]))
+    return [...students.values()].sort((a, b) => (a.name ?? a.email).localeCompare(b.name ?? b.email))
+}
+
+/**
+ * Create (or reuse) the paper attempts of the exam and build their printable pages.
+ * Students who already started the exam online keep their online attempt and get no copy.
+ */
+export async function preparePaperCopies(examId: string, classIds?: string[]): Promise<PaperCopiesResult> {
+    const exam = await prisma.exam.findUnique({
+        where: { id: examId },
+        include: {
+            course: { select: { classes: { where: { archivedAt: null }, select: { id: true } } } },
+            sections: {
+                include: {
+                    questions: {
+                        include: { segments: { orderBy: { order: 'asc' } } },
+                        orderBy: { order: 'asc' },
+                    },
+                },
+                orderBy: { order: 'asc' },
+            },
+        },
+    })
+    if (!exam) {
+        throw new Error('Exam not found')
+    }
+
+    const students = await getExamStudents(exam, classIds)
+    const copies: PaperCopy[] = []
+    let skippedOnline = 0
+
+    for (const student of students) {
+        let attempt = await prisma.attempt.findFirst({ where: { examId, studentId: student.id } })
+        if (attempt && attempt.paperLayout === null) {
+            skippedOnline += 1
+            continue
+        }
+        if (!attempt) {
+            const questionSelection = await drawQuestionSelectionForAttempt(examId, student.id)
+            const parameterValues = await drawParameterValuesForAttempt(examId, student.id)
+            attempt = await prisma.attempt.create({
+                data: {
+                    examId,
+                    studentId: student.id,
+                    status: 'IN_PROGRESS',
+                    paperLayout: [],
+                    ...(questionSelection ? { questionSelection } : {}),
+                    ...(parameterValues ? { parameterValues } : {}),
+                },
+            })
+        }
+
+        const questions = applyAttemptParameterValues(
+            applyAttemptQuestionSelection(exam.sections, attempt.questionSelection),
+            attempt
+        ).flatMap((section) => section.questions)
+
+        // Printed copies must stay scannable: an existing layout is kept as long as it covers the same questions
+        const existingLayout = parsePaperLayout(attempt.paperLayout)
+        const sameQuestions = existingLayout.length === questions.length
+            && existingLayout.every((entry) => questions.some((question) => question.id === entry.questionId))
+        const layout = sameQuestions ? existingLayout : buildPaperLayout(questions.map((question) => question.id))
+        if (!sameQuestions) {
+            await prisma.attempt.update({ where: { id: attempt.id }, data: { paperLayout: layout } })
+        }
+
+        const pages: PaperCopyPage[] = []
+        for (const entry of layout) {
+            const index = questions.findIndex((question) => question.id === entry.questionId)
+            const question = questions[index]
+            pages.push({
+                page: entry.page,
+                qrDataUrl: await QRCode.toDataURL(encodePaperQr({ attemptId: attempt.id, page: entry.page }), QR_OPTIONS),
+                question: {
+                    id: question.id,
+                    label: question.customLabel || `${index + 1}.`,
+                    type: question.type,
+                    content: question.content,
+                    maxPoints: question.type === 'MCQ' && typeof question.maxPoints === 'number'
+                        ? question.maxPoints
+                        : question.segments.reduce((sum, segment) => sum + (segment.maxPoints ?? 0), 0),
+                    options: question.type === 'MCQ' ? question.segments.map((segment) => segment.instruction) : [],
+                },
+            })
+        }
+
+        copies.push({
+            attemptId: attempt.id,
+            student: { name: student.name || student.email, email: student.email },
+            pages,
+        })
+    }
+
+    return { exam: { title: exam.title }, copies, skippedOnline }
+}
@@ -0,0 +1,79 @@
+import { parseContent, serializeContent } from '../content'
+import type { ContentSegment } from '../../types/exams'
+
+/**
+ * Paper copies: one page per question, each page carrying a QR code that
+ * identifies the attempt and the page, so scanned pages can be matched back.
+ */
+
+export const PAPER_QR_PREFIX = 'CORRECTA-PAPER'
+
+export type PaperPage = {
+    page: number // 1-based page of the printed copy
+    questionId: string
+}
+
+export type PaperQrPayload = {
+    attemptId: string
+    page: number
+}
+
+/** Crop region as percentages of the page (0–100). */
+export type PaperRegion = {
+    xPercent: number
+    yPercent: number
+    widthPercent: number
+    heightPercent: number
+}
+
+/** Header band (QR code, student, question label) excluded from the cropped answer. */
+export const PAPER_HEADER_PERCENT = 11
+
+export const PAPER_ANSWER_REGION: PaperRegion = {
+    xPercent: 3,
+    yPercent: PAPER_HEADER_PERCENT,
+    widthPercent: 94,
+    heightPercent: 100 - PAPER_HEADER_PERCENT - 3,
+}
+
+export const encodePaperQr = ({ attemptId, page }: PaperQrPayload) => `${PAPER_QR_PREFIX}:${attemptId}:${page}`
+
+export function decodePaperQr(text: string | null | undefined): PaperQrPayload | null {
+    const match = /^CORRECTA-PAPER:([0-9a-f-]{36}):(\d{1,4})$/i.exec(text?.trim() ?? '')
+    if (!match) return null
+    const page = Number(match[2])
+    return page >= 1 ? { attemptId: match[1].toLowerCase(), page } : null
+}
+
+export const buildPaperLayout = (questionIds: string[]): PaperPage[] =>
+    questionIds.map((questionId, index) => ({ page: index + 1, questionId }))
+
+export function parsePaperLayout(value: unknown): PaperPage[] {
+    if (!Array.isArray(value)) return []
+    return value.filter((entry): entry is PaperPage =>
+        typeof entry === 'object' && entry !== null
+        && Number.isInteger((entry as PaperPage).page)
+        && typeof (entry as PaperPage).questionId === 'string'
+    )
+}
+
+/**
+ * The QR code is printed in the top-right corner: found in the lower half,
+ * the page was scanned upside down.
+ */
+export const isPageUpsideDown = (qrCenterY: number, pageHeight: number) => qrCenterY > pageHeight / 2
+
+export const getPaperImageSegmentId = (page: number) => `paper-page-${page}`
+
+/**
+ * Answer content with the scan of `page`, replacing a previous scan of the
+ * same page (re-uploads) and keeping pages in print order.
+ */
+export function mergePaperAnswerImage(existing: string | null | undefined, page: number, url: string): string {
+    const segmentId = getPaperImageSegmentId(page)
+    const pageOf = (segment: ContentSegment) => Number(segment.id.replace('paper-page-', ''))
+    const images = parseContent(existing ?? '')
+        .filter((segment) => segment.type === 'image' && segment.id.startsWith('paper-page-') && segment.id !== segmentId)
+    images.push({ id: segmentId, type: 'image', url, alt: `Page ${page}` })
+    return serializeContent(images.sort((a, b) => pageOf(a) - pageOf(b)))
+}
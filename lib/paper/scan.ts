@@ -0,0 +1,187 @@
+import sharp from 'sharp'
+import jsQR from 'jsqr'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { downloadFile, generateUploadKey, uploadFile } from '@/lib/storage/minio'
+import { cropRegion, getMupdf, renderPage } from '@/lib/exam-import/image-extractor'
+import {
+    PAPER_ANSWER_REGION,
+    decodePaperQr,
+    isPageUpsideDown,
+    mergePaperAnswerImage,
+    parsePaperLayout,
+    type PaperQrPayload,
+} from '@/lib/paper/layout'
+
+/**
+ * Scan-in of paper copies: each page of the uploaded PDF is matched to its
+ * attempt and question by QR code, and the answer area is stored as an image
+ * answer segment, graded like any other answer.
+ */
+
+export type UnmatchedPageReason = 'NO_QR_CODE' | 'UNKNOWN_ATTEMPT' | 'UNKNOWN_PAGE' | 'ERROR'
+
+export type UnmatchedPage = {
+    page: number // page of the scanned PDF
+    reason: UnmatchedPageReason
+}
+
+// QR detection runs on a downscaled page first, full resolution only as a fallback
+const QR_SEARCH_WIDTH = 1000
+
+async function findQrCode(png: Buffer, width: number, height: number) {
+    for (const targetWidth of [Math.min(QR_SEARCH_WIDTH, width), width]) {
+        const { data, info } = await sharp(png)
+            .resize({ width: targetWidth })
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true })
+        const code = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), info.width, info.height)
+        if (code) {
+            const scale = height / info.height
+            const centerY = ((code.location.topLeftCorner.y + code.location.bottomRightCorner.y) / 2) * scale
+            return { text: code.data, centerY }
+        }
+        if (targetWidth === width) break
+    }
+    return null
+}
+
+type PaperAttempt = { id: string; status: string; layout: Map<number, string> }
+
+async function storePageAnswer(attemptId: string, questionId: string, page: number, url: string) {
+    const segment = await prisma.questionSegment.findFirst({
+        where: { questionId },
+        orderBy: { order: 'asc' },
+        select: { id: true },
+    })
+    if (!segment) return
+
+    await prisma.$transaction(async (tx) => {
+        const answer = await tx.answer.upsert({
+            where: { attemptId_questionId: { attemptId, questionId } },
+            create: { attemptId, questionId },
+            update: {},
+        })
+        const existing = await tx.answerSegment.findUnique({
+            where: { answerId_segmentId: { answerId: answer.id, segmentId: segment.id } },
+            select: { content: true },
+        })
+        const content = mergePaperAnswerImage(existing?.content, page, url)
+        await tx.answerSegment.upsert({
+            where: { answerId_segmentId: { answerId: answer.id, segmentId: segment.id } },
+            create: { answerId: answer.id, segmentId: segment.id, content },
+            update: { content },
+        })
+    })
+}
+
+/**
+ * Process an uploaded scan. Attempts that received pages are submitted;
+ * pages that could not be matched are recorded on the scan for review.
+ */
+export async function processPaperScan(
+    scanId: string,
+    onProgress?: (processed: number, total: number) => Promise<void>
+): Promise<void> {
+    const scan = await prisma.paperScan.findUnique({ where: { id: scanId } })
+    if (!scan) {
+        throw new Error('Paper scan not found')
+    }
+
+    await prisma.paperScan.update({ where: { id: scanId }, data: { status: 'PROCESSING', error: null } })
+
+    try {
+        const attempts = await prisma.attempt.findMany({
+            where: { examId: scan.examId, paperLayout: { not: Prisma.DbNull } },
+            select: { id: true, status: true, paperLayout: true },
+        })
+        const attemptsById = new Map<string, PaperAttempt>(attempts.map((attempt) => [
+            attempt.id,
+            {
+                id: attempt.id,
+                status: attempt.status,
+                layout: new Map(parsePaperLayout(attempt.paperLayout).map((entry) => [entry.page, entry.questionId])),
+            },
+        ]))
+
+        const mupdf = await getMupdf()
+        const doc = mupdf.Document.openDocument(await downloadFile(scan.fileKey), 'application/pdf')
+        const pageCount = doc.countPages()
+        await prisma.paperScan.update({ where: { id: scanId }, data: { pageCount } })
+
+        const unmatchedPages: UnmatchedPage[] = []
+        const touchedAttemptIds = new Set<string>()
+        let matchedCount = 0
+
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            try {
+                const rendered = await renderPage(mupdf, doc, pageNumber)
+                const qr = await findQrCode(rendered.png, rendered.width, rendered.height)
+                const payload: PaperQrPayload | null = qr ? decodePaperQr(qr.text) : null
+                if (!qr || !payload) {
+                    unmatchedPages.push({ page: pageNumber, reason: 'NO_QR_CODE' })
+                    continue
+                }
+                const attempt = attemptsById.get(payload.attemptId)
+                if (!attempt) {
+                    unmatchedPages.push({ page: pageNumber, reason: 'UNKNOWN_ATTEMPT' })
+                    continue
+                }
+                const questionId = attempt.layout.get(payload.page)
+                if (!questionId) {
+                    unmatchedPages.push({ page: pageNumber, reason: 'UNKNOWN_PAGE' })
+                    continue
+                }
+
+                const png = isPageUpsideDown(qr.centerY, rendered.height)
+                    ? await sharp(rendered.png).rotate(180).png().toBuffer()
+                    : rendered.png
+                const cropped = await cropRegion(png, rendered.width, rendered.height, PAPER_ANSWER_REGION)
+                const url = await uploadFile(
+                    generateUploadKey(`paper-${attempt.id}-p${payload.page}.png`),
+                    cropped,
+                    'image/png'
+                )
+
+                await storePageAnswer(attempt.id, questionId, payload.page, url)
+                touchedAttemptIds.add(attempt.id)
+                matchedCount += 1
+            } catch (error) {
+                console.error(`[Paper Scan] Failed to process page ${pageNumber} of scan ${scanId}:`, error)
+                unmatchedPages.push({ page: pageNumber, reason: 'ERROR' })
+            } finally {
+                await onProgress?.(pageNumber, pageCount)
+            }
+        }
+
+        // Scanned copies are handed in: they join the grading flow like submitted online attempts
+        const toSubmit = [...touchedAttemptIds].filter((id) => attemptsById.get(id)?.status === 'IN_PROGRESS')
+        if (toSubmit.length > 0) {
+            await prisma.attempt.updateMany({
+                where: { id: { in: toSubmit }, status: 'IN_PROGRESS' },
+                data: { status: 'SUBMITTED', submittedAt: new Date() },
+            })
+        }
+
+        await prisma.paperScan.update({
+            where: { id: scanId },
+            data: {
+                status: 'COMPLETED',
+                matchedCount,
+                unmatchedPages,
+                completedAt: new Date(),
+            },
+        })
+    } catch (error) {
+        await prisma.paperScan.update({
+            where: { id: scanId },
+            data: {
+                status: 'FAILED',
+                error: error instanceof Error ? error.message : 'Unknown error',
+                completedAt: new Date(),
+            },
+        })
+        throw error
+    }
+}
@@ -0,0 +1,96 @@
+import { prisma } from '@/lib/prisma'
+import { getStudentExamWindow } from '@/lib/accommodations'
+import { getAttemptDeadline } from '@/lib/exam-time'
+import type { AttemptLiveMessage, ProctorNotice } from './liveState'
+
+/**
+ * What the student's exam page needs from the proctor's actions: the deadline
+ * (extensions and pauses included), the pause, the messages and the forced end.
+ */
+
+// Older messages stay in the timeline but are not shown again on the exam page
+const MAX_REPLAYED_NOTICES = 20
+
+type TimingAttempt = {
+    id: string
+    studentId: string
+    startedAt: Date
+    extensionMinutes: number
+    pausedAt: Date | null
+    pausedSeconds: number
+    exam: Parameters<typeof getStudentExamWindow>[0]
+}
+
+const getMetadataString = (metadata: unknown, key: string): string | null => {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null
+    const value = (metadata as Record<string, unknown>)[key]
+    return typeof value === 'string' ? value : null
+}
+
+/**
+ * Timing message of an attempt
+ */
+export async function getAttemptTimingMessage(
+    attempt: TimingAttempt,
+    pauseMessage: string | null,
+    now: Date = new Date()
+): Promise<AttemptLiveMessage> {
+    const examWindow = await getStudentExamWindow(attempt.exam, attempt.studentId)
+    const deadlineAt = getAttemptDeadline(examWindow, attempt.startedAt, attempt, now)
+    return {
+        type: 'timing',
+        deadlineAt: deadlineAt?.toISOString() ?? null,
+        pausedAt: attempt.pausedAt?.toISOString() ?? null,
+        remainingSeconds: attempt.pausedAt && deadlineAt
+            ? Math.max(0, Math.ceil((deadlineAt.getTime() - now.getTime()) / 1000))
+            : null,
+        pauseMessage: attempt.pausedAt ? pauseMessage : null
+    }
+}
+
+/**
+ * Messages sent when the exam page connects: the current timing, the proctor's
+ * messages and, if the proctor ended the attempt, the reason.
+ */
+export async function getAttemptLiveSnapshot(attemptId: string): Promise<AttemptLiveMessage[]> {
+    const attempt = await prisma.attempt.findUnique({
+        where: { id: attemptId },
+        include: {
+            exam: true,
+            proctorEvents: {
+                where: { type: { in: ['PROCTOR_MESSAGE', 'PROCTOR_WARNING', 'PROCTOR_PAUSE', 'PROCTOR_TERMINATE'] } },
+                orderBy: { timestamp: 'asc' }
+            }
+        }
+    })
+    if (!attempt) return []
+
+    const termination = attempt.proctorEvents.find(event => event.type === 'PROCTOR_TERMINATE')
+    if (termination) {
+        return [{
+            type: 'terminated',
+            reason: getMetadataString(termination.metadata, 'reason') ?? '',
+            at: termination.timestamp.toISOString()
+        }]
+    }
+
+    const lastPause = attempt.proctorEvents.filter(event => event.type === 'PROCTOR_PAUSE').at(-1)
+    const notices: AttemptLiveMessage[] = attempt.proctorEvents
+        .filter(event => event.type === 'PROCTOR_MESSAGE' || event.type === 'PROCTOR_WARNING')
+        .slice(-MAX_REPLAYED_NOTICES)
+        .map(event => ({ type: 'notice', notice: toProctorNotice(event) }))
+
+    return [
+        await getAttemptTimingMessage(attempt, getMetadataString(lastPause?.metadata, 'message')),
+        ...notices
+    ]
+}
+
+export function toProctorNotice(event: { id: string; type: string; timestamp: Date; metadata: unknown }): ProctorNotice {
+    return {
+        id: event.id,
+        kind: event.type === 'PROCTOR_WARNING' ? 'warning' : 'message',
+        text: getMetadataString(event.metadata, 'message') ?? '',
+        at: event.timestamp.toISOString()
+    }
+}
@@ -0,0 +1,379 @@
+/**
+ * Collusion Analysis
+ *
+ * Compares the answers of all the attempts of an exam to find students who
+ * worked together:
+ * - TEXT: normalized word shingles, MinHash signatures to find candidate pairs
+ *   (LSH banding), then the Jaccard similarity of the shingle sets
+ * - CODE: same on token shingles, identifiers and literals normalized so that
+ *   renaming variables does not hide a copy
+ * - MCQ: the same wrong choices, when few other students made them
+ *
+ * Shingles found in most answers to a question (starter code, the expected
+ * answer) say nothing about collusion and are ignored. Similar answers saved
+ * close to an external paste of the other student are marked as correlated.
+ * Suspicious pairs are grouped into clusters of students.
+ */
+
+const TEXT_SHINGLE_SIZE = 3
+const CODE_SHINGLE_SIZE = 4
+const MINHASH_SIZE = 64
+// 16 bands of 4 rows: pairs above ~0.5 similarity are almost always candidates
+const LSH_BANDS = 16
+const MIN_TEXT_SHINGLES = 5
+const MIN_CODE_SHINGLES = 8
+const TEXT_SIMILARITY_THRESHOLD = 0.5
+const CODE_SIMILARITY_THRESHOLD = 0.7
+// Shingles in more than half of the answers are ignored, from 4 answers on
+const COMMON_SHINGLE_RATIO = 0.5
+const MIN_ANSWERS_FOR_COMMON_FILTER = 4
+// A wrong choice is telling when at most a quarter of the students made it
+const UNCOMMON_WRONG_CHOICE_RATIO = 0.25
+const MIN_SHARED_WRONG_CHOICES = 3
+const PASTE_CORRELATION_WINDOW_MS = 3 * 60 * 1000
+const SIMILARITY_POINTS = 10
+const PASTE_CORRELATION_POINTS = 5
+const SHARED_WRONG_CHOICE_POINTS = 2
+
+const CODE_KEYWORDS = new Set([
+  'if', 'else', 'elif', 'for', 'while', 'do', 'return', 'def', 'function', 'class', 'new', 'try', 'catch',
+  'except', 'finally', 'raise', 'throw', 'import', 'from', 'in', 'not', 'and', 'or', 'is', 'let', 'const',
+  'var', 'int', 'float', 'double', 'char', 'bool', 'boolean', 'void', 'string', 'public', 'private',
+  'static', 'true', 'false', 'True', 'False', 'None', 'null', 'break', 'continue', 'switch', 'case', 'lambda',
+])
+
+export type CollusionQuestionType = 'TEXT' | 'CODE' | 'MCQ'
+
+export interface CollusionQuestion {
+  id: string
+  type: CollusionQuestionType
+  // MCQ only
+  correctOptionIds?: string[]
+}
+
+export interface CollusionAnswer {
+  questionId: string
+  // TEXT (plain text) and CODE
+  text?: string
+  // MCQ
+  selectedOptionIds?: string[]
+  savedAt: Date | null
+}
+
+export interface CollusionAttempt {
+  attemptId: string
+  answers: CollusionAnswer[]
+  // Timestamps of the attempt's external pastes
+  externalPastes: Date[]
+}
+
+export interface CollusionEvidence {
+  questionId: string
+  kind: CollusionQuestionType
+  // Jaccard similarity for TEXT and CODE, 1 for a shared wrong choice
+  similarity: number
+  pasteCorrelated: boolean
+}
+
+export interface CollusionPair {
+  attemptIds: [string, string]
+  score: number
+  evidence: CollusionEvidence[]
+}
+
+export interface CollusionCluster {
+  attemptIds: string[]
+  pairCount: number
+  maxScore: number
+}
+
+export interface CollusionReport {
+  comparedAttempts: number
+  pairs: CollusionPair[]
+  clusters: CollusionCluster[]
+}
+
+// FNV-1a
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Murmur3 finalizer: one hash function per seed
+const mixHash = (value: number, seed: number): number => {
+  let hash = value ^ seed
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return hash >>> 0
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, index) => Math.imul(index + 1, 0x9e3779b9) >>> 0)
+
+/**
+ * Lowercase words without accents or punctuation
+ */
+export function normalizeText(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Code tokens without comments, identifiers and literals replaced by their kind
+ */
+export function normalizeCode(code: string): string[] {
+  const stripped = code
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/(\/\/|#).*$/gm, ' ')
+    .replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`/g, ' STR ')
+  const tokens = stripped.match(/[A-Za-z_]\w*|\d+(?:\.\d+)?|\S/g) ?? []
+  return tokens.map((token) => {
+    if (token === 'STR') return 'STR'
+    if (/^\d/.test(token)) return 'NUM'
+    if (/^[A-Za-z_]/.test(token)) return CODE_KEYWORDS.has(token) ? token : 'ID'
+    return token
+  })
+}
+
+/**
+ * Hashed shingles (runs of `size` consecutive tokens)
+ */
+export function getShingles(tokens: string[], size: number): Set<number> {
+  const shingles = new Set<number>()
+  for (let index = 0; index + size <= tokens.length; index++) {
+    shingles.add(hashString(tokens.slice(index, index + size).join(' ')))
+  }
+  return shingles
+}
+
+export function getMinHashSignature(shingles: Set<number>): number[] {
+  return MINHASH_SEEDS.map((seed) => {
+    let min = 0xffffffff
+    for (const shingle of shingles) {
+      const hash = mixHash(shingle, seed)
+      if (hash < min) min = hash
+    }
+    return min
+  })
+}
+
+export function getJaccardSimilarity(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 && b.size === 0) return 0
+  let intersection = 0
+  for (const shingle of a) {
+    if (b.has(shingle)) intersection++
+  }
+  return intersection / (a.size + b.size - intersection)
+}
+
+/**
+ * Pairs of documents sharing at least one LSH band of their signatures
+ */
+const getCandidatePairs = (signatures: number[][]): Array<[number, number]> => {
+  const rowsPerBand = MINHASH_SIZE / LSH_BANDS
+  const candidates = new Map<string, [number, number]>()
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const buckets = new Map<string, number[]>()
+    signatures.forEach((signature, index) => {
+      const key = signature.slice(band * rowsPerBand, (band + 1) * rowsPerBand).join(',')
+      const bucket = buckets.get(key)
+      if (bucket) bucket.push(index)
+      else buckets.set(key, [index])
+    })
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          candidates.set(`${bucket[i]}:${bucket[j]}`, [bucket[i], bucket[j]])
+        }
+      }
+    }
+  }
+  return [...candidates.values()]
+}
+
+const isPasteCorrelated = (
+  a: { savedAt: Date | null; externalPastes: Date[] },
+  b: { savedAt: Date | null; externalPastes: Date[] }
+): boolean => {
+  const pastedNear = (pastes: Date[], savedAt: Date | null) =>
+    savedAt !== null &&
+    pastes.some((paste) => Math.abs(paste.getTime() - savedAt.getTime()) <= PASTE_CORRELATION_WINDOW_MS)
+  return pastedNear(a.externalPastes, b.savedAt) || pastedNear(b.externalPastes, a.savedAt)
+}
+
+const pairKey = (a: string, b: string): string => (a < b ? `${a}|${b}` : `${b}|${a}`)
+
+/**
+ * Similar TEXT or CODE answers to one question
+ */
+const compareTextAnswers = (
+  question: CollusionQuestion,
+  attempts: CollusionAttempt[],
+  addEvidence: (a: string, b: string, evidence: CollusionEvidence) => void
+) => {
+  const isCode = question.type === 'CODE'
+  const documents = attempts.flatMap((attempt) => {
+    const answer = attempt.answers.find((item) => item.questionId === question.id)
+    if (!answer?.text?.trim()) return []
+    const tokens = isCode ? normalizeCode(answer.text) : normalizeText(answer.text)
+    return [{ attempt, answer, shingles: getShingles(tokens, isCode ? CODE_SHINGLE_SIZE : TEXT_SHINGLE_SIZE) }]
+  })
+
+  if (documents.length >= MIN_ANSWERS_FOR_COMMON_FILTER) {
+    const frequency = new Map<number, number>()
+    for (const document of documents) {
+      for (const shingle of document.shingles) {
+        frequency.set(shingle, (frequency.get(shingle) ?? 0) + 1)
+      }
+    }
+    const maxFrequency = documents.length * COMMON_SHINGLE_RATIO
+    for (const document of documents) {
+      for (const shingle of document.shingles) {
+        if ((frequency.get(shingle) ?? 0) > maxFrequency) document.shingles.delete(shingle)
+      }
+    }
+  }
+
+  const minShingles = isCode ? MIN_CODE_SHINGLES : MIN_TEXT_SHINGLES
+  const threshold = isCode ? CODE_SIMILARITY_THRESHOLD : TEXT_SIMILARITY_THRESHOLD
+  const comparable = documents.filter((document) => document.shingles.size >= minShingles)
+  const signatures = comparable.map((document) => getMinHashSignature(document.shingles))
+
+  for (const [i, j] of getCandidatePairs(signatures)) {
+    const a = comparable[i]
+    const b = comparable[j]
+    const similarity = getJaccardSimilarity(a.shingles, b.shingles)
+    if (similarity < threshold) continue
+    addEvidence(a.attempt.attemptId, b.attempt.attemptId, {
+      questionId: question.id,
+      kind: question.type,
+      similarity: Math.round(similarity * 100) / 100,
+      pasteCorrelated: isPasteCorrelated(
+        { savedAt: a.answer.savedAt, externalPastes: a.attempt.externalPastes },
+        { savedAt: b.answer.savedAt, externalPastes: b.attempt.externalPastes }
+      ),
+    })
+  }
+}
+
+/**
+ * Identical uncommon wrong choices to one MCQ question
+ */
+const compareChoiceAnswers = (
+  question: CollusionQuestion,
+  attempts: CollusionAttempt[],
+  addEvidence: (a: string, b: string, evidence: CollusionEvidence) => void
+) => {
+  const correct = [...(question.correctOptionIds ?? [])].sort().join(',')
+  const answered = attempts.flatMap((attempt) => {
+    const selected = attempt.answers.find((item) => item.questionId === question.id)?.selectedOptionIds ?? []
+    return selected.length > 0 ? [{ attemptId: attempt.attemptId, choice: [...selected].sort().join(',') }] : []
+  })
+
+  const groups = new Map<string, string[]>()
+  for (const { attemptId, choice } of answered) {
+    if (choice === correct) continue
+    groups.set(choice, [...(groups.get(choice) ?? []), attemptId])
+  }
+
+  const maxGroupSize = Math.max(2, Math.floor(answered.length * UNCOMMON_WRONG_CHOICE_RATIO))
+  for (const attemptIds of groups.values()) {
+    if (attemptIds.length < 2 || attemptIds.length > maxGroupSize) continue
+    for (let i = 0; i < attemptIds.length; i++) {
+      for (let j = i + 1; j < attemptIds.length; j++) {
+        addEvidence(attemptIds[i], attemptIds[j], {
+          questionId: question.id,
+          kind: 'MCQ',
+          similarity: 1,
+          pasteCorrelated: false,
+        })
+      }
+    }
+  }
+}
+
+const scorePair = (evidence: CollusionEvidence[]): number =>
+  Math.round(evidence.reduce((score, item) => score + (item.kind === 'MCQ'
+    ? SHARED_WRONG_CHOICE_POINTS
+    : item.similarity * SIMILARITY_POINTS + (item.pasteCorrelated ? PASTE_CORRELATION_POINTS : 0)
+  ), 0))
+
+const isSuspicious = (evidence: CollusionEvidence[]): boolean =>
+  evidence.some((item) => item.kind !== 'MCQ') ||
+  evidence.filter((item) => item.kind === 'MCQ').length >= MIN_SHARED_WRONG_CHOICES
+
+/**
+ * Groups of students linked by suspicious pairs (connected components)
+ */
+export function clusterPairs(pairs: CollusionPair[]): CollusionCluster[] {
+  const parent = new Map<string, string>()
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id
+    if (root === id) return id
+    const found = find(root)
+    parent.set(id, found)
+    return found
+  }
+
+  for (const { attemptIds: [a, b] } of pairs) {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA !== rootB) parent.set(rootA, rootB)
+  }
+
+  const clusters = new Map<string, CollusionCluster>()
+  for (const pair of pairs) {
+    const root = find(pair.attemptIds[0])
+    const cluster = clusters.get(root) ?? { attemptIds: [], pairCount: 0, maxScore: 0 }
+    for (const attemptId of pair.attemptIds) {
+      if (!cluster.attemptIds.includes(attemptId)) cluster.attemptIds.push(attemptId)
+    }
+    cluster.pairCount++
+    cluster.maxScore = Math.max(cluster.maxScore, pair.score)
+    clusters.set(root, cluster)
+  }
+
+  return [...clusters.values()].sort((a, b) => b.maxScore - a.maxScore || b.attemptIds.length - a.attemptIds.length)
+}
+
+/**
+ * Compare every attempt of the exam with every other one
+ */
+export function analyzeCollusion(questions: CollusionQuestion[], attempts: CollusionAttempt[]): CollusionReport {
+  const evidenceByPair = new Map<string, { attemptIds: [string, string]; evidence: CollusionEvidence[] }>()
+  const addEvidence = (a: string, b: string, evidence: CollusionEvidence) => {
+    const key = pairKey(a, b)
+    const entry = evidenceByPair.get(key) ?? { attemptIds: (a < b ? [a, b] : [b, a]) as [string, string], evidence: [] }
+    entry.evidence.push(evidence)
+    evidenceByPair.set(key, entry)
+  }
+
+  for (const question of questions) {
+    if (question.type === 'MCQ') {
+      compareChoiceAnswers(question, attempts, addEvidence)
+    } else {
+      compareTextAnswers(question, attempts, addEvidence)
+    }
+  }
+
+  const pairs = [...evidenceByPair.values()]
+    .filter(({ evidence }) => isSuspicious(evidence))
+    .map(({ attemptIds, evidence }) => ({ attemptIds, evidence, score: scorePair(evidence) }))
+    .sort((a, b) => b.score - a.score)
+
+  return {
+    comparedAttempts: attempts.length,
+    pairs,
+    clusters: clusterPairs(pairs),
+  }
+}
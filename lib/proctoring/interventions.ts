@@ -0,0 +1,73 @@
+/**
+ * Proctor Interventions
+ *
+ * Actions a proctor takes on an in-progress attempt: message, warning, pause and
+ * resume of the timer, extra time, forced submission. Each one is stored as a
+ * proctor event (PROCTOR_*), so it shows in the attempt timeline, and is left
+ * out of the anti-cheat analysis.
+ */
+
+import type { Prisma } from '@prisma/client'
+import type { z } from 'zod'
+import type { proctorInterventionSchema } from '../schemas/attempts'
+
+export type ProctorIntervention = z.infer<typeof proctorInterventionSchema>
+export type ProctorInterventionAction = ProctorIntervention['action']
+
+export const INTERVENTION_EVENT_PREFIX = 'PROCTOR_'
+
+export const getInterventionEventType = (action: ProctorInterventionAction) =>
+  `${INTERVENTION_EVENT_PREFIX}${action}` as const
+
+export const isInterventionEvent = (type: string) => type.startsWith(INTERVENTION_EVENT_PREFIX)
+
+export interface InterventionAttempt {
+  status: string
+  pausedAt: Date | null
+  pausedSeconds: number
+  extensionMinutes: number
+}
+
+/**
+ * Why the action cannot be applied to the attempt, or null when it can
+ */
+export function getInterventionError(action: ProctorInterventionAction, attempt: InterventionAttempt): string | null {
+  if (attempt.status !== 'IN_PROGRESS') return 'ATTEMPT_NOT_IN_PROGRESS'
+  if (action === 'PAUSE' && attempt.pausedAt) return 'ATTEMPT_ALREADY_PAUSED'
+  if (action === 'RESUME' && !attempt.pausedAt) return 'ATTEMPT_NOT_PAUSED'
+  return null
+}
+
+/**
+ * Conditional write of the action on the attempt, for an `updateMany` on its id.
+ * The conditions repeat the checks of `getInterventionError` so that concurrent
+ * interventions cannot both apply: no write matched means the attempt changed.
+ * Resuming (or terminating a paused attempt) adds the pause to the time given back
+ * to the student; it only matches the pause it measured. TERMINATE runs once the
+ * submission has moved the attempt out of IN_PROGRESS.
+ */
+export function getInterventionWrite(
+  intervention: ProctorIntervention,
+  attempt: InterventionAttempt,
+  now: Date
+): { where: Prisma.AttemptWhereInput; data: Prisma.AttemptUpdateManyMutationInput } {
+  const endPause = () => attempt.pausedAt
+    ? {
+        pausedAt: null,
+        pausedSeconds: { increment: Math.max(0, Math.round((now.getTime() - attempt.pausedAt.getTime()) / 1000)) }
+      }
+    : {}
+
+  switch (intervention.action) {
+    case 'PAUSE':
+      return { where: { status: 'IN_PROGRESS', pausedAt: null }, data: { pausedAt: now } }
+    case 'RESUME':
+      return { where: { status: 'IN_PROGRESS', pausedAt: attempt.pausedAt ?? { not: null } }, data: endPause() }
+    case 'TERMINATE':
+      return { where: { pausedAt: attempt.pausedAt }, data: endPause() }
+    case 'EXTEND':
+      return { where: { status: 'IN_PROGRESS' }, data: { extensionMinutes: { increment: intervention.minutes } } }
+    default:
+      return { where: { status: 'IN_PROGRESS' }, data: {} }
+  }
+}
@@ -0,0 +1,362 @@
+import { EventEmitter } from 'node:events'
+import Redis from 'ioredis'
+import { prisma } from '@/lib/prisma'
+import { analyzeAttemptProctoring } from './patternAnalysis'
+import { applySessionHeartbeat, type AttemptSession } from './sessions'
+import type { AttemptLiveMessage, AttemptPresence, LiveProctorEvent, LiveProctorMessage } from './liveState'
+
+/**
+ * Live Proctoring Bus
+ *
+ * Carries proctor events and heartbeats from the exam pages to the proctoring
+ * consoles, per exam, and proctor interventions back to the exam page, per
+ * attempt. With REDIS_URL the messages go through Redis pub/sub so every app
+ * instance sees them; without it an in-process emitter is used (single
+ * instance, development).
+ *
+ * Presence (last heartbeat, current question) is kept in a Redis hash per
+ * exam, or in memory, so a console opened mid-exam sees who is connected.
+ * The exam pages' sessions are kept the same way, per attempt, to detect a
+ * second device or tab.
+ */
+
+const EXAM_CHANNEL_PREFIX = 'proctoring:exam'
+const ATTEMPT_CHANNEL_PREFIX = 'proctoring:attempt'
+const PRESENCE_KEY_PREFIX = 'proctoring:presence'
+const SESSIONS_KEY_PREFIX = 'proctoring:sessions'
+const PRESENCE_TTL_SECONDS = 60 * 60 * 12
+
+// Proxies close idle connections: send a comment line regularly
+const KEEP_ALIVE_MS = 25_000
+
+// Shared across route bundles in development, like the Prisma client
+const globalForLive = globalThis as unknown as {
+    proctoringBus: EventEmitter | undefined
+    proctoringPresence: Map<string, Map<string, AttemptPresence>> | undefined
+    proctoringSessions: Map<string, Record<string, AttemptSession>> | undefined
+}
+
+const localBus = globalForLive.proctoringBus ?? new EventEmitter()
+localBus.setMaxListeners(0)
+globalForLive.proctoringBus = localBus
+
+const memoryPresence = globalForLive.proctoringPresence ?? new Map<string, Map<string, AttemptPresence>>()
+globalForLive.proctoringPresence = memoryPresence
+
+const memorySessions = globalForLive.proctoringSessions ?? new Map<string, Record<string, AttemptSession>>()
+globalForLive.proctoringSessions = memorySessions
+
+let publisher: Redis | null = null
+let subscriber: Redis | null = null
+
+const getRedisUrl = (): string | undefined => process.env.REDIS_URL
+
+const getPublisher = (): Redis | null => {
+    const redisUrl = getRedisUrl()
+    if (!redisUrl) {
+        return null
+    }
+    if (!publisher) {
+        publisher = new Redis(redisUrl, {
+            maxRetriesPerRequest: 1,
+            enableReadyCheck: false
+        })
+    }
+    return publisher
+}
+
+// A connection in subscriber mode cannot run other commands, hence a second one
+const getSubscriber = (): Redis | null => {
+    const redisUrl = getRedisUrl()
+    if (!redisUrl) {
+        return null
+    }
+    if (!subscriber) {
+        subscriber = new Redis(redisUrl, { enableReadyCheck: false })
+        subscriber.on('message', (channel: string, raw: string) => {
+            try {
+                localBus.emit(channel, JSON.parse(raw))
+            } catch (error) {
+                console.error('[Proctoring] Malformed live message:', error)
+            }
+        })
+        subscriber.on('error', (error) => {
+            console.error('[Proctoring] Redis subscriber error:', error.message)
+        })
+    }
+    return subscriber
+}
+
+async function publish(channel: string, message: LiveProctorMessage | AttemptLiveMessage): Promise<void> {
+    const redis = getPublisher()
+    try {
+        if (redis) {
+            await redis.publish(channel, JSON.stringify(message))
+        } else {
+            localBus.emit(channel, message)
+        }
+    } catch (error) {
+        console.error('[Proctoring] Failed to publish live message:', error)
+    }
+}
+
+function subscribe<T>(channel: string, listener: (message: T) => void): () => void {
+    const redis = getSubscriber()
+    if (redis && localBus.listenerCount(channel) === 0) {
+        redis.subscribe(channel).catch((error) => {
+            console.error('[Proctoring] Failed to subscribe to live channel:', error)
+        })
+    }
+    localBus.on(channel, listener)
+
+    return () => {
+        localBus.off(channel, listener)
+        if (redis && localBus.listenerCount(channel) === 0) {
+            redis.unsubscribe(channel).catch(() => undefined)
+        }
+    }
+}
+
+/**
+ * Send a message to the consoles watching the exam. Never throws: the live view
+ * is best effort, the event itself is already stored.
+ */
+export function publishProctorMessage(examId: string, message: LiveProctorMessage): Promise<void> {
+    return publish(`${EXAM_CHANNEL_PREFIX}:${examId}`, message)
+}
+
+/**
+ * Receive the messages of an exam. Returns the function that stops listening.
+ */
+export function subscribeToExam(examId: string, listener: (message: LiveProctorMessage) => void): () => void {
+    return subscribe(`${EXAM_CHANNEL_PREFIX}:${examId}`, listener)
+}
+
+/**
+ * Send a message to the student's exam page
+ */
+export function publishAttemptMessage(attemptId: string, message: AttemptLiveMessage): Promise<void> {
+    return publish(`${ATTEMPT_CHANNEL_PREFIX}:${attemptId}`, message)
+}
+
+/**
+ * Receive the messages sent to an attempt's exam page
+ */
+export function subscribeToAttempt(attemptId: string, listener: (message: AttemptLiveMessage) => void): () => void {
+    return subscribe(`${ATTEMPT_CHANNEL_PREFIX}:${attemptId}`, listener)
+}
+
+/**
+ * Server-Sent Events response: the initial messages, then everything the
+ * subscription receives until the client disconnects.
+ */
+export function createLiveResponse<T>(
+    req: Request,
+    subscribeTo: (listener: (message: T) => void) => () => void,
+    getInitialMessages: () => Promise<T[]>
+): Response {
+    const encoder = new TextEncoder()
+    let cleanup: (() => void) | null = null
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false
+            const write = (chunk: string) => {
+                if (closed) return
+                try {
+                    controller.enqueue(encoder.encode(chunk))
+                } catch {
+                    cleanup?.()
+                }
+            }
+            const send = (message: T) => write(`data: ${JSON.stringify(message)}\n\n`)
+
+            // Subscribe before reading the initial state so nothing falls in between
+            const unsubscribe = subscribeTo(send)
+            const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS)
+
+            cleanup = () => {
+                if (closed) return
+                closed = true
+                clearInterval(keepAlive)
+                unsubscribe()
+                req.signal.removeEventListener('abort', onAbort)
+                try {
+                    controller.close()
+                } catch {
+                    // Already closed by the client
+                }
+            }
+            const onAbort = () => cleanup?.()
+            req.signal.addEventListener('abort', onAbort)
+
+            // Tell the browser to wait a few seconds before reconnecting
+            write('retry: 5000\n\n')
+            try {
+                for (const message of await getInitialMessages()) {
+                    send(message)
+                }
+            } catch (error) {
+                console.error('[Proctoring] Failed to load the live stream state:', error)
+            }
+        },
+        cancel() {
+            cleanup?.()
+        }
+    })
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        }
+    })
+}
+
+/**
+ * Record a heartbeat of the student's exam page
+ */
+export async function recordHeartbeat(examId: string, attemptId: string, presence: AttemptPresence): Promise<void> {
+    const redis = getPublisher()
+    if (redis) {
+        const key = `${PRESENCE_KEY_PREFIX}:${examId}`
+        await redis.hset(key, attemptId, JSON.stringify(presence))
+        await redis.expire(key, PRESENCE_TTL_SECONDS)
+        return
+    }
+
+    const examPresence = memoryPresence.get(examId) ?? new Map<string, AttemptPresence>()
+    examPresence.set(attemptId, presence)
+    memoryPresence.set(examId, examPresence)
+}
+
+/**
+ * Last heartbeat of each attempt of the exam
+ */
+export async function getExamPresence(examId: string): Promise<Record<string, AttemptPresence>> {
+    const redis = getPublisher()
+    if (redis) {
+        const entries = await redis.hgetall(`${PRESENCE_KEY_PREFIX}:${examId}`)
+        const presence: Record<string, AttemptPresence> = {}
+        for (const [attemptId, raw] of Object.entries(entries)) {
+            try {
+                presence[attemptId] = JSON.parse(raw) as AttemptPresence
+            } catch {
+                // Skip malformed entries
+            }
+        }
+        return presence
+    }
+
+    return Object.fromEntries(memoryPresence.get(examId) ?? [])
+}
+
+// Heartbeats of two pages of an attempt can interleave: a page's sessions are
+// only written if no other heartbeat changed them since they were read
+const SESSION_WRITE_ROUNDS = 5
+const WRITE_SESSIONS_IF_UNCHANGED = `
+local expected = cjson.decode(ARGV[1])
+local current = redis.call('HGETALL', KEYS[1])
+local remaining = 0
+for _ in pairs(expected) do remaining = remaining + 1 end
+for i = 1, #current, 2 do
+    if expected[current[i]] ~= current[i + 1] then return 0 end
+    remaining = remaining - 1
+end
+if remaining ~= 0 then return 0 end
+for id, session in pairs(cjson.decode(ARGV[2])) do
+    redis.call('HSET', KEYS[1], id, session)
+end
+redis.call('EXPIRE', KEYS[1], ARGV[3])
+return 1
+`
+
+/**
+ * Record the heartbeat of one exam page of the attempt. Returns the other
+ * sessions open at the same time when this heartbeat reveals them, null
+ * otherwise (single session, or already reported).
+ */
+export async function recordSessionHeartbeat(
+    attemptId: string,
+    sessionId: string,
+    now: Date = new Date()
+): Promise<string[] | null> {
+    const redis = getPublisher()
+    if (redis) {
+        const key = `${SESSIONS_KEY_PREFIX}:${attemptId}`
+        for (let round = 0; round < SESSION_WRITE_ROUNDS; round++) {
+            const stored = await redis.hgetall(key)
+            const sessions: Record<string, AttemptSession> = {}
+            for (const [id, raw] of Object.entries(stored)) {
+                try {
+                    sessions[id] = JSON.parse(raw) as AttemptSession
+                } catch {
+                    // Skip malformed entries
+                }
+            }
+            const result = applySessionHeartbeat(sessions, sessionId, now)
+            const changed = Object.entries(result.sessions).filter(([id, session]) =>
+                JSON.stringify(session) !== JSON.stringify(sessions[id])
+            )
+            const written = await redis.eval(
+                WRITE_SESSIONS_IF_UNCHANGED,
+                1,
+                key,
+                JSON.stringify(stored),
+                JSON.stringify(Object.fromEntries(changed.map(([id, session]) => [id, JSON.stringify(session)]))),
+                PRESENCE_TTL_SECONDS
+            )
+            if (written === 1) {
+                return result.concurrentSessionIds
+            }
+        }
+        // The other pages of the attempt kept writing: their heartbeats do the detection
+        return null
+    }
+
+    const result = applySessionHeartbeat(memorySessions.get(attemptId) ?? {}, sessionId, now)
+    memorySessions.set(attemptId, result.sessions)
+    return result.concurrentSessionIds
+}
+
+/**
+ * Push a stored proctor event to the consoles, with the attempt's updated
+ * anti-cheat analysis
+ */
+export async function publishProctorEvent(examId: string, attemptId: string, event: LiveProctorEvent): Promise<void> {
+    try {
+        const attempt = await prisma.attempt.findUnique({
+            where: { id: attemptId },
+            select: {
+                proctorEvents: {
+                    select: { type: true, timestamp: true, metadata: true },
+                    orderBy: { timestamp: 'asc' }
+                },
+                answers: {
+                    select: {
+                        questionId: true,
+                        segments: { select: { autosavedAt: true } }
+                    }
+                }
+            }
+        })
+        if (!attempt) return
+
+        const answerTimestamps = attempt.answers.flatMap(answer =>
+            answer.segments
+                .filter(segment => segment.autosavedAt !== null)
+                .map(segment => ({ questionId: answer.questionId, savedAt: segment.autosavedAt! }))
+        )
+
+        await publishProctorMessage(examId, {
+            type: 'event',
+            attemptId,
+            event,
+            analysis: analyzeAttemptProctoring(attempt.proctorEvents, answerTimestamps)
+        })
+    } catch (error) {
+        console.error('[Proctoring] Failed to publish proctor event:', error)
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Live Proctoring State
+ *
+ * Messages pushed to the proctoring console while an exam is running, and to the
+ * student's exam page when the proctor intervenes, and how each page folds them
+ * into its view. Shared by the server (which publishes them) and the browser
+ * (which receives them over Server-Sent Events).
+ */
+
+import type { AttemptProctoringAnalysis } from './patternAnalysis'
+
+/** How often the exam page reports that the student is still there */
+export const HEARTBEAT_INTERVAL_MS = 20_000
+
+/** A student is shown as connected while heartbeats keep arriving */
+export const PRESENCE_TIMEOUT_MS = 50_000
+
+/** Incoming events kept in the console feed */
+export const LIVE_FEED_SIZE = 50
+
+export interface AttemptPresence {
+  lastHeartbeatAt: string
+  questionId: string | null
+}
+
+export interface LiveProctorEvent {
+  id: string
+  type: string
+  timestamp: string
+  metadata: Record<string, unknown> | null
+}
+
+export type LiveProctorMessage =
+  // Sent once when the console connects
+  | { type: 'presence'; presence: Record<string, AttemptPresence> }
+  | { type: 'heartbeat'; attemptId: string; presence: AttemptPresence }
+  | { type: 'event'; attemptId: string; event: LiveProctorEvent; analysis: AttemptProctoringAnalysis }
+  | { type: 'status'; attemptId: string; status: 'submitted'; at: string }
+
+export interface LiveAttemptState {
+  presence?: AttemptPresence
+  analysis?: AttemptProctoringAnalysis
+  submittedAt?: string
+}
+
+export interface LiveProctoringState {
+  attempts: Record<string, LiveAttemptState>
+  // Most recent first
+  feed: (LiveProctorEvent & { attemptId: string })[]
+}
+
+export const EMPTY_LIVE_PROCTORING_STATE: LiveProctoringState = { attempts: {}, feed: [] }
+
+/**
+ * Fold a pushed message into the console state
+ */
+export function applyLiveMessage(state: LiveProctoringState, message: LiveProctorMessage): LiveProctoringState {
+  const update = (attemptId: string, patch: LiveAttemptState) => ({
+    ...state.attempts,
+    [attemptId]: { ...state.attempts[attemptId], ...patch }
+  })
+
+  switch (message.type) {
+    case 'presence': {
+      const attempts = { ...state.attempts }
+      for (const [attemptId, presence] of Object.entries(message.presence)) {
+        attempts[attemptId] = { ...attempts[attemptId], presence }
+      }
+      return { ...state, attempts }
+    }
+    case 'heartbeat':
+      return { ...state, attempts: update(message.attemptId, { presence: message.presence }) }
+    case 'event':
+      // Redelivered events (reconnection) are not listed twice
+      if (state.feed.some((entry) => entry.id === message.event.id)) return state
+      return {
+        attempts: update(message.attemptId, { analysis: message.analysis }),
+        feed: [{ ...message.event, attemptId: message.attemptId }, ...state.feed].slice(0, LIVE_FEED_SIZE)
+      }
+    case 'status':
+      return { ...state, attempts: update(message.attemptId, { submittedAt: message.at }) }
+  }
+}
+
+/**
+ * Whether the student's exam page is still sending heartbeats
+ */
+export function isPresent(presence: AttemptPresence | undefined, now: number): boolean {
+  if (!presence) return false
+  return now - new Date(presence.lastHeartbeatAt).getTime() < PRESENCE_TIMEOUT_MS
+}
+
+/**
+ * Time since the last heartbeat, as shown in the console ("il y a 12 s")
+ */
+export function formatPresenceAge(presence: AttemptPresence, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(presence.lastHeartbeatAt).getTime()) / 1000))
+  if (seconds < 60) return `il y a ${seconds} s`
+  if (seconds < 3600) return `il y a ${Math.floor(seconds / 60)} min`
+  return `il y a ${Math.floor(seconds / 3600)} h`
+}
+
+/**
+ * Question labels as the student sees them in the exam navigator: the custom
+ * label, otherwise the question number across sections
+ */
+export function getQuestionLabels(sections: {
+  order: number
+  questions: { id: string; order: number; customLabel: string | null }[]
+}[]): Record<string, string> {
+  const questions = [...sections]
+    .sort((a, b) => a.order - b.order)
+    .flatMap((section) => [...section.questions].sort((a, b) => a.order - b.order))
+  return Object.fromEntries(questions.map((question, index) => [question.id, question.customLabel || String(index + 1)]))
+}
+
+// --- Student side: proctor interventions ---
+
+export interface ProctorNotice {
+  id: string
+  kind: 'message' | 'warning'
+  text: string
+  at: string
+}
+
+export type AttemptLiveMessage =
+  // Sent when the exam page connects and whenever the proctor changes the timer.
+  // While paused the deadline keeps moving: the page shows the frozen remaining time.
+  | {
+      type: 'timing'
+      deadlineAt: string | null
+      pausedAt: string | null
+      remainingSeconds: number | null
+      pauseMessage: string | null
+    }
+  | { type: 'notice'; notice: ProctorNotice }
+  | { type: 'terminated'; reason: string; at: string }
+
+export interface AttemptLiveState {
+  // Undefined until the server has sent the timing: the page keeps its own deadline
+  deadlineAt?: string | null
+  pausedAt: string | null
+  remainingSeconds: number | null
+  pauseMessage: string | null
+  notices: ProctorNotice[]
+  terminated: { reason: string; at: string } | null
+}
+
+export const EMPTY_ATTEMPT_LIVE_STATE: AttemptLiveState = {
+  pausedAt: null,
+  remainingSeconds: null,
+  pauseMessage: null,
+  notices: [],
+  terminated: null
+}
+
+/**
+ * Fold a pushed message into the exam page state
+ */
+export function applyAttemptLiveMessage(state: AttemptLiveState, message: AttemptLiveMessage): AttemptLiveState {
+  switch (message.type) {
+    case 'timing':
+      return {
+        ...state,
+        deadlineAt: message.deadlineAt,
+        pausedAt: message.pausedAt,
+        remainingSeconds: message.remainingSeconds,
+        pauseMessage: message.pauseMessage
+      }
+    case 'notice':
+      // Notices are sent again on reconnection
+      if (state.notices.some((notice) => notice.id === message.notice.id)) return state
+      return { ...state, notices: [...state.notices, message.notice] }
+    case 'terminated':
+      return { ...state, terminated: { reason: message.reason, at: message.at } }
+  }
+}
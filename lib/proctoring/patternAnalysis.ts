@@ -6,7 +6,8 @@
  * to detect suspicious behavior patterns during exam attempts.
  */
 
-import { computeAntiCheatScore, type AntiCheatScoreParams, type CopyPasteAnalysis } from '../antiCheat'
+import { analyzeCopyPasteEvents, computeAntiCheatScore, type AntiCheatScoreParams, type CopyPasteAnalysis } from '../antiCheat'
+import { isInterventionEvent } from './interventions'
 
 // Pattern analysis thresholds and scoring constants
 const FOCUS_REGAIN_GRACE_PERIOD_MS = 5000 // Allow 5 seconds after answer for focus regain
@@ -39,6 +40,15 @@ export interface ExternalPasteAnalysis {
   internalPastes: number
 }
 
+export interface AttemptProctoringAnalysis {
+  eventCounts: Record<string, number>
+  totalEvents: number
+  focusLossPattern: FocusLossPattern
+  externalPastes: number
+  internalPastes: number
+  antiCheatScore: number
+}
+
 export interface EnhancedAntiCheatScoreParams {
   eventCounts: { [key: string]: number }
   focusLossPattern: FocusLossPattern
@@ -198,3 +208,51 @@ export function computeEnhancedAntiCheatScore(params: EnhancedAntiCheatScorePara
 
   return baseScore + patternBonus + externalPasteBonus
 }
+
+// Event types always listed in the counts, even when none occurred
+const COUNTED_EVENT_TYPES = [
+  'FOCUS_LOST', 'FOCUS_GAINED', 'TAB_SWITCH', 'FULLSCREEN_EXIT', 'INACTIVITY', 'MULTI_SESSION', 'COPY', 'PASTE'
+]
+
+/**
+ * Complete analysis of one attempt: event counts, focus and paste patterns and
+ * the enhanced score. Used by the proctoring summary and its live updates.
+ *
+ * @param allEvents - Proctor events sorted by timestamp, interventions included
+ * @param answerTimestamps - Array of answer save timestamps
+ * @returns Counts, patterns and enhanced anti-cheat score
+ */
+export function analyzeAttemptProctoring(
+  allEvents: ProctorEventData[],
+  answerTimestamps: AnswerTimestamp[]
+): AttemptProctoringAnalysis {
+  // Proctor interventions are in the timeline but say nothing about the student
+  const events = allEvents.filter((event) => !isInterventionEvent(event.type))
+  const eventCounts: Record<string, number> = Object.fromEntries(COUNTED_EVENT_TYPES.map((type) => [type, 0]))
+  for (const event of events) {
+    eventCounts[event.type] = (eventCounts[event.type] || 0) + 1
+  }
+
+  const focusLossPattern = analyzeFocusLossPatterns(events, answerTimestamps)
+  const externalPasteAnalysis = analyzeExternalPastes(events)
+  const copyPasteAnalysis = analyzeCopyPasteEvents(events)
+
+  return {
+    eventCounts,
+    totalEvents: events.length,
+    focusLossPattern: {
+      flag: focusLossPattern.flag,
+      ratio: focusLossPattern.ratio,
+      suspiciousPairs: focusLossPattern.suspiciousPairs,
+      totalAnswers: focusLossPattern.totalAnswers
+    },
+    externalPastes: externalPasteAnalysis.externalPastes,
+    internalPastes: externalPasteAnalysis.internalPastes,
+    antiCheatScore: computeEnhancedAntiCheatScore({
+      eventCounts,
+      focusLossPattern,
+      externalPasteAnalysis,
+      copyPasteAnalysis
+    })
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Multi-Session Detection
+ *
+ * Every exam page sends its own session id with its heartbeats. Two sessions
+ * of one attempt that keep sending heartbeats after the other one started are
+ * two devices or tabs open at the same time. A reload is not: the old page
+ * stops before the new one starts.
+ */
+
+import { PRESENCE_TIMEOUT_MS } from './liveState'
+
+// Heartbeats of a closing page may still arrive just after the new page's first one
+export const SESSION_OVERLAP_GRACE_MS = 5_000
+
+export interface AttemptSession {
+  firstSeenAt: string
+  lastSeenAt: string
+  // Already reported in a MULTI_SESSION event
+  flagged: boolean
+}
+
+export interface SessionHeartbeatResult {
+  sessions: Record<string, AttemptSession>
+  // Sessions open alongside this one, when not reported yet
+  concurrentSessionIds: string[] | null
+}
+
+const overlaps = (a: AttemptSession, b: AttemptSession) =>
+  new Date(a.lastSeenAt).getTime() > new Date(b.firstSeenAt).getTime() + SESSION_OVERLAP_GRACE_MS &&
+  new Date(b.lastSeenAt).getTime() > new Date(a.firstSeenAt).getTime() + SESSION_OVERLAP_GRACE_MS
+
+/**
+ * Record a heartbeat of a session and tell whether it reveals sessions running
+ * in parallel that were not reported yet
+ */
+export function applySessionHeartbeat(
+  sessions: Record<string, AttemptSession>,
+  sessionId: string,
+  now: Date
+): SessionHeartbeatResult {
+  const nowIso = now.toISOString()
+  const current: AttemptSession = sessions[sessionId]
+    ? { ...sessions[sessionId], lastSeenAt: nowIso }
+    : { firstSeenAt: nowIso, lastSeenAt: nowIso, flagged: false }
+
+  const concurrentIds = Object.entries(sessions)
+    .filter(([id, session]) =>
+      id !== sessionId &&
+      now.getTime() - new Date(session.lastSeenAt).getTime() < PRESENCE_TIMEOUT_MS &&
+      overlaps(current, session)
+    )
+    .map(([id]) => id)
+
+  const next = { ...sessions, [sessionId]: current }
+  if (concurrentIds.length === 0) {
+    return { sessions: next, concurrentSessionIds: null }
+  }
+
+  const alreadyReported = current.flagged && concurrentIds.every((id) => sessions[id].flagged)
+  for (const id of [sessionId, ...concurrentIds]) {
+    next[id] = { ...next[id], flagged: true }
+  }
+  return { sessions: next, concurrentSessionIds: alreadyReported ? null : concurrentIds }
+}
@@ -6,6 +6,10 @@
  * This configuration allows teachers to enable per-exam proctoring features:
  * - Webcam deterrent: Shows camera permission prompt + indicator (NO recording, deterrent only)
  * - Browser lockdown: Detects tab switches, focus loss, and external paste
+ * - Required fullscreen: Blocks the exam until the page is in fullscreen
+ * - Inactivity: Reports a student idle for longer than the threshold
+ *
+ * Concurrent sessions on one attempt are always detected, from the heartbeats.
  */
 
 export interface AntiCheatConfig {
@@ -13,9 +17,36 @@ export interface AntiCheatConfig {
   webcamDeterrent: boolean
   /** Detect tab switches, focus loss, and external paste */
   browserLockdown: boolean
+  /** Block the exam UI outside fullscreen and report each exit */
+  requireFullscreen: boolean
+  /** Minutes without keyboard or pointer activity before INACTIVITY is reported, 0 to disable */
+  inactivityMinutes: number
 }
 
 export const DEFAULT_ANTI_CHEAT_CONFIG: AntiCheatConfig = {
   webcamDeterrent: false,
   browserLockdown: false,
+  requireFullscreen: false,
+  inactivityMinutes: 0,
+}
+
+export const INACTIVITY_MINUTES_OPTIONS = [0, 2, 5, 10, 15] as const
+
+/**
+ * Stored configuration with the defaults of the options it predates
+ */
+export function normalizeAntiCheatConfig(value: unknown): AntiCheatConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return DEFAULT_ANTI_CHEAT_CONFIG
+  }
+  const config = value as Record<string, unknown>
+  const inactivityMinutes = typeof config.inactivityMinutes === 'number' && Number.isFinite(config.inactivityMinutes)
+    ? Math.max(0, Math.round(config.inactivityMinutes))
+    : 0
+  return {
+    webcamDeterrent: config.webcamDeterrent === true,
+    browserLockdown: config.browserLockdown === true,
+    requireFullscreen: config.requireFullscreen === true,
+    inactivityMinutes,
+  }
 }
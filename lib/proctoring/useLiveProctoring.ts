@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import {
+  applyAttemptLiveMessage,
+  applyLiveMessage,
+  EMPTY_ATTEMPT_LIVE_STATE,
+  EMPTY_LIVE_PROCTORING_STATE,
+  type AttemptLiveMessage,
+  type AttemptLiveState,
+  type LiveProctoringState,
+  type LiveProctorMessage
+} from './liveState'
+
+// Refresh of the "connected" states and heartbeat ages
+const CLOCK_INTERVAL_MS = 5_000
+
+/**
+ * Subscribe to the live proctoring stream of an exam (Server-Sent Events).
+ * The browser reconnects by itself after a network loss; `connected` is false
+ * meanwhile. `now` ticks every few seconds so presence can be shown relative
+ * to it.
+ */
+export function useLiveProctoring(examId: string): { state: LiveProctoringState; connected: boolean; now: number } {
+  const [state, setState] = useState<LiveProctoringState>(EMPTY_LIVE_PROCTORING_STATE)
+  const [connected, setConnected] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    const source = new EventSource(`/api/exams/${examId}/proctoring/live`)
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        const message = JSON.parse(event.data) as LiveProctorMessage
+        setState((current) => applyLiveMessage(current, message))
+      } catch {
+        // Ignore malformed messages
+      }
+    }
+    return () => source.close()
+  }, [examId])
+
+  return { state, connected, now }
+}
+
+/**
+ * Subscribe to the proctor's interventions on an attempt, from the exam page
+ */
+export function useAttemptInterventions(attemptId: string): AttemptLiveState {
+  const [state, setState] = useState<AttemptLiveState>(EMPTY_ATTEMPT_LIVE_STATE)
+
+  useEffect(() => {
+    const source = new EventSource(`/api/attempts/${attemptId}/live`)
+    source.onmessage = (event: MessageEvent<string>) => {
+      try {
+        const message = JSON.parse(event.data) as AttemptLiveMessage
+        setState((current) => applyAttemptLiveMessage(current, message))
+      } catch {
+        // Ignore malformed messages
+      }
+    }
+    return () => source.close()
+  }, [attemptId])
+
+  return state
+}
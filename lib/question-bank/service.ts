@@ -0,0 +1,349 @@
+import { Prisma } from '@prisma/client'
+import type { QuestionDifficulty } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseContent, segmentsToPlainText } from '@/lib/content'
+import type { QuestionBankItemSummary, QuestionBankSegment, QuestionBankUsageStats } from '@/types/exams'
+import {
+    buildBankSearchText,
+    getQuestionTotalPoints,
+    parseBankSegments,
+    summarizeBankUsage,
+    type BankQuestionUsage,
+} from './snapshot'
+
+type DbClient = Prisma.TransactionClient | typeof prisma
+
+type BankTags = {
+    topics: string[]
+    learningObjectives: string[]
+    difficulty: QuestionDifficulty | null
+}
+
+const PREVIEW_LENGTH = 240
+
+const toPlainText = (value: string | null | undefined) =>
+    value ? segmentsToPlainText(parseContent(value)) : ''
+
+type SessionUser = {
+    id: string
+    institutionId: string
+    role: string
+}
+
+const isAdminRole = (role: string) => role === 'ADMIN' || role === 'SCHOOL_ADMIN' || role === 'PLATFORM_ADMIN'
+
+export const canManageBankItem = (item: { createdById: string | null }, user: SessionUser) =>
+    isAdminRole(user.role) || item.createdById === user.id
+
+/**
+ * Courses whose bank a user can use: every live course of the institution for
+ * admins, the courses they teach otherwise.
+ */
+export async function getBankCourseIds(user: SessionUser): Promise<string[]> {
+    if (isAdminRole(user.role)) {
+        const courses = await prisma.course.findMany({
+            where: { institutionId: user.institutionId, archivedAt: null },
+            select: { id: true },
+        })
+        return courses.map((course) => course.id)
+    }
+
+    const enrollments = await prisma.enrollment.findMany({
+        where: {
+            userId: user.id,
+            role: 'TEACHER',
+            archivedAt: null,
+            class: { archivedAt: null, course: { institutionId: user.institutionId, archivedAt: null } },
+        },
+        select: { class: { select: { courseId: true } } },
+    })
+    return Array.from(new Set(enrollments.map((enrollment) => enrollment.class.courseId)))
+}
+
+/** Bank items a user can see: institution-wide items and items of their courses. */
+export const bankItemVisibilityWhere = (
+    institutionId: string,
+    courseIds: string[]
+): Prisma.QuestionBankItemWhereInput => ({
+    institutionId,
+    archivedAt: null,
+    OR: [{ courseId: null }, { courseId: { in: courseIds } }],
+})
+
+export const computeBankSearchText = (
+    item: { content: string; segments: QuestionBankSegment[] },
+    tags: Pick<BankTags, 'topics' | 'learningObjectives'>
+) =>
+    buildBankSearchText({
+        content: toPlainText(item.content),
+        segments: item.segments.flatMap((segment) => [
+            toPlainText(segment.instruction),
+            segment.rubric?.criteria ?? '',
+        ]),
+        topics: tags.topics,
+        learningObjectives: tags.learningObjectives,
+    })
+
+/**
+ * Copy a question (segments, rubrics, tools, code config) into a new bank item.
+ */
+export async function saveQuestionToBank(args: {
+    questionId: string
+    institutionId: string
+    courseId: string | null
+    createdById: string
+    tags: BankTags
+}) {
+    const question = await prisma.question.findUnique({
+        where: { id: args.questionId },
+        include: {
+            segments: {
+                include: { rubric: true },
+                orderBy: { order: 'asc' },
+            },
+        },
+    })
+    if (!question) return null
+
+    const segments: QuestionBankSegment[] = question.segments.map((segment) => ({
+        order: segment.order,
+        instruction: segment.instruction,
+        maxPoints: segment.maxPoints ?? null,
+        isCorrect: segment.isCorrect ?? null,
+        rubric: segment.rubric
+            ? {
+                criteria: segment.rubric.criteria ?? null,
+                levels: segment.rubric.levels ?? [],
+                examples: segment.rubric.examples ?? null,
+            }
+            : null,
+    }))
+
+    return prisma.questionBankItem.create({
+        data: {
+            institutionId: args.institutionId,
+            courseId: args.courseId,
+            createdById: args.createdById,
+            sourceQuestionId: question.id,
+            type: question.type,
+            content: question.content,
+            answerTemplate: question.answerTemplate ?? null,
+            answerTemplateLocked: question.answerTemplateLocked,
+            studentTools: question.studentTools ?? Prisma.DbNull,
+            shuffleOptions: question.shuffleOptions,
+            requireAllCorrect: question.requireAllCorrect,
+            maxPoints: question.maxPoints ?? null,
+            codeConfig: question.codeConfig ?? Prisma.DbNull,
+            parameters: question.parameters ?? Prisma.DbNull,
+            answerKey: question.answerKey ?? Prisma.DbNull,
+            segments: segments as Prisma.InputJsonValue,
+            topics: args.tags.topics,
+            learningObjectives: args.tags.learningObjectives,
+            difficulty: args.tags.difficulty,
+            searchText: computeBankSearchText({ content: question.content, segments }, args.tags),
+        },
+    })
+}
+
+/**
+ * Create a copy of a bank item in an exam section. The copy keeps a link to the
+ * item (bankItemId) so its results count towards the item's history.
+ */
+export async function createQuestionFromBankItem(
+    tx: DbClient,
+    item: {
+        id: string
+        type: Prisma.QuestionCreateInput['type']
+        content: string
+        answerTemplate: string | null
+        answerTemplateLocked: boolean
+        studentTools: Prisma.JsonValue
+        shuffleOptions: boolean
+        requireAllCorrect: boolean
+        maxPoints: number | null
+        codeConfig: Prisma.JsonValue
+        parameters: Prisma.JsonValue
+        answerKey: Prisma.JsonValue
+        segments: Prisma.JsonValue
+    },
+    target: { sectionId: string; order: number }
+) {
+    const question = await tx.question.create({
+        data: {
+            sectionId: target.sectionId,
+            bankItemId: item.id,
+            content: item.content,
+            answerTemplate: item.answerTemplate,
+            answerTemplateLocked: item.answerTemplateLocked,
+            studentTools: item.studentTools ?? Prisma.DbNull,
+            shuffleOptions: item.shuffleOptions,
+            requireAllCorrect: item.requireAllCorrect,
+            maxPoints: item.maxPoints,
+            codeConfig: item.codeConfig ?? Prisma.DbNull,
+            parameters: item.parameters ?? Prisma.DbNull,
+            answerKey: item.answerKey ?? Prisma.DbNull,
+            type: item.type,
+            order: target.order,
+        },
+    })
+
+    for (const segment of parseBankSegments(item.segments)) {
+        await tx.questionSegment.create({
+            data: {
+                questionId: question.id,
+                order: segment.order,
+                instruction: segment.instruction,
+                maxPoints: segment.maxPoints,
+                isCorrect: segment.isCorrect,
+                ...(segment.rubric
+                    ? {
+                        rubric: {
+                            create: {
+                                criteria: segment.rubric.criteria,
+                                levels: (segment.rubric.levels ?? []) as Prisma.InputJsonValue,
+                                examples: segment.rubric.examples == null
+                                    ? Prisma.DbNull
+                                    : segment.rubric.examples as Prisma.InputJsonValue,
+                            },
+                        },
+                    }
+                    : {}),
+            },
+        })
+    }
+
+    return question
+}
+
+type GradedQuestionCopy = {
+    maxPoints: number | null
+    segments: Array<{ maxPoints: number | null }>
+    answers: Array<{ grades: Array<{ score: number }> }>
+}
+
+// Graded answers only; an answer's score is the sum of its question-level grades
+const toBankQuestionUsage = (examId: string, question: GradedQuestionCopy): BankQuestionUsage => ({
+    examId,
+    totalPoints: getQuestionTotalPoints(question.maxPoints, question.segments),
+    answerScores: question.answers
+        .filter((answer) => answer.grades.length > 0)
+        .map((answer) => answer.grades.reduce((sum, grade) => sum + grade.score, 0)),
+})
+
+/**
+ * Exams that used each bank item and the average grade of their answers.
+ */
+export async function getBankUsageStats(itemIds: string[]): Promise<Map<string, QuestionBankUsageStats>> {
+    const stats = new Map<string, QuestionBankUsageStats>()
+    if (itemIds.length === 0) return stats
+
+    const questions = await prisma.question.findMany({
+        where: {
+            bankItemId: { in: itemIds },
+            section: { exam: { archivedAt: null } },
+        },
+        select: {
+            bankItemId: true,
+            maxPoints: true,
+            section: { select: { examId: true } },
+            segments: { select: { maxPoints: true } },
+            answers: {
+                where: { attempt: { status: { not: 'IN_PROGRESS' } } },
+                select: { grades: { select: { score: true } } },
+            },
+        },
+    })
+
+    const usagesByItem = new Map<string, BankQuestionUsage[]>()
+    for (const question of questions) {
+        if (!question.bankItemId) continue
+        const usages = usagesByItem.get(question.bankItemId) ?? []
+        usages.push(toBankQuestionUsage(question.section.examId, question))
+        usagesByItem.set(question.bankItemId, usages)
+    }
+
+    for (const itemId of itemIds) {
+        stats.set(itemId, summarizeBankUsage(usagesByItem.get(itemId) ?? []))
+    }
+    return stats
+}
+
+export const toBankItemSummary = (
+    item: {
+        id: string
+        type: QuestionBankItemSummary['type']
+        courseId: string | null
+        course?: { code: string } | null
+        content: string
+        topics: string[]
+        learningObjectives: string[]
+        difficulty: QuestionDifficulty | null
+        maxPoints: number | null
+        segments: Prisma.JsonValue
+        createdById: string | null
+        updatedAt: Date
+    },
+    usage: QuestionBankUsageStats | undefined
+): QuestionBankItemSummary => {
+    const preview = toPlainText(item.content).replace(/\s+/g, ' ').trim()
+    return {
+        id: item.id,
+        type: item.type,
+        courseId: item.courseId,
+        courseCode: item.course?.code ?? null,
+        preview: preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}…` : preview,
+        topics: item.topics,
+        learningObjectives: item.learningObjectives,
+        difficulty: item.difficulty,
+        totalPoints: getQuestionTotalPoints(item.maxPoints, parseBankSegments(item.segments)),
+        createdById: item.createdById,
+        updatedAt: item.updatedAt.toISOString(),
+        usage: usage ?? { examCount: 0, gradedAnswerCount: 0, averageScorePercent: null },
+    }
+}
+
+/**
+ * Per-exam history of a bank item: where it was used and how students scored.
+ */
+export async function getBankItemExamHistory(itemId: string) {
+    const questions = await prisma.question.findMany({
+        where: { bankItemId: itemId, section: { exam: { archivedAt: null } } },
+        select: {
+            maxPoints: true,
+            segments: { select: { maxPoints: true } },
+            section: {
+                select: {
+                    exam: {
+                        select: { id: true, title: true, startAt: true, course: { select: { code: true } } }
+                    }
+                }
+            },
+            answers: {
+                where: { attempt: { status: { not: 'IN_PROGRESS' } } },
+                select: { grades: { select: { score: true } } },
+            },
+        },
+    })
+
+    const byExam = new Map<string, { exam: typeof questions[number]['section']['exam']; usages: BankQuestionUsage[] }>()
+    for (const question of questions) {
+        const exam = question.section.exam
+        const entry = byExam.get(exam.id) ?? { exam, usages: [] }
+        entry.usages.push(toBankQuestionUsage(exam.id, question))
+        byExam.set(exam.id, entry)
+    }
+
+    return Array.from(byExam.values())
+        .map(({ exam, usages }) => {
+            const { gradedAnswerCount, averageScorePercent } = summarizeBankUsage(usages)
+            return {
+                examId: exam.id,
+                title: exam.title,
+                courseCode: exam.course.code,
+                startAt: exam.startAt?.toISOString() ?? null,
+                gradedAnswerCount,
+                averageScorePercent,
+            }
+        })
+        .sort((a, b) => (b.startAt ?? '').localeCompare(a.startAt ?? ''))
+}
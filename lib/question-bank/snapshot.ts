@@ -0,0 +1,116 @@
+import type { QuestionBankSegment, QuestionBankUsageStats } from '../../types/exams'
+
+export const MAX_BANK_TAGS = 20
+export const MAX_BANK_TAG_LENGTH = 80
+const MAX_SEARCH_TERMS = 8
+
+/**
+ * Trim, deduplicate (case-insensitive) and cap a list of topics or learning objectives.
+ */
+export const normalizeBankTags = (values: unknown): string[] => {
+    if (!Array.isArray(values)) return []
+    const seen = new Set<string>()
+    const tags: string[] = []
+    for (const value of values) {
+        if (typeof value !== 'string') continue
+        const tag = value.trim().replace(/\s+/g, ' ').slice(0, MAX_BANK_TAG_LENGTH)
+        const key = tag.toLocaleLowerCase()
+        if (!tag || seen.has(key)) continue
+        seen.add(key)
+        tags.push(tag)
+        if (tags.length >= MAX_BANK_TAGS) break
+    }
+    return tags
+}
+
+/** Lowercase, strip accents and collapse whitespace so "Équation" matches "equation". */
+export const normalizeSearchText = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+
+export const buildBankSearchText = (parts: {
+    content: string
+    segments: string[]
+    topics: string[]
+    learningObjectives: string[]
+}): string =>
+    normalizeSearchText(
+        [parts.content, ...parts.segments, ...parts.topics, ...parts.learningObjectives]
+            .filter(Boolean)
+            .join(' ')
+    )
+
+/** Split a search query into normalized terms; every term must match. */
+export const parseBankSearchTerms = (query: string | null | undefined): string[] => {
+    if (!query) return []
+    const terms = normalizeSearchText(query).split(' ').filter((term) => term.length > 0)
+    return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS)
+}
+
+/** Read the segments JSON of a bank item, dropping malformed entries. */
+export const parseBankSegments = (value: unknown): QuestionBankSegment[] => {
+    if (!Array.isArray(value)) return []
+    return value
+        .filter((segment): segment is Record<string, unknown> => !!segment && typeof segment === 'object')
+        .map((segment, index) => {
+            const rubric = segment.rubric && typeof segment.rubric === 'object'
+                ? segment.rubric as Record<string, unknown>
+                : null
+            return {
+                order: typeof segment.order === 'number' ? segment.order : index,
+                instruction: typeof segment.instruction === 'string' ? segment.instruction : '',
+                maxPoints: typeof segment.maxPoints === 'number' ? segment.maxPoints : null,
+                isCorrect: typeof segment.isCorrect === 'boolean' ? segment.isCorrect : null,
+                rubric: rubric
+                    ? {
+                        criteria: typeof rubric.criteria === 'string' ? rubric.criteria : null,
+                        levels: rubric.levels ?? [],
+                        examples: rubric.examples ?? null,
+                    }
+                    : null,
+            }
+        })
+        .sort((a, b) => a.order - b.order)
+}
+
+/** Same rule as MCQ scoring: the question's maxPoints, else the sum of its segments. */
+export const getQuestionTotalPoints = (
+    maxPoints: number | null | undefined,
+    segments: Array<{ maxPoints: number | null | undefined }>
+): number =>
+    maxPoints ?? segments.reduce((sum, segment) => sum + (segment.maxPoints ?? 0), 0)
+
+export type BankQuestionUsage = {
+    examId: string
+    totalPoints: number
+    /** One entry per graded answer: the sum of its question-level grades */
+    answerScores: number[]
+}
+
+/**
+ * Aggregate the exams that used a bank item and the historical average score,
+ * as a percentage of each copy's own points (copies may have been re-weighted).
+ */
+export const summarizeBankUsage = (usages: BankQuestionUsage[]): QuestionBankUsageStats => {
+    const examIds = new Set(usages.map((usage) => usage.examId))
+    let percentSum = 0
+    let gradedAnswerCount = 0
+    for (const usage of usages) {
+        if (usage.totalPoints <= 0) continue
+        for (const score of usage.answerScores) {
+            percentSum += Math.min(Math.max(score / usage.totalPoints, 0), 1) * 100
+            gradedAnswerCount += 1
+        }
+    }
+    return {
+        examCount: examIds.size,
+        gradedAnswerCount,
+        averageScorePercent: gradedAnswerCount > 0
+            ? Math.round((percentSum / gradedAnswerCount) * 10) / 10
+            : null,
+    }
+}
@@ -0,0 +1,360 @@
+import type { QuestionParameter, QuestionParameterValues } from '../types/exams'
+import { questionParametersSchema } from './schemas/exams'
+import { createSeededRandom, hashSeed } from './question-pools'
+
+/**
+ * Parameterized (algorithmic) questions: a question declares random variables
+ * (`a ∈ [2..9]`, `b = a^2 + 1`) and uses them as `{{a}}` or `{{2*b - a}}` in
+ * its content, answer template, options and rubric. Values are drawn once per
+ * attempt and persisted on it, so the student, the graders and the AI grader
+ * all see the same instantiated question.
+ */
+
+/** Values drawn for each parameterized question of an attempt, by question id. */
+export type AttemptParameterValues = Record<string, QuestionParameterValues>
+
+export const MAX_RANGE_VALUES = 10_000
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: (value: number, digits = 0) => {
+        const factor = 10 ** Math.round(digits)
+        return Math.round(value * factor) / factor
+    },
+    min: Math.min,
+    max: Math.max,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+}
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+}
+
+export const RESERVED_PARAMETER_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)]
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'name'; value: string }
+    | { type: 'op'; value: string }
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = []
+    let index = 0
+    while (index < expression.length) {
+        const char = expression[index]
+        if (/\s/.test(char)) {
+            index += 1
+            continue
+        }
+        const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(index))
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]) })
+            index += number[0].length
+            continue
+        }
+        const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(index))
+        if (name) {
+            tokens.push({ type: 'name', value: name[0] })
+            index += name[0].length
+            continue
+        }
+        if ('+-*/%^(),'.includes(char)) {
+            tokens.push({ type: 'op', value: char })
+            index += 1
+            continue
+        }
+        throw new Error(`Unexpected character "${char}"`)
+    }
+    return tokens
+}
+
+/**
+ * Evaluate an arithmetic expression (+ - * / % ^, parentheses, sqrt, abs,
+ * round(x, digits), min, max, trigonometry, exp, ln, log, pi, e) against
+ * variable values. Never uses eval; throws on syntax errors, unknown names
+ * and non-finite results.
+ */
+export const evaluateExpression = (expression: string, scope: QuestionParameterValues = {}): number => {
+    const tokens = tokenize(expression)
+    let position = 0
+
+    const peek = () => tokens[position]
+    const isOp = (value: string) => {
+        const token = peek()
+        return token?.type === 'op' && token.value === value
+    }
+    const expectOp = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected "${value}"`)
+        position += 1
+    }
+
+    const parseSum = (): number => {
+        let value = parseProduct()
+        while (isOp('+') || isOp('-')) {
+            const op = (tokens[position++] as { value: string }).value
+            const right = parseProduct()
+            value = op === '+' ? value + right : value - right
+        }
+        return value
+    }
+
+    const parseProduct = (): number => {
+        let value = parseUnary()
+        while (isOp('*') || isOp('/') || isOp('%')) {
+            const op = (tokens[position++] as { value: string }).value
+            const right = parseUnary()
+            value = op === '*' ? value * right : op === '/' ? value / right : value % right
+        }
+        return value
+    }
+
+    const parseUnary = (): number => {
+        if (isOp('-')) {
+            position += 1
+            return -parseUnary()
+        }
+        if (isOp('+')) {
+            position += 1
+            return parseUnary()
+        }
+        return parsePower()
+    }
+
+    // Right-associative, and binds tighter than unary minus: -a^2 = -(a^2)
+    const parsePower = (): number => {
+        const base = parsePrimary()
+        if (isOp('^')) {
+            position += 1
+            return base ** parseUnary()
+        }
+        return base
+    }
+
+    const parsePrimary = (): number => {
+        const token = peek()
+        if (!token) throw new Error('Unexpected end of expression')
+        position += 1
+        if (token.type === 'number') return token.value
+        if (token.type === 'op') {
+            if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`)
+            const value = parseSum()
+            expectOp(')')
+            return value
+        }
+        if (isOp('(')) {
+            const fn = FUNCTIONS[token.value]
+            if (!fn) throw new Error(`Unknown function "${token.value}"`)
+            position += 1
+            const args = [parseSum()]
+            while (isOp(',')) {
+                position += 1
+                args.push(parseSum())
+            }
+            expectOp(')')
+            return fn(...args)
+        }
+        if (Object.prototype.hasOwnProperty.call(scope, token.value)) return scope[token.value]
+        if (token.value in CONSTANTS) return CONSTANTS[token.value]
+        throw new Error(`Unknown variable "${token.value}"`)
+    }
+
+    const result = parseSum()
+    if (position < tokens.length) throw new Error('Unexpected input after expression')
+    if (!Number.isFinite(result)) throw new Error('Expression does not evaluate to a finite number')
+    return result
+}
+
+/** Drop floating point noise (0.1 + 0.2 -> 0.3) before storing or showing a value. */
+export const roundParameterValue = (value: number) => Number(value.toPrecision(12))
+
+export const formatParameterValue = (value: number) => String(roundParameterValue(value))
+
+/** Read Question.parameters (JSON column). Returns [] when it is missing or malformed. */
+export const parseQuestionParameters = (value: unknown): QuestionParameter[] => {
+    const parsed = questionParametersSchema.safeParse(value)
+    return parsed.success ? parsed.data : []
+}
+
+const getRangeSize = (parameter: Extract<QuestionParameter, { type: 'range' }>) =>
+    Math.floor((parameter.max - parameter.min) / (parameter.step ?? 1) + 1e-9) + 1
+
+/**
+ * Check parameter definitions beyond their shape: unique names, non-empty
+ * ranges, and formulas that only use parameters declared before them.
+ * Returns an error message, or null when the definitions are usable.
+ */
+export const validateQuestionParameters = (parameters: QuestionParameter[]): string | null => {
+    const sample: QuestionParameterValues = {}
+    for (const parameter of parameters) {
+        if (parameter.name in sample) return `Duplicate parameter "${parameter.name}"`
+        if (RESERVED_PARAMETER_NAMES.includes(parameter.name)) return `"${parameter.name}" is a reserved name`
+        if (parameter.type === 'range') {
+            if (parameter.min > parameter.max) return `Parameter "${parameter.name}": min is greater than max`
+            if (getRangeSize(parameter) > MAX_RANGE_VALUES) return `Parameter "${parameter.name}": range has too many values`
+            sample[parameter.name] = parameter.min
+            continue
+        }
+        try {
+            sample[parameter.name] = evaluateExpression(parameter.expression, sample)
+        } catch (error) {
+            return `Parameter "${parameter.name}": ${error instanceof Error ? error.message : 'invalid expression'}`
+        }
+    }
+    return null
+}
+
+const MAX_DRAW_TRIES = 20
+
+/**
+ * Draw values for one question. Ranges are drawn uniformly on their steps;
+ * formulas are evaluated in declaration order. When a formula fails for the
+ * drawn values (e.g. division by zero), the ranges are drawn again.
+ * Deterministic for a given seed; throws if no draw works.
+ */
+export const drawQuestionParameterValues = (
+    parameters: QuestionParameter[],
+    seed: string
+): QuestionParameterValues => {
+    const random = createSeededRandom(hashSeed(seed))
+    let lastError: unknown
+    for (let tryIndex = 0; tryIndex < MAX_DRAW_TRIES; tryIndex += 1) {
+        try {
+            const values: QuestionParameterValues = {}
+            for (const parameter of parameters) {
+                if (parameter.type === 'range') {
+                    const index = Math.floor(random() * getRangeSize(parameter))
+                    values[parameter.name] = roundParameterValue(parameter.min + index * (parameter.step ?? 1))
+                } else {
+                    values[parameter.name] = roundParameterValue(evaluateExpression(parameter.expression, values))
+                }
+            }
+            return values
+        } catch (error) {
+            lastError = error
+        }
+    }
+    throw lastError
+}
+
+const safeDraw = (parameters: QuestionParameter[], seed: string) => {
+    try {
+        return drawQuestionParameterValues(parameters, seed)
+    } catch {
+        return null
+    }
+}
+
+const getQuestionSeed = (seed: string, questionId: string) => `${seed}:${questionId}`
+
+/**
+ * Draw the values of every parameterized question of a new attempt. Returns
+ * null when no question has parameters, so regular attempts store nothing.
+ */
+export const drawAttemptParameterValues = (
+    questions: Array<{ id: string; parameters: unknown }>,
+    seed: string
+): AttemptParameterValues | null => {
+    const entries = questions
+        .map((question) => [question.id, parseQuestionParameters(question.parameters)] as const)
+        .filter(([, parameters]) => parameters.length > 0 && !validateQuestionParameters(parameters))
+        .map(([questionId, parameters]) => [questionId, safeDraw(parameters, getQuestionSeed(seed, questionId))] as const)
+        .filter((entry): entry is readonly [string, QuestionParameterValues] => entry[1] !== null)
+    return entries.length > 0 ? Object.fromEntries(entries) : null
+}
+
+/**
+ * Values of a question for an attempt: the stored draw when it covers every
+ * parameter, otherwise a draw from the same seed (parameters added or changed
+ * after the attempt started). Returns null for regular questions.
+ */
+export const resolveQuestionParameterValues = (
+    question: { id: string; parameters?: unknown },
+    attempt: { parameterValues?: unknown; examId: string; studentId: string }
+): QuestionParameterValues | null => {
+    const parameters = parseQuestionParameters(question.parameters)
+    if (parameters.length === 0 || validateQuestionParameters(parameters)) return null
+
+    const stored = (attempt.parameterValues as AttemptParameterValues | null | undefined)?.[question.id]
+    if (
+        stored
+        && typeof stored === 'object'
+        && parameters.every((parameter) => typeof stored[parameter.name] === 'number')
+    ) {
+        return stored
+    }
+    return safeDraw(parameters, getQuestionSeed(`${attempt.examId}:${attempt.studentId}`, question.id))
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g
+
+/**
+ * Replace `{{expression}}` placeholders with their value. Placeholders that do
+ * not evaluate (unknown name, LaTeX braces) are left untouched.
+ */
+export const substituteParameters = (text: string, values: QuestionParameterValues) => {
+    if (Object.keys(values).length === 0 || !text.includes('{{')) return text
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, expression: string) => {
+        try {
+            return formatParameterValue(evaluateExpression(expression, values))
+        } catch {
+            return placeholder
+        }
+    })
+}
+
+/** Substitute placeholders in every string of a JSON-like value (content segments, rubrics). */
+export const substituteParametersDeep = <T>(value: T, values: QuestionParameterValues): T => {
+    if (typeof value === 'string') return substituteParameters(value, values) as T
+    if (Array.isArray(value)) return value.map((item) => substituteParametersDeep(item, values)) as T
+    if (Object.prototype.toString.call(value) === '[object Object]') {
+        return Object.fromEntries(
+            Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, substituteParametersDeep(item, values)])
+        ) as T
+    }
+    return value
+}
+
+/**
+ * Instantiate a question: content, answer template, options/parts and their
+ * rubrics. Works on stored (serialized) or parsed content alike.
+ */
+export const applyQuestionParameterValues = <
+    Q extends { content?: unknown; answerTemplate?: unknown; segments?: unknown[] },
+>(
+    question: Q,
+    values: QuestionParameterValues | null
+): Q => {
+    if (!values) return question
+    return {
+        ...question,
+        ...(question.content !== undefined ? { content: substituteParametersDeep(question.content, values) } : {}),
+        ...(question.answerTemplate !== undefined
+            ? { answerTemplate: substituteParametersDeep(question.answerTemplate, values) }
+            : {}),
+        ...(question.segments !== undefined ? { segments: substituteParametersDeep(question.segments, values) } : {}),
+    }
+}
+
+/** Instantiate every parameterized question of the sections an attempt was given. */
+export const applyAttemptParameterValues = <
+    Q extends { id: string; parameters?: unknown; content?: unknown; answerTemplate?: unknown; segments?: unknown[] },
+    S extends { questions: Q[] },
+>(
+    sections: S[],
+    attempt: { parameterValues?: unknown; examId: string; studentId: string }
+): S[] =>
+    sections.map((section) => ({
+        ...section,
+        questions: section.questions.map((question) =>
+            applyQuestionParameterValues(question, resolveQuestionParameterValues(question, attempt))
+        ),
+    }))
@@ -0,0 +1,180 @@
+import type { PoolStratification } from '../types/exams'
+
+/**
+ * Question pools: a section can be configured to draw N of its questions for
+ * each attempt, optionally stratified by difficulty or points. The selection is
+ * drawn once when the attempt is created and persisted on the attempt, so
+ * grading, exports and results always show the questions the student got.
+ */
+
+export const POOL_STRATIFICATIONS: PoolStratification[] = ['NONE', 'DIFFICULTY', 'POINTS']
+
+export type PoolQuestion = {
+    id: string
+    totalPoints: number
+    difficulty: string | null
+}
+
+export type PoolSection = {
+    id: string
+    poolDrawCount: number | null
+    poolStratifyBy: PoolStratification
+    questions: PoolQuestion[]
+}
+
+/** Drawn question ids per pool section, in the order shown to the student. */
+export type AttemptQuestionSelection = Record<string, string[]>
+
+export const isPoolSection = (section: { poolDrawCount?: number | null }) =>
+    typeof section.poolDrawCount === 'number' && section.poolDrawCount > 0
+
+/** Number of questions a student gets from a section. */
+export const getDrawnQuestionCount = (section: { poolDrawCount?: number | null; questions: unknown[] }) =>
+    isPoolSection(section)
+        ? Math.min(section.poolDrawCount as number, section.questions.length)
+        : section.questions.length
+
+export const hashSeed = (value: string) => {
+    let hash = 2166136261
+    for (let i = 0; i < value.length; i += 1) {
+        hash ^= value.charCodeAt(i)
+        hash = Math.imul(hash, 16777619)
+    }
+    return hash >>> 0
+}
+
+// mulberry32: small, fast and good enough to spread questions across students
+export const createSeededRandom = (seed: number) => {
+    let state = seed || 1
+    return () => {
+        state = (state + 0x6d2b79f5) | 0
+        let t = Math.imul(state ^ (state >>> 15), 1 | state)
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+const seededShuffle = <T>(items: T[], random: () => number) => {
+    const result = [...items]
+    for (let i = result.length - 1; i > 0; i -= 1) {
+        const j = Math.floor(random() * (i + 1))
+        ;[result[i], result[j]] = [result[j], result[i]]
+    }
+    return result
+}
+
+const getStratumKey = (question: PoolQuestion, stratifyBy: PoolStratification) => {
+    if (stratifyBy === 'DIFFICULTY') return question.difficulty ?? 'UNSET'
+    if (stratifyBy === 'POINTS') return String(question.totalPoints)
+    return 'ALL'
+}
+
+/**
+ * Split a draw count across strata proportionally to their size (largest
+ * remainder), so every student gets the same mix of difficulties or points.
+ */
+export const allocateStrata = (sizes: Array<{ key: string; size: number }>, drawCount: number) => {
+    const total = sizes.reduce((sum, stratum) => sum + stratum.size, 0)
+    const count = Math.min(drawCount, total)
+    if (total === 0 || count <= 0) return new Map(sizes.map((stratum) => [stratum.key, 0]))
+
+    const quotas = sizes.map((stratum) => {
+        const exact = (count * stratum.size) / total
+        return { key: stratum.key, size: stratum.size, quota: Math.floor(exact), remainder: exact - Math.floor(exact) }
+    })
+    let remaining = count - quotas.reduce((sum, stratum) => sum + stratum.quota, 0)
+    const byRemainder = [...quotas].sort((a, b) => b.remainder - a.remainder || a.key.localeCompare(b.key))
+    for (const stratum of byRemainder) {
+        if (remaining <= 0) break
+        if (stratum.quota < stratum.size) {
+            stratum.quota += 1
+            remaining -= 1
+        }
+    }
+    return new Map(quotas.map((stratum) => [stratum.key, stratum.quota]))
+}
+
+/** Draw the questions of one pool section; the result is in display order. */
+export const drawPoolQuestions = (section: PoolSection, seed: string): string[] => {
+    const random = createSeededRandom(hashSeed(`${seed}:${section.id}`))
+    const drawCount = getDrawnQuestionCount(section)
+
+    const strata = new Map<string, PoolQuestion[]>()
+    for (const question of section.questions) {
+        const key = getStratumKey(question, section.poolStratifyBy)
+        strata.set(key, [...(strata.get(key) ?? []), question])
+    }
+    const keys = Array.from(strata.keys()).sort()
+    const quotas = allocateStrata(keys.map((key) => ({ key, size: strata.get(key)!.length })), drawCount)
+
+    const drawn = keys.flatMap((key) => seededShuffle(strata.get(key)!, random).slice(0, quotas.get(key) ?? 0))
+    return seededShuffle(drawn, random).map((question) => question.id)
+}
+
+/**
+ * Draw every pool section of an exam for one attempt. Returns null when the
+ * exam has no pool, so attempts of regular exams store nothing.
+ */
+export const drawAttemptQuestionSelection = (
+    sections: PoolSection[],
+    seed: string
+): AttemptQuestionSelection | null => {
+    const poolSections = sections.filter(isPoolSection)
+    if (poolSections.length === 0) return null
+    return Object.fromEntries(poolSections.map((section) => [section.id, drawPoolQuestions(section, seed)]))
+}
+
+export const parseAttemptQuestionSelection = (value: unknown): AttemptQuestionSelection | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+    const selection: AttemptQuestionSelection = {}
+    for (const [sectionId, questionIds] of Object.entries(value as Record<string, unknown>)) {
+        if (!Array.isArray(questionIds)) continue
+        selection[sectionId] = questionIds.filter((id): id is string => typeof id === 'string')
+    }
+    return selection
+}
+
+/**
+ * Restrict exam sections to the questions of an attempt: pool sections keep
+ * only the drawn questions in their drawn order; other sections are unchanged.
+ */
+export const applyAttemptQuestionSelection = <
+    Q extends { id: string },
+    S extends { id: string; questions: Q[] },
+>(
+    sections: S[],
+    selectionValue: unknown
+): S[] => {
+    const selection = parseAttemptQuestionSelection(selectionValue)
+    if (!selection) return sections
+    return sections.map((section) => {
+        const questionIds = selection[section.id]
+        if (!questionIds) return section
+        const questionsById = new Map(section.questions.map((question) => [question.id, question]))
+        return {
+            ...section,
+            questions: questionIds
+                .map((id) => questionsById.get(id))
+                .filter((question): question is Q => question !== undefined),
+        }
+    })
+}
+
+/** Ids of every question an attempt was given. */
+export const getAttemptQuestionIds = (
+    sections: Array<{ id: string; questions: Array<{ id: string }> }>,
+    selectionValue: unknown
+) =>
+    new Set(
+        applyAttemptQuestionSelection(sections, selectionValue)
+            .flatMap((section) => section.questions.map((question) => question.id))
+    )
+
+/** Whether a question of a section was given to the attempt (non-pool sections give every question). */
+export const isQuestionInAttemptSelection = (
+    question: { id: string; sectionId: string },
+    selectionValue: unknown
+) => {
+    const questionIds = parseAttemptQuestionSelection(selectionValue)?.[question.sectionId]
+    return !questionIds || questionIds.includes(question.id)
+}
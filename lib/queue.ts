@@ -134,6 +134,64 @@ if (!pdfImportQueue) {
     console.warn('[Queue] PDF import queue not initialized due to Redis connection failure')
 }
 
+/**
+ * Code Grading Queue
+ *
+ * Used to run CODE answers against their test suites in the sandboxed runner.
+ * Jobs include: { attemptId, questionId, answerId }
+ */
+export const codeGradingQueue = connection
+    ? new Queue('code-grading', {
+        connection,
+        defaultJobOptions: {
+            attempts: 2,
+            backoff: {
+                type: 'fixed',
+                delay: 5000
+            },
+            removeOnComplete: {
+                age: 3600, // Keep completed jobs for 1 hour
+                count: 100
+            },
+            removeOnFail: {
+                age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+                count: 1000
+            }
+        }
+    })
+    : null
+
+if (!codeGradingQueue) {
+    console.warn('[Queue] Code grading queue not initialized due to Redis connection failure')
+}
+
+/**
+ * Paper Scan Queue
+ *
+ * Used to match the pages of scanned paper copies to their attempts.
+ * Jobs include: { scanId }
+ */
+export const paperScanQueue = connection
+    ? new Queue('paper-scan', {
+        connection,
+        defaultJobOptions: {
+            attempts: 1,
+            removeOnComplete: {
+                age: 3600, // Keep completed jobs for 1 hour
+                count: 50
+            },
+            removeOnFail: {
+                age: 24 * 3600, // Keep failed jobs for 24 hours
+                count: 100
+            }
+        }
+    })
+    : null
+
+if (!paperScanQueue) {
+    console.warn('[Queue] Paper scan queue not initialized due to Redis connection failure')
+}
+
 /**
  * Gracefully close the queue and Redis connection
  */
@@ -147,6 +205,12 @@ export async function closeQueue() {
     if (pdfImportQueue) {
         await pdfImportQueue.close()
     }
+    if (codeGradingQueue) {
+        await codeGradingQueue.close()
+    }
+    if (paperScanQueue) {
+        await paperScanQueue.close()
+    }
     if (connection) {
         await connection.quit()
     }
@@ -0,0 +1,48 @@
+/**
+ * Regrade requests: once results are released, a student may dispute the
+ * grade of a question until the deadline set in the exam grading config
+ * (`regradeWindowDays` days after the release, 0 disables requests).
+ */
+
+export const DEFAULT_REGRADE_WINDOW_DAYS = 7
+export const MAX_REGRADE_WINDOW_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RegradeWindow = {
+    enabled: boolean
+    deadline: Date | null
+    isOpen: boolean
+}
+
+export function getRegradeWindowDays(gradingConfig: Record<string, unknown> | null | undefined): number {
+    const raw = gradingConfig?.regradeWindowDays
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) return DEFAULT_REGRADE_WINDOW_DAYS
+    return Math.min(Math.max(Math.floor(raw), 0), MAX_REGRADE_WINDOW_DAYS)
+}
+
+/**
+ * Window in which students can file regrade requests.
+ * `releasedAt` is when the results became visible to students (null if not released yet).
+ */
+export function getRegradeWindow(params: {
+    gradingConfig: Record<string, unknown> | null | undefined
+    releasedAt: Date | null
+    now?: Date
+}): RegradeWindow {
+    const { gradingConfig, releasedAt, now = new Date() } = params
+    const days = getRegradeWindowDays(gradingConfig)
+    if (days === 0) {
+        return { enabled: false, deadline: null, isOpen: false }
+    }
+    if (!releasedAt) {
+        return { enabled: true, deadline: null, isOpen: false }
+    }
+    const deadline = new Date(releasedAt.getTime() + days * DAY_MS)
+    return { enabled: true, deadline, isOpen: now >= releasedAt && now < deadline }
+}
+
+/** Score set when accepting a request: kept within the question's points. */
+export function clampRegradeScore(score: number, maxPoints: number): number {
+    return Math.min(Math.max(score, 0), maxPoints)
+}
@@ -0,0 +1,9 @@
+import { z } from 'zod'
+import { FONT_SCALES } from '../accessibility/profile'
+
+export const accessibilityProfileSchema = z.object({
+    fontScale: z.literal([...FONT_SCALES]),
+    highContrast: z.boolean(),
+    dyslexiaFont: z.boolean(),
+    reducedMotion: z.boolean(),
+})
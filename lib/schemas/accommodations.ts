@@ -0,0 +1,22 @@
+import { z } from 'zod'
+
+const accommodationFields = {
+    examId: z.string().nullable().optional(),
+    durationMultiplier: z.number().min(1).max(4).nullable().optional(),
+    extraMinutes: z.number().int().min(0).max(24 * 60).nullable().optional(),
+    startAt: z.string().nullable().optional(),
+    endAt: z.string().nullable().optional(),
+    lateStartGraceMinutes: z.number().int().min(0).max(24 * 60).nullable().optional(),
+    reason: z.string().max(500).nullable().optional(),
+}
+
+export const createAccommodationSchema = z.object({
+    userId: z.string().min(1).optional(),
+    classId: z.string().min(1).optional(),
+    ...accommodationFields,
+}).refine(data => Boolean(data.userId) !== Boolean(data.classId), {
+    message: 'Exactly one of userId or classId is required',
+})
+
+export const updateAccommodationSchema = z.object(accommodationFields)
+    .refine(data => Object.keys(data).length > 0, { message: 'No fields to update' })
@@ -60,3 +60,19 @@ export const updateSettingSchema = z.object({
     key: z.string().min(1),
     value: z.string().optional(),
 })
+
+export const updateLLMProviderSchema = z.object({
+    institutionId: z.string().min(1).nullable().optional(),
+    provider: z.enum(['OPENAI', 'OPENAI_COMPATIBLE', 'AZURE_OPENAI', 'MOCK']),
+    model: z.string().max(200).optional(),
+    baseUrl: z.string().max(500).nullable().optional(),
+    apiKey: z.string().max(500).nullable().optional(),
+    apiVersion: z.string().max(50).nullable().optional(),
+    vision: z.boolean().nullable().optional(),
+})
+
+export const createPromptVersionSchema = z.object({
+    key: z.enum(['GRADING_SYSTEM', 'RUBRIC_SYSTEM']),
+    label: z.string().trim().min(1).max(200),
+    content: z.string().min(1),
+})
@@ -12,14 +12,64 @@ export const updateAttemptSchema = z.union([
         questionId: z.string().min(1),
         segmentId: z.string().min(1),
         content: z.unknown(),
+        clientUpdatedAt: z.string().optional(),
     }),
 ])
 
+/** Answer edits still in the student's offline journal when the attempt is submitted. */
+export const pendingAnswerSchema = z.object({
+    questionId: z.string().min(1),
+    segmentId: z.string().min(1),
+    content: z.string(),
+    clientUpdatedAt: z.string().optional(),
+})
+
+export const submitAttemptSchema = z.object({
+    pendingAnswers: z.array(pendingAnswerSchema).max(1000).optional(),
+})
+
 export const proctorEventSchema = z.object({
     type: z.enum([
         'FOCUS_LOST', 'TAB_SWITCH', 'FULLSCREEN_EXIT', 'INACTIVITY',
         'MULTI_SESSION', 'MULTIPLE_FACES', 'ABSENCE', 'NOISE_DETECTED',
-        'COPY', 'PASTE'
+        'COPY', 'PASTE',
+        // Presence ping of the exam page, not stored
+        'HEARTBEAT'
     ]),
     metadata: z.record(z.string(), z.unknown()).optional(),
 })
+
+export const runCodeSchema = z.object({
+    questionId: z.string().min(1),
+    code: z.string().max(100_000),
+})
+
+/** Proctor action on an in-progress attempt. */
+export const proctorInterventionSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.enum(['MESSAGE', 'WARNING']),
+        message: z.string().trim().min(1).max(1000),
+    }),
+    z.object({
+        action: z.literal('PAUSE'),
+        message: z.string().trim().max(1000).optional(),
+    }),
+    z.object({
+        action: z.literal('RESUME'),
+    }),
+    z.object({
+        action: z.literal('EXTEND'),
+        minutes: z.number().int().min(1).max(240),
+        reason: z.string().trim().max(1000).optional(),
+    }),
+    z.object({
+        action: z.literal('TERMINATE'),
+        reason: z.string().trim().min(1).max(1000),
+    }),
+])
+
+/** Earlier version of an answer segment put back by a teacher. */
+export const restoreAnswerRevisionSchema = z.object({
+    answerSegmentId: z.string().min(1),
+    sequence: z.number().int().min(1),
+})
@@ -20,6 +20,10 @@ export const updateExamSchema = z.object({
     gradingConfig: z.unknown().optional(),
 }).refine(data => Object.keys(data).length > 0, { message: 'No fields to update' })
 
+export const paperCopiesSchema = z.object({
+    classIds: z.array(z.string()).optional(),
+})
+
 export const createSectionSchema = z.object({
     title: z.string().optional(),
     order: z.number().optional(),
@@ -48,3 +52,113 @@ export const harmonizeSchema = z.object({
 export const variantsSchema = z.object({
     classIds: z.array(z.string()).optional(),
 })
+
+export const codeTestCaseSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().max(200).optional(),
+    input: z.string().max(100_000),
+    expectedOutput: z.string().max(100_000),
+    hidden: z.boolean(),
+    weight: z.number().min(0).max(100).optional(),
+})
+
+export const codeQuestionConfigSchema = z.object({
+    language: z.enum(['python', 'javascript']),
+    starterCode: z.string().max(100_000),
+    tests: z.array(codeTestCaseSchema).max(50),
+    timeLimitMs: z.number().int().min(100).max(30_000).optional(),
+    memoryLimitMb: z.number().int().min(16).max(1024).optional(),
+})
+
+export const numericAnswerKeySchema = z.object({
+    value: z.string().min(1).max(500),
+    tolerance: z.number().min(0),
+    toleranceMode: z.enum(['absolute', 'relative']),
+    units: z.array(z.string().min(1).max(50)).max(20).optional(),
+    unitPenalty: z.number().min(0).max(1).optional(),
+})
+
+export const mathExpressionAnswerKeySchema = z.object({
+    expression: z.string().min(1).max(2000),
+    variables: z.array(z.string().regex(/^[A-Za-z](_[A-Za-z0-9]+)?$/)).max(10),
+})
+
+const graphAnchorSchema = z.union([
+    z.object({ type: z.literal('point'), pointId: z.string() }),
+    z.object({ type: z.literal('coord'), x: z.number(), y: z.number() }),
+])
+
+const graphDomainSchema = z.object({ min: z.number().optional(), max: z.number().optional() }).optional()
+
+/**
+ * Graph content segment, as drawn in the graph editor. Only the geometry used to
+ * compare graphs is checked; styles and labels are kept as they are.
+ */
+export const graphSegmentSchema = z.looseObject({
+    id: z.string(),
+    type: z.literal('graph'),
+    axes: z.looseObject({ xMin: z.number(), xMax: z.number(), yMin: z.number(), yMax: z.number() }),
+    points: z.array(z.looseObject({
+        id: z.string(),
+        x: z.number(),
+        y: z.number(),
+        label: z.string().optional(),
+    })).max(200),
+    lines: z.array(z.looseObject({
+        id: z.string(),
+        start: graphAnchorSchema,
+        end: graphAnchorSchema,
+        kind: z.enum(['segment', 'line', 'ray']),
+        label: z.string().optional(),
+    })).max(200),
+    curves: z.array(z.looseObject({ id: z.string() })).max(200),
+    functions: z.array(z.looseObject({
+        id: z.string(),
+        expression: z.string().max(500),
+        domain: graphDomainSchema,
+        offsetX: z.number().optional(),
+        offsetY: z.number().optional(),
+        scaleY: z.number().optional(),
+        label: z.string().optional(),
+    })).max(50),
+    areas: z.array(z.looseObject({
+        id: z.string(),
+        mode: z.enum(['polygon', 'under-function', 'between-functions', 'between-line-and-function', 'bounded-region']),
+        points: z.array(graphAnchorSchema).max(2000).optional(),
+        functionId: z.string().optional(),
+        functionId2: z.string().optional(),
+        lineId: z.string().optional(),
+        boundaryIds: z.array(z.string()).optional(),
+        domain: graphDomainSchema,
+        labelPos: z.object({ x: z.number(), y: z.number() }).optional(),
+        ignoredBoundaries: z.array(z.string()).optional(),
+        label: z.string().optional(),
+    })).max(50),
+    texts: z.array(z.looseObject({ id: z.string() })).max(200),
+})
+
+export const graphAnswerKeySchema = z.object({
+    reference: graphSegmentSchema,
+    tolerance: z.number().positive(),
+    slopeTolerance: z.number().min(0),
+    areaOverlap: z.number().min(0).max(1),
+})
+
+const parameterNameSchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]{0,19}$/)
+
+export const questionParameterSchema = z.discriminatedUnion('type', [
+    z.object({
+        name: parameterNameSchema,
+        type: z.literal('range'),
+        min: z.number(),
+        max: z.number(),
+        step: z.number().positive().optional(),
+    }),
+    z.object({
+        name: parameterNameSchema,
+        type: z.literal('formula'),
+        expression: z.string().min(1).max(500),
+    }),
+])
+
+export const questionParametersSchema = z.array(questionParameterSchema).max(20)
@@ -1,7 +1,82 @@
 import { z } from 'zod'
 
+export const gradeCriterionResultSchema = z.object({
+    name: z.string().min(1).max(500),
+    description: z.string().max(5000).optional(),
+    maxPoints: z.number().min(0),
+    points: z.number(),
+    justification: z.string().max(5000),
+})
+
 export const upsertGradeSchema = z.object({
     answerId: z.string().min(1),
     score: z.number(),
     feedback: z.string().optional(),
+    // Criterion checklist as edited by the teacher (AI-graded answers with a structured rubric)
+    criteriaResults: z.array(gradeCriterionResultSchema).max(50).optional(),
+})
+
+export const createRegradeRequestSchema = z.object({
+    questionId: z.string().min(1),
+    justification: z.string().trim().min(1).max(5000),
+})
+
+export const regradeMessageSchema = z.object({
+    body: z.string().trim().min(1).max(5000),
+})
+
+export const resolveRegradeRequestSchema = z.object({
+    status: z.enum(['ACCEPTED', 'REJECTED']),
+    score: z.number().optional(),
+    feedback: z.string().optional(),
+    message: z.string().trim().max(5000).optional(),
+})
+
+export const gradingLockSchema = z.object({
+    answerId: z.string().min(1),
+})
+
+export const graderAssignmentSchema = z.discriminatedUnion('mode', [
+    z.object({
+        mode: z.literal('ATTEMPTS'),
+        graderIds: z.array(z.string().min(1)).min(1),
+    }),
+    z.object({
+        mode: z.literal('QUESTIONS'),
+        questions: z.array(z.object({
+            questionId: z.string().min(1),
+            graderId: z.string().min(1),
+        })).min(1),
+    }),
+])
+
+export const doubleGradingSelectionSchema = z.discriminatedUnion('mode', [
+    z.object({
+        mode: z.literal('ATTEMPTS'),
+        attemptIds: z.array(z.string().min(1)).min(1),
+    }),
+    z.object({
+        mode: z.literal('QUESTIONS'),
+        questionIds: z.array(z.string().min(1)).min(1),
+    }),
+    z.object({
+        mode: z.literal('SAMPLE'),
+        percentage: z.number().int().min(1).max(100),
+    }),
+])
+
+export const reconcileGradeSchema = z.object({
+    answerId: z.string().min(1),
+    score: z.number(),
+    feedback: z.string().optional(),
+})
+
+export const createCalibrationSetSchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    perQuestion: z.number().int().min(1).max(50),
+    questionIds: z.array(z.string().min(1)).optional(),
+})
+
+export const runCalibrationSchema = z.object({
+    promptVersionId: z.string().min(1).nullable().optional(),
 })
@@ -11,3 +11,19 @@ export const updateInstitutionSchema = z.object({
     domains: z.array(z.string()).optional(),
     ssoConfig: z.record(z.string(), z.unknown()).nullable().optional(),
 })
+
+export const lmsPlatformSchema = z.object({
+    id: z.string().optional(),
+    lmsType: z.string().min(1),
+    apiUrl: z.string().url().nullable().optional(),
+    issuer: z.string().min(1),
+    clientId: z.string().min(1),
+    deploymentId: z.string().min(1).nullable().optional(),
+    authLoginUrl: z.string().url(),
+    accessTokenUrl: z.string().url().nullable().optional(),
+    jwksUrl: z.string().url(),
+})
+
+export const scimTokenSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+})
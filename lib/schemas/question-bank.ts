@@ -0,0 +1,20 @@
+import { z } from 'zod'
+
+const difficultySchema = z.enum(['EASY', 'MEDIUM', 'HARD'])
+const tagListSchema = z.array(z.string().max(200)).max(50)
+
+export const createBankItemSchema = z.object({
+    questionId: z.string().min(1),
+    // Null shares the item with the whole institution
+    courseId: z.string().min(1).nullable(),
+    topics: tagListSchema.optional(),
+    learningObjectives: tagListSchema.optional(),
+    difficulty: difficultySchema.nullable().optional(),
+})
+
+export const updateBankItemSchema = z.object({
+    courseId: z.string().min(1).nullable().optional(),
+    topics: tagListSchema.optional(),
+    learningObjectives: tagListSchema.optional(),
+    difficulty: difficultySchema.nullable().optional(),
+}).refine(data => Object.keys(data).length > 0, { message: 'No fields to update' })
@@ -83,7 +83,7 @@ export async function loadSchoolAdminData(institutionId: string): Promise<School
                 email: true,
                 archivedAt: true,
                 enrollments: {
-                    where: { role: 'TEACHER' },
+                    where: { role: 'TEACHER', archivedAt: null },
                     select: {
                         class: {
                             select: {
@@ -105,7 +105,7 @@ export async function loadSchoolAdminData(institutionId: string): Promise<School
                 email: true,
                 archivedAt: true,
                 enrollments: {
-                    where: { role: 'STUDENT' },
+                    where: { role: 'STUDENT', archivedAt: null },
                     select: {
                         class: {
                             select: {
@@ -148,7 +148,7 @@ export async function loadSchoolAdminData(institutionId: string): Promise<School
                 parent: { select: { id: true, name: true } },
                 course: { select: { id: true, code: true, name: true } },
                 enrollments: {
-                    where: { user: { archivedAt: null } },
+                    where: { archivedAt: null, user: { archivedAt: null } },
                     select: {
                         id: true,
                         role: true,
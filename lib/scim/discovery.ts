@@ -0,0 +1,114 @@
+import { SCIM_MAX_RESULTS, SCIM_SCHEMAS } from './protocol'
+
+/**
+ * SCIM discovery documents (RFC 7644 §4): what this server supports, so
+ * directory clients can adapt their requests.
+ */
+
+export const buildServiceProviderConfig = (baseUrl: string) => ({
+    schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+        {
+            type: 'oauthbearertoken',
+            name: 'Bearer token',
+            description: 'Token created in the school settings of Correcta',
+            primary: true,
+        },
+    ],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` },
+})
+
+export const buildResourceTypes = (baseUrl: string) => [
+    {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'User',
+        name: 'User',
+        endpoint: '/Users',
+        schema: SCIM_SCHEMAS.user,
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/User` },
+    },
+    {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        schema: SCIM_SCHEMAS.group,
+        schemaExtensions: [{ schema: SCIM_SCHEMAS.correctaGroup, required: false }],
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/Group` },
+    },
+]
+
+type AttributeOptions = { required?: boolean; multiValued?: boolean; mutability?: string; uniqueness?: string }
+
+const attribute = (name: string, type: string, options: AttributeOptions = {}, subAttributes?: unknown[]) => ({
+    name,
+    type,
+    multiValued: options.multiValued ?? false,
+    required: options.required ?? false,
+    caseExact: false,
+    mutability: options.mutability ?? 'readWrite',
+    returned: 'default',
+    uniqueness: options.uniqueness ?? 'none',
+    ...(subAttributes ? { subAttributes } : {}),
+})
+
+export const buildSchemas = (baseUrl: string) => [
+    {
+        schemas: [SCIM_SCHEMAS.schema],
+        id: SCIM_SCHEMAS.user,
+        name: 'User',
+        attributes: [
+            attribute('userName', 'string', { required: true, uniqueness: 'server' }),
+            attribute('externalId', 'string'),
+            attribute('displayName', 'string'),
+            attribute('name', 'complex', {}, [
+                attribute('formatted', 'string'),
+                attribute('givenName', 'string'),
+                attribute('familyName', 'string'),
+            ]),
+            attribute('emails', 'complex', { multiValued: true }, [
+                attribute('value', 'string'),
+                attribute('type', 'string'),
+                attribute('primary', 'boolean'),
+            ]),
+            attribute('active', 'boolean'),
+            attribute('roles', 'complex', { multiValued: true }, [
+                attribute('value', 'string'),
+                attribute('primary', 'boolean'),
+            ]),
+            attribute('userType', 'string'),
+        ],
+        meta: { resourceType: 'Schema', location: `${baseUrl}/Schemas/${SCIM_SCHEMAS.user}` },
+    },
+    {
+        schemas: [SCIM_SCHEMAS.schema],
+        id: SCIM_SCHEMAS.group,
+        name: 'Group',
+        attributes: [
+            attribute('displayName', 'string', { required: true }),
+            attribute('externalId', 'string'),
+            attribute('members', 'complex', { multiValued: true }, [
+                attribute('value', 'string', { mutability: 'immutable' }),
+                attribute('display', 'string', { mutability: 'readOnly' }),
+            ]),
+        ],
+        meta: { resourceType: 'Schema', location: `${baseUrl}/Schemas/${SCIM_SCHEMAS.group}` },
+    },
+    {
+        schemas: [SCIM_SCHEMAS.schema],
+        id: SCIM_SCHEMAS.correctaGroup,
+        name: 'CorrectaGroup',
+        description: 'Course receiving the class; defaults to the directory course',
+        attributes: [
+            attribute('courseCode', 'string'),
+            attribute('courseName', 'string'),
+        ],
+        meta: { resourceType: 'Schema', location: `${baseUrl}/Schemas/${SCIM_SCHEMAS.correctaGroup}` },
+    },
+]
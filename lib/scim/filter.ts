@@ -0,0 +1,311 @@
+import { ScimError, SCIM_SCHEMAS } from './protocol'
+
+/**
+ * SCIM filter expressions (RFC 7644 §3.4.2.2): parsing, in-memory matching
+ * (PATCH value paths) and translation to Prisma `where` clauses.
+ */
+
+export type ScimCompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le'
+export type ScimFilterValue = string | number | boolean | null
+
+export type ScimFilter =
+    | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+    | { op: 'not'; filter: ScimFilter }
+    | { op: 'pr'; attr: string }
+    | { op: ScimCompareOperator; attr: string; value: ScimFilterValue }
+    | { op: 'valuePath'; attr: string; filter: ScimFilter }
+
+const COMPARE_OPERATORS = new Set(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'])
+
+type Token =
+    | { type: 'word'; value: string }
+    | { type: 'string'; value: string }
+    | { type: 'punct'; value: '(' | ')' | '[' | ']' }
+
+const tokenize = (input: string): Token[] => {
+    const tokens: Token[] = []
+    let index = 0
+    while (index < input.length) {
+        const char = input[index]
+        if (/\s/.test(char)) {
+            index++
+        } else if (char === '(' || char === ')' || char === '[' || char === ']') {
+            tokens.push({ type: 'punct', value: char })
+            index++
+        } else if (char === '"') {
+            let value = ''
+            index++
+            while (index < input.length && input[index] !== '"') {
+                if (input[index] === '\\' && index + 1 < input.length) {
+                    index++
+                }
+                value += input[index]
+                index++
+            }
+            if (input[index] !== '"') {
+                throw new ScimError('Unterminated string in filter', 400, 'invalidFilter')
+            }
+            index++
+            tokens.push({ type: 'string', value })
+        } else {
+            const match = /^[^\s()[\]"]+/.exec(input.slice(index))
+            if (!match) throw new ScimError('Invalid filter', 400, 'invalidFilter')
+            tokens.push({ type: 'word', value: match[0] })
+            index += match[0].length
+        }
+    }
+    return tokens
+}
+
+/** Attribute path without the core schema URN, lower-cased (SCIM attribute names are case-insensitive). */
+export const normalizeAttributePath = (attr: string) => {
+    let path = attr
+    for (const urn of [SCIM_SCHEMAS.user, SCIM_SCHEMAS.group]) {
+        if (path.toLowerCase().startsWith(`${urn.toLowerCase()}:`)) {
+            path = path.slice(urn.length + 1)
+        }
+    }
+    return path.toLowerCase()
+}
+
+const parseValue = (token: Token | undefined): ScimFilterValue => {
+    if (!token || token.type === 'punct') {
+        throw new ScimError('Missing comparison value', 400, 'invalidFilter')
+    }
+    if (token.type === 'string') return token.value
+    const word = token.value.toLowerCase()
+    if (word === 'true') return true
+    if (word === 'false') return false
+    if (word === 'null') return null
+    const number = Number(token.value)
+    if (Number.isNaN(number)) {
+        throw new ScimError(`Invalid comparison value "${token.value}"`, 400, 'invalidFilter')
+    }
+    return number
+}
+
+export function parseScimFilter(input: string): ScimFilter {
+    const tokens = tokenize(input)
+    let position = 0
+
+    const peekWord = () => {
+        const token = tokens[position]
+        return token?.type === 'word' ? token.value.toLowerCase() : null
+    }
+    const expectPunct = (value: ')' | ']') => {
+        const token = tokens[position]
+        if (token?.type !== 'punct' || token.value !== value) {
+            throw new ScimError(`Expected "${value}" in filter`, 400, 'invalidFilter')
+        }
+        position++
+    }
+
+    const parseOr = (): ScimFilter => {
+        let left = parseAnd()
+        while (peekWord() === 'or') {
+            position++
+            left = { op: 'or', left, right: parseAnd() }
+        }
+        return left
+    }
+
+    const parseAnd = (): ScimFilter => {
+        let left = parseUnary()
+        while (peekWord() === 'and') {
+            position++
+            left = { op: 'and', left, right: parseUnary() }
+        }
+        return left
+    }
+
+    const parseUnary = (): ScimFilter => {
+        const token = tokens[position]
+        if (!token) throw new ScimError('Unexpected end of filter', 400, 'invalidFilter')
+        if (token.type === 'punct' && token.value === '(') {
+            position++
+            const inner = parseOr()
+            expectPunct(')')
+            return inner
+        }
+        if (peekWord() === 'not') {
+            position++
+            const next = tokens[position]
+            if (next?.type !== 'punct' || next.value !== '(') {
+                throw new ScimError('"not" must be followed by a parenthesized filter', 400, 'invalidFilter')
+            }
+            return { op: 'not', filter: parseUnary() }
+        }
+        if (token.type !== 'word') throw new ScimError('Expected an attribute in filter', 400, 'invalidFilter')
+        position++
+        const attr = normalizeAttributePath(token.value)
+
+        const next = tokens[position]
+        if (next?.type === 'punct' && next.value === '[') {
+            position++
+            const filter = parseOr()
+            expectPunct(']')
+            return { op: 'valuePath', attr, filter }
+        }
+
+        const operator = peekWord()
+        if (operator === 'pr') {
+            position++
+            return { op: 'pr', attr }
+        }
+        if (!operator || !COMPARE_OPERATORS.has(operator)) {
+            throw new ScimError(`Unsupported filter operator after "${token.value}"`, 400, 'invalidFilter')
+        }
+        position++
+        const value = parseValue(tokens[position])
+        position++
+        return { op: operator as ScimCompareOperator, attr, value }
+    }
+
+    const filter = parseOr()
+    if (position < tokens.length) {
+        throw new ScimError('Unexpected trailing tokens in filter', 400, 'invalidFilter')
+    }
+    return filter
+}
+
+const readPath = (value: unknown, path: string): unknown[] => {
+    const [head, ...rest] = path.split('.')
+    if (value === null || value === undefined) return []
+    if (Array.isArray(value)) return value.flatMap((item) => readPath(item, path))
+    if (typeof value !== 'object') return []
+    const key = Object.keys(value).find((entry) => entry.toLowerCase() === head)
+    if (!key) return []
+    const child = (value as Record<string, unknown>)[key]
+    if (rest.length === 0) return Array.isArray(child) ? child : [child]
+    return readPath(child, rest.join('.'))
+}
+
+const compareValues = (actual: unknown, op: ScimCompareOperator, expected: ScimFilterValue) => {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        const a = actual.toLowerCase()
+        const b = expected.toLowerCase()
+        switch (op) {
+            case 'eq': return a === b
+            case 'ne': return a !== b
+            case 'co': return a.includes(b)
+            case 'sw': return a.startsWith(b)
+            case 'ew': return a.endsWith(b)
+            case 'gt': return a > b
+            case 'ge': return a >= b
+            case 'lt': return a < b
+            case 'le': return a <= b
+        }
+    }
+    if (op === 'eq') return actual === expected
+    if (op === 'ne') return actual !== expected
+    if (typeof actual === 'number' && typeof expected === 'number') {
+        if (op === 'gt') return actual > expected
+        if (op === 'ge') return actual >= expected
+        if (op === 'lt') return actual < expected
+        if (op === 'le') return actual <= expected
+    }
+    return false
+}
+
+/** Evaluate a filter against a SCIM resource or a multi-valued attribute entry. */
+export function matchesScimFilter(resource: unknown, filter: ScimFilter): boolean {
+    switch (filter.op) {
+        case 'and':
+            return matchesScimFilter(resource, filter.left) && matchesScimFilter(resource, filter.right)
+        case 'or':
+            return matchesScimFilter(resource, filter.left) || matchesScimFilter(resource, filter.right)
+        case 'not':
+            return !matchesScimFilter(resource, filter.filter)
+        case 'pr':
+            return readPath(resource, filter.attr).some((value) => value !== null && value !== undefined && value !== '')
+        case 'valuePath':
+            return readPath(resource, filter.attr).some((entry) => matchesScimFilter(entry, filter.filter))
+        default: {
+            const values = readPath(resource, filter.attr)
+            if (filter.op === 'ne') return values.every((value) => compareValues(value, 'ne', filter.value))
+            return values.some((value) => compareValues(value, filter.op as ScimCompareOperator, filter.value))
+        }
+    }
+}
+
+/** How a SCIM attribute path maps to a Prisma field. */
+export type ScimAttributeMapping =
+    | { field: string; type: 'string' }
+    | { field: string; type: 'date' }
+    /** `active` is stored as the absence of `archivedAt` */
+    | { field: string; type: 'active' }
+
+export type ScimWhere = Record<string, unknown>
+
+const stringCondition = (op: ScimCompareOperator, value: string): unknown => {
+    switch (op) {
+        case 'eq': return { equals: value, mode: 'insensitive' }
+        case 'ne': return { not: { equals: value, mode: 'insensitive' } }
+        case 'co': return { contains: value, mode: 'insensitive' }
+        case 'sw': return { startsWith: value, mode: 'insensitive' }
+        case 'ew': return { endsWith: value, mode: 'insensitive' }
+        case 'gt': return { gt: value }
+        case 'ge': return { gte: value }
+        case 'lt': return { lt: value }
+        case 'le': return { lte: value }
+    }
+}
+
+const DATE_OPERATORS: Partial<Record<ScimCompareOperator, string>> = {
+    eq: 'equals', gt: 'gt', ge: 'gte', lt: 'lt', le: 'lte',
+}
+
+/**
+ * Translate a filter to a Prisma `where` clause using an attribute map keyed by
+ * normalized attribute path (e.g. `username`, `emails.value`). Unknown
+ * attributes are rejected rather than silently matching everything.
+ */
+export function scimFilterToWhere(
+    filter: ScimFilter,
+    attributes: Record<string, ScimAttributeMapping>,
+    prefix = ''
+): ScimWhere {
+    switch (filter.op) {
+        case 'and':
+            return { AND: [scimFilterToWhere(filter.left, attributes, prefix), scimFilterToWhere(filter.right, attributes, prefix)] }
+        case 'or':
+            return { OR: [scimFilterToWhere(filter.left, attributes, prefix), scimFilterToWhere(filter.right, attributes, prefix)] }
+        case 'not':
+            return { NOT: scimFilterToWhere(filter.filter, attributes, prefix) }
+        case 'valuePath':
+            return scimFilterToWhere(filter.filter, attributes, `${prefix}${filter.attr}.`)
+    }
+
+    const path = `${prefix}${filter.attr}`
+    const mapping = attributes[path]
+    if (!mapping) {
+        throw new ScimError(`Filtering on "${path}" is not supported`, 400, 'invalidFilter')
+    }
+
+    if (filter.op === 'pr') {
+        if (mapping.type === 'active') return {}
+        return { [mapping.field]: { not: null } }
+    }
+
+    if (mapping.type === 'active') {
+        if (typeof filter.value !== 'boolean' || (filter.op !== 'eq' && filter.op !== 'ne')) {
+            throw new ScimError('"active" only supports eq/ne with a boolean', 400, 'invalidFilter')
+        }
+        const active = filter.op === 'eq' ? filter.value : !filter.value
+        return { [mapping.field]: active ? null : { not: null } }
+    }
+
+    if (mapping.type === 'date') {
+        const operator = DATE_OPERATORS[filter.op]
+        const date = typeof filter.value === 'string' ? new Date(filter.value) : null
+        if (!operator || !date || Number.isNaN(date.getTime())) {
+            throw new ScimError(`Invalid date comparison on "${path}"`, 400, 'invalidFilter')
+        }
+        return { [mapping.field]: { [operator]: date } }
+    }
+
+    if (typeof filter.value !== 'string') {
+        throw new ScimError(`"${path}" must be compared with a string`, 400, 'invalidFilter')
+    }
+    return { [mapping.field]: stringCondition(filter.op, filter.value) }
+}
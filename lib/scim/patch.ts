@@ -0,0 +1,224 @@
+import { matchesScimFilter, parseScimFilter, type ScimFilter } from './filter'
+import { ScimError, SCIM_SCHEMAS } from './protocol'
+
+/**
+ * SCIM PATCH (RFC 7644 §3.5.2) applied to the JSON representation of a
+ * resource. Routes then persist the patched resource like a PUT.
+ */
+
+export type ScimPatchOperation = {
+    op: 'add' | 'replace' | 'remove'
+    path?: string
+    value?: unknown
+}
+
+type ScimResource = Record<string, unknown>
+
+type PatchPath = {
+    /** Extension schema URN holding the attribute, if any */
+    schema: string | null
+    attr: string
+    filter: ScimFilter | null
+    subAttr: string | null
+}
+
+const CORE_SCHEMAS = [SCIM_SCHEMAS.user, SCIM_SCHEMAS.group]
+
+/** Read and validate the `Operations` of a PatchOp request. Op names are case-insensitive (Azure sends "Replace"). */
+export function parsePatchRequest(body: unknown): ScimPatchOperation[] {
+    const record = body && typeof body === 'object' ? body as Record<string, unknown> : null
+    const operations = record?.Operations ?? record?.operations
+    if (!Array.isArray(operations) || operations.length === 0) {
+        throw new ScimError('PATCH requires Operations', 400, 'invalidSyntax')
+    }
+    return operations.map((entry) => {
+        const operation = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {}
+        const op = typeof operation.op === 'string' ? operation.op.toLowerCase() : ''
+        if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+            throw new ScimError(`Unsupported PATCH op "${String(operation.op)}"`, 400, 'invalidSyntax')
+        }
+        const path = typeof operation.path === 'string' && operation.path.trim() ? operation.path.trim() : undefined
+        if (op === 'remove' && !path) {
+            throw new ScimError('remove requires a path', 400, 'noTarget')
+        }
+        return { op, path, value: operation.value }
+    })
+}
+
+export function parsePatchPath(path: string): PatchPath {
+    let rest = path
+    let schema: string | null = null
+    for (const urn of CORE_SCHEMAS) {
+        if (rest.toLowerCase().startsWith(`${urn.toLowerCase()}:`)) {
+            rest = rest.slice(urn.length + 1)
+        }
+    }
+    if (rest.toLowerCase().startsWith('urn:')) {
+        // Extension attribute: urn:...:User:department
+        const bracket = rest.indexOf('[')
+        const head = bracket >= 0 ? rest.slice(0, bracket) : rest
+        const separator = head.lastIndexOf(':')
+        schema = rest.slice(0, separator)
+        rest = rest.slice(separator + 1)
+    }
+
+    const match = /^([A-Za-z][\w$-]*)(?:\[(.+)\])?(?:\.([A-Za-z][\w$-]*))?$/.exec(rest)
+    if (!match) {
+        throw new ScimError(`Invalid PATCH path "${path}"`, 400, 'invalidPath')
+    }
+    const [, attr, filter, subAttr] = match
+    return {
+        schema,
+        attr,
+        filter: filter ? parseScimFilter(filter) : null,
+        subAttr: subAttr ?? null,
+    }
+}
+
+const findKey = (object: ScimResource, name: string) =>
+    Object.keys(object).find((key) => key.toLowerCase() === name.toLowerCase()) ?? name
+
+const isRecord = (value: unknown): value is ScimResource =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T
+
+/** Container of the attribute: the resource itself or its extension object. */
+const getContainer = (resource: ScimResource, schema: string | null, create: boolean) => {
+    if (!schema) return resource
+    const key = findKey(resource, schema)
+    if (!isRecord(resource[key])) {
+        if (!create) return null
+        resource[key] = {}
+    }
+    return resource[key] as ScimResource
+}
+
+const toArray = (value: unknown) => (Array.isArray(value) ? value : [value])
+
+/** Multi-valued entries equal by their `value` sub-attribute (or entirely, for simple values). */
+const sameEntry = (a: unknown, b: unknown) => {
+    if (isRecord(a) && isRecord(b) && 'value' in a && 'value' in b) return a.value === b.value
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+const mergeValue = (container: ScimResource, attr: string, value: unknown, op: 'add' | 'replace') => {
+    const key = findKey(container, attr)
+    const current = container[key]
+    if (op === 'add' && Array.isArray(current)) {
+        const additions = toArray(value).filter((entry) => !current.some((existing) => sameEntry(existing, entry)))
+        container[key] = [...current, ...additions]
+    } else if (isRecord(current) && isRecord(value)) {
+        container[key] = { ...current, ...value }
+    } else {
+        container[key] = value
+    }
+}
+
+/** Entry created by a replace/add on a filtered path that matched nothing: `emails[type eq "work"].value`. */
+const entryFromFilter = (filter: ScimFilter): ScimResource | null => {
+    if (filter.op === 'eq') return { [filter.attr]: filter.value }
+    if (filter.op === 'and') {
+        const left = entryFromFilter(filter.left)
+        const right = entryFromFilter(filter.right)
+        return left && right ? { ...left, ...right } : null
+    }
+    return null
+}
+
+const applyOperation = (resource: ScimResource, operation: ScimPatchOperation) => {
+    const { op, value } = operation
+
+    if (!operation.path) {
+        if (!isRecord(value)) {
+            throw new ScimError(`${op} without path requires an object value`, 400, 'invalidValue')
+        }
+        for (const [attr, attrValue] of Object.entries(value)) {
+            if (attr.includes('.') && !attr.toLowerCase().startsWith('urn:')) {
+                // Azure sends { "name.givenName": "Ada" }
+                applyOperation(resource, { op, path: attr, value: attrValue })
+            } else if (attr.toLowerCase().startsWith('urn:') && isRecord(attrValue)) {
+                const container = getContainer(resource, attr, true) as ScimResource
+                for (const [extAttr, extValue] of Object.entries(attrValue)) {
+                    mergeValue(container, extAttr, extValue, op as 'add' | 'replace')
+                }
+            } else {
+                mergeValue(resource, attr, attrValue, op as 'add' | 'replace')
+            }
+        }
+        return
+    }
+
+    const path = parsePatchPath(operation.path)
+    const container = getContainer(resource, path.schema, op !== 'remove')
+    if (!container) return
+    const key = findKey(container, path.attr)
+
+    // Plain attribute, or a sub-attribute of a complex attribute (name.givenName)
+    if (!path.filter) {
+        if (op === 'remove') {
+            if (path.subAttr) {
+                if (isRecord(container[key])) delete (container[key] as ScimResource)[findKey(container[key] as ScimResource, path.subAttr)]
+            } else if (Array.isArray(container[key]) && value !== undefined) {
+                // Azure removes group members with { path: "members", value: [{ value: id }] }
+                container[key] = (container[key] as unknown[]).filter(
+                    (entry) => !toArray(value).some((removed) => sameEntry(entry, removed))
+                )
+            } else {
+                delete container[key]
+            }
+            return
+        }
+        if (path.subAttr) {
+            const parent = isRecord(container[key]) ? container[key] as ScimResource : {}
+            parent[findKey(parent, path.subAttr)] = value
+            container[key] = parent
+            return
+        }
+        mergeValue(container, path.attr, value, op)
+        return
+    }
+
+    // Filtered multi-valued attribute: emails[type eq "work"](.value)
+    const filter = path.filter
+    const entries = Array.isArray(container[key]) ? container[key] as unknown[] : []
+    const matches = entries.filter((entry) => matchesScimFilter(entry, filter))
+
+    if (op === 'remove') {
+        container[key] = path.subAttr
+            ? entries.map((entry) => {
+                if (!matches.includes(entry) || !isRecord(entry)) return entry
+                const copy = { ...entry }
+                delete copy[findKey(copy, path.subAttr as string)]
+                return copy
+            })
+            : entries.filter((entry) => !matches.includes(entry))
+        return
+    }
+
+    if (matches.length === 0) {
+        const created = entryFromFilter(filter)
+        if (!created) {
+            throw new ScimError(`No value matches "${operation.path}"`, 400, 'noTarget')
+        }
+        container[key] = [...entries, path.subAttr ? { ...created, [path.subAttr]: value } : { ...created, ...(isRecord(value) ? value : {}) }]
+        return
+    }
+
+    container[key] = entries.map((entry) => {
+        if (!matches.includes(entry)) return entry
+        if (path.subAttr) {
+            return { ...(isRecord(entry) ? entry : {}), [findKey(isRecord(entry) ? entry : {}, path.subAttr)]: value }
+        }
+        return isRecord(entry) && isRecord(value) ? { ...entry, ...value } : value
+    })
+}
+
+/** Apply PATCH operations in order to a copy of the resource. */
+export function applyScimPatch<T extends ScimResource>(resource: T, operations: ScimPatchOperation[]): T {
+    const patched = clone(resource)
+    for (const operation of operations) {
+        applyOperation(patched, operation)
+    }
+    return patched
+}
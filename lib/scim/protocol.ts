@@ -0,0 +1,71 @@
+/**
+ * SCIM 2.0 (RFC 7643/7644) message shapes shared by the provisioning routes.
+ */
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json'
+
+export const SCIM_SCHEMAS = {
+    user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+    enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+    group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+    /** Correcta extension: course a directory group belongs to */
+    correctaGroup: 'urn:ietf:params:scim:schemas:extension:correcta:2.0:Group',
+    listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+    patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+    error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+    serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+    resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+    schema: 'urn:ietf:params:scim:schemas:core:2.0:Schema',
+} as const
+
+export const SCIM_MAX_RESULTS = 200
+
+export type ScimErrorType =
+    | 'invalidFilter'
+    | 'invalidPath'
+    | 'invalidValue'
+    | 'invalidSyntax'
+    | 'noTarget'
+    | 'mutability'
+    | 'uniqueness'
+    | 'tooMany'
+
+export class ScimError extends Error {
+    constructor(message: string, public status: number = 400, public scimType?: ScimErrorType) {
+        super(message)
+        this.name = 'ScimError'
+    }
+}
+
+export const buildScimError = (status: number, detail: string, scimType?: ScimErrorType) => ({
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    detail,
+    ...(scimType ? { scimType } : {}),
+})
+
+export const buildListResponse = <T>(resources: T[], totalResults: number, startIndex: number) => ({
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+})
+
+/** Read `startIndex` (1-based) and `count` from a list request. */
+export const parsePagination = (params: URLSearchParams) => {
+    const rawStart = Number(params.get('startIndex') ?? '1')
+    const rawCount = Number(params.get('count') ?? '100')
+    const startIndex = Number.isInteger(rawStart) && rawStart > 0 ? rawStart : 1
+    const count = Number.isInteger(rawCount) && rawCount >= 0 ? Math.min(rawCount, SCIM_MAX_RESULTS) : 100
+    return { startIndex, count }
+}
+
+/** Attribute names listed in `attributes` / `excludedAttributes` (lower-cased). */
+export const parseAttributeList = (value: string | null) =>
+    new Set(
+        (value ?? '')
+            .split(',')
+            .map((attr) => attr.trim().toLowerCase())
+            .filter(Boolean)
+    )
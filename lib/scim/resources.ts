@@ -0,0 +1,219 @@
+import type { ScimAttributeMapping } from './filter'
+import { ScimError, SCIM_SCHEMAS } from './protocol'
+
+/**
+ * Mapping between SCIM resources and Correcta records: Users are `User` rows
+ * (TEACHER or STUDENT), Groups are `Class` rows whose members are enrollments.
+ */
+
+export type ScimRole = 'TEACHER' | 'STUDENT'
+
+/** Course receiving directory groups that do not name one through the Correcta extension. */
+export const DEFAULT_SCIM_COURSE = { code: 'DIRECTORY', name: 'Directory groups' }
+
+export const SCIM_USER_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+    id: { field: 'id', type: 'string' },
+    username: { field: 'email', type: 'string' },
+    'emails.value': { field: 'email', type: 'string' },
+    emails: { field: 'email', type: 'string' },
+    externalid: { field: 'externalId', type: 'string' },
+    displayname: { field: 'name', type: 'string' },
+    'name.formatted': { field: 'name', type: 'string' },
+    active: { field: 'archivedAt', type: 'active' },
+    'meta.created': { field: 'createdAt', type: 'date' },
+    'meta.lastmodified': { field: 'updatedAt', type: 'date' },
+}
+
+export const SCIM_GROUP_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+    id: { field: 'id', type: 'string' },
+    displayname: { field: 'name', type: 'string' },
+    externalid: { field: 'externalId', type: 'string' },
+}
+
+type ScimUserRecord = {
+    id: string
+    email: string
+    name: string | null
+    role: string
+    archivedAt: Date | null
+    externalId: string | null
+    createdAt: Date
+    updatedAt: Date
+}
+
+type ScimGroupRecord = {
+    id: string
+    name: string
+    externalId: string | null
+    course: { code: string; name: string }
+}
+
+type ScimGroupMember = { userId: string; user: { name: string | null; email: string } }
+
+const TEACHER_KEYWORDS = ['teacher', 'instructor', 'faculty', 'professor', 'staff', 'enseignant']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+/** Case-insensitive attribute read: SCIM attribute names are case-insensitive. */
+const readAttr = (resource: Record<string, unknown>, name: string) => {
+    const key = Object.keys(resource).find((entry) => entry.toLowerCase() === name.toLowerCase())
+    return key ? resource[key] : undefined
+}
+
+const readString = (resource: Record<string, unknown>, name: string) => {
+    const value = readAttr(resource, name)
+    return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/** SCIM booleans, also accepting the "True"/"False" strings Azure AD sends. */
+export const parseScimBoolean = (value: unknown, fallback: boolean) => {
+    if (typeof value === 'boolean') return value
+    if (typeof value === 'string') {
+        if (value.toLowerCase() === 'true') return true
+        if (value.toLowerCase() === 'false') return false
+    }
+    return fallback
+}
+
+/** Primary entry of a multi-valued attribute, else the first one. */
+const primaryEntry = (value: unknown) => {
+    if (!Array.isArray(value)) return null
+    const entries = value.filter(isRecord)
+    return entries.find((entry) => parseScimBoolean(entry.primary, false)) ?? entries[0] ?? null
+}
+
+/**
+ * Correcta role of a SCIM user, from `roles` or `userType`. Directory sync only
+ * manages teachers and students; null when the resource does not say.
+ */
+export const mapScimRole = (resource: Record<string, unknown>): ScimRole | null => {
+    const role = primaryEntry(readAttr(resource, 'roles'))
+    const value = (typeof role?.value === 'string' ? role.value : null) ?? readString(resource, 'userType')
+    if (!value) return null
+    const normalized = value.toLowerCase()
+    return TEACHER_KEYWORDS.some((keyword) => normalized.includes(keyword)) ? 'TEACHER' : 'STUDENT'
+}
+
+const splitName = (name: string | null) => {
+    if (!name) return {}
+    const [givenName, ...rest] = name.trim().split(/\s+/)
+    return { formatted: name, givenName, ...(rest.length ? { familyName: rest.join(' ') } : {}) }
+}
+
+export const getScimLocation = (baseUrl: string, resourceType: 'Users' | 'Groups', id: string) =>
+    `${baseUrl.replace(/\/$/, '')}/${resourceType}/${id}`
+
+export function toScimUser(user: ScimUserRecord, baseUrl: string) {
+    return {
+        schemas: [SCIM_SCHEMAS.user],
+        id: user.id,
+        ...(user.externalId ? { externalId: user.externalId } : {}),
+        userName: user.email,
+        ...(user.name ? { displayName: user.name, name: splitName(user.name) } : {}),
+        emails: [{ value: user.email, type: 'work', primary: true }],
+        active: user.archivedAt === null,
+        roles: [{ value: user.role.toLowerCase(), primary: true }],
+        meta: {
+            resourceType: 'User',
+            created: user.createdAt.toISOString(),
+            lastModified: user.updatedAt.toISOString(),
+            location: getScimLocation(baseUrl, 'Users', user.id),
+        },
+    }
+}
+
+export function toScimGroup(group: ScimGroupRecord, members: ScimGroupMember[] | null, baseUrl: string) {
+    return {
+        schemas: [SCIM_SCHEMAS.group, SCIM_SCHEMAS.correctaGroup],
+        id: group.id,
+        ...(group.externalId ? { externalId: group.externalId } : {}),
+        displayName: group.name,
+        ...(members
+            ? {
+                members: members.map((member) => ({
+                    value: member.userId,
+                    display: member.user.name ?? member.user.email,
+                    $ref: getScimLocation(baseUrl, 'Users', member.userId),
+                })),
+            }
+            : {}),
+        [SCIM_SCHEMAS.correctaGroup]: { courseCode: group.course.code, courseName: group.course.name },
+        meta: {
+            resourceType: 'Group',
+            location: getScimLocation(baseUrl, 'Groups', group.id),
+        },
+    }
+}
+
+export type ParsedScimUser = {
+    email: string
+    name: string | null
+    role: ScimRole | null
+    active: boolean
+    externalId: string | null
+}
+
+export function parseScimUser(resource: unknown): ParsedScimUser {
+    if (!isRecord(resource)) {
+        throw new ScimError('User must be a JSON object', 400, 'invalidSyntax')
+    }
+    const userName = readString(resource, 'userName')
+    const email = primaryEntry(readAttr(resource, 'emails'))
+    const emailValue = typeof email?.value === 'string' ? email.value.trim() : null
+    const address = (userName?.includes('@') ? userName : emailValue ?? userName)?.toLowerCase() ?? null
+    if (!address || !address.includes('@')) {
+        throw new ScimError('userName or emails must contain an email address', 400, 'invalidValue')
+    }
+
+    const name = readAttr(resource, 'name')
+    const nameRecord = isRecord(name) ? name : {}
+    const fullName = readString(resource, 'displayName')
+        ?? readString(nameRecord, 'formatted')
+        ?? ([readString(nameRecord, 'givenName'), readString(nameRecord, 'familyName')].filter(Boolean).join(' ') || null)
+
+    return {
+        email: address,
+        name: fullName,
+        role: mapScimRole(resource),
+        active: parseScimBoolean(readAttr(resource, 'active'), true),
+        externalId: readString(resource, 'externalId'),
+    }
+}
+
+export type ParsedScimGroup = {
+    displayName: string
+    externalId: string | null
+    /** null when the Correcta extension is absent: new groups go to DEFAULT_SCIM_COURSE */
+    course: { code: string; name: string } | null
+    /** undefined when the request does not set members */
+    memberIds: string[] | undefined
+}
+
+export function parseScimGroup(resource: unknown): ParsedScimGroup {
+    if (!isRecord(resource)) {
+        throw new ScimError('Group must be a JSON object', 400, 'invalidSyntax')
+    }
+    const displayName = readString(resource, 'displayName')
+    if (!displayName) {
+        throw new ScimError('displayName is required', 400, 'invalidValue')
+    }
+    const extension = readAttr(resource, SCIM_SCHEMAS.correctaGroup)
+    const courseCode = isRecord(extension) ? readString(extension, 'courseCode') : null
+    const courseName = isRecord(extension) ? readString(extension, 'courseName') : null
+    const members = readAttr(resource, 'members')
+
+    return {
+        displayName,
+        externalId: readString(resource, 'externalId'),
+        course: courseCode ? { code: courseCode, name: courseName ?? courseCode } : null,
+        memberIds: Array.isArray(members)
+            ? Array.from(new Set(
+                members
+                    .filter(isRecord)
+                    .map((member) => member.value)
+                    .filter((value): value is string => typeof value === 'string' && value.length > 0)
+            ))
+            : undefined,
+    }
+}
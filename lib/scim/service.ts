@@ -0,0 +1,504 @@
+import { createHash, randomBytes } from 'node:crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma, type UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getClientIp, logAudit, type AuditAction } from '@/lib/audit'
+import { parseScimFilter, scimFilterToWhere, type ScimAttributeMapping } from '@/lib/scim/filter'
+import { applyScimPatch, parsePatchRequest } from '@/lib/scim/patch'
+import {
+    SCIM_CONTENT_TYPE,
+    ScimError,
+    buildListResponse,
+    buildScimError,
+    parseAttributeList,
+    parsePagination,
+} from '@/lib/scim/protocol'
+import {
+    DEFAULT_SCIM_COURSE,
+    SCIM_GROUP_ATTRIBUTES,
+    SCIM_USER_ATTRIBUTES,
+    parseScimGroup,
+    parseScimUser,
+    toScimGroup,
+    toScimUser,
+    type ParsedScimGroup,
+    type ParsedScimUser,
+} from '@/lib/scim/resources'
+
+/**
+ * SCIM 2.0 server backing `/api/scim/v2`: bearer tokens per institution, Users
+ * mapped to `User` and Groups mapped to `Class` + `Enrollment`. Nothing is
+ * deleted: removals archive the record. Every change goes to the audit log.
+ */
+
+export type ScimContext = {
+    institutionId: string
+    tokenId: string
+    baseUrl: string
+    ipAddress: string | null
+}
+
+const TOKEN_PREFIX = 'scim_'
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+/** Roles the directory may assign; admins are managed in Correcta only and invisible to SCIM. */
+const DIRECTORY_ROLES: UserRole[] = ['TEACHER', 'STUDENT']
+
+const userScope = (context: ScimContext) => ({
+    institutionId: context.institutionId,
+    role: { in: DIRECTORY_ROLES },
+})
+
+const USER_SELECT = {
+    id: true,
+    email: true,
+    name: true,
+    role: true,
+    archivedAt: true,
+    externalId: true,
+    institutionId: true,
+    createdAt: true,
+    updatedAt: true,
+} satisfies Prisma.UserSelect
+
+const CLASS_SELECT = {
+    id: true,
+    name: true,
+    externalId: true,
+    courseId: true,
+    course: { select: { code: true, name: true } },
+} satisfies Prisma.ClassSelect
+
+type ScimUserRow = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>
+type ScimClassRow = Prisma.ClassGetPayload<{ select: typeof CLASS_SELECT }>
+
+// --- Tokens ---
+
+export const hashScimToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+/** Create a token for an institution. The plaintext is returned once and never stored. */
+export async function createScimToken(institutionId: string, name: string, createdById: string | null) {
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+    const record = await prisma.scimToken.create({
+        data: {
+            institutionId,
+            name,
+            tokenHash: hashScimToken(token),
+            tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+            createdById,
+        },
+        select: { id: true, name: true, tokenPrefix: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+    })
+    return { token, record }
+}
+
+/** Public URL of the SCIM service, entered in the directory's provisioning settings. */
+export const getScimBaseUrl = (fallbackOrigin?: string) => {
+    const base = process.env.NEXTAUTH_URL || fallbackOrigin || 'http://localhost:3000'
+    return new URL('/api/scim/v2', base).toString()
+}
+
+export async function authenticateScimRequest(req: NextRequest): Promise<ScimContext> {
+    const header = req.headers.get('authorization') ?? ''
+    const match = /^Bearer\s+(\S+)$/i.exec(header)
+    if (!match) {
+        throw new ScimError('Missing bearer token', 401)
+    }
+
+    const token = await prisma.scimToken.findUnique({
+        where: { tokenHash: hashScimToken(match[1]) },
+        select: { id: true, institutionId: true, lastUsedAt: true, revokedAt: true },
+    })
+    if (!token || token.revokedAt) {
+        throw new ScimError('Invalid bearer token', 401)
+    }
+
+    const now = new Date()
+    if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await prisma.scimToken.update({ where: { id: token.id }, data: { lastUsedAt: now } })
+    }
+
+    return {
+        institutionId: token.institutionId,
+        tokenId: token.id,
+        baseUrl: getScimBaseUrl(req.nextUrl.origin),
+        ipAddress: getClientIp(req),
+    }
+}
+
+// --- HTTP helpers ---
+
+export const scimJson = (body: unknown, status = 200, headers?: Record<string, string>) =>
+    NextResponse.json(body, { status, headers: { 'Content-Type': SCIM_CONTENT_TYPE, ...headers } })
+
+const scimErrorResponse = (error: unknown) => {
+    if (error instanceof ScimError) {
+        return scimJson(buildScimError(error.status, error.message, error.scimType), error.status)
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return scimJson(buildScimError(409, 'A resource with this identifier already exists', 'uniqueness'), 409)
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return scimJson(buildScimError(404, 'Resource not found'), 404)
+    }
+    console.error('[SCIM] Request failed', error)
+    return scimJson(buildScimError(500, 'Internal server error'), 500)
+}
+
+/** Authenticate a SCIM request and turn thrown errors into SCIM error responses. */
+export async function handleScimRequest(
+    req: NextRequest,
+    handler: (context: ScimContext) => Promise<NextResponse>
+): Promise<NextResponse> {
+    try {
+        const context = await authenticateScimRequest(req)
+        return await handler(context)
+    } catch (error) {
+        return scimErrorResponse(error)
+    }
+}
+
+export async function readScimBody(req: NextRequest): Promise<unknown> {
+    try {
+        return await req.json()
+    } catch {
+        throw new ScimError('Request body must be JSON', 400, 'invalidSyntax')
+    }
+}
+
+const audit = (
+    context: ScimContext,
+    action: AuditAction,
+    targetType: string,
+    targetId: string,
+    metadata: Record<string, unknown> = {}
+) => {
+    logAudit({
+        action,
+        actorId: null,
+        institutionId: context.institutionId,
+        targetType,
+        targetId,
+        metadata: { source: 'scim', tokenId: context.tokenId, ...metadata },
+        ipAddress: context.ipAddress,
+    })
+}
+
+const parseFilterParam = (params: URLSearchParams, attributes: Record<string, ScimAttributeMapping>) => {
+    const filter = params.get('filter')
+    return filter ? scimFilterToWhere(parseScimFilter(filter), attributes) : {}
+}
+
+// --- Users ---
+
+const findScimUser = async (context: ScimContext, id: string) => {
+    const user = await prisma.user.findFirst({
+        where: { id, ...userScope(context) },
+        select: USER_SELECT,
+    })
+    if (!user) {
+        throw new ScimError(`User ${id} not found`, 404)
+    }
+    return user
+}
+
+const assertEmailAvailable = async (email: string, userId?: string) => {
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+    if (existing && existing.id !== userId) {
+        throw new ScimError(`User ${email} already exists`, 409, 'uniqueness')
+    }
+}
+
+export async function listScimUsers(context: ScimContext, params: URLSearchParams) {
+    const { startIndex, count } = parsePagination(params)
+    const where = {
+        AND: [userScope(context), parseFilterParam(params, SCIM_USER_ATTRIBUTES)],
+    } as Prisma.UserWhereInput
+
+    const [total, users] = await Promise.all([
+        prisma.user.count({ where }),
+        count === 0
+            ? Promise.resolve([])
+            : prisma.user.findMany({
+                where,
+                select: USER_SELECT,
+                orderBy: { createdAt: 'asc' },
+                skip: startIndex - 1,
+                take: count,
+            }),
+    ])
+
+    return buildListResponse(users.map((user) => toScimUser(user, context.baseUrl)), total, startIndex)
+}
+
+export async function getScimUser(context: ScimContext, id: string) {
+    return toScimUser(await findScimUser(context, id), context.baseUrl)
+}
+
+export async function createScimUser(context: ScimContext, body: unknown) {
+    const parsed = parseScimUser(body)
+    await assertEmailAvailable(parsed.email)
+
+    const user = await prisma.user.create({
+        data: {
+            email: parsed.email,
+            name: parsed.name,
+            role: parsed.role ?? 'STUDENT',
+            institutionId: context.institutionId,
+            externalId: parsed.externalId,
+            archivedAt: parsed.active ? null : new Date(),
+        },
+        select: USER_SELECT,
+    })
+
+    audit(context, 'USER_CREATE', 'USER', user.id, { email: user.email, role: user.role })
+    return toScimUser(user, context.baseUrl)
+}
+
+const saveScimUser = async (context: ScimContext, existing: ScimUserRow, parsed: ParsedScimUser) => {
+    if (parsed.email !== existing.email) {
+        await assertEmailAvailable(parsed.email, existing.id)
+    }
+
+    const role = parsed.role ?? existing.role
+    const archivedAt = parsed.active ? null : existing.archivedAt ?? new Date()
+
+    const user = await prisma.user.update({
+        where: { id: existing.id, ...userScope(context) },
+        data: { email: parsed.email, name: parsed.name, externalId: parsed.externalId, role, archivedAt },
+        select: USER_SELECT,
+    })
+
+    const changes = {
+        ...(user.email !== existing.email && { email: user.email }),
+        ...(user.name !== existing.name && { name: user.name }),
+        ...(user.role !== existing.role && { role: user.role }),
+        ...(user.externalId !== existing.externalId && { externalId: user.externalId }),
+        ...(Boolean(user.archivedAt) !== Boolean(existing.archivedAt) && { archived: Boolean(user.archivedAt) }),
+    }
+    if (Object.keys(changes).length > 0) {
+        const archived = !existing.archivedAt && user.archivedAt
+        audit(context, archived ? 'USER_ARCHIVE' : 'USER_UPDATE', 'USER', user.id, changes)
+    }
+    return toScimUser(user, context.baseUrl)
+}
+
+export async function replaceScimUser(context: ScimContext, id: string, body: unknown) {
+    const existing = await findScimUser(context, id)
+    return saveScimUser(context, existing, parseScimUser(body))
+}
+
+export async function patchScimUser(context: ScimContext, id: string, body: unknown) {
+    const existing = await findScimUser(context, id)
+    const patched = applyScimPatch(toScimUser(existing, context.baseUrl), parsePatchRequest(body))
+    return saveScimUser(context, existing, parseScimUser(patched))
+}
+
+/** SCIM DELETE archives the user: attempts and grades must survive deprovisioning. */
+export async function archiveScimUser(context: ScimContext, id: string) {
+    const existing = await findScimUser(context, id)
+    if (existing.archivedAt) return
+    await prisma.user.update({ where: { id, ...userScope(context) }, data: { archivedAt: new Date() } })
+    audit(context, 'USER_ARCHIVE', 'USER', id, { email: existing.email })
+}
+
+// --- Groups ---
+
+const groupScope = (context: ScimContext): Prisma.ClassWhereInput => ({
+    archivedAt: null,
+    course: { institutionId: context.institutionId },
+})
+
+const findScimClass = async (context: ScimContext, id: string) => {
+    const group = await prisma.class.findFirst({
+        where: { id, ...groupScope(context) },
+        select: CLASS_SELECT,
+    })
+    if (!group) {
+        throw new ScimError(`Group ${id} not found`, 404)
+    }
+    return group
+}
+
+const loadMembers = (classIds: string[]) =>
+    prisma.enrollment.findMany({
+        where: { classId: { in: classIds }, archivedAt: null, user: { role: { in: DIRECTORY_ROLES } } },
+        select: { classId: true, userId: true, user: { select: { name: true, email: true } } },
+        orderBy: { user: { email: 'asc' } },
+    })
+
+const toScimGroupWithMembers = async (context: ScimContext, group: ScimClassRow, includeMembers = true) => {
+    const members = includeMembers ? await loadMembers([group.id]) : null
+    return toScimGroup(group, members, context.baseUrl)
+}
+
+/** Course of a directory group, created on first use. */
+const resolveScimCourse = async (context: ScimContext, course: { code: string; name: string }) => {
+    const existing = await prisma.course.findFirst({
+        where: { institutionId: context.institutionId, code: course.code, archivedAt: null },
+        select: { id: true },
+    })
+    if (existing) return existing.id
+
+    const created = await prisma.course.create({
+        data: { institutionId: context.institutionId, code: course.code, name: course.name },
+        select: { id: true },
+    })
+    audit(context, 'COURSE_CREATE', 'COURSE', created.id, { code: course.code })
+    return created.id
+}
+
+/**
+ * Make the class enrollments match the group members. Teachers are enrolled as TEACHER.
+ * Only enrollments the directory created are removed, and they are archived, not deleted:
+ * people enrolled by hand in Correcta stay in the class.
+ */
+const syncScimMembers = async (context: ScimContext, classId: string, memberIds: string[]) => {
+    const users = await prisma.user.findMany({
+        where: { id: { in: memberIds }, ...userScope(context) },
+        select: { id: true, role: true },
+    })
+    if (users.length !== memberIds.length) {
+        const known = new Set(users.map((user) => user.id))
+        const unknown = memberIds.filter((id) => !known.has(id))
+        throw new ScimError(`Unknown members: ${unknown.join(', ')}`, 400, 'invalidValue')
+    }
+
+    const current = await prisma.enrollment.findMany({
+        where: { classId },
+        select: { userId: true, source: true, archivedAt: true },
+    })
+    const currentByUser = new Map(current.map((enrollment) => [enrollment.userId, enrollment]))
+    const wanted = new Set(memberIds)
+    const added = users.filter((user) => !currentByUser.has(user.id))
+    const restoredIds = users
+        .filter((user) => currentByUser.get(user.id)?.archivedAt)
+        .map((user) => user.id)
+    const removedIds = current
+        .filter((enrollment) => enrollment.source === 'SCIM' && !enrollment.archivedAt && !wanted.has(enrollment.userId))
+        .map((enrollment) => enrollment.userId)
+
+    if (added.length > 0) {
+        await prisma.enrollment.createMany({
+            data: added.map((user) => ({
+                classId,
+                userId: user.id,
+                role: user.role === 'TEACHER' ? 'TEACHER' as const : 'STUDENT' as const,
+                source: 'SCIM' as const,
+            })),
+            skipDuplicates: true,
+        })
+    }
+    if (restoredIds.length > 0) {
+        await prisma.enrollment.updateMany({
+            where: { classId, userId: { in: restoredIds }, archivedAt: { not: null } },
+            data: { archivedAt: null },
+        })
+    }
+    if (added.length > 0 || restoredIds.length > 0) {
+        audit(context, 'ENROLLMENT_CREATE', 'CLASS', classId, {
+            bulk: true,
+            userIds: [...added.map((user) => user.id), ...restoredIds],
+        })
+    }
+    if (removedIds.length > 0) {
+        await prisma.enrollment.updateMany({
+            where: { classId, userId: { in: removedIds }, source: 'SCIM', archivedAt: null },
+            data: { archivedAt: new Date() },
+        })
+        audit(context, 'ENROLLMENT_DELETE', 'CLASS', classId, { bulk: true, userIds: removedIds })
+    }
+}
+
+export async function listScimGroups(context: ScimContext, params: URLSearchParams) {
+    const { startIndex, count } = parsePagination(params)
+    const includeMembers = !parseAttributeList(params.get('excludedAttributes')).has('members')
+    const where = {
+        AND: [groupScope(context), parseFilterParam(params, SCIM_GROUP_ATTRIBUTES)],
+    } as Prisma.ClassWhereInput
+
+    const [total, groups] = await Promise.all([
+        prisma.class.count({ where }),
+        count === 0
+            ? Promise.resolve([])
+            : prisma.class.findMany({
+                where,
+                select: CLASS_SELECT,
+                orderBy: { name: 'asc' },
+                skip: startIndex - 1,
+                take: count,
+            }),
+    ])
+
+    const members = includeMembers && groups.length > 0 ? await loadMembers(groups.map((group) => group.id)) : []
+    const resources = groups.map((group) =>
+        toScimGroup(
+            group,
+            includeMembers ? members.filter((member) => member.classId === group.id) : null,
+            context.baseUrl
+        )
+    )
+    return buildListResponse(resources, total, startIndex)
+}
+
+export async function getScimGroup(context: ScimContext, id: string, params: URLSearchParams) {
+    const includeMembers = !parseAttributeList(params.get('excludedAttributes')).has('members')
+    return toScimGroupWithMembers(context, await findScimClass(context, id), includeMembers)
+}
+
+export async function createScimGroup(context: ScimContext, body: unknown) {
+    const parsed = parseScimGroup(body)
+    const courseId = await resolveScimCourse(context, parsed.course ?? DEFAULT_SCIM_COURSE)
+
+    const group = await prisma.class.create({
+        data: { name: parsed.displayName, externalId: parsed.externalId, courseId },
+        select: CLASS_SELECT,
+    })
+    audit(context, 'CLASS_CREATE', 'CLASS', group.id, { name: group.name, courseId })
+
+    if (parsed.memberIds?.length) {
+        await syncScimMembers(context, group.id, parsed.memberIds)
+    }
+    return toScimGroupWithMembers(context, group)
+}
+
+const saveScimGroup = async (context: ScimContext, existing: ScimClassRow, parsed: ParsedScimGroup) => {
+    const courseId = parsed.course ? await resolveScimCourse(context, parsed.course) : existing.courseId
+    const group = await prisma.class.update({
+        where: { id: existing.id },
+        data: { name: parsed.displayName, externalId: parsed.externalId, courseId },
+        select: CLASS_SELECT,
+    })
+
+    const changes = {
+        ...(group.name !== existing.name && { name: group.name }),
+        ...(group.externalId !== existing.externalId && { externalId: group.externalId }),
+        ...(group.courseId !== existing.courseId && { courseId: group.courseId }),
+    }
+    if (Object.keys(changes).length > 0) {
+        audit(context, 'CLASS_UPDATE', 'CLASS', group.id, changes)
+    }
+    if (parsed.memberIds) {
+        await syncScimMembers(context, group.id, parsed.memberIds)
+    }
+    return toScimGroupWithMembers(context, group)
+}
+
+export async function replaceScimGroup(context: ScimContext, id: string, body: unknown) {
+    const existing = await findScimClass(context, id)
+    return saveScimGroup(context, existing, parseScimGroup(body))
+}
+
+export async function patchScimGroup(context: ScimContext, id: string, body: unknown) {
+    const existing = await findScimClass(context, id)
+    const operations = parsePatchRequest(body)
+    const current = await toScimGroupWithMembers(context, existing)
+    return saveScimGroup(context, existing, parseScimGroup(applyScimPatch(current, operations)))
+}
+
+/** SCIM DELETE archives the class; its enrollments are kept for past exams. */
+export async function archiveScimGroup(context: ScimContext, id: string) {
+    const existing = await findScimClass(context, id)
+    await prisma.class.update({ where: { id }, data: { archivedAt: new Date() } })
+    audit(context, 'CLASS_ARCHIVE', 'CLASS', id, { name: existing.name })
+}
@@ -3,6 +3,8 @@ type SecurityHeadersOptions = {
     enforceCsp: boolean
     allowCamera: boolean
     allowMicrophone: boolean
+    /** Extra form targets, e.g. LMS platforms receiving LTI Deep Linking responses */
+    formActionOrigins?: string[]
 }
 
 const buildCsp = (options: SecurityHeadersOptions): string => {
@@ -17,13 +19,14 @@ const buildCsp = (options: SecurityHeadersOptions): string => {
         ...(isDev ? ['ws:', 'wss:'] : []),
         'https://*.ingest.sentry.io'
     ]
+    const formAction = [`'self'`, ...(options.formActionOrigins ?? [])]
 
     return [
         `default-src 'self'`,
         `base-uri 'self'`,
         `object-src 'none'`,
         `frame-ancestors 'none'`,
-        `form-action 'self'`,
+        `form-action ${formAction.join(' ')}`,
         `script-src ${scriptSrc.join(' ')}`,
         `style-src ${styleSrc.join(' ')}`,
         `img-src 'self' data: blob: https://*.s3.eu-west-3.amazonaws.com`,
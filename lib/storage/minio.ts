@@ -229,6 +229,30 @@ export function getPublicUrl(bucket: string, key: string): string {
   return `${protocol}://${minioEndpoint}:${minioPort}/${bucket}/${key}`
 }
 
+/**
+ * Object key of a file we uploaded, from the URL returned by uploadFile
+ * Only our own storage is recognized (local /uploads or the bucket's public URL):
+ * other URLs return null and are never fetched by the server.
+ */
+export function getObjectKeyFromUrl(url: string, bucket: string = DEFAULT_BUCKET): string | null {
+  let key: string | null = null
+  if (url.startsWith('/uploads/')) {
+    key = url.slice('/uploads/'.length)
+  } else {
+    const prefix = getPublicUrl(bucket, '')
+    if (url.startsWith(prefix)) key = url.slice(prefix.length)
+  }
+  if (!key) return null
+  try {
+    key = decodeURIComponent(key.split(/[?#]/)[0])
+  } catch {
+    return null
+  }
+  // Keys never climb out of the bucket (or out of public/uploads locally)
+  if (!key || key.split('/').some((part) => part === '..' || part === '')) return null
+  return key
+}
+
 /**
  * Generate a unique key for uploaded files
  * Format: uploads/{date}/{uuid}-{original-filename}
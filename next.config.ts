@@ -24,12 +24,17 @@ const nextConfig: NextConfig = {
     const enforceCsp = process.env.CSP_ENFORCE === 'true'
     const allowCamera = process.env.SECURITY_ALLOW_CAMERA === 'true'
     const allowMicrophone = process.env.SECURITY_ALLOW_MICROPHONE === 'true'
+    const formActionOrigins = (process.env.LTI_PLATFORM_ORIGINS ?? '')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean)
 
     const securityHeaders = getSecurityHeaders({
       isProduction,
       enforceCsp,
       allowCamera,
-      allowMicrophone
+      allowMicrophone,
+      formActionOrigins
     })
 
     return [
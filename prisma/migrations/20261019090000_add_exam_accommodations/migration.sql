@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ExamAccommodation" (
+    "id" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "userId" TEXT,
+    "classId" TEXT,
+    "examId" TEXT,
+    "durationMultiplier" DOUBLE PRECISION,
+    "extraMinutes" INTEGER,
+    "startAt" TIMESTAMP(3),
+    "endAt" TIMESTAMP(3),
+    "lateStartGraceMinutes" INTEGER,
+    "reason" TEXT,
+    "createdById" TEXT,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExamAccommodation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExamAccommodation_courseId_idx" ON "ExamAccommodation"("courseId");
+CREATE INDEX "ExamAccommodation_userId_idx" ON "ExamAccommodation"("userId");
+CREATE INDEX "ExamAccommodation_classId_idx" ON "ExamAccommodation"("classId");
+CREATE INDEX "ExamAccommodation_examId_idx" ON "ExamAccommodation"("examId");
+
+-- AddForeignKey
+ALTER TABLE "ExamAccommodation" ADD CONSTRAINT "ExamAccommodation_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ExamAccommodation" ADD CONSTRAINT "ExamAccommodation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ExamAccommodation" ADD CONSTRAINT "ExamAccommodation_classId_fkey" FOREIGN KEY ("classId") REFERENCES "Class"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "ExamAccommodation" ADD CONSTRAINT "ExamAccommodation_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE SET NULL ON UPDATE CASCADE;
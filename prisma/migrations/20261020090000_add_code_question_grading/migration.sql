@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "codeConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "Grade" ADD COLUMN "testResults" JSONB;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "QuestionDifficulty" AS ENUM ('EASY', 'MEDIUM', 'HARD');
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "bankItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "QuestionBankItem" (
+    "id" TEXT NOT NULL,
+    "institutionId" TEXT NOT NULL,
+    "courseId" TEXT,
+    "createdById" TEXT,
+    "sourceQuestionId" TEXT,
+    "type" "QuestionType" NOT NULL,
+    "content" TEXT NOT NULL,
+    "answerTemplate" TEXT,
+    "answerTemplateLocked" BOOLEAN NOT NULL DEFAULT false,
+    "studentTools" JSONB,
+    "shuffleOptions" BOOLEAN NOT NULL DEFAULT false,
+    "requireAllCorrect" BOOLEAN NOT NULL DEFAULT false,
+    "maxPoints" DOUBLE PRECISION,
+    "codeConfig" JSONB,
+    "segments" JSONB NOT NULL,
+    "topics" TEXT[],
+    "learningObjectives" TEXT[],
+    "difficulty" "QuestionDifficulty",
+    "searchText" TEXT NOT NULL,
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuestionBankItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Question_bankItemId_idx" ON "Question"("bankItemId");
+CREATE INDEX "QuestionBankItem_institutionId_idx" ON "QuestionBankItem"("institutionId");
+CREATE INDEX "QuestionBankItem_courseId_idx" ON "QuestionBankItem"("courseId");
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_bankItemId_fkey" FOREIGN KEY ("bankItemId") REFERENCES "QuestionBankItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "QuestionBankItem" ADD CONSTRAINT "QuestionBankItem_institutionId_fkey" FOREIGN KEY ("institutionId") REFERENCES "Institution"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "QuestionBankItem" ADD CONSTRAINT "QuestionBankItem_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "PoolStratification" AS ENUM ('NONE', 'DIFFICULTY', 'POINTS');
+
+-- AlterTable
+ALTER TABLE "ExamSection" ADD COLUMN "poolDrawCount" INTEGER,
+ADD COLUMN "poolStratifyBy" "PoolStratification" NOT NULL DEFAULT 'NONE';
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN "questionSelection" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "parameters" JSONB;
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN "parameterValues" JSONB;
+
+-- AlterTable
+ALTER TABLE "QuestionBankItem" ADD COLUMN "parameters" JSONB;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "QuestionType" ADD VALUE 'NUMERIC';
+ALTER TYPE "QuestionType" ADD VALUE 'MATH_EXPRESSION';
+
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN "answerKey" JSONB;
+
+-- AlterTable
+ALTER TABLE "QuestionBankItem" ADD COLUMN "answerKey" JSONB;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "LMSConfig" ADD COLUMN "issuer" TEXT,
+ADD COLUMN "clientId" TEXT,
+ADD COLUMN "deploymentId" TEXT,
+ADD COLUMN "authLoginUrl" TEXT,
+ADD COLUMN "accessTokenUrl" TEXT,
+ADD COLUMN "jwksUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "LtiResourceLink" (
+    "id" TEXT NOT NULL,
+    "lmsConfigId" TEXT NOT NULL,
+    "resourceLinkId" TEXT NOT NULL,
+    "examId" TEXT NOT NULL,
+    "contextId" TEXT,
+    "lineItemUrl" TEXT,
+    "lineItemsUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LtiResourceLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LtiUserLink" (
+    "id" TEXT NOT NULL,
+    "lmsConfigId" TEXT NOT NULL,
+    "sub" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LtiUserLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LMSConfig_issuer_clientId_key" ON "LMSConfig"("issuer", "clientId");
+CREATE UNIQUE INDEX "LtiResourceLink_lmsConfigId_resourceLinkId_key" ON "LtiResourceLink"("lmsConfigId", "resourceLinkId");
+CREATE INDEX "LtiResourceLink_examId_idx" ON "LtiResourceLink"("examId");
+CREATE UNIQUE INDEX "LtiUserLink_lmsConfigId_sub_key" ON "LtiUserLink"("lmsConfigId", "sub");
+CREATE INDEX "LtiUserLink_userId_idx" ON "LtiUserLink"("userId");
+
+-- AddForeignKey
+ALTER TABLE "LtiResourceLink" ADD CONSTRAINT "LtiResourceLink_lmsConfigId_fkey" FOREIGN KEY ("lmsConfigId") REFERENCES "LMSConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "LtiResourceLink" ADD CONSTRAINT "LtiResourceLink_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "LtiUserLink" ADD CONSTRAINT "LtiUserLink_lmsConfigId_fkey" FOREIGN KEY ("lmsConfigId") REFERENCES "LMSConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "LtiUserLink" ADD CONSTRAINT "LtiUserLink_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
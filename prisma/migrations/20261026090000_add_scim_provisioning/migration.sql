@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "externalId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Class" ADD COLUMN "externalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ScimToken" (
+    "id" TEXT NOT NULL,
+    "institutionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "tokenPrefix" TEXT NOT NULL,
+    "createdById" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScimToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_institutionId_externalId_key" ON "User"("institutionId", "externalId");
+CREATE INDEX "Class_externalId_idx" ON "Class"("externalId");
+CREATE UNIQUE INDEX "ScimToken_tokenHash_key" ON "ScimToken"("tokenHash");
+CREATE INDEX "ScimToken_institutionId_idx" ON "ScimToken"("institutionId");
+
+-- AddForeignKey
+ALTER TABLE "ScimToken" ADD CONSTRAINT "ScimToken_institutionId_fkey" FOREIGN KEY ("institutionId") REFERENCES "Institution"("id") ON DELETE CASCADE ON UPDATE CASCADE;
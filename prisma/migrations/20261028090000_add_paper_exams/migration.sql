@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "PaperScanStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN "paperLayout" JSONB;
+
+-- CreateTable
+CREATE TABLE "PaperScan" (
+    "id" TEXT NOT NULL,
+    "examId" TEXT NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "status" "PaperScanStatus" NOT NULL DEFAULT 'PENDING',
+    "pageCount" INTEGER NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL DEFAULT 0,
+    "unmatchedPages" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaperScan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaperScan_examId_idx" ON "PaperScan"("examId");
+
+-- AddForeignKey
+ALTER TABLE "PaperScan" ADD CONSTRAINT "PaperScan_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaperScan" ADD CONSTRAINT "PaperScan_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
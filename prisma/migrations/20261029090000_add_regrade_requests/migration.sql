@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "RegradeRequestStatus" AS ENUM ('OPEN', 'ACCEPTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "RegradeRequest" (
+    "id" TEXT NOT NULL,
+    "answerId" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "justification" TEXT NOT NULL,
+    "status" "RegradeRequestStatus" NOT NULL DEFAULT 'OPEN',
+    "previousScore" DOUBLE PRECISION,
+    "newScore" DOUBLE PRECISION,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RegradeRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RegradeMessage" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RegradeMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegradeRequest_answerId_key" ON "RegradeRequest"("answerId");
+
+-- CreateIndex
+CREATE INDEX "RegradeRequest_status_idx" ON "RegradeRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "RegradeMessage_requestId_idx" ON "RegradeMessage"("requestId");
+
+-- AddForeignKey
+ALTER TABLE "RegradeRequest" ADD CONSTRAINT "RegradeRequest_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "Answer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegradeRequest" ADD CONSTRAINT "RegradeRequest_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegradeMessage" ADD CONSTRAINT "RegradeMessage_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "RegradeRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RegradeMessage" ADD CONSTRAINT "RegradeMessage_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "GradingTask" ADD COLUMN "questionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN "gradingLockedBy" TEXT,
+ADD COLUMN "gradingLockedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "GradingTask_assignedTo_idx" ON "GradingTask"("assignedTo");
+
+-- AddForeignKey
+ALTER TABLE "GradingTask" ADD CONSTRAINT "GradingTask_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE CASCADE ON UPDATE CASCADE;
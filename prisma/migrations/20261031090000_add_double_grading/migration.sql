@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Answer" ADD COLUMN "doubleGrading" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "reconciledAt" TIMESTAMP(3),
+ADD COLUMN "reconciledBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Grade" ADD COLUMN "independentAnswerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Grade_independentAnswerId_gradedByUserId_key" ON "Grade"("independentAnswerId", "gradedByUserId");
+
+-- AddForeignKey
+ALTER TABLE "Grade" ADD CONSTRAINT "Grade_independentAnswerId_fkey" FOREIGN KEY ("independentAnswerId") REFERENCES "Answer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
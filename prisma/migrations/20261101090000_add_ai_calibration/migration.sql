@@ -0,0 +1,77 @@
+-- CreateTable
+CREATE TABLE "AIPromptVersion" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "activatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT,
+
+    CONSTRAINT "AIPromptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalibrationSet" (
+    "id" TEXT NOT NULL,
+    "examId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalibrationSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalibrationItem" (
+    "id" TEXT NOT NULL,
+    "setId" TEXT NOT NULL,
+    "answerId" TEXT NOT NULL,
+
+    CONSTRAINT "CalibrationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalibrationRun" (
+    "id" TEXT NOT NULL,
+    "setId" TEXT NOT NULL,
+    "promptVersionId" TEXT,
+    "promptLabel" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "results" JSONB NOT NULL,
+    "report" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalibrationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AIPromptVersion_key_idx" ON "AIPromptVersion"("key");
+
+-- CreateIndex
+CREATE INDEX "CalibrationSet_examId_idx" ON "CalibrationSet"("examId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalibrationItem_setId_answerId_key" ON "CalibrationItem"("setId", "answerId");
+
+-- CreateIndex
+CREATE INDEX "CalibrationRun_setId_idx" ON "CalibrationRun"("setId");
+
+-- CreateIndex
+CREATE INDEX "CalibrationRun_promptVersionId_idx" ON "CalibrationRun"("promptVersionId");
+
+-- AddForeignKey
+ALTER TABLE "CalibrationSet" ADD CONSTRAINT "CalibrationSet_examId_fkey" FOREIGN KEY ("examId") REFERENCES "Exam"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalibrationItem" ADD CONSTRAINT "CalibrationItem_setId_fkey" FOREIGN KEY ("setId") REFERENCES "CalibrationSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalibrationItem" ADD CONSTRAINT "CalibrationItem_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "Answer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalibrationRun" ADD CONSTRAINT "CalibrationRun_setId_fkey" FOREIGN KEY ("setId") REFERENCES "CalibrationSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalibrationRun" ADD CONSTRAINT "CalibrationRun_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "AIPromptVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AIGradingLog" ADD COLUMN "images" JSONB;
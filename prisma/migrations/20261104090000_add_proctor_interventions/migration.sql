@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_MESSAGE';
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_WARNING';
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_PAUSE';
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_RESUME';
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_EXTEND';
+ALTER TYPE "ProctorEventType" ADD VALUE 'PROCTOR_TERMINATE';
+
+-- AlterTable
+ALTER TABLE "Attempt" ADD COLUMN "extensionMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "pausedAt" TIMESTAMP(3),
+ADD COLUMN "pausedSeconds" INTEGER NOT NULL DEFAULT 0;
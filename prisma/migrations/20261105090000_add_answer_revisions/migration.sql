@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "AnswerSegment" ADD COLUMN "revisionCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "AnswerRevision" (
+    "id" TEXT NOT NULL,
+    "answerSegmentId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "savedAt" TIMESTAMP(3) NOT NULL,
+    "diff" JSONB NOT NULL,
+    "snapshot" TEXT,
+    "restoredFromSequence" INTEGER,
+    "restoredById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnswerRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnswerRevision_answerSegmentId_sequence_key" ON "AnswerRevision"("answerSegmentId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "AnswerRevision" ADD CONSTRAINT "AnswerRevision_answerSegmentId_fkey" FOREIGN KEY ("answerSegmentId") REFERENCES "AnswerSegment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
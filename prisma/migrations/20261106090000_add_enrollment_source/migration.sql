@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "EnrollmentSource" AS ENUM ('MANUAL', 'SCIM', 'LTI');
+
+-- AlterTable
+ALTER TABLE "Enrollment" ADD COLUMN "source" "EnrollmentSource" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN "archivedAt" TIMESTAMP(3);
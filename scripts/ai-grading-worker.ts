@@ -1,19 +1,22 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import { Worker, Job } from 'bullmq'
 import Redis from 'ioredis'
 import { prisma } from '@/lib/prisma'
 import { recomputeAttemptStatus } from '../lib/attemptStatus'
 import { gradeAnswer } from '../lib/grading/grader'
-import { segmentsToLatexString, parseContent } from '../lib/content'
-import { isOpenAIConfigured, isOpenAIConfiguredSync } from '../lib/grading/openai-client'
+import { parseContent } from '../lib/content'
+import { segmentsToGradingText, type GradingVisual } from '../lib/grading/grading-visuals'
+import { isLLMConfiguredSync } from '../lib/grading/llm-settings'
+import { parseRubricCriteria } from '../lib/grading/criteria'
+import { resolveQuestionParameterValues, substituteParametersDeep } from '../lib/question-parameters'
 import type { ContentSegment } from '@/types/exams'
 import type { Rubric } from '../lib/grading/schemas'
+import { Prisma } from '@prisma/client'
 
 /**
  * AI Grading Worker
  *
  * Consumes jobs from 'ai-grading' queue.
- * Uses GPT-4 to grade student answers with personalized feedback.
+ * Uses the institution's LLM provider to grade student answers with personalized feedback.
  */
 
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
@@ -21,8 +24,8 @@ const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
 console.log('[AI Worker] Starting worker...')
 console.log(`[AI Worker] Connecting to Redis at ${redisUrl}`)
 
-if (!isOpenAIConfiguredSync()) {
-    console.warn('[AI Worker] WARNING: OPENAI_API_KEY is not configured in environment. Will check database on first job.')
+if (!isLLMConfiguredSync()) {
+    console.warn('[AI Worker] WARNING: no AI provider is configured in environment (LLM_PROVIDER or OPENAI_API_KEY). Will check database on first job.')
 }
 
 const connection = new Redis(redisUrl, {
@@ -62,7 +65,11 @@ const worker = new Worker('ai-grading', async (job: Job) => {
                         }
                     },
                     segments: true,
-                    attempt: true
+                    attempt: {
+                        include: {
+                            exam: { select: { course: { select: { institutionId: true } } } }
+                        }
+                    }
                 }
             })
 
@@ -93,19 +100,25 @@ const worker = new Worker('ai-grading', async (job: Job) => {
                 return // Skip this answer, don't update the grade
             }
 
-            // 4. Convert question content to string
-            const questionContentSegments = parseContent(answer.question.content) as ContentSegment[]
-            const questionContent = segmentsToLatexString(questionContentSegments)
+            // 4. Convert question content to string (parameterized questions: with this student's values)
+            // Images and graphs are numbered in the text and sent to vision models
+            const visuals: GradingVisual[] = []
+            const parameterValues = resolveQuestionParameterValues(answer.question, answer.attempt)
+            const instantiate = <T>(value: T): T =>
+                parameterValues ? substituteParametersDeep(value, parameterValues) : value
+            const questionContentSegments = instantiate(parseContent(answer.question.content) as ContentSegment[])
+            const questionContent = segmentsToGradingText(questionContentSegments, 'question', visuals)
 
             // 5. Convert student answer segments to string
             const answerContentSegments = answer.segments.map(seg => {
                 const parsed = parseContent(seg.content) as ContentSegment[]
                 return parsed
             }).flat()
-            const studentAnswer = segmentsToLatexString(answerContentSegments)
+            const studentAnswer = segmentsToGradingText(answerContentSegments, 'answer', visuals)
 
             // 6. Get rubric - prefer generatedRubric, fallback to segment rubric criteria
             let rubricString: string
+            let rubricCriteria: Rubric['criteria'] | null = null
 
             // First try to fetch the question with generatedRubric directly
             const questionWithRubric = await prisma.question.findUnique({
@@ -115,13 +128,14 @@ const worker = new Worker('ai-grading', async (job: Job) => {
 
             if (questionWithRubric?.generatedRubric) {
                 // Use generated rubric
-                rubricString = JSON.stringify(questionWithRubric.generatedRubric)
+                rubricString = JSON.stringify(instantiate(questionWithRubric.generatedRubric))
+                rubricCriteria = parseRubricCriteria(instantiate(questionWithRubric.generatedRubric))
                 console.log(`[AI Worker] Using generated rubric for question ${answer.question.id}`)
             } else {
                 // Fallback to segment rubric criteria
                 const correctionGuidelines = answer.question.segments
                     .filter(s => s.rubric?.criteria)
-                    .map(s => s.rubric!.criteria)
+                    .map(s => instantiate(s.rubric!.criteria))
                     .filter(Boolean)
                     .join('\n\n')
 
@@ -135,17 +149,24 @@ const worker = new Worker('ai-grading', async (job: Job) => {
                 }
             }
 
-            // 7. Call GPT-4 for grading
-            console.log(`[AI Worker] Calling GPT-4 for grading answer ${answerId}...`)
+            // 7. Call the LLM provider for grading
+            console.log(`[AI Worker] Calling AI provider for grading answer ${answerId}...`)
 
             const gradingResult = await gradeAnswer({
                 question: questionContent,
                 rubric: rubricString,
                 studentAnswer: studentAnswer || '(Aucune reponse)',
-                maxPoints: maxPoints
+                maxPoints: maxPoints,
+                parameterValues,
+                criteria: rubricCriteria,
+                visuals,
+                institutionId: answer.attempt.exam.course.institutionId,
+                attemptId,
+                answerId,
+                questionId
             })
 
-            console.log(`[AI Worker] GPT-4 returned score ${gradingResult.score}/${maxPoints}`)
+            console.log(`[AI Worker] AI provider returned score ${gradingResult.score}/${maxPoints}`)
 
             // 8. Upsert Grade with AI results
             await prisma.grade.upsert({
@@ -156,6 +177,7 @@ const worker = new Worker('ai-grading', async (job: Job) => {
                     score: gradingResult.score,
                     feedback: gradingResult.feedback,
                     aiRationale: gradingResult.aiRationale,
+                    criteriaResults: gradingResult.criteria ?? Prisma.DbNull,
                     gradedByUserId: null,
                     isOverridden: false
                 },
@@ -164,6 +186,7 @@ const worker = new Worker('ai-grading', async (job: Job) => {
                     score: gradingResult.score,
                     feedback: gradingResult.feedback,
                     aiRationale: gradingResult.aiRationale,
+                    criteriaResults: gradingResult.criteria ?? Prisma.DbNull,
                     gradedByUserId: null,
                     isOverridden: false
                 }
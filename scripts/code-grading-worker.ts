@@ -0,0 +1,167 @@
+import { Worker, Job } from 'bullmq'
+import Redis from 'ioredis'
+import { prisma } from '@/lib/prisma'
+import { recomputeAttemptStatus } from '../lib/attemptStatus'
+import { gradeCodeAnswer, parseCodeConfig } from '../lib/grading/code-grader'
+import { runTestSuite } from '../lib/grading/code-runner'
+
+/**
+ * Code Grading Worker
+ *
+ * Consumes jobs from 'code-grading' queue.
+ * - 'grade-code': grades a submitted CODE answer against visible and hidden tests
+ * - 'run-visible-tests': a student's run of the visible tests during the exam,
+ *   the results are the job's return value
+ * Student code runs in the local sandbox
+ * (lib/grading/code-runner.ts). Deploy it in an isolated container: the
+ * sandbox only limits time, memory and output of the student process.
+ */
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
+const concurrency = Number(process.env.CODE_GRADING_CONCURRENCY) || 2
+
+console.log('[Code Worker] Starting worker...')
+console.log(`[Code Worker] Connecting to Redis at ${redisUrl}`)
+
+const connection = new Redis(redisUrl, {
+    maxRetriesPerRequest: null,
+    retryStrategy: (times) => {
+        const delay = Math.min(times * 50, 2000)
+        return delay
+    }
+})
+
+connection.on('error', (error) => {
+    console.error('[Code Worker] Redis connection error:', error.message)
+})
+
+connection.on('connect', () => {
+    console.log('[Code Worker] Redis connected successfully')
+})
+
+const worker = new Worker('code-grading', async (job: Job) => {
+    try {
+        if (job.name === 'grade-code') {
+            const { attemptId, answerId, questionId } = job.data
+            console.log(`[Code Worker] Processing attempt ${attemptId}, question ${questionId}, answer ${answerId}`)
+
+            const answer = await prisma.answer.findUnique({
+                where: { id: answerId },
+                include: {
+                    question: {
+                        include: {
+                            segments: {
+                                orderBy: { order: 'asc' }
+                            }
+                        }
+                    },
+                    segments: true
+                }
+            })
+
+            if (!answer) {
+                console.error(`[Code Worker] Answer ${answerId} not found, skipping.`)
+                return
+            }
+
+            if (answer.question.type !== 'CODE') {
+                console.warn(`[Code Worker] Question ${answer.question.id} is not a CODE question, skipping.`)
+                return
+            }
+
+            const config = parseCodeConfig(answer.question.codeConfig)
+            if (!config || config.tests.length === 0) {
+                console.warn(`[Code Worker] Question ${answer.question.id} has no usable test suite, leaving answer ${answerId} for manual grading`)
+                return
+            }
+
+            const maxPoints = answer.question.segments.reduce(
+                (sum, segment) => sum + (segment.maxPoints ?? 0),
+                0
+            )
+
+            // Skip if human grade present (gradedByUserId not null OR isOverridden = true)
+            const existingGrade = await prisma.grade.findUnique({
+                where: { answerId }
+            })
+            if (existingGrade && (existingGrade.gradedByUserId !== null || existingGrade.isOverridden)) {
+                console.log(`[Code Worker] Skip answer ${answerId} (human grade present or overridden)`)
+                return
+            }
+
+            // The submission lives in the question's first segment
+            const primarySegmentId = answer.question.segments[0]?.id
+            const code = answer.segments.find((segment) => segment.segmentId === primarySegmentId)?.content
+                ?? answer.segments[0]?.content
+                ?? ''
+
+            const result = await gradeCodeAnswer({ config, code, maxPoints })
+
+            await prisma.grade.upsert({
+                where: { answerId },
+                update: {
+                    score: result.score,
+                    feedback: result.feedback,
+                    aiRationale: result.aiRationale,
+                    testResults: result.testResults,
+                    gradedByUserId: null,
+                    isOverridden: false
+                },
+                create: {
+                    answerId,
+                    score: result.score,
+                    feedback: result.feedback,
+                    aiRationale: result.aiRationale,
+                    testResults: result.testResults,
+                    gradedByUserId: null,
+                    isOverridden: false
+                }
+            })
+
+            const passed = result.testResults.filter((test) => test.passed).length
+            console.log(`[Code Worker] Graded answer ${answerId}: ${passed}/${result.testResults.length} tests, score ${result.score}/${maxPoints}`)
+
+            await recomputeAttemptStatus(answer.attemptId)
+        } else if (job.name === 'run-visible-tests') {
+            const { questionId, code } = job.data
+            const question = await prisma.question.findUnique({
+                where: { id: questionId },
+                select: { type: true, codeConfig: true }
+            })
+            const config = question?.type === 'CODE' ? parseCodeConfig(question.codeConfig) : null
+            if (!config) {
+                throw new Error(`Question ${questionId} has no test configuration`)
+            }
+            return runTestSuite(config, String(code ?? ''), { includeHidden: false })
+        } else {
+            console.log(`[Code Worker] Unknown job name: ${job.name}`)
+        }
+    } catch (error) {
+        console.error(`[Code Worker] Job ${job.id} failed:`, error)
+        throw error
+    }
+}, {
+    connection,
+    // Each test spawns a process: keep this low on small machines
+    concurrency
+})
+
+worker.on('completed', (job) => {
+    console.log(`[Code Worker] Job ${job.id} completed successfully`)
+})
+
+worker.on('failed', (job, err) => {
+    console.error(`[Code Worker] Job ${job?.id} has failed with ${err.message}`)
+})
+
+// Graceful shutdown
+const shutdown = async () => {
+    console.log('[Code Worker] Shutting down...')
+    await worker.close()
+    await connection.quit()
+    console.log('[Code Worker] Shutdown complete')
+    process.exit(0)
+}
+
+process.on('SIGTERM', shutdown)
+process.on('SIGINT', shutdown)
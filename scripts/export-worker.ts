@@ -4,7 +4,11 @@ import Redis from 'ioredis'
 import { renderToBuffer } from '@react-pdf/renderer'
 import { prisma } from '@/lib/prisma'
 import { AttemptStatus, Prisma } from '@prisma/client'
-import { ExportDocument, AttemptExportData, QuestionExportData } from '@/lib/export/pdf-generator'
+import { ExportDocument, PaperCopiesDocument, AttemptExportData, QuestionExportData } from '@/lib/export/pdf-generator'
+import { preparePaperCopies } from '@/lib/paper/copies'
+import { applyAttemptQuestionSelection } from '@/lib/question-pools'
+import { applyAttemptParameterValues } from '@/lib/question-parameters'
+import { getAnonymityState, getAttemptPseudonym, maskStudent } from '@/lib/grading/anonymity'
 import fs from 'fs/promises'
 import path from 'path'
 import React from 'react'
@@ -13,7 +17,7 @@ import React from 'react'
  * Export Worker
  *
  * Consumes jobs from 'export' queue.
- * Generates PDF reports asynchronously.
+ * Generates PDF reports and printable paper copies asynchronously.
  */
 
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
@@ -53,7 +57,7 @@ ensureExportDir()
 interface ExportJobData {
     examId: string
     classIds?: string[]
-    type: 'pdf'
+    type: 'pdf' | 'paper'
     requestedBy: string  // User ID for access control
 }
 
@@ -96,7 +100,7 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
             const allClassIds = await getClassIdsWithChildren(classIds)
             whereClause.student = {
                 enrollments: {
-                    some: { classId: { in: allClassIds } }
+                    some: { classId: { in: allClassIds }, archivedAt: null }
                 }
             }
         }
@@ -124,18 +128,24 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
 
         await job.updateProgress({ phase: 'processing', current: 10, total: 100 })
 
-        // 4. Build question order map
-        const questions = exam.sections.flatMap((s, sIdx) =>
-            s.questions.map(q => ({
-                id: q.id,
-                order: q.order,
-                sectionOrder: sIdx + 1,
-                content: q.content,
-                maxPoints: q.segments.reduce((sum, seg) => sum + (seg.maxPoints ?? 0), 0)
-            }))
-        )
-
-        // 5. Transform attempts to export data
+        // 4. Build question order map (pool sections: the questions drawn for the attempt, in drawn order;
+        //    parameterized questions: instantiated with the attempt's values)
+        const getAttemptQuestions = (attempt: (typeof attempts)[number]) =>
+            applyAttemptParameterValues(
+                applyAttemptQuestionSelection(exam.sections, attempt.questionSelection),
+                attempt
+            ).flatMap((s, sIdx) =>
+                s.questions.map((q, qIdx) => ({
+                    id: q.id,
+                    order: qIdx,
+                    sectionOrder: sIdx + 1,
+                    content: q.content,
+                    maxPoints: q.segments.reduce((sum, seg) => sum + (seg.maxPoints ?? 0), 0)
+                }))
+            )
+
+        // 5. Transform attempts to export data (pseudonyms while blind grading hides identities)
+        const { identityHidden } = getAnonymityState(exam.gradingConfig as Record<string, unknown> | null)
         const totalAttempts = attempts.length
         const exportAttempts: AttemptExportData[] = []
 
@@ -147,7 +157,8 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
             await job.updateProgress({ phase: 'processing', current: progressPct, total: 100, processed: i + 1, totalAttempts })
 
             // Build question data
-            const questionData: QuestionExportData[] = questions.map(q => {
+            const attemptQuestions = getAttemptQuestions(attempt)
+            const questionData: QuestionExportData[] = attemptQuestions.map(q => {
                 const answer = attempt.answers.find(a => a.questionId === q.id)
                 const answerContent = answer?.segments.map(s => s.content).join('\n') || ''
                 const grade = answer?.grades[0]
@@ -166,14 +177,14 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
 
             // Calculate total score
             const totalScore = questionData.reduce((sum, q) => sum + (q.score ?? 0), 0)
-            const maxPoints = questions.reduce((sum, q) => sum + q.maxPoints, 0)
+            const maxPoints = attemptQuestions.reduce((sum, q) => sum + q.maxPoints, 0)
 
             exportAttempts.push({
                 id: attempt.id,
-                student: {
+                student: maskStudent({
                     name: attempt.student.name || 'Etudiant',
                     email: attempt.student.email || ''
-                },
+                }, getAttemptPseudonym(examId, attempt.id), identityHidden),
                 submittedAt: attempt.submittedAt?.toISOString() ?? null,
                 totalScore,
                 maxPoints,
@@ -181,6 +192,11 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
             })
         }
 
+        // Alphabetical order of the real names would hint at identities
+        if (identityHidden) {
+            exportAttempts.sort((a, b) => a.student.name.localeCompare(b.student.name))
+        }
+
         await job.updateProgress({ phase: 'generating', current: 80, total: 100 })
 
         // 6. Generate PDF
@@ -215,6 +231,42 @@ const worker = new Worker('export', async (job: Job<ExportJobData>) => {
         }
     }
 
+    if (type === 'paper') {
+        // 1. Create the paper attempts and lay out their pages
+        await job.updateProgress({ phase: 'loading', current: 0, total: 100 })
+
+        const { exam, copies, skippedOnline } = await preparePaperCopies(examId, classIds)
+
+        await job.updateProgress({ phase: 'generating', current: 50, total: 100 })
+
+        // 2. Generate PDF
+        console.log(`[Export Worker] Generating paper copies for ${copies.length} students...`)
+
+        const documentElement = React.createElement(PaperCopiesDocument, { exam, copies })
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const pdfBuffer = await renderToBuffer(documentElement as any)
+
+        await job.updateProgress({ phase: 'saving', current: 95, total: 100 })
+
+        // 3. Save to file
+        const filename = `copies-${exam.title.replace(/[^a-zA-Z0-9]/g, '-')}-${Date.now()}.pdf`
+        const filepath = path.join(EXPORT_DIR, filename)
+
+        await fs.writeFile(filepath, pdfBuffer)
+
+        console.log(`[Export Worker] Paper copies saved to ${filepath} (${pdfBuffer.length} bytes, ${skippedOnline} students already online)`)
+
+        await job.updateProgress({ phase: 'complete', current: 100, total: 100 })
+
+        return {
+            filename,
+            filepath,
+            size: pdfBuffer.length,
+            attemptCount: copies.length
+        }
+    }
+
     throw new Error(`Unknown export type: ${type}`)
 }, {
     connection,
@@ -0,0 +1,28 @@
+import { createFakePlatform } from '../lib/lti/fake-platform'
+
+/**
+ * Local LTI 1.3 platform to try the Correcta tool without Moodle or Canvas.
+ *
+ * 1. Start it: npm run lti:fake-platform (LTI_FAKE_PORT, default 4100)
+ * 2. Register the printed values as an LMS platform of an institution
+ *    (POST /api/institutions/<id>/lms)
+ * 3. Open http://localhost:4100/launch?user=teacher&deep_linking=1 to place an
+ *    exam, then /launch?user=student&link=link-1 to take it
+ * 4. Release the results: pushed scores are listed on /scores
+ */
+
+const port = Number(process.env.LTI_FAKE_PORT ?? 4100)
+const toolUrl = process.env.NEXTAUTH_URL ?? 'http://localhost:3000'
+
+const run = async () => {
+    const platform = createFakePlatform({ issuer: `http://localhost:${port}`, toolUrl })
+    await platform.listen(port)
+    console.log(`Fake LMS listening on ${platform.issuer} (tool: ${toolUrl})`)
+    console.log('Registration:', JSON.stringify(platform.registration, null, 2))
+    console.log('Users:', Object.keys(platform.users).join(', '))
+}
+
+run().catch((error) => {
+    console.error(error)
+    process.exit(1)
+})
@@ -0,0 +1,65 @@
+import { Worker, Job } from 'bullmq'
+import Redis from 'ioredis'
+import { processPaperScan } from '@/lib/paper/scan'
+
+/**
+ * Paper Scan Worker
+ *
+ * Consumes jobs from 'paper-scan' queue.
+ * Splits uploaded scans of paper copies into pages, matches each page to its
+ * attempt and question by QR code and stores the answer area as an image.
+ */
+
+const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
+
+console.log('[Paper Scan Worker] Starting worker...')
+console.log(`[Paper Scan Worker] Connecting to Redis at ${redisUrl}`)
+
+const connection = new Redis(redisUrl, {
+    maxRetriesPerRequest: null,
+    retryStrategy: (times) => {
+        const delay = Math.min(times * 50, 2000)
+        return delay
+    }
+})
+
+connection.on('error', (error) => {
+    console.error('[Paper Scan Worker] Redis connection error:', error.message)
+})
+
+connection.on('connect', () => {
+    console.log('[Paper Scan Worker] Redis connected successfully')
+})
+
+const worker = new Worker('paper-scan', async (job: Job<{ scanId: string }>) => {
+    const { scanId } = job.data
+    console.log(`[Paper Scan Worker] Processing scan ${scanId}`)
+
+    await processPaperScan(scanId, async (processed, total) => {
+        await job.updateProgress({ current: processed, total })
+    })
+}, {
+    connection,
+    // Pages are rendered at 200 DPI: one scan at a time keeps memory bounded
+    concurrency: 1
+})
+
+worker.on('completed', (job) => {
+    console.log(`[Paper Scan Worker] Job ${job.id} completed successfully`)
+})
+
+worker.on('failed', (job, err) => {
+    console.error(`[Paper Scan Worker] Job ${job?.id} has failed with ${err.message}`)
+})
+
+// Graceful shutdown
+const shutdown = async () => {
+    console.log('[Paper Scan Worker] Shutting down...')
+    await worker.close()
+    await connection.quit()
+    console.log('[Paper Scan Worker] Shutdown complete')
+    process.exit(0)
+}
+
+process.on('SIGTERM', shutdown)
+process.on('SIGINT', shutdown)
@@ -1,9 +1,8 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import { Worker, Job } from 'bullmq'
 import Redis from 'ioredis'
 import { prisma } from '@/lib/prisma'
 import { extractExamFromPDF } from '@/lib/exam-import/extractor'
-import { isOpenAIConfiguredSync } from '@/lib/grading/openai-client'
+import { isLLMConfiguredSync } from '@/lib/grading/llm-settings'
 import { downloadFile } from '@/lib/storage/minio'
 import { extractAndUploadImages, type ImageRef, type ResolvedImage } from '@/lib/exam-import/image-extractor'
 import type { ExamExtraction } from '@/lib/exam-import/schemas'
@@ -12,7 +11,7 @@ import type { ExamExtraction } from '@/lib/exam-import/schemas'
  * PDF Import Worker
  *
  * Consumes jobs from 'pdf-import' queue.
- * Uses GPT-4o to extract exam structure from PDF documents.
+ * Uses the institution's LLM provider to extract exam structure from PDF documents.
  * Maps exercises → ExamSections, sub-questions → Questions.
  * Extracts and uploads figures/images from PDF pages.
  */
@@ -22,8 +21,8 @@ const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379'
 console.log('[PDF Import Worker] Starting worker...')
 console.log(`[PDF Import Worker] Connecting to Redis at ${redisUrl}`)
 
-if (!isOpenAIConfiguredSync()) {
-    console.warn('[PDF Import Worker] WARNING: OPENAI_API_KEY is not configured in environment. Will check database on first job.')
+if (!isLLMConfiguredSync()) {
+    console.warn('[PDF Import Worker] WARNING: no AI provider is configured in environment (LLM_PROVIDER or OPENAI_API_KEY). Will check database on first job.')
 }
 
 const connection = new Redis(redisUrl, {
@@ -154,9 +153,9 @@ const worker = new Worker('pdf-import', async (job: Job) => {
             const { userId, pdfKey, institutionId, courseId } = job.data
             console.log(`[PDF Import Worker] Processing import for PDF ${pdfKey}`)
 
-            // 1. Call GPT-4o to extract exam structure from PDF
-            console.log(`[PDF Import Worker] Calling GPT-4o for PDF extraction...`)
-            const extracted = await extractExamFromPDF({ pdfKey, userId })
+            // 1. Call the LLM provider to extract exam structure from PDF
+            console.log(`[PDF Import Worker] Calling AI provider for PDF extraction...`)
+            const extracted = await extractExamFromPDF({ pdfKey, institutionId, userId })
 
             const totalSubQuestions = extracted.exercises.reduce((sum, ex) => sum + ex.subQuestions.length, 0)
             console.log(`[PDF Import Worker] Extracted ${extracted.exercises.length} exercises with ${totalSubQuestions} sub-questions`)
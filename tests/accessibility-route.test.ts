@@ -0,0 +1,66 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+import { NextRequest } from 'next/server'
+
+test('teachers only reach the accessibility profile of students they teach', async () => {
+    const users = [
+        { id: 'student-taught', role: 'STUDENT', institutionId: 'inst-1', accessibilityProfile: null },
+        { id: 'student-other', role: 'STUDENT', institutionId: 'inst-1', accessibilityProfile: null },
+        { id: 'teacher-2', role: 'TEACHER', institutionId: 'inst-1', accessibilityProfile: null },
+    ]
+    let session = { user: { id: 'teacher-1', role: 'TEACHER', institutionId: 'inst-1' } }
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            return {
+                prisma: {
+                    user: {
+                        findUnique: async ({ where }: { where: { id: string } }) =>
+                            users.find((user) => user.id === where.id) ?? null,
+                    },
+                    enrollment: {
+                        findFirst: async ({ where }: { where: { userId: string; archivedAt: null } }) =>
+                            where.userId === 'student-taught' && where.archivedAt === null ? { id: 'enrollment-1' } : null,
+                    },
+                },
+            }
+        }
+        if (request === '@/lib/api-auth') {
+            return {
+                getAuthSession: async () => session,
+                isTeacher: (current: typeof session) => ['TEACHER', 'SCHOOL_ADMIN', 'PLATFORM_ADMIN'].includes(current.user.role),
+                isSchoolAdmin: (current: typeof session) => current.user.role === 'SCHOOL_ADMIN',
+                isPlatformAdmin: (current: typeof session) => current.user.role === 'PLATFORM_ADMIN',
+            }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { GET } = await import('../app/api/students/[studentId]/accessibility/route')
+        const read = (studentId: string) => GET(
+            new NextRequest(`https://correcta.test/api/students/${studentId}/accessibility`),
+            { params: Promise.resolve({ studentId }) }
+        ).then((res) => res.status)
+
+        assert.equal(await read('student-taught'), 200)
+        assert.equal(await read('student-other'), 404)
+        assert.equal(await read('teacher-2'), 404)
+
+        session = { user: { id: 'admin-1', role: 'SCHOOL_ADMIN', institutionId: 'inst-1' } }
+        assert.equal(await read('student-other'), 200)
+        assert.equal(await read('teacher-2'), 404)
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
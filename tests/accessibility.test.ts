@@ -0,0 +1,52 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { latexToSpeech } from '../lib/accessibility/math-speech'
+import { describeGraph, describeGraphItems } from '../lib/accessibility/graph-description'
+import { DEFAULT_ACCESSIBILITY_PROFILE, normalizeAccessibilityProfile } from '../lib/accessibility/profile'
+import type { GraphSegment } from '../types/exams'
+
+const graph: GraphSegment = {
+    id: 'graph-1',
+    type: 'graph',
+    axes: { xMin: -2, xMax: 2, yMin: -1, yMax: 4, xLabel: 'x', yLabel: 'y', showGrid: true },
+    functions: [{ id: 'f', expression: 'sin(x)*2', label: 'f' }],
+    points: [{ id: 'A', x: 1.5, y: 1, label: 'A' }],
+    lines: [{ id: 'l', kind: 'segment', start: { type: 'point', pointId: 'A' }, end: { type: 'coord', x: 0, y: 0 } }],
+} as GraphSegment
+
+test('speaks fractions, powers, roots and big operators in English', () => {
+    assert.equal(latexToSpeech('\\frac{1}{2}'), '1 over 2')
+    assert.equal(latexToSpeech('x^2+1'), 'x squared plus 1')
+    assert.equal(latexToSpeech('\\sqrt{x+1}'), 'square root of x plus 1 end root')
+    assert.equal(latexToSpeech('\\int_0^1 f(x)\\,dx'), 'integral from 0 to 1 of f open parenthesis x close parenthesis d x')
+    assert.equal(latexToSpeech('\\lim_{x \\to 0} \\frac{\\sin x}{x}'), 'limit as x tends to 0 of fraction sine x over x end fraction')
+    assert.equal(latexToSpeech('\\alpha \\leq \\Beta'), 'alpha less than or equal to capital beta')
+})
+
+test('speaks math in French with a decimal comma', () => {
+    assert.equal(latexToSpeech('\\frac{1}{2}', 'fr'), '1 sur 2')
+    assert.equal(latexToSpeech('3.5 + x^2', 'fr'), '3,5 plus x au carré')
+    assert.equal(latexToSpeech('f(1,2)', 'fr'), 'f ouvrir la parenthèse 1 virgule 2 fermer la parenthèse')
+})
+
+test('describes graph axes, functions, points and lines', () => {
+    assert.deepEqual(describeGraphItems(graph, 'en'), [
+        'Horizontal axis x from -2 to 2, vertical axis y from -1 to 4.',
+        'Grid shown.',
+        'Function f: y = sine open parenthesis x close parenthesis times 2.',
+        'Point A at (1.5, 1).',
+        'Segment from A (1.5, 1) to (0, 0).',
+    ])
+    assert.ok(describeGraph(graph, 'fr').startsWith('Graphique. Axe horizontal x de -2 à 2'))
+    assert.ok(describeGraph(graph, 'fr').includes('Point A en (1,5 ; 1).'))
+})
+
+test('normalizes stored accessibility profiles', () => {
+    assert.deepEqual(normalizeAccessibilityProfile(null), DEFAULT_ACCESSIBILITY_PROFILE)
+    assert.deepEqual(normalizeAccessibilityProfile({ fontScale: 1.5, highContrast: true, dyslexiaFont: 'yes' }), {
+        ...DEFAULT_ACCESSIBILITY_PROFILE,
+        fontScale: 1.5,
+        highContrast: true,
+    })
+    assert.equal(normalizeAccessibilityProfile({ fontScale: 3 }).fontScale, 1)
+})
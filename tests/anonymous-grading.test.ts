@@ -0,0 +1,50 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    getAnonymityState,
+    getAttemptPseudonym,
+    maskStudent,
+    preserveRevealKeys,
+} from '../lib/grading/anonymity'
+
+test('identities stay hidden until revealed or released', () => {
+    assert.deepEqual(getAnonymityState(null), { enabled: false, identityHidden: false, revealedAt: null })
+    assert.equal(getAnonymityState({ anonymousGrading: true }).identityHidden, true)
+    assert.equal(getAnonymityState({ anonymousGrading: true, gradesReleased: true }).identityHidden, false)
+
+    const revealed = getAnonymityState({ anonymousGrading: true, identityRevealedAt: '2026-06-01T10:00:00.000Z' })
+    assert.equal(revealed.identityHidden, false)
+    assert.equal(revealed.revealedAt?.toISOString(), '2026-06-01T10:00:00.000Z')
+})
+
+test('pseudonyms are stable per attempt and differ between attempts', () => {
+    const first = getAttemptPseudonym('exam-1', 'attempt-1')
+    assert.match(first, /^Copie [0-9A-F]{6}$/)
+    assert.equal(getAttemptPseudonym('exam-1', 'attempt-1'), first)
+    assert.notEqual(getAttemptPseudonym('exam-1', 'attempt-2'), first)
+})
+
+test('masked students keep their shape without identity', () => {
+    const student = { id: 'student-1', name: 'Alice Martin', email: 'alice@school.test' }
+    assert.equal(maskStudent(student, 'Copie ABC123', false), student)
+    assert.deepEqual(maskStudent(student, 'Copie ABC123', true), { id: '', name: 'Copie ABC123', email: '' })
+})
+
+test('editor saves cannot set or drop the reveal keys', () => {
+    const forged = preserveRevealKeys({ anonymousGrading: true }, {
+        anonymousGrading: true,
+        identityRevealedAt: '2026-06-01T10:00:00.000Z',
+    })
+    assert.deepEqual(forged, { anonymousGrading: true })
+
+    const kept = preserveRevealKeys(
+        { anonymousGrading: true, identityRevealedAt: '2026-06-01T10:00:00.000Z', identityRevealedBy: 'teacher-1' },
+        { anonymousGrading: true, regradeWindowDays: 3 }
+    )
+    assert.deepEqual(kept, {
+        anonymousGrading: true,
+        regradeWindowDays: 3,
+        identityRevealedAt: '2026-06-01T10:00:00.000Z',
+        identityRevealedBy: 'teacher-1',
+    })
+})
@@ -0,0 +1,119 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { canStoreAutosave, isStaleAutosave, resolveClientUpdatedAt, saveAnswerSegment } from '../lib/answerAutosave'
+
+const now = new Date('2026-06-01T10:00:00.000Z')
+
+test('resolveClientUpdatedAt keeps past client times', () => {
+    assert.equal(resolveClientUpdatedAt('2026-06-01T09:58:00.000Z', now).toISOString(), '2026-06-01T09:58:00.000Z')
+})
+
+test('resolveClientUpdatedAt falls back to now for missing, invalid or future times', () => {
+    assert.equal(resolveClientUpdatedAt(undefined, now), now)
+    assert.equal(resolveClientUpdatedAt('not a date', now), now)
+    assert.equal(resolveClientUpdatedAt({}, now), now)
+    assert.equal(resolveClientUpdatedAt('2026-06-01T10:05:00.000Z', now), now)
+})
+
+test('isStaleAutosave keeps the newest edit', () => {
+    const stored = new Date('2026-06-01T09:59:00.000Z')
+    assert.equal(isStaleAutosave(stored, new Date('2026-06-01T09:58:00.000Z')), true)
+    assert.equal(isStaleAutosave(stored, new Date('2026-06-01T09:59:30.000Z')), false)
+    assert.equal(isStaleAutosave(stored, stored), false)
+    assert.equal(isStaleAutosave(null, stored), false)
+})
+
+test('canStoreAutosave accepts late replays of edits made before the deadline', () => {
+    const deadline = new Date('2026-06-01T09:59:30.000Z')
+    assert.equal(canStoreAutosave(null, now, now), true)
+    assert.equal(canStoreAutosave(new Date('2026-06-01T10:30:00.000Z'), now, now), true)
+    assert.equal(canStoreAutosave(deadline, new Date('2026-06-01T09:59:00.000Z'), now), true)
+    assert.equal(canStoreAutosave(deadline, now, now), false)
+    const afterGrace = new Date(deadline.getTime() + 61 * 1000)
+    assert.equal(canStoreAutosave(deadline, new Date('2026-06-01T09:59:00.000Z'), afterGrace), false)
+})
+
+type SegmentRow = { id: string; content: string; autosavedAt: Date | null; revisionCount: number }
+type SegmentWhere = { OR?: Array<{ autosavedAt: null | { lte: Date } }> }
+type SegmentData = Omit<Partial<SegmentRow>, 'revisionCount'> & { revisionCount?: { increment: number } }
+
+// Answer tables of one segment; `readBefore` runs when the segment is read, to race a concurrent save
+const createAutosaveDb = (row: SegmentRow, readBefore?: () => void) => {
+    const revisions: Array<{ sequence: number }> = []
+    const matches = (where: SegmentWhere) => !where.OR || where.OR.some((condition) =>
+        condition.autosavedAt === null ? row.autosavedAt === null : !!row.autosavedAt && row.autosavedAt <= condition.autosavedAt.lte)
+    const db = {
+        answer: { upsert: async () => ({ id: 'answer-1' }) },
+        answerSegment: {
+            findUnique: async () => {
+                const snapshot = { ...row }
+                readBefore?.()
+                return snapshot
+            },
+            findUniqueOrThrow: async () => ({ ...row }),
+            updateMany: async ({ where, data }: { where: SegmentWhere; data: Partial<SegmentRow> }) => {
+                if (!matches(where)) return { count: 0 }
+                Object.assign(row, data)
+                return { count: 1 }
+            },
+            update: async ({ data: { revisionCount, ...data } }: { data: SegmentData }) => {
+                Object.assign(row, data, { revisionCount: row.revisionCount + (revisionCount?.increment ?? 0) })
+                return { ...row }
+            },
+        },
+        answerRevision: {
+            create: async ({ data }: { data: { sequence: number } }) => {
+                // Unique (answerSegmentId, sequence)
+                if (revisions.some((revision) => revision.sequence === data.sequence)) {
+                    throw new Error('Unique constraint failed on the fields: (`answerSegmentId`,`sequence`)')
+                }
+                revisions.push(data)
+                return data
+            },
+        },
+    }
+    return { db: db as unknown as Parameters<typeof saveAnswerSegment>[0], revisions }
+}
+
+test('saveAnswerSegment does not overwrite a newer save that lands after its read', async () => {
+    const row = { id: 'segment-row-1', content: 'v1', autosavedAt: new Date('2026-06-01T09:58:00.000Z'), revisionCount: 1 }
+    const { db, revisions } = createAutosaveDb(row, () => {
+        Object.assign(row, { content: 'v3', autosavedAt: new Date('2026-06-01T09:59:30.000Z'), revisionCount: 2 })
+    })
+
+    const result = await saveAnswerSegment(db, {
+        attemptId: 'attempt-1',
+        questionId: 'question-1',
+        segmentId: 'segment-1',
+        content: 'v2',
+        savedAt: new Date('2026-06-01T09:59:00.000Z')
+    })
+
+    assert.equal(result.stale, true)
+    assert.equal(result.answerSegment.content, 'v3')
+    assert.equal(row.content, 'v3')
+    assert.deepEqual(revisions, [])
+})
+
+test('concurrent saves of a segment get consecutive revision sequences', async () => {
+    const row = { id: 'segment-row-1', content: 'v1', autosavedAt: new Date('2026-06-01T09:58:00.000Z'), revisionCount: 1 }
+    const { db, revisions } = createAutosaveDb(row)
+    const save = (content: string, savedAt: string) => saveAnswerSegment(db, {
+        attemptId: 'attempt-1',
+        questionId: 'question-1',
+        segmentId: 'segment-1',
+        content,
+        savedAt: new Date(savedAt)
+    })
+
+    // Both saves read revisionCount 1 before either one writes
+    const results = await Promise.all([
+        save('v2', '2026-06-01T09:59:00.000Z'),
+        save('v2 bis', '2026-06-01T09:59:10.000Z')
+    ])
+
+    assert.deepEqual(results.map((result) => result.stale), [false, false])
+    assert.deepEqual(revisions.map((revision) => revision.sequence), [2, 3])
+    assert.equal(row.revisionCount, 3)
+    assert.equal(row.content, 'v2 bis')
+})
@@ -0,0 +1,132 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { areExpressionsEquivalent, evaluateMathInput, latexToExpression } from '../lib/math/expression'
+import {
+    AUTO_SCORED_MATH_EXPRESSION,
+    AUTO_SCORED_NUMERIC,
+    getAnswerText,
+    parseNumericAnswer,
+    scoreAnswerKeyAnswers,
+    scoreMathExpressionAnswer,
+    scoreNumericAnswer,
+    validateAnswerKey,
+} from '../lib/grading/answer-key'
+import type { NumericAnswerKey } from '../types/exams'
+
+const forceKey: NumericAnswerKey = {
+    value: '{{m}} * 9.81',
+    tolerance: 1,
+    toleranceMode: 'relative',
+    units: ['N', 'kg.m/s^2'],
+    unitPenalty: 0.5,
+}
+
+test('latexToExpression rewrites MathLive output into plain expressions', () => {
+    assert.equal(evaluateMathInput(latexToExpression('\\frac{3}{4}')), 0.75)
+    assert.equal(evaluateMathInput('$\\sqrt{16}\\cdot 2$'), 8)
+    assert.equal(evaluateMathInput('\\sqrt[3]{27}'), 3)
+    assert.equal(evaluateMathInput('2x^{2}', { x: 3 }), 18)
+    assert.equal(evaluateMathInput('\\left|x\\right|', { x: -2 }), 2)
+})
+
+test('areExpressionsEquivalent accepts rewritten forms and rejects different functions', () => {
+    const options = { variables: ['x'] }
+    assert.ok(areExpressionsEquivalent('(x+1)^2', 'x^2+2x+1', options))
+    assert.ok(areExpressionsEquivalent('\\sin(2x)', '2\\sin x\\cos x', options))
+    assert.ok(areExpressionsEquivalent('\\frac{1}{x}', 'x^{-1}', options))
+    assert.ok(!areExpressionsEquivalent('x', '|x|', options))
+    assert.ok(!areExpressionsEquivalent('x^2', 'x^2 + 0.001', options))
+    assert.ok(!areExpressionsEquivalent('x^2', 'x^2 +', options))
+    assert.ok(!areExpressionsEquivalent('x^2', 'y^2', options))
+    assert.ok(areExpressionsEquivalent('a x + b', 'b + x a', { variables: ['x'], scope: { a: 3, b: -1 } }))
+})
+
+test('parseNumericAnswer reads decimal commas, powers of ten and units', () => {
+    assert.deepEqual(parseNumericAnswer('9,81 m/s^2'), { value: 9.81, unit: 'm/s^2' })
+    assert.deepEqual(parseNumericAnswer('2 \\times 10^{3} N'), { value: 2000, unit: 'N' })
+    assert.deepEqual(parseNumericAnswer('1.5e-3'), { value: 0.0015, unit: '' })
+    assert.deepEqual(parseNumericAnswer('−4'), { value: -4, unit: '' })
+    assert.deepEqual(parseNumericAnswer('\\frac{1}{4}'), { value: 0.25, unit: '' })
+    assert.equal(parseNumericAnswer('about ten'), null)
+    assert.equal(parseNumericAnswer(''), null)
+})
+
+test('scoreNumericAnswer applies tolerance, unit penalty and parameter values', () => {
+    const parameterValues = { m: 2 }
+    const exact = scoreNumericAnswer({ answerKey: forceKey, answer: '19.62 N', maxPoints: 4, parameterValues })
+    assert.equal(exact.score, 4)
+    assert.equal(exact.isCorrect, true)
+    assert.equal(exact.aiRationale, AUTO_SCORED_NUMERIC)
+
+    assert.equal(scoreNumericAnswer({ answerKey: forceKey, answer: '19,7 kg·m/s^2', maxPoints: 4, parameterValues }).score, 4)
+    assert.equal(scoreNumericAnswer({ answerKey: forceKey, answer: '20 N', maxPoints: 4, parameterValues }).score, 0)
+
+    const missingUnit = scoreNumericAnswer({ answerKey: forceKey, answer: '19.62', maxPoints: 4, parameterValues })
+    assert.equal(missingUnit.score, 2)
+    assert.equal(missingUnit.isCorrect, false)
+    assert.match(missingUnit.feedback, /manquante/)
+
+    const absolute: NumericAnswerKey = { value: '0.3', tolerance: 0, toleranceMode: 'absolute' }
+    assert.equal(scoreNumericAnswer({ answerKey: absolute, answer: '0.1 + 0.2', maxPoints: 1 }).score, 1)
+    assert.equal(scoreNumericAnswer({ answerKey: absolute, answer: '', maxPoints: 1 }).feedback, 'Aucune réponse.')
+})
+
+test('scoreMathExpressionAnswer substitutes parameters in the reference and the answer', () => {
+    const answerKey = { expression: '{{a}}x^2 + {{b}}', variables: ['x'] }
+    const parameterValues = { a: 3, b: 5 }
+    const result = scoreMathExpressionAnswer({ answerKey, answer: '5 + 3x\\cdot x', maxPoints: 2, parameterValues })
+    assert.equal(result.score, 2)
+    assert.equal(result.aiRationale, AUTO_SCORED_MATH_EXPRESSION)
+    assert.equal(scoreMathExpressionAnswer({ answerKey, answer: '3x^2 + 4', maxPoints: 2, parameterValues }).score, 0)
+})
+
+test('validateAnswerKey reports keys that cannot score answers', () => {
+    assert.equal(validateAnswerKey('NUMERIC', forceKey, { m: 1 }), null)
+    assert.match(validateAnswerKey('NUMERIC', forceKey) ?? '', /Unknown variable/)
+    assert.match(validateAnswerKey('NUMERIC', { value: '1', tolerance: -1, toleranceMode: 'absolute' }) ?? '', /Invalid/)
+    assert.match(validateAnswerKey('MATH_EXPRESSION', { expression: 'x +', variables: ['x'] }) ?? '', /cannot be evaluated/)
+    assert.equal(validateAnswerKey('TEXT', null), null)
+})
+
+test('scoreAnswerKeyAnswers scores only answer-key questions with the attempt draw', () => {
+    const attempt = { examId: 'exam', studentId: 'student', parameterValues: { q1: { m: 3 } } }
+    const scores = scoreAnswerKeyAnswers(
+        [
+            {
+                id: 'answer-1',
+                segments: [{ content: '29.43 N' }],
+                question: {
+                    id: 'q1',
+                    type: 'NUMERIC',
+                    answerKey: forceKey,
+                    parameters: [{ name: 'm', type: 'range', min: 1, max: 5 }],
+                    segments: [{ maxPoints: 3 }],
+                },
+            },
+            {
+                id: 'answer-2',
+                segments: [{ content: JSON.stringify([{ id: 's', type: 'math', latex: '\\frac{x}{2}' }]) }],
+                question: {
+                    id: 'q2',
+                    type: 'MATH_EXPRESSION',
+                    answerKey: { expression: '0.5x', variables: ['x'] },
+                    segments: [{ maxPoints: 2 }],
+                },
+            },
+            {
+                id: 'answer-3',
+                segments: [{ content: '42' }],
+                question: { id: 'q3', type: 'TEXT', segments: [{ maxPoints: 5 }] },
+            },
+        ],
+        attempt
+    )
+    assert.deepEqual(
+        scores.map(({ answerId, score }) => ({ answerId, score })),
+        [
+            { answerId: 'answer-1', score: 3 },
+            { answerId: 'answer-2', score: 2 },
+        ]
+    )
+    assert.equal(getAnswerText(JSON.stringify([{ type: 'text', text: 'x =' }, { type: 'math', latex: '2' }])), 'x = 2')
+})
@@ -0,0 +1,79 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    REVISION_SNAPSHOT_INTERVAL,
+    applyRevisionDiff,
+    computeRevisionDiff,
+    getRevisionContent,
+    isRevisionDiff,
+    rebuildRevisionContents,
+    shouldStoreRevisionSnapshot,
+    type StoredRevision,
+} from '../lib/answerRevisions'
+
+// Revisions as saveAnswerSegment stores them
+const storeRevisions = (contents: string[]): StoredRevision[] => {
+    let previous = ''
+    return contents.map((content, index) => {
+        const sequence = index + 1
+        const revision = {
+            sequence,
+            diff: computeRevisionDiff(previous, content),
+            snapshot: shouldStoreRevisionSnapshot(sequence) ? content : null,
+        }
+        previous = content
+        return revision
+    })
+}
+
+test('computeRevisionDiff keeps only the changed range', () => {
+    assert.deepEqual(computeRevisionDiff('', 'abc'), [0, 0, 'abc'])
+    assert.deepEqual(computeRevisionDiff('le chat dort', 'le chien dort'), [5, 2, 'ien'])
+    assert.deepEqual(computeRevisionDiff('abcabc', 'abc'), [3, 3, ''])
+    assert.deepEqual(computeRevisionDiff('same', 'same'), [4, 0, ''])
+})
+
+test('applyRevisionDiff rebuilds the next content', () => {
+    const pairs: Array<[string, string]> = [
+        ['', 'def f(x):\n    return x'],
+        ['def f(x):\n    return x', 'def f(x):\n    return x * 2'],
+        ['aaaa', 'aa'],
+        ['[{"type":"text","text":"Bonjour"}]', '[{"type":"text","text":"Bonjour à tous"}]'],
+    ]
+    for (const [previous, next] of pairs) {
+        assert.equal(applyRevisionDiff(previous, computeRevisionDiff(previous, next)), next)
+    }
+})
+
+test('computeRevisionDiff does not split surrogate pairs', () => {
+    const diff = computeRevisionDiff('a😀', 'a😃')
+    assert.deepEqual(diff, [1, 2, '😃'])
+    assert.equal(applyRevisionDiff('a😀', diff), 'a😃')
+    assert.equal(JSON.parse(JSON.stringify(diff))[2], '😃')
+})
+
+test('isRevisionDiff rejects malformed stored diffs', () => {
+    assert.equal(isRevisionDiff([0, 0, 'a']), true)
+    assert.equal(isRevisionDiff([-1, 0, 'a']), false)
+    assert.equal(isRevisionDiff([0, 0]), false)
+    assert.equal(isRevisionDiff({ start: 0 }), false)
+})
+
+test('a snapshot is stored on the first revision and then periodically', () => {
+    assert.equal(shouldStoreRevisionSnapshot(1), true)
+    assert.equal(shouldStoreRevisionSnapshot(2), false)
+    assert.equal(shouldStoreRevisionSnapshot(REVISION_SNAPSHOT_INTERVAL + 1), true)
+})
+
+test('every version of an answer is rebuilt from the stored revisions', () => {
+    const contents = Array.from({ length: REVISION_SNAPSHOT_INTERVAL + 10 }, (_, index) => 'x'.repeat(index + 1))
+    contents[20] = 'réécrit'
+    const revisions = storeRevisions(contents)
+
+    assert.deepEqual(rebuildRevisionContents([...revisions].reverse()).map(revision => revision.content), contents)
+    assert.equal(getRevisionContent(revisions, 21), 'réécrit')
+    assert.equal(getRevisionContent(revisions, contents.length), contents[contents.length - 1])
+    // From the closest snapshot only
+    assert.equal(getRevisionContent(revisions.slice(REVISION_SNAPSHOT_INTERVAL), REVISION_SNAPSHOT_INTERVAL + 5), contents[REVISION_SNAPSHOT_INTERVAL + 4])
+    assert.equal(getRevisionContent(revisions, contents.length + 1), null)
+})
@@ -0,0 +1,62 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { computeAntiCheatScore } from '../lib/antiCheat'
+import { applySessionHeartbeat, type AttemptSession } from '../lib/proctoring/sessions'
+import { DEFAULT_ANTI_CHEAT_CONFIG, normalizeAntiCheatConfig } from '../lib/proctoring/types'
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 9, 0, seconds))
+
+const heartbeats = (beats: Array<[string, number]>) => {
+    let sessions: Record<string, AttemptSession> = {}
+    const reports: Array<string[] | null> = []
+    for (const [sessionId, seconds] of beats) {
+        const result = applySessionHeartbeat(sessions, sessionId, at(seconds))
+        sessions = result.sessions
+        reports.push(result.concurrentSessionIds)
+    }
+    return reports
+}
+
+test('a reloaded exam page is not a second session', () => {
+    const reports = heartbeats([['page-1', 0], ['page-1', 20], ['page-2', 25], ['page-2', 45], ['page-2', 65]])
+    assert.deepEqual(reports, [null, null, null, null, null])
+})
+
+test('two pages sending heartbeats side by side are reported once', () => {
+    const reports = heartbeats([
+        ['page-1', 0], ['page-2', 10], ['page-1', 20], ['page-2', 30], ['page-1', 40], ['page-2', 50],
+    ])
+    assert.deepEqual(reports, [null, null, ['page-2'], null, null, null])
+})
+
+test('a third page opened later is reported again', () => {
+    const reports = heartbeats([
+        ['page-1', 0], ['page-2', 10], ['page-1', 20], ['page-3', 30], ['page-2', 40],
+    ])
+    assert.deepEqual(reports, [null, null, ['page-2'], null, ['page-1', 'page-3']])
+})
+
+test('a session silent for longer than the presence timeout is not concurrent', () => {
+    const reports = heartbeats([['page-1', 0], ['page-1', 10], ['page-2', 120], ['page-2', 140]])
+    assert.deepEqual(reports, [null, null, null, null])
+})
+
+test('stored anti-cheat configurations get the defaults of newer options', () => {
+    assert.deepEqual(normalizeAntiCheatConfig(null), DEFAULT_ANTI_CHEAT_CONFIG)
+    assert.deepEqual(normalizeAntiCheatConfig({ webcamDeterrent: true, browserLockdown: true }), {
+        webcamDeterrent: true,
+        browserLockdown: true,
+        requireFullscreen: false,
+        inactivityMinutes: 0,
+    })
+    assert.deepEqual(normalizeAntiCheatConfig({ requireFullscreen: true, inactivityMinutes: -3 }), {
+        ...DEFAULT_ANTI_CHEAT_CONFIG,
+        requireFullscreen: true,
+    })
+    assert.equal(normalizeAntiCheatConfig({ inactivityMinutes: 5 }).inactivityMinutes, 5)
+})
+
+test('fullscreen exits, inactivity and concurrent sessions add to the score', () => {
+    assert.equal(computeAntiCheatScore({ eventCounts: { FOCUS_LOST: 1, TAB_SWITCH: 1 } }), 5)
+    assert.equal(computeAntiCheatScore({ eventCounts: { FULLSCREEN_EXIT: 2, INACTIVITY: 3, MULTI_SESSION: 1 } }), 17)
+})
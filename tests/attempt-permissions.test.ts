@@ -116,6 +116,30 @@ test('canAccessAttemptAction blocks teacher posting proctor events', () => {
     assert.equal(allowed, false)
 })
 
+test('canAccessAttemptAction lets only teachers of the exam intervene on an attempt', () => {
+    const teacher = { id: 'teacher-1', role: 'TEACHER', institutionId: 'inst-1' }
+    assert.equal(canAccessAttemptAction('intervene', { ...baseContext, sessionUser: teacher }), true)
+    assert.equal(canAccessAttemptAction('intervene', { ...baseContext, sessionUser: teacher, teacherCanAccess: false }), false)
+    assert.equal(canAccessAttemptAction('intervene', {
+        ...baseContext,
+        sessionUser: { id: 'student-1', role: 'STUDENT', institutionId: 'inst-1' }
+    }), false)
+})
+
+test('canAccessAttemptAction keeps restoring an answer revision to the exam staff', () => {
+    const teacher = { id: 'teacher-1', role: 'TEACHER', institutionId: 'inst-1' }
+    assert.equal(canAccessAttemptAction('restoreAnswer', { ...baseContext, sessionUser: teacher }), true)
+    assert.equal(canAccessAttemptAction('restoreAnswer', { ...baseContext, sessionUser: teacher, teacherCanAccess: false }), false)
+    assert.equal(canAccessAttemptAction('restoreAnswer', {
+        ...baseContext,
+        sessionUser: { id: 'admin-1', role: 'SCHOOL_ADMIN', institutionId: 'inst-1' }
+    }), true)
+    assert.equal(canAccessAttemptAction('restoreAnswer', {
+        ...baseContext,
+        sessionUser: { id: 'student-1', role: 'STUDENT', institutionId: 'inst-1' }
+    }), false)
+})
+
 test('canAccessAttemptAction allows student to view results for own attempt', () => {
     const allowed = canAccessAttemptAction('viewResults', {
         ...baseContext,
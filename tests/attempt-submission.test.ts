@@ -0,0 +1,81 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+
+test('a second concurrent submission of the same attempt is a no-op', async () => {
+    const stored = { id: 'attempt-1', status: 'IN_PROGRESS', submittedAt: null as Date | null }
+    const gradingTasks: string[] = []
+    const published: string[] = []
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            const tx = {
+                attempt: {
+                    updateMany: async ({ where, data }: { where: { id: string; status: string }; data: { status: string; submittedAt: Date } }) => {
+                        if (stored.id !== where.id || stored.status !== where.status) return { count: 0 }
+                        Object.assign(stored, data)
+                        return { count: 1 }
+                    },
+                    findUniqueOrThrow: async () => ({ ...stored }),
+                },
+                grade: { findUnique: async () => null, create: async () => ({}) },
+                gradingTask: {
+                    create: async ({ data }: { data: { attemptId: string } }) => {
+                        gradingTasks.push(data.attemptId)
+                        return {}
+                    },
+                },
+            }
+            return { prisma: { $transaction: async (run: (client: typeof tx) => Promise<unknown>) => run(tx) } }
+        }
+        if (request === '@/lib/proctoring/liveBus') {
+            return {
+                publishProctorMessage: async (_examId: string, message: { attemptId: string }) => {
+                    published.push(message.attemptId)
+                },
+            }
+        }
+        if (request === '@/lib/grading/code-jobs') {
+            return { enqueueCodeGrading: async () => 0, isCodeGradingAvailable: () => true }
+        }
+        if (request === '@/lib/actions/exam-taking') {
+            return { scoreMultipleChoiceAnswer: async () => ({ score: 0, isCorrect: false }) }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { finalizeAttemptSubmission } = await import('../lib/attempt-submission')
+        // Both requests loaded the attempt while it was still in progress
+        const attempt = {
+            id: 'attempt-1',
+            examId: 'exam-1',
+            status: 'IN_PROGRESS',
+            questionSelection: null,
+            parameterValues: null,
+            exam: { sections: [] },
+            answers: [{ id: 'answer-1', segments: [], question: { id: 'question-1', type: 'TEXT', segments: [] } }],
+        } as unknown as Parameters<typeof finalizeAttemptSubmission>[0]
+
+        const [first, second] = await Promise.all([
+            finalizeAttemptSubmission(attempt),
+            finalizeAttemptSubmission(attempt),
+        ])
+
+        assert.equal([first, second].filter(Boolean).length, 1)
+        assert.equal(stored.status, 'SUBMITTED')
+        assert.deepEqual(gradingTasks, ['attempt-1'])
+        assert.deepEqual(published, ['attempt-1'])
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
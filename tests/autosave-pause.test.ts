@@ -0,0 +1,127 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+import { ensureAttemptNonce } from '../lib/attemptIntegrity'
+
+const env = process.env as Record<string, string | undefined>
+
+test('an autosave refused while paused is stored when replayed after the resume', async () => {
+    env.NODE_ENV = 'test'
+    env.RATE_LIMIT_ENABLED = 'false'
+    delete env.REDIS_URL
+
+    const attempt = {
+        id: 'attempt-paused',
+        studentId: 'student-1',
+        examId: 'exam-1',
+        status: 'IN_PROGRESS',
+        startedAt: new Date(Date.now() - 10 * 60 * 1000),
+        pausedAt: new Date(Date.now() - 60 * 1000) as Date | null,
+        pausedSeconds: 0,
+        extensionMinutes: 0,
+        questionSelection: null,
+        exam: {
+            id: 'exam-1',
+            status: 'PUBLISHED',
+            durationMinutes: 60,
+            startAt: new Date(Date.now() - 60 * 60 * 1000),
+        },
+    }
+    const saved: Array<{ segmentId: string; content: string }> = []
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            return {
+                prisma: {
+                    attempt: { findUnique: async () => attempt },
+                    questionSegment: {
+                        findUnique: async () => ({
+                            question: { id: 'question-1', sectionId: 'section-1', section: { examId: 'exam-1' } }
+                        })
+                    }
+                }
+            }
+        }
+        if (request === '@/lib/api-auth') {
+            return {
+                getAuthSession: async () => ({
+                    user: { id: 'student-1', role: 'STUDENT', institutionId: 'inst-1' }
+                }),
+                isStudent: () => true
+            }
+        }
+        if (request === '@/lib/attemptPermissions') {
+            return {
+                assertAttemptContentEditable: async () => undefined,
+                AttemptNotEditableError: class extends Error {},
+                canReadAttempt: () => true
+            }
+        }
+        if (request === '@/lib/accommodations') {
+            return {
+                getStudentExamWindow: async () => ({
+                    startAt: attempt.exam.startAt,
+                    endAt: null,
+                    durationMinutes: 60,
+                    lateStartGraceMinutes: 0
+                })
+            }
+        }
+        if (request === '@/lib/answerAutosave') {
+            const actual = originalLoad(path.join(process.cwd(), '.test-dist', 'lib', 'answerAutosave'), parent, isMain) as object
+            return {
+                ...actual,
+                saveAnswerSegment: async (_db: unknown, write: { segmentId: string; content: string }) => {
+                    saved.push({ segmentId: write.segmentId, content: write.content })
+                    return { answerSegment: { id: 'answer-segment-1', content: write.content }, stale: false }
+                }
+            }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { PUT } = await import('../app/api/attempts/[id]/route')
+        const nonce = await ensureAttemptNonce(attempt.id)
+        const sendEdit = () => PUT(
+            new Request(`https://example.com/api/attempts/${attempt.id}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-attempt-nonce': nonce,
+                    // The client keeps the request id of an edit refused with 423
+                    'x-request-id': 'journal-request-1'
+                },
+                body: JSON.stringify({ questionId: 'question-1', segmentId: 'segment-1', content: 'written during the pause' })
+            }) as never,
+            { params: Promise.resolve({ id: attempt.id }) }
+        )
+
+        const paused = await sendEdit()
+        assert.equal(paused.status, 423)
+        assert.equal(saved.length, 0)
+
+        attempt.pausedAt = null
+        const resumed = await sendEdit()
+        assert.equal(resumed.status, 200)
+        const body = await resumed.json()
+        assert.equal(body.replay, undefined)
+        assert.deepEqual(saved, [{ segmentId: 'segment-1', content: 'written during the pause' }])
+
+        // A second copy of the stored edit is still a no-op
+        const duplicate = await sendEdit()
+        assert.equal((await duplicate.json()).replay, true)
+        assert.equal(saved.length, 1)
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
@@ -0,0 +1,75 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    MAX_GOLDEN_SET_SIZE,
+    WORST_DISAGREEMENT_COUNT,
+    computeCalibrationReport,
+    sampleGoldenSet,
+    type CalibrationResult,
+} from '../lib/grading/calibration'
+
+const result = (answerId: string, questionId: string, teacherScore: number, aiScore: number, maxPoints = 4): CalibrationResult => ({
+    answerId,
+    attemptId: `attempt-${answerId}`,
+    questionId,
+    questionLabel: questionId.toUpperCase(),
+    maxPoints,
+    teacherScore,
+    aiScore,
+    aiFeedback: '',
+    aiRationale: '',
+})
+
+test('calibration report measures the AI error and bias against teachers', () => {
+    const report = computeCalibrationReport([
+        result('a1', 'q1', 2, 3),
+        result('a2', 'q1', 4, 4),
+        result('a3', 'q2', 3, 0),
+    ], 0.3)
+
+    assert.equal(report.count, 3)
+    assert.equal(report.meanAbsoluteError, 4 / 3)
+    assert.equal(report.bias, -2 / 3)
+    assert.equal(report.agreementRate, 2 / 3)
+    assert.equal(report.tolerance, 0.3)
+
+    assert.deepEqual(report.perQuestion.map((question) => [question.questionId, question.count, question.bias]), [
+        ['q1', 2, 0.5],
+        ['q2', 1, -3],
+    ])
+})
+
+test('worst disagreements are ordered by relative gap and skip exact matches', () => {
+    const report = computeCalibrationReport([
+        result('small', 'q1', 2, 3, 10),
+        result('exact', 'q1', 2, 2, 10),
+        result('large', 'q2', 1, 3, 4),
+    ], 0.2)
+    assert.deepEqual(report.worst.map((r) => r.answerId), ['large', 'small'])
+
+    const many = Array.from({ length: 8 }, (_, i) => result(`a${i}`, 'q1', 0, i + 1, 10))
+    assert.equal(computeCalibrationReport(many, 0.2).worst.length, WORST_DISAGREEMENT_COUNT)
+})
+
+test('an empty calibration has no statistics', () => {
+    const report = computeCalibrationReport([], 0.2)
+    assert.equal(report.count, 0)
+    assert.equal(report.meanAbsoluteError, null)
+    assert.equal(report.bias, null)
+    assert.deepEqual(report.perQuestion, [])
+    assert.deepEqual(report.worst, [])
+})
+
+test('golden set samples each question and stays under the size cap', () => {
+    const answers = [
+        ...Array.from({ length: 5 }, (_, i) => ({ id: `q1-${i}`, questionId: 'q1' })),
+        ...Array.from({ length: 2 }, (_, i) => ({ id: `q2-${i}`, questionId: 'q2' })),
+    ]
+    const sample = sampleGoldenSet(answers, 3, () => 0)
+    assert.equal(sample.filter((answer) => answer.questionId === 'q1').length, 3)
+    assert.equal(sample.filter((answer) => answer.questionId === 'q2').length, 2)
+    assert.equal(new Set(sample.map((answer) => answer.id)).size, sample.length)
+
+    const large = Array.from({ length: 80 }, (_, i) => ({ id: String(i), questionId: `q${i % 4}` }))
+    assert.equal(sampleGoldenSet(large, 50).length, MAX_GOLDEN_SET_SIZE)
+})
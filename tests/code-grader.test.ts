@@ -0,0 +1,84 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { outputsMatch, runCode, runTestSuite } from '../lib/grading/code-runner'
+import { buildCodeFeedback, parseCodeConfig, scoreCodeResults, toStudentCodeConfig } from '../lib/grading/code-grader'
+import { CodeRunUnavailableError, runVisibleTests } from '../lib/grading/code-jobs'
+import type { CodeQuestionConfig, CodeTestResult } from '../types/exams'
+
+const config: CodeQuestionConfig = {
+    language: 'javascript',
+    starterCode: '',
+    tests: [
+        { id: 't1', name: 'small', input: '2 3\n', expectedOutput: '5\n', hidden: false },
+        { id: 't2', input: '10 -4\n', expectedOutput: '6', hidden: true, weight: 3 },
+    ],
+    timeLimitMs: 3000,
+}
+
+const sumProgram = `
+const data = require('fs').readFileSync(0, 'utf8').trim().split(/\\s+/).map(Number)
+console.log(data[0] + data[1])
+`
+
+const result = (testId: string, passed: boolean, hidden = false): CodeTestResult => ({
+    testId,
+    hidden,
+    status: passed ? 'passed' : 'failed',
+    passed,
+    durationMs: 1,
+})
+
+test('outputsMatch ignores trailing whitespace and blank lines', () => {
+    assert.equal(outputsMatch('5  \r\n\n', '5'), true)
+    assert.equal(outputsMatch('a\nb', 'a\n b'), false)
+})
+
+test('toStudentCodeConfig strips hidden tests', () => {
+    const studentConfig = toStudentCodeConfig(config)
+    assert.deepEqual(studentConfig?.tests.map((t) => t.id), ['t1'])
+    assert.equal(studentConfig?.hiddenTestCount, 1)
+    assert.equal(toStudentCodeConfig(null), null)
+})
+
+test('parseCodeConfig rejects malformed configs', () => {
+    assert.equal(parseCodeConfig({ language: 'cobol', starterCode: '', tests: [] }), null)
+    assert.equal(parseCodeConfig(null), null)
+    assert.equal(parseCodeConfig(config)?.language, 'javascript')
+})
+
+test('scoreCodeResults weights tests and scales to maxPoints', () => {
+    assert.equal(scoreCodeResults([result('t1', true), result('t2', false, true)], config.tests, 4), 1)
+    assert.equal(scoreCodeResults([result('t1', false), result('t2', true, true)], config.tests, 4), 3)
+    assert.equal(scoreCodeResults([], [], 4), 0)
+})
+
+test('buildCodeFeedback only counts hidden tests', () => {
+    const feedback = buildCodeFeedback([result('t1', false), { ...result('t2', false, true), name: 'secret' }])
+    assert.match(feedback, /Tests cachés : 0\/1/)
+    assert.match(feedback, /Test 1 : sortie incorrecte/)
+    assert.doesNotMatch(feedback, /secret/)
+})
+
+test('runTestSuite runs only visible tests unless asked for hidden ones', async () => {
+    const visible = await runTestSuite(config, sumProgram, { includeHidden: false })
+    assert.deepEqual(visible.map((r) => [r.testId, r.status]), [['t1', 'passed']])
+
+    const all = await runTestSuite(config, sumProgram, { includeHidden: true })
+    assert.deepEqual(all.map((r) => r.status), ['passed', 'passed'])
+})
+
+test('runCode reports runtime errors', async () => {
+    const run = await runCode({ language: 'javascript', code: 'throw new Error("boom")', input: '' })
+    assert.notEqual(run.exitCode, 0)
+    assert.match(run.stderr, /boom/)
+})
+
+test('runCode kills programs that exceed the time limit', async () => {
+    const run = await runCode({ language: 'javascript', code: 'while (true) {}', input: '', timeLimitMs: 300 })
+    assert.equal(run.timedOut, true)
+})
+
+test('runVisibleTests never runs student code without the code-grading worker', async () => {
+    // REDIS_URL is not set in tests: no queue, no local fallback
+    await assert.rejects(runVisibleTests('question-1', 'console.log(1)'), CodeRunUnavailableError)
+})
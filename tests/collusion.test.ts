@@ -0,0 +1,106 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    analyzeCollusion,
+    clusterPairs,
+    getJaccardSimilarity,
+    getMinHashSignature,
+    getShingles,
+    normalizeCode,
+    normalizeText,
+    type CollusionAttempt,
+} from '../lib/proctoring/collusion'
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 9, minutes))
+
+const textAttempt = (attemptId: string, text: string, extra: Partial<CollusionAttempt> = {}): CollusionAttempt => ({
+    attemptId,
+    answers: [{ questionId: 'q-text', text, savedAt: at(30) }],
+    externalPastes: [],
+    ...extra,
+})
+
+const ESSAY = 'La photosynthèse transforme l’énergie lumineuse en énergie chimique grâce à la chlorophylle présente dans les chloroplastes des cellules végétales'
+
+test('text is compared without case, accents or punctuation', () => {
+    assert.deepEqual(normalizeText('Énergie, LUMINEUSE!'), ['energie', 'lumineuse'])
+    const a = getShingles(normalizeText(ESSAY), 3)
+    const b = getShingles(normalizeText(ESSAY.toUpperCase()), 3)
+    assert.equal(getJaccardSimilarity(a, b), 1)
+    assert.deepEqual(getMinHashSignature(a), getMinHashSignature(b))
+})
+
+test('renamed variables and comments do not hide copied code', () => {
+    const original = 'def total(values):\n    # sum them\n    result = 0\n    for v in values:\n        result += v\n    return result'
+    const renamed = 'def somme(liste):\n    s = 0  // accumulator\n    for x in liste:\n        s += x\n    return s'
+    assert.deepEqual(normalizeCode(original), normalizeCode(renamed))
+    assert.deepEqual(normalizeCode('print("a", 3.5)'), ['ID', '(', 'STR', ',', 'NUM', ')'])
+})
+
+test('near identical essays are reported and correlated with an external paste', () => {
+    const report = analyzeCollusion(
+        [{ id: 'q-text', type: 'TEXT' }],
+        [
+            textAttempt('a1', ESSAY),
+            textAttempt('a2', `${ESSAY} mais aussi dans les algues`, { externalPastes: [at(29)] }),
+            textAttempt('a3', 'Les plantes produisent du sucre à partir de la lumière du soleil, de l’eau et du dioxyde de carbone'),
+        ]
+    )
+
+    assert.equal(report.comparedAttempts, 3)
+    assert.equal(report.pairs.length, 1)
+    const [pair] = report.pairs
+    assert.deepEqual(pair.attemptIds, ['a1', 'a2'])
+    assert.equal(pair.evidence[0].kind, 'TEXT')
+    assert.ok(pair.evidence[0].similarity >= 0.7)
+    assert.equal(pair.evidence[0].pasteCorrelated, true)
+    assert.ok(pair.score >= 13)
+    assert.deepEqual(report.clusters, [{ attemptIds: ['a1', 'a2'], pairCount: 1, maxScore: pair.score }])
+})
+
+test('passages common to most answers are not counted as copies', () => {
+    const template = 'def solve(values):\n    result = 0\n    for value in values:\n        result += value\n    return result'
+    const attempts = ['a1', 'a2', 'a3', 'a4'].map((attemptId) => ({
+        attemptId,
+        answers: [{ questionId: 'q-code', text: template, savedAt: at(10) }],
+        externalPastes: [],
+    }))
+    const report = analyzeCollusion([{ id: 'q-code', type: 'CODE' }], attempts)
+    assert.equal(report.pairs.length, 0)
+})
+
+test('shared uncommon wrong choices are reported from three questions on', () => {
+    const questions = ['m1', 'm2', 'm3', 'm4'].map((id) => ({ id, type: 'MCQ' as const, correctOptionIds: [`${id}-ok`] }))
+    const choices = (attemptId: string, picks: string[]): CollusionAttempt => ({
+        attemptId,
+        answers: picks.map((pick, index) => ({ questionId: questions[index].id, selectedOptionIds: [pick], savedAt: null })),
+        externalPastes: [],
+    })
+
+    const report = analyzeCollusion(questions, [
+        choices('a1', ['m1-b', 'm2-c', 'm3-d', 'm4-x']),
+        choices('a2', ['m1-b', 'm2-c', 'm3-d', 'm4-x']),
+        // A single shared uncommon mistake
+        choices('a3', ['m1-e', 'm2-ok', 'm3-ok', 'm4-x']),
+        choices('a4', ['m1-e', 'm2-e', 'm3-ok', 'm4-x']),
+        ...['a5', 'a6', 'a7', 'a8'].map((attemptId) => choices(attemptId, ['m1-ok', 'm2-ok', 'm3-ok', 'm4-ok'])),
+    ])
+
+    // m4-x is a common mistake and says nothing about a1 and a2
+    assert.equal(report.pairs.length, 1)
+    assert.deepEqual(report.pairs[0].attemptIds, ['a1', 'a2'])
+    assert.deepEqual(report.pairs[0].evidence.map((evidence) => evidence.questionId), ['m1', 'm2', 'm3'])
+    assert.equal(report.pairs[0].score, 6)
+})
+
+test('pairs sharing a student are grouped in one cluster', () => {
+    const clusters = clusterPairs([
+        { attemptIds: ['a', 'b'], score: 12, evidence: [] },
+        { attemptIds: ['b', 'c'], score: 20, evidence: [] },
+        { attemptIds: ['x', 'y'], score: 8, evidence: [] },
+    ])
+    assert.deepEqual(clusters, [
+        { attemptIds: ['a', 'b', 'c'], pairCount: 2, maxScore: 20 },
+        { attemptIds: ['x', 'y'], pairCount: 1, maxScore: 8 },
+    ])
+})
@@ -0,0 +1,80 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    alignCriterionScores,
+    clampCriterionResults,
+    parseCriterionResults,
+    parseRubricCriteria,
+    scoreFromCriteria,
+    toggleCriterion,
+} from '../lib/grading/criteria'
+import { buildGradingUserPrompt } from '../lib/grading/prompts'
+
+const rubric = {
+    criteria: [
+        { name: 'Methode', points: 2, description: 'Demarche correcte' },
+        { name: 'Resultat', points: 1, description: 'Valeur finale juste' },
+    ],
+    totalPoints: 3,
+}
+
+test('rubric criteria are read from a generated rubric', () => {
+    assert.equal(parseRubricCriteria(rubric)?.length, 2)
+    assert.equal(parseRubricCriteria({ criteria: [], totalPoints: 0 }), null)
+    assert.equal(parseRubricCriteria('Points maximum: 3'), null)
+    assert.equal(parseRubricCriteria(null), null)
+})
+
+test('AI criterion scores are matched by name, then position, and clamped', () => {
+    const results = alignCriterionScores(rubric.criteria, [
+        { criterion: ' resultat ', score: 5, justification: 'Valeur juste' },
+        { criterion: 'Demarche', score: 1.5, justification: 'Une etape manque' },
+    ])
+    assert.deepEqual(results.map((result) => [result.name, result.points, result.justification]), [
+        ['Methode', 1.5, 'Une etape manque'],
+        ['Resultat', 1, 'Valeur juste'],
+    ])
+
+    const skipped = alignCriterionScores(rubric.criteria, [{ criterion: 'Methode', score: -1, justification: '' }])
+    assert.deepEqual(skipped.map((result) => result.points), [0, 0])
+})
+
+test('the score is the sum of the criteria, scaled to the question points', () => {
+    const results = alignCriterionScores(rubric.criteria, [
+        { criterion: 'Methode', score: 2, justification: '' },
+        { criterion: 'Resultat', score: 0, justification: '' },
+    ])
+    assert.equal(scoreFromCriteria(results, 3), 2)
+    assert.equal(scoreFromCriteria(results, 6), 4)
+    assert.equal(scoreFromCriteria([], 3), 0)
+})
+
+test('toggling a criterion gives or removes all its points', () => {
+    const results = alignCriterionScores(rubric.criteria, [
+        { criterion: 'Methode', score: 1, justification: '' },
+        { criterion: 'Resultat', score: 1, justification: '' },
+    ])
+    assert.deepEqual(toggleCriterion(results, 0).map((result) => result.points), [2, 1])
+    assert.deepEqual(toggleCriterion(results, 1).map((result) => result.points), [1, 0])
+    assert.deepEqual(clampCriterionResults([{ ...results[0], points: 7 }]).map((result) => result.points), [2])
+})
+
+test('stored criterion results are validated', () => {
+    const stored = [{ name: 'Methode', maxPoints: 2, points: 2, justification: 'ok' }]
+    assert.deepEqual(parseCriterionResults(stored), stored)
+    assert.equal(parseCriterionResults([]), null)
+    assert.equal(parseCriterionResults([{ name: 'Methode' }]), null)
+    assert.equal(parseCriterionResults(null), null)
+})
+
+test('buildGradingUserPrompt asks for a score per criterion', () => {
+    const prompt = buildGradingUserPrompt({
+        question: 'Compute 4^2 + 1',
+        rubric: JSON.stringify(rubric),
+        studentAnswer: '17',
+        maxPoints: 3,
+        criteria: rubric.criteria,
+    })
+    assert.match(prompt, /1\. Methode \(2 points\)\n2\. Resultat \(1 points\)/)
+    assert.match(prompt, /critere par critere/)
+})
@@ -0,0 +1,56 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    DEFAULT_DIVERGENCE_THRESHOLD,
+    computeAgreementStats,
+    getDivergenceThreshold,
+    isDivergent,
+    sampleAttemptIds,
+} from '../lib/grading/inter-rater'
+
+test('divergence threshold comes from the grading config', () => {
+    assert.equal(getDivergenceThreshold(null), DEFAULT_DIVERGENCE_THRESHOLD)
+    assert.equal(getDivergenceThreshold({ doubleGradingThreshold: 0.1 }), 0.1)
+    assert.equal(getDivergenceThreshold({ doubleGradingThreshold: 3 }), 1)
+    assert.equal(getDivergenceThreshold({ doubleGradingThreshold: '0.1' }), DEFAULT_DIVERGENCE_THRESHOLD)
+})
+
+test('a gap above the threshold share of the question points is divergent', () => {
+    assert.equal(isDivergent({ first: 4, second: 6, maxPoints: 10 }, 0.2), false)
+    assert.equal(isDivergent({ first: 3, second: 6, maxPoints: 10 }, 0.2), true)
+})
+
+test('agreement statistics summarize the pairs of independent grades', () => {
+    const stats = computeAgreementStats([
+        { first: 2, second: 2, maxPoints: 4 },
+        { first: 4, second: 3, maxPoints: 4 },
+        { first: 0, second: 2, maxPoints: 4 },
+    ], 0.3)
+
+    assert.equal(stats.pairCount, 3)
+    assert.equal(stats.meanAbsoluteDifference, 1)
+    assert.equal(stats.meanRelativeDifference, 0.25)
+    assert.equal(stats.divergentCount, 1)
+    assert.equal(stats.agreementRate, 2 / 3)
+    assert.ok(stats.correlation !== null && stats.correlation > 0)
+
+    assert.deepEqual(computeAgreementStats([], 0.2), {
+        pairCount: 0,
+        meanAbsoluteDifference: null,
+        meanRelativeDifference: null,
+        agreementRate: null,
+        divergentCount: 0,
+        correlation: null,
+    })
+})
+
+test('samples draw the requested share of distinct attempts', () => {
+    const ids = Array.from({ length: 20 }, (_, index) => `a${index}`)
+    const sample = sampleAttemptIds(ids, 15, () => 0.5)
+    assert.equal(sample.length, 3)
+    assert.equal(new Set(sample).size, 3)
+    assert.ok(sample.every((id) => ids.includes(id)))
+
+    assert.equal(sampleAttemptIds(ids.slice(0, 3), 1).length, 1)
+    assert.deepEqual(sampleAttemptIds([], 50), [])
+})
@@ -0,0 +1,91 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { getAttemptAdjustmentMs, getAttemptDeadline, getEffectiveExamWindow, resolveAccommodation } from '../lib/exam-time'
+
+const exam = {
+    startAt: new Date('2026-06-01T08:00:00Z'),
+    endAt: null,
+    durationMinutes: 120,
+}
+
+test('getEffectiveExamWindow returns the plain exam window without accommodation', () => {
+    const window = getEffectiveExamWindow(exam)
+    assert.equal(window.isAccommodated, false)
+    assert.equal(window.durationMinutes, 120)
+    assert.equal(window.endAt?.toISOString(), '2026-06-01T10:00:00.000Z')
+})
+
+test('getEffectiveExamWindow applies multiplier and extra minutes', () => {
+    const window = getEffectiveExamWindow(exam, { durationMultiplier: 1.33, extraMinutes: 10 })
+    // 120 * 1.33 = 159.6 -> +10 = 169.6 -> rounded up
+    assert.equal(window.durationMinutes, 170)
+    assert.equal(window.endAt?.toISOString(), '2026-06-01T10:50:00.000Z')
+    assert.equal(window.isAccommodated, true)
+})
+
+test('getEffectiveExamWindow avoids float noise on multipliers', () => {
+    const window = getEffectiveExamWindow({ ...exam, durationMinutes: 100 }, { durationMultiplier: 1.1 })
+    assert.equal(window.durationMinutes, 110)
+})
+
+test('getEffectiveExamWindow shifts the window for an individual start', () => {
+    const window = getEffectiveExamWindow(exam, { startAt: '2026-06-02T13:00:00Z' })
+    assert.equal(window.startAt?.toISOString(), '2026-06-02T13:00:00.000Z')
+    assert.equal(window.endAt?.toISOString(), '2026-06-02T15:00:00.000Z')
+})
+
+test('getEffectiveExamWindow keeps an explicit individual end', () => {
+    const window = getEffectiveExamWindow(exam, {
+        startAt: '2026-06-02T13:00:00Z',
+        endAt: '2026-06-02T18:00:00Z',
+        extraMinutes: 30,
+    })
+    assert.equal(window.endAt?.toISOString(), '2026-06-02T18:00:00.000Z')
+    assert.equal(window.durationMinutes, 150)
+})
+
+test('resolveAccommodation prefers the most specific value per field', () => {
+    const resolved = resolveAccommodation([
+        { classId: 'class-1', durationMultiplier: 1.5, lateStartGraceMinutes: 15 },
+        { userId: 'student-1', durationMultiplier: 1.33 },
+        { userId: 'student-1', examId: 'exam-1', startAt: '2026-06-02T13:00:00Z' },
+    ])
+    assert.deepEqual(resolved, {
+        durationMultiplier: 1.33,
+        startAt: '2026-06-02T13:00:00Z',
+        lateStartGraceMinutes: 15,
+    })
+})
+
+test('resolveAccommodation returns null without usable overrides', () => {
+    assert.equal(resolveAccommodation([]), null)
+    assert.equal(resolveAccommodation([{ userId: 'student-1', extraMinutes: null }]), null)
+})
+
+test('getAttemptDeadline counts the duration from the attempt start', () => {
+    const window = getEffectiveExamWindow(exam, { extraMinutes: 30 })
+    const deadline = getAttemptDeadline(window, '2026-06-01T08:00:00Z')
+    assert.equal(deadline?.toISOString(), '2026-06-01T10:30:00.000Z')
+})
+
+test('getAttemptDeadline caps late starters at the window end plus grace', () => {
+    const window = getEffectiveExamWindow(exam, { lateStartGraceMinutes: 20 })
+    const deadline = getAttemptDeadline(window, '2026-06-01T09:30:00Z')
+    assert.equal(deadline?.toISOString(), '2026-06-01T10:20:00.000Z')
+})
+
+test('getAttemptDeadline adds proctor extensions and pauses, including the current one', () => {
+    const window = getEffectiveExamWindow(exam)
+    const adjustments = {
+        extensionMinutes: 10,
+        pausedSeconds: 300,
+        pausedAt: new Date('2026-06-01T09:00:00Z'),
+    }
+    const deadline = getAttemptDeadline(window, '2026-06-01T08:00:00Z', adjustments, new Date('2026-06-01T09:02:00Z'))
+    assert.equal(deadline?.toISOString(), '2026-06-01T10:17:00.000Z')
+    assert.equal(getAttemptAdjustmentMs(null), 0)
+    assert.equal(
+        getAttemptDeadline(window, '2026-06-01T08:00:00Z', { extensionMinutes: 0, pausedSeconds: 0, pausedAt: null })?.toISOString(),
+        '2026-06-01T10:00:00.000Z'
+    )
+})
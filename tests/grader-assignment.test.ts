@@ -0,0 +1,57 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    GRADING_LOCK_TTL_MS,
+    computeGraderProgress,
+    getActiveLockHolder,
+    getAssignmentMode,
+    splitIntoBatches,
+} from '../lib/grading/assignment'
+
+test('copies are split in contiguous batches of near-equal size', () => {
+    const batches = splitIntoBatches(['a1', 'a2', 'a3', 'a4', 'a5'], ['t1', 't2'])
+    assert.deepEqual(batches.get('t1'), ['a1', 'a2', 'a3'])
+    assert.deepEqual(batches.get('t2'), ['a4', 'a5'])
+
+    assert.equal(splitIntoBatches(['a1'], []).size, 0)
+    assert.deepEqual(splitIntoBatches(['a1'], ['t1', 't2']).get('t2'), [])
+})
+
+test('assignment mode follows the scope of the tasks', () => {
+    assert.equal(getAssignmentMode([]), null)
+    assert.equal(getAssignmentMode([{ questionId: null }]), 'ATTEMPTS')
+    assert.equal(getAssignmentMode([{ questionId: 'q1' }, { questionId: 'q2' }]), 'QUESTIONS')
+})
+
+test('grader progress counts graded answers within each task scope', () => {
+    const answers = [
+        { attemptId: 'a1', questionId: 'q1', graded: true },
+        { attemptId: 'a1', questionId: 'q2', graded: false },
+        { attemptId: 'a2', questionId: 'q1', graded: true },
+        { attemptId: 'a2', questionId: 'q2', graded: true },
+    ]
+
+    const byAttempt = computeGraderProgress([
+        { assignedTo: 't1', attemptId: 'a1', questionId: null },
+        { assignedTo: 't2', attemptId: 'a2', questionId: null },
+    ], answers)
+    assert.deepEqual(byAttempt, [
+        { graderId: 't1', assigned: 2, graded: 1 },
+        { graderId: 't2', assigned: 2, graded: 2 },
+    ])
+
+    const byQuestion = computeGraderProgress([
+        { assignedTo: 't1', attemptId: 'a1', questionId: 'q2' },
+        { assignedTo: 't1', attemptId: 'a2', questionId: 'q2' },
+    ], answers)
+    assert.deepEqual(byQuestion, [{ graderId: 't1', assigned: 2, graded: 1 }])
+})
+
+test('grading locks expire when they are not renewed', () => {
+    const lockedAt = new Date('2026-06-01T10:00:00Z')
+    const lock = { gradingLockedBy: 't1', gradingLockedAt: lockedAt }
+
+    assert.equal(getActiveLockHolder(lock, new Date(lockedAt.getTime() + 1000)), 't1')
+    assert.equal(getActiveLockHolder(lock, new Date(lockedAt.getTime() + GRADING_LOCK_TTL_MS)), null)
+    assert.equal(getActiveLockHolder({ gradingLockedBy: null, gradingLockedAt: null }, lockedAt), null)
+})
@@ -0,0 +1,88 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    MAX_GRADING_VISUALS,
+    renderGraphSvg,
+    segmentsToGradingText,
+    type GradingVisual,
+} from '../lib/grading/grading-visuals'
+import { buildGradingUserPrompt } from '../lib/grading/prompts'
+import { getObjectKeyFromUrl } from '../lib/storage/minio'
+import type { ContentSegment, GraphSegment } from '../types/exams'
+
+const graph: GraphSegment = {
+    id: 'g1',
+    type: 'graph',
+    axes: { xMin: -2, xMax: 2, yMin: -1, yMax: 4, showGrid: true },
+    points: [{ id: 'A', x: 1, y: 1, label: 'A' }],
+    lines: [{ id: 'd', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: 1, y: 2 }, kind: 'line' }],
+    curves: [],
+    functions: [{ id: 'f', expression: 'x^2', style: { color: 'red" onload="alert(1)' } }],
+    areas: [{ id: 'a', mode: 'under-function', functionId: 'f', domain: { min: 0, max: 1 } }],
+    texts: [{ id: 't', x: -1, y: 3, text: '<b>note</b>' }],
+}
+
+test('images and graphs are numbered across the question and the answer', () => {
+    const visuals: GradingVisual[] = []
+    const question = segmentsToGradingText([
+        { id: '1', type: 'text', text: 'Tracer ' },
+        { id: '2', type: 'math', latex: 'x^2' },
+        { id: '3', type: 'image', url: '/uploads/q.png', alt: 'Figure' },
+    ], 'question', visuals)
+    const answer = segmentsToGradingText([
+        { id: '4', type: 'table', rows: [[[{ id: '5', type: 'image', url: '/uploads/scan.png' }], [graph]]] },
+    ] as ContentSegment[], 'answer', visuals)
+
+    assert.equal(question, 'Tracer $x^2$[Image 1 : Figure]')
+    assert.match(answer, /^\[Image 2\]\t\[Graphique 3 : Graphique\./)
+    assert.deepEqual(visuals.map((visual) => [visual.label, visual.source, visual.kind]), [
+        ['Image 1', 'question', 'image'],
+        ['Image 2', 'answer', 'image'],
+        ['Graphique 3', 'answer', 'graph'],
+    ])
+})
+
+test('visuals past the limit stay in the text without being attached', () => {
+    const visuals: GradingVisual[] = []
+    const images: ContentSegment[] = Array.from({ length: MAX_GRADING_VISUALS + 1 }, (_, i) => ({
+        id: `i${i}`,
+        type: 'image',
+        url: `/uploads/${i}.png`,
+    }))
+    const text = segmentsToGradingText([...images, graph], 'answer', visuals)
+    assert.equal(visuals.length, MAX_GRADING_VISUALS)
+    assert.match(text, /\[Image non transmise\]\[Graphique : /)
+})
+
+test('graphs render to a standalone SVG without injected markup', () => {
+    const svg = renderGraphSvg(graph)
+    assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="960" height="560"/)
+    assert.match(svg, /<polyline points="[^"]+" stroke="#2563eb"/)
+    assert.match(svg, /<polygon points="[^"]+" fill="#6366f1"/)
+    assert.match(svg, /<circle cx="360" cy="168"/)
+    assert.equal((svg.match(/<line /g) ?? []).length > 3, true)
+    assert.match(svg, />&#60;b&#62;note&#60;\/b&#62;</)
+    assert.doesNotMatch(svg, /onload/)
+})
+
+test('only images uploaded to our storage are read', () => {
+    assert.equal(getObjectKeyFromUrl('/uploads/paper/scan%201.png'), 'paper/scan 1.png')
+    assert.equal(getObjectKeyFromUrl('/uploads/a/../../.env'), null)
+    assert.equal(getObjectKeyFromUrl('/uploads/a//b.png'), null)
+    assert.equal(getObjectKeyFromUrl('https://example.com/uploads/a.png'), null)
+    assert.equal(getObjectKeyFromUrl('http://localhost:9000/exam-assets/uploads/x.png?v=1'), 'uploads/x.png')
+})
+
+test('the grading prompt lists the attached images and the missing ones', () => {
+    const prompt = buildGradingUserPrompt({
+        question: 'Q',
+        rubric: 'R',
+        studentAnswer: '[Image 1]',
+        maxPoints: 2,
+        images: [{ label: 'Graphique 2', source: 'answer' }],
+        missingImages: ['Image 1'],
+    })
+    assert.match(prompt, /IMAGES JOINTES[^\n]*\n- Graphique 2 \(reponse de l'etudiant\)/)
+    assert.match(prompt, /IMAGES NON TRANSMISES \(Image 1\)/)
+    assert.doesNotMatch(buildGradingUserPrompt({ question: 'Q', rubric: 'R', studentAnswer: 'A', maxPoints: 1 }), /IMAGES/)
+})
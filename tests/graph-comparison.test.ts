@@ -0,0 +1,165 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { compareGraphs, getAreaPolygon, polygonOverlap } from '../lib/grading/graph-comparison'
+import {
+    AUTO_SCORED_GRAPH,
+    DEFAULT_GRAPH_TOLERANCES,
+    isAnswerKeyScored,
+    scoreAnswerKeyAnswers,
+    scoreGraphAnswer,
+    validateAnswerKey,
+} from '../lib/grading/answer-key'
+import { compileExpression } from '../components/exams/graph-utils'
+import type { GraphAnswerKey, GraphSegment } from '../types/exams'
+
+const graph = (overrides: Partial<GraphSegment>): GraphSegment => ({
+    id: 'g',
+    type: 'graph',
+    axes: { xMin: -5, xMax: 5, yMin: -5, yMax: 5 },
+    points: [],
+    lines: [],
+    curves: [],
+    functions: [],
+    areas: [],
+    texts: [],
+    ...overrides,
+})
+
+const reference = graph({
+    functions: [{ id: 'f', expression: 'x^2 - 1', label: 'f' }],
+    points: [{ id: 'A', x: 1, y: 0, label: 'A' }],
+    lines: [{ id: 'd', start: { type: 'coord', x: 0, y: 1 }, end: { type: 'coord', x: 1, y: 3 }, kind: 'line' }],
+    areas: [{ id: 'a', mode: 'under-function', functionId: 'f', domain: { min: 1, max: 2 } }],
+})
+
+const answerKey: GraphAnswerKey = { reference, ...DEFAULT_GRAPH_TOLERANCES }
+
+const serialize = (student: GraphSegment) => JSON.stringify([{ id: 't', type: 'text', text: 'Voici ma courbe' }, student])
+
+test('a graph equal to the reference within tolerance gets every element', () => {
+    const student = graph({
+        // Same parabola written differently, drawn as a translated x^2
+        functions: [{ id: 's1', expression: 'x^2', offsetY: -1.05 }],
+        points: [{ id: 'p', x: 1.1, y: 0.1 }],
+        // Same line through other points
+        lines: [{ id: 'l', start: { type: 'coord', x: -1, y: -1 }, end: { type: 'coord', x: 2, y: 5 }, kind: 'line' }],
+        areas: [{ id: 'b', mode: 'under-function', functionId: 's1', domain: { min: 1, max: 2 } }],
+    })
+    const comparison = compareGraphs(reference, student, DEFAULT_GRAPH_TOLERANCES)
+    assert.deepEqual(comparison.items.map((item) => item.matched), [true, true, true, true])
+    assert.equal(comparison.ratio, 1)
+})
+
+test('each missing or wrong element is itemized', () => {
+    const student = graph({
+        functions: [{ id: 's1', expression: 'x^2 + 1' }],
+        lines: [{ id: 'l', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: 1, y: 2 }, kind: 'line' }],
+    })
+    const items = compareGraphs(reference, student, DEFAULT_GRAPH_TOLERANCES).items
+    assert.deepEqual(items.map((item) => [item.kind, item.matched]), [
+        ['function', false],
+        ['point', false],
+        ['line', false],
+        ['area', false],
+    ])
+    assert.equal(items[1].detail, 'absent')
+    assert.equal(items[2].detail, 'pente correcte, mais position incorrecte')
+    assert.equal(items[3].detail, 'absente')
+
+    const steeper = graph({
+        lines: [{ id: 'l', start: { type: 'coord', x: 0, y: 1 }, end: { type: 'coord', x: 1, y: 4 }, kind: 'line' }],
+    })
+    assert.equal(compareGraphs(reference, steeper, DEFAULT_GRAPH_TOLERANCES).items[2].detail, 'pente incorrecte')
+})
+
+test('segments need both ends, rays their origin and direction', () => {
+    const segment = graph({
+        lines: [{ id: 's', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: 2, y: 2 }, kind: 'segment' }],
+    })
+    const reversed = graph({
+        lines: [{ id: 's', start: { type: 'coord', x: 2, y: 2 }, end: { type: 'coord', x: 0, y: 0 }, kind: 'segment' }],
+    })
+    const longer = graph({
+        lines: [{ id: 's', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: 3, y: 3 }, kind: 'segment' }],
+    })
+    assert.equal(compareGraphs(segment, reversed, DEFAULT_GRAPH_TOLERANCES).ratio, 1)
+    assert.equal(compareGraphs(segment, longer, DEFAULT_GRAPH_TOLERANCES).ratio, 0)
+
+    const ray = graph({
+        lines: [{ id: 'r', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: 1, y: 1 }, kind: 'ray' }],
+    })
+    const opposite = graph({
+        lines: [{ id: 'r', start: { type: 'coord', x: 0, y: 0 }, end: { type: 'coord', x: -1, y: -1 }, kind: 'ray' }],
+    })
+    assert.equal(compareGraphs(ray, opposite, DEFAULT_GRAPH_TOLERANCES).ratio, 0)
+})
+
+test('areas between two functions span their crossings', () => {
+    const between = graph({
+        functions: [{ id: 'f1', expression: 'x' }, { id: 'f2', expression: 'x^2' }],
+        areas: [{ id: 'a', mode: 'between-functions', functionId: 'f1', functionId2: 'f2' }],
+    })
+    const polygon = getAreaPolygon(between.areas[0], between)
+    assert.ok(polygon)
+    const xs = polygon.map((point) => point.x)
+    assert.ok(Math.abs(Math.min(...xs)) < 0.001)
+    assert.ok(Math.abs(Math.max(...xs) - 1) < 0.001)
+
+    const square = [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 2 }]
+    const half = [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 2 }, { x: 1, y: 2 }]
+    assert.ok(Math.abs(polygonOverlap(square, half) - 0.5) < 0.05)
+    assert.equal(polygonOverlap(square, square), 1)
+})
+
+test('graph answers are scored per element with itemized feedback', () => {
+    const student = graph({
+        functions: [{ id: 's1', expression: 'x^2-1' }],
+        points: [{ id: 'p', x: 1, y: 0 }],
+    })
+    const result = scoreGraphAnswer({ answerKey, answer: serialize(student), maxPoints: 4 })
+    assert.equal(result.score, 2)
+    assert.equal(result.isCorrect, false)
+    assert.equal(result.aiRationale, AUTO_SCORED_GRAPH)
+    const lines = result.feedback.split('\n')
+    assert.equal(lines[0], '2 élément(s) sur 4 conforme(s) à la référence.')
+    assert.equal(lines[1], '✓ Fonction f : tracée correctement.')
+    assert.equal(lines[2], '✓ Point A : placé correctement.')
+
+    const empty = scoreGraphAnswer({ answerKey, answer: JSON.stringify([{ id: 't', type: 'text', text: 'x^2-1' }]), maxPoints: 4 })
+    assert.equal(empty.score, 0)
+    assert.equal(empty.feedback, 'Aucun graphique dans la réponse.')
+})
+
+test('TEXT questions with a reference graph are scored from their answer key', () => {
+    assert.equal(isAnswerKeyScored({ type: 'TEXT', answerKey }), true)
+    assert.equal(isAnswerKeyScored({ type: 'TEXT', answerKey: null }), false)
+    assert.equal(isAnswerKeyScored({ type: 'MCQ', answerKey }), false)
+
+    const scores = scoreAnswerKeyAnswers(
+        [{
+            id: 'a1',
+            segments: [{ content: JSON.stringify([{ id: 't', type: 'text', text: 'Question a' }]) }, { content: serialize(reference) }],
+            question: { id: 'q1', type: 'TEXT', answerKey, segments: [{ maxPoints: 2 }, { maxPoints: 2 }] },
+        }],
+        { examId: 'e1', studentId: 's1' }
+    )
+    assert.equal(scores.length, 1)
+    assert.equal(scores[0].score, 4)
+    assert.equal(scores[0].isCorrect, true)
+})
+
+test('graph answer keys are validated before publishing', () => {
+    assert.equal(validateAnswerKey('TEXT', answerKey), null)
+    assert.equal(validateAnswerKey('TEXT', { ...answerKey, reference: graph({}) }), 'Reference graph has no function, point, line or area')
+    assert.equal(
+        validateAnswerKey('TEXT', { ...answerKey, reference: graph({ functions: [{ id: 'f', expression: 'x +* 2' }] }) }),
+        'Function x +* 2 cannot be evaluated'
+    )
+    assert.equal(validateAnswerKey('TEXT', { ...answerKey, tolerance: -1 }), 'Invalid graph answer key')
+})
+
+test('graph expressions only accept known names', () => {
+    assert.equal(compileExpression('sin(x) + 2e-3 * pi')?.(0), 0.002 * Math.PI)
+    assert.equal(compileExpression('process.exit(1)'), null)
+    assert.equal(compileExpression('x.constructor'), null)
+})
@@ -0,0 +1,97 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    applyLiveMessage,
+    EMPTY_LIVE_PROCTORING_STATE,
+    formatPresenceAge,
+    getQuestionLabels,
+    isPresent,
+    LIVE_FEED_SIZE,
+    PRESENCE_TIMEOUT_MS,
+    type LiveProctorMessage,
+} from '../lib/proctoring/liveState'
+import { analyzeAttemptProctoring } from '../lib/proctoring/patternAnalysis'
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 9, 0, seconds))
+
+test('the attempt analysis counts events and scores external pastes', () => {
+    const analysis = analyzeAttemptProctoring([
+        { type: 'FOCUS_LOST', timestamp: at(0), metadata: {} },
+        { type: 'PASTE', timestamp: at(10), metadata: { isExternal: true } },
+        { type: 'PASTE', timestamp: at(20), metadata: { isExternal: false } },
+    ], [{ questionId: 'q1', savedAt: at(3) }])
+
+    assert.equal(analysis.totalEvents, 3)
+    assert.deepEqual(analysis.eventCounts, {
+        FOCUS_LOST: 1, FOCUS_GAINED: 0, TAB_SWITCH: 0, FULLSCREEN_EXIT: 0, INACTIVITY: 0, MULTI_SESSION: 0, COPY: 0, PASTE: 2,
+    })
+    assert.equal(analysis.externalPastes, 1)
+    assert.equal(analysis.internalPastes, 1)
+    assert.equal(analysis.focusLossPattern.totalAnswers, 1)
+    assert.ok(analysis.antiCheatScore > 0)
+    assert.equal(analyzeAttemptProctoring([], []).antiCheatScore, 0)
+})
+
+test('pushed messages update presence, analysis, submission and the feed', () => {
+    const analysis = analyzeAttemptProctoring([{ type: 'COPY', timestamp: at(5), metadata: {} }], [])
+    const event: LiveProctorMessage = {
+        type: 'event',
+        attemptId: 'a1',
+        event: { id: 'e1', type: 'COPY', timestamp: at(5).toISOString(), metadata: null },
+        analysis,
+    }
+    const messages: LiveProctorMessage[] = [
+        { type: 'presence', presence: { a1: { lastHeartbeatAt: at(0).toISOString(), questionId: null } } },
+        { type: 'heartbeat', attemptId: 'a1', presence: { lastHeartbeatAt: at(4).toISOString(), questionId: 'q2' } },
+        event,
+        event,
+        { type: 'status', attemptId: 'a2', status: 'submitted', at: at(6).toISOString() },
+    ]
+    const state = messages.reduce(applyLiveMessage, EMPTY_LIVE_PROCTORING_STATE)
+
+    assert.deepEqual(state.attempts.a1, {
+        presence: { lastHeartbeatAt: at(4).toISOString(), questionId: 'q2' },
+        analysis,
+    })
+    assert.deepEqual(state.attempts.a2, { submittedAt: at(6).toISOString() })
+    assert.deepEqual(state.feed.map((entry) => [entry.id, entry.attemptId]), [['e1', 'a1']])
+    assert.deepEqual(EMPTY_LIVE_PROCTORING_STATE, { attempts: {}, feed: [] })
+})
+
+test('the feed keeps the most recent events first', () => {
+    let state = EMPTY_LIVE_PROCTORING_STATE
+    const analysis = analyzeAttemptProctoring([], [])
+    for (let i = 0; i < LIVE_FEED_SIZE + 5; i++) {
+        state = applyLiveMessage(state, {
+            type: 'event',
+            attemptId: 'a1',
+            event: { id: `e${i}`, type: 'TAB_SWITCH', timestamp: at(i).toISOString(), metadata: null },
+            analysis,
+        })
+    }
+    assert.equal(state.feed.length, LIVE_FEED_SIZE)
+    assert.equal(state.feed[0].id, `e${LIVE_FEED_SIZE + 4}`)
+})
+
+test('students are connected while heartbeats keep arriving', () => {
+    const presence = { lastHeartbeatAt: at(0).toISOString(), questionId: null }
+    const start = at(0).getTime()
+    assert.equal(isPresent(presence, start + 1000), true)
+    assert.equal(isPresent(presence, start + PRESENCE_TIMEOUT_MS), false)
+    assert.equal(isPresent(undefined, start), false)
+    assert.equal(formatPresenceAge(presence, start + 12_400), 'il y a 12 s')
+    assert.equal(formatPresenceAge(presence, start + 3 * 60_000), 'il y a 3 min')
+})
+
+test('questions are labelled as in the exam navigator', () => {
+    assert.deepEqual(getQuestionLabels([
+        { order: 1, questions: [{ id: 'q3', order: 0, customLabel: null }] },
+        {
+            order: 0,
+            questions: [
+                { id: 'q2', order: 1, customLabel: 'Bonus' },
+                { id: 'q1', order: 0, customLabel: null },
+            ],
+        },
+    ]), { q1: '1', q2: 'Bonus', q3: '3' })
+})
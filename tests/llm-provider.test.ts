@@ -0,0 +1,103 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    DEFAULT_OPENAI_MODEL,
+    createLLMProvider,
+    createMockProvider,
+    getEnvLLMProviderConfig,
+    parseLLMProviderConfig,
+    supportsVision,
+    validateLLMProviderConfig,
+} from '../lib/grading/llm-provider'
+import { GradingResponseSchema, RubricSchema } from '../lib/grading/schemas'
+
+test('stored provider configs are normalized and malformed ones rejected', () => {
+    assert.deepEqual(parseLLMProviderConfig({ provider: 'OPENAI' }), {
+        provider: 'OPENAI',
+        model: DEFAULT_OPENAI_MODEL,
+        baseUrl: null,
+        apiKey: null,
+        apiVersion: null,
+        vision: null,
+    })
+    assert.equal(parseLLMProviderConfig({ provider: 'OPENAI_COMPATIBLE', model: ' llama3 ' })?.model, 'llama3')
+    assert.equal(parseLLMProviderConfig({ provider: 'ANTHROPIC' }), null)
+    assert.equal(parseLLMProviderConfig('OPENAI'), null)
+})
+
+test('each provider requires its own fields', () => {
+    assert.equal(validateLLMProviderConfig({ provider: 'OPENAI', model: 'gpt-4o' }), null)
+    assert.equal(validateLLMProviderConfig({ provider: 'MOCK', model: '' }), null)
+    assert.match(validateLLMProviderConfig({ provider: 'OPENAI_COMPATIBLE', model: 'llama3' }) ?? '', /base URL/)
+    assert.match(
+        validateLLMProviderConfig({ provider: 'OPENAI_COMPATIBLE', model: 'llama3', baseUrl: 'ftp://models' }) ?? '',
+        /http/
+    )
+    assert.equal(
+        validateLLMProviderConfig({ provider: 'OPENAI_COMPATIBLE', model: 'llama3', baseUrl: 'http://localhost:11434/v1' }),
+        null
+    )
+    assert.match(
+        validateLLMProviderConfig({ provider: 'AZURE_OPENAI', model: 'grading', baseUrl: 'https://x.openai.azure.com' }) ?? '',
+        /API key/
+    )
+})
+
+test('environment variables select the provider', () => {
+    assert.equal(getEnvLLMProviderConfig({}), null)
+    assert.deepEqual(getEnvLLMProviderConfig({
+        LLM_PROVIDER: 'openai_compatible',
+        LLM_MODEL: 'qwen2.5',
+        LLM_BASE_URL: 'http://vllm:8000/v1',
+    }), {
+        provider: 'OPENAI_COMPATIBLE',
+        model: 'qwen2.5',
+        baseUrl: 'http://vllm:8000/v1',
+        apiKey: null,
+        apiVersion: null,
+        vision: null,
+    })
+})
+
+test('the mock provider answers deterministically and validates against the schema', async () => {
+    const provider = createLLMProvider({ provider: 'MOCK', model: 'mock' })
+    assert.equal(provider.kind, 'MOCK')
+
+    const request = {
+        schema: GradingResponseSchema,
+        schemaName: 'grading',
+        messages: [{ role: 'user' as const, content: 'Question' }],
+    }
+    const first = await provider.generateStructured(request)
+    const second = await provider.generateStructured(request)
+    assert.deepEqual(first, second)
+    assert.equal(first.output?.score, 0)
+
+    const rubric = await provider.generateStructured({ ...request, schema: RubricSchema, schemaName: 'rubric' })
+    assert.equal(rubric.output?.totalPoints, 1)
+
+    const scripted = createMockProvider((req) => req.schemaName === 'grading'
+        ? { score: 3, feedback: 'Bien', aiRationale: 'Correct' }
+        : { unexpected: true })
+    assert.equal((await scripted.generateStructured(request)).output?.score, 3)
+    assert.equal((await scripted.generateStructured({ ...request, schema: RubricSchema, schemaName: 'rubric' })).output, null)
+})
+
+test('OpenAI requires a key while compatible endpoints do not', () => {
+    assert.throws(() => createLLMProvider({ provider: 'OPENAI', model: 'gpt-4o' }), /not configured/)
+    const local = createLLMProvider({ provider: 'OPENAI_COMPATIBLE', model: 'llama3', baseUrl: 'http://localhost:11434/v1' })
+    assert.equal(local.kind, 'OPENAI_COMPATIBLE')
+    assert.equal(local.model, 'llama3')
+})
+
+test('images go to vision models, guessed from the name unless configured', () => {
+    assert.equal(supportsVision({ provider: 'OPENAI', model: 'gpt-4o-mini' }), true)
+    assert.equal(supportsVision({ provider: 'OPENAI', model: 'gpt-3.5-turbo' }), false)
+    assert.equal(supportsVision({ provider: 'OPENAI_COMPATIBLE', model: 'llama3.1:70b' }), false)
+    assert.equal(supportsVision({ provider: 'OPENAI_COMPATIBLE', model: 'Qwen/Qwen2.5-VL-7B-Instruct' }), true)
+    assert.equal(supportsVision({ provider: 'OPENAI_COMPATIBLE', model: 'llama3.1:70b', vision: true }), true)
+    assert.equal(supportsVision({ provider: 'AZURE_OPENAI', model: 'gpt-4o', vision: false }), false)
+    assert.equal(supportsVision({ provider: 'MOCK', model: 'mock' }), true)
+    assert.equal(parseLLMProviderConfig({ provider: 'OPENAI', vision: 'yes' })?.vision, null)
+    assert.equal(getEnvLLMProviderConfig({ LLM_PROVIDER: 'openai_compatible', LLM_VISION: 'true' })?.vision, true)
+})
@@ -0,0 +1,225 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import {
+    decodeJwt,
+    generateToolKeyPair,
+    nowInSeconds,
+    signHs256Jwt,
+    signRs256Jwt,
+    toPublicJwk,
+    verifyHs256Jwt,
+    verifyRs256Jwt,
+} from '../lib/lti/jwt'
+import {
+    LTI_CLAIMS,
+    buildDeepLinkingResponse,
+    buildScorePayload,
+    canAutoLinkLtiUser,
+    getScoresUrl,
+    mapLtiRoles,
+    validateLaunchClaims,
+} from '../lib/lti/messages'
+import { createFakePlatform } from '../lib/lti/fake-platform'
+import { claimLtiTokenId } from '../lib/lti/replay'
+
+const toolKey = generateToolKeyPair()
+const toolJwk = toPublicJwk(toolKey, 'lms-config-1')
+
+const listen = (server: Server) =>
+    new Promise<string>((resolve) => {
+        server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    })
+
+const close = (server: Server) => new Promise<void>((resolve) => server.close(() => resolve()))
+
+test('RS256 tokens verify against the matching JWKS key only', () => {
+    const now = nowInSeconds()
+    const token = signRs256Jwt({ sub: 'user', iat: now, exp: now + 60 }, toolKey, 'lms-config-1')
+    assert.equal(verifyRs256Jwt(token, [toolJwk]).payload.sub, 'user')
+
+    const otherJwk = toPublicJwk(generateToolKeyPair(), 'lms-config-1')
+    assert.throws(() => verifyRs256Jwt(token, [otherJwk]), /Invalid JWT signature/)
+    assert.throws(() => verifyRs256Jwt(token, [{ ...toolJwk, kid: 'rotated' }]), /No matching key/)
+
+    const [header, , signature] = token.split('.')
+    const forged = `${header}.${Buffer.from(JSON.stringify({ sub: 'admin', exp: now + 60 })).toString('base64url')}.${signature}`
+    assert.throws(() => verifyRs256Jwt(forged, [toolJwk]), /Invalid JWT signature/)
+
+    const expired = signRs256Jwt({ sub: 'user', exp: now - 120 }, toolKey, 'lms-config-1')
+    assert.throws(() => verifyRs256Jwt(expired, [toolJwk]), /expired/)
+})
+
+test('HS256 tokens reject another secret and unsigned headers', () => {
+    const now = nowInSeconds()
+    const token = signHs256Jwt({ typ: 'lti-state', state: 's1', exp: now + 60 }, 'secret')
+    assert.equal(verifyHs256Jwt(token, 'secret').state, 's1')
+    assert.throws(() => verifyHs256Jwt(token, 'other'), /Invalid token/)
+
+    const unsigned = `${Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url')}.${token.split('.')[1]}.x`
+    assert.throws(() => verifyHs256Jwt(unsigned, 'secret'), /Invalid token/)
+})
+
+test('mapLtiRoles maps instructors to teachers and everyone else to students', () => {
+    assert.equal(mapLtiRoles(['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor']), 'TEACHER')
+    assert.equal(mapLtiRoles(['http://purl.imsglobal.org/vocab/lis/v2/institution/person#Administrator']), 'TEACHER')
+    assert.equal(mapLtiRoles(['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner']), 'STUDENT')
+    assert.equal(mapLtiRoles(undefined), 'STUDENT')
+})
+
+test('canAutoLinkLtiUser links only students and teachers of the platform institution', () => {
+    const account = { role: 'STUDENT', institutionId: 'inst-1', archivedAt: null }
+    assert.equal(canAutoLinkLtiUser(account, 'inst-1'), true)
+    assert.equal(canAutoLinkLtiUser({ ...account, role: 'TEACHER' }, 'inst-1'), true)
+    assert.equal(canAutoLinkLtiUser({ ...account, role: 'SCHOOL_ADMIN' }, 'inst-1'), false)
+    assert.equal(canAutoLinkLtiUser({ ...account, role: 'PLATFORM_ADMIN', institutionId: null }, 'inst-1'), false)
+    assert.equal(canAutoLinkLtiUser({ ...account, institutionId: null }, 'inst-1'), false)
+    assert.equal(canAutoLinkLtiUser({ ...account, institutionId: 'inst-2' }, 'inst-1'), false)
+    assert.equal(canAutoLinkLtiUser({ ...account, archivedAt: new Date() }, 'inst-1'), false)
+})
+
+test('validateLaunchClaims reads fake platform launches and rejects mismatched claims', () => {
+    const platform = createFakePlatform({ issuer: 'http://lms.test', toolUrl: 'http://tool.test' })
+    platform.resourceLinks.set('link-1', { title: 'Midterm', custom: { exam_id: 'exam-1' } })
+    const registration = { issuer: platform.issuer, clientId: platform.clientId, deploymentId: platform.deploymentId }
+    const verify = (token: string, nonce = 'n-1') =>
+        validateLaunchClaims(verifyRs256Jwt(token, platform.jwks.keys).payload, registration, nonce)
+
+    const launch = verify(platform.issueIdToken({ user: platform.users.student, nonce: 'n-1', resourceLinkId: 'link-1' }))
+    assert.equal(launch.messageType, 'LtiResourceLinkRequest')
+    assert.equal(launch.role, 'STUDENT')
+    assert.equal(launch.email, 'student@lms.test')
+    assert.equal(launch.resourceLinkId, 'link-1')
+    assert.deepEqual(launch.custom, { exam_id: 'exam-1' })
+    assert.equal(launch.lineItemUrl, 'http://lms.test/lineitems/link-1')
+
+    const deepLinking = verify(platform.issueIdToken({ user: platform.users.teacher, nonce: 'n-1', deepLinking: true }))
+    assert.equal(deepLinking.role, 'TEACHER')
+    assert.deepEqual(deepLinking.deepLinking, { returnUrl: 'http://lms.test/deep-link-return', data: 'fake-data' })
+
+    const student = platform.users.student
+    assert.throws(() => verify(platform.issueIdToken({ user: student, nonce: 'n-1', resourceLinkId: 'link-1' }), 'n-2'), /nonce/)
+    assert.throws(
+        () => verify(platform.issueIdToken({ user: student, nonce: 'n-1', resourceLinkId: 'link-1', overrides: { aud: 'other-tool' } })),
+        /audience/
+    )
+    assert.throws(
+        () => verify(platform.issueIdToken({
+            user: student,
+            nonce: 'n-1',
+            resourceLinkId: 'link-1',
+            overrides: { [LTI_CLAIMS.deploymentId]: 'deployment-2' },
+        })),
+        /deployment/
+    )
+    assert.throws(
+        () => verify(platform.issueIdToken({ user: student, nonce: 'n-1', resourceLinkId: 'link-1', overrides: { iss: 'http://evil.test' } })),
+        /issuer/
+    )
+})
+
+test('fake platform completes the OIDC login, deep linking and score passback over HTTP', async () => {
+    const tool = createServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ keys: [toolJwk] }))
+    })
+    const toolUrl = await listen(tool)
+
+    let handler: ReturnType<typeof createFakePlatform>['handleRequest'] | null = null
+    const lms = createServer((req, res) => {
+        void handler?.(req, res)
+    })
+    const lmsUrl = await listen(lms)
+    const platform = createFakePlatform({ issuer: lmsUrl, toolUrl })
+    handler = platform.handleRequest
+
+    try {
+        // OIDC authorization request answered with an auto-posted id_token
+        const auth = new URL(platform.registration.authLoginUrl)
+        auth.search = new URLSearchParams({
+            client_id: platform.clientId,
+            redirect_uri: `${toolUrl}/api/lti/launch`,
+            login_hint: 'teacher',
+            lti_message_hint: 'deep-linking',
+            state: 'state-1',
+            nonce: 'nonce-1',
+        }).toString()
+        const html = await (await fetch(auth)).text()
+        const idToken = html.match(/name="id_token" value="([^"]+)"/)?.[1] ?? ''
+        const platformKeys = (await (await fetch(platform.registration.jwksUrl)).json()).keys
+        const launch = validateLaunchClaims(
+            verifyRs256Jwt(idToken, platformKeys).payload,
+            { issuer: platform.issuer, clientId: platform.clientId, deploymentId: null },
+            'nonce-1'
+        )
+        assert.equal(launch.messageType, 'LtiDeepLinkingRequest')
+
+        // Deep Linking response signed with the tool key places the exam
+        const response = signRs256Jwt(
+            buildDeepLinkingResponse({
+                issuer: platform.issuer,
+                clientId: platform.clientId,
+                deploymentId: launch.deploymentId,
+                data: launch.deepLinking?.data ?? null,
+                exam: { id: 'exam-1', title: 'Midterm', maxScore: 20 },
+                launchUrl: `${toolUrl}/api/lti/launch`,
+            }),
+            toolKey,
+            'lms-config-1'
+        )
+        const placed = await fetch(launch.deepLinking?.returnUrl ?? '', {
+            method: 'POST',
+            body: new URLSearchParams({ JWT: response }),
+        })
+        assert.equal(placed.status, 200)
+        assert.deepEqual(platform.resourceLinks.get('link-1'), { title: 'Midterm', custom: { exam_id: 'exam-1' } })
+
+        // AGS: client credentials token, then a score on the line item
+        const now = nowInSeconds()
+        const assertion = signRs256Jwt(
+            { iss: platform.clientId, sub: platform.clientId, aud: platform.registration.accessTokenUrl, iat: now, exp: now + 60 },
+            toolKey,
+            'lms-config-1'
+        )
+        const tokenRes = await fetch(platform.registration.accessTokenUrl, {
+            method: 'POST',
+            body: new URLSearchParams({ grant_type: 'client_credentials', client_assertion: assertion }),
+        })
+        const { access_token: accessToken } = await tokenRes.json()
+        assert.ok(accessToken)
+
+        const scoreRes = await fetch(getScoresUrl(`${lmsUrl}/lineitems/link-1`), {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${accessToken}` },
+            body: JSON.stringify(buildScorePayload({ userId: 'lms-student-1', scoreGiven: 23, scoreMaximum: 20 })),
+        })
+        assert.equal(scoreRes.status, 200)
+        assert.equal(platform.scores.length, 1)
+        assert.equal(platform.scores[0].lineItemId, 'link-1')
+        assert.equal(platform.scores[0].scoreGiven, 20)
+        assert.equal(platform.scores[0].gradingProgress, 'FullyGraded')
+
+        const forgedAssertion = signRs256Jwt(decodeJwt(assertion).payload, generateToolKeyPair(), 'lms-config-1')
+        const rejected = await fetch(platform.registration.accessTokenUrl, {
+            method: 'POST',
+            body: new URLSearchParams({ grant_type: 'client_credentials', client_assertion: forgedAssertion }),
+        })
+        assert.equal(rejected.status, 401)
+    } finally {
+        await close(lms)
+        await close(tool)
+    }
+})
+
+test('getScoresUrl appends /scores before the query string', () => {
+    assert.equal(getScoresUrl('https://lms.test/lineitems/7?type_id=1'), 'https://lms.test/lineitems/7/scores?type_id=1')
+    assert.equal(getScoresUrl('https://lms.test/lineitems/7/'), 'https://lms.test/lineitems/7/scores')
+})
+
+test('claimLtiTokenId accepts a token id once', async () => {
+    delete process.env.REDIS_URL
+    assert.equal(await claimLtiTokenId('handoff-jti-1', 240), true)
+    assert.equal(await claimLtiTokenId('handoff-jti-1', 240), false)
+    assert.equal(await claimLtiTokenId('handoff-jti-2', 240), true)
+})
@@ -0,0 +1,51 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    PAPER_ANSWER_REGION,
+    buildPaperLayout,
+    decodePaperQr,
+    encodePaperQr,
+    isPageUpsideDown,
+    mergePaperAnswerImage,
+    parsePaperLayout,
+} from '../lib/paper/layout'
+import { parseContent } from '../lib/content'
+
+const attemptId = '3f1c2b4a-9d8e-4f7a-b6c5-1a2b3c4d5e6f'
+
+test('round-trips the QR payload of a page', () => {
+    const text = encodePaperQr({ attemptId, page: 3 })
+    assert.equal(text, `CORRECTA-PAPER:${attemptId}:3`)
+    assert.deepEqual(decodePaperQr(text), { attemptId, page: 3 })
+    assert.deepEqual(decodePaperQr(` ${text.toUpperCase().replace('CORRECTA-PAPER', 'correcta-paper')} `), { attemptId, page: 3 })
+
+    assert.equal(decodePaperQr('https://example.com'), null)
+    assert.equal(decodePaperQr(`CORRECTA-PAPER:${attemptId}:0`), null)
+    assert.equal(decodePaperQr(`CORRECTA-PAPER:not-an-id:1`), null)
+    assert.equal(decodePaperQr(null), null)
+})
+
+test('lays out one question per page and validates stored layouts', () => {
+    const layout = buildPaperLayout(['q1', 'q2'])
+    assert.deepEqual(layout, [{ page: 1, questionId: 'q1' }, { page: 2, questionId: 'q2' }])
+    assert.deepEqual(parsePaperLayout([...layout, { page: 'x', questionId: 'q3' }, null]), layout)
+    assert.deepEqual(parsePaperLayout(null), [])
+    assert.ok(PAPER_ANSWER_REGION.yPercent + PAPER_ANSWER_REGION.heightPercent <= 100)
+})
+
+test('detects pages scanned upside down from the QR position', () => {
+    assert.equal(isPageUpsideDown(120, 2339), false)
+    assert.equal(isPageUpsideDown(2200, 2339), true)
+})
+
+test('merges page scans into the answer in print order, replacing re-scans', () => {
+    const first = mergePaperAnswerImage('', 2, 'https://files/p2-a.png')
+    const both = mergePaperAnswerImage(first, 1, 'https://files/p1.png')
+    const rescanned = mergePaperAnswerImage(both, 2, 'https://files/p2-b.png')
+
+    const segments = parseContent(rescanned)
+    assert.deepEqual(
+        segments.map((segment) => segment.type === 'image' ? [segment.id, segment.url] : null),
+        [['paper-page-1', 'https://files/p1.png'], ['paper-page-2', 'https://files/p2-b.png']]
+    )
+})
@@ -0,0 +1,139 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+
+test('interventions that lose a race with the student or another proctor are refused', async () => {
+    const stored = { id: 'attempt-1', status: 'IN_PROGRESS', pausedAt: null as Date | null, pausedSeconds: 0, extensionMinutes: 0 }
+    // What the route reads first: the attempt as it was before a concurrent change
+    let staleRead = { ...stored }
+    let submitted = false
+    const events: string[] = []
+    const published: string[] = []
+    const audited: string[] = []
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            const tx = {
+                attempt: {
+                    updateMany: async ({ where, data }: {
+                        where: { status?: string; pausedAt?: Date | null }
+                        data: { pausedAt?: Date | null; extensionMinutes?: { increment: number } }
+                    }) => {
+                        if (where.status && stored.status !== where.status) return { count: 0 }
+                        if (where.pausedAt === null && stored.pausedAt) return { count: 0 }
+                        if ('pausedAt' in data) stored.pausedAt = data.pausedAt ?? null
+                        if (data.extensionMinutes) stored.extensionMinutes += data.extensionMinutes.increment
+                        return { count: 1 }
+                    },
+                    findUniqueOrThrow: async () => ({ ...stored, examId: 'exam-1', exam: { id: 'exam-1' } }),
+                },
+                proctorEvent: {
+                    create: async ({ data }: { data: { type: string; timestamp: Date } }) => {
+                        events.push(data.type)
+                        return { id: `event-${events.length}`, ...data }
+                    },
+                },
+            }
+            return {
+                prisma: {
+                    attempt: { findUnique: async () => ({ ...staleRead, examId: 'exam-1', studentId: 'student-1' }) },
+                    $transaction: async (run: (client: typeof tx) => Promise<unknown>) => run(tx),
+                },
+            }
+        }
+        if (request === '@/lib/api-auth') {
+            return {
+                getAuthSession: async () => ({ user: { id: 'teacher-1', role: 'TEACHER', institutionId: 'inst-1' } }),
+                isTeacher: () => true,
+            }
+        }
+        if (request === '@/lib/csrf') {
+            return { verifyCsrf: () => ({ ok: true }), getCsrfCookieToken: () => null, getAllowedOrigins: () => [] }
+        }
+        if (request === '@/lib/attempt-access') {
+            return {
+                getAttemptAuthContext: async () => ({ examId: 'exam-1', studentId: 'student-1', institutionId: 'inst-1' }),
+                getTeacherAccessForAttempt: async () => true,
+            }
+        }
+        if (request === '@/lib/attemptPermissions') {
+            return { canAccessAttemptAction: () => true }
+        }
+        if (request === '@/lib/audit') {
+            return {
+                logAudit: (entry: { metadata: { action: string } }) => audited.push(entry.metadata.action),
+                getClientIp: () => null,
+            }
+        }
+        if (request === '@/lib/attempt-submission') {
+            return {
+                submissionAttemptInclude: {},
+                finalizeAttemptSubmission: async () => {
+                    if (submitted) return null
+                    submitted = true
+                    return { attempt: stored, autoScoring: {} }
+                },
+            }
+        }
+        if (request === '@/lib/proctoring/liveBus') {
+            return {
+                publishAttemptMessage: async (_id: string, message: { type: string }) => published.push(message.type),
+                publishProctorEvent: async () => undefined,
+            }
+        }
+        if (request === '@/lib/proctoring/attemptControl') {
+            return {
+                getAttemptTimingMessage: async () => ({ type: 'timing' }),
+                toProctorNotice: () => ({}),
+            }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { POST } = await import('../app/api/attempts/[id]/interventions/route')
+        const send = (body: object) => POST(
+            new Request('https://example.com/api/attempts/attempt-1/interventions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+            }) as never,
+            { params: Promise.resolve({ id: 'attempt-1' }) }
+        )
+
+        // Two proctors pause at once: both read an attempt that is not paused yet
+        assert.equal((await send({ action: 'PAUSE' })).status, 200)
+        const secondPause = await send({ action: 'PAUSE' })
+        assert.equal(secondPause.status, 409)
+        assert.equal((await secondPause.json()).error, 'ATTEMPT_ALREADY_PAUSED')
+        assert.deepEqual(events, ['PROCTOR_PAUSE'])
+
+        // Extensions add up whatever the proctor read
+        stored.pausedAt = null
+        staleRead = { ...stored }
+        assert.equal((await send({ action: 'EXTEND', minutes: 10 })).status, 200)
+        assert.equal((await send({ action: 'EXTEND', minutes: 5 })).status, 200)
+        assert.equal(stored.extensionMinutes, 15)
+
+        // The student submitted between the proctor's read and the termination
+        submitted = true
+        published.length = 0
+        audited.length = 0
+        const terminate = await send({ action: 'TERMINATE', reason: 'Fraude' })
+        assert.equal(terminate.status, 409)
+        assert.equal(events.includes('PROCTOR_TERMINATE'), false)
+        assert.deepEqual(published, [])
+        assert.deepEqual(audited, [])
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
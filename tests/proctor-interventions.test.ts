@@ -0,0 +1,97 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    getInterventionError,
+    getInterventionEventType,
+    getInterventionWrite,
+    isInterventionEvent,
+    type InterventionAttempt,
+} from '../lib/proctoring/interventions'
+import { applyAttemptLiveMessage, EMPTY_ATTEMPT_LIVE_STATE } from '../lib/proctoring/liveState'
+import { analyzeAttemptProctoring } from '../lib/proctoring/patternAnalysis'
+import { proctorInterventionSchema } from '../lib/schemas/attempts'
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 9, 0, seconds))
+
+const running: InterventionAttempt = {
+    status: 'IN_PROGRESS',
+    pausedAt: null,
+    pausedSeconds: 0,
+    extensionMinutes: 0,
+}
+
+test('interventions are refused on submitted attempts and on the wrong pause state', () => {
+    assert.equal(getInterventionError('MESSAGE', { ...running, status: 'SUBMITTED' }), 'ATTEMPT_NOT_IN_PROGRESS')
+    assert.equal(getInterventionError('PAUSE', { ...running, pausedAt: at(0) }), 'ATTEMPT_ALREADY_PAUSED')
+    assert.equal(getInterventionError('RESUME', running), 'ATTEMPT_NOT_PAUSED')
+    assert.equal(getInterventionError('EXTEND', { ...running, pausedAt: at(0) }), null)
+    assert.equal(getInterventionError('TERMINATE', running), null)
+})
+
+test('resuming gives the pause back and extensions add up', () => {
+    assert.deepEqual(getInterventionWrite({ action: 'PAUSE' }, running, at(10)), {
+        where: { status: 'IN_PROGRESS', pausedAt: null },
+        data: { pausedAt: at(10) }
+    })
+
+    const paused = { ...running, pausedAt: at(10), pausedSeconds: 30 }
+    assert.deepEqual(getInterventionWrite({ action: 'RESUME' }, paused, at(55)), {
+        where: { status: 'IN_PROGRESS', pausedAt: at(10) },
+        data: { pausedAt: null, pausedSeconds: { increment: 45 } }
+    })
+    assert.deepEqual(getInterventionWrite({ action: 'TERMINATE', reason: 'Fraude' }, paused, at(20)), {
+        where: { pausedAt: at(10) },
+        data: { pausedAt: null, pausedSeconds: { increment: 10 } }
+    })
+    assert.deepEqual(getInterventionWrite({ action: 'TERMINATE', reason: 'Fraude' }, running, at(20)).data, {})
+
+    assert.deepEqual(getInterventionWrite({ action: 'EXTEND', minutes: 10 }, { ...running, extensionMinutes: 5 }, at(0)), {
+        where: { status: 'IN_PROGRESS' },
+        data: { extensionMinutes: { increment: 10 } }
+    })
+    assert.deepEqual(getInterventionWrite({ action: 'MESSAGE', message: 'Bonjour' }, running, at(0)).data, {})
+})
+
+test('intervention events are kept out of the anti-cheat analysis', () => {
+    assert.equal(getInterventionEventType('WARNING'), 'PROCTOR_WARNING')
+    assert.equal(isInterventionEvent('PROCTOR_PAUSE'), true)
+    assert.equal(isInterventionEvent('PASTE'), false)
+
+    const analysis = analyzeAttemptProctoring([
+        { type: 'PROCTOR_WARNING', timestamp: at(0), metadata: { message: 'Attention' } },
+        { type: 'TAB_SWITCH', timestamp: at(5), metadata: {} },
+    ], [])
+    assert.equal(analysis.totalEvents, 1)
+    assert.equal(analysis.eventCounts.TAB_SWITCH, 1)
+})
+
+test('the intervention schema requires a message, a reason or valid minutes', () => {
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'WARNING', message: '  ' }).success, false)
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'TERMINATE' }).success, false)
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'EXTEND', minutes: 0 }).success, false)
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'EXTEND', minutes: 1.5 }).success, false)
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'PAUSE' }).success, true)
+    assert.equal(proctorInterventionSchema.safeParse({ action: 'RESUME' }).success, true)
+})
+
+test('the exam page state keeps each notice once and records the forced end', () => {
+    const notice = { id: 'e1', kind: 'warning' as const, text: 'Attention', at: at(0).toISOString() }
+    let state = applyAttemptLiveMessage(EMPTY_ATTEMPT_LIVE_STATE, {
+        type: 'timing',
+        deadlineAt: at(3600).toISOString(),
+        pausedAt: at(60).toISOString(),
+        remainingSeconds: 3540,
+        pauseMessage: 'Incident technique',
+    })
+    state = applyAttemptLiveMessage(state, { type: 'notice', notice })
+    state = applyAttemptLiveMessage(state, { type: 'notice', notice })
+
+    assert.equal(state.pausedAt, at(60).toISOString())
+    assert.equal(state.remainingSeconds, 3540)
+    assert.equal(state.pauseMessage, 'Incident technique')
+    assert.deepEqual(state.notices, [notice])
+    assert.equal(state.terminated, null)
+
+    state = applyAttemptLiveMessage(state, { type: 'terminated', reason: 'Fraude', at: at(120).toISOString() })
+    assert.deepEqual(state.terminated, { reason: 'Fraude', at: at(120).toISOString() })
+})
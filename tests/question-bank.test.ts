@@ -0,0 +1,60 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    MAX_BANK_TAGS,
+    buildBankSearchText,
+    getQuestionTotalPoints,
+    normalizeBankTags,
+    parseBankSearchTerms,
+    parseBankSegments,
+    summarizeBankUsage,
+} from '../lib/question-bank/snapshot'
+
+test('normalizeBankTags trims, deduplicates and caps tags', () => {
+    assert.deepEqual(normalizeBankTags(['  Intégrales ', 'intégrales', '', 'Suites  numériques', 42]), ['Intégrales', 'Suites numériques'])
+    assert.deepEqual(normalizeBankTags('not a list'), [])
+    const many = Array.from({ length: MAX_BANK_TAGS + 5 }, (_, index) => `tag-${index}`)
+    assert.equal(normalizeBankTags(many).length, MAX_BANK_TAGS)
+})
+
+test('search terms match accent-insensitive search text', () => {
+    const text = buildBankSearchText({
+        content: 'Résoudre l’Équation',
+        segments: ['Calculer la dérivée'],
+        topics: ['Analyse'],
+        learningObjectives: [],
+    })
+    const terms = parseBankSearchTerms('  EQUATION  derivee equation ')
+    assert.deepEqual(terms, ['equation', 'derivee'])
+    assert.ok(terms.every((term) => text.includes(term)))
+    assert.deepEqual(parseBankSearchTerms(null), [])
+})
+
+test('parseBankSegments drops malformed entries and sorts by order', () => {
+    const segments = parseBankSegments([
+        { order: 2, instruction: 'b', maxPoints: 3, rubric: { criteria: 'clear', levels: [] } },
+        null,
+        { order: 1, instruction: 'a', isCorrect: true },
+    ])
+    assert.deepEqual(segments.map((segment) => segment.instruction), ['a', 'b'])
+    assert.equal(segments[0].rubric, null)
+    assert.equal(segments[1].rubric?.criteria, 'clear')
+    assert.deepEqual(parseBankSegments({}), [])
+})
+
+test('getQuestionTotalPoints prefers the question maxPoints', () => {
+    assert.equal(getQuestionTotalPoints(4, [{ maxPoints: 10 }]), 4)
+    assert.equal(getQuestionTotalPoints(null, [{ maxPoints: 2 }, { maxPoints: null }, { maxPoints: 3 }]), 5)
+})
+
+test('summarizeBankUsage averages graded answers as a share of each copy', () => {
+    const stats = summarizeBankUsage([
+        { examId: 'a', totalPoints: 4, answerScores: [4, 2] },
+        { examId: 'b', totalPoints: 10, answerScores: [5, 12] },
+        { examId: 'b', totalPoints: 0, answerScores: [1] },
+    ])
+    assert.equal(stats.examCount, 2)
+    assert.equal(stats.gradedAnswerCount, 4)
+    assert.equal(stats.averageScorePercent, 75)
+    assert.deepEqual(summarizeBankUsage([]), { examCount: 0, gradedAnswerCount: 0, averageScorePercent: null })
+})
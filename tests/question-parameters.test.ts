@@ -0,0 +1,138 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    applyAttemptParameterValues,
+    drawAttemptParameterValues,
+    drawQuestionParameterValues,
+    evaluateExpression,
+    resolveQuestionParameterValues,
+    substituteParameters,
+    validateQuestionParameters,
+} from '../lib/question-parameters'
+import { buildGradingUserPrompt } from '../lib/grading/prompts'
+import type { QuestionParameter } from '../types/exams'
+
+const squareParameters: QuestionParameter[] = [
+    { name: 'a', type: 'range', min: 2, max: 9 },
+    { name: 'b', type: 'formula', expression: 'a^2 + 1' },
+]
+
+test('evaluateExpression follows operator precedence and supports functions', () => {
+    assert.equal(evaluateExpression('1 + 2 * 3'), 7)
+    assert.equal(evaluateExpression('-a^2', { a: 3 }), -9)
+    assert.equal(evaluateExpression('2^3^2'), 512)
+    assert.equal(evaluateExpression('(a + b) / 2', { a: 3, b: 5 }), 4)
+    assert.equal(evaluateExpression('round(pi, 2)'), 3.14)
+    assert.equal(evaluateExpression('sqrt(16) + abs(-1)'), 5)
+    assert.equal(evaluateExpression('max(a, 4) % 3', { a: 7 }), 1)
+})
+
+test('evaluateExpression rejects unknown names, bad syntax and non-finite results', () => {
+    assert.throws(() => evaluateExpression('x + 1'), /Unknown variable "x"/)
+    assert.throws(() => evaluateExpression('foo(2)'), /Unknown function "foo"/)
+    assert.throws(() => evaluateExpression('2 +'), /Unexpected end/)
+    assert.throws(() => evaluateExpression('2 3'), /Unexpected input/)
+    assert.throws(() => evaluateExpression('1 / 0'), /finite/)
+    assert.throws(() => evaluateExpression('process.exit()'), /Unexpected character/)
+})
+
+test('validateQuestionParameters checks names, ranges and formula order', () => {
+    assert.equal(validateQuestionParameters(squareParameters), null)
+    assert.match(
+        validateQuestionParameters([...squareParameters, { name: 'a', type: 'range', min: 0, max: 1 }]) ?? '',
+        /Duplicate/
+    )
+    assert.match(validateQuestionParameters([{ name: 'pi', type: 'range', min: 0, max: 1 }]) ?? '', /reserved/)
+    assert.match(validateQuestionParameters([{ name: 'a', type: 'range', min: 5, max: 1 }]) ?? '', /min is greater/)
+    assert.match(
+        validateQuestionParameters([
+            { name: 'b', type: 'formula', expression: 'a + 1' },
+            { name: 'a', type: 'range', min: 0, max: 1 },
+        ]) ?? '',
+        /Unknown variable "a"/
+    )
+})
+
+test('drawQuestionParameterValues is deterministic, stays on the range steps and evaluates formulas', () => {
+    const first = drawQuestionParameterValues(squareParameters, 'exam:student-1:q1')
+    assert.deepEqual(drawQuestionParameterValues(squareParameters, 'exam:student-1:q1'), first)
+    assert.ok(Number.isInteger(first.a) && first.a >= 2 && first.a <= 9)
+    assert.equal(first.b, first.a ** 2 + 1)
+
+    const stepped = drawQuestionParameterValues([{ name: 'x', type: 'range', min: 0.1, max: 0.5, step: 0.1 }], 'seed')
+    assert.ok([0.1, 0.2, 0.3, 0.4, 0.5].includes(stepped.x))
+
+    const values = new Set(
+        Array.from({ length: 30 }, (_, index) => drawQuestionParameterValues(squareParameters, `student-${index}`).a)
+    )
+    assert.ok(values.size > 1, 'students should not all get the same values')
+})
+
+test('drawQuestionParameterValues redraws when a formula fails for the drawn values', () => {
+    const parameters: QuestionParameter[] = [
+        { name: 'a', type: 'range', min: 2, max: 4 },
+        { name: 'c', type: 'formula', expression: '1 / (a - 3)' },
+    ]
+    for (let index = 0; index < 10; index += 1) {
+        const values = drawQuestionParameterValues(parameters, `seed-${index}`)
+        assert.notEqual(values.a, 3)
+    }
+})
+
+test('substituteParameters replaces placeholders in text and LaTeX and leaves the rest untouched', () => {
+    const values = { a: 3, b: 10 }
+    assert.equal(substituteParameters('Solve x^2 = {{b}} - 1 for a = {{a}}', values), 'Solve x^2 = 10 - 1 for a = 3')
+    assert.equal(substituteParameters('\\frac{{{a}}}{{{2*b}}}', values), '\\frac{3}{20}')
+    assert.equal(substituteParameters('{{0.1 + 0.2}} and {{x}}', values), '0.3 and {{x}}')
+    assert.equal(substituteParameters('{{a}}', {}), '{{a}}')
+})
+
+test('applyAttemptParameterValues instantiates content, options and rubrics with the stored draw', () => {
+    const attempt = { examId: 'exam', studentId: 'student', parameterValues: { q1: { a: 4, b: 17 } } }
+    const sections = [
+        {
+            id: 's1',
+            questions: [
+                {
+                    id: 'q1',
+                    parameters: squareParameters,
+                    content: JSON.stringify([{ id: 'm', type: 'math', latex: '{{a}}^2 + 1' }]),
+                    answerTemplate: null,
+                    segments: [{ id: 'seg', instruction: '{{b}}', rubric: { criteria: 'Expected {{b}}', levels: [] } }],
+                },
+                { id: 'q2', parameters: null, content: '{{a}}', answerTemplate: null, segments: [] },
+            ],
+        },
+    ]
+
+    const [section] = applyAttemptParameterValues(sections, attempt)
+    assert.equal(section.questions[0].content, JSON.stringify([{ id: 'm', type: 'math', latex: '4^2 + 1' }]))
+    assert.equal(section.questions[0].segments[0].instruction, '17')
+    assert.equal(section.questions[0].segments[0].rubric.criteria, 'Expected 17')
+    assert.equal(section.questions[1].content, '{{a}}')
+})
+
+test('resolveQuestionParameterValues falls back to the attempt seed when the stored draw is stale', () => {
+    const question = { id: 'q1', parameters: squareParameters }
+    const attempt = { examId: 'exam', studentId: 'student', parameterValues: { q1: { a: 4 } } }
+    const expected = drawAttemptParameterValues([question], 'exam:student')?.q1
+
+    assert.deepEqual(resolveQuestionParameterValues(question, attempt), expected)
+    assert.equal(resolveQuestionParameterValues({ id: 'q2', parameters: null }, attempt), null)
+    assert.equal(drawAttemptParameterValues([{ id: 'q2', parameters: null }], 'exam:student'), null)
+})
+
+test('buildGradingUserPrompt lists the values drawn for the student', () => {
+    const prompt = buildGradingUserPrompt({
+        question: 'Compute 4^2 + 1',
+        rubric: 'Expected 17',
+        studentAnswer: '17',
+        maxPoints: 2,
+        parameterValues: { a: 4, b: 17 },
+    })
+    assert.match(prompt, /a = 4\nb = 17/)
+    assert.doesNotMatch(
+        buildGradingUserPrompt({ question: 'Q', rubric: 'R', studentAnswer: 'A', maxPoints: 1 }),
+        /PARAMETRES/
+    )
+})
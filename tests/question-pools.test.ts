@@ -0,0 +1,95 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    allocateStrata,
+    applyAttemptQuestionSelection,
+    drawAttemptQuestionSelection,
+    drawPoolQuestions,
+    getAttemptQuestionIds,
+    getDrawnQuestionCount,
+    isQuestionInAttemptSelection,
+    parseAttemptQuestionSelection,
+    type PoolSection,
+} from '../lib/question-pools'
+
+const poolSection = (overrides: Partial<PoolSection> = {}): PoolSection => ({
+    id: 'pool',
+    poolDrawCount: 2,
+    poolStratifyBy: 'NONE',
+    questions: ['q1', 'q2', 'q3', 'q4', 'q5'].map((id) => ({ id, totalPoints: 2, difficulty: null })),
+    ...overrides,
+})
+
+test('drawPoolQuestions is deterministic per seed and draws distinct questions', () => {
+    const section = poolSection()
+    const first = drawPoolQuestions(section, 'exam:student-1')
+    assert.deepEqual(drawPoolQuestions(section, 'exam:student-1'), first)
+    assert.equal(first.length, 2)
+    assert.equal(new Set(first).size, 2)
+
+    const draws = new Set(
+        Array.from({ length: 20 }, (_, index) => drawPoolQuestions(section, `exam:student-${index}`).join(','))
+    )
+    assert.ok(draws.size > 1)
+})
+
+test('drawPoolQuestions caps the draw at the pool size', () => {
+    const drawn = drawPoolQuestions(poolSection({ poolDrawCount: 10 }), 'seed')
+    assert.deepEqual([...drawn].sort(), ['q1', 'q2', 'q3', 'q4', 'q5'])
+    assert.equal(getDrawnQuestionCount({ poolDrawCount: 10, questions: [1, 2] }), 2)
+    assert.equal(getDrawnQuestionCount({ poolDrawCount: null, questions: [1, 2, 3] }), 3)
+})
+
+test('allocateStrata splits the draw proportionally with largest remainders', () => {
+    const quotas = allocateStrata([{ key: 'EASY', size: 4 }, { key: 'HARD', size: 2 }, { key: 'MEDIUM', size: 2 }], 4)
+    assert.deepEqual(Object.fromEntries(quotas), { EASY: 2, HARD: 1, MEDIUM: 1 })
+    const capped = allocateStrata([{ key: 'A', size: 1 }, { key: 'B', size: 1 }], 5)
+    assert.deepEqual(Object.fromEntries(capped), { A: 1, B: 1 })
+})
+
+test('stratified draws give every student the same mix', () => {
+    const section = poolSection({
+        poolDrawCount: 2,
+        poolStratifyBy: 'DIFFICULTY',
+        questions: [
+            { id: 'e1', totalPoints: 1, difficulty: 'EASY' },
+            { id: 'e2', totalPoints: 1, difficulty: 'EASY' },
+            { id: 'h1', totalPoints: 3, difficulty: 'HARD' },
+            { id: 'h2', totalPoints: 3, difficulty: 'HARD' },
+        ],
+    })
+    for (let index = 0; index < 10; index += 1) {
+        const drawn = drawPoolQuestions(section, `seed-${index}`)
+        assert.equal(drawn.filter((id) => id.startsWith('e')).length, 1)
+        assert.equal(drawn.filter((id) => id.startsWith('h')).length, 1)
+    }
+})
+
+test('drawAttemptQuestionSelection only covers pool sections', () => {
+    const regular = poolSection({ id: 'regular', poolDrawCount: null })
+    assert.equal(drawAttemptQuestionSelection([regular], 'seed'), null)
+    const selection = drawAttemptQuestionSelection([regular, poolSection()], 'seed')
+    assert.deepEqual(Object.keys(selection ?? {}), ['pool'])
+})
+
+test('applyAttemptQuestionSelection keeps drawn questions in drawn order', () => {
+    const sections = [
+        { id: 'regular', questions: [{ id: 'a' }, { id: 'b' }] },
+        { id: 'pool', questions: [{ id: 'q1' }, { id: 'q2' }, { id: 'q3' }] },
+    ]
+    const selection = { pool: ['q3', 'q1', 'deleted'] }
+    const applied = applyAttemptQuestionSelection(sections, selection)
+    assert.deepEqual(applied[0].questions.map((q) => q.id), ['a', 'b'])
+    assert.deepEqual(applied[1].questions.map((q) => q.id), ['q3', 'q1'])
+    assert.equal(applyAttemptQuestionSelection(sections, null), sections)
+    assert.deepEqual([...getAttemptQuestionIds(sections, selection)], ['a', 'b', 'q3', 'q1'])
+})
+
+test('isQuestionInAttemptSelection rejects questions that were not drawn', () => {
+    const selection = { pool: ['q1'] }
+    assert.equal(isQuestionInAttemptSelection({ id: 'q1', sectionId: 'pool' }, selection), true)
+    assert.equal(isQuestionInAttemptSelection({ id: 'q2', sectionId: 'pool' }, selection), false)
+    assert.equal(isQuestionInAttemptSelection({ id: 'a', sectionId: 'regular' }, selection), true)
+    assert.equal(isQuestionInAttemptSelection({ id: 'q2', sectionId: 'pool' }, undefined), true)
+    assert.deepEqual(parseAttemptQuestionSelection({ pool: ['q1', 3], bad: 'x' }), { pool: ['q1'] })
+})
@@ -0,0 +1,45 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+    DEFAULT_REGRADE_WINDOW_DAYS,
+    MAX_REGRADE_WINDOW_DAYS,
+    clampRegradeScore,
+    getRegradeWindow,
+    getRegradeWindowDays,
+} from '../lib/regrade'
+
+const releasedAt = new Date('2026-06-01T10:00:00Z')
+
+test('regrade window length comes from the grading config', () => {
+    assert.equal(getRegradeWindowDays(null), DEFAULT_REGRADE_WINDOW_DAYS)
+    assert.equal(getRegradeWindowDays({ regradeWindowDays: 3 }), 3)
+    assert.equal(getRegradeWindowDays({ regradeWindowDays: 2.7 }), 2)
+    assert.equal(getRegradeWindowDays({ regradeWindowDays: -4 }), 0)
+    assert.equal(getRegradeWindowDays({ regradeWindowDays: 1000 }), MAX_REGRADE_WINDOW_DAYS)
+    assert.equal(getRegradeWindowDays({ regradeWindowDays: '5' }), DEFAULT_REGRADE_WINDOW_DAYS)
+})
+
+test('regrade window opens at release and closes at the deadline', () => {
+    const gradingConfig = { regradeWindowDays: 2 }
+
+    const notReleased = getRegradeWindow({ gradingConfig, releasedAt: null, now: releasedAt })
+    assert.deepEqual(notReleased, { enabled: true, deadline: null, isOpen: false })
+
+    const open = getRegradeWindow({ gradingConfig, releasedAt, now: new Date('2026-06-02T10:00:00Z') })
+    assert.equal(open.isOpen, true)
+    assert.equal(open.deadline?.toISOString(), '2026-06-03T10:00:00.000Z')
+
+    const closed = getRegradeWindow({ gradingConfig, releasedAt, now: new Date('2026-06-03T10:00:00Z') })
+    assert.equal(closed.isOpen, false)
+})
+
+test('a zero-day window disables regrade requests', () => {
+    const window = getRegradeWindow({ gradingConfig: { regradeWindowDays: 0 }, releasedAt, now: releasedAt })
+    assert.deepEqual(window, { enabled: false, deadline: null, isOpen: false })
+})
+
+test('accepted regrade scores stay within the question points', () => {
+    assert.equal(clampRegradeScore(7, 5), 5)
+    assert.equal(clampRegradeScore(-1, 5), 0)
+    assert.equal(clampRegradeScore(3.5, 5), 3.5)
+})
@@ -0,0 +1,123 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+import { NextRequest } from 'next/server'
+
+type EnrollmentRow = { userId: string; source: string; archivedAt: Date | null }
+type EnrollmentWhere = { userId?: { in: string[] }; source?: string; archivedAt?: null | { not: null } }
+
+const matches = (enrollment: EnrollmentRow, where: EnrollmentWhere) =>
+    (where.userId === undefined || where.userId.in.includes(enrollment.userId))
+    && (where.source === undefined || enrollment.source === where.source)
+    && (where.archivedAt === undefined || (where.archivedAt === null ? !enrollment.archivedAt : Boolean(enrollment.archivedAt)))
+
+test('SCIM group sync archives only the enrollments the directory created', async () => {
+    process.env.NEXTAUTH_URL = 'https://correcta.test'
+
+    const enrollments: EnrollmentRow[] = [
+        { userId: 'student-scim', source: 'SCIM', archivedAt: null },
+        { userId: 'teacher-manual', source: 'MANUAL', archivedAt: null },
+        { userId: 'student-back', source: 'SCIM', archivedAt: new Date('2026-09-01T00:00:00Z') },
+    ]
+    const users = [
+        { id: 'student-scim', role: 'STUDENT' },
+        { id: 'teacher-manual', role: 'TEACHER' },
+        { id: 'student-back', role: 'STUDENT' },
+        { id: 'student-new', role: 'STUDENT' },
+    ]
+    let deleted = 0
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            return {
+                prisma: {
+                    scimToken: {
+                        findUnique: async () => ({ id: 'token-1', institutionId: 'inst-1', lastUsedAt: new Date(), revokedAt: null }),
+                    },
+                    class: {
+                        findFirst: async () => ({
+                            id: 'class-1',
+                            name: 'Groupe A',
+                            externalId: null,
+                            courseId: 'course-1',
+                            course: { code: 'MATH', name: 'Maths' },
+                        }),
+                        update: async ({ data }: { data: { name: string } }) => ({
+                            id: 'class-1',
+                            name: data.name,
+                            externalId: null,
+                            courseId: 'course-1',
+                            course: { code: 'MATH', name: 'Maths' },
+                        }),
+                    },
+                    user: {
+                        findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+                            users.filter((user) => where.id.in.includes(user.id)),
+                    },
+                    enrollment: {
+                        findMany: async ({ where }: { where: EnrollmentWhere }) =>
+                            enrollments.filter((enrollment) => matches(enrollment, where)).map((enrollment) => ({
+                                ...enrollment,
+                                classId: 'class-1',
+                                user: { name: enrollment.userId, email: `${enrollment.userId}@school.test` },
+                            })),
+                        createMany: async ({ data }: { data: Array<{ userId: string; source: string }> }) => {
+                            data.forEach((entry) => enrollments.push({ userId: entry.userId, source: entry.source, archivedAt: null }))
+                            return { count: data.length }
+                        },
+                        updateMany: async ({ where, data }: { where: EnrollmentWhere; data: { archivedAt: Date | null } }) => {
+                            const rows = enrollments.filter((enrollment) => matches(enrollment, where))
+                            rows.forEach((enrollment) => { enrollment.archivedAt = data.archivedAt })
+                            return { count: rows.length }
+                        },
+                        deleteMany: async () => {
+                            deleted += 1
+                            return { count: 0 }
+                        },
+                    },
+                },
+            }
+        }
+        if (request === '@/lib/audit') {
+            return { logAudit: () => undefined, getClientIp: () => null }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { PUT } = await import('../app/api/scim/v2/Groups/[id]/route')
+        const res = await PUT(
+            new NextRequest('https://correcta.test/api/scim/v2/Groups/class-1', {
+                method: 'PUT',
+                headers: { Authorization: 'Bearer scim_token', 'Content-Type': 'application/scim+json' },
+                body: JSON.stringify({
+                    displayName: 'Groupe A',
+                    members: [{ value: 'student-back' }, { value: 'student-new' }],
+                }),
+            }),
+            { params: Promise.resolve({ id: 'class-1' }) }
+        )
+        assert.equal(res.status, 200)
+
+        const state = new Map(enrollments.map((enrollment) => [enrollment.userId, enrollment]))
+        assert.ok(state.get('student-scim')?.archivedAt)
+        assert.equal(state.get('teacher-manual')?.archivedAt, null)
+        assert.equal(state.get('student-back')?.archivedAt, null)
+        assert.equal(state.get('student-new')?.source, 'SCIM')
+        assert.equal(deleted, 0)
+
+        const members = (await res.json()).members.map((member: { value: string }) => member.value).sort()
+        assert.deepEqual(members, ['student-back', 'student-new', 'teacher-manual'])
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
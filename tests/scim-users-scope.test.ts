@@ -0,0 +1,87 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import Module from 'node:module'
+import path from 'node:path'
+import { NextRequest } from 'next/server'
+
+type UserRow = { id: string; email: string; role: string; institutionId: string; archivedAt: Date | null }
+type UserWhere = { id?: string; institutionId?: string; role?: { in: string[] } }
+
+const matches = (user: UserRow, where: UserWhere) =>
+    (where.id === undefined || user.id === where.id)
+    && (where.institutionId === undefined || user.institutionId === where.institutionId)
+    && (where.role === undefined || where.role.in.includes(user.role))
+
+test('SCIM Users never reads or archives accounts outside the directory roles', async () => {
+    process.env.NEXTAUTH_URL = 'https://correcta.test'
+
+    const users: UserRow[] = [
+        { id: 'teacher-1', email: 'teacher@school.test', role: 'TEACHER', institutionId: 'inst-1', archivedAt: null },
+        { id: 'admin-1', email: 'admin@school.test', role: 'SCHOOL_ADMIN', institutionId: 'inst-1', archivedAt: null },
+    ]
+    const updates: string[] = []
+    const toRow = (user: UserRow) => ({
+        ...user,
+        name: user.email,
+        externalId: null,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+    })
+
+    const moduleApi = Module as unknown as {
+        _load: (request: string, parent: unknown, isMain: boolean) => unknown
+    }
+    const originalLoad = moduleApi._load
+    moduleApi._load = function (request: string, parent: unknown, isMain: boolean) {
+        if (request === '@/lib/prisma') {
+            return {
+                prisma: {
+                    scimToken: {
+                        findUnique: async () => ({ id: 'token-1', institutionId: 'inst-1', lastUsedAt: new Date(), revokedAt: null }),
+                    },
+                    user: {
+                        findFirst: async ({ where }: { where: UserWhere }) => {
+                            const user = users.find((entry) => matches(entry, where))
+                            return user ? toRow(user) : null
+                        },
+                        update: async ({ where }: { where: UserWhere }) => {
+                            const user = users.find((entry) => matches(entry, where))
+                            assert.ok(user)
+                            updates.push(user.id)
+                            return toRow(user)
+                        },
+                    },
+                },
+            }
+        }
+        if (request === '@/lib/audit') {
+            return { logAudit: () => undefined, getClientIp: () => null }
+        }
+        if (request.startsWith('@/')) {
+            const resolved = path.join(process.cwd(), '.test-dist', request.slice(2))
+            return originalLoad(resolved, parent, isMain)
+        }
+        return originalLoad(request, parent, isMain)
+    }
+
+    try {
+        const { GET, DELETE } = await import('../app/api/scim/v2/Users/[id]/route')
+        const send = (handler: typeof GET, id: string, method: string) => handler(
+            new NextRequest(`https://correcta.test/api/scim/v2/Users/${id}`, {
+                method,
+                headers: { Authorization: 'Bearer scim_token' },
+            }),
+            { params: Promise.resolve({ id }) }
+        )
+
+        assert.equal((await send(GET, 'teacher-1', 'GET')).status, 200)
+        assert.equal((await send(GET, 'admin-1', 'GET')).status, 404)
+
+        assert.equal((await send(DELETE, 'admin-1', 'DELETE')).status, 404)
+        assert.deepEqual(updates, [])
+        assert.equal((await send(DELETE, 'teacher-1', 'DELETE')).status, 204)
+        assert.deepEqual(updates, ['teacher-1'])
+    } finally {
+        moduleApi._load = originalLoad
+    }
+})
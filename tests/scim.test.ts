@@ -0,0 +1,143 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { matchesScimFilter, parseScimFilter, scimFilterToWhere } from '../lib/scim/filter'
+import { applyScimPatch, parsePatchRequest } from '../lib/scim/patch'
+import { ScimError, SCIM_SCHEMAS, parsePagination } from '../lib/scim/protocol'
+import {
+    SCIM_GROUP_ATTRIBUTES,
+    SCIM_USER_ATTRIBUTES,
+    parseScimGroup,
+    parseScimUser,
+    toScimGroup,
+    toScimUser,
+} from '../lib/scim/resources'
+
+const baseUrl = 'https://correcta.test/api/scim/v2'
+
+const user = {
+    id: 'user-1',
+    email: 'ada@school.test',
+    name: 'Ada Lovelace',
+    role: 'STUDENT',
+    archivedAt: null,
+    externalId: 'ext-1',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+}
+
+test('parses filters with precedence, value paths and the core schema prefix', () => {
+    const filter = parseScimFilter(
+        `${SCIM_SCHEMAS.user}:userName eq "Ada@School.test" or emails[type eq "work" and value co "school"] and not (active eq false)`
+    )
+    assert.equal(filter.op, 'or')
+    if (filter.op !== 'or') return
+    assert.deepEqual(filter.left, { op: 'eq', attr: 'username', value: 'Ada@School.test' })
+    assert.equal(filter.right.op, 'and')
+
+    assert.throws(() => parseScimFilter('userName eq'), (error: unknown) =>
+        error instanceof ScimError && error.scimType === 'invalidFilter')
+    assert.throws(() => parseScimFilter('userName eq "a" extra'), ScimError)
+})
+
+test('translates filters to Prisma where clauses and rejects unknown attributes', () => {
+    assert.deepEqual(
+        scimFilterToWhere(parseScimFilter('userName eq "ada@school.test"'), SCIM_USER_ATTRIBUTES),
+        { email: { equals: 'ada@school.test', mode: 'insensitive' } }
+    )
+    assert.deepEqual(
+        scimFilterToWhere(parseScimFilter('emails[value sw "ada"] and active eq false'), SCIM_USER_ATTRIBUTES),
+        { AND: [{ email: { startsWith: 'ada', mode: 'insensitive' } }, { archivedAt: { not: null } }] }
+    )
+    assert.deepEqual(
+        scimFilterToWhere(parseScimFilter('displayName eq "Group A"'), SCIM_GROUP_ATTRIBUTES),
+        { name: { equals: 'Group A', mode: 'insensitive' } }
+    )
+    assert.throws(
+        () => scimFilterToWhere(parseScimFilter('nickName eq "x"'), SCIM_USER_ATTRIBUTES),
+        ScimError
+    )
+})
+
+test('matches filters against resources in memory', () => {
+    const resource = toScimUser(user, baseUrl)
+    assert.equal(matchesScimFilter(resource, parseScimFilter('emails[type eq "work"]')), true)
+    assert.equal(matchesScimFilter(resource, parseScimFilter('name.givenName eq "ada"')), true)
+    assert.equal(matchesScimFilter(resource, parseScimFilter('externalId pr and active eq false')), false)
+})
+
+test('applies Azure-style PATCH operations to users', () => {
+    const operations = parsePatchRequest({
+        schemas: [SCIM_SCHEMAS.patchOp],
+        Operations: [
+            { op: 'Replace', path: 'active', value: 'False' },
+            { op: 'Replace', path: 'emails[type eq "work"].value', value: 'ada.lovelace@school.test' },
+            { op: 'Add', value: { 'name.familyName': 'King', displayName: 'Ada King' } },
+            { op: 'Replace', path: 'roles[primary eq true].value', value: 'Teacher' },
+        ],
+    })
+    const resource = toScimUser(user, baseUrl)
+    const patched = applyScimPatch(resource, operations)
+
+    assert.equal(resource.active, true, 'original resource is not mutated')
+    const parsed = parseScimUser(patched)
+    assert.equal(parsed.active, false)
+    assert.equal(parsed.email, 'ada@school.test', 'userName wins over emails')
+    assert.equal(parsed.name, 'Ada King')
+    assert.equal(parsed.role, 'TEACHER')
+    assert.equal((patched.name as { familyName?: string }).familyName, 'King')
+
+    assert.throws(() => parsePatchRequest({ Operations: [{ op: 'remove' }] }), ScimError)
+    assert.throws(() => parsePatchRequest({ Operations: [{ op: 'move', path: 'x' }] }), ScimError)
+})
+
+test('adds and removes group members through PATCH', () => {
+    const group = toScimGroup(
+        { id: 'class-1', name: 'Group A', externalId: null, course: { code: 'DIRECTORY', name: 'Directory groups' } },
+        [{ userId: 'user-1', user: { name: 'Ada', email: 'ada@school.test' } }],
+        baseUrl
+    )
+    const added = applyScimPatch(group, parsePatchRequest({
+        Operations: [{ op: 'add', path: 'members', value: [{ value: 'user-2' }, { value: 'user-1' }] }],
+    }))
+    assert.deepEqual(parseScimGroup(added).memberIds, ['user-1', 'user-2'])
+
+    const removedByValue = applyScimPatch(added, parsePatchRequest({
+        Operations: [{ op: 'remove', path: 'members', value: [{ value: 'user-1' }] }],
+    }))
+    assert.deepEqual(parseScimGroup(removedByValue).memberIds, ['user-2'])
+
+    const removedByFilter = applyScimPatch(added, parsePatchRequest({
+        Operations: [{ op: 'remove', path: 'members[value eq "user-2"]' }],
+    }))
+    assert.deepEqual(parseScimGroup(removedByFilter).memberIds, ['user-1'])
+})
+
+test('maps SCIM users and groups to Correcta records', () => {
+    const scimUser = toScimUser({ ...user, archivedAt: new Date() }, baseUrl)
+    assert.equal(scimUser.userName, 'ada@school.test')
+    assert.equal(scimUser.active, false)
+    assert.equal(scimUser.meta.location, `${baseUrl}/Users/user-1`)
+
+    assert.deepEqual(parseScimUser({
+        userName: 'jdoe',
+        emails: [{ value: 'Other@School.test' }, { value: 'John.Doe@School.test', primary: true }],
+        name: { givenName: 'John', familyName: 'Doe' },
+        userType: 'Faculty',
+    }), { email: 'john.doe@school.test', name: 'John Doe', role: 'TEACHER', active: true, externalId: null })
+    assert.equal(parseScimUser({ userName: 'a@b.test' }).role, null)
+    assert.throws(() => parseScimUser({ userName: 'no-email' }), ScimError)
+
+    const parsedGroup = parseScimGroup({
+        displayName: 'TD 1',
+        [SCIM_SCHEMAS.correctaGroup]: { courseCode: 'MATH101' },
+    })
+    assert.deepEqual(parsedGroup.course, { code: 'MATH101', name: 'MATH101' })
+    assert.equal(parsedGroup.memberIds, undefined)
+    assert.equal(parseScimGroup({ displayName: 'TD 2' }).course, null)
+    assert.throws(() => parseScimGroup({ members: [] }), ScimError)
+})
+
+test('clamps pagination parameters', () => {
+    assert.deepEqual(parsePagination(new URLSearchParams('startIndex=0&count=5000')), { startIndex: 1, count: 200 })
+    assert.deepEqual(parsePagination(new URLSearchParams('startIndex=3&count=0')), { startIndex: 3, count: 0 })
+})
@@ -35,3 +35,15 @@ test('getSecurityHeaders includes CSP with required directives', () => {
     assert.ok(csp?.includes("object-src 'none'"))
     assert.ok(csp?.includes("base-uri 'self'"))
 })
+
+test('getSecurityHeaders allows form posts to configured LMS origins', () => {
+    const headers = getSecurityHeaders({
+        isProduction: true,
+        enforceCsp: true,
+        allowCamera: false,
+        allowMicrophone: false,
+        formActionOrigins: ['https://moodle.example.edu']
+    })
+    const csp = getHeaderValue(headers, 'Content-Security-Policy')
+    assert.ok(csp?.includes("form-action 'self' https://moodle.example.edu"))
+})
@@ -1,4 +1,4 @@
-export type QuestionType = 'TEXT' | 'MCQ' | 'CODE'
+export type QuestionType = 'TEXT' | 'MCQ' | 'CODE' | 'NUMERIC' | 'MATH_EXPRESSION'
 
 export type TableCell = ContentSegment[]
 
@@ -236,6 +236,100 @@ export interface Segment {
     rubric?: Rubric | null
 }
 
+export type CodeLanguage = 'python' | 'javascript'
+
+export type CodeTestCase = {
+    id: string
+    name?: string
+    input: string
+    expectedOutput: string
+    hidden: boolean
+    weight?: number
+}
+
+export type CodeQuestionConfig = {
+    language: CodeLanguage
+    starterCode: string
+    tests: CodeTestCase[]
+    timeLimitMs?: number
+    memoryLimitMb?: number
+}
+
+/** What students receive: hidden tests are stripped, only their count is kept. */
+export type StudentCodeQuestionConfig = Omit<CodeQuestionConfig, 'tests'> & {
+    tests: CodeTestCase[]
+    hiddenTestCount: number
+}
+
+export type CodeTestStatus = 'passed' | 'failed' | 'error' | 'timeout'
+
+export type CodeTestResult = {
+    testId: string
+    name?: string
+    hidden: boolean
+    status: CodeTestStatus
+    passed: boolean
+    durationMs: number
+    stdout?: string
+    stderr?: string
+    expectedOutput?: string
+}
+
+// Score of a graded answer on one rubric criterion (persisted in Grade.criteriaResults)
+export type GradeCriterionResult = {
+    name: string
+    description?: string
+    maxPoints: number
+    points: number
+    justification: string
+}
+
+export type NumericToleranceMode = 'absolute' | 'relative'
+
+/**
+ * Expected answer of a NUMERIC question. `value` is an expression and may use
+ * the question's parameters; a relative tolerance is a percentage of it.
+ */
+export type NumericAnswerKey = {
+    value: string
+    tolerance: number
+    toleranceMode: NumericToleranceMode
+    /** Accepted spellings of the unit; empty when the answer has no unit */
+    units?: string[]
+    /** Share of the points lost (0 to 1) when the unit is missing or wrong */
+    unitPenalty?: number
+}
+
+/** Reference of a MATH_EXPRESSION question, compared by numerical sampling. */
+export type MathExpressionAnswerKey = {
+    expression: string
+    variables: string[]
+}
+
+/**
+ * Reference graph of a TEXT question: each function, point, line and shaded
+ * area it contains must appear in the student's graph, within the tolerances.
+ */
+export type GraphAnswerKey = {
+    reference: GraphSegment
+    /** Largest gap (graph units) between a plotted curve or point and the expected one */
+    tolerance: number
+    /** Largest difference between the slope of a drawn line and the expected slope */
+    slopeTolerance: number
+    /** Overlap (0 to 1, intersection over union) a shaded area needs with the expected one */
+    areaOverlap: number
+}
+
+export type AnswerKey = NumericAnswerKey | MathExpressionAnswerKey | GraphAnswerKey
+
+/** Random variable of a parameterized question, e.g. `a ∈ [2..9]` or `b = a^2 + 1`. */
+export type QuestionParameter =
+    | { name: string; type: 'range'; min: number; max: number; step?: number }
+    | { name: string; type: 'formula'; expression: string }
+
+/** Values drawn for one attempt, by parameter name. */
+export type QuestionParameterValues = Record<string, number>
+
 export interface Question {
     id: string
     content: ContentSegments
@@ -248,9 +342,54 @@ export interface Question {
     customLabel?: string | null
     requireAllCorrect?: boolean
     maxPoints?: number | null
+    codeConfig?: CodeQuestionConfig | null
+    parameters?: QuestionParameter[] | null
+    answerKey?: AnswerKey | null
+    bankItemId?: string | null
     segments: Segment[]
 }
 
+// --- Question bank ---
+
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD'
+
+/** Segment stored in a bank item (ids are regenerated when inserted into an exam) */
+export type QuestionBankSegment = {
+    order: number
+    instruction: string
+    maxPoints: number | null
+    isCorrect: boolean | null
+    rubric: {
+        criteria: string | null
+        levels: unknown
+        examples: unknown
+    } | null
+}
+
+export type QuestionBankUsageStats = {
+    examCount: number
+    gradedAnswerCount: number
+    /** Average grade as a percentage of the question's points, null until an answer is graded */
+    averageScorePercent: number | null
+}
+
+export type QuestionBankItemSummary = {
+    id: string
+    type: QuestionType
+    courseId: string | null
+    courseCode: string | null
+    preview: string
+    topics: string[]
+    learningObjectives: string[]
+    difficulty: QuestionDifficulty | null
+    totalPoints: number
+    createdById: string | null
+    updatedAt: string
+    usage: QuestionBankUsageStats
+}
+
+export type PoolStratification = 'NONE' | 'DIFFICULTY' | 'POINTS'
+
 export interface Section {
     id: string
     title: string
@@ -258,6 +397,8 @@ export interface Section {
     isDefault?: boolean
     customLabel?: string | null
     introContent?: ContentSegment[] | string | null
+    poolDrawCount?: number | null // Draw N questions per attempt (null = every question)
+    poolStratifyBy?: PoolStratification
     questions: Question[]
 }
 
@@ -318,6 +459,11 @@ export interface Exam {
         correctionReleasedAt?: string | null
         gradesReleased?: boolean
         gradesReleasedAt?: string | null
+        regradeWindowDays?: number // Days after release during which students can request a regrade (0 = disabled)
+        anonymousGrading?: boolean // Graders see pseudonyms instead of student identities
+        identityRevealedAt?: string | null // Set by the audited reveal endpoint only
+        identityRevealedBy?: string | null
+        doubleGradingThreshold?: number // Gap between the two independent grades flagged for reconciliation (fraction of the question points)
     } | null
     changes?: ExamChange[]
     sections: Section[]